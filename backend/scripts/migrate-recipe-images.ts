@@ -4,7 +4,6 @@ import { PrismaService } from '../src/infrastructure/database/prisma/prisma.serv
 import { RecipeImagesService } from '../src/modules/recipes/services/recipe-images.service';
 import { Logger } from '@nestjs/common';
 import 'dotenv/config';
-import axios from 'axios';
 
 async function bootstrap() {
     const app = await NestFactory.createApplicationContext(AppModule);
@@ -34,27 +33,13 @@ async function bootstrap() {
             logger.log(`Migrating recipe ${recipe.id} - ${recipe.title} (${recipe.imageUrl})`);
 
             try {
-                // 2. Download the image
-                const response = await axios.get(recipe.imageUrl, {
-                    responseType: 'arraybuffer'
-                });
-
-                const buffer = Buffer.from(response.data);
-                const mimeType = response.headers['content-type'] || 'image/jpeg';
-
-                logger.log(`Downloaded ${buffer.length} bytes, type: ${mimeType}`);
-
-                // 3. Process and Upload using the existing service
+                // 2. Download, process and upload using the existing service
+                // (the same path the nightly recipes.migrate-legacy-image job uses).
                 // This will:
                 // - Resize/format to WebP
                 // - Upload to S3 (main + thumb)
                 // - Update DB (set imageKey, thumbKey, version, and clear imageUrl)
-                await recipeImagesService.uploadRecipeImage(
-                    recipe.id,
-                    buffer,
-                    mimeType,
-                    recipe.householdId,
-                );
+                await recipeImagesService.migrateLegacyImage(recipe.id);
 
                 logger.log(`✓ Successfully migrated recipe ${recipe.id}`);
                 successCount++;
@@ -7,11 +7,19 @@ import { HouseholdsModule } from './modules/households/households.module';
 import { ShoppingModule } from './modules/shopping/shopping.module';
 import { RecipesModule } from './modules/recipes/recipes.module';
 import { ChoresModule } from './modules/chores/chores.module';
+import { PantryModule } from './modules/pantry/pantry.module';
+import { MealPlansModule } from './modules/meal-plans/meal-plans.module';
 import { DashboardModule } from './modules/dashboard/dashboard.module';
 import { ImportModule } from './modules/import/import.module';
 import { HealthModule } from './modules/health/health.module';
 import { AuditModule } from './modules/audit/audit.module';
 import { UsersModule } from './modules/users/users.module';
+import { SettingsModule } from './modules/settings/settings.module';
+import { TrashModule } from './modules/trash/trash.module';
+import { RealtimeModule } from './modules/realtime/realtime.module';
+import { SyncModule } from './modules/sync/sync.module';
+import { NotificationsModule } from './modules/notifications/notifications.module';
+import { JobsModule } from './modules/jobs/jobs.module';
 import { TransformInterceptor } from './common/interceptors';
 import { RequestContextInterceptor } from './common/interceptors';
 import { LoggingInterceptor } from './common/interceptors';
@@ -23,6 +31,7 @@ import { LoggerModule } from './common/logger/logger.module';
 import { MonitoringModule } from './common/monitoring/monitoring.module';
 import { StorageModule } from './infrastructure/storage/storage.module';
 import { CacheModule } from './infrastructure/cache';
+import { PushModule } from './infrastructure/push';
 
 @Module({
   imports: [
@@ -30,18 +39,27 @@ import { CacheModule } from './infrastructure/cache';
     MonitoringModule,
     CacheModule,
     PrismaModule,
+    JobsModule,
     AuthModule,
     HouseholdsModule,
     ShoppingModule,
     RecipesModule,
     ChoresModule,
+    PantryModule,
+    MealPlansModule,
     DashboardModule,
     ImportModule,
     HealthModule,
     AuditModule,
     UsersModule,
+    SettingsModule,
+    TrashModule,
+    RealtimeModule,
+    SyncModule,
+    NotificationsModule,
     SupabaseModule,
     StorageModule,
+    PushModule,
   ],
   controllers: [],
   providers: [
@@ -1,3 +1,4 @@
 // Shared constants across the application
 export * from './recipe-image.constants';
 export * from './token-expiry.constants';
+export * from './permissions.constants';
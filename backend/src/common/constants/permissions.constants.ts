@@ -0,0 +1,62 @@
+/**
+ * Household roles stored on `User.role`.
+ */
+export const HOUSEHOLD_ROLES = ['Admin', 'Member', 'Kid'] as const;
+
+export type HouseholdRole = (typeof HOUSEHOLD_ROLES)[number];
+
+/**
+ * Capabilities checked by `@RequirePermission()`. Reading household data only
+ * needs membership and is not listed here.
+ */
+export const PERMISSIONS = {
+  HOUSEHOLD_MANAGE: 'household:manage',
+  MEMBERS_INVITE: 'members:invite',
+  MEMBERS_REMOVE: 'members:remove',
+  MEMBERS_CHANGE_ROLE: 'members:change-role',
+  SHOPPING_MANAGE_LISTS: 'shopping:manage-lists',
+  SHOPPING_EDIT_ITEMS: 'shopping:edit-items',
+  SHOPPING_CHECK_ITEMS: 'shopping:check-items',
+  RECIPES_EDIT: 'recipes:edit',
+  RECIPES_COOK: 'recipes:cook',
+  CHORES_MANAGE: 'chores:manage',
+  CHORES_COMPLETE_OWN: 'chores:complete-own',
+  CHORES_COMPLETE_ANY: 'chores:complete-any',
+  PANTRY_EDIT: 'pantry:edit',
+  MEAL_PLANS_EDIT: 'meal-plans:edit',
+} as const;
+
+export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
+
+/**
+ * Capability matrix per role. Kids can check off shopping items and complete
+ * the chores assigned to them; everything that edits shared household content
+ * or membership is left to Members and Admins.
+ */
+export const ROLE_PERMISSIONS: Record<HouseholdRole, readonly Permission[]> = {
+  Admin: Object.values(PERMISSIONS),
+  Member: [
+    PERMISSIONS.SHOPPING_MANAGE_LISTS,
+    PERMISSIONS.SHOPPING_EDIT_ITEMS,
+    PERMISSIONS.SHOPPING_CHECK_ITEMS,
+    PERMISSIONS.RECIPES_EDIT,
+    PERMISSIONS.RECIPES_COOK,
+    PERMISSIONS.CHORES_MANAGE,
+    PERMISSIONS.CHORES_COMPLETE_OWN,
+    PERMISSIONS.CHORES_COMPLETE_ANY,
+    PERMISSIONS.PANTRY_EDIT,
+    PERMISSIONS.MEAL_PLANS_EDIT,
+  ],
+  Kid: [PERMISSIONS.SHOPPING_CHECK_ITEMS, PERMISSIONS.CHORES_COMPLETE_OWN],
+};
+
+/**
+ * Whether a role has a capability. Unknown roles have none.
+ */
+export function hasPermission(
+  role: string | null | undefined,
+  permission: Permission,
+): boolean {
+  const permissions = ROLE_PERMISSIONS[role as HouseholdRole];
+  return permissions ? permissions.includes(permission) : false;
+}
@@ -30,6 +30,7 @@ export const RecipeSchema = z.object({
   localId: LocalIdSchema,
   title: z.string().min(1),
   prepTime: z.number().int().min(0).optional().nullable(),
+  servings: z.number().int().min(1).optional().nullable(),
   ingredients: z.array(z.any()).default([]), // specific structure can be refined if needed
   instructions: z.array(z.any()).default([]),
   imageUrl: z.string().url().optional().nullable(),
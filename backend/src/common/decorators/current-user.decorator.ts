@@ -4,6 +4,8 @@ export interface CurrentUserPayload {
   userId: string;
   householdId: string | null;
   email?: string;
+  /** Household role; set by PermissionGuard on routes that require a permission */
+  role?: string;
 }
 
 export const CurrentUser = createParamDecorator(
@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { Permission } from '../constants/permissions.constants';
+
+export const REQUIRED_PERMISSIONS_KEY = 'requiredPermissions';
+
+/**
+ * Requires the current user's household role to have every listed capability.
+ * Enforced by PermissionGuard, which must run after JwtAuthGuard and HouseholdGuard.
+ */
+export const RequirePermission = (...permissions: Permission[]) =>
+  SetMetadata(REQUIRED_PERMISSIONS_KEY, permissions);
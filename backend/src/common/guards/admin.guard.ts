@@ -0,0 +1,31 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { CurrentUserPayload } from '../decorators/current-user.decorator';
+import { loadConfiguration } from '../../config/configuration';
+
+/**
+ * Restricts a route to operators listed in ADMIN_EMAILS.
+ * Must run after JwtAuthGuard.
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest();
+    const user: CurrentUserPayload = request.user;
+
+    if (!user) {
+      throw new ForbiddenException('User not authenticated');
+    }
+
+    const adminEmails = loadConfiguration().admin.emails;
+    if (!user.email || !adminEmails.includes(user.email.toLowerCase())) {
+      throw new ForbiddenException('Admin access required');
+    }
+
+    return true;
+  }
+}
@@ -1,2 +1,4 @@
 export * from './jwt-auth.guard';
 export * from './household.guard';
+export * from './admin.guard';
+export * from './permission.guard';
@@ -0,0 +1,92 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PermissionGuard } from './permission.guard';
+import { PrismaService } from '../../infrastructure/database/prisma/prisma.service';
+import { CurrentUserPayload } from '../decorators/current-user.decorator';
+import { PERMISSIONS, Permission } from '../constants/permissions.constants';
+
+describe('PermissionGuard', () => {
+  const mockPrisma = {
+    householdMembership: { findUnique: jest.fn() },
+  };
+  const reflector = new Reflector();
+  const guard = new PermissionGuard(
+    reflector,
+    mockPrisma as unknown as PrismaService,
+  );
+
+  const createContext = (
+    user: CurrentUserPayload | undefined,
+    required?: Permission[],
+  ): ExecutionContext => {
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(required);
+    return {
+      switchToHttp: () => ({ getRequest: () => ({ user }) }),
+      getHandler: () => undefined,
+      getClass: () => undefined,
+    } as unknown as ExecutionContext;
+  };
+
+  const user = (): CurrentUserPayload => ({
+    userId: 'user-1',
+    householdId: 'household-1',
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should allow routes without required permissions', async () => {
+    const context = createContext(user());
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(mockPrisma.householdMembership.findUnique).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['Admin', PERMISSIONS.MEMBERS_INVITE],
+    ['Member', PERMISSIONS.RECIPES_EDIT],
+    ['Kid', PERMISSIONS.SHOPPING_CHECK_ITEMS],
+    ['Kid', PERMISSIONS.CHORES_COMPLETE_OWN],
+  ])('should allow %s to %s', async (role, permission) => {
+    mockPrisma.householdMembership.findUnique.mockResolvedValue({ role });
+    const currentUser = user();
+
+    await expect(
+      guard.canActivate(createContext(currentUser, [permission])),
+    ).resolves.toBe(true);
+    expect(currentUser.role).toBe(role);
+  });
+
+  it.each([
+    ['Member', PERMISSIONS.MEMBERS_INVITE],
+    ['Kid', PERMISSIONS.SHOPPING_MANAGE_LISTS],
+    ['Kid', PERMISSIONS.RECIPES_EDIT],
+    ['Kid', PERMISSIONS.CHORES_COMPLETE_ANY],
+    ['Guest', PERMISSIONS.SHOPPING_CHECK_ITEMS],
+  ])('should forbid %s from %s', async (role, permission) => {
+    mockPrisma.householdMembership.findUnique.mockResolvedValue({ role });
+
+    await expect(
+      guard.canActivate(createContext(user(), [permission])),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should forbid users who are no longer members of the token household', async () => {
+    mockPrisma.householdMembership.findUnique.mockResolvedValue(null);
+
+    await expect(
+      guard.canActivate(
+        createContext(user(), [PERMISSIONS.SHOPPING_CHECK_ITEMS]),
+      ),
+    ).rejects.toThrow('User does not belong to this household');
+  });
+
+  it('should forbid unauthenticated requests', async () => {
+    await expect(
+      guard.canActivate(
+        createContext(undefined, [PERMISSIONS.SHOPPING_CHECK_ITEMS]),
+      ),
+    ).rejects.toThrow('User not authenticated');
+  });
+});
@@ -0,0 +1,68 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PrismaService } from '../../infrastructure/database/prisma/prisma.service';
+import { CurrentUserPayload } from '../decorators/current-user.decorator';
+import { REQUIRED_PERMISSIONS_KEY } from '../decorators/require-permission.decorator';
+import { Permission, hasPermission } from '../constants/permissions.constants';
+
+/**
+ * Checks the capabilities listed with @RequirePermission() against the user's
+ * role in the token's household. The role is read from the membership rather
+ * than the token so role changes and removals apply immediately. Routes without the decorator pass through.
+ * Must run after JwtAuthGuard and HouseholdGuard.
+ */
+@Injectable()
+export class PermissionGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private prisma: PrismaService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const required = this.reflector.getAllAndOverride<Permission[]>(
+      REQUIRED_PERMISSIONS_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!required || required.length === 0) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const user: CurrentUserPayload = request.user;
+    if (!user) {
+      throw new ForbiddenException('User not authenticated');
+    }
+
+    const member = user.householdId
+      ? await this.prisma.householdMembership.findUnique({
+          where: {
+            userId_householdId: {
+              userId: user.userId,
+              householdId: user.householdId,
+            },
+          },
+          select: { role: true },
+        })
+      : null;
+    if (!member) {
+      throw new ForbiddenException('User does not belong to this household');
+    }
+
+    const missing = required.filter(
+      (permission) => !hasPermission(member.role, permission),
+    );
+    if (missing.length > 0) {
+      throw new ForbiddenException(
+        `Your household role does not allow this action (${missing.join(', ')})`,
+      );
+    }
+
+    user.role = member.role;
+    return true;
+  }
+}
@@ -1,2 +1,3 @@
 // Shared utility functions
 export * from './household.utils';
+export * from './timezone.utils';
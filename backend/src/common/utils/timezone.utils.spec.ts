@@ -0,0 +1,130 @@
+import { TimeZoneUtils } from './timezone.utils';
+
+describe('TimeZoneUtils', () => {
+  describe('isValidTimeZone', () => {
+    it.each([
+      ['UTC', true],
+      ['Asia/Jerusalem', true],
+      ['America/New_York', true],
+      ['Mars/Olympus_Mons', false],
+      ['', false],
+    ])('with %p returns %p', (timeZone, expected) => {
+      expect(TimeZoneUtils.isValidTimeZone(timeZone)).toBe(expected);
+    });
+  });
+
+  describe('getZonedParts', () => {
+    it('returns the local date and time in the timezone', () => {
+      const parts = TimeZoneUtils.getZonedParts(
+        new Date('2026-03-14T22:30:00.000Z'),
+        'Asia/Jerusalem',
+      );
+
+      expect(parts).toEqual({
+        year: 2026,
+        month: 3,
+        day: 15,
+        hour: 0,
+        minute: 30,
+        weekday: 0,
+      });
+    });
+  });
+
+  describe('zonedDayRange', () => {
+    it.each([
+      [
+        'a date-only string',
+        '2026-03-15',
+        'Asia/Jerusalem',
+        '2026-03-14T22:00:00.000Z',
+        '2026-03-15T22:00:00.000Z',
+      ],
+      [
+        'an instant late in the local evening',
+        '2026-03-16T03:00:00.000Z',
+        'America/New_York',
+        '2026-03-15T04:00:00.000Z',
+        '2026-03-16T04:00:00.000Z',
+      ],
+      [
+        'the day clocks move forward',
+        '2026-03-08',
+        'America/New_York',
+        '2026-03-08T05:00:00.000Z',
+        '2026-03-09T04:00:00.000Z',
+      ],
+      [
+        'a date in UTC',
+        '2026-03-15',
+        'UTC',
+        '2026-03-15T00:00:00.000Z',
+        '2026-03-16T00:00:00.000Z',
+      ],
+    ])(
+      'covers the local day of %s',
+      (_label, reference, timeZone, from, to) => {
+        const range = TimeZoneUtils.zonedDayRange(reference, timeZone);
+
+        expect(range.from.toISOString()).toBe(from);
+        expect(range.to.toISOString()).toBe(to);
+      },
+    );
+  });
+
+  describe('calendarDate', () => {
+    it.each([
+      ['a date-only string', '2026-03-15', 'America/New_York', '2026-03-15'],
+      [
+        'an instant after local midnight',
+        '2026-03-14T22:30:00.000Z',
+        'Asia/Jerusalem',
+        '2026-03-15',
+      ],
+      [
+        'an instant before local midnight',
+        '2026-03-16T03:00:00.000Z',
+        'America/New_York',
+        '2026-03-15',
+      ],
+    ])('returns the local day of %s', (_label, reference, timeZone, day) => {
+      expect(
+        TimeZoneUtils.calendarDate(reference, timeZone).toISOString(),
+      ).toBe(`${day}T00:00:00.000Z`);
+    });
+  });
+
+  describe('toWallClock / fromWallClock', () => {
+    it('converts an instant to its local wall clock and back', () => {
+      const instant = new Date('2026-03-14T22:30:15.250Z');
+
+      const wallClock = TimeZoneUtils.toWallClock(instant, 'Asia/Jerusalem');
+
+      expect(wallClock.toISOString()).toBe('2026-03-15T00:30:15.250Z');
+      expect(
+        TimeZoneUtils.fromWallClock(wallClock, 'Asia/Jerusalem').toISOString(),
+      ).toBe(instant.toISOString());
+    });
+
+    it('uses the offset in effect at the wall-clock time across DST', () => {
+      // Israel moves to UTC+3 on 2026-03-27
+      expect(
+        TimeZoneUtils.fromWallClock(
+          new Date('2026-03-27T09:00:00.000Z'),
+          'Asia/Jerusalem',
+        ).toISOString(),
+      ).toBe('2026-03-27T06:00:00.000Z');
+    });
+  });
+
+  describe('startOfCalendarDate', () => {
+    it('returns local midnight of the calendar date', () => {
+      const start = TimeZoneUtils.startOfCalendarDate(
+        new Date('2026-03-15T00:00:00.000Z'),
+        'Asia/Jerusalem',
+      );
+
+      expect(start.toISOString()).toBe('2026-03-14T22:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/** Calendar date and wall-clock time of an instant in a given timezone. */
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Utility functions for interpreting instants in an IANA timezone
+ * (e.g. "Asia/Jerusalem") without a timezone library.
+ */
+export class TimeZoneUtils {
+  /**
+   * Whether the runtime knows the given IANA timezone.
+   */
+  static isValidTimeZone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Splits an instant into its local date and time in a timezone.
+   */
+  static getZonedParts(date: Date, timeZone: string): ZonedDateParts {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+    const value = (type: Intl.DateTimeFormatPartTypes) =>
+      parts.find((part) => part.type === type)?.value ?? '';
+
+    return {
+      year: Number(value('year')),
+      month: Number(value('month')),
+      day: Number(value('day')),
+      hour: Number(value('hour')),
+      minute: Number(value('minute')),
+      weekday: WEEKDAYS.indexOf(value('weekday')),
+    };
+  }
+
+  /**
+   * Returns the instant local midnight starts on a calendar day in a
+   * timezone. Days are given as year, month (1-12) and day; out-of-range
+   * days roll over like `Date.UTC`.
+   */
+  static startOfZonedDay(
+    year: number,
+    month: number,
+    day: number,
+    timeZone: string,
+  ): Date {
+    return this.fromWallClock(
+      new Date(Date.UTC(year, month - 1, day)),
+      timeZone,
+    );
+  }
+
+  /**
+   * Returns an instant's local date and time in a timezone as a floating
+   * wall-clock value stored in UTC fields, so `getUTC*` and `Date.UTC` math
+   * work on the local calendar.
+   */
+  static toWallClock(date: Date, timeZone: string): Date {
+    return new Date(date.getTime() + this.offsetMs(date.getTime(), timeZone));
+  }
+
+  /**
+   * Returns the instant a floating wall-clock value (see `toWallClock`)
+   * falls on in a timezone.
+   */
+  static fromWallClock(wallClock: Date, timeZone: string): Date {
+    const local = wallClock.getTime();
+    // Correct twice so times where the offset changes (DST) still land on
+    // the intended local time
+    let instant = local - this.offsetMs(local, timeZone);
+    instant = local - this.offsetMs(instant, timeZone);
+    return new Date(instant);
+  }
+
+  /**
+   * Returns the local day containing a reference as an inclusive start and
+   * exclusive end. A date-only string ("2026-03-15") names the day itself;
+   * any other value is read as an instant.
+   */
+  static zonedDayRange(
+    reference: Date | string,
+    timeZone: string,
+  ): { from: Date; to: Date } {
+    const { year, month, day } = this.localDay(reference, timeZone);
+
+    return {
+      from: this.startOfZonedDay(year, month, day, timeZone),
+      to: this.startOfZonedDay(year, month, day + 1, timeZone),
+    };
+  }
+
+  /**
+   * Returns the local day containing a reference as a floating calendar
+   * date, stored at UTC midnight. References are read like `zonedDayRange`.
+   */
+  static calendarDate(reference: Date | string, timeZone: string): Date {
+    const { year, month, day } = this.localDay(reference, timeZone);
+    return new Date(Date.UTC(year, month - 1, day));
+  }
+
+  /**
+   * Returns the instant a floating calendar date (stored at UTC midnight)
+   * starts in a timezone.
+   */
+  static startOfCalendarDate(date: Date, timeZone: string): Date {
+    return this.startOfZonedDay(
+      date.getUTCFullYear(),
+      date.getUTCMonth() + 1,
+      date.getUTCDate(),
+      timeZone,
+    );
+  }
+
+  private static localDay(
+    reference: Date | string,
+    timeZone: string,
+  ): Pick<ZonedDateParts, 'year' | 'month' | 'day'> {
+    const dateOnly =
+      typeof reference === 'string' ? DATE_ONLY_PATTERN.exec(reference) : null;
+    return dateOnly
+      ? {
+          year: Number(dateOnly[1]),
+          month: Number(dateOnly[2]),
+          day: Number(dateOnly[3]),
+        }
+      : this.getZonedParts(new Date(reference), timeZone);
+  }
+
+  /**
+   * Offset of the timezone from UTC at an instant, in milliseconds.
+   */
+  private static offsetMs(instant: number, timeZone: string): number {
+    const parts = this.getZonedParts(new Date(instant), timeZone);
+    const asUtc = Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+    );
+    const wholeMinute = instant - (((instant % 60000) + 60000) % 60000);
+    return asUtc - wholeMinute;
+  }
+}
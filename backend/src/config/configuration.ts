@@ -48,6 +48,11 @@ export interface AppConfig {
     smtpPass?: string;
     from: string;
     verificationTokenExpiryHours: number;
+    passwordResetTokenExpiryMinutes: number;
+  };
+  /** Operators allowed to use /admin endpoints (lower-cased emails). */
+  admin: {
+    emails: string[];
   };
 }
 
@@ -126,8 +131,16 @@ export const loadConfiguration = (): AppConfig => {
             from: env.EMAIL_FROM,
             verificationTokenExpiryHours:
               env.EMAIL_VERIFICATION_TOKEN_EXPIRY_HOURS,
+            passwordResetTokenExpiryMinutes:
+              env.PASSWORD_RESET_TOKEN_EXPIRY_MINUTES,
           }
         : undefined,
+    admin: {
+      emails: (env.ADMIN_EMAILS ?? '')
+        .split(',')
+        .map((email) => email.trim().toLowerCase())
+        .filter(Boolean),
+    },
   };
 
   return config;
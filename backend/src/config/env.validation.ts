@@ -99,6 +99,33 @@ const envSchema = z
       .pipe(z.number().int().positive())
       .optional()
       .default('24'),
+    PASSWORD_RESET_TOKEN_EXPIRY_MINUTES: z
+      .string()
+      .transform(Number)
+      .pipe(z.number().int().positive())
+      .optional()
+      .default('60'),
+    /**
+     * Push notifications. "log" only logs messages (local development);
+     * "fcm" delivers through Firebase Cloud Messaging (Android and iOS).
+     */
+    PUSH_PROVIDER: z.enum(['log', 'fcm']).optional().default('log'),
+    FCM_PROJECT_ID: z.string().optional(),
+    FCM_CLIENT_EMAIL: z.string().email().optional(),
+    FCM_PRIVATE_KEY: z.string().optional(),
+    /**
+     * Background jobs. Set to false on instances that should only serve API
+     * traffic; jobs are then run by the other instances.
+     */
+    JOBS_WORKER_ENABLED: z
+      .enum(['true', 'false'])
+      .optional()
+      .default('true')
+      .transform((value) => value === 'true'),
+    /**
+     * Comma-separated emails of operators allowed to use /admin endpoints.
+     */
+    ADMIN_EMAILS: z.string().optional(),
     /**
      * Optional full URLs for in-app / store legal links. When unset, the API
      * derives URLs from AUTH_BACKEND_BASE_URL + /privacy and /terms.
@@ -114,6 +141,13 @@ const envSchema = z
         message: 'AUTH_SKIP_EMAIL_VERIFICATION cannot be true in production',
       });
     }
+    if (env.PUSH_PROVIDER === 'fcm' && !env.FCM_PROJECT_ID) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['FCM_PROJECT_ID'],
+        message: 'FCM_PROJECT_ID is required when PUSH_PROVIDER is fcm',
+      });
+    }
   });
 
 export type EnvConfig = z.infer<typeof envSchema>;
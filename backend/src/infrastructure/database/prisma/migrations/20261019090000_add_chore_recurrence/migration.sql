@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "chores" ADD COLUMN "recurrence" JSONB,
+ADD COLUMN "series_id" TEXT,
+ADD COLUMN "occurrence" INTEGER NOT NULL DEFAULT 1;
+
+-- Backfill structured rules from the legacy free-form repeat column
+UPDATE "chores"
+SET "recurrence" = jsonb_build_object('frequency', lower("repeat"), 'interval', 1)
+WHERE lower("repeat") IN ('daily', 'weekly', 'monthly');
+
+-- CreateIndex
+CREATE INDEX "chores_series_id_occurrence_idx" ON "chores"("series_id", "occurrence");
@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "chore_completions" (
+    "id" TEXT NOT NULL,
+    "chore_id" TEXT NOT NULL,
+    "household_id" TEXT NOT NULL,
+    "user_id" UUID NOT NULL,
+    "completed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "chore_completions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "chore_completions_chore_id_idx" ON "chore_completions"("chore_id");
+
+-- CreateIndex
+CREATE INDEX "chore_completions_household_id_completed_at_idx" ON "chore_completions"("household_id", "completed_at");
+
+-- CreateIndex
+CREATE INDEX "chore_completions_user_id_completed_at_idx" ON "chore_completions"("user_id", "completed_at");
+
+-- AddForeignKey
+ALTER TABLE "chore_completions" ADD CONSTRAINT "chore_completions_chore_id_fkey" FOREIGN KEY ("chore_id") REFERENCES "chores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chore_completions" ADD CONSTRAINT "chore_completions_household_id_fkey" FOREIGN KEY ("household_id") REFERENCES "households"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chore_completions" ADD CONSTRAINT "chore_completions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: record existing completions against the assignee, when known
+INSERT INTO "chore_completions" ("id", "chore_id", "household_id", "user_id", "completed_at")
+SELECT 'backfill_' || c."id", c."id", c."household_id", c."assignee_id", c."completed_at"
+FROM "chores" c
+WHERE c."is_completed" = true
+  AND c."completed_at" IS NOT NULL
+  AND c."assignee_id" IS NOT NULL;
+
+-- Row level security (household-scoped)
+ALTER TABLE "chore_completions" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Household access to chore completions" ON "chore_completions"
+  FOR ALL USING (household_id = get_my_household_id())
+  WITH CHECK (household_id = get_my_household_id());
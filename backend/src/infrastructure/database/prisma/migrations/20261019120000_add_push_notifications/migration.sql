@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "chores" ADD COLUMN     "reminder" TEXT,
+ADD COLUMN     "remind_at" TIMESTAMP(3),
+ADD COLUMN     "reminder_sent_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "device_tokens" (
+    "id" TEXT NOT NULL,
+    "user_id" UUID NOT NULL,
+    "token" TEXT NOT NULL,
+    "platform" TEXT NOT NULL,
+    "last_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "device_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "device_tokens_token_key" ON "device_tokens"("token");
+
+-- CreateIndex
+CREATE INDEX "device_tokens_user_id_idx" ON "device_tokens"("user_id");
+
+-- CreateIndex
+CREATE INDEX "chores_remind_at_reminder_sent_at_idx" ON "chores"("remind_at", "reminder_sent_at");
+
+-- AddForeignKey
+ALTER TABLE "device_tokens" ADD CONSTRAINT "device_tokens_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Row level security (user-scoped)
+ALTER TABLE "device_tokens" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their own device tokens" ON "device_tokens"
+  FOR ALL USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
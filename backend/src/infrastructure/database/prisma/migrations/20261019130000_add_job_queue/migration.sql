@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "jobs" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "payload" JSONB NOT NULL DEFAULT '{}',
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "max_attempts" INTEGER NOT NULL DEFAULT 5,
+    "run_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "schedule_key" TEXT,
+    "locked_by" TEXT,
+    "locked_until" TIMESTAMP(3),
+    "last_error" TEXT,
+    "completed_at" TIMESTAMP(3),
+    "failed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "jobs_status_run_at_idx" ON "jobs"("status", "run_at");
+
+-- CreateIndex
+CREATE INDEX "jobs_status_locked_until_idx" ON "jobs"("status", "locked_until");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "jobs_schedule_key_run_at_key" ON "jobs"("schedule_key", "run_at");
+
+-- Row level security: internal table, no policies, so API roles (anon /
+-- authenticated) cannot read or write jobs; the backend connects as owner.
+ALTER TABLE "jobs" ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "pantry_items" (
+    "id" TEXT NOT NULL,
+    "household_id" TEXT NOT NULL,
+    "catalog_item_id" TEXT,
+    "custom_item_id" TEXT,
+    "name" TEXT NOT NULL,
+    "category" TEXT,
+    "quantity" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "unit" TEXT,
+    "location" TEXT NOT NULL DEFAULT 'pantry',
+    "expires_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "deleted_at" TIMESTAMP(3),
+
+    CONSTRAINT "pantry_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "pantry_items_household_id_idx" ON "pantry_items"("household_id");
+
+-- CreateIndex
+CREATE INDEX "pantry_items_household_id_expires_at_idx" ON "pantry_items"("household_id", "expires_at");
+
+-- CreateIndex
+CREATE INDEX "pantry_items_catalog_item_id_idx" ON "pantry_items"("catalog_item_id");
+
+-- CreateIndex
+CREATE INDEX "pantry_items_custom_item_id_idx" ON "pantry_items"("custom_item_id");
+
+-- AddForeignKey
+ALTER TABLE "pantry_items" ADD CONSTRAINT "pantry_items_household_id_fkey" FOREIGN KEY ("household_id") REFERENCES "households"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pantry_items" ADD CONSTRAINT "pantry_items_catalog_item_id_fkey" FOREIGN KEY ("catalog_item_id") REFERENCES "master_grocery_catalog"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pantry_items" ADD CONSTRAINT "pantry_items_custom_item_id_fkey" FOREIGN KEY ("custom_item_id") REFERENCES "custom_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Row level security (household-scoped)
+ALTER TABLE "pantry_items" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Household access to pantry items" ON "pantry_items"
+  FOR ALL USING (household_id = get_my_household_id())
+  WITH CHECK (household_id = get_my_household_id());
@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "meal_plan_entries" (
+    "id" TEXT NOT NULL,
+    "household_id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "meal_slot" TEXT NOT NULL,
+    "recipe_id" TEXT,
+    "title" TEXT,
+    "servings" INTEGER,
+    "cook_id" UUID,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "deleted_at" TIMESTAMP(3),
+
+    CONSTRAINT "meal_plan_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "meal_plan_entries_household_id_date_idx" ON "meal_plan_entries"("household_id", "date");
+
+-- CreateIndex
+CREATE INDEX "meal_plan_entries_recipe_id_idx" ON "meal_plan_entries"("recipe_id");
+
+-- CreateIndex
+CREATE INDEX "meal_plan_entries_cook_id_idx" ON "meal_plan_entries"("cook_id");
+
+-- AddForeignKey
+ALTER TABLE "meal_plan_entries" ADD CONSTRAINT "meal_plan_entries_household_id_fkey" FOREIGN KEY ("household_id") REFERENCES "households"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "meal_plan_entries" ADD CONSTRAINT "meal_plan_entries_recipe_id_fkey" FOREIGN KEY ("recipe_id") REFERENCES "recipes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "meal_plan_entries" ADD CONSTRAINT "meal_plan_entries_cook_id_fkey" FOREIGN KEY ("cook_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Row level security (household-scoped)
+ALTER TABLE "meal_plan_entries" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Household access to meal plan entries" ON "meal_plan_entries"
+  FOR ALL USING (household_id = get_my_household_id())
+  WITH CHECK (household_id = get_my_household_id());
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "household_memberships" (
+    "id" TEXT NOT NULL,
+    "user_id" UUID NOT NULL,
+    "household_id" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'Member',
+    "joined_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "household_memberships_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "household_memberships_user_id_household_id_key" ON "household_memberships"("user_id", "household_id");
+
+-- CreateIndex
+CREATE INDEX "household_memberships_household_id_idx" ON "household_memberships"("household_id");
+
+-- AddForeignKey
+ALTER TABLE "household_memberships" ADD CONSTRAINT "household_memberships_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "household_memberships" ADD CONSTRAINT "household_memberships_household_id_fkey" FOREIGN KEY ("household_id") REFERENCES "households"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: every existing household member gets a membership with their current role
+INSERT INTO "household_memberships" ("id", "user_id", "household_id", "role", "joined_at")
+SELECT 'hm_' || md5("id"::text || "household_id"), "id", "household_id", "role", "created_at"
+FROM "users"
+WHERE "household_id" IS NOT NULL;
+
+-- Row level security: users see their own memberships and those of their active household
+ALTER TABLE "household_memberships" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can see their memberships and household members" ON "household_memberships"
+  FOR SELECT USING (user_id = auth.uid() OR household_id = get_my_household_id());
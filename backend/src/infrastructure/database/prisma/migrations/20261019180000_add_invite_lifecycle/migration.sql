@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "household_invites" ADD COLUMN     "email" TEXT,
+ADD COLUMN     "max_uses" INTEGER,
+ADD COLUMN     "use_count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "revoked_at" TIMESTAMP(3);
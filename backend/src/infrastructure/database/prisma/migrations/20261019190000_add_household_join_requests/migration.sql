@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "households" ADD COLUMN "require_join_approval" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "household_join_requests" (
+    "id" TEXT NOT NULL,
+    "household_id" TEXT NOT NULL,
+    "user_id" UUID NOT NULL,
+    "invite_id" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "decided_by_id" UUID,
+    "decided_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "household_join_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "household_join_requests_user_id_household_id_key" ON "household_join_requests"("user_id", "household_id");
+
+-- CreateIndex
+CREATE INDEX "household_join_requests_household_id_status_idx" ON "household_join_requests"("household_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "household_join_requests" ADD CONSTRAINT "household_join_requests_household_id_fkey" FOREIGN KEY ("household_id") REFERENCES "households"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "household_join_requests" ADD CONSTRAINT "household_join_requests_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Row level security: requesters see their own requests, members see their household's
+ALTER TABLE "household_join_requests" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can see their join requests and their household's" ON "household_join_requests"
+  FOR SELECT USING (user_id = auth.uid() OR household_id = get_my_household_id());
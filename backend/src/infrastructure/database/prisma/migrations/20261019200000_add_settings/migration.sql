@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "household_settings" (
+    "household_id" TEXT NOT NULL,
+    "units" TEXT NOT NULL DEFAULT 'metric',
+    "week_start_day" INTEGER NOT NULL DEFAULT 0,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "default_shopping_list_id" TEXT,
+    "default_chore_reminder" TEXT,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "household_settings_pkey" PRIMARY KEY ("household_id")
+);
+
+-- CreateTable
+CREATE TABLE "user_settings" (
+    "user_id" UUID NOT NULL,
+    "language" TEXT,
+    "timezone" TEXT,
+    "notifications" JSONB NOT NULL DEFAULT '{}',
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_settings_pkey" PRIMARY KEY ("user_id")
+);
+
+-- AddForeignKey
+ALTER TABLE "household_settings" ADD CONSTRAINT "household_settings_household_id_fkey" FOREIGN KEY ("household_id") REFERENCES "households"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "household_settings" ADD CONSTRAINT "household_settings_default_shopping_list_id_fkey" FOREIGN KEY ("default_shopping_list_id") REFERENCES "shopping_lists"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_settings" ADD CONSTRAINT "user_settings_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Row level security: household settings are shared by members, user settings are private
+ALTER TABLE "household_settings" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "user_settings" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Household access to household settings" ON "household_settings"
+  FOR ALL USING (household_id = get_my_household_id())
+  WITH CHECK (household_id = get_my_household_id());
+
+CREATE POLICY "Users can manage their own settings" ON "user_settings"
+  FOR ALL USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
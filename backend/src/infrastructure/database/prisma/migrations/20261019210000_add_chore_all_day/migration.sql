@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "chores" ADD COLUMN     "is_all_day" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "shopping_items" ADD COLUMN "claimed_by_id" UUID,
+ADD COLUMN "checked_by_id" UUID,
+ADD COLUMN "checked_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "shopping_items_claimed_by_id_idx" ON "shopping_items"("claimed_by_id");
+
+-- AddForeignKey
+ALTER TABLE "shopping_items" ADD CONSTRAINT "shopping_items_claimed_by_id_fkey" FOREIGN KEY ("claimed_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shopping_items" ADD CONSTRAINT "shopping_items_checked_by_id_fkey" FOREIGN KEY ("checked_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
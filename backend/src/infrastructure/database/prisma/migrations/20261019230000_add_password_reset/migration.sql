@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "password_reset_token_hash" TEXT,
+ADD COLUMN "password_reset_token_expiry" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "users_password_reset_token_hash_idx" ON "users"("password_reset_token_hash");
@@ -0,0 +1,19 @@
+-- Detach duplicate occurrences created by concurrent completions, keeping the
+-- oldest row of each (series_id, occurrence) pair in the series
+UPDATE "chores" SET "series_id" = NULL
+WHERE "id" IN (
+  SELECT "id" FROM (
+    SELECT "id", ROW_NUMBER() OVER (
+      PARTITION BY "series_id", "occurrence" ORDER BY "created_at", "id"
+    ) AS "rank"
+    FROM "chores"
+    WHERE "series_id" IS NOT NULL
+  ) AS "ranked"
+  WHERE "rank" > 1
+);
+
+-- DropIndex
+DROP INDEX "chores_series_id_occurrence_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chores_series_id_occurrence_key" ON "chores"("series_id", "occurrence");
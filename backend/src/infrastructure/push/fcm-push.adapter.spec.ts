@@ -0,0 +1,112 @@
+import { ConfigService } from '@nestjs/config';
+import { FcmPushAdapter } from './fcm-push.adapter';
+
+describe('FcmPushAdapter', () => {
+  const config = {
+    get: jest.fn((key: string) =>
+      key === 'FCM_PROJECT_ID' ? 'kitchen-hub' : undefined,
+    ),
+  } as unknown as ConfigService;
+  const fetchMock = jest.fn();
+  let adapter: FcmPushAdapter;
+
+  const jsonResponse = (status: number, body: unknown) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+  });
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock as unknown as typeof fetch;
+    adapter = new FcmPushAdapter(config);
+    jest
+      .spyOn(
+        adapter as unknown as { getAccessToken: () => Promise<string> },
+        'getAccessToken',
+      )
+      .mockResolvedValue('access-token');
+  });
+
+  it('throws when the project id is not configured', () => {
+    const emptyConfig = { get: jest.fn() } as unknown as ConfigService;
+
+    expect(() => new FcmPushAdapter(emptyConfig)).toThrow('FCM_PROJECT_ID');
+  });
+
+  it('posts one FCM v1 message per token with android and apns options', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { name: 'msg-1' }));
+
+    const results = await adapter.send(['token-a'], {
+      title: 'Chore due',
+      body: 'Take out trash',
+      data: { choreId: 'chore-1' },
+    });
+
+    expect(results).toEqual([{ token: 'token-a', success: true }]);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(
+      'https://fcm.googleapis.com/v1/projects/kitchen-hub/messages:send',
+    );
+    expect(init.headers.Authorization).toBe('Bearer access-token');
+    expect(JSON.parse(init.body)).toEqual({
+      message: {
+        token: 'token-a',
+        notification: { title: 'Chore due', body: 'Take out trash' },
+        data: { choreId: 'chore-1' },
+        android: { priority: 'high' },
+        apns: { payload: { aps: { sound: 'default' } } },
+      },
+    });
+  });
+
+  it.each([
+    [
+      'unregistered token',
+      404,
+      {
+        error: {
+          status: 'NOT_FOUND',
+          details: [{ errorCode: 'UNREGISTERED' }],
+        },
+      },
+    ],
+    ['malformed token', 400, { error: { status: 'INVALID_ARGUMENT' } }],
+  ])('flags a %s as invalid', async (_label, status, body) => {
+    fetchMock.mockResolvedValue(jsonResponse(status, body));
+
+    const [result] = await adapter.send(['token-a'], {
+      title: 't',
+      body: 'b',
+    });
+
+    expect(result).toEqual(
+      expect.objectContaining({ success: false, invalidToken: true }),
+    );
+  });
+
+  it('keeps the token on transient failures', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse(503, { error: { status: 'UNAVAILABLE' } }),
+    );
+
+    const [result] = await adapter.send(['token-a'], {
+      title: 't',
+      body: 'b',
+    });
+
+    expect(result).toEqual({
+      token: 'token-a',
+      success: false,
+      invalidToken: false,
+      error: 'UNAVAILABLE',
+    });
+  });
+
+  it('does not request an access token when there is nothing to send', async () => {
+    await expect(adapter.send([], { title: 't', body: 'b' })).resolves.toEqual(
+      [],
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
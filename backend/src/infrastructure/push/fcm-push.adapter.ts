@@ -0,0 +1,127 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { GoogleAuth } from 'google-auth-library';
+import {
+  PushMessage,
+  PushProviderPort,
+  PushSendResult,
+} from './push.interface';
+
+const FCM_SCOPE = 'https://www.googleapis.com/auth/firebase.messaging';
+const FCM_ENDPOINT = 'https://fcm.googleapis.com/v1/projects';
+
+/** FCM error codes that mean the token will never be deliverable again. */
+const INVALID_TOKEN_ERRORS = ['UNREGISTERED', 'INVALID_ARGUMENT'];
+
+interface FcmErrorBody {
+  error?: {
+    status?: string;
+    message?: string;
+    details?: Array<{ errorCode?: string }>;
+  };
+}
+
+/**
+ * Delivers push notifications through the FCM HTTP v1 API. FCM relays to
+ * APNs for iOS devices, so one adapter covers both platforms.
+ */
+@Injectable()
+export class FcmPushAdapter implements PushProviderPort {
+  private readonly logger = new Logger(FcmPushAdapter.name);
+  private readonly projectId: string;
+  private readonly auth: GoogleAuth;
+
+  constructor(private readonly configService: ConfigService) {
+    this.projectId = this.configService.get<string>('FCM_PROJECT_ID');
+    const clientEmail = this.configService.get<string>('FCM_CLIENT_EMAIL');
+    const privateKey = this.configService
+      .get<string>('FCM_PRIVATE_KEY')
+      ?.replace(/\\n/g, '\n');
+
+    if (!this.projectId) {
+      throw new Error('FCM_PROJECT_ID environment variable is not defined');
+    }
+
+    this.auth = new GoogleAuth({
+      scopes: [FCM_SCOPE],
+      ...(clientEmail && privateKey
+        ? {
+            credentials: { client_email: clientEmail, private_key: privateKey },
+          }
+        : {}),
+    });
+  }
+
+  async send(
+    tokens: string[],
+    message: PushMessage,
+  ): Promise<PushSendResult[]> {
+    if (tokens.length === 0) {
+      return [];
+    }
+
+    const accessToken = await this.getAccessToken();
+    return Promise.all(
+      tokens.map((token) => this.sendToToken(token, message, accessToken)),
+    );
+  }
+
+  protected async getAccessToken(): Promise<string> {
+    const accessToken = await this.auth.getAccessToken();
+    if (!accessToken) {
+      throw new Error('Failed to obtain FCM access token');
+    }
+    return accessToken;
+  }
+
+  private async sendToToken(
+    token: string,
+    message: PushMessage,
+    accessToken: string,
+  ): Promise<PushSendResult> {
+    try {
+      const response = await fetch(
+        `${FCM_ENDPOINT}/${this.projectId}/messages:send`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ message: this.buildPayload(token, message) }),
+        },
+      );
+
+      if (response.ok) {
+        return { token, success: true };
+      }
+
+      const body = (await response.json().catch(() => ({}))) as FcmErrorBody;
+      const errorCode =
+        body.error?.details?.find((detail) => detail.errorCode)?.errorCode ??
+        body.error?.status;
+      const invalidToken =
+        response.status === 404 || INVALID_TOKEN_ERRORS.includes(errorCode);
+
+      if (!invalidToken) {
+        this.logger.warn(
+          `FCM send failed (${response.status} ${errorCode ?? 'unknown'}): ${body.error?.message ?? ''}`,
+        );
+      }
+      return { token, success: false, invalidToken, error: errorCode };
+    } catch (error) {
+      this.logger.error(`FCM request failed: ${(error as Error).message}`);
+      return { token, success: false, error: (error as Error).message };
+    }
+  }
+
+  private buildPayload(token: string, message: PushMessage) {
+    return {
+      token,
+      notification: { title: message.title, body: message.body },
+      data: message.data ?? {},
+      android: { priority: 'high' },
+      apns: { payload: { aps: { sound: 'default' } } },
+    };
+  }
+}
@@ -1 +1,5 @@
 // Push notification services (FCM / APNs)
+export * from './push.interface';
+export { FcmPushAdapter } from './fcm-push.adapter';
+export { LogPushAdapter } from './log-push.adapter';
+export { PushModule } from './push.module';
@@ -0,0 +1,29 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  PushMessage,
+  PushProviderPort,
+  PushSendResult,
+} from './push.interface';
+
+/**
+ * Push provider for local development and tests: records messages in memory
+ * and logs them instead of delivering to devices.
+ */
+@Injectable()
+export class LogPushAdapter implements PushProviderPort {
+  private readonly logger = new Logger(LogPushAdapter.name);
+  readonly sent: Array<{ token: string; message: PushMessage }> = [];
+
+  async send(
+    tokens: string[],
+    message: PushMessage,
+  ): Promise<PushSendResult[]> {
+    return tokens.map((token) => {
+      this.sent.push({ token, message });
+      this.logger.log(
+        `Push to ${token.slice(0, 8)}…: ${message.title} - ${message.body}`,
+      );
+      return { token, success: true };
+    });
+  }
+}
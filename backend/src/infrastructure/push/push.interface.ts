@@ -0,0 +1,22 @@
+export const PUSH_PLATFORMS = ['ios', 'android'] as const;
+
+export type PushPlatform = (typeof PUSH_PLATFORMS)[number];
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  /** Custom key/value payload delivered to the app (values must be strings). */
+  data?: Record<string, string>;
+}
+
+export interface PushSendResult {
+  token: string;
+  success: boolean;
+  /** True when the provider reports the token as unregistered or malformed. */
+  invalidToken?: boolean;
+  error?: string;
+}
+
+export interface PushProviderPort {
+  send(tokens: string[], message: PushMessage): Promise<PushSendResult[]>;
+}
@@ -0,0 +1,25 @@
+import { Module, Global } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { FcmPushAdapter } from './fcm-push.adapter';
+import { LogPushAdapter } from './log-push.adapter';
+
+@Global()
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: 'PushProviderPort',
+      useFactory: (configService: ConfigService) => {
+        const provider =
+          configService.get<string>('PUSH_PROVIDER')?.toLowerCase() ?? 'log';
+        if (provider === 'fcm') {
+          return new FcmPushAdapter(configService);
+        }
+        return new LogPushAdapter();
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: ['PushProviderPort'],
+})
+export class PushModule {}
@@ -0,0 +1,29 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { AuthCleanupService } from '../modules/auth/services/auth-cleanup.service';
+import { JobQueueService } from '../modules/jobs/services/job-queue.service';
+import { JOB_NAMES } from '../modules/jobs/constants/job-names.constants';
+
+/**
+ * Background jobs for auth: hourly cleanup of expired refresh and email
+ * verification tokens.
+ */
+@Injectable()
+export class AuthProcessor implements OnModuleInit {
+  constructor(
+    private authCleanupService: AuthCleanupService,
+    private jobQueueService: JobQueueService,
+  ) {}
+
+  onModuleInit(): void {
+    this.jobQueueService.registerHandler(
+      JOB_NAMES.AUTH_CLEANUP_EXPIRED_TOKENS,
+      async () => {
+        await this.authCleanupService.cleanupExpiredTokens();
+      },
+    );
+    this.jobQueueService.registerSchedule(
+      JOB_NAMES.AUTH_CLEANUP_EXPIRED_TOKENS,
+      '15 * * * *',
+    );
+  }
+}
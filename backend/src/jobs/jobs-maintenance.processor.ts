@@ -0,0 +1,38 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { JobQueueService } from '../modules/jobs/services/job-queue.service';
+import { JobsRepository } from '../modules/jobs/repositories/jobs.repository';
+import { JOB_NAMES } from '../modules/jobs/constants/job-names.constants';
+import { COMPLETED_JOB_RETENTION_DAYS } from '../modules/jobs/constants/job.constants';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Keeps the job table small by purging completed jobs daily. Failed jobs are
+ * kept until an admin retries them.
+ */
+@Injectable()
+export class JobsMaintenanceProcessor implements OnModuleInit {
+  private readonly logger = new Logger(JobsMaintenanceProcessor.name);
+
+  constructor(
+    private jobQueueService: JobQueueService,
+    private jobsRepository: JobsRepository,
+  ) {}
+
+  onModuleInit(): void {
+    this.jobQueueService.registerHandler(JOB_NAMES.JOBS_PURGE_COMPLETED, () =>
+      this.purgeCompleted(),
+    );
+    this.jobQueueService.registerSchedule(
+      JOB_NAMES.JOBS_PURGE_COMPLETED,
+      '30 3 * * *',
+    );
+  }
+
+  async purgeCompleted(now: Date = new Date()): Promise<void> {
+    const deleted = await this.jobsRepository.purgeCompleted(
+      new Date(now.getTime() - COMPLETED_JOB_RETENTION_DAYS * MS_PER_DAY),
+    );
+    this.logger.log(`Purged ${deleted} completed jobs`);
+  }
+}
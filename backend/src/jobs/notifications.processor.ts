@@ -1 +1,58 @@
-// Background job for processing notifications
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { NotificationsService } from '../modules/notifications/services/notifications.service';
+import { JobQueueService } from '../modules/jobs/services/job-queue.service';
+import { JOB_NAMES } from '../modules/jobs/constants/job-names.constants';
+import { REMINDER_SCAN_SCHEDULE } from '../modules/notifications/constants/notification.constants';
+
+interface SendChoreReminderPayload {
+  choreId: string;
+}
+
+/**
+ * Background jobs for push notifications. A scan job runs every minute and
+ * claims the chore reminders that came due, then fans out one job per chore
+ * so a failed delivery is retried on its own.
+ */
+@Injectable()
+export class NotificationsProcessor implements OnModuleInit {
+  private readonly logger = new Logger(NotificationsProcessor.name);
+
+  constructor(
+    private notificationsService: NotificationsService,
+    private jobQueueService: JobQueueService,
+  ) {}
+
+  onModuleInit(): void {
+    this.jobQueueService.registerHandler(
+      JOB_NAMES.NOTIFICATIONS_SCAN_CHORE_REMINDERS,
+      () => this.scanChoreReminders(),
+    );
+    this.jobQueueService.registerHandler<SendChoreReminderPayload>(
+      JOB_NAMES.NOTIFICATIONS_SEND_CHORE_REMINDER,
+      async ({ choreId }) => {
+        await this.notificationsService.sendChoreReminder(choreId);
+      },
+    );
+    this.jobQueueService.registerSchedule(
+      JOB_NAMES.NOTIFICATIONS_SCAN_CHORE_REMINDERS,
+      REMINDER_SCAN_SCHEDULE,
+    );
+  }
+
+  /**
+   * Claims due reminders and queues a send job for each of them.
+   */
+  async scanChoreReminders(now: Date = new Date()): Promise<void> {
+    const choreIds =
+      await this.notificationsService.claimDueChoreReminders(now);
+    for (const choreId of choreIds) {
+      await this.jobQueueService.enqueue(
+        JOB_NAMES.NOTIFICATIONS_SEND_CHORE_REMINDER,
+        { choreId },
+      );
+    }
+    if (choreIds.length > 0) {
+      this.logger.log(`Queued ${choreIds.length} chore reminders`);
+    }
+  }
+}
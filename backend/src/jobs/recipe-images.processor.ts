@@ -0,0 +1,53 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { RecipeImagesService } from '../modules/recipes/services/recipe-images.service';
+import { JobQueueService } from '../modules/jobs/services/job-queue.service';
+import { JOB_NAMES } from '../modules/jobs/constants/job-names.constants';
+
+interface MigrateLegacyImagePayload {
+  recipeId: string;
+}
+
+/**
+ * Background jobs for recipe images. A nightly sweep (4 AM UTC) queues one
+ * job per recipe still pointing at a legacy image URL, so each download is
+ * retried on its own.
+ */
+@Injectable()
+export class RecipeImagesProcessor implements OnModuleInit {
+  private readonly logger = new Logger(RecipeImagesProcessor.name);
+
+  constructor(
+    private recipeImagesService: RecipeImagesService,
+    private jobQueueService: JobQueueService,
+  ) {}
+
+  onModuleInit(): void {
+    this.jobQueueService.registerHandler(
+      JOB_NAMES.RECIPES_ENQUEUE_LEGACY_IMAGE_MIGRATIONS,
+      () => this.enqueueLegacyImageMigrations(),
+    );
+    this.jobQueueService.registerHandler<MigrateLegacyImagePayload>(
+      JOB_NAMES.RECIPES_MIGRATE_LEGACY_IMAGE,
+      async ({ recipeId }) => {
+        await this.recipeImagesService.migrateLegacyImage(recipeId);
+      },
+    );
+    this.jobQueueService.registerSchedule(
+      JOB_NAMES.RECIPES_ENQUEUE_LEGACY_IMAGE_MIGRATIONS,
+      '0 4 * * *',
+    );
+  }
+
+  async enqueueLegacyImageMigrations(): Promise<void> {
+    const recipeIds = await this.recipeImagesService.findLegacyImageRecipeIds();
+    for (const recipeId of recipeIds) {
+      await this.jobQueueService.enqueue(
+        JOB_NAMES.RECIPES_MIGRATE_LEGACY_IMAGE,
+        { recipeId },
+      );
+    }
+    if (recipeIds.length > 0) {
+      this.logger.log(`Queued ${recipeIds.length} legacy image migrations`);
+    }
+  }
+}
@@ -1 +1,29 @@
-// Background job for syncing offline data
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { AuthCleanupService } from '../modules/auth/services/auth-cleanup.service';
+import { JobQueueService } from '../modules/jobs/services/job-queue.service';
+import { JOB_NAMES } from '../modules/jobs/constants/job-names.constants';
+
+/**
+ * Background jobs for offline sync: daily retention of processed
+ * idempotency keys (2 AM UTC).
+ */
+@Injectable()
+export class SyncProcessor implements OnModuleInit {
+  constructor(
+    private authCleanupService: AuthCleanupService,
+    private jobQueueService: JobQueueService,
+  ) {}
+
+  onModuleInit(): void {
+    this.jobQueueService.registerHandler(
+      JOB_NAMES.SYNC_CLEANUP_IDEMPOTENCY_KEYS,
+      async () => {
+        await this.authCleanupService.cleanupOldIdempotencyKeys();
+      },
+    );
+    this.jobQueueService.registerSchedule(
+      JOB_NAMES.SYNC_CLEANUP_IDEMPOTENCY_KEYS,
+      '0 2 * * *',
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { TrashService } from '../modules/trash/services/trash.service';
+import { JobQueueService } from '../modules/jobs/services/job-queue.service';
+import { JOB_NAMES } from '../modules/jobs/constants/job-names.constants';
+import { TRASH_PURGE_SCHEDULE } from '../modules/trash/constants/trash.constants';
+
+/**
+ * Background jobs for the household trash: a daily purge of lists, items and
+ * recipes deleted longer ago than the retention window.
+ */
+@Injectable()
+export class TrashProcessor implements OnModuleInit {
+  constructor(
+    private trashService: TrashService,
+    private jobQueueService: JobQueueService,
+  ) {}
+
+  onModuleInit(): void {
+    this.jobQueueService.registerHandler(
+      JOB_NAMES.TRASH_PURGE_EXPIRED,
+      async () => {
+        await this.trashService.purgeExpired();
+      },
+    );
+    this.jobQueueService.registerSchedule(
+      JOB_NAMES.TRASH_PURGE_EXPIRED,
+      TRASH_PURGE_SCHEDULE,
+    );
+  }
+}
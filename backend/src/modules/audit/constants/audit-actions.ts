@@ -7,10 +7,58 @@ export const AUDIT_ACTIONS = {
   DELETE_HOUSEHOLD: 'DELETE_HOUSEHOLD',
   RESTORE_RECIPE: 'RESTORE_RECIPE',
   RESTORE_LIST: 'RESTORE_LIST',
+  RESTORE_LIST_ITEM: 'RESTORE_LIST_ITEM',
   RESTORE_CHORE: 'RESTORE_CHORE',
   EXPORT_DATA: 'EXPORT_DATA',
   ADMIN_PROMOTE: 'ADMIN_PROMOTE',
   REMOVE_MEMBER: 'REMOVE_MEMBER',
+  CHANGE_ROLE: 'CHANGE_ROLE',
+  LEAVE_HOUSEHOLD: 'LEAVE_HOUSEHOLD',
+  TRANSFER_ADMIN: 'TRANSFER_ADMIN',
+  APPROVE_JOIN_REQUEST: 'APPROVE_JOIN_REQUEST',
+  REJECT_JOIN_REQUEST: 'REJECT_JOIN_REQUEST',
+  CREATE_LIST: 'CREATE_LIST',
+  UPDATE_LIST: 'UPDATE_LIST',
+  ADD_LIST_ITEMS: 'ADD_LIST_ITEMS',
+  UPDATE_LIST_ITEM: 'UPDATE_LIST_ITEM',
+  CHECK_LIST_ITEM: 'CHECK_LIST_ITEM',
+  UNCHECK_LIST_ITEM: 'UNCHECK_LIST_ITEM',
+  CREATE_RECIPE: 'CREATE_RECIPE',
+  UPDATE_RECIPE: 'UPDATE_RECIPE',
+  COOK_RECIPE: 'COOK_RECIPE',
+  CREATE_CHORE: 'CREATE_CHORE',
+  UPDATE_CHORE: 'UPDATE_CHORE',
+  COMPLETE_CHORE: 'COMPLETE_CHORE',
+  REOPEN_CHORE: 'REOPEN_CHORE',
 } as const;
 
 export type AuditAction = (typeof AUDIT_ACTIONS)[keyof typeof AUDIT_ACTIONS];
+
+/**
+ * Actions shown to every member in the household activity feed.
+ * Account-level events (account deletion, data export) stay private.
+ */
+export const HOUSEHOLD_ACTIVITY_ACTIONS: readonly AuditAction[] = [
+  AUDIT_ACTIONS.CREATE_LIST,
+  AUDIT_ACTIONS.UPDATE_LIST,
+  AUDIT_ACTIONS.RESTORE_LIST,
+  AUDIT_ACTIONS.ADD_LIST_ITEMS,
+  AUDIT_ACTIONS.UPDATE_LIST_ITEM,
+  AUDIT_ACTIONS.CHECK_LIST_ITEM,
+  AUDIT_ACTIONS.UNCHECK_LIST_ITEM,
+  AUDIT_ACTIONS.RESTORE_LIST_ITEM,
+  AUDIT_ACTIONS.CREATE_RECIPE,
+  AUDIT_ACTIONS.UPDATE_RECIPE,
+  AUDIT_ACTIONS.COOK_RECIPE,
+  AUDIT_ACTIONS.RESTORE_RECIPE,
+  AUDIT_ACTIONS.CREATE_CHORE,
+  AUDIT_ACTIONS.UPDATE_CHORE,
+  AUDIT_ACTIONS.COMPLETE_CHORE,
+  AUDIT_ACTIONS.REOPEN_CHORE,
+  AUDIT_ACTIONS.RESTORE_CHORE,
+  AUDIT_ACTIONS.REMOVE_MEMBER,
+  AUDIT_ACTIONS.CHANGE_ROLE,
+  AUDIT_ACTIONS.LEAVE_HOUSEHOLD,
+  AUDIT_ACTIONS.TRANSFER_ADMIN,
+  AUDIT_ACTIONS.APPROVE_JOIN_REQUEST,
+];
@@ -3,3 +3,9 @@
  * Used when no explicit limit is provided to avoid unbounded result sets.
  */
 export const DEFAULT_AUDIT_LOG_LIMIT = 100;
+
+/**
+ * Maximum number of item names stored with a single activity entry
+ * (e.g. items added to a list at once); the rest are only counted.
+ */
+export const MAX_ACTIVITY_ITEM_NAMES = 5;
@@ -6,6 +6,7 @@ export const ENTITY_TYPES = {
   HOUSEHOLD: 'HOUSEHOLD',
   RECIPE: 'RECIPE',
   SHOPPING_LIST: 'SHOPPING_LIST',
+  SHOPPING_ITEM: 'SHOPPING_ITEM',
   CHORE: 'CHORE',
 } as const;
 
@@ -9,6 +9,10 @@ describe('AuditRepository', () => {
     auditLog: {
       create: jest.fn(),
       findMany: jest.fn(),
+      count: jest.fn(),
+    },
+    user: {
+      findMany: jest.fn(),
     },
   };
 
@@ -136,4 +140,48 @@ describe('AuditRepository', () => {
       });
     });
   });
+
+  describe('findHouseholdActivity', () => {
+    it('should return a page of the given actions with the total', async () => {
+      mockPrismaService.auditLog.findMany.mockResolvedValue([]);
+      mockPrismaService.auditLog.count.mockResolvedValue(42);
+
+      const result = await repository.findHouseholdActivity(
+        'household-1',
+        ['CREATE_CHORE', 'COMPLETE_CHORE'],
+        { skip: 20, take: 10 },
+      );
+
+      const where = {
+        householdId: 'household-1',
+        action: { in: ['CREATE_CHORE', 'COMPLETE_CHORE'] },
+      };
+      expect(result).toEqual({ items: [], total: 42 });
+      expect(mockPrismaService.auditLog.findMany).toHaveBeenCalledWith({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: 20,
+        take: 10,
+      });
+      expect(mockPrismaService.auditLog.count).toHaveBeenCalledWith({ where });
+    });
+  });
+
+  describe('findActors', () => {
+    it('should select the public profile of each user', async () => {
+      mockPrismaService.user.findMany.mockResolvedValue([]);
+
+      await repository.findActors(['user-1', 'user-2']);
+
+      expect(mockPrismaService.user.findMany).toHaveBeenCalledWith({
+        where: { id: { in: ['user-1', 'user-2'] } },
+        select: { id: true, name: true, avatarUrl: true },
+      });
+    });
+
+    it('should not query when there are no users', async () => {
+      expect(await repository.findActors([])).toEqual([]);
+      expect(mockPrismaService.user.findMany).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -12,6 +12,13 @@ export interface CreateAuditLogInput {
   metadata?: Record<string, unknown>;
 }
 
+/** Member who performed an audited action. */
+export interface AuditActor {
+  id: string;
+  name: string | null;
+  avatarUrl: string | null;
+}
+
 @Injectable()
 export class AuditRepository {
   constructor(private prisma: PrismaService) {}
@@ -59,4 +66,43 @@ export class AuditRepository {
       take: limit,
     });
   }
+
+  /**
+   * Finds a page of a household's audit logs limited to the given actions,
+   * ordered by creation date descending, with the total count.
+   */
+  async findHouseholdActivity(
+    householdId: string,
+    actions: readonly string[],
+    pagination: { skip: number; take: number },
+  ): Promise<{ items: PrismaAuditLog[]; total: number }> {
+    const where: Prisma.AuditLogWhereInput = {
+      householdId,
+      action: { in: [...actions] },
+    };
+    const [items, total] = await Promise.all([
+      this.prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: pagination.skip,
+        take: pagination.take,
+      }),
+      this.prisma.auditLog.count({ where }),
+    ]);
+    return { items, total };
+  }
+
+  /**
+   * Finds the users who performed audited actions. Audit logs outlive their
+   * users, so deleted users are simply missing from the result.
+   */
+  async findActors(userIds: string[]): Promise<AuditActor[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+    return this.prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, name: true, avatarUrl: true },
+    });
+  }
 }
@@ -9,6 +9,8 @@ describe('AuditService', () => {
     create: jest.fn(),
     findByUserId: jest.fn(),
     findByHouseholdId: jest.fn(),
+    findHouseholdActivity: jest.fn(),
+    findActors: jest.fn(),
   };
 
   beforeEach(async () => {
@@ -131,6 +133,156 @@ describe('AuditService', () => {
     });
   });
 
+  describe('logLeaveHousehold', () => {
+    it('should create audit log for a member leaving', async () => {
+      mockAuditRepository.create.mockResolvedValue({});
+
+      await service.logLeaveHousehold('member-1', 'household-1');
+
+      expect(mockAuditRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'member-1',
+          householdId: 'household-1',
+          action: 'LEAVE_HOUSEHOLD',
+          entityType: 'USER',
+          entityId: 'member-1',
+        }),
+      );
+    });
+  });
+
+  describe('logAdminTransfer', () => {
+    it('should create audit log for admin transfer', async () => {
+      mockAuditRepository.create.mockResolvedValue({});
+
+      await service.logAdminTransfer('admin-1', 'household-1', {
+        memberId: 'member-1',
+        previousRole: 'Member',
+      });
+
+      expect(mockAuditRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'admin-1',
+          householdId: 'household-1',
+          action: 'TRANSFER_ADMIN',
+          entityType: 'USER',
+          entityId: 'member-1',
+          metadata: { memberId: 'member-1', previousRole: 'Member' },
+        }),
+      );
+    });
+  });
+
+  describe('logJoinRequestDecision', () => {
+    it.each([
+      [true, 'APPROVE_JOIN_REQUEST'],
+      [false, 'REJECT_JOIN_REQUEST'],
+    ])(
+      'should log approved=%s as %s against the requester',
+      async (approved, action) => {
+        mockAuditRepository.create.mockResolvedValue({});
+
+        await service.logJoinRequestDecision('admin-1', 'household-1', {
+          requestId: 'request-1',
+          requesterId: 'user-2',
+          approved,
+        });
+
+        expect(mockAuditRepository.create).toHaveBeenCalledWith(
+          expect.objectContaining({
+            userId: 'admin-1',
+            householdId: 'household-1',
+            action,
+            entityType: 'USER',
+            entityId: 'user-2',
+            metadata: { requestId: 'request-1' },
+          }),
+        );
+      },
+    );
+  });
+
+  describe('logActivity', () => {
+    const activity = {
+      action: 'COMPLETE_CHORE' as const,
+      entityType: 'CHORE' as const,
+      entityId: 'chore-1',
+      metadata: { name: 'Take out trash' },
+    };
+
+    it('should create an audit log for the household', async () => {
+      mockAuditRepository.create.mockResolvedValue({});
+
+      await service.logActivity('user-1', 'household-1', activity);
+
+      expect(mockAuditRepository.create).toHaveBeenCalledWith({
+        userId: 'user-1',
+        householdId: 'household-1',
+        ...activity,
+      });
+    });
+
+    it('should not throw when the audit log cannot be written', async () => {
+      mockAuditRepository.create.mockRejectedValue(new Error('db down'));
+
+      await expect(
+        service.logActivity('user-1', 'household-1', activity),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('getHouseholdActivity', () => {
+    it('should only request actions meant for the household feed', async () => {
+      mockAuditRepository.findHouseholdActivity.mockResolvedValue({
+        items: [],
+        total: 0,
+      });
+      mockAuditRepository.findActors.mockResolvedValue([]);
+
+      await service.getHouseholdActivity('household-1', { skip: 0, take: 20 });
+
+      const [, actions, pagination] =
+        mockAuditRepository.findHouseholdActivity.mock.calls[0];
+      expect(actions).toEqual(
+        expect.arrayContaining(['CREATE_LIST', 'COMPLETE_CHORE']),
+      );
+      expect(actions).not.toContain('DELETE_ACCOUNT');
+      expect(actions).not.toContain('EXPORT_DATA');
+      expect(pagination).toEqual({ skip: 0, take: 20 });
+    });
+
+    it('should attach each actor once, and null for deleted users', async () => {
+      const actor = { id: 'user-1', name: 'Dana', avatarUrl: null };
+      mockAuditRepository.findHouseholdActivity.mockResolvedValue({
+        items: [
+          { id: 'log-1', userId: 'user-1' },
+          { id: 'log-2', userId: 'user-1' },
+          { id: 'log-3', userId: 'user-gone' },
+          { id: 'log-4', userId: null },
+        ],
+        total: 4,
+      });
+      mockAuditRepository.findActors.mockResolvedValue([actor]);
+
+      const result = await service.getHouseholdActivity('household-1', {
+        skip: 0,
+        take: 20,
+      });
+
+      expect(mockAuditRepository.findActors).toHaveBeenCalledWith([
+        'user-1',
+        'user-gone',
+      ]);
+      expect(result.total).toBe(4);
+      expect(result.items.map((item) => item.actor)).toEqual([
+        actor,
+        actor,
+        null,
+        null,
+      ]);
+    });
+  });
+
   describe('getUserAuditTrail', () => {
     it('should return audit logs for user', async () => {
       const logs = [{ id: '1', action: 'EXPORT_DATA' }];
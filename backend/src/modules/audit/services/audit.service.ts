@@ -1,9 +1,30 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { AuditRepository } from '../repositories/audit.repository';
-import { AUDIT_ACTIONS } from '../constants/audit-actions';
-import { ENTITY_TYPES } from '../constants/entity-types';
+import { AuditActor, AuditRepository } from '../repositories/audit.repository';
+import {
+  AUDIT_ACTIONS,
+  AuditAction,
+  HOUSEHOLD_ACTIVITY_ACTIONS,
+} from '../constants/audit-actions';
+import { ENTITY_TYPES, EntityType } from '../constants/entity-types';
 import { AuditLog } from '@prisma/client';
 
+/**
+ * A change to household content recorded for the activity feed.
+ */
+export interface ActivityInput {
+  action: AuditAction;
+  entityType: EntityType;
+  entityId: string;
+  /** Details shown in the feed, e.g. the entity's name at the time. */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * An activity feed entry with the member who performed it, or null if
+ * that member's account no longer exists.
+ */
+export type HouseholdActivityEntry = AuditLog & { actor: AuditActor | null };
+
 @Injectable()
 export class AuditService {
   private readonly logger = new Logger(AuditService.name);
@@ -95,6 +116,7 @@ export class AuditService {
     userId: string,
     householdId: string,
     recipeId: string,
+    name?: string,
   ): Promise<void> {
     await this.auditRepository.create({
       userId,
@@ -102,6 +124,7 @@ export class AuditService {
       action: AUDIT_ACTIONS.RESTORE_RECIPE,
       entityType: ENTITY_TYPES.RECIPE,
       entityId: recipeId,
+      metadata: name ? { name } : undefined,
     });
   }
 
@@ -112,6 +135,7 @@ export class AuditService {
     userId: string,
     householdId: string,
     listId: string,
+    name?: string,
   ): Promise<void> {
     await this.auditRepository.create({
       userId,
@@ -119,6 +143,7 @@ export class AuditService {
       action: AUDIT_ACTIONS.RESTORE_LIST,
       entityType: ENTITY_TYPES.SHOPPING_LIST,
       entityId: listId,
+      metadata: name ? { name } : undefined,
     });
   }
 
@@ -158,6 +183,164 @@ export class AuditService {
     this.logger.log('Audit: member removed', { householdId, memberId });
   }
 
+  /**
+   * Logs a change of a member's household role.
+   */
+  async logRoleChange(
+    userId: string,
+    householdId: string,
+    metadata: { memberId: string; previousRole: string; role: string },
+  ): Promise<void> {
+    await this.auditRepository.create({
+      userId,
+      householdId,
+      action: AUDIT_ACTIONS.CHANGE_ROLE,
+      entityType: ENTITY_TYPES.USER,
+      entityId: metadata.memberId,
+      metadata: metadata as Record<string, unknown>,
+    });
+    this.logger.log('Audit: member role changed', {
+      userId,
+      householdId,
+      ...metadata,
+    });
+  }
+
+  /**
+   * Logs a member leaving a household on their own.
+   */
+  async logLeaveHousehold(userId: string, householdId: string): Promise<void> {
+    await this.auditRepository.create({
+      userId,
+      householdId,
+      action: AUDIT_ACTIONS.LEAVE_HOUSEHOLD,
+      entityType: ENTITY_TYPES.USER,
+      entityId: userId,
+    });
+    this.logger.log('Audit: member left household', { userId, householdId });
+  }
+
+  /**
+   * Logs an admin handing the admin role to another member.
+   */
+  async logAdminTransfer(
+    userId: string,
+    householdId: string,
+    metadata: { memberId: string; previousRole: string },
+  ): Promise<void> {
+    await this.auditRepository.create({
+      userId,
+      householdId,
+      action: AUDIT_ACTIONS.TRANSFER_ADMIN,
+      entityType: ENTITY_TYPES.USER,
+      entityId: metadata.memberId,
+      metadata: metadata as Record<string, unknown>,
+    });
+    this.logger.log('Audit: admin transferred', {
+      userId,
+      householdId,
+      ...metadata,
+    });
+  }
+
+  /**
+   * Logs an admin approving or rejecting a request to join the household.
+   */
+  async logJoinRequestDecision(
+    userId: string,
+    householdId: string,
+    metadata: { requestId: string; requesterId: string; approved: boolean },
+  ): Promise<void> {
+    await this.auditRepository.create({
+      userId,
+      householdId,
+      action: metadata.approved
+        ? AUDIT_ACTIONS.APPROVE_JOIN_REQUEST
+        : AUDIT_ACTIONS.REJECT_JOIN_REQUEST,
+      entityType: ENTITY_TYPES.USER,
+      entityId: metadata.requesterId,
+      metadata: { requestId: metadata.requestId },
+    });
+    this.logger.log('Audit: join request decided', {
+      userId,
+      householdId,
+      ...metadata,
+    });
+  }
+
+  /**
+   * Records a change to shopping lists, recipes or chores in the household
+   * activity feed. Best effort: a failed write is logged and never fails the
+   * change it describes.
+   *
+   * @param userId - The member who made the change
+   * @param householdId - The household the change belongs to
+   * @param activity - What changed
+   */
+  async logActivity(
+    userId: string | undefined,
+    householdId: string,
+    activity: ActivityInput,
+  ): Promise<void> {
+    try {
+      await this.auditRepository.create({
+        userId,
+        householdId,
+        action: activity.action,
+        entityType: activity.entityType,
+        entityId: activity.entityId,
+        metadata: activity.metadata,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to record ${activity.action} for ${activity.entityId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+  }
+
+  /**
+   * Gets a page of the household activity feed, newest first. Only actions
+   * meant for every member are included.
+   *
+   * @param householdId - The household ID
+   * @param pagination - Entries to skip and take
+   * @returns Entries with their actors, and the total number of entries
+   */
+  async getHouseholdActivity(
+    householdId: string,
+    pagination: { skip: number; take: number },
+  ): Promise<{ items: HouseholdActivityEntry[]; total: number }> {
+    const { items, total } = await this.auditRepository.findHouseholdActivity(
+      householdId,
+      HOUSEHOLD_ACTIVITY_ACTIONS,
+      pagination,
+    );
+
+    const actorIds = [
+      ...new Set(
+        items
+          .map((item) => item.userId)
+          .filter((id): id is string => Boolean(id)),
+      ),
+    ];
+    const actors = new Map(
+      (await this.auditRepository.findActors(actorIds)).map((actor) => [
+        actor.id,
+        actor,
+      ]),
+    );
+
+    return {
+      items: items.map((item) => ({
+        ...item,
+        actor: (item.userId && actors.get(item.userId)) || null,
+      })),
+      total,
+    };
+  }
+
   /**
    * Retrieves audit trail for a specific user.
    *
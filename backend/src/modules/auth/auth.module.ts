@@ -7,24 +7,27 @@ import { OAuthStateService } from './services/oauth-state.service';
 import { EmailService } from './services/email.service';
 import { AuthRepository } from './repositories/auth.repository';
 import { AuthCleanupService } from './services/auth-cleanup.service';
+import { AuthProcessor } from '../../jobs/auth.processor';
+import { SyncProcessor } from '../../jobs/sync.processor';
 import { HouseholdsModule } from '../households/households.module';
+import { ShoppingModule } from '../shopping/shopping.module';
+import { ChoresModule } from '../chores/chores.module';
+import { AuditModule } from '../audit/audit.module';
+import { RealtimeModule } from '../realtime/realtime.module';
 import { PrismaModule } from '../../infrastructure/database/prisma/prisma.module';
 import { UuidService } from '../../common/services/uuid.service';
 import { loadConfiguration } from '../../config/configuration';
 
-/**
- * To enable scheduled idempotency key cleanup:
- * 1. Install @nestjs/schedule: npm install @nestjs/schedule
- * 2. Import ScheduleModule: import { ScheduleModule } from '@nestjs/schedule';
- * 3. Add to imports array: ScheduleModule.forRoot()
- * 4. Uncomment @Cron decorator in AuthCleanupService.handleScheduledCleanup()
- */
 const config = loadConfiguration();
 
 @Module({
   imports: [
     PrismaModule,
     HouseholdsModule,
+    ShoppingModule,
+    ChoresModule,
+    AuditModule,
+    RealtimeModule,
     JwtModule.registerAsync({
       global: true,
       useFactory: () => ({
@@ -40,6 +43,8 @@ const config = loadConfiguration();
     EmailService,
     AuthRepository,
     AuthCleanupService,
+    AuthProcessor,
+    SyncProcessor,
     UuidService,
   ],
   exports: [AuthService, AuthCleanupService, JwtModule],
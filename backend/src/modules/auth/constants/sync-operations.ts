@@ -0,0 +1,43 @@
+/**
+ * Sync operation constants.
+ *
+ * Each synced entity carries an `op`:
+ * - `upsert` (default): full entity state, created or overwritten
+ * - `update`: field-level patch against a base `updatedAt`
+ * - `delete`: soft delete
+ */
+export const SYNC_OPERATIONS = {
+  UPSERT: 'upsert',
+  UPDATE: 'update',
+  DELETE: 'delete',
+} as const;
+
+/**
+ * Type representing valid sync operations.
+ */
+export type SyncOperation =
+  (typeof SYNC_OPERATIONS)[keyof typeof SYNC_OPERATIONS];
+
+/**
+ * Machine-readable reasons reported in sync conflicts.
+ *
+ * - `not_found`: update target does not exist in the household
+ * - `deleted`: update target was deleted on the server
+ * - `stale_base`: the entity changed on the server after `baseUpdatedAt`
+ *   and the patch would overwrite one of those changes
+ * - `forbidden`: the user's household role does not allow the operation
+ * - `error`: processing failed; see `message`
+ */
+export const SYNC_CONFLICT_REASONS = {
+  NOT_FOUND: 'not_found',
+  DELETED: 'deleted',
+  STALE_BASE: 'stale_base',
+  FORBIDDEN: 'forbidden',
+  ERROR: 'error',
+} as const;
+
+/**
+ * Type representing valid sync conflict reasons.
+ */
+export type SyncConflictReason =
+  (typeof SYNC_CONFLICT_REASONS)[keyof typeof SYNC_CONFLICT_REASONS];
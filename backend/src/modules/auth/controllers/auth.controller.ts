@@ -17,6 +17,10 @@ import {
   LoginDto,
   VerifyEmailDto,
   ResendVerificationDto,
+  SwitchHouseholdDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  ChangePasswordDto,
 } from '../dtos';
 import { CurrentUser, CurrentUserPayload } from '../../../common/decorators';
 import { Public } from '../../../common/decorators/public.decorator';
@@ -33,10 +37,14 @@ import { ApiTags, ApiOperation } from '@nestjs/swagger';
  * - POST /auth/login - Email/password login
  * - POST /auth/verify-email - Verify email address
  * - POST /auth/resend-verification - Resend verification email
+ * - POST /auth/forgot-password - Email a password reset link
+ * - POST /auth/reset-password - Set a new password with a reset token
  * - POST /auth/refresh - Token refresh
  *
  * Protected endpoints:
  * - GET /auth/me - Get current user information
+ * - POST /auth/switch-household - Switch the active household
+ * - POST /auth/change-password - Change the password while signed in
  * - POST /auth/sync - Offline data synchronization
  */
 @ApiTags('auth')
@@ -149,6 +157,42 @@ export class AuthController {
     return this.authService.resendVerificationEmail(dto);
   }
 
+  /**
+   * Emails a password reset link if an email/password account exists.
+   *
+   * @param dto - Contains the user's email
+   * @returns Generic success message
+   */
+  @Post('forgot-password')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Request password reset',
+    description:
+      'Emails a time-limited, single-use password reset link. The response does not reveal whether the email is registered.',
+  })
+  async forgotPassword(@Body() dto: ForgotPasswordDto) {
+    return this.authService.forgotPassword(dto);
+  }
+
+  /**
+   * Sets a new password using the token from a password reset email.
+   *
+   * @param dto - Reset token and new password
+   * @returns Success message
+   */
+  @Post('reset-password')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reset password',
+    description:
+      'Sets a new password with a reset token and signs the user out of all devices.',
+  })
+  async resetPassword(@Body() dto: ResetPasswordDto) {
+    return this.authService.resetPassword(dto);
+  }
+
   /**
    * Synchronizes offline data to the cloud.
    * Requires authentication.
@@ -163,7 +207,7 @@ export class AuthController {
     @CurrentUser() user: CurrentUserPayload,
     @Body() dto: SyncDataDto,
   ) {
-    return this.authService.syncData(user.userId, dto);
+    return this.authService.syncData(user.userId, user.householdId, dto);
   }
 
   /**
@@ -197,4 +241,45 @@ export class AuthController {
   async getCurrentUser(@CurrentUser() user: CurrentUserPayload) {
     return this.authService.getCurrentUser(user.userId);
   }
+
+  /**
+   * Switches the active household and returns tokens scoped to it.
+   *
+   * @param user - Current authenticated user from JWT
+   * @param dto - The household to switch to
+   * @returns Authentication response with new tokens
+   */
+  @Post('switch-household')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Switch household',
+    description: 'Reissues tokens for another household the user belongs to',
+  })
+  async switchHousehold(
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: SwitchHouseholdDto,
+  ) {
+    return this.authService.switchHousehold(user.userId, dto);
+  }
+
+  /**
+   * Changes the current user's password.
+   *
+   * @param user - Current authenticated user from JWT
+   * @param dto - Current and new password
+   * @returns New access and refresh tokens
+   */
+  @Post('change-password')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Change password',
+    description:
+      'Changes the password and revokes refresh tokens on other devices',
+  })
+  async changePassword(
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: ChangePasswordDto,
+  ) {
+    return this.authService.changePassword(user.userId, dto);
+  }
 }
@@ -0,0 +1,37 @@
+import 'reflect-metadata';
+import { validate } from 'class-validator';
+import { plainToInstance } from 'class-transformer';
+import { SyncChoreDto } from '../sync-data.dto';
+
+const operationId = '3f1c2a5e-8b7d-4c1e-9a2f-6d5b4c3a2e1f';
+
+describe('SyncChoreDto Validation', () => {
+  it.each<[string, Record<string, unknown>, boolean]>([
+    ['upsert with full state', { title: 'Dishes' }, true],
+    ['upsert without title', {}, false],
+    ['update patching one field', { op: 'update', isCompleted: true }, true],
+    [
+      'update clearing an optional field',
+      { op: 'update', dueDate: null },
+      true,
+    ],
+    ['update clearing a required field', { op: 'update', title: null }, false],
+    ['delete with id only', { op: 'delete' }, true],
+    ['unknown op', { op: 'merge', title: 'Dishes' }, false],
+    [
+      'invalid base timestamp',
+      { op: 'update', baseUpdatedAt: 'yesterday' },
+      false,
+    ],
+  ])('%s', async (_, fields, isValid) => {
+    const dto = plainToInstance(SyncChoreDto, {
+      id: 'chore-1',
+      operationId,
+      ...fields,
+    });
+
+    const errors = await validate(dto);
+
+    expect(errors.length === 0).toBe(isValid);
+  });
+});
@@ -7,3 +7,7 @@ export * from './register.dto';
 export * from './login.dto';
 export * from './verify-email.dto';
 export * from './resend-verification.dto';
+export * from './switch-household.dto';
+export * from './forgot-password.dto';
+export * from './reset-password.dto';
+export * from './change-password.dto';
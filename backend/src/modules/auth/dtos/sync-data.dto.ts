@@ -8,49 +8,80 @@ import {
   IsUUID,
   IsInt,
   Min,
+  IsIn,
+  IsDateString,
+  ValidateIf,
 } from 'class-validator';
 import { Type } from 'class-transformer';
-
-export class SyncShoppingItemDto {
+import {
+  SYNC_OPERATIONS,
+  type SyncOperation,
+} from '../constants/sync-operations';
+
+/**
+ * Fields shared by every synced entity.
+ *
+ * `op` defaults to `upsert`, which carries the full entity state. An `update`
+ * carries only the changed fields (a field set to `null` is cleared) and the
+ * server `updatedAt` the client last saw; a `delete` needs only the id.
+ * Full-state fields are typed as required because upserts need them.
+ */
+export class SyncEntityOperationDto {
   @IsString()
   id: string;
 
   @IsUUID(4)
   operationId: string; // Idempotency key for this operation (UUID v4)
 
+  @IsIn(Object.values(SYNC_OPERATIONS))
+  @IsOptional()
+  op?: SyncOperation;
+
+  @IsDateString()
+  @IsOptional()
+  baseUpdatedAt?: string; // Server updatedAt the update was made against
+}
+
+/**
+ * Validates a full-state field on upserts, and on updates only when patched.
+ */
+const isRequiredOrPatched =
+  (field: string) =>
+  (dto: SyncEntityOperationDto): boolean =>
+    (dto.op ?? SYNC_OPERATIONS.UPSERT) === SYNC_OPERATIONS.UPSERT ||
+    (dto.op === SYNC_OPERATIONS.UPDATE &&
+      (dto as unknown as Record<string, unknown>)[field] !== undefined);
+
+export class SyncShoppingItemDto extends SyncEntityOperationDto {
+  @ValidateIf(isRequiredOrPatched('name'))
   @IsString()
   name: string;
 
   @IsNumber()
   @IsOptional()
-  quantity?: number;
+  quantity?: number | null;
 
   @IsString()
   @IsOptional()
-  unit?: string;
+  unit?: string | null;
 
   @IsString()
   @IsOptional()
-  category?: string;
+  category?: string | null;
 
   @IsBoolean()
   @IsOptional()
-  isChecked?: boolean;
+  isChecked?: boolean | null;
 }
 
-export class SyncShoppingListDto {
-  @IsString()
-  id: string;
-
-  @IsUUID(4)
-  operationId: string; // Idempotency key for this operation (UUID v4)
-
+export class SyncShoppingListDto extends SyncEntityOperationDto {
+  @ValidateIf(isRequiredOrPatched('name'))
   @IsString()
   name: string;
 
   @IsString()
   @IsOptional()
-  color?: string;
+  color?: string | null;
 
   @IsArray()
   @IsOptional()
@@ -80,48 +111,40 @@ export class SyncRecipeInstructionDto {
   instruction: string;
 }
 
-export class SyncRecipeDto {
-  @IsString()
-  id: string;
-
-  @IsUUID(4)
-  operationId: string; // Idempotency key for this operation (UUID v4)
-
+export class SyncRecipeDto extends SyncEntityOperationDto {
+  @ValidateIf(isRequiredOrPatched('title'))
   @IsString()
   title: string;
 
+  @ValidateIf(isRequiredOrPatched('ingredients'))
   @IsArray()
   @ValidateNested({ each: true })
   @Type(() => SyncRecipeIngredientDto)
   ingredients: SyncRecipeIngredientDto[];
 
+  @ValidateIf(isRequiredOrPatched('instructions'))
   @IsArray()
   @ValidateNested({ each: true })
   @Type(() => SyncRecipeInstructionDto)
   instructions: SyncRecipeInstructionDto[];
 }
 
-export class SyncChoreDto {
-  @IsString()
-  id: string;
-
-  @IsUUID(4)
-  operationId: string; // Idempotency key for this operation (UUID v4)
-
+export class SyncChoreDto extends SyncEntityOperationDto {
+  @ValidateIf(isRequiredOrPatched('title'))
   @IsString()
   title: string;
 
   @IsString()
   @IsOptional()
-  assigneeId?: string;
+  assigneeId?: string | null;
 
   @IsString()
   @IsOptional()
-  dueDate?: string;
+  dueDate?: string | null;
 
   @IsBoolean()
   @IsOptional()
-  isCompleted?: boolean;
+  isCompleted?: boolean | null;
 }
 
 export class SyncDataDto {
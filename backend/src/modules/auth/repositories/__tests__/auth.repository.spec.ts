@@ -0,0 +1,70 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AuthRepository } from '../auth.repository';
+import { PrismaService } from '../../../../infrastructure/database/prisma/prisma.service';
+
+describe('AuthRepository', () => {
+  let repository: AuthRepository;
+
+  const mockPrismaService = {
+    user: {
+      findFirst: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthRepository,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    repository = module.get<AuthRepository>(AuthRepository);
+    jest.clearAllMocks();
+  });
+
+  describe('resetPasswordWithToken', () => {
+    it('updates the password only while the token hash is unused and unexpired', async () => {
+      mockPrismaService.user.findFirst.mockResolvedValue({ id: 'user-1' });
+      mockPrismaService.user.updateMany.mockResolvedValue({ count: 1 });
+
+      const userId = await repository.resetPasswordWithToken(
+        'token-hash',
+        'new-hash',
+      );
+
+      expect(userId).toBe('user-1');
+      expect(mockPrismaService.user.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'user-1',
+          passwordResetTokenHash: 'token-hash',
+          passwordResetTokenExpiry: { gt: expect.any(Date) },
+        },
+        data: {
+          passwordHash: 'new-hash',
+          passwordResetTokenHash: null,
+          passwordResetTokenExpiry: null,
+        },
+      });
+    });
+
+    it('returns null when a concurrent request consumed the token first', async () => {
+      mockPrismaService.user.findFirst.mockResolvedValue({ id: 'user-1' });
+      mockPrismaService.user.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        repository.resetPasswordWithToken('token-hash', 'new-hash'),
+      ).resolves.toBeNull();
+    });
+
+    it('returns null without updating when no user holds the token', async () => {
+      mockPrismaService.user.findFirst.mockResolvedValue(null);
+
+      await expect(
+        repository.resetPasswordWithToken('token-hash', 'new-hash'),
+      ).resolves.toBeNull();
+      expect(mockPrismaService.user.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
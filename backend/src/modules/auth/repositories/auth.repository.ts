@@ -71,6 +71,8 @@ export class AuthRepository {
       emailVerified?: boolean;
       emailVerificationToken?: string | null;
       emailVerificationTokenExpiry?: Date | null;
+      passwordResetTokenHash?: string | null;
+      passwordResetTokenExpiry?: Date | null;
       name?: string;
       avatarUrl?: string;
       householdId?: string;
@@ -171,13 +173,58 @@ export class AuthRepository {
     });
   }
 
+  /**
+   * Sets a new password if the reset token hash is still valid, clearing the
+   * token in the same conditional update so concurrent requests cannot both
+   * use it.
+   *
+   * @returns ID of the user whose password was reset, or null if the token is invalid, expired or already used
+   */
+  async resetPasswordWithToken(
+    tokenHash: string,
+    passwordHash: string,
+  ): Promise<string | null> {
+    const user = await this.prisma.user.findFirst({
+      where: {
+        passwordResetTokenHash: tokenHash,
+        passwordResetTokenExpiry: { gt: new Date() },
+      },
+      select: { id: true },
+    });
+    if (!user) {
+      return null;
+    }
+
+    const { count } = await this.prisma.user.updateMany({
+      where: {
+        id: user.id,
+        passwordResetTokenHash: tokenHash,
+        passwordResetTokenExpiry: { gt: new Date() },
+      },
+      data: {
+        passwordHash,
+        passwordResetTokenHash: null,
+        passwordResetTokenExpiry: null,
+      },
+    });
+    return count === 1 ? user.id : null;
+  }
+
+  /**
+   * Sets a new password hash and clears any outstanding password reset token,
+   * so reset links stop working once the password has changed.
+   */
   async updateUserPassword(
     userId: string,
     passwordHash: string,
   ): Promise<User & { household: Household | null }> {
     return this.prisma.user.update({
       where: { id: userId },
-      data: { passwordHash },
+      data: {
+        passwordHash,
+        passwordResetTokenHash: null,
+        passwordResetTokenExpiry: null,
+      },
       include: { household: true },
     });
   }
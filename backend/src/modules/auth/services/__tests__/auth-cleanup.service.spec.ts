@@ -10,6 +10,12 @@ describe('AuthCleanupService', () => {
       deleteMany: jest.fn(),
       count: jest.fn(),
     },
+    refreshToken: {
+      deleteMany: jest.fn(),
+    },
+    user: {
+      updateMany: jest.fn(),
+    },
   };
 
   beforeEach(async () => {
@@ -132,6 +138,33 @@ describe('AuthCleanupService', () => {
     });
   });
 
+  describe('cleanupExpiredTokens', () => {
+    it('should delete expired refresh tokens and clear expired verification tokens', async () => {
+      const now = new Date('2026-03-10T00:00:00.000Z');
+      mockPrismaService.refreshToken.deleteMany.mockResolvedValue({
+        count: 3,
+      });
+      mockPrismaService.user.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await service.cleanupExpiredTokens(now);
+
+      expect(result).toEqual({ refreshTokens: 3, verificationTokens: 1 });
+      expect(mockPrismaService.refreshToken.deleteMany).toHaveBeenCalledWith({
+        where: { expiresAt: { lt: now } },
+      });
+      expect(mockPrismaService.user.updateMany).toHaveBeenCalledWith({
+        where: {
+          emailVerificationToken: { not: null },
+          emailVerificationTokenExpiry: { lt: now },
+        },
+        data: {
+          emailVerificationToken: null,
+          emailVerificationTokenExpiry: null,
+        },
+      });
+    });
+  });
+
   describe('getIdempotencyKeyStats', () => {
     it('should return statistics about idempotency keys', async () => {
       mockPrismaService.syncIdempotencyKey.count
@@ -0,0 +1,265 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { AuthService } from '../auth.service';
+import { AuthRepository } from '../../repositories/auth.repository';
+import { HouseholdsService } from '../../../households/services/households.service';
+import { PrismaService } from '../../../../infrastructure/database/prisma/prisma.service';
+import { UuidService } from '../../../../common/services/uuid.service';
+import { EmailService } from '../email.service';
+import { ShoppingService } from '../../../shopping/services/shopping.service';
+import { ChoresService } from '../../../chores/services/chores.service';
+import { AuditService } from '../../../audit/services/audit.service';
+import { RealtimeService } from '../../../realtime/services/realtime.service';
+import { JwtService } from '@nestjs/jwt';
+import * as crypto from 'crypto';
+
+const sha256 = (value: string) =>
+  crypto.createHash('sha256').update(value).digest('hex');
+
+// Mock loadConfiguration to avoid environment variable validation in tests
+jest.mock('../../../../config/configuration', () => ({
+  loadConfiguration: () => ({
+    google: {},
+    jwt: {
+      secret: 'test-jwt-secret-32-characters-long',
+      refreshSecret: 'test-refresh-secret-32-characters-long',
+      expiresIn: '15m',
+      refreshExpiresIn: '7d',
+    },
+    auth: {},
+    email: {
+      verificationTokenExpiryHours: 24,
+      passwordResetTokenExpiryMinutes: 30,
+    },
+  }),
+}));
+
+describe('AuthService - Password reset and change', () => {
+  let service: AuthService;
+
+  const mockAuthRepository = {
+    findUserByEmail: jest.fn(),
+    findUserById: jest.fn(),
+    resetPasswordWithToken: jest.fn(),
+    updateUser: jest.fn(),
+    updateUserPassword: jest.fn(),
+    deleteAllRefreshTokensForUser: jest.fn(),
+    createRefreshToken: jest.fn(),
+  };
+
+  const mockEmailService = {
+    sendPasswordResetEmail: jest.fn(),
+  };
+
+  const mockJwtService = {
+    signAsync: jest.fn(),
+  };
+
+  const passwordUser = {
+    id: 'user-1',
+    email: 'test@example.com',
+    name: 'Test User',
+    passwordHash: 'current-hash',
+    householdId: 'household-1',
+    household: { id: 'household-1', name: 'Home' },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        { provide: PrismaService, useValue: {} },
+        { provide: JwtService, useValue: mockJwtService },
+        { provide: AuthRepository, useValue: mockAuthRepository },
+        { provide: UuidService, useValue: { generate: jest.fn() } },
+        { provide: HouseholdsService, useValue: {} },
+        { provide: EmailService, useValue: mockEmailService },
+        { provide: ShoppingService, useValue: {} },
+        { provide: ChoresService, useValue: {} },
+        { provide: AuditService, useValue: {} },
+        { provide: RealtimeService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+
+    jest.clearAllMocks();
+    mockAuthRepository.deleteAllRefreshTokensForUser.mockResolvedValue(
+      undefined,
+    );
+    mockAuthRepository.updateUserPassword.mockResolvedValue(passwordUser);
+    mockJwtService.signAsync
+      .mockResolvedValueOnce('new-access-token')
+      .mockResolvedValueOnce('new-refresh-token');
+
+    jest.spyOn(service as any, 'hashPassword').mockResolvedValue('new-hash');
+    jest
+      .spyOn(service as any, 'generatePasswordResetToken')
+      .mockReturnValue('reset-token');
+  });
+
+  describe('forgotPassword', () => {
+    it('stores a time-limited reset token and emails it', async () => {
+      mockAuthRepository.findUserByEmail.mockResolvedValue(passwordUser);
+      const before = Date.now();
+
+      const result = await service.forgotPassword({
+        email: 'test@example.com',
+      });
+
+      expect(result.message).toContain('password reset link has been sent');
+      const [userId, data] = mockAuthRepository.updateUser.mock.calls[0];
+      expect(userId).toBe('user-1');
+      expect(data.passwordResetTokenHash).toBe(sha256('reset-token'));
+      expect(data.passwordResetTokenHash).not.toBe('reset-token');
+      const expiryMs = data.passwordResetTokenExpiry.getTime() - before;
+      expect(expiryMs).toBeGreaterThanOrEqual(30 * 60 * 1000 - 1000);
+      expect(expiryMs).toBeLessThanOrEqual(30 * 60 * 1000 + 1000);
+      expect(mockEmailService.sendPasswordResetEmail).toHaveBeenCalledWith(
+        'test@example.com',
+        'reset-token',
+        'Test User',
+      );
+    });
+
+    it.each([
+      ['an unknown email', null],
+      ['a Google-only account', { ...passwordUser, passwordHash: null }],
+    ])('returns the same message for %s without sending', async (_, user) => {
+      mockAuthRepository.findUserByEmail.mockResolvedValue(user);
+
+      const result = await service.forgotPassword({
+        email: 'test@example.com',
+      });
+
+      expect(result.message).toContain('password reset link has been sent');
+      expect(mockAuthRepository.updateUser).not.toHaveBeenCalled();
+      expect(mockEmailService.sendPasswordResetEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('consumes the token with the new password and revokes refresh tokens', async () => {
+      mockAuthRepository.resetPasswordWithToken.mockResolvedValue('user-1');
+
+      const result = await service.resetPassword({
+        token: 'reset-token',
+        password: 'new-password',
+      });
+
+      expect(result.message).toContain('Password reset successful');
+      expect(mockAuthRepository.resetPasswordWithToken).toHaveBeenCalledWith(
+        sha256('reset-token'),
+        'new-hash',
+      );
+      expect(
+        mockAuthRepository.deleteAllRefreshTokensForUser,
+      ).toHaveBeenCalledWith('user-1');
+    });
+
+    it('rejects an invalid, expired or already used token', async () => {
+      mockAuthRepository.resetPasswordWithToken.mockResolvedValue(null);
+
+      await expect(
+        service.resetPassword({
+          token: 'used-token',
+          password: 'new-password',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(
+        mockAuthRepository.deleteAllRefreshTokensForUser,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('lets only one of two concurrent requests use the same token', async () => {
+      mockAuthRepository.resetPasswordWithToken
+        .mockResolvedValueOnce('user-1')
+        .mockResolvedValueOnce(null);
+
+      const results = await Promise.allSettled([
+        service.resetPassword({ token: 'reset-token', password: 'first-pw' }),
+        service.resetPassword({ token: 'reset-token', password: 'second-pw' }),
+      ]);
+
+      expect(results.map((r) => r.status).sort()).toEqual([
+        'fulfilled',
+        'rejected',
+      ]);
+      expect(
+        mockAuthRepository.deleteAllRefreshTokensForUser,
+      ).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('changePassword', () => {
+    const dto = {
+      currentPassword: 'current-password',
+      newPassword: 'new-password',
+    };
+
+    it('changes the password, revokes refresh tokens and issues new ones', async () => {
+      mockAuthRepository.findUserById.mockResolvedValue(passwordUser);
+      jest.spyOn(service as any, 'verifyPassword').mockResolvedValue(true);
+
+      const result = await service.changePassword('user-1', dto);
+
+      expect(mockAuthRepository.updateUserPassword).toHaveBeenCalledWith(
+        'user-1',
+        'new-hash',
+      );
+      expect(
+        mockAuthRepository.deleteAllRefreshTokensForUser,
+      ).toHaveBeenCalledWith('user-1');
+      expect(mockAuthRepository.createRefreshToken).toHaveBeenCalledWith(
+        'user-1',
+        'new-refresh-token',
+        expect.any(Date),
+      );
+      expect(result).toEqual({
+        accessToken: 'new-access-token',
+        refreshToken: 'new-refresh-token',
+      });
+    });
+
+    it('rejects a wrong current password', async () => {
+      mockAuthRepository.findUserById.mockResolvedValue(passwordUser);
+      jest.spyOn(service as any, 'verifyPassword').mockResolvedValue(false);
+
+      await expect(service.changePassword('user-1', dto)).rejects.toThrow(
+        'Current password is incorrect',
+      );
+      expect(mockAuthRepository.updateUserPassword).not.toHaveBeenCalled();
+    });
+
+    it('rejects reusing the current password', async () => {
+      mockAuthRepository.findUserById.mockResolvedValue(passwordUser);
+      jest.spyOn(service as any, 'verifyPassword').mockResolvedValue(true);
+
+      await expect(
+        service.changePassword('user-1', {
+          currentPassword: 'same-password',
+          newPassword: 'same-password',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('rejects accounts without a password', async () => {
+      mockAuthRepository.findUserById.mockResolvedValue({
+        ...passwordUser,
+        passwordHash: null,
+      });
+
+      await expect(service.changePassword('user-1', dto)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('rejects an unknown user', async () => {
+      mockAuthRepository.findUserById.mockResolvedValue(null);
+
+      await expect(service.changePassword('user-1', dto)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+});
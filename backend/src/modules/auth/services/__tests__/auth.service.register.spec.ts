@@ -6,6 +6,10 @@ import { HouseholdsService } from '../../../households/services/households.servi
 import { PrismaService } from '../../../../infrastructure/database/prisma/prisma.service';
 import { UuidService } from '../../../../common/services/uuid.service';
 import { EmailService } from '../email.service';
+import { ShoppingService } from '../../../shopping/services/shopping.service';
+import { ChoresService } from '../../../chores/services/chores.service';
+import { AuditService } from '../../../audit/services/audit.service';
+import { RealtimeService } from '../../../realtime/services/realtime.service';
 import { RegisterDto } from '../../dtos';
 import { JwtService } from '@nestjs/jwt';
 
@@ -90,6 +94,10 @@ describe('AuthService - Register', () => {
         { provide: UuidService, useValue: mockUuidService },
         { provide: HouseholdsService, useValue: mockHouseholdsService },
         { provide: EmailService, useValue: mockEmailService },
+        { provide: ShoppingService, useValue: {} },
+        { provide: ChoresService, useValue: {} },
+        { provide: AuditService, useValue: {} },
+        { provide: RealtimeService, useValue: {} },
         { provide: ConfigService, useValue: mockConfigService },
       ],
     }).compile();
@@ -162,6 +170,12 @@ describe('AuthService - Register', () => {
             { provide: UuidService, useValue: mockUuidService },
             { provide: HouseholdsService, useValue: mockHouseholdsService },
             { provide: EmailService, useValue: mockEmailService },
+            { provide: ShoppingService, useValue: {} },
+            { provide: ChoresService, useValue: {} },
+            { provide: AuditService, useValue: {} },
+            { provide: RealtimeService, useValue: {} },
+            { provide: ChoresService, useValue: {} },
+            { provide: AuditService, useValue: {} },
             { provide: ConfigService, useValue: mockConfigService },
           ],
         }).compile();
@@ -2,12 +2,26 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { JwtService } from '@nestjs/jwt';
 import { AuthService } from '../auth.service';
 import { AuthRepository } from '../../repositories/auth.repository';
-import { BadRequestException, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { HouseholdsService } from '../../../households/services/households.service';
 import { PrismaService } from '../../../../infrastructure/database/prisma/prisma.service';
 import { UuidService } from '../../../../common/services/uuid.service';
 import { EmailService } from '../email.service';
-import { SyncDataDto, UserCreationHouseholdDto } from '../../dtos';
+import { ShoppingService } from '../../../shopping/services/shopping.service';
+import { ChoresService } from '../../../chores/services/chores.service';
+import { AuditService } from '../../../audit/services/audit.service';
+import { RealtimeService } from '../../../realtime/services/realtime.service';
+import {
+  SyncChoreDto,
+  SyncDataDto,
+  SyncRecipeDto,
+  UserCreationHouseholdDto,
+} from '../../dtos';
 
 /** Interface used to cast AuthService when testing private methods (avoids intersection with private members). */
 interface AuthServicePrivateTestAccess {
@@ -43,18 +57,34 @@ describe('AuthService - Idempotency', () => {
   const mockPrismaService = {
     user: {
       findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    householdMembership: {
+      findUnique: jest.fn(),
     },
     shoppingList: {
       upsert: jest.fn(),
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
     },
     shoppingItem: {
       upsert: jest.fn(),
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
     },
     recipe: {
       upsert: jest.fn(),
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
     },
     chore: {
       upsert: jest.fn(),
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
     },
     syncIdempotencyKey: {
       create: jest.fn(),
@@ -86,6 +116,26 @@ describe('AuthService - Idempotency', () => {
     sendVerificationEmail: jest.fn().mockResolvedValue(undefined),
   };
 
+  const mockShoppingService = {
+    publishListChange: jest.fn(),
+    publishItemChange: jest.fn(),
+    publishDeletion: jest.fn(),
+    checkedByUpdate: jest.fn(),
+    itemActivityAction: jest.fn().mockReturnValue('UPDATE_LIST_ITEM'),
+  };
+
+  const mockChoresService = {
+    toggleCompletion: jest.fn(),
+  };
+
+  const mockAuditService = {
+    logActivity: jest.fn(),
+  };
+
+  const mockRealtimeService = {
+    closeStreams: jest.fn(),
+  };
+
   const userId = 'user-123';
   const householdId = 'household-123';
   const mockUser = {
@@ -123,6 +173,22 @@ describe('AuthService - Idempotency', () => {
           provide: EmailService,
           useValue: mockEmailService,
         },
+        {
+          provide: ShoppingService,
+          useValue: mockShoppingService,
+        },
+        {
+          provide: ChoresService,
+          useValue: mockChoresService,
+        },
+        {
+          provide: AuditService,
+          useValue: mockAuditService,
+        },
+        {
+          provide: RealtimeService,
+          useValue: mockRealtimeService,
+        },
       ],
     }).compile();
 
@@ -131,6 +197,13 @@ describe('AuthService - Idempotency', () => {
 
     // Setup default mocks
     mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
+    mockPrismaService.householdMembership.findUnique.mockResolvedValue({
+      role: 'Member',
+    });
+    mockPrismaService.shoppingList.findUnique.mockResolvedValue(null);
+    mockPrismaService.shoppingItem.findUnique.mockResolvedValue(null);
+    mockPrismaService.recipe.findUnique.mockResolvedValue(null);
+    mockPrismaService.chore.findUnique.mockResolvedValue(null);
     mockJwtService.signAsync.mockResolvedValue('mock-token');
   });
 
@@ -260,6 +333,63 @@ describe('AuthService - Idempotency', () => {
     });
   });
 
+  describe('syncData - household scope', () => {
+    const syncData: SyncDataDto = {
+      recipes: [
+        {
+          id: 'recipe-123',
+          operationId: 'op-recipe-123',
+          title: 'Test Recipe',
+          ingredients: [{ name: 'Flour' }],
+          instructions: [{ step: 1, instruction: 'Mix' }],
+        },
+      ],
+    };
+
+    beforeEach(() => {
+      mockPrismaService.syncIdempotencyKey.create.mockResolvedValue({
+        id: 'key-123',
+      });
+      mockPrismaService.recipe.upsert.mockResolvedValue({});
+    });
+
+    it("applies the batch to the token's household, not the user's current one", async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        ...mockUser,
+        householdId: 'household-switched',
+      });
+
+      const result = await service.syncData(userId, householdId, syncData);
+
+      expect(result.status).toBe('synced');
+      expect(
+        mockPrismaService.householdMembership.findUnique,
+      ).toHaveBeenCalledWith({
+        where: { userId_householdId: { userId, householdId } },
+      });
+      expect(mockPrismaService.recipe.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'recipe-123', householdId },
+        }),
+      );
+    });
+
+    it('rejects the batch when the user is no longer a member of the household', async () => {
+      mockPrismaService.householdMembership.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.syncData(userId, householdId, syncData),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockPrismaService.recipe.upsert).not.toHaveBeenCalled();
+    });
+
+    it('rejects the batch when the token has no household', async () => {
+      await expect(service.syncData(userId, null, syncData)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+
   describe('syncData - idempotency integration', () => {
     it('should include operationId in sync requests', async () => {
       const syncData: SyncDataDto = {
@@ -285,7 +415,7 @@ describe('AuthService - Idempotency', () => {
       mockPrismaService.recipe.upsert.mockResolvedValue({});
       mockPrismaService.syncIdempotencyKey.update.mockResolvedValue(undefined);
 
-      const result = await service.syncData(userId, syncData);
+      const result = await service.syncData(userId, householdId, syncData);
 
       expect(result.status).toBe('synced');
       expect(mockPrismaService.syncIdempotencyKey.create).toHaveBeenCalledWith({
@@ -327,14 +457,14 @@ describe('AuthService - Idempotency', () => {
       mockPrismaService.recipe.upsert.mockResolvedValue({});
       mockPrismaService.syncIdempotencyKey.update.mockResolvedValue(undefined);
 
-      await service.syncData(userId, syncData);
+      await service.syncData(userId, householdId, syncData);
 
       // Second call with same operationId should be skipped
       mockPrismaService.syncIdempotencyKey.create.mockRejectedValueOnce(
         uniqueConstraintError,
       );
 
-      const result2 = await service.syncData(userId, syncData);
+      const result2 = await service.syncData(userId, householdId, syncData);
 
       expect(result2.status).toBe('synced');
       expect(mockPrismaService.recipe.upsert).toHaveBeenCalledTimes(1); // Only called once
@@ -375,7 +505,7 @@ describe('AuthService - Idempotency', () => {
       mockPrismaService.shoppingItem.upsert.mockResolvedValue({});
       mockPrismaService.syncIdempotencyKey.update.mockResolvedValue(undefined);
 
-      const result = await service.syncData(userId, syncData);
+      const result = await service.syncData(userId, householdId, syncData);
 
       expect(result.status).toBe('synced');
       expect(mockPrismaService.syncIdempotencyKey.create).toHaveBeenCalledTimes(
@@ -429,8 +559,8 @@ describe('AuthService - Idempotency', () => {
 
       // Simulate concurrent requests
       const [result1, result2] = await Promise.all([
-        service.syncData(userId, syncData),
-        service.syncData(userId, syncData),
+        service.syncData(userId, householdId, syncData),
+        service.syncData(userId, householdId, syncData),
       ]);
 
       expect(result1.status).toBe('synced');
@@ -473,7 +603,7 @@ describe('AuthService - Idempotency', () => {
       mockPrismaService.recipe.upsert.mockResolvedValue({});
       mockPrismaService.syncIdempotencyKey.update.mockResolvedValue(undefined);
 
-      const result = await service.syncData(userId, syncData);
+      const result = await service.syncData(userId, householdId, syncData);
 
       expect(result.status).toBe('synced');
       expect(result.succeeded).toBeDefined();
@@ -529,7 +659,7 @@ describe('AuthService - Idempotency', () => {
         undefined,
       );
 
-      const result = await service.syncData(userId, syncData);
+      const result = await service.syncData(userId, householdId, syncData);
 
       expect(result.status).toBe('partial');
       expect(result.succeeded).toBeDefined();
@@ -572,13 +702,15 @@ describe('AuthService - Idempotency', () => {
         undefined,
       );
 
-      const result = await service.syncData(userId, syncData);
+      const result = await service.syncData(userId, householdId, syncData);
 
       expect(result.status).toBe('failed');
       expect(result.conflicts.length).toBe(1);
       expect(result.conflicts[0].operationId).toBe('op-recipe-1');
       expect(result.conflicts[0].id).toBe('recipe-1');
       expect(result.conflicts[0].type).toBe('recipe');
+      expect(result.conflicts[0].reason).toBe('error');
+      expect(result.conflicts[0].message).toBe('Validation failed');
     });
 
     it('should calculate status correctly: synced vs partial vs failed', async () => {
@@ -607,7 +739,7 @@ describe('AuthService - Idempotency', () => {
         undefined,
       );
 
-      const result1 = await service.syncData(userId, syncData1);
+      const result1 = await service.syncData(userId, householdId, syncData1);
       expect(result1.status).toBe('synced');
       expect(result1.conflicts.length).toBe(0);
 
@@ -648,7 +780,7 @@ describe('AuthService - Idempotency', () => {
         undefined,
       );
 
-      const result2 = await service.syncData(userId, syncData2);
+      const result2 = await service.syncData(userId, householdId, syncData2);
       expect(result2.status).toBe('partial');
       expect(result2.succeeded?.length).toBe(1);
       expect(result2.conflicts.length).toBe(1);
@@ -683,7 +815,7 @@ describe('AuthService - Idempotency', () => {
         undefined,
       );
 
-      const result3 = await service.syncData(userId, syncData3);
+      const result3 = await service.syncData(userId, householdId, syncData3);
       expect(result3.status).toBe('failed');
       expect(result3.succeeded).toBeUndefined();
       expect(result3.conflicts.length).toBe(1);
@@ -728,7 +860,7 @@ describe('AuthService - Idempotency', () => {
       mockPrismaService.shoppingItem.upsert.mockResolvedValue({});
       mockPrismaService.syncIdempotencyKey.update.mockResolvedValue(undefined);
 
-      const result = await service.syncData(userId, syncData);
+      const result = await service.syncData(userId, householdId, syncData);
 
       expect(result.status).toBe('synced');
       expect(result.succeeded).toBeDefined();
@@ -783,7 +915,7 @@ describe('AuthService - Idempotency', () => {
         // Missing op-recipe-2 to violate invariant
       });
 
-      const result = await service.syncData(userId, syncData);
+      const result = await service.syncData(userId, householdId, syncData);
 
       // Verify error was logged with context
       expect(loggerErrorSpy).toHaveBeenCalledWith(
@@ -812,6 +944,605 @@ describe('AuthService - Idempotency', () => {
     });
   });
 
+  describe('syncData - delete and field-level update operations', () => {
+    const baseUpdatedAt = '2026-10-01T10:00:00.000Z';
+    const serverChore = {
+      id: 'chore-1',
+      householdId,
+      title: 'Take out trash',
+      assigneeId: null,
+      dueDate: null,
+      isCompleted: false,
+      updatedAt: new Date('2026-10-01T12:00:00.000Z'),
+      deletedAt: null,
+    };
+
+    beforeEach(() => {
+      mockPrismaService.syncIdempotencyKey.create.mockResolvedValue({
+        id: 'key-1',
+      });
+      mockPrismaService.syncIdempotencyKey.update.mockResolvedValue(undefined);
+      mockPrismaService.syncIdempotencyKey.delete.mockResolvedValue(undefined);
+    });
+
+    it('soft-deletes the entity within the household', async () => {
+      mockPrismaService.chore.findFirst.mockResolvedValue(serverChore);
+
+      const result = await service.syncData(userId, householdId, {
+        chores: [
+          { id: 'chore-1', operationId: 'op-1', op: 'delete' } as SyncChoreDto,
+        ],
+      });
+
+      expect(result.status).toBe('synced');
+      expect(mockPrismaService.chore.findFirst).toHaveBeenCalledWith({
+        where: { id: 'chore-1', householdId },
+      });
+      expect(mockPrismaService.chore.update).toHaveBeenCalledWith({
+        where: { id: 'chore-1' },
+        data: { deletedAt: expect.any(Date) },
+      });
+      expect(mockPrismaService.chore.upsert).not.toHaveBeenCalled();
+    });
+
+    it('treats deleting a missing or already deleted entity as done', async () => {
+      mockPrismaService.chore.findFirst
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ ...serverChore, deletedAt: new Date() });
+
+      const result = await service.syncData(userId, householdId, {
+        chores: [
+          { id: 'chore-1', operationId: 'op-1', op: 'delete' } as SyncChoreDto,
+          { id: 'chore-2', operationId: 'op-2', op: 'delete' } as SyncChoreDto,
+        ],
+      });
+
+      expect(result.status).toBe('synced');
+      expect(result.succeeded).toHaveLength(2);
+      expect(mockPrismaService.chore.update).not.toHaveBeenCalled();
+    });
+
+    it('writes only the patched fields when they do not clash with newer server changes', async () => {
+      mockPrismaService.chore.findFirst.mockResolvedValue(serverChore);
+
+      const result = await service.syncData(userId, householdId, {
+        chores: [
+          {
+            id: 'chore-1',
+            operationId: 'op-1',
+            op: 'update',
+            baseUpdatedAt,
+            isCompleted: false,
+          } as SyncChoreDto,
+        ],
+      });
+
+      expect(result.status).toBe('synced');
+      expect(mockChoresService.toggleCompletion).toHaveBeenCalledWith(
+        'chore-1',
+        householdId,
+        { isCompleted: false },
+        userId,
+        false,
+      );
+      expect(mockPrismaService.chore.update).not.toHaveBeenCalled();
+    });
+
+    it('edits chore fields and logs the activity', async () => {
+      mockPrismaService.chore.findFirst.mockResolvedValue(serverChore);
+      mockPrismaService.chore.update.mockResolvedValue(serverChore);
+
+      const result = await service.syncData(userId, householdId, {
+        chores: [
+          {
+            id: 'chore-1',
+            operationId: 'op-1',
+            op: 'update',
+            assigneeId: 'user-2',
+          } as SyncChoreDto,
+        ],
+      });
+
+      expect(result.status).toBe('synced');
+      expect(mockPrismaService.chore.update).toHaveBeenCalledWith({
+        where: { id: 'chore-1' },
+        data: {
+          title: undefined,
+          assigneeId: 'user-2',
+          dueDate: undefined,
+        },
+      });
+      expect(mockAuditService.logActivity).toHaveBeenCalledWith(
+        userId,
+        householdId,
+        expect.objectContaining({
+          action: 'UPDATE_CHORE',
+          entityId: 'chore-1',
+          metadata: { name: 'Take out trash', fields: ['assigneeId'] },
+        }),
+      );
+      expect(mockChoresService.toggleCompletion).not.toHaveBeenCalled();
+    });
+
+    it('completes a chore through ChoresService', async () => {
+      mockPrismaService.chore.findFirst.mockResolvedValue(serverChore);
+
+      const result = await service.syncData(userId, householdId, {
+        chores: [
+          {
+            id: 'chore-1',
+            operationId: 'op-1',
+            op: 'update',
+            isCompleted: true,
+          } as SyncChoreDto,
+        ],
+      });
+
+      expect(result.status).toBe('synced');
+      expect(mockChoresService.toggleCompletion).toHaveBeenCalledWith(
+        'chore-1',
+        householdId,
+        { isCompleted: true },
+        userId,
+        false,
+      );
+      expect(mockPrismaService.chore.update).not.toHaveBeenCalled();
+    });
+
+    it('reports a stale_base conflict with the server copy and releases the idempotency key', async () => {
+      mockPrismaService.chore.findFirst.mockResolvedValue(serverChore);
+
+      const result = await service.syncData(userId, householdId, {
+        chores: [
+          {
+            id: 'chore-1',
+            operationId: 'op-1',
+            op: 'update',
+            baseUpdatedAt,
+            title: 'Take out recycling',
+            isCompleted: false,
+          } as SyncChoreDto,
+        ],
+      });
+
+      expect(result.status).toBe('failed');
+      expect(result.conflicts).toEqual([
+        expect.objectContaining({
+          type: 'chore',
+          id: 'chore-1',
+          operationId: 'op-1',
+          reason: 'stale_base',
+          fields: ['title'],
+          serverEntity: expect.objectContaining({
+            id: 'chore-1',
+            title: 'Take out trash',
+            updatedAt: '2026-10-01T12:00:00.000Z',
+          }),
+        }),
+      ]);
+      expect(mockPrismaService.chore.update).not.toHaveBeenCalled();
+      expect(mockPrismaService.syncIdempotencyKey.delete).toHaveBeenCalledWith({
+        where: { id: 'key-1' },
+      });
+    });
+
+    it('applies an update whose base is current', async () => {
+      mockPrismaService.recipe.update.mockResolvedValue({
+        id: 'recipe-1',
+        title: 'Crepes',
+      });
+      mockPrismaService.recipe.findFirst.mockResolvedValue({
+        id: 'recipe-1',
+        householdId,
+        title: 'Pancakes',
+        ingredients: [],
+        instructions: [],
+        updatedAt: new Date(baseUpdatedAt),
+        deletedAt: null,
+      });
+
+      const result = await service.syncData(userId, householdId, {
+        recipes: [
+          {
+            id: 'recipe-1',
+            operationId: 'op-1',
+            op: 'update',
+            baseUpdatedAt,
+            title: 'Crepes',
+          } as SyncRecipeDto,
+        ],
+      });
+
+      expect(result.status).toBe('synced');
+      expect(mockPrismaService.recipe.update).toHaveBeenCalledWith({
+        where: { id: 'recipe-1' },
+        data: {
+          title: 'Crepes',
+          ingredients: undefined,
+          instructions: undefined,
+        },
+      });
+      expect(mockAuditService.logActivity).toHaveBeenCalledWith(
+        userId,
+        householdId,
+        expect.objectContaining({
+          action: 'UPDATE_RECIPE',
+          entityId: 'recipe-1',
+          metadata: { name: 'Crepes', fields: ['title'] },
+        }),
+      );
+    });
+
+    it.each([
+      ['not_found', null],
+      ['deleted', { ...serverChore, deletedAt: new Date() }],
+    ])(
+      'reports %s when updating a missing target',
+      async (reason, existing) => {
+        mockPrismaService.chore.findFirst.mockResolvedValue(existing);
+
+        const result = await service.syncData(userId, householdId, {
+          chores: [
+            {
+              id: 'chore-1',
+              operationId: 'op-1',
+              op: 'update',
+              title: 'Water plants',
+            } as SyncChoreDto,
+          ],
+        });
+
+        expect(result.conflicts[0].reason).toBe(reason);
+        expect(mockPrismaService.chore.update).not.toHaveBeenCalled();
+      },
+    );
+
+    describe('as a Kid', () => {
+      const serverList = {
+        id: 'list-1',
+        householdId,
+        name: 'Groceries',
+        color: null,
+        updatedAt: new Date(baseUpdatedAt),
+        deletedAt: null,
+      };
+
+      beforeEach(() => {
+        mockPrismaService.householdMembership.findUnique.mockResolvedValue({
+          role: 'Kid',
+        });
+        // Lists sent unchanged, only to carry their items
+        mockPrismaService.shoppingList.findUnique.mockResolvedValue(serverList);
+      });
+
+      it('reports upserts that create or edit what the role does not allow as forbidden', async () => {
+        mockPrismaService.chore.findUnique.mockResolvedValue(serverChore);
+
+        const result = await service.syncData(userId, householdId, {
+          lists: [{ id: 'list-1', operationId: 'op-list', name: 'Party' }],
+          recipes: [
+            {
+              id: 'recipe-1',
+              operationId: 'op-recipe',
+              title: 'Pancakes',
+              ingredients: [],
+              instructions: [],
+            },
+          ],
+          chores: [
+            {
+              id: 'chore-1',
+              operationId: 'op-chore',
+              title: 'Skip the trash',
+              isCompleted: false,
+            },
+          ],
+        } as SyncDataDto);
+
+        expect(result.status).toBe('failed');
+        expect(result.conflicts.map(({ reason }) => reason)).toEqual([
+          'forbidden',
+          'forbidden',
+          'forbidden',
+        ]);
+        expect(mockPrismaService.shoppingList.upsert).not.toHaveBeenCalled();
+        expect(mockPrismaService.recipe.upsert).not.toHaveBeenCalled();
+        expect(mockPrismaService.chore.upsert).not.toHaveBeenCalled();
+      });
+
+      it('lets a Kid check off an item and complete a chore through full-state upserts', async () => {
+        mockPrismaService.shoppingItem.findUnique.mockResolvedValue({
+          id: 'item-1',
+          name: 'Milk',
+          quantity: 1,
+          unit: null,
+          category: null,
+          isChecked: false,
+          updatedAt: new Date(baseUpdatedAt),
+          deletedAt: null,
+          list: { householdId },
+        });
+        mockPrismaService.shoppingItem.upsert.mockResolvedValue({
+          id: 'item-1',
+        });
+        mockPrismaService.chore.findUnique.mockResolvedValue(serverChore);
+        mockChoresService.toggleCompletion.mockResolvedValue({});
+
+        const result = await service.syncData(userId, householdId, {
+          lists: [
+            {
+              id: 'list-1',
+              operationId: 'op-list',
+              name: 'Groceries',
+              items: [
+                {
+                  id: 'item-1',
+                  operationId: 'op-item',
+                  name: 'Milk',
+                  quantity: 1,
+                  isChecked: true,
+                },
+              ],
+            },
+          ],
+          chores: [
+            {
+              id: 'chore-1',
+              operationId: 'op-chore',
+              title: 'Take out trash',
+              isCompleted: true,
+            },
+          ],
+        } as SyncDataDto);
+
+        expect(result.status).toBe('synced');
+        expect(mockPrismaService.shoppingList.upsert).not.toHaveBeenCalled();
+        expect(mockPrismaService.shoppingItem.upsert).toHaveBeenCalled();
+        expect(mockPrismaService.chore.upsert).not.toHaveBeenCalled();
+        expect(mockChoresService.toggleCompletion).toHaveBeenCalledWith(
+          'chore-1',
+          householdId,
+          { isCompleted: true },
+          userId,
+          true,
+        );
+      });
+
+      it('reports deletes and edits the role does not allow as forbidden', async () => {
+        mockPrismaService.shoppingList.upsert.mockResolvedValue({
+          id: 'list-1',
+        });
+
+        const result = await service.syncData(userId, householdId, {
+          lists: [
+            {
+              id: 'list-1',
+              operationId: 'op-list',
+              name: 'Groceries',
+              items: [
+                {
+                  id: 'item-1',
+                  operationId: 'op-item',
+                  op: 'update',
+                  name: 'Oat milk',
+                },
+              ],
+            },
+          ],
+          recipes: [{ id: 'recipe-1', operationId: 'op-recipe', op: 'delete' }],
+          chores: [{ id: 'chore-1', operationId: 'op-chore', op: 'delete' }],
+        } as SyncDataDto);
+
+        expect(result.status).toBe('partial');
+        expect(
+          result.conflicts.map(({ operationId, reason }) => ({
+            operationId,
+            reason,
+          })),
+        ).toEqual([
+          { operationId: 'op-item', reason: 'forbidden' },
+          { operationId: 'op-recipe', reason: 'forbidden' },
+          { operationId: 'op-chore', reason: 'forbidden' },
+        ]);
+        expect(mockPrismaService.shoppingItem.findFirst).not.toHaveBeenCalled();
+        expect(mockPrismaService.recipe.update).not.toHaveBeenCalled();
+        expect(mockPrismaService.chore.update).not.toHaveBeenCalled();
+      });
+
+      it('lets a Kid check off items and complete only their own chores', async () => {
+        mockPrismaService.shoppingList.upsert.mockResolvedValue({
+          id: 'list-1',
+        });
+        mockPrismaService.shoppingItem.findFirst.mockResolvedValue({
+          id: 'item-1',
+          name: 'Milk',
+          isChecked: false,
+          updatedAt: new Date(baseUpdatedAt),
+          deletedAt: null,
+          list: { id: 'list-1', name: 'Groceries' },
+        });
+        mockPrismaService.shoppingItem.update.mockResolvedValue({
+          id: 'item-1',
+          name: 'Milk',
+        });
+        mockShoppingService.checkedByUpdate.mockReturnValue({
+          checkedById: userId,
+          checkedAt: new Date(),
+        });
+        mockPrismaService.chore.findFirst.mockResolvedValue(serverChore);
+        mockChoresService.toggleCompletion
+          .mockResolvedValueOnce({})
+          .mockRejectedValueOnce(
+            new ForbiddenException(
+              'You can only complete chores assigned to you',
+            ),
+          );
+
+        const result = await service.syncData(userId, householdId, {
+          lists: [
+            {
+              id: 'list-1',
+              operationId: 'op-list',
+              name: 'Groceries',
+              items: [
+                {
+                  id: 'item-1',
+                  operationId: 'op-item',
+                  op: 'update',
+                  isChecked: true,
+                },
+              ],
+            },
+          ],
+          chores: [
+            {
+              id: 'chore-1',
+              operationId: 'op-own',
+              op: 'update',
+              isCompleted: true,
+            },
+            {
+              id: 'chore-2',
+              operationId: 'op-other',
+              op: 'update',
+              isCompleted: true,
+            },
+          ],
+        } as SyncDataDto);
+
+        expect(mockPrismaService.shoppingItem.update).toHaveBeenCalledWith(
+          expect.objectContaining({
+            data: expect.objectContaining({
+              isChecked: true,
+              checkedById: userId,
+            }),
+          }),
+        );
+        expect(mockShoppingService.checkedByUpdate).toHaveBeenCalledWith(
+          false,
+          true,
+          userId,
+        );
+        expect(mockChoresService.toggleCompletion).toHaveBeenCalledWith(
+          'chore-1',
+          householdId,
+          { isCompleted: true },
+          userId,
+          true,
+        );
+        expect(result.conflicts).toEqual([
+          expect.objectContaining({
+            operationId: 'op-other',
+            reason: 'forbidden',
+          }),
+        ]);
+      });
+    });
+
+    it('reports an upsert of an ID from another household as not found', async () => {
+      mockPrismaService.recipe.findUnique.mockResolvedValue({
+        id: 'recipe-1',
+        householdId: 'household-other',
+      });
+
+      const result = await service.syncData(userId, householdId, {
+        recipes: [
+          {
+            id: 'recipe-1',
+            operationId: 'op-1',
+            title: 'Pancakes',
+            ingredients: [],
+            instructions: [],
+          },
+        ],
+      });
+
+      expect(result.conflicts).toEqual([
+        expect.objectContaining({ operationId: 'op-1', reason: 'not_found' }),
+      ]);
+      expect(mockPrismaService.recipe.upsert).not.toHaveBeenCalled();
+    });
+
+    it('creates an upserted chore and completes it through ChoresService', async () => {
+      const result = await service.syncData(userId, householdId, {
+        chores: [
+          {
+            id: 'chore-1',
+            operationId: 'op-1',
+            title: 'Take out trash',
+            isCompleted: true,
+          } as SyncChoreDto,
+        ],
+      });
+
+      expect(result.status).toBe('synced');
+      expect(mockPrismaService.chore.upsert).toHaveBeenCalledWith({
+        where: { id: 'chore-1', householdId },
+        create: {
+          id: 'chore-1',
+          householdId,
+          title: 'Take out trash',
+          assigneeId: undefined,
+          dueDate: null,
+        },
+        update: {
+          title: 'Take out trash',
+          assigneeId: undefined,
+          dueDate: null,
+        },
+      });
+      expect(mockChoresService.toggleCompletion).toHaveBeenCalledWith(
+        'chore-1',
+        householdId,
+        { isCompleted: true },
+        userId,
+        false,
+      );
+    });
+
+    it('publishes synced shopping writes to household members', async () => {
+      const savedList = { id: 'list-1', householdId, name: 'Groceries' };
+      const savedItem = { id: 'item-1', listId: 'list-1', name: 'Milk' };
+      mockPrismaService.shoppingList.upsert.mockResolvedValue(savedList);
+      mockPrismaService.shoppingItem.upsert.mockResolvedValue(savedItem);
+      mockPrismaService.shoppingItem.findFirst.mockResolvedValue({
+        id: 'item-2',
+        deletedAt: null,
+      });
+
+      const result = await service.syncData(userId, householdId, {
+        lists: [
+          {
+            id: 'list-1',
+            operationId: 'op-list',
+            name: 'Groceries',
+            items: [
+              { id: 'item-1', operationId: 'op-item-1', name: 'Milk' },
+              { id: 'item-2', operationId: 'op-item-2', op: 'delete' },
+            ],
+          },
+        ],
+      } as SyncDataDto);
+
+      expect(result.status).toBe('synced');
+      expect(mockShoppingService.publishListChange).toHaveBeenCalledWith(
+        householdId,
+        'UPDATE',
+        savedList,
+      );
+      expect(mockShoppingService.publishItemChange).toHaveBeenCalledWith(
+        householdId,
+        'UPDATE',
+        savedItem,
+      );
+      expect(mockShoppingService.publishDeletion).toHaveBeenCalledWith(
+        householdId,
+        'shopping_items',
+        'item-2',
+      );
+    });
+  });
+
   describe('generateTokens - refresh token cleanup', () => {
     it.each([
       ['no existing tokens', undefined, 1],
@@ -874,6 +1605,73 @@ describe('AuthService - Idempotency', () => {
       expect(mockAuthRepository.createRefreshToken).toHaveBeenCalled();
     });
   });
+
+  describe('switchHousehold', () => {
+    const otherHouseholdId = 'household-456';
+
+    it('should activate the household and issue tokens scoped to it', async () => {
+      mockPrismaService.householdMembership.findUnique.mockResolvedValue({
+        userId,
+        householdId: otherHouseholdId,
+        role: 'Kid',
+        household: { id: otherHouseholdId, name: 'Parents', deletedAt: null },
+      });
+      mockPrismaService.user.update.mockResolvedValue({
+        ...mockUser,
+        householdId: otherHouseholdId,
+        role: 'Kid',
+        isGuest: false,
+        household: { id: otherHouseholdId, name: 'Parents' },
+      });
+
+      const result = await service.switchHousehold(userId, {
+        householdId: otherHouseholdId,
+      });
+
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+        where: { id: userId },
+        data: { householdId: otherHouseholdId, role: 'Kid' },
+        include: { household: true },
+      });
+      expect(mockJwtService.signAsync).toHaveBeenCalledWith(
+        expect.objectContaining({ householdId: otherHouseholdId }),
+        expect.anything(),
+      );
+      expect(result).toEqual(
+        expect.objectContaining({
+          accessToken: 'mock-token',
+          householdId: otherHouseholdId,
+          household: { id: otherHouseholdId, name: 'Parents' },
+        }),
+      );
+      expect(result.user.role).toBe('Kid');
+      expect(mockRealtimeService.closeStreams).toHaveBeenCalledWith(
+        householdId,
+        userId,
+      );
+    });
+
+    it.each([
+      ['not a member', null],
+      [
+        'a member of a deleted household',
+        {
+          role: 'Admin',
+          householdId: otherHouseholdId,
+          household: { id: otherHouseholdId, deletedAt: new Date() },
+        },
+      ],
+    ])('should reject users who are %s', async (_label, membership) => {
+      mockPrismaService.householdMembership.findUnique.mockResolvedValue(
+        membership,
+      );
+
+      await expect(
+        service.switchHousehold(userId, { householdId: otherHouseholdId }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockPrismaService.user.update).not.toHaveBeenCalled();
+    });
+  });
 });
 
 describe('AuthService - authenticateGoogle household payload', () => {
@@ -929,6 +1727,10 @@ describe('AuthService - authenticateGoogle household payload', () => {
         { provide: UuidService, useValue: mockUuidService },
         { provide: HouseholdsService, useValue: mockHouseholdsService },
         { provide: EmailService, useValue: mockEmailService },
+        { provide: ShoppingService, useValue: {} },
+        { provide: ChoresService, useValue: {} },
+        { provide: AuditService, useValue: {} },
+        { provide: RealtimeService, useValue: {} },
       ],
     }).compile();
 
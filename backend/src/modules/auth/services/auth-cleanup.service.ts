@@ -1,26 +1,15 @@
 /**
- * Service for cleaning up old idempotency keys.
- *
- * Removes completed idempotency keys older than the retention period
- * to prevent unbounded table growth.
+ * Service for cleaning up old idempotency keys and expired auth tokens.
  *
  * **Scheduled Cleanup:**
- * To enable scheduled cleanup, install @nestjs/schedule:
- * ```bash
- * npm install @nestjs/schedule
- * ```
- *
- * Then in auth.module.ts:
- * 1. Import ScheduleModule: `import { ScheduleModule } from '@nestjs/schedule';`
- * 2. Add to imports: `ScheduleModule.forRoot()`
- *
- * Then uncomment the @Cron decorator on handleScheduledCleanup() method below.
+ * The cleanups run as background jobs on the job queue, see
+ * `jobs/sync.processor.ts` and `jobs/auth.processor.ts`.
  */
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../../infrastructure/database/prisma/prisma.service';
 
 /**
- * Service for cleaning up old idempotency keys.
+ * Service for cleaning up old idempotency keys and expired auth tokens.
  *
  * Removes completed idempotency keys older than the retention period
  * to prevent unbounded table growth.
@@ -80,20 +69,11 @@ export class AuthCleanupService {
   }
 
   /**
-   * Scheduled job to cleanup old idempotency keys daily at 2 AM.
+   * Cleans up old idempotency keys with the default retention, logging
+   * instead of throwing on failure.
    *
-   * Runs every day to remove completed keys older than 30 days.
-   *
-   * **To enable scheduled cleanup:**
-   * 1. Install @nestjs/schedule: `npm install @nestjs/schedule`
-   * 2. Import ScheduleModule in auth.module.ts and add to imports
-   * 3. Uncomment the @Cron decorator below:
-   *    ```typescript
-   *    import { Cron, CronExpression } from '@nestjs/schedule';
-   *    // ...
-   *    @Cron(CronExpression.EVERY_DAY_AT_2AM)
-   *    async handleScheduledCleanup(): Promise<void> {
-   *    ```
+   * The job queue runs `cleanupOldIdempotencyKeys()` directly so failures
+   * are retried; this entry point is for callers that must not fail.
    */
   async handleScheduledCleanup(): Promise<void> {
     this.logger.log('Running scheduled idempotency key cleanup');
@@ -112,6 +92,43 @@ export class AuthCleanupService {
     }
   }
 
+  /**
+   * Deletes expired refresh tokens and clears expired email verification
+   * tokens.
+   *
+   * @param now - Reference time (defaults to the current time)
+   * @returns Number of refresh tokens deleted and verification tokens cleared
+   */
+  async cleanupExpiredTokens(
+    now: Date = new Date(),
+  ): Promise<{ refreshTokens: number; verificationTokens: number }> {
+    const [refreshTokens, verificationTokens] = await Promise.all([
+      this.prisma.refreshToken.deleteMany({
+        where: { expiresAt: { lt: now } },
+      }),
+      this.prisma.user.updateMany({
+        where: {
+          emailVerificationToken: { not: null },
+          emailVerificationTokenExpiry: { lt: now },
+        },
+        data: {
+          emailVerificationToken: null,
+          emailVerificationTokenExpiry: null,
+        },
+      }),
+    ]);
+
+    this.logger.log('Cleaned up expired auth tokens', {
+      refreshTokens: refreshTokens.count,
+      verificationTokens: verificationTokens.count,
+    });
+
+    return {
+      refreshTokens: refreshTokens.count,
+      verificationTokens: verificationTokens.count,
+    };
+  }
+
   /**
    * Gets statistics about idempotency keys for monitoring.
    *
@@ -3,6 +3,7 @@ import {
   Injectable,
   UnauthorizedException,
   BadRequestException,
+  ForbiddenException,
   Logger,
   ConflictException,
 } from '@nestjs/common';
@@ -13,7 +14,20 @@ import * as crypto from 'crypto';
 import { PrismaService } from '../../../infrastructure/database/prisma/prisma.service';
 import { AuthRepository } from '../repositories/auth.repository';
 import { HouseholdsService } from '../../households/services/households.service';
+import { ShoppingService } from '../../shopping/services/shopping.service';
+import { ChoresService } from '../../chores/services/chores.service';
+import { AuditService } from '../../audit/services/audit.service';
+import { AUDIT_ACTIONS } from '../../audit/constants/audit-actions';
+import { ENTITY_TYPES } from '../../audit/constants/entity-types';
+import { ITEM_PEOPLE_INCLUDE } from '../../shopping/repositories/shopping.repository';
+import { REALTIME_TABLES } from '../../realtime/constants/realtime.constants';
+import { RealtimeService } from '../../realtime/services/realtime.service';
 import { UuidService } from '../../../common/services/uuid.service';
+import {
+  PERMISSIONS,
+  Permission,
+  hasPermission,
+} from '../../../common/constants';
 import { EmailService } from './email.service';
 import { loadConfiguration } from '../../../config/configuration';
 import { User, Household } from '@prisma/client';
@@ -24,13 +38,19 @@ import {
   AuthResponseDto,
   UserResponseDto,
   SyncShoppingListDto,
+  SyncShoppingItemDto,
   SyncRecipeDto,
   SyncChoreDto,
+  SyncEntityOperationDto,
   UserCreationHouseholdDto,
   RegisterDto,
   LoginDto,
   VerifyEmailDto,
   ResendVerificationDto,
+  SwitchHouseholdDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  ChangePasswordDto,
 } from '../dtos';
 import {
   JwtPayload,
@@ -47,6 +67,20 @@ import {
   SYNC_ENTITY_TYPES,
   type SyncEntityType,
 } from '../constants/sync-entity-types';
+import {
+  SYNC_CONFLICT_REASONS,
+  SYNC_OPERATIONS,
+} from '../constants/sync-operations';
+import { SyncConflictError } from '../utils/sync-conflict.error';
+import {
+  SYNC_PATCH_FIELDS,
+  findConflictingFields,
+  pickSyncPatch,
+  toSyncChore,
+  toSyncRecipe,
+  toSyncShoppingItem,
+  toSyncShoppingList,
+} from '../utils/sync-entities';
 
 /**
  * Type guard for Prisma unique constraint violation errors
@@ -89,6 +123,10 @@ export class AuthService {
     private uuidService: UuidService,
     private householdsService: HouseholdsService,
     private emailService: EmailService,
+    private shoppingService: ShoppingService,
+    private choresService: ChoresService,
+    private auditService: AuditService,
+    private realtimeService: RealtimeService,
   ) {
     const config = loadConfiguration();
     if (config.google.clientId && config.google.clientSecret) {
@@ -191,7 +229,7 @@ export class AuthService {
    *
    * @param code - Authorization code from Google OAuth callback
    * @param redirectUri - The redirect URI used in the OAuth flow (must match Google Cloud Console)
-   * @param metadata - Optional metadata from state token (e.g., householdId for join flow)
+   * @param metadata - Optional metadata from state token (householdId and inviteCode for join flow)
    * @returns Authentication response with access token, refresh token, and user info
    * @throws UnauthorizedException if code exchange fails or Google OAuth is not configured
    *
@@ -207,7 +245,7 @@ export class AuthService {
   async authenticateGoogleWithCode(
     code: string,
     redirectUri: string,
-    metadata?: { householdId?: string },
+    metadata?: { householdId?: string; inviteCode?: string },
   ): Promise<AuthResponseDto> {
     if (!this.googleClient) {
       throw new UnauthorizedException('Google OAuth not configured');
@@ -256,9 +294,11 @@ export class AuthService {
       } else {
         // User doesn't have a household - create or join one
         if (metadata?.householdId) {
-          // Join existing household (not a new household)
+          // Join existing household (not a new household). The invite code,
+          // when present, enforces invite limits and join approval.
           await this.resolveAndAttachHousehold(user.id, {
             id: metadata.householdId,
+            inviteCode: metadata.inviteCode,
           });
           isNewHousehold = false;
         } else {
@@ -316,26 +356,45 @@ export class AuthService {
    * Synchronizes offline data to the cloud for a user.
    * Validates input size and structure before processing.
    *
+   * **Operations** (per entity `op`, default `upsert`):
+   * - `upsert`: full entity state, created or overwritten
+   * - `update`: only the patched fields are written. If the entity changed after
+   *   `baseUpdatedAt` and a patched field differs from the server value, the
+   *   update is rejected as a `stale_base` conflict carrying the server copy
+   * - `delete`: soft delete (sets `deletedAt`); deleting a missing or already
+   *   deleted entity succeeds
+   *
+   * Every operation requires the same household permissions as the matching
+   * REST routes: an upsert is checked as a create for a new entity and as an
+   * edit of the fields it changes for an existing one. A denied operation is
+   * reported as a `forbidden` conflict, and an upsert of an ID from another
+   * household as `not_found`. Updates log household activity, and completing
+   * a chore goes through ChoresService so it records the completion and
+   * schedules the next occurrence.
+   *
    * **Conflict Resolution Strategy:**
-   * - Backend uses simple `upsert` operations (no timestamp-based conflict resolution)
-   * - All conflict resolution is handled client-side using Last-Write-Wins (LWW) strategy
+   * - The server only detects conflicts; the client resolves them with a
+   *   three-way merge against its base copy and retries
    * - Server timestamps are authoritative (Prisma auto-manages `updatedAt` via `@updatedAt` directive)
-   * - `deletedAt` is handled via soft-delete in repositories
-   * - Client-side conflict resolution ensures deterministic outcomes for offline-first architecture
+   * - Conflicts carry a machine-readable `reason`, and the server copy where relevant
    *
-   * **Why Client-Side Resolution:**
-   * - Prevents conflict resolution loops between client and server
-   * - Allows offline-first architecture with local conflict resolution
-   * - Server remains simple (just upsert) while client handles all conflicts
-   * - Server timestamps are still authoritative (Prisma auto-manages them)
+   * The batch is applied to the household of the access token it was sent
+   * with, not the user's current household, so writes queued before a
+   * household switch on another device never land in the new household.
    *
    * @param userId - The ID of the user performing the sync
+   * @param householdId - The household from the request's access token
    * @param syncData - The data to synchronize (lists, recipes, chores)
    * @returns Sync result with status and any conflicts encountered
-   * @throws UnauthorizedException if user doesn't belong to a household
+   * @throws UnauthorizedException if the token has no household
+   * @throws ForbiddenException if the user is no longer a member of it
    * @throws BadRequestException if sync data exceeds size limits
    */
-  async syncData(userId: string, syncData: SyncDataDto): Promise<SyncResult> {
+  async syncData(
+    userId: string,
+    householdId: string | null,
+    syncData: SyncDataDto,
+  ): Promise<SyncResult> {
     const listCount = syncData.lists?.length ?? 0;
     const recipeCount = syncData.recipes?.length ?? 0;
     const choreCount = syncData.chores?.length ?? 0;
@@ -350,7 +409,13 @@ export class AuthService {
 
     this.validateSyncDataSize(syncData);
 
-    const user = await this.validateUserHasHousehold(userId);
+    if (!householdId) {
+      throw new UnauthorizedException('User must belong to a household');
+    }
+    const role = await this.findHouseholdRole(userId, householdId);
+    if (!role) {
+      throw new ForbiddenException('User is not a member of this household');
+    }
 
     const allSucceeded: Array<{
       operationId: string;
@@ -384,7 +449,8 @@ export class AuthService {
       }
       const listResults = await this.syncShoppingLists(
         userId,
-        user.householdId!,
+        householdId,
+        role,
         syncData.lists,
         syncData.requestId,
       );
@@ -407,7 +473,8 @@ export class AuthService {
       }
       const recipeResults = await this.syncRecipes(
         userId,
-        user.householdId!,
+        householdId,
+        role,
         syncData.recipes,
         syncData.requestId,
       );
@@ -430,7 +497,8 @@ export class AuthService {
       }
       const choreResults = await this.syncChores(
         userId,
-        user.householdId!,
+        householdId,
+        role,
         syncData.chores,
         syncData.requestId,
       );
@@ -554,6 +622,65 @@ export class AuthService {
     return this.mapUserToResponse(user as UserWithHousehold);
   }
 
+  /**
+   * Makes another of the user's households active and issues tokens scoped
+   * to it. The choice is stored on the user so later sign-ins and refreshes
+   * land in the same household, and the user's event streams for the
+   * previous household are closed.
+   *
+   * @param userId - User ID from JWT payload
+   * @param dto - The household to switch to
+   * @returns Authentication response with tokens for the household
+   * @throws ForbiddenException if the user is not a member of the household
+   */
+  async switchHousehold(
+    userId: string,
+    dto: SwitchHouseholdDto,
+  ): Promise<AuthResponseDto> {
+    const membership = await this.prisma.householdMembership.findUnique({
+      where: {
+        userId_householdId: { userId, householdId: dto.householdId },
+      },
+      include: { household: true },
+    });
+
+    if (!membership || membership.household.deletedAt) {
+      throw new ForbiddenException('User is not a member of this household');
+    }
+
+    const previous = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { householdId: true },
+    });
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data: { householdId: membership.householdId, role: membership.role },
+      include: { household: true },
+    });
+    const tokens = await this.generateTokens(user);
+
+    if (
+      previous?.householdId &&
+      previous.householdId !== membership.householdId
+    ) {
+      this.realtimeService.closeStreams(previous.householdId, userId);
+    }
+    this.logger.log(
+      `User ${userId} switched to household ${membership.householdId}`,
+    );
+
+    return {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      user: this.mapUserToResponse(user),
+      householdId: membership.householdId,
+      household: {
+        id: membership.household.id,
+        name: membership.household.name,
+      },
+    };
+  }
+
   /**
    * Finds or creates a user based on Google OAuth payload.
    * Handles three scenarios:
@@ -671,10 +798,8 @@ export class AuthService {
         household.id,
       );
     } else if (inviteCode) {
-      // Validate invite code and get householdId
-      const { householdId } =
-        await this.householdsService.validateInviteCode(inviteCode);
-      await this.householdsService.addUserToHousehold(householdId, userId);
+      // Validates the invite (expiry, revocation, usage limit) and counts the use
+      await this.householdsService.joinHousehold(userId, inviteCode);
     } else if (
       household.id != null &&
       typeof household.id === 'string' &&
@@ -710,21 +835,54 @@ export class AuthService {
   }
 
   /**
-   * Validates that user exists and belongs to a household.
+   * Looks up the user's role in a household, or null if they are not a member.
    */
-  private async validateUserHasHousehold(
+  private async findHouseholdRole(
     userId: string,
-  ): Promise<UserWithHousehold> {
-    const user = await this.prisma.user.findUnique({
-      where: { id: userId },
-      include: { household: true },
+    householdId: string,
+  ): Promise<string | null> {
+    const membership = await this.prisma.householdMembership.findUnique({
+      where: { userId_householdId: { userId, householdId } },
     });
+    return membership?.role ?? null;
+  }
 
-    if (!user || !user.householdId) {
-      throw new UnauthorizedException('User must belong to a household');
+  /**
+   * Rejects a sync operation the user's household role does not allow.
+   *
+   * @throws SyncConflictError `forbidden` if the role lacks the permission
+   */
+  private assertSyncPermission(
+    role: string | null,
+    permission: Permission,
+    entity: SyncEntityOperationDto,
+  ): void {
+    if (!hasPermission(role, permission)) {
+      throw new SyncConflictError(
+        SYNC_CONFLICT_REASONS.FORBIDDEN,
+        `Not allowed to ${entity.op} ${entity.id}`,
+      );
     }
+  }
 
-    return user;
+  /**
+   * Rejects a sync upsert whose ID belongs to a row in another household,
+   * so it cannot overwrite that row.
+   *
+   * @param ownerHouseholdId - Household of the existing row, if there is one
+   * @throws SyncConflictError `not_found` if the row is in another household
+   */
+  private assertSyncUpsertTarget(
+    ownerHouseholdId: string | undefined,
+    householdId: string,
+    entity: SyncEntityOperationDto,
+  ): void {
+    if (ownerHouseholdId !== undefined && ownerHouseholdId !== householdId) {
+      throw new SyncConflictError(
+        SYNC_CONFLICT_REASONS.NOT_FOUND,
+        `Entity ${entity.id} not found`,
+      );
+    }
   }
 
   /**
@@ -766,18 +924,104 @@ export class AuthService {
           clientLocalId: entity.id, // For creates, this is the original localId
         });
       } catch (error) {
-        conflicts.push({
-          type: entityType,
-          id: entity.id,
-          operationId: entity.operationId,
-          reason: error instanceof Error ? error.message : 'Unknown error',
-        });
+        conflicts.push(this.toSyncConflict(entityType, entity, error));
       }
     }
 
     return { succeeded, conflicts };
   }
 
+  /**
+   * Builds the conflict reported for an entity that failed to sync.
+   * Structured conflicts keep their reason and details, a ForbiddenException
+   * from a service is reported as `forbidden`, and other errors are reported
+   * as `error` with the error message.
+   */
+  private toSyncConflict(
+    type: SyncConflict['type'],
+    entity: { id: string; operationId: string },
+    error: unknown,
+  ): SyncConflict {
+    if (error instanceof SyncConflictError) {
+      return {
+        type,
+        id: entity.id,
+        operationId: entity.operationId,
+        reason: error.reason,
+        message: error.message,
+        ...error.details,
+      };
+    }
+    if (error instanceof ForbiddenException) {
+      return {
+        type,
+        id: entity.id,
+        operationId: entity.operationId,
+        reason: SYNC_CONFLICT_REASONS.FORBIDDEN,
+        message: error.message,
+      };
+    }
+    return {
+      type,
+      id: entity.id,
+      operationId: entity.operationId,
+      reason: SYNC_CONFLICT_REASONS.ERROR,
+      message: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+
+  /**
+   * Checks that a field-level update can be applied to the server copy.
+   *
+   * @param entity - Update DTO
+   * @param existing - Current server row in the user's household, if any
+   * @param toSyncEntity - Maps the row to its sync DTO shape
+   * @param patch - Patched fields and their new values
+   * @throws SyncConflictError `not_found` if the entity does not exist,
+   *   `deleted` if it was deleted, or `stale_base` if it changed after
+   *   `baseUpdatedAt` and a patched field differs from the server value
+   */
+  private assertSyncPatchApplies<
+    T extends { updatedAt: Date; deletedAt: Date | null },
+  >(
+    entity: SyncEntityOperationDto,
+    existing: T | null,
+    toSyncEntity: (row: T) => Record<string, unknown>,
+    patch: Record<string, unknown>,
+  ): void {
+    if (!existing) {
+      throw new SyncConflictError(
+        SYNC_CONFLICT_REASONS.NOT_FOUND,
+        `Entity ${entity.id} not found`,
+      );
+    }
+
+    const serverEntity = toSyncEntity(existing);
+    if (existing.deletedAt) {
+      throw new SyncConflictError(
+        SYNC_CONFLICT_REASONS.DELETED,
+        `Entity ${entity.id} was deleted`,
+        { serverEntity },
+      );
+    }
+
+    if (
+      !entity.baseUpdatedAt ||
+      existing.updatedAt.getTime() <= new Date(entity.baseUpdatedAt).getTime()
+    ) {
+      return;
+    }
+
+    const fields = findConflictingFields(patch, serverEntity);
+    if (fields.length > 0) {
+      throw new SyncConflictError(
+        SYNC_CONFLICT_REASONS.STALE_BASE,
+        `Entity ${entity.id} changed after ${entity.baseUpdatedAt}`,
+        { fields, serverEntity },
+      );
+    }
+  }
+
   /**
    * Processes an entity with idempotency checking using insert-first pattern.
    *
@@ -889,6 +1133,7 @@ export class AuthService {
   private async syncShoppingLists(
     userId: string,
     householdId: string,
+    role: string | null,
     lists: SyncShoppingListDto[],
     requestId: string | undefined,
   ): Promise<{
@@ -911,6 +1156,7 @@ export class AuthService {
         const { itemResults } = await this.syncShoppingList(
           userId,
           householdId,
+          role,
           list,
           requestId,
         );
@@ -925,12 +1171,7 @@ export class AuthService {
         succeeded.push(...itemResults.succeeded);
         conflicts.push(...itemResults.conflicts);
       } catch (error) {
-        conflicts.push({
-          type: 'list',
-          id: list.id,
-          operationId: list.operationId,
-          reason: error instanceof Error ? error.message : 'Unknown error',
-        });
+        conflicts.push(this.toSyncConflict('list', list, error));
       }
     }
 
@@ -940,10 +1181,6 @@ export class AuthService {
   /**
    * Synchronizes a single shopping list and its items.
    *
-   * **Note:** Uses simple `upsert` without timestamp-based conflict resolution.
-   * Client-side conflict resolution handles all conflicts using LWW strategy.
-   * Server timestamps are authoritative (Prisma auto-manages `updatedAt`).
-   *
    * **Idempotency:** Uses insert-first pattern to prevent duplicate processing.
    *
    * Returns item results for aggregation at the syncShoppingLists level.
@@ -951,6 +1188,7 @@ export class AuthService {
   private async syncShoppingList(
     userId: string,
     householdId: string,
+    role: string | null,
     list: SyncShoppingListDto,
     requestId: string | undefined,
   ): Promise<{
@@ -979,23 +1217,13 @@ export class AuthService {
       list.id,
       requestId,
       async () => {
-        await this.prisma.shoppingList.upsert({
-          where: { id: list.id },
-          create: {
-            id: list.id,
-            householdId,
-            name: list.name,
-            color: list.color,
-          },
-          update: {
-            name: list.name,
-            color: list.color,
-          },
-        });
+        await this.applyShoppingListOperation(userId, householdId, role, list);
 
         if (list.items) {
           itemResults = await this.syncShoppingItems(
             userId,
+            householdId,
+            role,
             list.id,
             list.items,
             requestId,
@@ -1007,6 +1235,85 @@ export class AuthService {
     return { itemResults };
   }
 
+  /**
+   * Applies a shopping list's sync operation (upsert, update or delete) and
+   * pushes the change to household members. Clients apply inserts and
+   * updates alike, so an upsert is published as an update. An upsert that
+   * changes nothing (a list sent only to carry its items) is skipped and
+   * needs no permission.
+   */
+  private async applyShoppingListOperation(
+    userId: string,
+    householdId: string,
+    role: string | null,
+    list: SyncShoppingListDto,
+  ): Promise<void> {
+    const op = list.op ?? SYNC_OPERATIONS.UPSERT;
+    if (op === SYNC_OPERATIONS.UPSERT) {
+      const existing = await this.prisma.shoppingList.findUnique({
+        where: { id: list.id },
+      });
+      this.assertSyncUpsertTarget(existing?.householdId, householdId, list);
+      const patch = pickSyncPatch(list, SYNC_PATCH_FIELDS.list);
+      if (
+        existing &&
+        findConflictingFields(patch, toSyncShoppingList(existing)).length === 0
+      ) {
+        return;
+      }
+      this.assertSyncPermission(role, PERMISSIONS.SHOPPING_MANAGE_LISTS, list);
+      const saved = await this.prisma.shoppingList.upsert({
+        where: { id: list.id, householdId },
+        create: {
+          id: list.id,
+          householdId,
+          name: list.name,
+          color: list.color,
+        },
+        update: {
+          name: list.name,
+          color: list.color,
+        },
+      });
+      this.shoppingService.publishListChange(householdId, 'UPDATE', saved);
+      return;
+    }
+
+    this.assertSyncPermission(role, PERMISSIONS.SHOPPING_MANAGE_LISTS, list);
+    const existing = await this.prisma.shoppingList.findFirst({
+      where: { id: list.id, householdId },
+    });
+
+    if (op === SYNC_OPERATIONS.DELETE) {
+      if (existing && !existing.deletedAt) {
+        await this.prisma.shoppingList.update({
+          where: { id: list.id },
+          data: { deletedAt: new Date() },
+        });
+        this.shoppingService.publishDeletion(
+          householdId,
+          REALTIME_TABLES.SHOPPING_LISTS,
+          list.id,
+        );
+      }
+      return;
+    }
+
+    const patch = pickSyncPatch(list, SYNC_PATCH_FIELDS.list);
+    this.assertSyncPatchApplies(list, existing, toSyncShoppingList, patch);
+    const updated = await this.prisma.shoppingList.update({
+      where: { id: list.id },
+      data: { name: list.name, color: list.color },
+    });
+    await this.auditService.logActivity(userId, householdId, {
+      action: AUDIT_ACTIONS.UPDATE_LIST,
+      entityType: ENTITY_TYPES.SHOPPING_LIST,
+      entityId: list.id,
+      metadata: { name: updated.name, fields: Object.keys(patch) },
+    });
+    this.shoppingService.publishListChange(householdId, 'UPDATE', updated);
+  }
+
   /**
    * Synchronizes shopping items for a list.
    * Each item has its own operationId for idempotency.
@@ -1014,6 +1321,8 @@ export class AuthService {
    */
   private async syncShoppingItems(
     userId: string,
+    householdId: string,
+    role: string | null,
     listId: string,
     items: SyncShoppingListDto['items'],
     requestId: string | undefined,
@@ -1040,44 +1349,153 @@ export class AuthService {
           item.id,
           requestId,
           async () => {
-            await this.prisma.shoppingItem.upsert({
-              where: { id: item.id },
-              create: {
-                id: item.id,
-                listId,
-                name: item.name,
-                quantity: item.quantity || 1,
-                unit: item.unit,
-                isChecked: item.isChecked || false,
-                category: item.category,
-              },
-              update: {
-                name: item.name,
-                quantity: item.quantity,
-                unit: item.unit,
-                isChecked: item.isChecked,
-                category: item.category,
-              },
-            });
+            await this.applyShoppingItemOperation(
+              userId,
+              householdId,
+              role,
+              listId,
+              item,
+            );
           },
         );
       },
     );
   }
 
+  /**
+   * Applies a shopping item's sync operation (upsert, update or delete) and
+   * pushes the change to household members; upserts are published as
+   * updates. A `null` quantity or isChecked in an update resets it to its
+   * default. An update or upsert that only checks or unchecks the item
+   * needs just the permission to check items, like the REST route.
+   */
+  private async applyShoppingItemOperation(
+    userId: string,
+    householdId: string,
+    role: string | null,
+    listId: string,
+    item: SyncShoppingItemDto,
+  ): Promise<void> {
+    const op = item.op ?? SYNC_OPERATIONS.UPSERT;
+    if (op === SYNC_OPERATIONS.UPSERT) {
+      const existing = await this.prisma.shoppingItem.findUnique({
+        where: { id: item.id },
+        include: { list: { select: { householdId: true } } },
+      });
+      this.assertSyncUpsertTarget(
+        existing?.list.householdId,
+        householdId,
+        item,
+      );
+      const changed = existing
+        ? findConflictingFields(
+            pickSyncPatch(item, SYNC_PATCH_FIELDS.shoppingItem),
+            toSyncShoppingItem(existing),
+          )
+        : null;
+      if (changed?.length === 0) {
+        return;
+      }
+      this.assertSyncPermission(
+        role,
+        changed?.every((field) => field === 'isChecked')
+          ? PERMISSIONS.SHOPPING_CHECK_ITEMS
+          : PERMISSIONS.SHOPPING_EDIT_ITEMS,
+        item,
+      );
+      const saved = await this.prisma.shoppingItem.upsert({
+        where: { id: item.id, list: { householdId } },
+        create: {
+          id: item.id,
+          listId,
+          name: item.name,
+          quantity: item.quantity || 1,
+          unit: item.unit,
+          isChecked: item.isChecked || false,
+          category: item.category,
+        },
+        update: {
+          name: item.name,
+          quantity: item.quantity ?? undefined,
+          unit: item.unit,
+          isChecked: item.isChecked ?? undefined,
+          category: item.category,
+        },
+        include: ITEM_PEOPLE_INCLUDE,
+      });
+      this.shoppingService.publishItemChange(householdId, 'UPDATE', saved);
+      return;
+    }
+
+    const patch = pickSyncPatch(item, SYNC_PATCH_FIELDS.shoppingItem);
+    const isCheckOnly =
+      op === SYNC_OPERATIONS.UPDATE &&
+      Object.keys(patch).every((field) => field === 'isChecked');
+    this.assertSyncPermission(
+      role,
+      isCheckOnly
+        ? PERMISSIONS.SHOPPING_CHECK_ITEMS
+        : PERMISSIONS.SHOPPING_EDIT_ITEMS,
+      item,
+    );
+    const existing = await this.prisma.shoppingItem.findFirst({
+      where: { id: item.id, list: { householdId } },
+      include: { list: { select: { id: true, name: true } } },
+    });
+
+    if (op === SYNC_OPERATIONS.DELETE) {
+      if (existing && !existing.deletedAt) {
+        await this.prisma.shoppingItem.update({
+          where: { id: item.id },
+          data: { deletedAt: new Date() },
+        });
+        this.shoppingService.publishDeletion(
+          householdId,
+          REALTIME_TABLES.SHOPPING_ITEMS,
+          item.id,
+        );
+      }
+      return;
+    }
+
+    this.assertSyncPatchApplies(item, existing, toSyncShoppingItem, patch);
+    const wasChecked = existing!.isChecked;
+    const isChecked = item.isChecked === null ? false : item.isChecked;
+    const updated = await this.prisma.shoppingItem.update({
+      where: { id: item.id },
+      data: {
+        name: item.name,
+        quantity: item.quantity === null ? 1 : item.quantity,
+        unit: item.unit,
+        isChecked,
+        category: item.category,
+        ...this.shoppingService.checkedByUpdate(wasChecked, isChecked, userId),
+      },
+      include: ITEM_PEOPLE_INCLUDE,
+    });
+    await this.auditService.logActivity(userId, householdId, {
+      action: this.shoppingService.itemActivityAction(wasChecked, isChecked),
+      entityType: ENTITY_TYPES.SHOPPING_ITEM,
+      entityId: item.id,
+      metadata: {
+        name: updated.name,
+        listId: existing!.list.id,
+        listName: existing!.list.name,
+      },
+    });
+    this.shoppingService.publishItemChange(householdId, 'UPDATE', updated);
+  }
+
   /**
    * Synchronizes recipes.
    *
-   * **Note:** Uses simple `upsert` without timestamp-based conflict resolution.
-   * Client-side conflict resolution handles all conflicts using LWW strategy.
-   * Server timestamps are authoritative (Prisma auto-manages `updatedAt`).
-   *
    * **Idempotency:** Uses insert-first pattern to prevent duplicate processing.
    * Returns both succeeded and failed entities with operationId mapping.
    */
   private async syncRecipes(
     userId: string,
     householdId: string,
+    role: string | null,
     recipes: SyncRecipeDto[],
     requestId: string | undefined,
   ): Promise<{
@@ -1099,40 +1517,101 @@ export class AuthService {
           recipe.id,
           requestId,
           async () => {
-            await this.prisma.recipe.upsert({
-              where: { id: recipe.id },
-              create: {
-                id: recipe.id,
-                householdId,
-                title: recipe.title,
-                ingredients: JSON.parse(JSON.stringify(recipe.ingredients)),
-                instructions: JSON.parse(JSON.stringify(recipe.instructions)),
-              },
-              update: {
-                title: recipe.title,
-                ingredients: JSON.parse(JSON.stringify(recipe.ingredients)),
-                instructions: JSON.parse(JSON.stringify(recipe.instructions)),
-              },
-            });
+            await this.applyRecipeOperation(userId, householdId, role, recipe);
           },
         );
       },
     );
   }
 
+  /**
+   * Applies a recipe's sync operation (upsert, update or delete).
+   */
+  private async applyRecipeOperation(
+    userId: string,
+    householdId: string,
+    role: string | null,
+    recipe: SyncRecipeDto,
+  ): Promise<void> {
+    const op = recipe.op ?? SYNC_OPERATIONS.UPSERT;
+    if (op === SYNC_OPERATIONS.UPSERT) {
+      const existing = await this.prisma.recipe.findUnique({
+        where: { id: recipe.id },
+      });
+      this.assertSyncUpsertTarget(existing?.householdId, householdId, recipe);
+      const patch = pickSyncPatch(recipe, SYNC_PATCH_FIELDS.recipe);
+      if (
+        existing &&
+        findConflictingFields(patch, toSyncRecipe(existing)).length === 0
+      ) {
+        return;
+      }
+      this.assertSyncPermission(role, PERMISSIONS.RECIPES_EDIT, recipe);
+      await this.prisma.recipe.upsert({
+        where: { id: recipe.id, householdId },
+        create: {
+          id: recipe.id,
+          householdId,
+          title: recipe.title,
+          ingredients: JSON.parse(JSON.stringify(recipe.ingredients)),
+          instructions: JSON.parse(JSON.stringify(recipe.instructions)),
+        },
+        update: {
+          title: recipe.title,
+          ingredients: JSON.parse(JSON.stringify(recipe.ingredients)),
+          instructions: JSON.parse(JSON.stringify(recipe.instructions)),
+        },
+      });
+      return;
+    }
+
+    this.assertSyncPermission(role, PERMISSIONS.RECIPES_EDIT, recipe);
+    const existing = await this.prisma.recipe.findFirst({
+      where: { id: recipe.id, householdId },
+    });
+
+    if (op === SYNC_OPERATIONS.DELETE) {
+      if (existing && !existing.deletedAt) {
+        await this.prisma.recipe.update({
+          where: { id: recipe.id },
+          data: { deletedAt: new Date() },
+        });
+      }
+      return;
+    }
+
+    const patch = pickSyncPatch(recipe, SYNC_PATCH_FIELDS.recipe);
+    this.assertSyncPatchApplies(recipe, existing, toSyncRecipe, patch);
+    const updated = await this.prisma.recipe.update({
+      where: { id: recipe.id },
+      data: {
+        title: recipe.title,
+        ingredients: recipe.ingredients
+          ? JSON.parse(JSON.stringify(recipe.ingredients))
+          : undefined,
+        instructions: recipe.instructions
+          ? JSON.parse(JSON.stringify(recipe.instructions))
+          : undefined,
+      },
+    });
+    await this.auditService.logActivity(userId, householdId, {
+      action: AUDIT_ACTIONS.UPDATE_RECIPE,
+      entityType: ENTITY_TYPES.RECIPE,
+      entityId: recipe.id,
+      metadata: { name: updated.title, fields: Object.keys(patch) },
+    });
+  }
+
   /**
    * Synchronizes chores.
    *
-   * **Note:** Uses simple `upsert` without timestamp-based conflict resolution.
-   * Client-side conflict resolution handles all conflicts using LWW strategy.
-   * Server timestamps are authoritative (Prisma auto-manages `updatedAt`).
-   *
    * **Idempotency:** Uses insert-first pattern to prevent duplicate processing.
    * Returns both succeeded and failed entities with operationId mapping.
    */
   private async syncChores(
     userId: string,
     householdId: string,
+    role: string | null,
     chores: SyncChoreDto[],
     requestId: string | undefined,
   ): Promise<{
@@ -1151,34 +1630,164 @@ export class AuthService {
         chore.id,
         requestId,
         async () => {
-          const dueDate = this.parseOptionalDueDate(chore.dueDate);
-          await this.prisma.chore.upsert({
-            where: { id: chore.id },
-            create: {
-              id: chore.id,
-              householdId,
-              title: chore.title,
-              assigneeId: chore.assigneeId,
-              dueDate,
-              isCompleted: chore.isCompleted || false,
-            },
-            update: {
-              title: chore.title,
-              assigneeId: chore.assigneeId,
-              dueDate,
-              isCompleted: chore.isCompleted,
-            },
-          });
+          await this.applyChoreOperation(userId, householdId, role, chore);
         },
       );
     });
   }
 
+  /**
+   * Applies a chore's sync operation (upsert, update or delete).
+   * Editing fields needs the permission to manage chores; a change of
+   * isCompleted, in an update or an upsert, goes through ChoresService like
+   * the REST status route, so members without `chores:complete-any` can only
+   * complete their own chores. A `null` isCompleted in an update resets it
+   * to false; in an upsert it leaves it unchanged.
+   */
+  private async applyChoreOperation(
+    userId: string,
+    householdId: string,
+    role: string | null,
+    chore: SyncChoreDto,
+  ): Promise<void> {
+    const op = chore.op ?? SYNC_OPERATIONS.UPSERT;
+    if (op === SYNC_OPERATIONS.UPSERT) {
+      const existing = await this.prisma.chore.findUnique({
+        where: { id: chore.id },
+      });
+      this.assertSyncUpsertTarget(existing?.householdId, householdId, chore);
+      const dueDate = this.parseOptionalDueDate(chore.dueDate);
+      const editsFields =
+        !existing ||
+        findConflictingFields(
+          {
+            ...pickSyncPatch(chore, ['title', 'assigneeId']),
+            dueDate: dueDate?.toISOString() ?? null,
+          },
+          toSyncChore(existing),
+        ).length > 0;
+      const completes =
+        typeof chore.isCompleted === 'boolean' &&
+        chore.isCompleted !== (existing?.isCompleted ?? false);
+      if (editsFields) {
+        this.assertSyncPermission(role, PERMISSIONS.CHORES_MANAGE, chore);
+      }
+      if (completes) {
+        this.assertSyncPermission(role, PERMISSIONS.CHORES_COMPLETE_OWN, chore);
+      }
+
+      if (editsFields) {
+        await this.prisma.chore.upsert({
+          where: { id: chore.id, householdId },
+          create: {
+            id: chore.id,
+            householdId,
+            title: chore.title,
+            assigneeId: chore.assigneeId,
+            dueDate,
+          },
+          update: {
+            title: chore.title,
+            assigneeId: chore.assigneeId,
+            dueDate,
+          },
+        });
+      }
+      if (completes) {
+        await this.completeSyncedChore(
+          userId,
+          householdId,
+          role,
+          chore.id,
+          chore.isCompleted === true,
+        );
+      }
+      return;
+    }
+
+    const patch = pickSyncPatch(chore, SYNC_PATCH_FIELDS.chore);
+    const { isCompleted, ...fieldPatch } = patch;
+    const editsFields =
+      op === SYNC_OPERATIONS.DELETE || Object.keys(fieldPatch).length > 0;
+    if (editsFields) {
+      this.assertSyncPermission(role, PERMISSIONS.CHORES_MANAGE, chore);
+    }
+    if (isCompleted !== undefined) {
+      this.assertSyncPermission(role, PERMISSIONS.CHORES_COMPLETE_OWN, chore);
+    }
+    const existing = await this.prisma.chore.findFirst({
+      where: { id: chore.id, householdId },
+    });
+
+    if (op === SYNC_OPERATIONS.DELETE) {
+      if (existing && !existing.deletedAt) {
+        await this.prisma.chore.update({
+          where: { id: chore.id },
+          data: { deletedAt: new Date() },
+        });
+      }
+      return;
+    }
+
+    this.assertSyncPatchApplies(chore, existing, toSyncChore, patch);
+    if (editsFields) {
+      const updated = await this.prisma.chore.update({
+        where: { id: chore.id },
+        data: {
+          title: chore.title,
+          assigneeId: chore.assigneeId,
+          dueDate:
+            chore.dueDate === undefined
+              ? undefined
+              : this.parseOptionalDueDate(chore.dueDate),
+        },
+      });
+      await this.auditService.logActivity(userId, householdId, {
+        action: AUDIT_ACTIONS.UPDATE_CHORE,
+        entityType: ENTITY_TYPES.CHORE,
+        entityId: chore.id,
+        metadata: { name: updated.title, fields: Object.keys(fieldPatch) },
+      });
+    }
+    if (isCompleted !== undefined) {
+      await this.completeSyncedChore(
+        userId,
+        householdId,
+        role,
+        chore.id,
+        isCompleted === true,
+      );
+    }
+  }
+
+  /**
+   * Completes or reopens a synced chore through ChoresService, which records
+   * the completion, schedules the next occurrence and logs the activity.
+   * Members without `chores:complete-any` may only complete their own chores.
+   */
+  private async completeSyncedChore(
+    userId: string,
+    householdId: string,
+    role: string | null,
+    choreId: string,
+    isCompleted: boolean,
+  ): Promise<void> {
+    await this.choresService.toggleCompletion(
+      choreId,
+      householdId,
+      { isCompleted },
+      userId,
+      !hasPermission(role, PERMISSIONS.CHORES_COMPLETE_ANY),
+    );
+  }
+
   /**
    * Parses an optional due date string for chore sync.
    * Returns null for missing, empty, or invalid date strings to avoid Prisma "Invalid Date" errors.
    */
-  private parseOptionalDueDate(dueDate: string | undefined): Date | null {
+  private parseOptionalDueDate(
+    dueDate: string | null | undefined,
+  ): Date | null {
     if (dueDate == null || String(dueDate).trim() === '') {
       return null;
     }
@@ -1504,6 +2113,129 @@ export class AuthService {
     };
   }
 
+  /**
+   * Starts a password reset by emailing a time-limited reset link.
+   * Requesting again replaces any earlier token, so only the latest link works.
+   *
+   * @param dto - Contains the user's email
+   * @returns Generic message that does not reveal whether the email exists
+   */
+  async forgotPassword(dto: ForgotPasswordDto): Promise<{ message: string }> {
+    const response = {
+      message:
+        'If an account with a password exists for this email, a password reset link has been sent.',
+    };
+
+    // Don't reveal if email exists, or whether it is a Google-only account
+    const user = await this.authRepository.findUserByEmail(dto.email);
+    if (!user || !user.passwordHash) {
+      return response;
+    }
+
+    const resetToken = this.generatePasswordResetToken();
+    const tokenExpiry = new Date();
+    const expiryMinutes =
+      this.config.email?.passwordResetTokenExpiryMinutes ?? 60;
+    tokenExpiry.setMinutes(tokenExpiry.getMinutes() + expiryMinutes);
+
+    // Only the hash is stored; the raw token exists only in the email
+    await this.authRepository.updateUser(user.id, {
+      passwordResetTokenHash: this.hashPasswordResetToken(resetToken),
+      passwordResetTokenExpiry: tokenExpiry,
+    });
+
+    await this.emailService.sendPasswordResetEmail(
+      dto.email,
+      resetToken,
+      user.name ?? undefined,
+    );
+
+    return response;
+  }
+
+  /**
+   * Sets a new password using a password reset token. The token is consumed
+   * atomically with the password update, so it works exactly once, and every
+   * refresh token is revoked, signing out all devices.
+   *
+   * @param dto - Reset token and the new password
+   * @returns Success message (user signs in again with the new password)
+   * @throws BadRequestException if token is invalid or expired
+   */
+  async resetPassword(dto: ResetPasswordDto): Promise<{ message: string }> {
+    const passwordHash = await this.hashPassword(dto.password);
+    const userId = await this.authRepository.resetPasswordWithToken(
+      this.hashPasswordResetToken(dto.token),
+      passwordHash,
+    );
+
+    if (!userId) {
+      throw new BadRequestException(
+        'Invalid or expired password reset token. Please request a new password reset email.',
+      );
+    }
+
+    await this.authRepository.deleteAllRefreshTokensForUser(userId);
+
+    this.logger.log(`Password reset for user ${userId}`);
+
+    return {
+      message:
+        'Password reset successful. Please sign in with your new password.',
+    };
+  }
+
+  /**
+   * Changes the password of a signed-in email/password user. Refresh tokens
+   * issued to other devices are revoked; the caller gets a fresh token pair.
+   *
+   * @param userId - Current user's ID
+   * @param dto - Current and new password
+   * @returns New access and refresh tokens for the current device
+   * @throws BadRequestException if the account has no password or the current password is wrong
+   */
+  async changePassword(
+    userId: string,
+    dto: ChangePasswordDto,
+  ): Promise<{ accessToken: string; refreshToken: string }> {
+    const user = await this.authRepository.findUserById(userId);
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    if (!user.passwordHash) {
+      throw new BadRequestException(
+        'This account uses Google sign-in and has no password to change.',
+      );
+    }
+
+    // BadRequest rather than Unauthorized: the session itself is still valid
+    const isPasswordValid = await this.verifyPassword(
+      dto.currentPassword,
+      user.passwordHash,
+    );
+    if (!isPasswordValid) {
+      throw new BadRequestException('Current password is incorrect');
+    }
+
+    if (dto.currentPassword === dto.newPassword) {
+      throw new BadRequestException(
+        'New password must be different from the current password',
+      );
+    }
+
+    const passwordHash = await this.hashPassword(dto.newPassword);
+    const updatedUser = await this.authRepository.updateUserPassword(
+      user.id,
+      passwordHash,
+    );
+    await this.authRepository.deleteAllRefreshTokensForUser(user.id);
+
+    this.logger.log(`Password changed for user ${user.id}`);
+
+    return this.generateTokens(updatedUser);
+  }
+
   /**
    * Hashes a password using bcrypt.
    *
@@ -1537,4 +2269,24 @@ export class AuthService {
   private generateEmailVerificationToken(): string {
     return crypto.randomBytes(32).toString('hex');
   }
+
+  /**
+   * Generates a cryptographically secure random token for password reset links.
+   *
+   * @returns Random token string
+   */
+  private generatePasswordResetToken(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  /**
+   * Hashes a password reset token for storage and lookup (SHA-256; the token
+   * is already high-entropy, so no salt or slow hash is needed).
+   *
+   * @param token - Raw reset token from the email link
+   * @returns Hex-encoded hash
+   */
+  private hashPasswordResetToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
 }
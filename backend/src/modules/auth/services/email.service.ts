@@ -2,7 +2,7 @@ import { Injectable, Logger } from '@nestjs/common';
 import { loadConfiguration } from '../../../config/configuration';
 
 /**
- * Email service for sending verification and other auth-related emails.
+ * Email service for sending verification, password reset, household invite and other emails.
  *
  * For MVP, this service logs emails to the console/logs.
  * In production, this can be replaced with SMTP (nodemailer), SendGrid, AWS SES, etc.
@@ -47,6 +47,70 @@ export class EmailService {
     }
   }
 
+  /**
+   * Sends a password reset link that opens the app's reset screen.
+   *
+   * @param email - User's email address
+   * @param token - Password reset token
+   * @param name - Optional user name for personalization
+   */
+  async sendPasswordResetEmail(
+    email: string,
+    token: string,
+    name?: string,
+  ): Promise<void> {
+    const resetUrl = this.buildPasswordResetUrl(token);
+
+    if (this.config.email) {
+      this.logger.log(
+        `[EMAIL] Would send password reset email to ${email} via SMTP`,
+        {
+          to: email,
+          subject: 'Reset your Kitchen Hub password',
+          resetUrl,
+        },
+      );
+    } else {
+      this.logger.log(
+        `[EMAIL PASSWORD RESET] To: ${email}${name ? ` (${name})` : ''}`,
+      );
+      this.logger.log(`Reset URL: ${resetUrl}`);
+      this.logger.log(`Token: ${token}`);
+    }
+  }
+
+  /**
+   * Sends a household invite code.
+   *
+   * @param email - Invitee's email address
+   * @param code - Invite code to enter in the app
+   * @param householdName - Household the invite is for
+   * @param inviterName - Optional name of the member who sent it
+   */
+  async sendHouseholdInviteEmail(
+    email: string,
+    code: string,
+    householdName: string,
+    inviterName?: string,
+  ): Promise<void> {
+    const subject = `${inviterName ?? 'Someone'} invited you to ${householdName} on Kitchen Hub`;
+
+    if (this.config.email) {
+      this.logger.log(
+        `[EMAIL] Would send household invite to ${email} via SMTP`,
+        {
+          to: email,
+          subject,
+          code,
+        },
+      );
+    } else {
+      this.logger.log(`[EMAIL HOUSEHOLD INVITE] To: ${email}`);
+      this.logger.log(`Subject: ${subject}`);
+      this.logger.log(`Invite code: ${code}`);
+    }
+  }
+
   /**
    * Builds the email verification URL.
    * In production, this would be a frontend URL that calls the verify-email endpoint.
@@ -58,4 +122,16 @@ export class EmailService {
     const baseUrl = this.config.auth.backendBaseUrl;
     return `${baseUrl}/api/v1/auth/verify-email?token=${token}`;
   }
+
+  /**
+   * Builds the password reset deep link handled by the mobile app.
+   *
+   * @param token - Password reset token
+   * @returns Reset URL
+   */
+  private buildPasswordResetUrl(token: string): string {
+    const url = new URL(`${this.config.auth.appScheme}://auth/reset-password`);
+    url.searchParams.set('token', token);
+    return url.toString();
+  }
 }
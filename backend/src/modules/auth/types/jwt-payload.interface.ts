@@ -4,5 +4,6 @@
 export interface JwtPayload {
   sub: string;
   email?: string;
+  /** The active household; requests are scoped to it. */
   householdId?: string | null;
 }
@@ -1,3 +1,5 @@
+import type { SyncConflictReason } from '../constants/sync-operations';
+
 /**
  * Represents a conflict that occurred during data synchronization.
  */
@@ -5,7 +7,10 @@ export interface SyncConflict {
   type: 'list' | 'recipe' | 'chore' | 'shoppingItem';
   id: string;
   operationId: string; // Idempotency key for precise matching
-  reason: string;
+  reason: SyncConflictReason;
+  message?: string; // Human-readable detail
+  fields?: string[]; // Patched fields that conflict with the server copy (stale_base)
+  serverEntity?: Record<string, unknown>; // Current server copy in sync DTO shape (stale_base, deleted)
 }
 
 /**
@@ -0,0 +1,22 @@
+import type { SyncConflictReason } from '../constants/sync-operations';
+
+/**
+ * Thrown while processing a sync entity to report a structured conflict.
+ *
+ * Throwing (rather than returning) lets the idempotency wrapper release the
+ * operation's key, so the client can retry the same operationId once it has
+ * resolved the conflict.
+ */
+export class SyncConflictError extends Error {
+  constructor(
+    readonly reason: SyncConflictReason,
+    message: string,
+    readonly details: {
+      fields?: string[];
+      serverEntity?: Record<string, unknown>;
+    } = {},
+  ) {
+    super(message);
+    this.name = 'SyncConflictError';
+  }
+}
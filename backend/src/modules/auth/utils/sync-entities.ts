@@ -0,0 +1,103 @@
+import type { Chore, Recipe, ShoppingItem, ShoppingList } from '@prisma/client';
+
+/**
+ * Fields a field-level `update` may patch, per entity type. Names match the
+ * sync DTOs and the server copies returned in conflicts.
+ */
+export const SYNC_PATCH_FIELDS = {
+  list: ['name', 'color'],
+  shoppingItem: ['name', 'quantity', 'unit', 'category', 'isChecked'],
+  recipe: ['title', 'ingredients', 'instructions'],
+  chore: ['title', 'assigneeId', 'dueDate', 'isCompleted'],
+} as const;
+
+/**
+ * Collects the patched fields of an update DTO (those present in the request).
+ *
+ * @param dto - Sync entity DTO
+ * @param fields - Fields the entity type allows to be patched
+ * @returns Field-to-value map; `null` values clear the field
+ */
+export function pickSyncPatch(
+  dto: object,
+  fields: readonly string[],
+): Record<string, unknown> {
+  const values = dto as Record<string, unknown>;
+  return fields.reduce<Record<string, unknown>>((patch, field) => {
+    if (values[field] !== undefined) {
+      patch[field] = values[field];
+    }
+    return patch;
+  }, {});
+}
+
+/**
+ * Lists patched fields whose value differs from the server copy.
+ *
+ * @param patch - Patched fields and their new values
+ * @param serverEntity - Server copy in sync DTO shape
+ * @returns Names of the conflicting fields
+ */
+export function findConflictingFields(
+  patch: Record<string, unknown>,
+  serverEntity: Record<string, unknown>,
+): string[] {
+  return Object.keys(patch).filter(
+    (field) =>
+      JSON.stringify(patch[field] ?? null) !==
+      JSON.stringify(serverEntity[field] ?? null),
+  );
+}
+
+const toIso = (date: Date | null): string | null =>
+  date ? date.toISOString() : null;
+
+export function toSyncShoppingList(
+  list: ShoppingList,
+): Record<string, unknown> {
+  return {
+    id: list.id,
+    name: list.name,
+    color: list.color,
+    updatedAt: list.updatedAt.toISOString(),
+    deletedAt: toIso(list.deletedAt),
+  };
+}
+
+export function toSyncShoppingItem(
+  item: ShoppingItem,
+): Record<string, unknown> {
+  return {
+    id: item.id,
+    name: item.name,
+    quantity: item.quantity,
+    unit: item.unit,
+    category: item.category,
+    isChecked: item.isChecked,
+    updatedAt: item.updatedAt.toISOString(),
+    deletedAt: toIso(item.deletedAt),
+  };
+}
+
+export function toSyncRecipe(recipe: Recipe): Record<string, unknown> {
+  return {
+    id: recipe.id,
+    title: recipe.title,
+    ingredients: recipe.ingredients,
+    instructions: recipe.instructions,
+    updatedAt: recipe.updatedAt.toISOString(),
+    deletedAt: toIso(recipe.deletedAt),
+  };
+}
+
+export function toSyncChore(chore: Chore): Record<string, unknown> {
+  return {
+    id: chore.id,
+    title: chore.title,
+    assigneeId: chore.assigneeId,
+    dueDate: toIso(chore.dueDate),
+    isCompleted: chore.isCompleted,
+    updatedAt: chore.updatedAt.toISOString(),
+    deletedAt: toIso(chore.deletedAt),
+  };
+}
@@ -3,9 +3,11 @@ import { ChoresController } from './controllers/chores.controller';
 import { ChoresService } from './services/chores.service';
 import { ChoresRepository } from './repositories/chores.repository';
 import { PrismaModule } from '../../infrastructure/database/prisma/prisma.module';
+import { SettingsModule } from '../settings/settings.module';
+import { AuditModule } from '../audit/audit.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, SettingsModule, AuditModule],
   controllers: [ChoresController],
   providers: [ChoresService, ChoresRepository],
   exports: [ChoresService],
@@ -0,0 +1,8 @@
+/** First day of the week for weekly completion stats (0 = Sunday). */
+export const DEFAULT_WEEK_START_DAY = 0;
+
+/** How far back completions are read when computing streaks. */
+export const STREAK_LOOKBACK_DAYS = 365;
+
+/** Maximum length of the optional note attached to a completion. */
+export const MAX_COMPLETION_NOTE_LENGTH = 500;
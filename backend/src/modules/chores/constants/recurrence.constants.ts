@@ -0,0 +1,12 @@
+/**
+ * Supported recurrence frequencies for chores.
+ */
+export const RECURRENCE_FREQUENCIES = ['daily', 'weekly', 'monthly'] as const;
+
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+/** Upper bound for the "every N" interval to keep schedules sensible. */
+export const MAX_RECURRENCE_INTERVAL = 365;
+
+/** Upper bound for the number of occurrences in a series. */
+export const MAX_RECURRENCE_COUNT = 1000;
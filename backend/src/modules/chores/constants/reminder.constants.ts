@@ -0,0 +1,10 @@
+/**
+ * Reminder offsets are stored as an amount and unit before the due date,
+ * e.g. "30m", "1h" or "2d".
+ */
+export const REMINDER_OFFSET_PATTERN = /^([1-9]\d{0,3})([mhd])$/;
+
+export const REMINDER_UNIT_MINUTES = { m: 1, h: 60, d: 24 * 60 } as const;
+
+/** Upper bound for how far ahead of the due date a reminder may fire. */
+export const MAX_REMINDER_OFFSET_MINUTES = 7 * 24 * 60;
@@ -0,0 +1,12 @@
+/**
+ * When a rotating chore hands over to the next member:
+ * - on_completion: each completed occurrence goes to the next member.
+ * - on_schedule: each scheduled occurrence goes to the next member, so
+ *   occurrences skipped while a chore was overdue still advance the rotation.
+ */
+export const ROTATION_MODES = ['on_completion', 'on_schedule'] as const;
+
+export type RotationMode = (typeof ROTATION_MODES)[number];
+
+/** Upper bound for the number of members in a rotation. */
+export const MAX_ROTATION_MEMBERS = 20;
@@ -11,9 +11,24 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { ChoresService } from '../services/chores.service';
-import { CreateChoreDto, UpdateChoreDto, ToggleCompletionDto } from '../dtos';
-import { JwtAuthGuard, HouseholdGuard } from '../../../common/guards';
-import { CurrentUser, CurrentUserPayload } from '../../../common/decorators';
+import {
+  CreateChoreDto,
+  UpdateChoreDto,
+  ToggleCompletionDto,
+  ChoreHistoryQueryDto,
+  ChoreLeaderboardQueryDto,
+} from '../dtos';
+import {
+  JwtAuthGuard,
+  HouseholdGuard,
+  PermissionGuard,
+} from '../../../common/guards';
+import {
+  CurrentUser,
+  CurrentUserPayload,
+  RequirePermission,
+} from '../../../common/decorators';
+import { PERMISSIONS, hasPermission } from '../../../common/constants';
 
 /**
  * Chores controller handling chore management and completion tracking.
@@ -21,7 +36,7 @@ import { CurrentUser, CurrentUserPayload } from '../../../common/decorators';
  * All endpoints require authentication and household membership.
  */
 @Controller({ path: 'chores', version: '1' })
-@UseGuards(JwtAuthGuard, HouseholdGuard)
+@UseGuards(JwtAuthGuard, HouseholdGuard, PermissionGuard)
 export class ChoresController {
   constructor(private choresService: ChoresService) {}
 
@@ -38,6 +53,7 @@ export class ChoresController {
   }
 
   @Post()
+  @RequirePermission(PERMISSIONS.CHORES_MANAGE)
   async createChore(
     @CurrentUser() user: CurrentUserPayload,
     @Body() dto: CreateChoreDto,
@@ -45,10 +61,11 @@ export class ChoresController {
     if (!user.householdId) {
       throw new BadRequestException('User must belong to a household');
     }
-    return this.choresService.createChore(user.householdId, dto);
+    return this.choresService.createChore(user.householdId, dto, user.userId);
   }
 
   @Patch(':id')
+  @RequirePermission(PERMISSIONS.CHORES_MANAGE)
   async updateChore(
     @CurrentUser() user: CurrentUserPayload,
     @Param('id') choreId: string,
@@ -57,10 +74,16 @@ export class ChoresController {
     if (!user.householdId) {
       throw new BadRequestException('User must belong to a household');
     }
-    return this.choresService.updateChore(choreId, user.householdId, dto);
+    return this.choresService.updateChore(
+      choreId,
+      user.householdId,
+      dto,
+      user.userId,
+    );
   }
 
   @Patch(':id/status')
+  @RequirePermission(PERMISSIONS.CHORES_COMPLETE_OWN)
   async toggleCompletion(
     @CurrentUser() user: CurrentUserPayload,
     @Param('id') choreId: string,
@@ -69,7 +92,13 @@ export class ChoresController {
     if (!user.householdId) {
       throw new BadRequestException('User must belong to a household');
     }
-    return this.choresService.toggleCompletion(choreId, user.householdId, dto);
+    return this.choresService.toggleCompletion(
+      choreId,
+      user.householdId,
+      dto,
+      user.userId,
+      !hasPermission(user.role, PERMISSIONS.CHORES_COMPLETE_ANY),
+    );
   }
 
   @Get('stats')
@@ -83,7 +112,30 @@ export class ChoresController {
     return this.choresService.getStats(user.householdId, date);
   }
 
+  @Get('history')
+  async getHistory(
+    @CurrentUser() user: CurrentUserPayload,
+    @Query() query: ChoreHistoryQueryDto,
+  ) {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    return this.choresService.getHistory(user.householdId, query);
+  }
+
+  @Get('leaderboard')
+  async getLeaderboard(
+    @CurrentUser() user: CurrentUserPayload,
+    @Query() query: ChoreLeaderboardQueryDto,
+  ) {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    return this.choresService.getLeaderboard(user.householdId, query);
+  }
+
   @Delete(':id')
+  @RequirePermission(PERMISSIONS.CHORES_MANAGE)
   async deleteChore(
     @CurrentUser() user: CurrentUserPayload,
     @Param('id') choreId: string,
@@ -96,6 +148,7 @@ export class ChoresController {
   }
 
   @Post(':id/restore')
+  @RequirePermission(PERMISSIONS.CHORES_MANAGE)
   async restoreChore(
     @CurrentUser() user: CurrentUserPayload,
     @Param('id') choreId: string,
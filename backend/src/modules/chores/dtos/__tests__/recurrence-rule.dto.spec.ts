@@ -0,0 +1,44 @@
+import 'reflect-metadata';
+import { validate } from 'class-validator';
+import { plainToInstance } from 'class-transformer';
+import { RecurrenceRuleDto } from '../recurrence-rule.dto';
+
+describe('RecurrenceRuleDto Validation', () => {
+  describe.each<[string, Record<string, unknown>, boolean]>([
+    ['daily with interval', { frequency: 'daily', interval: 2 }, true],
+    [
+      'weekly with weekdays',
+      { frequency: 'weekly', byWeekday: [1, 3, 5] },
+      true,
+    ],
+    [
+      'monthly with day of month',
+      { frequency: 'monthly', byMonthDay: 15 },
+      true,
+    ],
+    ['end date', { frequency: 'daily', until: '2026-12-31' }, true],
+    ['occurrence count', { frequency: 'weekly', count: 10 }, true],
+    ['unknown frequency', { frequency: 'yearly' }, false],
+    ['zero interval', { frequency: 'daily', interval: 0 }, false],
+    ['weekday out of range', { frequency: 'weekly', byWeekday: [7] }, false],
+    ['duplicate weekdays', { frequency: 'weekly', byWeekday: [1, 1] }, false],
+    ['weekdays on a daily rule', { frequency: 'daily', byWeekday: [1] }, false],
+    [
+      'day of month on a weekly rule',
+      { frequency: 'weekly', byMonthDay: 3 },
+      false,
+    ],
+    [
+      'both until and count',
+      { frequency: 'daily', until: '2026-12-31', count: 3 },
+      false,
+    ],
+    ['invalid until', { frequency: 'daily', until: 'next year' }, false],
+  ])('%s', (_label, input, isValid) => {
+    it(`should be ${isValid ? 'valid' : 'invalid'}`, async () => {
+      const dto = plainToInstance(RecurrenceRuleDto, input);
+      const errors = await validate(dto);
+      expect(errors.length === 0).toBe(isValid);
+    });
+  });
+});
@@ -0,0 +1,25 @@
+export class ChoreCompletionDto {
+  id: string;
+  choreId: string;
+  choreTitle: string;
+  choreIcon?: string;
+  userId: string;
+  userName?: string;
+  completedAt: Date;
+  note?: string;
+}
+
+export class MemberCompletionStatsDto {
+  userId: string;
+  name?: string;
+  avatarUrl?: string;
+  completedCount: number;
+  currentStreak: number;
+  longestStreak: number;
+}
+
+export class ChoreLeaderboardDto {
+  from: Date;
+  to: Date;
+  members: MemberCompletionStatsDto[];
+}
@@ -0,0 +1,15 @@
+import { IsOptional, IsString, IsUUID } from 'class-validator';
+import { PaginationDto } from '../../../common/dtos/pagination.dto';
+
+/**
+ * Query parameters for the chore completion history.
+ */
+export class ChoreHistoryQueryDto extends PaginationDto {
+  @IsOptional()
+  @IsString()
+  choreId?: string;
+
+  @IsOptional()
+  @IsUUID()
+  userId?: string;
+}
@@ -0,0 +1,15 @@
+import { IsDateString, IsOptional } from 'class-validator';
+
+/**
+ * Query parameters for the chore leaderboard.
+ * Both bounds default to the current week.
+ */
+export class ChoreLeaderboardQueryDto {
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
@@ -1,3 +1,5 @@
+import { ChoreRotation, RecurrenceRule } from '../types';
+
 export class ChoreDto {
   id: string;
   title: string;
@@ -5,12 +7,47 @@ export class ChoreDto {
   assigneeId?: string;
   assigneeName?: string;
   dueDate?: Date;
+  /** Due on a whole day; dueDate is the calendar date at UTC midnight. */
+  isAllDay: boolean;
   isCompleted: boolean;
   completedAt?: Date;
   repeat?: string;
+  recurrence?: RecurrenceRule | null;
+  seriesId?: string;
+  occurrence?: number;
+  rotation?: ChoreRotation | null;
+  /** Who the next occurrence goes to, for rotating recurring chores. */
+  nextAssigneeId?: string;
+  nextAssigneeName?: string;
+  /** Reminder offset before the due date (e.g. 30m, 1h, 1d). */
+  reminder?: string | null;
 }
 
+/**
+ * Chores bucketed by due date relative to today in the household timezone.
+ */
 export class ChoreListResponseDto {
+  /** Incomplete chores due before today. */
+  overdue: ChoreDto[];
   today: ChoreDto[];
+  /** Chores due after today or without a due date. */
   upcoming: ChoreDto[];
 }
+
+/** Bucket a chore is listed under by GET /chores. */
+export type ChoreSection = keyof ChoreListResponseDto;
+
+/**
+ * A chore in a sync delta. Deleted chores are sent as tombstones with
+ * deletedAt set.
+ */
+export class ChoreChangeDto extends ChoreDto {
+  /**
+   * Bucket GET /chores lists the chore under; null when it isn't listed
+   * (deleted, or completed and due before today).
+   */
+  section: ChoreSection | null;
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt: Date | null;
+}
@@ -0,0 +1,26 @@
+import {
+  IsIn,
+  IsArray,
+  IsUUID,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ArrayUnique,
+} from 'class-validator';
+import {
+  ROTATION_MODES,
+  RotationMode,
+  MAX_ROTATION_MEMBERS,
+} from '../constants/rotation.constants';
+
+export class ChoreRotationDto {
+  /** Household member IDs in the order the chore rotates through them. */
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_ROTATION_MEMBERS)
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  memberIds: string[];
+
+  @IsIn(ROTATION_MODES)
+  mode: RotationMode;
+}
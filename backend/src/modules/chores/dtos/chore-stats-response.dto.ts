@@ -1,5 +1,9 @@
+import { ChoreLeaderboardDto } from './chore-completion-response.dto';
+
 export class ChoreStatsDto {
   total: number;
   completed: number;
   pending: number;
+  /** Completions per member for the current week. */
+  weekly?: ChoreLeaderboardDto;
 }
@@ -3,8 +3,15 @@ import {
   IsNotEmpty,
   IsOptional,
   IsDateString,
+  IsBoolean,
   IsUUID,
+  Matches,
+  ValidateNested,
 } from 'class-validator';
+import { Type } from 'class-transformer';
+import { RecurrenceRuleDto } from './recurrence-rule.dto';
+import { ChoreRotationDto } from './chore-rotation.dto';
+import { REMINDER_OFFSET_PATTERN } from '../constants/reminder.constants';
 
 export class CreateChoreDto {
   @IsString()
@@ -23,7 +30,33 @@ export class CreateChoreDto {
   @IsOptional()
   dueDate?: string;
 
+  /**
+   * Whether the chore is due on a whole day rather than at a time. All-day
+   * due dates are read as a calendar date ("2026-03-15") in the household
+   * timezone.
+   */
+  @IsBoolean()
+  @IsOptional()
+  isAllDay?: boolean;
+
+  /** @deprecated Use recurrence instead */
   @IsString()
   @IsOptional()
   repeat?: string;
+
+  @ValidateNested()
+  @Type(() => RecurrenceRuleDto)
+  @IsOptional()
+  recurrence?: RecurrenceRuleDto;
+
+  /** Rotates the assignee among members each time the chore recurs. */
+  @ValidateNested()
+  @Type(() => ChoreRotationDto)
+  @IsOptional()
+  rotation?: ChoreRotationDto;
+
+  /** Reminder offset before the due date, e.g. 30m, 1h or 1d. */
+  @Matches(REMINDER_OFFSET_PATTERN)
+  @IsOptional()
+  reminder?: string;
 }
@@ -3,3 +3,8 @@ export * from './create-chore.dto';
 export * from './update-chore.dto';
 export * from './chore-stats-response.dto';
 export * from './toggle-completion.dto';
+export * from './recurrence-rule.dto';
+export * from './chore-completion-response.dto';
+export * from './chore-history-query.dto';
+export * from './chore-leaderboard-query.dto';
+export * from './chore-rotation.dto';
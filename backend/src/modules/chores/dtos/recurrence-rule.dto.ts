@@ -0,0 +1,58 @@
+import {
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsArray,
+  ArrayMaxSize,
+  ArrayUnique,
+  IsDateString,
+  Min,
+  Max,
+  Validate,
+} from 'class-validator';
+import {
+  RECURRENCE_FREQUENCIES,
+  RecurrenceFrequency,
+  MAX_RECURRENCE_INTERVAL,
+  MAX_RECURRENCE_COUNT,
+} from '../constants/recurrence.constants';
+import { RecurrenceRuleConsistencyConstraint } from '../validators/recurrence-rule.validator';
+
+export class RecurrenceRuleDto {
+  @IsIn(RECURRENCE_FREQUENCIES)
+  @Validate(RecurrenceRuleConsistencyConstraint)
+  frequency: RecurrenceFrequency;
+
+  @IsInt()
+  @Min(1)
+  @Max(MAX_RECURRENCE_INTERVAL)
+  @IsOptional()
+  interval?: number;
+
+  /** Days of week for weekly rules (0 = Sunday ... 6 = Saturday). */
+  @IsArray()
+  @ArrayUnique()
+  @ArrayMaxSize(7)
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  @IsOptional()
+  byWeekday?: number[];
+
+  /** Day of month for monthly rules; clamped to the month's length. */
+  @IsInt()
+  @Min(1)
+  @Max(31)
+  @IsOptional()
+  byMonthDay?: number;
+
+  @IsDateString()
+  @IsOptional()
+  until?: string;
+
+  @IsInt()
+  @Min(1)
+  @Max(MAX_RECURRENCE_COUNT)
+  @IsOptional()
+  count?: number;
+}
@@ -1,7 +1,20 @@
-import { IsBoolean, IsNotEmpty } from 'class-validator';
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { MAX_COMPLETION_NOTE_LENGTH } from '../constants/completion.constants';
 
 export class ToggleCompletionDto {
   @IsBoolean()
   @IsNotEmpty()
   isCompleted: boolean;
+
+  /** Optional note stored with the completion record (ignored when un-completing). */
+  @IsOptional()
+  @IsString()
+  @MaxLength(MAX_COMPLETION_NOTE_LENGTH)
+  note?: string;
 }
@@ -1,4 +1,15 @@
-import { IsString, IsOptional, IsUUID } from 'class-validator';
+import {
+  IsString,
+  IsBoolean,
+  IsOptional,
+  IsUUID,
+  Matches,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { RecurrenceRuleDto } from './recurrence-rule.dto';
+import { ChoreRotationDto } from './chore-rotation.dto';
+import { REMINDER_OFFSET_PATTERN } from '../constants/reminder.constants';
 
 export class UpdateChoreDto {
   @IsUUID()
@@ -16,4 +27,30 @@ export class UpdateChoreDto {
   @IsString()
   @IsOptional()
   dueDate?: string;
+
+  /**
+   * Whether the chore is due on a whole day rather than at a time. All-day
+   * due dates are read as a calendar date ("2026-03-15") in the household
+   * timezone.
+   */
+  @IsBoolean()
+  @IsOptional()
+  isAllDay?: boolean;
+
+  /** Replaces the recurrence rule; null stops the chore from repeating. */
+  @ValidateNested()
+  @Type(() => RecurrenceRuleDto)
+  @IsOptional()
+  recurrence?: RecurrenceRuleDto | null;
+
+  /** Replaces the rotation; null stops rotating the assignee. */
+  @ValidateNested()
+  @Type(() => ChoreRotationDto)
+  @IsOptional()
+  rotation?: ChoreRotationDto | null;
+
+  /** Replaces the reminder offset; null turns the reminder off. */
+  @Matches(REMINDER_OFFSET_PATTERN)
+  @IsOptional()
+  reminder?: string | null;
 }
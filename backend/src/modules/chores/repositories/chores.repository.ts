@@ -1,6 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../../infrastructure/database/prisma/prisma.service';
-import { Chore } from '@prisma/client';
+import { Chore, ChoreCompletion, Prisma } from '@prisma/client';
 import { ACTIVE_RECORDS_FILTER } from '../../../infrastructure/database/filters/soft-delete.filter';
 
 @Injectable()
@@ -41,9 +41,39 @@ export class ChoresRepository {
     });
   }
 
+  /**
+   * Finds chores created, updated or deleted at or after a point in time,
+   * including soft-deleted ones.
+   *
+   * @param householdId - The household ID
+   * @param since - Earliest updatedAt to include
+   */
+  async findChoresChangedSince(
+    householdId: string,
+    since: Date,
+  ): Promise<(Chore & { assignee: { name: string } | null })[]> {
+    return this.prisma.chore.findMany({
+      where: {
+        householdId,
+        updatedAt: { gte: since },
+      },
+      include: {
+        assignee: {
+          select: {
+            name: true,
+          },
+        },
+      },
+      orderBy: { updatedAt: 'asc' },
+    });
+  }
+
   async findChoreById(id: string): Promise<Chore | null> {
-    return this.prisma.chore.findUnique({
-      where: { id },
+    return this.prisma.chore.findFirst({
+      where: {
+        id,
+        ...ACTIVE_RECORDS_FILTER,
+      },
     });
   }
 
@@ -54,7 +84,14 @@ export class ChoresRepository {
       icon?: string;
       assigneeId?: string;
       dueDate?: Date;
+      isAllDay?: boolean;
       repeat?: string;
+      recurrence?: Prisma.InputJsonValue;
+      seriesId?: string;
+      occurrence?: number;
+      rotation?: Prisma.InputJsonValue;
+      reminder?: string;
+      remindAt?: Date;
     },
   ): Promise<Chore> {
     return this.prisma.chore.create({
@@ -64,7 +101,35 @@ export class ChoresRepository {
         icon: data.icon,
         assigneeId: data.assigneeId,
         dueDate: data.dueDate,
+        isAllDay: data.isAllDay,
         repeat: data.repeat,
+        recurrence: data.recurrence,
+        seriesId: data.seriesId,
+        occurrence: data.occurrence,
+        rotation: data.rotation,
+        reminder: data.reminder,
+        remindAt: data.remindAt,
+      },
+    });
+  }
+
+  /**
+   * Finds an active occurrence of a recurring series by its position.
+   * Used to keep next-occurrence generation idempotent when a chore is
+   * completed, un-completed and completed again.
+   *
+   * @param seriesId - ID of the first chore in the series
+   * @param occurrence - 1-based position within the series
+   */
+  async findSeriesOccurrence(
+    seriesId: string,
+    occurrence: number,
+  ): Promise<Chore | null> {
+    return this.prisma.chore.findFirst({
+      where: {
+        seriesId,
+        occurrence,
+        ...ACTIVE_RECORDS_FILTER,
       },
     });
   }
@@ -76,6 +141,13 @@ export class ChoresRepository {
       icon?: string;
       assigneeId?: string;
       dueDate?: Date;
+      isAllDay?: boolean;
+      repeat?: string | null;
+      recurrence?: Prisma.InputJsonValue | typeof Prisma.DbNull;
+      rotation?: Prisma.InputJsonValue | typeof Prisma.DbNull;
+      reminder?: string | null;
+      remindAt?: Date | null;
+      reminderSentAt?: Date | null;
     },
   ): Promise<Chore> {
     return this.prisma.chore.update({
@@ -94,19 +166,131 @@ export class ChoresRepository {
     });
   }
 
+  /**
+   * Records that a member completed a chore.
+   *
+   * @param data - Chore, household, completing member and optional note
+   */
+  async createCompletion(data: {
+    choreId: string;
+    householdId: string;
+    userId: string;
+    note?: string;
+  }): Promise<ChoreCompletion> {
+    return this.prisma.choreCompletion.create({ data });
+  }
+
+  /**
+   * Removes the most recent completion of a chore.
+   * Used when a completion is undone by toggling the chore back to pending.
+   *
+   * @param choreId - Chore ID
+   */
+  async deleteLatestCompletion(choreId: string): Promise<void> {
+    const latest = await this.prisma.choreCompletion.findFirst({
+      where: { choreId },
+      orderBy: { completedAt: 'desc' },
+      select: { id: true },
+    });
+
+    if (latest) {
+      await this.prisma.choreCompletion.delete({ where: { id: latest.id } });
+    }
+  }
+
+  /**
+   * Finds a page of completions for a household, newest first.
+   *
+   * @param householdId - Household ID
+   * @param filters - Optional chore and member filters
+   * @param pagination - Rows to skip and take
+   * @returns Matching completions with chore and member details, and the total count
+   */
+  async findCompletions(
+    householdId: string,
+    filters: { choreId?: string; userId?: string },
+    pagination: { skip: number; take: number },
+  ): Promise<{
+    items: (ChoreCompletion & {
+      chore: { title: string; icon: string | null };
+      user: { name: string | null };
+    })[];
+    total: number;
+  }> {
+    const where: Prisma.ChoreCompletionWhereInput = {
+      householdId,
+      ...(filters.choreId && { choreId: filters.choreId }),
+      ...(filters.userId && { userId: filters.userId }),
+    };
+
+    const [items, total] = await Promise.all([
+      this.prisma.choreCompletion.findMany({
+        where,
+        include: {
+          chore: { select: { title: true, icon: true } },
+          user: { select: { name: true } },
+        },
+        orderBy: { completedAt: 'desc' },
+        skip: pagination.skip,
+        take: pagination.take,
+      }),
+      this.prisma.choreCompletion.count({ where }),
+    ]);
+
+    return { items, total };
+  }
+
+  /**
+   * Returns completion timestamps per member since the given date.
+   *
+   * @param householdId - Household ID
+   * @param since - Earliest completion time to include
+   */
+  async findCompletionTimes(
+    householdId: string,
+    since: Date,
+  ): Promise<{ userId: string; completedAt: Date }[]> {
+    return this.prisma.choreCompletion.findMany({
+      where: { householdId, completedAt: { gte: since } },
+      select: { userId: true, completedAt: true },
+      orderBy: { completedAt: 'asc' },
+    });
+  }
+
+  /**
+   * Lists the members of a household for per-member statistics.
+   *
+   * @param householdId - Household ID
+   */
+  async findHouseholdMembers(
+    householdId: string,
+  ): Promise<{ id: string; name: string | null; avatarUrl: string | null }[]> {
+    const memberships = await this.prisma.householdMembership.findMany({
+      where: { householdId },
+      select: { user: { select: { id: true, name: true, avatarUrl: true } } },
+      orderBy: { joinedAt: 'asc' },
+    });
+    return memberships.map((membership) => membership.user);
+  }
+
   async countChoresByHousehold(
     householdId: string,
-    filters?: { date?: Date },
+    filters?: { dueBefore?: Date; allDayDueBefore?: Date },
   ): Promise<{ total: number; completed: number }> {
     const where: any = {
       householdId,
       ...ACTIVE_RECORDS_FILTER,
     };
 
-    if (filters?.date) {
-      where.dueDate = {
-        lte: filters.date,
-      };
+    if (filters?.dueBefore) {
+      // All-day due dates are calendar dates, so they get their own bound
+      where.OR = [
+        { isAllDay: false, dueDate: { lt: filters.dueBefore } },
+        {
+          isAllDay: true,
+          dueDate: { lt: filters.allDayDueBefore ?? filters.dueBefore },
+        },
+      ];
     }
 
     const [total, completed] = await Promise.all([
@@ -123,19 +307,23 @@ export class ChoresRepository {
   }
 
   /**
-   * Hard-deletes a chore from the database.
+   * Soft-deletes a chore by setting deletedAt timestamp.
    *
-   * @param id - Chore ID to delete permanently
+   * NOTE: Completion history is kept so a restored chore keeps its streaks
+   * and stats. The trash purge hard-deletes both once the chore expires.
+   *
+   * @param id - Chore ID to soft-delete
    */
   async deleteChore(id: string): Promise<void> {
-    this.logger.log('Hard-deleting chore', {
-      action: 'HARD_DELETE_CHORE',
+    this.logger.log('Soft-deleting chore', {
+      action: 'SOFT_DELETE_CHORE',
       entityType: 'CHORE',
       entityId: id,
       timestamp: new Date().toISOString(),
     });
-    await this.prisma.chore.delete({
+    await this.prisma.chore.update({
       where: { id },
+      data: { deletedAt: new Date() },
     });
   }
 
@@ -2,7 +2,15 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { ChoresService } from './chores.service';
 import { ChoresRepository } from '../repositories/chores.repository';
 import { PrismaService } from '../../../infrastructure/database/prisma/prisma.service';
-import { NotFoundException, ForbiddenException } from '@nestjs/common';
+import { SettingsService } from '../../settings/services/settings.service';
+import { AuditService } from '../../audit/services/audit.service';
+import { DEFAULT_HOUSEHOLD_SETTINGS } from '../../settings/constants/settings.constants';
+import { Prisma } from '@prisma/client';
+import {
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
 
 /**
  * Chores Service Unit Tests
@@ -12,9 +20,12 @@ import { NotFoundException, ForbiddenException } from '@nestjs/common';
 describe('ChoresService - Soft-Delete Behavior', () => {
   let service: ChoresService;
   let repository: ChoresRepository;
+  let settingsService: { getHouseholdSettings: jest.Mock };
+  let auditService: { logActivity: jest.Mock };
 
   const mockHouseholdId = 'household-123';
   const mockChoreId = 'chore-123';
+  const mockUserId = 'user-123';
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
@@ -24,32 +35,54 @@ describe('ChoresService - Soft-Delete Behavior', () => {
           provide: ChoresRepository,
           useValue: {
             findChoresByHousehold: jest.fn(),
+            findChoresChangedSince: jest.fn(),
             findChoreById: jest.fn(),
             createChore: jest.fn(),
             updateChore: jest.fn(),
             toggleCompletion: jest.fn(),
             countChoresByHousehold: jest.fn(),
             deleteChore: jest.fn(),
+            findSeriesOccurrence: jest.fn(),
+            createCompletion: jest.fn(),
+            deleteLatestCompletion: jest.fn(),
+            findCompletions: jest.fn(),
+            findCompletionTimes: jest.fn().mockResolvedValue([]),
+            findHouseholdMembers: jest.fn().mockResolvedValue([]),
           },
         },
         {
           provide: PrismaService,
           useValue: {},
         },
+        {
+          provide: SettingsService,
+          useValue: {
+            getHouseholdSettings: jest
+              .fn()
+              .mockResolvedValue(DEFAULT_HOUSEHOLD_SETTINGS),
+          },
+        },
+        {
+          provide: AuditService,
+          useValue: { logActivity: jest.fn() },
+        },
       ],
     }).compile();
 
     service = module.get<ChoresService>(ChoresService);
+    settingsService = module.get(SettingsService);
+    auditService = module.get(AuditService);
     repository = module.get<ChoresRepository>(ChoresRepository);
   });
 
   describe('getChores', () => {
     it('should return only active chores (exclude soft-deleted)', async () => {
+      // The household timezone defaults to UTC
       const today = new Date();
-      today.setHours(0, 0, 0, 0);
+      today.setUTCHours(0, 0, 0, 0);
 
       const tomorrow = new Date(today);
-      tomorrow.setDate(tomorrow.getDate() + 1);
+      tomorrow.setUTCDate(tomorrow.getUTCDate() + 1);
 
       const mockChores = [
         {
@@ -97,6 +130,145 @@ describe('ChoresService - Soft-Delete Behavior', () => {
       expect(result.today[0].title).toBe('Today Chore');
       expect(result.upcoming[0].title).toBe('Upcoming Chore');
     });
+
+    describe('in the household timezone', () => {
+      const chore = (
+        title: string,
+        dueDate: string | null,
+        overrides: Record<string, unknown> = {},
+      ) => ({
+        id: title,
+        householdId: mockHouseholdId,
+        title,
+        assignee: null,
+        dueDate: dueDate ? new Date(dueDate) : null,
+        isAllDay: false,
+        isCompleted: false,
+        ...overrides,
+      });
+
+      beforeEach(() => {
+        // 00:30 on March 15 in Jerusalem, still March 14 in UTC
+        jest.useFakeTimers().setSystemTime(new Date('2026-03-14T22:30:00Z'));
+        settingsService.getHouseholdSettings.mockResolvedValue({
+          ...DEFAULT_HOUSEHOLD_SETTINGS,
+          timezone: 'Asia/Jerusalem',
+        });
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      it('should bucket chores by the local day', async () => {
+        jest.spyOn(repository, 'findChoresByHousehold').mockResolvedValue([
+          chore('Timed yesterday', '2026-03-14T21:00:00Z'),
+          chore('All-day yesterday', '2026-03-14T00:00:00Z', {
+            isAllDay: true,
+          }),
+          chore('Timed today', '2026-03-14T23:00:00Z'),
+          chore('All-day today', '2026-03-15T00:00:00Z', { isAllDay: true }),
+          chore('All-day tomorrow', '2026-03-16T00:00:00Z', {
+            isAllDay: true,
+          }),
+          chore('No due date', null),
+        ] as any);
+
+        const result = await service.getChores(mockHouseholdId);
+
+        expect(result.overdue.map((dto) => dto.title)).toEqual([
+          'Timed yesterday',
+          'All-day yesterday',
+        ]);
+        expect(result.today.map((dto) => dto.title)).toEqual([
+          'Timed today',
+          'All-day today',
+        ]);
+        expect(result.upcoming.map((dto) => dto.title)).toEqual([
+          'All-day tomorrow',
+          'No due date',
+        ]);
+        expect(result.today[1].isAllDay).toBe(true);
+      });
+
+      it('should leave completed chores from past days out', async () => {
+        jest.spyOn(repository, 'findChoresByHousehold').mockResolvedValue([
+          chore('Done yesterday', '2026-03-14T09:00:00Z', {
+            isCompleted: true,
+          }),
+        ] as any);
+
+        const result = await service.getChores(mockHouseholdId);
+
+        expect(result).toEqual({ overdue: [], today: [], upcoming: [] });
+      });
+    });
+  });
+
+  describe('getChoreChanges', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should return changed chores with their bucket and deleted ones as tombstones', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2026-03-14T12:00:00Z'));
+      const since = new Date('2026-03-14T10:00:00Z');
+      const updatedAt = new Date('2026-03-14T11:00:00Z');
+      const deletedAt = new Date('2026-03-14T11:30:00Z');
+      jest.spyOn(repository, 'findChoresChangedSince').mockResolvedValue([
+        {
+          id: 'chore-1',
+          householdId: mockHouseholdId,
+          title: 'Due today',
+          assignee: null,
+          dueDate: new Date('2026-03-14T18:00:00Z'),
+          isAllDay: false,
+          isCompleted: false,
+          createdAt: updatedAt,
+          updatedAt,
+          deletedAt: null,
+        },
+        {
+          id: 'chore-2',
+          householdId: mockHouseholdId,
+          title: 'Removed',
+          assignee: null,
+          dueDate: new Date('2026-03-14T18:00:00Z'),
+          isAllDay: false,
+          isCompleted: false,
+          createdAt: updatedAt,
+          updatedAt: deletedAt,
+          deletedAt,
+        },
+      ] as any);
+
+      const result = await service.getChoreChanges(mockHouseholdId, since);
+
+      expect(repository.findChoresChangedSince).toHaveBeenCalledWith(
+        mockHouseholdId,
+        since,
+      );
+      expect(result).toEqual([
+        expect.objectContaining({
+          id: 'chore-1',
+          section: 'today',
+          updatedAt,
+          deletedAt: null,
+        }),
+        expect.objectContaining({ id: 'chore-2', section: null, deletedAt }),
+      ]);
+    });
+
+    it('should return all active chores without a since date', async () => {
+      jest.spyOn(repository, 'findChoresByHousehold').mockResolvedValue([]);
+
+      const result = await service.getChoreChanges(mockHouseholdId, null);
+
+      expect(repository.findChoresByHousehold).toHaveBeenCalledWith(
+        mockHouseholdId,
+      );
+      expect(result).toEqual([]);
+    });
   });
 
   describe('getStats', () => {
@@ -114,12 +286,162 @@ describe('ChoresService - Soft-Delete Behavior', () => {
 
       expect(repository.countChoresByHousehold).toHaveBeenCalledWith(
         mockHouseholdId,
-        { date: undefined },
+        { dueBefore: undefined, allDayDueBefore: undefined },
       );
       expect(result.total).toBe(10);
       expect(result.completed).toBe(5);
       expect(result.pending).toBe(5);
     });
+
+    it('should count chores due by the end of the day in the household timezone', async () => {
+      settingsService.getHouseholdSettings.mockResolvedValue({
+        ...DEFAULT_HOUSEHOLD_SETTINGS,
+        timezone: 'Asia/Jerusalem',
+      });
+      jest
+        .spyOn(repository, 'countChoresByHousehold')
+        .mockResolvedValue({ total: 0, completed: 0 });
+
+      await service.getStats(mockHouseholdId, '2026-03-15');
+
+      expect(repository.countChoresByHousehold).toHaveBeenCalledWith(
+        mockHouseholdId,
+        {
+          dueBefore: new Date('2026-03-15T22:00:00.000Z'),
+          allDayDueBefore: new Date('2026-03-16T00:00:00.000Z'),
+        },
+      );
+    });
+
+    it("should include this week's completions per member", async () => {
+      jest
+        .spyOn(repository, 'countChoresByHousehold')
+        .mockResolvedValue({ total: 1, completed: 1 });
+      jest
+        .spyOn(repository, 'findHouseholdMembers')
+        .mockResolvedValue([{ id: mockUserId, name: 'Dana', avatarUrl: null }]);
+      jest
+        .spyOn(repository, 'findCompletionTimes')
+        .mockResolvedValue([{ userId: mockUserId, completedAt: new Date() }]);
+
+      const result = await service.getStats(mockHouseholdId);
+
+      expect(result.weekly?.members).toEqual([
+        expect.objectContaining({
+          userId: mockUserId,
+          name: 'Dana',
+          completedCount: 1,
+          currentStreak: 1,
+        }),
+      ]);
+    });
+  });
+
+  describe('getHistory', () => {
+    it('should return paginated completions with chore and member details', async () => {
+      const completedAt = new Date('2026-03-10T09:00:00.000Z');
+      jest.spyOn(repository, 'findCompletions').mockResolvedValue({
+        items: [
+          {
+            id: 'completion-1',
+            choreId: mockChoreId,
+            householdId: mockHouseholdId,
+            userId: mockUserId,
+            completedAt,
+            note: 'Done early',
+            createdAt: completedAt,
+            chore: { title: 'Vacuum', icon: null },
+            user: { name: 'Dana' },
+          },
+        ],
+        total: 11,
+      });
+
+      const result = await service.getHistory(mockHouseholdId, {
+        page: 2,
+        limit: 10,
+        choreId: mockChoreId,
+      });
+
+      expect(repository.findCompletions).toHaveBeenCalledWith(
+        mockHouseholdId,
+        { choreId: mockChoreId, userId: undefined },
+        { skip: 10, take: 10 },
+      );
+      expect(result.data).toEqual([
+        {
+          id: 'completion-1',
+          choreId: mockChoreId,
+          choreTitle: 'Vacuum',
+          choreIcon: undefined,
+          userId: mockUserId,
+          userName: 'Dana',
+          completedAt,
+          note: 'Done early',
+        },
+      ]);
+      expect(result.totalPages).toBe(2);
+    });
+  });
+
+  describe('getLeaderboard', () => {
+    const from = '2026-03-08T00:00:00.000Z';
+    const to = '2026-03-15T00:00:00.000Z';
+
+    it('should count completions in the period and rank members', async () => {
+      jest.spyOn(repository, 'findHouseholdMembers').mockResolvedValue([
+        { id: 'user-a', name: 'Alex', avatarUrl: null },
+        { id: 'user-b', name: 'Bo', avatarUrl: 'https://example.com/bo.png' },
+        { id: 'user-c', name: 'Cy', avatarUrl: null },
+      ]);
+      jest.spyOn(repository, 'findCompletionTimes').mockResolvedValue([
+        { userId: 'user-a', completedAt: new Date('2026-03-01T09:00:00.000Z') },
+        { userId: 'user-a', completedAt: new Date('2026-03-09T09:00:00.000Z') },
+        { userId: 'user-b', completedAt: new Date('2026-03-09T09:00:00.000Z') },
+        { userId: 'user-b', completedAt: new Date('2026-03-10T09:00:00.000Z') },
+      ]);
+
+      const result = await service.getLeaderboard(mockHouseholdId, {
+        from,
+        to,
+      });
+
+      expect(result.from).toEqual(new Date(from));
+      expect(result.to).toEqual(new Date(to));
+      expect(result.members.map((member) => member.userId)).toEqual([
+        'user-b',
+        'user-a',
+        'user-c',
+      ]);
+      expect(result.members[0]).toEqual(
+        expect.objectContaining({
+          completedCount: 2,
+          longestStreak: 2,
+          avatarUrl: 'https://example.com/bo.png',
+        }),
+      );
+      expect(result.members[2].completedCount).toBe(0);
+    });
+
+    it("should default to the week starting on the household's week start day", async () => {
+      settingsService.getHouseholdSettings.mockResolvedValue({
+        ...DEFAULT_HOUSEHOLD_SETTINGS,
+        weekStartDay: 1,
+      });
+
+      const result = await service.getLeaderboard(mockHouseholdId);
+
+      expect(result.from.getUTCDay()).toBe(1);
+      expect(result.to.getTime() - result.from.getTime()).toBe(
+        7 * 24 * 60 * 60 * 1000,
+      );
+    });
+
+    it('should reject a period that ends before it starts', async () => {
+      await expect(
+        service.getLeaderboard(mockHouseholdId, { from: to, to: from }),
+      ).rejects.toThrow(BadRequestException);
+    });
   });
 
   describe('updateChore', () => {
@@ -151,9 +473,14 @@ describe('ChoresService - Soft-Delete Behavior', () => {
         .spyOn(repository, 'updateChore')
         .mockResolvedValue(mockUpdatedChore as any);
 
-      const result = await service.updateChore(mockChoreId, mockHouseholdId, {
-        title: 'Updated Title',
-      });
+      const result = await service.updateChore(
+        mockChoreId,
+        mockHouseholdId,
+        {
+          title: 'Updated Title',
+        },
+        mockUserId,
+      );
 
       expect(result.title).toBe('Updated Title');
     });
@@ -162,9 +489,14 @@ describe('ChoresService - Soft-Delete Behavior', () => {
       jest.spyOn(repository, 'findChoreById').mockResolvedValue(null);
 
       await expect(
-        service.updateChore(mockChoreId, mockHouseholdId, {
-          title: 'New Title',
-        }),
+        service.updateChore(
+          mockChoreId,
+          mockHouseholdId,
+          {
+            title: 'New Title',
+          },
+          mockUserId,
+        ),
       ).rejects.toThrow(NotFoundException);
     });
 
@@ -188,9 +520,14 @@ describe('ChoresService - Soft-Delete Behavior', () => {
         .mockResolvedValue(mockChore as any);
 
       await expect(
-        service.updateChore(mockChoreId, mockHouseholdId, {
-          title: 'New Title',
-        }),
+        service.updateChore(
+          mockChoreId,
+          mockHouseholdId,
+          {
+            title: 'New Title',
+          },
+          mockUserId,
+        ),
       ).rejects.toThrow(ForbiddenException);
     });
   });
@@ -230,6 +567,7 @@ describe('ChoresService - Soft-Delete Behavior', () => {
         {
           isCompleted: true,
         },
+        mockUserId,
       );
 
       expect(repository.toggleCompletion).toHaveBeenCalledWith(
@@ -242,6 +580,742 @@ describe('ChoresService - Soft-Delete Behavior', () => {
     });
   });
 
+  describe('toggleCompletion - completion history', () => {
+    const chore = {
+      id: mockChoreId,
+      householdId: mockHouseholdId,
+      title: 'Test Chore',
+      assigneeId: null,
+      dueDate: null,
+      isCompleted: false,
+      completedAt: null,
+      repeat: null,
+      recurrence: null,
+      seriesId: null,
+      occurrence: 1,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      deletedAt: null,
+    };
+
+    beforeEach(() => {
+      jest
+        .spyOn(repository, 'countChoresByHousehold')
+        .mockResolvedValue({ total: 1, completed: 0 });
+      jest.spyOn(repository, 'toggleCompletion').mockResolvedValue(undefined);
+    });
+
+    it('records who completed the chore and the note', async () => {
+      jest.spyOn(repository, 'findChoreById').mockResolvedValue(chore as any);
+
+      await service.toggleCompletion(
+        mockChoreId,
+        mockHouseholdId,
+        { isCompleted: true, note: 'Used the new mop' },
+        mockUserId,
+      );
+
+      expect(repository.createCompletion).toHaveBeenCalledWith({
+        choreId: mockChoreId,
+        householdId: mockHouseholdId,
+        userId: mockUserId,
+        note: 'Used the new mop',
+      });
+    });
+
+    it('removes the latest record when a completion is undone', async () => {
+      jest
+        .spyOn(repository, 'findChoreById')
+        .mockResolvedValue({ ...chore, isCompleted: true } as any);
+
+      await service.toggleCompletion(
+        mockChoreId,
+        mockHouseholdId,
+        { isCompleted: false },
+        mockUserId,
+      );
+
+      expect(repository.deleteLatestCompletion).toHaveBeenCalledWith(
+        mockChoreId,
+      );
+      expect(repository.createCompletion).not.toHaveBeenCalled();
+    });
+
+    it('does not record a second completion for an already completed chore', async () => {
+      jest
+        .spyOn(repository, 'findChoreById')
+        .mockResolvedValue({ ...chore, isCompleted: true } as any);
+
+      await service.toggleCompletion(
+        mockChoreId,
+        mockHouseholdId,
+        { isCompleted: true },
+        mockUserId,
+      );
+
+      expect(repository.createCompletion).not.toHaveBeenCalled();
+    });
+
+    it('records the completion in the household activity feed', async () => {
+      jest.spyOn(repository, 'findChoreById').mockResolvedValue(chore as any);
+
+      await service.toggleCompletion(
+        mockChoreId,
+        mockHouseholdId,
+        { isCompleted: true },
+        mockUserId,
+      );
+
+      expect(auditService.logActivity).toHaveBeenCalledWith(
+        mockUserId,
+        mockHouseholdId,
+        {
+          action: 'COMPLETE_CHORE',
+          entityType: 'CHORE',
+          entityId: mockChoreId,
+          metadata: { name: 'Test Chore' },
+        },
+      );
+    });
+
+    it('does not record activity when the status does not change', async () => {
+      jest
+        .spyOn(repository, 'findChoreById')
+        .mockResolvedValue({ ...chore, isCompleted: true } as any);
+
+      await service.toggleCompletion(
+        mockChoreId,
+        mockHouseholdId,
+        { isCompleted: true },
+        mockUserId,
+      );
+
+      expect(auditService.logActivity).not.toHaveBeenCalled();
+    });
+
+    it('forbids completing chores assigned to someone else when limited to own chores', async () => {
+      jest
+        .spyOn(repository, 'findChoreById')
+        .mockResolvedValue({ ...chore, assigneeId: 'other-user' } as any);
+
+      await expect(
+        service.toggleCompletion(
+          mockChoreId,
+          mockHouseholdId,
+          { isCompleted: true },
+          mockUserId,
+          true,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+      expect(repository.toggleCompletion).not.toHaveBeenCalled();
+    });
+
+    it('allows completing own chores when limited to own chores', async () => {
+      jest
+        .spyOn(repository, 'findChoreById')
+        .mockResolvedValue({ ...chore, assigneeId: mockUserId } as any);
+
+      await service.toggleCompletion(
+        mockChoreId,
+        mockHouseholdId,
+        { isCompleted: true },
+        mockUserId,
+        true,
+      );
+
+      expect(repository.toggleCompletion).toHaveBeenCalledWith(
+        mockChoreId,
+        true,
+      );
+    });
+  });
+
+  describe('toggleCompletion - recurring chores', () => {
+    const recurringChore = {
+      id: mockChoreId,
+      householdId: mockHouseholdId,
+      title: 'Take out trash',
+      icon: '🗑️',
+      assigneeId: null,
+      dueDate: new Date('2099-03-10T09:00:00.000Z'),
+      isCompleted: false,
+      completedAt: null,
+      repeat: 'weekly',
+      recurrence: { frequency: 'weekly', interval: 1 },
+      seriesId: null,
+      occurrence: 1,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      deletedAt: null,
+    };
+
+    beforeEach(() => {
+      jest
+        .spyOn(repository, 'countChoresByHousehold')
+        .mockResolvedValue({ total: 2, completed: 1 });
+      jest.spyOn(repository, 'toggleCompletion').mockResolvedValue(undefined);
+    });
+
+    it('creates the next occurrence when a recurring chore is completed', async () => {
+      jest
+        .spyOn(repository, 'findChoreById')
+        .mockResolvedValue(recurringChore as any);
+      jest.spyOn(repository, 'findSeriesOccurrence').mockResolvedValue(null);
+      jest.spyOn(repository, 'createChore').mockResolvedValue({
+        ...recurringChore,
+        id: 'chore-next',
+        dueDate: new Date('2099-03-17T09:00:00.000Z'),
+        seriesId: mockChoreId,
+        occurrence: 2,
+      } as any);
+
+      const result = await service.toggleCompletion(
+        mockChoreId,
+        mockHouseholdId,
+        { isCompleted: true },
+        mockUserId,
+      );
+
+      expect(repository.findSeriesOccurrence).toHaveBeenCalledWith(
+        mockChoreId,
+        2,
+      );
+      expect(repository.createChore).toHaveBeenCalledWith(
+        mockHouseholdId,
+        expect.objectContaining({
+          title: 'Take out trash',
+          dueDate: new Date('2099-03-17T09:00:00.000Z'),
+          seriesId: mockChoreId,
+          occurrence: 2,
+          recurrence: { frequency: 'weekly', interval: 1 },
+        }),
+      );
+      expect(result.nextOccurrence?.id).toBe('chore-next');
+    });
+
+    it('schedules a timed chore on the weekday in the household timezone', async () => {
+      settingsService.getHouseholdSettings.mockResolvedValue({
+        ...DEFAULT_HOUSEHOLD_SETTINGS,
+        timezone: 'Asia/Jerusalem',
+      });
+      // Tuesday 00:30 in Jerusalem, still Monday in UTC
+      jest.spyOn(repository, 'findChoreById').mockResolvedValue({
+        ...recurringChore,
+        isAllDay: false,
+        dueDate: new Date('2099-03-09T22:30:00.000Z'),
+        recurrence: { frequency: 'weekly', interval: 1, byWeekday: [2, 5] },
+      } as any);
+      jest.spyOn(repository, 'findSeriesOccurrence').mockResolvedValue(null);
+      jest
+        .spyOn(repository, 'createChore')
+        .mockResolvedValue({ ...recurringChore, id: 'chore-next' } as any);
+
+      await service.toggleCompletion(
+        mockChoreId,
+        mockHouseholdId,
+        { isCompleted: true },
+        mockUserId,
+      );
+
+      // Friday 00:30 in Jerusalem
+      expect(repository.createChore).toHaveBeenCalledWith(
+        mockHouseholdId,
+        expect.objectContaining({
+          dueDate: new Date('2099-03-12T22:30:00.000Z'),
+        }),
+      );
+    });
+
+    it('does not duplicate an occurrence that already exists', async () => {
+      jest
+        .spyOn(repository, 'findChoreById')
+        .mockResolvedValue(recurringChore as any);
+      jest.spyOn(repository, 'findSeriesOccurrence').mockResolvedValue({
+        ...recurringChore,
+        id: 'chore-existing',
+        seriesId: mockChoreId,
+        occurrence: 2,
+      } as any);
+
+      const result = await service.toggleCompletion(
+        mockChoreId,
+        mockHouseholdId,
+        { isCompleted: true },
+        mockUserId,
+      );
+
+      expect(repository.createChore).not.toHaveBeenCalled();
+      expect(result.nextOccurrence?.id).toBe('chore-existing');
+    });
+
+    it('returns the concurrently generated occurrence when the insert hits the unique constraint', async () => {
+      jest
+        .spyOn(repository, 'findChoreById')
+        .mockResolvedValue(recurringChore as any);
+      jest
+        .spyOn(repository, 'findSeriesOccurrence')
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({
+          ...recurringChore,
+          id: 'chore-concurrent',
+          seriesId: mockChoreId,
+          occurrence: 2,
+        } as any);
+      jest.spyOn(repository, 'createChore').mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: '5.22.0',
+        }),
+      );
+
+      const result = await service.toggleCompletion(
+        mockChoreId,
+        mockHouseholdId,
+        { isCompleted: true },
+        mockUserId,
+      );
+
+      expect(repository.findSeriesOccurrence).toHaveBeenCalledTimes(2);
+      expect(result.nextOccurrence?.id).toBe('chore-concurrent');
+    });
+
+    it('rethrows insert errors other than unique violations', async () => {
+      jest
+        .spyOn(repository, 'findChoreById')
+        .mockResolvedValue(recurringChore as any);
+      jest.spyOn(repository, 'findSeriesOccurrence').mockResolvedValue(null);
+      jest
+        .spyOn(repository, 'createChore')
+        .mockRejectedValue(new Error('connection lost'));
+
+      await expect(
+        service.toggleCompletion(
+          mockChoreId,
+          mockHouseholdId,
+          { isCompleted: true },
+          mockUserId,
+        ),
+      ).rejects.toThrow('connection lost');
+    });
+
+    it('does not generate an occurrence when un-completing', async () => {
+      jest
+        .spyOn(repository, 'findChoreById')
+        .mockResolvedValue({ ...recurringChore, isCompleted: true } as any);
+
+      const result = await service.toggleCompletion(
+        mockChoreId,
+        mockHouseholdId,
+        { isCompleted: false },
+        mockUserId,
+      );
+
+      expect(repository.findSeriesOccurrence).not.toHaveBeenCalled();
+      expect(repository.createChore).not.toHaveBeenCalled();
+      expect(result.nextOccurrence).toBeUndefined();
+    });
+
+    it('stops generating once the series count is reached', async () => {
+      jest.spyOn(repository, 'findChoreById').mockResolvedValue({
+        ...recurringChore,
+        recurrence: { frequency: 'weekly', interval: 1, count: 1 },
+      } as any);
+
+      const result = await service.toggleCompletion(
+        mockChoreId,
+        mockHouseholdId,
+        { isCompleted: true },
+        mockUserId,
+      );
+
+      expect(repository.createChore).not.toHaveBeenCalled();
+      expect(result.nextOccurrence).toBeUndefined();
+    });
+  });
+
+  describe('chore rotation', () => {
+    const members = [
+      { id: 'user-a', name: 'Alex', avatarUrl: null },
+      { id: 'user-b', name: 'Bo', avatarUrl: null },
+      { id: 'user-c', name: 'Cy', avatarUrl: null },
+    ];
+    const rotatingChore = {
+      id: mockChoreId,
+      householdId: mockHouseholdId,
+      title: 'Take out trash',
+      icon: '🗑️',
+      assigneeId: 'user-a',
+      assignee: { name: 'Alex' },
+      dueDate: new Date('2099-03-10T09:00:00.000Z'),
+      isCompleted: false,
+      completedAt: null,
+      repeat: 'weekly',
+      recurrence: { frequency: 'weekly', interval: 1 },
+      seriesId: null,
+      occurrence: 1,
+      rotation: {
+        memberIds: ['user-a', 'user-b', 'user-c'],
+        mode: 'on_completion',
+      },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      deletedAt: null,
+    };
+
+    beforeEach(() => {
+      jest.spyOn(repository, 'findHouseholdMembers').mockResolvedValue(members);
+    });
+
+    it('assigns a new rotating chore to the first member', async () => {
+      jest
+        .spyOn(repository, 'createChore')
+        .mockResolvedValue({ id: mockChoreId } as any);
+
+      await service.createChore(
+        mockHouseholdId,
+        {
+          title: 'Take out trash',
+          rotation: { memberIds: ['user-b', 'user-a'], mode: 'on_completion' },
+        },
+        mockUserId,
+      );
+
+      expect(repository.createChore).toHaveBeenCalledWith(
+        mockHouseholdId,
+        expect.objectContaining({
+          assigneeId: 'user-b',
+          rotation: { memberIds: ['user-b', 'user-a'], mode: 'on_completion' },
+        }),
+      );
+    });
+
+    it('rejects rotation members outside the household', async () => {
+      await expect(
+        service.createChore(
+          mockHouseholdId,
+          {
+            title: 'Take out trash',
+            rotation: {
+              memberIds: ['user-a', 'stranger'],
+              mode: 'on_schedule',
+            },
+          },
+          mockUserId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(repository.createChore).not.toHaveBeenCalled();
+    });
+
+    it('hands the next occurrence to the next member still in the household', async () => {
+      // user-b was removed from the household
+      jest
+        .spyOn(repository, 'findHouseholdMembers')
+        .mockResolvedValue([members[0], members[2]]);
+      jest
+        .spyOn(repository, 'findChoreById')
+        .mockResolvedValue(rotatingChore as any);
+      jest.spyOn(repository, 'findSeriesOccurrence').mockResolvedValue(null);
+      jest
+        .spyOn(repository, 'countChoresByHousehold')
+        .mockResolvedValue({ total: 2, completed: 1 });
+      jest.spyOn(repository, 'createChore').mockResolvedValue({
+        ...rotatingChore,
+        id: 'chore-next',
+        assigneeId: 'user-c',
+      } as any);
+
+      await service.toggleCompletion(
+        mockChoreId,
+        mockHouseholdId,
+        { isCompleted: true },
+        mockUserId,
+      );
+
+      expect(repository.createChore).toHaveBeenCalledWith(
+        mockHouseholdId,
+        expect.objectContaining({
+          assigneeId: 'user-c',
+          rotation: rotatingChore.rotation,
+        }),
+      );
+    });
+
+    it('reports who is up next when listing chores', async () => {
+      jest
+        .spyOn(repository, 'findChoresByHousehold')
+        .mockResolvedValue([rotatingChore] as any);
+
+      const result = await service.getChores(mockHouseholdId);
+
+      expect(result.upcoming[0]).toEqual(
+        expect.objectContaining({
+          nextAssigneeId: 'user-b',
+          nextAssigneeName: 'Bo',
+        }),
+      );
+    });
+
+    it('clears the rotation when updated with null', async () => {
+      jest
+        .spyOn(repository, 'findChoreById')
+        .mockResolvedValue(rotatingChore as any);
+      jest
+        .spyOn(repository, 'updateChore')
+        .mockResolvedValue({ ...rotatingChore, rotation: null } as any);
+
+      const result = await service.updateChore(
+        mockChoreId,
+        mockHouseholdId,
+        {
+          rotation: null,
+        },
+        mockUserId,
+      );
+
+      expect(repository.updateChore).toHaveBeenCalledWith(
+        mockChoreId,
+        expect.objectContaining({ rotation: Prisma.DbNull }),
+      );
+      expect(result.rotation).toBeNull();
+      expect(result.nextAssigneeId).toBeUndefined();
+    });
+  });
+
+  describe('chore reminders', () => {
+    const reminderChore = {
+      id: mockChoreId,
+      householdId: mockHouseholdId,
+      title: 'Water plants',
+      icon: '🪴',
+      assigneeId: null,
+      dueDate: new Date('2099-03-10T18:00:00.000Z'),
+      isCompleted: false,
+      completedAt: null,
+      repeat: null,
+      recurrence: null,
+      seriesId: null,
+      occurrence: 1,
+      rotation: null,
+      reminder: '1h',
+      remindAt: new Date('2099-03-10T17:00:00.000Z'),
+      reminderSentAt: new Date('2099-03-10T17:00:05.000Z'),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      deletedAt: null,
+    };
+
+    it('schedules the reminder relative to the due date on create', async () => {
+      jest
+        .spyOn(repository, 'createChore')
+        .mockResolvedValue({ id: mockChoreId } as any);
+
+      await service.createChore(
+        mockHouseholdId,
+        {
+          title: 'Water plants',
+          dueDate: '2099-03-10T18:00:00.000Z',
+          reminder: '30m',
+        },
+        mockUserId,
+      );
+
+      expect(repository.createChore).toHaveBeenCalledWith(
+        mockHouseholdId,
+        expect.objectContaining({
+          reminder: '30m',
+          remindAt: new Date('2099-03-10T17:30:00.000Z'),
+        }),
+      );
+    });
+
+    it("uses the household's default reminder when none is given", async () => {
+      settingsService.getHouseholdSettings.mockResolvedValue({
+        ...DEFAULT_HOUSEHOLD_SETTINGS,
+        defaultChoreReminder: '1h',
+      });
+      jest
+        .spyOn(repository, 'createChore')
+        .mockResolvedValue({ id: mockChoreId } as any);
+
+      await service.createChore(
+        mockHouseholdId,
+        {
+          title: 'Water plants',
+          dueDate: '2099-03-10T18:00:00.000Z',
+        },
+        mockUserId,
+      );
+
+      expect(repository.createChore).toHaveBeenCalledWith(
+        mockHouseholdId,
+        expect.objectContaining({
+          reminder: '1h',
+          remindAt: new Date('2099-03-10T17:00:00.000Z'),
+        }),
+      );
+    });
+
+    it('reschedules a sent reminder when the due date moves', async () => {
+      jest
+        .spyOn(repository, 'findChoreById')
+        .mockResolvedValue(reminderChore as any);
+      jest
+        .spyOn(repository, 'updateChore')
+        .mockResolvedValue(reminderChore as any);
+
+      await service.updateChore(
+        mockChoreId,
+        mockHouseholdId,
+        {
+          dueDate: '2099-03-11T18:00:00.000Z',
+        },
+        mockUserId,
+      );
+
+      expect(repository.updateChore).toHaveBeenCalledWith(
+        mockChoreId,
+        expect.objectContaining({
+          remindAt: new Date('2099-03-11T17:00:00.000Z'),
+          reminderSentAt: null,
+        }),
+      );
+    });
+
+    it('turns the reminder off when updated with null', async () => {
+      jest
+        .spyOn(repository, 'findChoreById')
+        .mockResolvedValue(reminderChore as any);
+      jest
+        .spyOn(repository, 'updateChore')
+        .mockResolvedValue({ ...reminderChore, reminder: null } as any);
+
+      const result = await service.updateChore(
+        mockChoreId,
+        mockHouseholdId,
+        {
+          reminder: null,
+        },
+        mockUserId,
+      );
+
+      expect(repository.updateChore).toHaveBeenCalledWith(
+        mockChoreId,
+        expect.objectContaining({ reminder: null, remindAt: null }),
+      );
+      expect(result.reminder).toBeNull();
+    });
+
+    it('leaves the reminder untouched when neither it nor the due date changes', async () => {
+      jest
+        .spyOn(repository, 'findChoreById')
+        .mockResolvedValue(reminderChore as any);
+      jest
+        .spyOn(repository, 'updateChore')
+        .mockResolvedValue(reminderChore as any);
+
+      await service.updateChore(
+        mockChoreId,
+        mockHouseholdId,
+        {
+          title: 'Water the plants',
+        },
+        mockUserId,
+      );
+
+      expect(repository.updateChore).toHaveBeenCalledWith(
+        mockChoreId,
+        expect.not.objectContaining({ remindAt: expect.anything() }),
+      );
+    });
+  });
+
+  describe('all-day chores', () => {
+    beforeEach(() => {
+      settingsService.getHouseholdSettings.mockResolvedValue({
+        ...DEFAULT_HOUSEHOLD_SETTINGS,
+        timezone: 'Asia/Jerusalem',
+      });
+      jest
+        .spyOn(repository, 'createChore')
+        .mockResolvedValue({ id: mockChoreId } as any);
+    });
+
+    it('stores the calendar date and reminds before the local day starts', async () => {
+      await service.createChore(
+        mockHouseholdId,
+        {
+          title: 'Water plants',
+          dueDate: '2099-03-10',
+          isAllDay: true,
+          reminder: '1h',
+        },
+        mockUserId,
+      );
+
+      expect(repository.createChore).toHaveBeenCalledWith(
+        mockHouseholdId,
+        expect.objectContaining({
+          dueDate: new Date('2099-03-10T00:00:00.000Z'),
+          isAllDay: true,
+          remindAt: new Date('2099-03-09T21:00:00.000Z'),
+        }),
+      );
+    });
+
+    it('reads a full timestamp as the day it falls on locally', async () => {
+      await service.createChore(
+        mockHouseholdId,
+        {
+          title: 'Water plants',
+          dueDate: '2099-03-10T23:30:00.000Z',
+          isAllDay: true,
+        },
+        mockUserId,
+      );
+
+      expect(repository.createChore).toHaveBeenCalledWith(
+        mockHouseholdId,
+        expect.objectContaining({
+          dueDate: new Date('2099-03-11T00:00:00.000Z'),
+        }),
+      );
+    });
+
+    it('keeps the local day when a timed chore becomes all-day', async () => {
+      const timedChore = {
+        id: mockChoreId,
+        householdId: mockHouseholdId,
+        title: 'Water plants',
+        dueDate: new Date('2099-03-10T23:30:00.000Z'),
+        isAllDay: false,
+        isCompleted: false,
+      };
+      jest
+        .spyOn(repository, 'findChoreById')
+        .mockResolvedValue(timedChore as any);
+      jest
+        .spyOn(repository, 'updateChore')
+        .mockResolvedValue(timedChore as any);
+
+      await service.updateChore(
+        mockChoreId,
+        mockHouseholdId,
+        {
+          isAllDay: true,
+        },
+        mockUserId,
+      );
+
+      expect(repository.updateChore).toHaveBeenCalledWith(
+        mockChoreId,
+        expect.objectContaining({
+          dueDate: new Date('2099-03-11T00:00:00.000Z'),
+          isAllDay: true,
+        }),
+      );
+    });
+  });
+
   describe('deleteChore', () => {
     it('should throw NotFoundException when chore does not exist', async () => {
       jest.spyOn(repository, 'findChoreById').mockResolvedValue(null);
@@ -304,3 +1378,115 @@ describe('ChoresService - Soft-Delete Behavior', () => {
     });
   });
 });
+
+/**
+ * Runs the real ChoresRepository over an in-memory chore table, so a delete
+ * made through the service shows up in the delta other devices pull.
+ */
+describe('ChoresService - Delete and Delta Sync', () => {
+  let service: ChoresService;
+  let chores: Record<string, any>[];
+  let prisma: {
+    chore: Record<string, jest.Mock>;
+    choreCompletion: Record<string, jest.Mock>;
+  };
+
+  const householdId = 'household-123';
+
+  beforeEach(async () => {
+    const created = new Date('2026-03-14T09:00:00Z');
+    chores = [
+      {
+        id: 'chore-1',
+        householdId,
+        title: 'Take out the trash',
+        icon: null,
+        assigneeId: null,
+        assignee: null,
+        dueDate: new Date('2026-03-14T18:00:00Z'),
+        isAllDay: false,
+        isCompleted: false,
+        completedAt: null,
+        repeat: null,
+        recurrence: null,
+        rotation: null,
+        reminder: null,
+        createdAt: created,
+        updatedAt: created,
+        deletedAt: null,
+      },
+    ];
+    prisma = {
+      chore: {
+        findFirst: jest.fn(
+          async ({ where }) =>
+            chores.find(
+              (chore) =>
+                chore.id === where.id &&
+                (where.deletedAt !== null || chore.deletedAt === null),
+            ) ?? null,
+        ),
+        findMany: jest.fn(async ({ where }) =>
+          chores.filter(
+            (chore) =>
+              chore.householdId === where.householdId &&
+              chore.updatedAt >= where.updatedAt.gte,
+          ),
+        ),
+        update: jest.fn(async ({ where, data }) => {
+          const chore = chores.find((row) => row.id === where.id)!;
+          return Object.assign(chore, data, { updatedAt: new Date() });
+        }),
+        delete: jest.fn(async ({ where }) => {
+          chores = chores.filter((chore) => chore.id !== where.id);
+        }),
+      },
+      choreCompletion: { deleteMany: jest.fn() },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ChoresService,
+        ChoresRepository,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: SettingsService,
+          useValue: {
+            getHouseholdSettings: jest
+              .fn()
+              .mockResolvedValue(DEFAULT_HOUSEHOLD_SETTINGS),
+          },
+        },
+        { provide: AuditService, useValue: { logActivity: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<ChoresService>(ChoresService);
+  });
+
+  it('should return a deleted chore as a tombstone in the next delta', async () => {
+    const since = new Date();
+
+    await service.deleteChore('chore-1', householdId);
+    const changes = await service.getChoreChanges(householdId, since);
+
+    expect(changes).toEqual([
+      expect.objectContaining({
+        id: 'chore-1',
+        section: null,
+        deletedAt: expect.any(Date),
+      }),
+    ]);
+    // Kept, with its completion history, until the trash purge
+    expect(prisma.chore.delete).not.toHaveBeenCalled();
+    expect(prisma.choreCompletion.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('should not find a deleted chore for further changes', async () => {
+    await service.deleteChore('chore-1', householdId);
+
+    await expect(service.deleteChore('chore-1', householdId)).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+});
@@ -2,19 +2,43 @@ import {
   Injectable,
   NotFoundException,
   ForbiddenException,
+  BadRequestException,
   Logger,
 } from '@nestjs/common';
-import { Chore } from '@prisma/client';
+import { Chore, Prisma } from '@prisma/client';
 import { ChoresRepository } from '../repositories/chores.repository';
 import { PrismaService } from '../../../infrastructure/database/prisma/prisma.service';
 import {
   ChoreListResponseDto,
   ChoreDto,
+  ChoreChangeDto,
+  ChoreSection,
   CreateChoreDto,
   UpdateChoreDto,
   ChoreStatsDto,
   ToggleCompletionDto,
+  RecurrenceRuleDto,
+  ChoreCompletionDto,
+  ChoreHistoryQueryDto,
+  ChoreLeaderboardDto,
+  ChoreLeaderboardQueryDto,
+  MemberCompletionStatsDto,
+  ChoreRotationDto,
 } from '../dtos';
+import { PaginatedResponse } from '../../../common/dtos/pagination.dto';
+import { ChoreRotation, RecurrenceRule } from '../types';
+import { RecurrenceCalculator } from '../utils/recurrence-calculator';
+import { RotationCalculator } from '../utils/rotation-calculator';
+import { ReminderCalculator } from '../utils/reminder-calculator';
+import { StreakCalculator } from '../utils/streak-calculator';
+import { STREAK_LOOKBACK_DAYS } from '../constants/completion.constants';
+import { SettingsService } from '../../settings/services/settings.service';
+import { TimeZoneUtils } from '../../../common/utils';
+import { AuditService } from '../../audit/services/audit.service';
+import { AUDIT_ACTIONS } from '../../audit/constants/audit-actions';
+import { ENTITY_TYPES } from '../../audit/constants/entity-types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
 
 /**
  * Chores service managing household chores, assignments, and completion tracking.
@@ -22,8 +46,13 @@ import {
  * Responsibilities:
  * - Chore CRUD operations
  * - Chore assignment management
- * - Completion status tracking
+ * - Completion status tracking and completion history
+ * - Per-member streaks and leaderboard
+ * - Recurring chore series (next occurrence generation)
+ * - Assignee rotation among household members
+ * - Due reminder scheduling
  * - Chore statistics for dashboard
+ * - Recording changes in the household activity feed
  */
 @Injectable()
 export class ChoresService {
@@ -32,14 +61,18 @@ export class ChoresService {
   constructor(
     private choresRepository: ChoresRepository,
     private prisma: PrismaService,
+    private settingsService: SettingsService,
+    private auditService: AuditService,
   ) {}
 
   /**
-   * Gets chores for a household, organized by today and upcoming.
+   * Gets chores for a household, organized by overdue, today and upcoming.
+   * "Today" is the current day in the household timezone, so every member
+   * sees the same buckets regardless of their device timezone.
    *
    * @param householdId - The household ID
    * @param dateRange - Optional start and end date filters
-   * @returns Chores organized by today and upcoming
+   * @returns Chores organized by overdue, today and upcoming
    */
   async getChores(
     householdId: string,
@@ -53,32 +86,72 @@ export class ChoresService {
       { start, end },
     );
 
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-
-    const todayChores = chores
-      .filter((chore) => {
-        if (!chore.dueDate) return false;
-        const dueDate = new Date(chore.dueDate);
-        return dueDate >= today && dueDate < tomorrow;
-      })
-      .map(this.mapChoreToDto);
-
-    const upcomingChores = chores
-      .filter((chore) => {
-        // Include chores without a dueDate in upcoming (they're not overdue)
-        if (!chore.dueDate) return true;
-        const dueDate = new Date(chore.dueDate);
-        return dueDate >= tomorrow;
-      })
-      .map(this.mapChoreToDto);
+    const { timezone } =
+      await this.settingsService.getHouseholdSettings(householdId);
+    const nextAssignees = await this.planNextAssignees(
+      householdId,
+      chores,
+      timezone,
+    );
+    const { from: today, to: tomorrow } = TimeZoneUtils.zonedDayRange(
+      new Date(),
+      timezone,
+    );
 
-    return {
-      today: todayChores,
-      upcoming: upcomingChores,
+    const response: ChoreListResponseDto = {
+      overdue: [],
+      today: [],
+      upcoming: [],
     };
+    for (const chore of chores) {
+      const section = this.sectionFor(chore, timezone, today, tomorrow);
+      if (section) {
+        response[section].push(
+          this.mapChoreToDto(chore, nextAssignees.get(chore.id)),
+        );
+      }
+    }
+
+    return response;
+  }
+
+  /**
+   * Gets chores changed since a point in time, for delta sync. Without a
+   * point in time, returns every active chore.
+   *
+   * @param householdId - The household ID
+   * @param since - Earliest updatedAt to include, or null for all active chores
+   * @returns Changed chores, including deleted ones as tombstones
+   */
+  async getChoreChanges(
+    householdId: string,
+    since: Date | null,
+  ): Promise<ChoreChangeDto[]> {
+    const chores = since
+      ? await this.choresRepository.findChoresChangedSince(householdId, since)
+      : await this.choresRepository.findChoresByHousehold(householdId);
+
+    const { timezone } =
+      await this.settingsService.getHouseholdSettings(householdId);
+    const nextAssignees = await this.planNextAssignees(
+      householdId,
+      chores.filter((chore) => !chore.deletedAt),
+      timezone,
+    );
+    const { from: today, to: tomorrow } = TimeZoneUtils.zonedDayRange(
+      new Date(),
+      timezone,
+    );
+
+    return chores.map((chore) => ({
+      ...this.mapChoreToDto(chore, nextAssignees.get(chore.id)),
+      section: chore.deletedAt
+        ? null
+        : this.sectionFor(chore, timezone, today, tomorrow),
+      createdAt: chore.createdAt,
+      updatedAt: chore.updatedAt,
+      deletedAt: chore.deletedAt,
+    }));
   }
 
   /**
@@ -86,37 +159,82 @@ export class ChoresService {
    *
    * @param householdId - The household ID
    * @param dto - Chore creation data
+   * @param userId - The member creating the chore
    * @returns Created chore ID
+   * @throws BadRequestException if a rotation member is not in the household
    */
   async createChore(
     householdId: string,
     dto: CreateChoreDto,
+    userId: string,
   ): Promise<{ id: string }> {
+    const settings =
+      await this.settingsService.getHouseholdSettings(householdId);
+    const isAllDay = dto.isAllDay ?? false;
+    const dueDate = this.toDueDate(dto.dueDate, isAllDay, settings.timezone);
+    const recurrence = dto.recurrence
+      ? this.toRecurrenceRule(
+          dto.recurrence,
+          dueDate,
+          this.recurrenceTimeZone(isAllDay, settings.timezone),
+        )
+      : RecurrenceCalculator.fromLegacyRepeat(dto.repeat);
+    const rotation = dto.rotation
+      ? await this.toRotation(householdId, dto.rotation)
+      : null;
+
+    // Chores without an explicit reminder use the household default
+    const reminder = dto.reminder ?? settings.defaultChoreReminder ?? undefined;
+
     const chore = await this.choresRepository.createChore(householdId, {
       title: dto.title,
       icon: dto.icon,
-      assigneeId: dto.assigneeId,
-      dueDate: dto.dueDate ? new Date(dto.dueDate) : undefined,
-      repeat: dto.repeat,
+      // A rotating chore starts with the first member unless assigned explicitly
+      assigneeId: dto.assigneeId ?? rotation?.memberIds[0],
+      dueDate,
+      isAllDay,
+      repeat: recurrence?.frequency ?? dto.repeat,
+      recurrence: recurrence
+        ? (recurrence as unknown as Prisma.InputJsonValue)
+        : undefined,
+      rotation: rotation
+        ? (rotation as unknown as Prisma.InputJsonValue)
+        : undefined,
+      reminder,
+      remindAt:
+        ReminderCalculator.remindAt(
+          this.dueInstant({ dueDate, isAllDay }, settings.timezone),
+          reminder,
+        ) ?? undefined,
+    });
+
+    await this.auditService.logActivity(userId, householdId, {
+      action: AUDIT_ACTIONS.CREATE_CHORE,
+      entityType: ENTITY_TYPES.CHORE,
+      entityId: chore.id,
+      metadata: { name: chore.title },
     });
 
     return { id: chore.id };
   }
 
   /**
-   * Updates a chore (assignment, title, due date).
+   * Updates a chore (assignment, title, due date, recurrence, rotation, reminder).
    *
    * @param choreId - The chore ID
    * @param householdId - The household ID for authorization
    * @param dto - Update data
+   * @param userId - The member updating the chore
    * @returns Updated chore
    * @throws NotFoundException if chore doesn't exist
    * @throws ForbiddenException if user doesn't have access
+   * @throws BadRequestException if a rotation member is not in the household
    */
   async updateChore(
     choreId: string,
     householdId: string,
     dto: UpdateChoreDto,
+    userId: string,
   ): Promise<ChoreDto> {
     const chore = await this.choresRepository.findChoreById(choreId);
 
@@ -128,31 +246,73 @@ export class ChoresService {
       throw new ForbiddenException('Access denied');
     }
 
+    const { timezone } =
+      await this.settingsService.getHouseholdSettings(householdId);
+    const isAllDay = dto.isAllDay ?? chore.isAllDay;
+    // Switching between all-day and timed keeps the day the chore is due on
+    const dueDate =
+      dto.dueDate !== undefined
+        ? this.toDueDate(dto.dueDate, isAllDay, timezone)
+        : isAllDay !== chore.isAllDay
+          ? this.convertDueDate(chore.dueDate, isAllDay, timezone)
+          : undefined;
     const updatedChore = await this.choresRepository.updateChore(choreId, {
       title: dto.title,
       icon: dto.icon,
       assigneeId: dto.assigneeId,
-      dueDate: dto.dueDate ? new Date(dto.dueDate) : undefined,
+      dueDate,
+      isAllDay: dto.isAllDay,
+      ...this.buildRecurrenceUpdate(
+        dto.recurrence,
+        dueDate ?? chore.dueDate ?? undefined,
+        this.recurrenceTimeZone(isAllDay, timezone),
+      ),
+      ...(await this.buildRotationUpdate(householdId, dto.rotation)),
+      ...this.buildReminderUpdate(
+        chore,
+        dto.reminder,
+        dueDate && this.dueInstant({ dueDate, isAllDay }, timezone),
+        timezone,
+      ),
     });
 
-    return this.mapChoreToDto(updatedChore);
+    await this.auditService.logActivity(userId, householdId, {
+      action: AUDIT_ACTIONS.UPDATE_CHORE,
+      entityType: ENTITY_TYPES.CHORE,
+      entityId: choreId,
+      metadata: { name: updatedChore.title, fields: Object.keys(dto) },
+    });
+
+    const nextAssignees = await this.planNextAssignees(
+      householdId,
+      [updatedChore],
+      timezone,
+    );
+    return this.mapChoreToDto(updatedChore, nextAssignees.get(updatedChore.id));
   }
 
   /**
    * Toggles completion status of a chore.
+   * Completing a chore records who completed it; un-completing removes the
+   * latest record. Completing a recurring chore generates its next occurrence
+   * (once per occurrence) unless the series has reached its end date or count.
    *
    * @param choreId - The chore ID
    * @param householdId - The household ID for authorization
-   * @param dto - Contains completion status
-   * @returns Updated chore statistics
+   * @param dto - Contains completion status and optional note
+   * @param userId - The member toggling the chore
+   * @param ownChoresOnly - Restricts the member to chores assigned to them (e.g. Kids)
+   * @returns Updated chore statistics and the next occurrence, if one was generated
    * @throws NotFoundException if chore doesn't exist
-   * @throws ForbiddenException if user doesn't have access
+   * @throws ForbiddenException if user doesn't have access or the chore isn't theirs
    */
   async toggleCompletion(
     choreId: string,
     householdId: string,
     dto: ToggleCompletionDto,
-  ): Promise<{ progress: ChoreStatsDto }> {
+    userId: string,
+    ownChoresOnly = false,
+  ): Promise<{ progress: ChoreStatsDto; nextOccurrence?: ChoreDto }> {
     const chore = await this.choresRepository.findChoreById(choreId);
 
     if (!chore) {
@@ -163,8 +323,42 @@ export class ChoresService {
       throw new ForbiddenException('Access denied');
     }
 
+    if (ownChoresOnly && chore.assigneeId !== userId) {
+      throw new ForbiddenException(
+        'You can only complete chores assigned to you',
+      );
+    }
+
     await this.choresRepository.toggleCompletion(choreId, dto.isCompleted);
 
+    // Only actual state changes touch the history, so repeated requests
+    // (e.g. retried syncs) don't produce duplicate records.
+    if (dto.isCompleted && !chore.isCompleted) {
+      await this.choresRepository.createCompletion({
+        choreId,
+        householdId,
+        userId,
+        note: dto.note,
+      });
+    } else if (!dto.isCompleted && chore.isCompleted) {
+      await this.choresRepository.deleteLatestCompletion(choreId);
+    }
+
+    if (dto.isCompleted !== chore.isCompleted) {
+      await this.auditService.logActivity(userId, householdId, {
+        action: dto.isCompleted
+          ? AUDIT_ACTIONS.COMPLETE_CHORE
+          : AUDIT_ACTIONS.REOPEN_CHORE,
+        entityType: ENTITY_TYPES.CHORE,
+        entityId: choreId,
+        metadata: { name: chore.title },
+      });
+    }
+
+    const nextOccurrence = dto.isCompleted
+      ? await this.generateNextOccurrence(chore)
+      : null;
+
     const stats =
       await this.choresRepository.countChoresByHousehold(householdId);
 
@@ -174,6 +368,7 @@ export class ChoresService {
         completed: stats.completed,
         pending: stats.total - stats.completed,
       },
+      ...(nextOccurrence && { nextOccurrence }),
     };
   }
 
@@ -181,23 +376,138 @@ export class ChoresService {
    * Gets chore statistics for a household.
    *
    * @param householdId - The household ID
-   * @param date - Optional date filter
-   * @returns Chore statistics (total, completed, pending)
+   * @param date - Optional day; counts chores due up to the end of that day
+   * in the household timezone
+   * @returns Chore statistics (total, completed, pending) and this week's completions per member
    */
   async getStats(householdId: string, date?: string): Promise<ChoreStatsDto> {
-    const filterDate = date ? new Date(date) : undefined;
-    const stats = await this.choresRepository.countChoresByHousehold(
-      householdId,
-      { date: filterDate },
-    );
+    let dueBefore: Date | undefined;
+    let allDayDueBefore: Date | undefined;
+    if (date) {
+      const { timezone } =
+        await this.settingsService.getHouseholdSettings(householdId);
+      dueBefore = TimeZoneUtils.zonedDayRange(date, timezone).to;
+      allDayDueBefore = new Date(
+        TimeZoneUtils.calendarDate(date, timezone).getTime() + MS_PER_DAY,
+      );
+    }
+
+    const [stats, weekly] = await Promise.all([
+      this.choresRepository.countChoresByHousehold(householdId, {
+        dueBefore,
+        allDayDueBefore,
+      }),
+      this.getLeaderboard(householdId),
+    ]);
 
     return {
       total: stats.total,
       completed: stats.completed,
       pending: stats.total - stats.completed,
+      weekly,
     };
   }
 
+  /**
+   * Gets the completion history of a household, newest first.
+   *
+   * @param householdId - The household ID
+   * @param query - Pagination and optional chore/member filters
+   * @returns Paginated completion records
+   */
+  async getHistory(
+    householdId: string,
+    query: ChoreHistoryQueryDto,
+  ): Promise<PaginatedResponse<ChoreCompletionDto>> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 10;
+
+    const { items, total } = await this.choresRepository.findCompletions(
+      householdId,
+      { choreId: query.choreId, userId: query.userId },
+      { skip: (page - 1) * limit, take: limit },
+    );
+
+    const data = items.map((completion) => ({
+      id: completion.id,
+      choreId: completion.choreId,
+      choreTitle: completion.chore.title,
+      choreIcon: completion.chore.icon ?? undefined,
+      userId: completion.userId,
+      userName: completion.user.name ?? undefined,
+      completedAt: completion.completedAt,
+      note: completion.note ?? undefined,
+    }));
+
+    return new PaginatedResponse(data, page, limit, total);
+  }
+
+  /**
+   * Gets completions per household member within a period, with each
+   * member's current and longest streak. Members without completions are
+   * included with a count of zero. Sorted by completions, then current streak.
+   *
+   * @param householdId - The household ID
+   * @param range - Optional period (defaults to the current week, starting on
+   * the household's week start day)
+   * @returns Leaderboard for the period
+   * @throws BadRequestException if the period is empty or inverted
+   */
+  async getLeaderboard(
+    householdId: string,
+    range: ChoreLeaderboardQueryDto = {},
+  ): Promise<ChoreLeaderboardDto> {
+    const now = new Date();
+    const { weekStartDay } =
+      await this.settingsService.getHouseholdSettings(householdId);
+    const week = StreakCalculator.weekRange(now, weekStartDay);
+    const from = range.from ? new Date(range.from) : week.from;
+    const to = range.to ? new Date(range.to) : week.to;
+
+    if (from.getTime() >= to.getTime()) {
+      throw new BadRequestException('"from" must be before "to"');
+    }
+
+    const lookback = new Date(
+      now.getTime() - STREAK_LOOKBACK_DAYS * MS_PER_DAY,
+    );
+    const since = from < lookback ? from : lookback;
+
+    const [members, completions] = await Promise.all([
+      this.choresRepository.findHouseholdMembers(householdId),
+      this.choresRepository.findCompletionTimes(householdId, since),
+    ]);
+
+    const completionsByMember = new Map<string, Date[]>();
+    for (const completion of completions) {
+      const times = completionsByMember.get(completion.userId) ?? [];
+      times.push(completion.completedAt);
+      completionsByMember.set(completion.userId, times);
+    }
+
+    const stats: MemberCompletionStatsDto[] = members.map((member) => {
+      const times = completionsByMember.get(member.id) ?? [];
+      const streak = StreakCalculator.calculate(times, now);
+      return {
+        userId: member.id,
+        name: member.name ?? undefined,
+        avatarUrl: member.avatarUrl ?? undefined,
+        completedCount: times.filter((time) => time >= from && time < to)
+          .length,
+        currentStreak: streak.current,
+        longestStreak: streak.longest,
+      };
+    });
+
+    stats.sort(
+      (a, b) =>
+        b.completedCount - a.completedCount ||
+        b.currentStreak - a.currentStreak,
+    );
+
+    return { from, to, members: stats };
+  }
+
   /**
    * Deletes a chore.
    *
@@ -229,7 +539,7 @@ export class ChoresService {
    * @throws ForbiddenException if user doesn't have access
    */
   async restoreChore(choreId: string, householdId: string): Promise<void> {
-    // Note: findChoreById doesn't filter by deletedAt, so it can find deleted chores
+    // findChoreById filters out deleted chores, so look the chore up directly
     const chore = await this.prisma.chore.findUnique({
       where: { id: choreId },
     });
@@ -245,12 +555,396 @@ export class ChoresService {
     await this.choresRepository.restoreChore(choreId);
   }
 
+  /**
+   * Creates the next occurrence of a recurring chore.
+   * Idempotent per occurrence: if the follow-up already exists (e.g. the chore
+   * was un-completed and completed again), it is returned instead. The
+   * (seriesId, occurrence) unique constraint settles concurrent completions:
+   * the losing insert fails with P2002 and returns the winner's occurrence.
+   *
+   * @param chore - The chore that was just completed
+   * @returns The next occurrence, or null if the chore does not recur or the series ended
+   */
+  private async generateNextOccurrence(chore: Chore): Promise<ChoreDto | null> {
+    const rule = RecurrenceCalculator.fromStored(
+      chore.recurrence,
+      chore.repeat,
+    );
+    if (!rule) {
+      return null;
+    }
+
+    const { timezone } = await this.settingsService.getHouseholdSettings(
+      chore.householdId,
+    );
+    const next = RecurrenceCalculator.nextAfterCompletion(
+      rule,
+      chore.dueDate ?? new Date(),
+      chore.occurrence,
+      new Date(),
+      this.recurrenceTimeZone(chore.isAllDay, timezone),
+    );
+    if (!next) {
+      return null;
+    }
+
+    const seriesId = chore.seriesId ?? chore.id;
+    const existing = await this.choresRepository.findSeriesOccurrence(
+      seriesId,
+      next.occurrence,
+    );
+    if (existing) {
+      return this.mapChoreToDto(existing);
+    }
+
+    const rotation = RotationCalculator.fromStored(chore.rotation);
+    const assigneeId = rotation
+      ? RotationCalculator.nextAssignee(
+          rotation,
+          chore.assigneeId,
+          next.occurrence - chore.occurrence,
+          await this.findActiveMemberIds(chore.householdId),
+        )
+      : chore.assigneeId;
+
+    let created: Chore;
+    try {
+      created = await this.choresRepository.createChore(chore.householdId, {
+        title: chore.title,
+        icon: chore.icon ?? undefined,
+        assigneeId: assigneeId ?? undefined,
+        dueDate: next.dueDate,
+        isAllDay: chore.isAllDay,
+        repeat: rule.frequency,
+        recurrence: rule as unknown as Prisma.InputJsonValue,
+        seriesId,
+        occurrence: next.occurrence,
+        rotation: rotation
+          ? (rotation as unknown as Prisma.InputJsonValue)
+          : undefined,
+        reminder: chore.reminder ?? undefined,
+        remindAt:
+          ReminderCalculator.remindAt(
+            await this.reminderAnchor(
+              { dueDate: next.dueDate, isAllDay: chore.isAllDay },
+              chore.householdId,
+            ),
+            chore.reminder,
+          ) ?? undefined,
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        // Already generated by a concurrent completion
+        const generated = await this.choresRepository.findSeriesOccurrence(
+          seriesId,
+          next.occurrence,
+        );
+        return generated ? this.mapChoreToDto(generated) : null;
+      }
+      throw error;
+    }
+
+    this.logger.log(
+      `Generated occurrence ${next.occurrence} of chore series ${seriesId}`,
+    );
+
+    return this.mapChoreToDto(created);
+  }
+
+  /**
+   * Builds repository update fields for a recurrence change.
+   * undefined leaves the rule untouched; null clears it.
+   */
+  private buildRecurrenceUpdate(
+    recurrence: RecurrenceRuleDto | null | undefined,
+    anchor?: Date,
+    timeZone?: string,
+  ): {
+    repeat?: string | null;
+    recurrence?: Prisma.InputJsonValue | typeof Prisma.DbNull;
+  } {
+    if (recurrence === undefined) {
+      return {};
+    }
+    if (recurrence === null) {
+      return { repeat: null, recurrence: Prisma.DbNull };
+    }
+
+    const rule = this.toRecurrenceRule(recurrence, anchor, timeZone);
+    return {
+      repeat: rule.frequency,
+      recurrence: rule as unknown as Prisma.InputJsonValue,
+    };
+  }
+
+  /**
+   * Works out who the next occurrence of each rotating recurring chore goes to,
+   * so clients can show who is up next.
+   *
+   * @returns Next assignee per chore ID (only rotating chores with a next occurrence)
+   */
+  private async planNextAssignees(
+    householdId: string,
+    chores: Chore[],
+    timezone: string,
+  ): Promise<Map<string, { id: string; name?: string }>> {
+    const planned = new Map<string, { id: string; name?: string }>();
+    const rotating = chores
+      .map((chore) => ({
+        chore,
+        rotation: RotationCalculator.fromStored(chore.rotation),
+      }))
+      .filter(
+        (entry): entry is { chore: Chore; rotation: ChoreRotation } =>
+          entry.rotation !== null,
+      );
+    if (rotating.length === 0) {
+      return planned;
+    }
+
+    const members =
+      await this.choresRepository.findHouseholdMembers(householdId);
+    const activeMemberIds = new Set(members.map((member) => member.id));
+
+    for (const { chore, rotation } of rotating) {
+      const rule = RecurrenceCalculator.fromStored(
+        chore.recurrence,
+        chore.repeat,
+      );
+      const next = rule
+        ? RecurrenceCalculator.nextAfterCompletion(
+            rule,
+            chore.dueDate ?? new Date(),
+            chore.occurrence,
+            new Date(),
+            this.recurrenceTimeZone(chore.isAllDay, timezone),
+          )
+        : null;
+      if (!next) {
+        continue;
+      }
+
+      const nextAssigneeId = RotationCalculator.nextAssignee(
+        rotation,
+        chore.assigneeId,
+        next.occurrence - chore.occurrence,
+        activeMemberIds,
+      );
+      if (nextAssigneeId) {
+        const member = members.find(({ id }) => id === nextAssigneeId);
+        planned.set(chore.id, {
+          id: nextAssigneeId,
+          name: member?.name ?? undefined,
+        });
+      }
+    }
+
+    return planned;
+  }
+
+  private async findActiveMemberIds(householdId: string): Promise<Set<string>> {
+    const members =
+      await this.choresRepository.findHouseholdMembers(householdId);
+    return new Set(members.map((member) => member.id));
+  }
+
+  /**
+   * Validates a rotation DTO against the household's current members.
+   *
+   * @throws BadRequestException if a member is not in the household
+   */
+  private async toRotation(
+    householdId: string,
+    dto: ChoreRotationDto,
+  ): Promise<ChoreRotation> {
+    const activeMemberIds = await this.findActiveMemberIds(householdId);
+    if (!dto.memberIds.every((id) => activeMemberIds.has(id))) {
+      throw new BadRequestException(
+        'Rotation members must belong to the household',
+      );
+    }
+    return RotationCalculator.normalize(dto);
+  }
+
+  /**
+   * Builds repository update fields for a rotation change.
+   * undefined leaves the rotation untouched; null clears it.
+   */
+  private async buildRotationUpdate(
+    householdId: string,
+    rotation: ChoreRotationDto | null | undefined,
+  ): Promise<{ rotation?: Prisma.InputJsonValue | typeof Prisma.DbNull }> {
+    if (rotation === undefined) {
+      return {};
+    }
+    if (rotation === null) {
+      return { rotation: Prisma.DbNull };
+    }
+    const normalized = await this.toRotation(householdId, rotation);
+    return { rotation: normalized as unknown as Prisma.InputJsonValue };
+  }
+
+  /**
+   * Builds repository update fields for a reminder or due date change.
+   * undefined leaves the reminder untouched; null turns it off. Any change
+   * reschedules the reminder so it is sent again for the new time.
+   */
+  private buildReminderUpdate(
+    chore: Chore,
+    reminder: string | null | undefined,
+    dueAt: Date | undefined,
+    timeZone: string,
+  ): {
+    reminder?: string | null;
+    remindAt?: Date | null;
+    reminderSentAt?: null;
+  } {
+    if (reminder === undefined && !dueAt) {
+      return {};
+    }
+
+    const offset = reminder === undefined ? chore.reminder : reminder;
+    return {
+      ...(reminder !== undefined && { reminder }),
+      remindAt: ReminderCalculator.remindAt(
+        dueAt ?? this.dueInstant(chore, timeZone),
+        offset,
+      ),
+      reminderSentAt: null,
+    };
+  }
+
+  /**
+   * Parses a requested due date. All-day chores keep only the calendar day,
+   * read in the household timezone when a full timestamp is given.
+   */
+  private toDueDate(
+    value: string | undefined,
+    isAllDay: boolean,
+    timeZone: string,
+  ): Date | undefined {
+    if (!value) {
+      return undefined;
+    }
+    return isAllDay
+      ? TimeZoneUtils.calendarDate(value, timeZone)
+      : new Date(value);
+  }
+
+  /**
+   * Converts a stored due date when a chore switches between all-day and
+   * timed: a timed chore becomes due at the start of its calendar day.
+   */
+  private convertDueDate(
+    dueDate: Date | null,
+    isAllDay: boolean,
+    timeZone: string,
+  ): Date | undefined {
+    if (!dueDate) {
+      return undefined;
+    }
+    return isAllDay
+      ? TimeZoneUtils.calendarDate(dueDate, timeZone)
+      : TimeZoneUtils.startOfCalendarDate(dueDate, timeZone);
+  }
+
+  /**
+   * Picks the GET /chores bucket for a chore. Chores without a dueDate are
+   * upcoming (they're never overdue); completed chores from before today
+   * aren't listed.
+   */
+  private sectionFor(
+    chore: Chore,
+    timezone: string,
+    today: Date,
+    tomorrow: Date,
+  ): ChoreSection | null {
+    const dueAt = this.dueInstant(chore, timezone);
+    if (!dueAt || dueAt >= tomorrow) {
+      return 'upcoming';
+    }
+    if (dueAt >= today) {
+      return 'today';
+    }
+    return chore.isCompleted ? null : 'overdue';
+  }
+
+  /**
+   * Returns the instant a chore falls due. All-day chores are due when
+   * their day starts in the household timezone.
+   */
+  private dueInstant(
+    chore: { dueDate?: Date | null; isAllDay: boolean },
+    timeZone: string,
+  ): Date | null {
+    if (!chore.dueDate) {
+      return null;
+    }
+    return chore.isAllDay
+      ? TimeZoneUtils.startOfCalendarDate(chore.dueDate, timeZone)
+      : chore.dueDate;
+  }
+
+  /**
+   * Like dueInstant, but only looks up the household timezone when the
+   * chore is all-day.
+   */
+  private async reminderAnchor(
+    chore: { dueDate?: Date | null; isAllDay: boolean },
+    householdId: string,
+  ): Promise<Date | null> {
+    if (!chore.isAllDay) {
+      return chore.dueDate ?? null;
+    }
+    const { timezone } =
+      await this.settingsService.getHouseholdSettings(householdId);
+    return this.dueInstant(chore, timezone);
+  }
+
+  /**
+   * Timezone recurrence math runs in. All-day due dates are floating calendar
+   * dates stored at UTC midnight, so only timed chores use the household
+   * timezone.
+   */
+  private recurrenceTimeZone(isAllDay: boolean, timezone: string): string {
+    return isAllDay ? 'UTC' : timezone;
+  }
+
+  /**
+   * Converts a validated DTO into a normalized rule. Monthly rules without an
+   * explicit day are pinned to the due date's day so short months don't make
+   * the series drift (e.g. Jan 31 → Feb 28 → Mar 28).
+   */
+  private toRecurrenceRule(
+    dto: RecurrenceRuleDto,
+    anchor?: Date,
+    timeZone = 'UTC',
+  ): RecurrenceRule {
+    const byMonthDay =
+      dto.frequency === 'monthly' && !dto.byMonthDay && anchor
+        ? TimeZoneUtils.toWallClock(anchor, timeZone).getUTCDate()
+        : dto.byMonthDay;
+
+    return RecurrenceCalculator.normalize({
+      frequency: dto.frequency,
+      interval: dto.interval ?? 1,
+      byWeekday: dto.byWeekday,
+      byMonthDay,
+      until: dto.until,
+      count: dto.count,
+    });
+  }
+
   /**
    * Maps chore entity to DTO.
    * Accepts chore with or without assignee (e.g. from updateChore vs findChoresByHousehold).
    */
   private mapChoreToDto(
     chore: Chore & { assignee?: { name: string } | null },
+    nextAssignee?: { id: string; name?: string },
   ): ChoreDto {
     return {
       id: chore.id,
@@ -259,9 +953,20 @@ export class ChoresService {
       assigneeId: chore.assigneeId,
       assigneeName: chore.assignee?.name,
       dueDate: chore.dueDate,
+      isAllDay: chore.isAllDay,
       isCompleted: chore.isCompleted,
       completedAt: chore.completedAt,
       repeat: chore.repeat,
+      recurrence: RecurrenceCalculator.fromStored(
+        chore.recurrence,
+        chore.repeat,
+      ),
+      seriesId: chore.seriesId ?? undefined,
+      occurrence: chore.occurrence,
+      rotation: RotationCalculator.fromStored(chore.rotation),
+      nextAssigneeId: nextAssignee?.id,
+      nextAssigneeName: nextAssignee?.name,
+      reminder: chore.reminder,
     };
   }
 }
@@ -0,0 +1,10 @@
+import { RotationMode } from '../constants/rotation.constants';
+
+/**
+ * Rotation of a recurring chore's assignee among household members.
+ */
+export interface ChoreRotation {
+  /** Member IDs in rotation order */
+  memberIds: string[];
+  mode: RotationMode;
+}
@@ -0,0 +1,2 @@
+export * from './recurrence-rule.interface';
+export * from './chore-rotation.interface';
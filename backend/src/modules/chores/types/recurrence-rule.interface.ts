@@ -0,0 +1,18 @@
+import { RecurrenceFrequency } from '../constants/recurrence.constants';
+
+/**
+ * Structured, RRULE-style recurrence rule stored on a chore.
+ *
+ * - `frequency` + `interval`: every N days / weeks / months
+ * - `byWeekday`: weekly only, days of week (0 = Sunday ... 6 = Saturday)
+ * - `byMonthDay`: monthly only, day of month (1-31, clamped to month length)
+ * - `until` / `count`: optional end of the series (mutually exclusive)
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byWeekday?: number[];
+  byMonthDay?: number;
+  until?: string;
+  count?: number;
+}
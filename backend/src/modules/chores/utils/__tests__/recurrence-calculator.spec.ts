@@ -0,0 +1,248 @@
+import { RecurrenceCalculator } from '../recurrence-calculator';
+
+describe('RecurrenceCalculator', () => {
+  describe('next', () => {
+    it.each([
+      [
+        'daily, interval 1',
+        { frequency: 'daily', interval: 1 },
+        '2026-03-10T09:00:00.000Z',
+        '2026-03-11T09:00:00.000Z',
+      ],
+      [
+        'daily, interval 3',
+        { frequency: 'daily', interval: 3 },
+        '2026-03-10T09:00:00.000Z',
+        '2026-03-13T09:00:00.000Z',
+      ],
+      [
+        'weekly without weekdays',
+        { frequency: 'weekly', interval: 2 },
+        '2026-03-10T09:00:00.000Z',
+        '2026-03-24T09:00:00.000Z',
+      ],
+      // 2026-03-10 is a Tuesday (2); next listed weekday is Thursday (4)
+      [
+        'weekly, later weekday this week',
+        { frequency: 'weekly', interval: 1, byWeekday: [2, 4] },
+        '2026-03-10T09:00:00.000Z',
+        '2026-03-12T09:00:00.000Z',
+      ],
+      // From Thursday wrap to Tuesday of the following week
+      [
+        'weekly, wraps to next week',
+        { frequency: 'weekly', interval: 1, byWeekday: [2, 4] },
+        '2026-03-12T09:00:00.000Z',
+        '2026-03-17T09:00:00.000Z',
+      ],
+      // Every other week: wrap skips a week
+      [
+        'weekly, interval 2 wraps two weeks',
+        { frequency: 'weekly', interval: 2, byWeekday: [2, 4] },
+        '2026-03-12T09:00:00.000Z',
+        '2026-03-24T09:00:00.000Z',
+      ],
+      [
+        'monthly on same day',
+        { frequency: 'monthly', interval: 1 },
+        '2026-03-10T09:00:00.000Z',
+        '2026-04-10T09:00:00.000Z',
+      ],
+      [
+        'monthly clamps to month length',
+        { frequency: 'monthly', interval: 1, byMonthDay: 31 },
+        '2026-01-31T09:00:00.000Z',
+        '2026-02-28T09:00:00.000Z',
+      ],
+      [
+        'monthly restores pinned day',
+        { frequency: 'monthly', interval: 1, byMonthDay: 31 },
+        '2026-02-28T09:00:00.000Z',
+        '2026-03-31T09:00:00.000Z',
+      ],
+      [
+        'monthly across year boundary',
+        { frequency: 'monthly', interval: 2 },
+        '2026-11-15T09:00:00.000Z',
+        '2027-01-15T09:00:00.000Z',
+      ],
+    ] as const)('%s', (_label, rule, from, expected) => {
+      const result = RecurrenceCalculator.next(
+        {
+          ...rule,
+          byWeekday: 'byWeekday' in rule ? [...rule.byWeekday] : undefined,
+        },
+        new Date(from),
+      );
+      expect(result.toISOString()).toBe(expected);
+    });
+
+    describe('in a non-UTC timezone', () => {
+      const timeZone = 'Asia/Jerusalem';
+
+      it.each([
+        [
+          // Tuesday 00:30 local is still Monday in UTC
+          'weekly on weekdays just after local midnight',
+          { frequency: 'weekly', interval: 1, byWeekday: [2, 5] },
+          '2026-03-09T22:30:00.000Z',
+          '2026-03-12T22:30:00.000Z',
+        ],
+        [
+          // Jan 1 00:30 local is still Dec 31 in UTC
+          'monthly on a day just after local midnight',
+          { frequency: 'monthly', interval: 1, byMonthDay: 1 },
+          '2025-12-31T22:30:00.000Z',
+          '2026-01-31T22:30:00.000Z',
+        ],
+        [
+          'daily across the start of daylight saving time',
+          { frequency: 'daily', interval: 1 },
+          '2026-03-26T07:00:00.000Z',
+          '2026-03-27T06:00:00.000Z',
+        ],
+      ] as const)('%s', (_label, rule, from, expected) => {
+        const result = RecurrenceCalculator.next(
+          {
+            ...rule,
+            byWeekday: 'byWeekday' in rule ? [...rule.byWeekday] : undefined,
+          },
+          new Date(from),
+          timeZone,
+        );
+        expect(result.toISOString()).toBe(expected);
+      });
+    });
+  });
+
+  describe('nextAfterCompletion', () => {
+    const now = new Date('2026-03-10T12:00:00.000Z');
+
+    it('returns the next occurrence and increments the index', () => {
+      const result = RecurrenceCalculator.nextAfterCompletion(
+        { frequency: 'daily', interval: 1 },
+        new Date('2026-03-10T09:00:00.000Z'),
+        1,
+        now,
+      );
+
+      expect(result).toEqual({
+        dueDate: new Date('2026-03-11T09:00:00.000Z'),
+        occurrence: 2,
+      });
+    });
+
+    it('skips occurrences that are already in the past', () => {
+      const result = RecurrenceCalculator.nextAfterCompletion(
+        { frequency: 'daily', interval: 1 },
+        new Date('2026-03-07T09:00:00.000Z'),
+        1,
+        now,
+      );
+
+      expect(result?.dueDate.toISOString()).toBe('2026-03-11T09:00:00.000Z');
+      expect(result?.occurrence).toBe(5);
+    });
+
+    it('returns null once the count is exhausted', () => {
+      const result = RecurrenceCalculator.nextAfterCompletion(
+        { frequency: 'daily', interval: 1, count: 3 },
+        new Date('2026-03-10T09:00:00.000Z'),
+        3,
+        now,
+      );
+
+      expect(result).toBeNull();
+    });
+
+    it('treats a date-only until as inclusive of that whole day', () => {
+      const rule = {
+        frequency: 'daily' as const,
+        interval: 1,
+        until: '2026-03-11',
+      };
+
+      expect(
+        RecurrenceCalculator.nextAfterCompletion(
+          rule,
+          new Date('2026-03-10T09:00:00.000Z'),
+          1,
+          now,
+        ),
+      ).not.toBeNull();
+      expect(
+        RecurrenceCalculator.nextAfterCompletion(
+          rule,
+          new Date('2026-03-11T09:00:00.000Z'),
+          2,
+          now,
+        ),
+      ).toBeNull();
+    });
+
+    it.each([
+      // 21:00 EDT on the until date is already the next day in UTC
+      [
+        'keeps the last local day west of UTC',
+        'America/New_York',
+        '2026-03-11T01:00:00.000Z',
+        '2026-03-12T01:00:00.000Z',
+      ],
+      // 08:00 JST the day after until is still the until date in UTC
+      [
+        'drops the day after until east of UTC',
+        'Asia/Tokyo',
+        '2026-03-10T23:00:00.000Z',
+        null,
+      ],
+    ])('%s', (_label, timeZone, from, expected) => {
+      const result = RecurrenceCalculator.nextAfterCompletion(
+        { frequency: 'daily', interval: 1, until: '2026-03-11' },
+        new Date(from),
+        1,
+        now,
+        timeZone,
+      );
+
+      expect(result?.dueDate.toISOString() ?? null).toBe(expected);
+    });
+  });
+
+  describe('fromStored', () => {
+    it('reads a structured rule', () => {
+      expect(
+        RecurrenceCalculator.fromStored({
+          frequency: 'weekly',
+          interval: 1,
+          byWeekday: [5, 1, 1],
+        }),
+      ).toEqual({ frequency: 'weekly', interval: 1, byWeekday: [1, 5] });
+    });
+
+    it('falls back to the legacy repeat label', () => {
+      expect(RecurrenceCalculator.fromStored(null, 'Weekly')).toEqual({
+        frequency: 'weekly',
+        interval: 1,
+      });
+    });
+
+    it('returns null for unknown legacy labels', () => {
+      expect(
+        RecurrenceCalculator.fromStored(null, 'every full moon'),
+      ).toBeNull();
+    });
+  });
+
+  describe('normalize', () => {
+    it('drops fields that do not apply to the frequency', () => {
+      expect(
+        RecurrenceCalculator.normalize({
+          frequency: 'daily',
+          interval: 0,
+          byWeekday: [1],
+          byMonthDay: 3,
+        }),
+      ).toEqual({ frequency: 'daily', interval: 1 });
+    });
+  });
+});
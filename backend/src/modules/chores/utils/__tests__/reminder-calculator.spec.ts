@@ -0,0 +1,42 @@
+import { ReminderCalculator } from '../reminder-calculator';
+
+describe('ReminderCalculator', () => {
+  describe('toMinutes', () => {
+    it.each([
+      ['30m', 30],
+      ['1h', 60],
+      ['2d', 2880],
+      ['7d', 10080],
+    ])('parses %s', (offset, expected) => {
+      expect(ReminderCalculator.toMinutes(offset)).toBe(expected);
+    });
+
+    it.each([
+      ['an empty value', undefined],
+      ['a missing unit', '30'],
+      ['an unknown unit', '1w'],
+      ['a zero amount', '0m'],
+      ['an offset beyond a week', '8d'],
+    ])('rejects %s', (_label, offset) => {
+      expect(ReminderCalculator.toMinutes(offset)).toBeNull();
+    });
+  });
+
+  describe('remindAt', () => {
+    const dueDate = new Date('2026-03-10T18:00:00.000Z');
+
+    it('subtracts the offset from the due date', () => {
+      expect(ReminderCalculator.remindAt(dueDate, '1h')).toEqual(
+        new Date('2026-03-10T17:00:00.000Z'),
+      );
+    });
+
+    it('returns null without a due date', () => {
+      expect(ReminderCalculator.remindAt(null, '1h')).toBeNull();
+    });
+
+    it('returns null without a reminder', () => {
+      expect(ReminderCalculator.remindAt(dueDate, null)).toBeNull();
+    });
+  });
+});
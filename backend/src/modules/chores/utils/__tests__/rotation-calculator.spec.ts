@@ -0,0 +1,104 @@
+import { RotationCalculator } from '../rotation-calculator';
+import { ChoreRotation } from '../../types';
+
+const ALEX = 'alex';
+const BO = 'bo';
+const CY = 'cy';
+
+describe('RotationCalculator', () => {
+  const everyone = new Set([ALEX, BO, CY]);
+
+  describe('nextAssignee', () => {
+    it.each([
+      ['advances to the next member', ALEX, BO],
+      ['wraps around to the first member', CY, ALEX],
+      ['starts from the first member when unassigned', null, ALEX],
+      [
+        'starts from the first member when the assignee is outside the rotation',
+        'someone-else',
+        ALEX,
+      ],
+    ])('on_completion %s', (_label, current, expected) => {
+      const rotation: ChoreRotation = {
+        memberIds: [ALEX, BO, CY],
+        mode: 'on_completion',
+      };
+
+      expect(
+        RotationCalculator.nextAssignee(rotation, current, 3, everyone),
+      ).toBe(expected);
+    });
+
+    it.each([
+      ['one occurrence ahead', 1, BO],
+      ['two occurrences ahead (one skipped while overdue)', 2, CY],
+      ['a full cycle ahead', 4, BO],
+    ])(
+      'on_schedule advances once per occurrence: %s',
+      (_label, ahead, expected) => {
+        const rotation: ChoreRotation = {
+          memberIds: [ALEX, BO, CY],
+          mode: 'on_schedule',
+        };
+
+        expect(
+          RotationCalculator.nextAssignee(rotation, ALEX, ahead, everyone),
+        ).toBe(expected);
+      },
+    );
+
+    it('skips members who are no longer in the household', () => {
+      const rotation: ChoreRotation = {
+        memberIds: [ALEX, BO, CY],
+        mode: 'on_completion',
+      };
+
+      expect(
+        RotationCalculator.nextAssignee(rotation, ALEX, 1, new Set([ALEX, CY])),
+      ).toBe(CY);
+    });
+
+    it('continues from a removed assignee position', () => {
+      const rotation: ChoreRotation = {
+        memberIds: [ALEX, BO, CY],
+        mode: 'on_completion',
+      };
+
+      expect(
+        RotationCalculator.nextAssignee(rotation, BO, 1, new Set([ALEX, CY])),
+      ).toBe(CY);
+    });
+
+    it('returns null when nobody in the rotation is still in the household', () => {
+      const rotation: ChoreRotation = {
+        memberIds: [ALEX, BO],
+        mode: 'on_completion',
+      };
+
+      expect(
+        RotationCalculator.nextAssignee(rotation, ALEX, 1, new Set([CY])),
+      ).toBeNull();
+    });
+  });
+
+  describe('fromStored', () => {
+    it.each([
+      ['null', null],
+      ['an array', [ALEX]],
+      ['missing members', { mode: 'on_completion' }],
+      ['an empty member list', { memberIds: [], mode: 'on_completion' }],
+      ['an unknown mode', { memberIds: [ALEX], mode: 'randomly' }],
+    ])('returns null for %s', (_label, stored) => {
+      expect(RotationCalculator.fromStored(stored)).toBeNull();
+    });
+
+    it('dedupes members while keeping their order', () => {
+      expect(
+        RotationCalculator.fromStored({
+          memberIds: [BO, ALEX, BO],
+          mode: 'on_schedule',
+        }),
+      ).toEqual({ memberIds: [BO, ALEX], mode: 'on_schedule' });
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { StreakCalculator } from '../streak-calculator';
+
+const NOW = new Date('2026-03-12T15:00:00.000Z'); // Thursday
+
+describe('StreakCalculator', () => {
+  describe('calculate', () => {
+    it.each([
+      ['no completions', [], { current: 0, longest: 0 }],
+      [
+        'completed today only',
+        ['2026-03-12T08:00:00.000Z'],
+        { current: 1, longest: 1 },
+      ],
+      [
+        'consecutive days ending today',
+        [
+          '2026-03-10T08:00:00.000Z',
+          '2026-03-11T20:00:00.000Z',
+          '2026-03-12T07:00:00.000Z',
+        ],
+        { current: 3, longest: 3 },
+      ],
+      [
+        'streak ending yesterday is still current',
+        ['2026-03-10T08:00:00.000Z', '2026-03-11T08:00:00.000Z'],
+        { current: 2, longest: 2 },
+      ],
+      [
+        'streak broken two days ago',
+        ['2026-03-09T08:00:00.000Z', '2026-03-10T08:00:00.000Z'],
+        { current: 0, longest: 2 },
+      ],
+      [
+        'longest streak in the past, shorter current streak',
+        [
+          '2026-03-01T08:00:00.000Z',
+          '2026-03-02T08:00:00.000Z',
+          '2026-03-03T08:00:00.000Z',
+          '2026-03-04T08:00:00.000Z',
+          '2026-03-11T08:00:00.000Z',
+          '2026-03-12T08:00:00.000Z',
+        ],
+        { current: 2, longest: 4 },
+      ],
+      [
+        'several completions on the same day count once',
+        [
+          '2026-03-12T08:00:00.000Z',
+          '2026-03-12T09:00:00.000Z',
+          '2026-03-12T10:00:00.000Z',
+        ],
+        { current: 1, longest: 1 },
+      ],
+    ])('%s', (_label, dates, expected) => {
+      const result = StreakCalculator.calculate(
+        dates.map((date) => new Date(date)),
+        NOW,
+      );
+
+      expect(result).toEqual(expected);
+    });
+
+    it('does not depend on input order', () => {
+      const result = StreakCalculator.calculate(
+        [
+          new Date('2026-03-12T08:00:00.000Z'),
+          new Date('2026-03-10T08:00:00.000Z'),
+          new Date('2026-03-11T08:00:00.000Z'),
+        ],
+        NOW,
+      );
+
+      expect(result).toEqual({ current: 3, longest: 3 });
+    });
+  });
+
+  describe('weekRange', () => {
+    it.each([
+      [
+        'Sunday start',
+        0,
+        '2026-03-08T00:00:00.000Z',
+        '2026-03-15T00:00:00.000Z',
+      ],
+      [
+        'Monday start',
+        1,
+        '2026-03-09T00:00:00.000Z',
+        '2026-03-16T00:00:00.000Z',
+      ],
+      [
+        'week start equal to reference weekday',
+        4,
+        '2026-03-12T00:00:00.000Z',
+        '2026-03-19T00:00:00.000Z',
+      ],
+    ])('%s', (_label, weekStartDay, from, to) => {
+      const range = StreakCalculator.weekRange(NOW, weekStartDay);
+
+      expect(range.from.toISOString()).toBe(from);
+      expect(range.to.toISOString()).toBe(to);
+    });
+
+    it('defaults to a Sunday week start', () => {
+      const range = StreakCalculator.weekRange(NOW);
+
+      expect(range.from.toISOString()).toBe('2026-03-08T00:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import {
+  RECURRENCE_FREQUENCIES,
+  RecurrenceFrequency,
+} from '../constants/recurrence.constants';
+import { RecurrenceRule } from '../types';
+import { TimeZoneUtils } from '../../../common/utils';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Computes occurrences of structured chore recurrence rules.
+ * Calendar math is done on the local wall clock of the given timezone
+ * (UTC by default) and preserves the local time of day of the reference
+ * date, so a late-evening chore keeps its local weekday and day of month.
+ */
+export class RecurrenceCalculator {
+  /**
+   * Normalizes a rule: defaults the interval, drops fields that do not apply
+   * to the frequency and sorts/dedupes weekdays.
+   */
+  static normalize(rule: RecurrenceRule): RecurrenceRule {
+    const normalized: RecurrenceRule = {
+      frequency: rule.frequency,
+      interval: rule.interval && rule.interval > 0 ? rule.interval : 1,
+    };
+
+    if (rule.frequency === 'weekly' && rule.byWeekday?.length) {
+      normalized.byWeekday = [...new Set(rule.byWeekday)].sort((a, b) => a - b);
+    }
+    if (rule.frequency === 'monthly' && rule.byMonthDay) {
+      normalized.byMonthDay = rule.byMonthDay;
+    }
+    if (rule.until) {
+      normalized.until = rule.until;
+    } else if (rule.count) {
+      normalized.count = rule.count;
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Converts a legacy free-form `repeat` label into a rule.
+   *
+   * @returns The equivalent rule, or null when the label is not a known frequency
+   */
+  static fromLegacyRepeat(
+    repeat: string | null | undefined,
+  ): RecurrenceRule | null {
+    const frequency = repeat?.trim().toLowerCase();
+    if (!frequency || !this.isFrequency(frequency)) {
+      return null;
+    }
+    return { frequency, interval: 1 };
+  }
+
+  /**
+   * Reads a rule persisted in the chore's JSON column, falling back to the
+   * legacy `repeat` label for rows created before structured rules existed.
+   */
+  static fromStored(
+    recurrence: unknown,
+    legacyRepeat?: string | null,
+  ): RecurrenceRule | null {
+    if (
+      recurrence &&
+      typeof recurrence === 'object' &&
+      !Array.isArray(recurrence) &&
+      this.isFrequency((recurrence as RecurrenceRule).frequency)
+    ) {
+      return this.normalize(recurrence as RecurrenceRule);
+    }
+    return this.fromLegacyRepeat(legacyRepeat);
+  }
+
+  /**
+   * Computes the occurrence that follows `from` according to the rule,
+   * ignoring end conditions.
+   *
+   * @param rule - Recurrence rule
+   * @param from - Due date of the current occurrence
+   * @param timeZone - IANA timezone the calendar math is done in
+   * @returns Due date of the next occurrence
+   */
+  static next(rule: RecurrenceRule, from: Date, timeZone = 'UTC'): Date {
+    const interval = rule.interval > 0 ? rule.interval : 1;
+    const wallClock = TimeZoneUtils.toWallClock(from, timeZone);
+
+    return TimeZoneUtils.fromWallClock(
+      this.nextWallClock(rule, interval, wallClock),
+      timeZone,
+    );
+  }
+
+  /**
+   * Computes the next occurrence after a completion, skipping occurrences
+   * that are already in the past so an overdue chore is rescheduled into the
+   * future rather than into another overdue slot.
+   *
+   * @param rule - Recurrence rule
+   * @param from - Due date of the completed occurrence
+   * @param currentOccurrence - 1-based index of the completed occurrence
+   * @param now - Reference time (defaults to the current time)
+   * @param timeZone - IANA timezone the calendar math is done in
+   * @returns Next due date and its occurrence index, or null when the series has ended
+   */
+  static nextAfterCompletion(
+    rule: RecurrenceRule,
+    from: Date,
+    currentOccurrence: number,
+    now: Date = new Date(),
+    timeZone = 'UTC',
+  ): { dueDate: Date; occurrence: number } | null {
+    let dueDate = this.next(rule, from, timeZone);
+    let occurrence = currentOccurrence + 1;
+
+    while (dueDate.getTime() <= now.getTime()) {
+      dueDate = this.next(rule, dueDate, timeZone);
+      occurrence += 1;
+    }
+
+    if (!this.isWithinBounds(rule, dueDate, occurrence, timeZone)) {
+      return null;
+    }
+
+    return { dueDate, occurrence };
+  }
+
+  /**
+   * Checks the series end conditions. `until` is inclusive; date-only values
+   * cover the whole local day in the given timezone.
+   */
+  static isWithinBounds(
+    rule: RecurrenceRule,
+    dueDate: Date,
+    occurrence: number,
+    timeZone = 'UTC',
+  ): boolean {
+    if (rule.count !== undefined && occurrence > rule.count) {
+      return false;
+    }
+
+    if (rule.until) {
+      const untilEnd = DATE_ONLY_PATTERN.test(rule.until)
+        ? TimeZoneUtils.zonedDayRange(rule.until, timeZone).to.getTime() - 1
+        : new Date(rule.until).getTime();
+      if (dueDate.getTime() > untilEnd) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private static isFrequency(value: unknown): value is RecurrenceFrequency {
+    return (
+      typeof value === 'string' &&
+      (RECURRENCE_FREQUENCIES as readonly string[]).includes(value)
+    );
+  }
+
+  private static nextWallClock(
+    rule: RecurrenceRule,
+    interval: number,
+    from: Date,
+  ): Date {
+    switch (rule.frequency) {
+      case 'daily':
+        return new Date(from.getTime() + interval * MS_PER_DAY);
+      case 'weekly':
+        return this.nextWeekly(rule.byWeekday, interval, from);
+      case 'monthly':
+        return this.nextMonthly(rule.byMonthDay, interval, from);
+    }
+  }
+
+  private static nextWeekly(
+    byWeekday: number[] | undefined,
+    interval: number,
+    from: Date,
+  ): Date {
+    if (!byWeekday?.length) {
+      return new Date(from.getTime() + interval * 7 * MS_PER_DAY);
+    }
+
+    const weekdays = [...byWeekday].sort((a, b) => a - b);
+    const currentWeekday = from.getUTCDay();
+    const laterThisWeek = weekdays.find((day) => day > currentWeekday);
+
+    const daysToAdd =
+      laterThisWeek !== undefined
+        ? laterThisWeek - currentWeekday
+        : interval * 7 - currentWeekday + weekdays[0];
+
+    return new Date(from.getTime() + daysToAdd * MS_PER_DAY);
+  }
+
+  private static nextMonthly(
+    byMonthDay: number | undefined,
+    interval: number,
+    from: Date,
+  ): Date {
+    const targetDay = byMonthDay ?? from.getUTCDate();
+    const year = from.getUTCFullYear();
+    const month = from.getUTCMonth() + interval;
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+    return new Date(
+      Date.UTC(
+        year,
+        month,
+        Math.min(targetDay, daysInMonth),
+        from.getUTCHours(),
+        from.getUTCMinutes(),
+        from.getUTCSeconds(),
+        from.getUTCMilliseconds(),
+      ),
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import {
+  MAX_REMINDER_OFFSET_MINUTES,
+  REMINDER_OFFSET_PATTERN,
+  REMINDER_UNIT_MINUTES,
+} from '../constants/reminder.constants';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * Resolves chore reminder offsets (e.g. "30m", "1h", "1d") into the time the
+ * reminder notification should be sent.
+ */
+export class ReminderCalculator {
+  /**
+   * Parses an offset into minutes.
+   *
+   * @returns Offset in minutes, or null when the offset is malformed or too large
+   */
+  static toMinutes(offset: string | null | undefined): number | null {
+    const match = offset ? REMINDER_OFFSET_PATTERN.exec(offset) : null;
+    if (!match) {
+      return null;
+    }
+
+    const minutes =
+      Number(match[1]) *
+      REMINDER_UNIT_MINUTES[match[2] as keyof typeof REMINDER_UNIT_MINUTES];
+    return minutes <= MAX_REMINDER_OFFSET_MINUTES ? minutes : null;
+  }
+
+  /**
+   * Computes when to remind about a chore.
+   *
+   * @param dueDate - Due date of the chore
+   * @param offset - Reminder offset before the due date
+   * @returns Reminder time, or null when the chore has no due date or valid offset
+   */
+  static remindAt(
+    dueDate: Date | null | undefined,
+    offset: string | null | undefined,
+  ): Date | null {
+    const minutes = this.toMinutes(offset);
+    if (!dueDate || minutes === null) {
+      return null;
+    }
+    return new Date(dueDate.getTime() - minutes * MS_PER_MINUTE);
+  }
+}
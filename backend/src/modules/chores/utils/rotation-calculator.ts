@@ -0,0 +1,86 @@
+import { ROTATION_MODES, RotationMode } from '../constants/rotation.constants';
+import { ChoreRotation } from '../types';
+
+/**
+ * Picks assignees for rotating chores.
+ * Members that are no longer in the household are skipped, so removing a
+ * member hands their turns to the next person in line instead of leaving
+ * occurrences assigned to someone who cannot see them.
+ */
+export class RotationCalculator {
+  /**
+   * Normalizes a rotation: trims duplicate members while keeping order.
+   */
+  static normalize(rotation: ChoreRotation): ChoreRotation {
+    return {
+      memberIds: [...new Set(rotation.memberIds)],
+      mode: rotation.mode,
+    };
+  }
+
+  /**
+   * Reads a rotation persisted in the chore's JSON column.
+   *
+   * @returns The rotation, or null when missing or malformed
+   */
+  static fromStored(rotation: unknown): ChoreRotation | null {
+    if (!rotation || typeof rotation !== 'object' || Array.isArray(rotation)) {
+      return null;
+    }
+
+    const { memberIds, mode } = rotation as Partial<ChoreRotation>;
+    if (
+      !Array.isArray(memberIds) ||
+      memberIds.length === 0 ||
+      !this.isMode(mode)
+    ) {
+      return null;
+    }
+
+    return this.normalize({ memberIds, mode });
+  }
+
+  /**
+   * Determines who is assigned to an upcoming occurrence.
+   * Rotation continues from the current assignee's position; an assignee
+   * outside the rotation starts it from the first member.
+   *
+   * @param rotation - Rotation configuration
+   * @param currentAssigneeId - Assignee of the current occurrence
+   * @param occurrencesAhead - How many occurrences ahead the target is (used by on_schedule)
+   * @param activeMemberIds - Current household members
+   * @returns The next assignee, or null when no rotation member is still in the household
+   */
+  static nextAssignee(
+    rotation: ChoreRotation,
+    currentAssigneeId: string | null | undefined,
+    occurrencesAhead: number,
+    activeMemberIds: ReadonlySet<string>,
+  ): string | null {
+    const { memberIds } = rotation;
+    if (!memberIds.some((id) => activeMemberIds.has(id))) {
+      return null;
+    }
+
+    const steps =
+      rotation.mode === 'on_schedule' ? Math.max(1, occurrencesAhead) : 1;
+    let position = currentAssigneeId
+      ? memberIds.indexOf(currentAssigneeId)
+      : -1;
+
+    for (let step = 0; step < steps; step++) {
+      do {
+        position = (position + 1) % memberIds.length;
+      } while (!activeMemberIds.has(memberIds[position]));
+    }
+
+    return memberIds[position];
+  }
+
+  private static isMode(value: unknown): value is RotationMode {
+    return (
+      typeof value === 'string' &&
+      (ROTATION_MODES as readonly string[]).includes(value)
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { DEFAULT_WEEK_START_DAY } from '../constants/completion.constants';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Computes completion streaks and week boundaries.
+ * A streak is a run of consecutive UTC days with at least one completion.
+ */
+export class StreakCalculator {
+  /**
+   * Calculates the current and longest streak for a set of completion times.
+   * The current streak stays alive until the end of the day after the last
+   * completion, so a streak is not broken before the member had a chance to
+   * complete something today.
+   *
+   * @param completedAt - Completion timestamps in any order
+   * @param now - Reference time (defaults to the current time)
+   * @returns Current and longest streak in days
+   */
+  static calculate(
+    completedAt: Date[],
+    now: Date = new Date(),
+  ): { current: number; longest: number } {
+    const days = [
+      ...new Set(completedAt.map((date) => this.toDayIndex(date))),
+    ].sort((a, b) => a - b);
+
+    if (days.length === 0) {
+      return { current: 0, longest: 0 };
+    }
+
+    let longest = 1;
+    let run = 1;
+    for (let i = 1; i < days.length; i++) {
+      run = days[i] === days[i - 1] + 1 ? run + 1 : 1;
+      longest = Math.max(longest, run);
+    }
+
+    const today = this.toDayIndex(now);
+    const lastDay = days[days.length - 1];
+    const current = lastDay === today || lastDay === today - 1 ? run : 0;
+
+    return { current, longest };
+  }
+
+  /**
+   * Returns the UTC week containing the reference date.
+   *
+   * @param reference - Any moment within the week
+   * @param weekStartDay - First day of the week (0 = Sunday)
+   * @returns Inclusive start and exclusive end of the week
+   */
+  static weekRange(
+    reference: Date,
+    weekStartDay: number = DEFAULT_WEEK_START_DAY,
+  ): { from: Date; to: Date } {
+    const offset = (reference.getUTCDay() - weekStartDay + 7) % 7;
+    const from = new Date(
+      Date.UTC(
+        reference.getUTCFullYear(),
+        reference.getUTCMonth(),
+        reference.getUTCDate() - offset,
+      ),
+    );
+    return { from, to: new Date(from.getTime() + 7 * MS_PER_DAY) };
+  }
+
+  private static toDayIndex(date: Date): number {
+    return Math.floor(date.getTime() / MS_PER_DAY);
+  }
+}
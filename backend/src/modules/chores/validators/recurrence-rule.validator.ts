@@ -0,0 +1,45 @@
+import {
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+  ValidationArguments,
+} from 'class-validator';
+
+/**
+ * Cross-field checks for a recurrence rule:
+ * - `byWeekday` only applies to weekly rules
+ * - `byMonthDay` only applies to monthly rules
+ * - `until` and `count` are mutually exclusive ways to end a series
+ *
+ * Applied on `frequency` so the checks run once per rule.
+ */
+@ValidatorConstraint({ name: 'recurrenceRuleConsistency', async: false })
+export class RecurrenceRuleConsistencyConstraint implements ValidatorConstraintInterface {
+  validate(frequency: unknown, args: ValidationArguments): boolean {
+    return this.getViolation(frequency, args) === null;
+  }
+
+  defaultMessage(args: ValidationArguments): string {
+    return (
+      this.getViolation(args.value, args) ?? 'Recurrence rule is inconsistent'
+    );
+  }
+
+  private getViolation(
+    frequency: unknown,
+    args: ValidationArguments,
+  ): string | null {
+    const rule = args.object as Record<string, unknown>;
+
+    if (rule.byWeekday !== undefined && frequency !== 'weekly') {
+      return 'byWeekday is only allowed for weekly recurrence';
+    }
+    if (rule.byMonthDay !== undefined && frequency !== 'monthly') {
+      return 'byMonthDay is only allowed for monthly recurrence';
+    }
+    if (rule.until !== undefined && rule.count !== undefined) {
+      return 'Recurrence cannot specify both until and count';
+    }
+
+    return null;
+  }
+}
@@ -2,9 +2,11 @@ import { Module } from '@nestjs/common';
 import { DashboardController } from './controllers/dashboard.controller';
 import { DashboardService } from './services/dashboard.service';
 import { PrismaModule } from '../../infrastructure/database/prisma/prisma.module';
+import { SettingsModule } from '../settings/settings.module';
+import { AuditModule } from '../audit/audit.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, SettingsModule, AuditModule],
   controllers: [DashboardController],
   providers: [DashboardService],
   exports: [DashboardService],
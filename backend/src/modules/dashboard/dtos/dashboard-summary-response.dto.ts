@@ -1,8 +1,17 @@
 export class RecentActivityDto {
+  /** Activity feed action in lower case, e.g. `complete_chore`. */
   type: string;
   user: string;
   item: string;
   time: string;
+  createdAt: Date;
+}
+
+export class ExpiringPantryItemDto {
+  id: string;
+  name: string;
+  location: string;
+  expiresAt: Date;
 }
 
 export class DashboardSummaryDto {
@@ -10,5 +19,8 @@ export class DashboardSummaryDto {
   activeListCount: number;
   pendingChoresCount: number;
   savedRecipesCount: number;
+  /** Pantry items expiring within a few days, including expired ones. */
+  expiringSoonCount: number;
+  expiringSoonItems: ExpiringPantryItemDto[];
   recentActivity: RecentActivityDto[];
 }
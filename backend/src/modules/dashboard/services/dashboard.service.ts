@@ -1,24 +1,42 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../../infrastructure/database/prisma/prisma.service';
+import { ACTIVE_RECORDS_FILTER } from '../../../infrastructure/database/filters/soft-delete.filter';
 import { DashboardSummaryDto, RecentActivityDto } from '../dtos';
+import {
+  EXPIRING_SOON_DAYS,
+  MAX_EXPIRING_ITEMS_IN_SUMMARY,
+} from '../../pantry/constants';
+import { SettingsService } from '../../settings/services/settings.service';
+import { TimeZoneUtils } from '../../../common/utils';
+import { AuditService } from '../../audit/services/audit.service';
+
+const RECENT_ACTIVITY_LIMIT = 10;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
 
 /**
  * Dashboard service providing aggregated data for the home screen.
  *
  * Responsibilities:
  * - Aggregate counts from multiple modules
- * - Generate recent activity feed
- * - Provide time-based greetings
+ * - Surface pantry items that are about to expire
+ * - Surface the latest entries of the household activity feed
+ * - Provide time-based greetings in the user's timezone
  */
 @Injectable()
 export class DashboardService {
   private readonly logger = new Logger(DashboardService.name);
 
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private settingsService: SettingsService,
+    private auditService: AuditService,
+  ) {}
 
   /**
    * Gets comprehensive dashboard summary for a user's household.
-   * Aggregates data from shopping lists, chores, recipes, and recent activity.
+   * Aggregates data from shopping lists, chores, recipes, the pantry and
+   * recent activity.
    *
    * @param userId - The user ID
    * @param householdId - The household ID
@@ -28,83 +46,61 @@ export class DashboardService {
     userId: string,
     householdId: string,
   ): Promise<DashboardSummaryDto> {
-    const greeting = this.getGreeting();
-
-    const [lists, chores, recipes, recentChores, recentItems] =
-      await Promise.all([
-        this.prisma.shoppingList.count({
-          where: { householdId },
-        }),
-        this.prisma.chore.count({
-          where: {
-            householdId,
-            isCompleted: false,
-          },
-        }),
-        this.prisma.recipe.count({
-          where: { householdId },
-        }),
-        this.prisma.chore.findMany({
-          where: {
-            householdId,
-            completedAt: {
-              not: null,
-            },
-          },
-          include: {
-            assignee: {
-              select: {
-                name: true,
-              },
-            },
-          },
-          orderBy: {
-            completedAt: 'desc',
-          },
-          take: 5,
-        }),
-        this.prisma.shoppingItem.findMany({
-          where: {
-            list: {
-              householdId,
-            },
-          },
-          include: {
-            list: true,
-          },
-          orderBy: {
-            createdAt: 'desc',
-          },
-          take: 5,
-        }),
-      ]);
-
-    const recentActivity: RecentActivityDto[] = [];
-
-    recentChores.forEach((chore) => {
-      if (chore.completedAt) {
-        recentActivity.push({
-          type: 'chore_completed',
-          user: chore.assignee?.name || 'Unknown',
-          item: chore.title,
-          time: this.formatTime(chore.completedAt),
-        });
-      }
-    });
+    const timeZone = await this.settingsService.resolveTimeZone(
+      userId,
+      householdId,
+    );
+    const greeting = this.getGreeting(timeZone);
+    const expiringWhere = {
+      householdId,
+      expiresAt: {
+        lte: new Date(Date.now() + EXPIRING_SOON_DAYS * MS_PER_DAY),
+      },
+      ...ACTIVE_RECORDS_FILTER,
+    };
 
-    recentItems.forEach((item) => {
-      recentActivity.push({
-        type: 'list_item_added',
-        user: 'User',
-        item: item.name,
-        time: this.formatTime(item.createdAt),
-      });
-    });
+    const [
+      lists,
+      chores,
+      recipes,
+      activity,
+      expiringSoonCount,
+      expiringSoonItems,
+    ] = await Promise.all([
+      this.prisma.shoppingList.count({
+        where: { householdId },
+      }),
+      this.prisma.chore.count({
+        where: {
+          householdId,
+          isCompleted: false,
+        },
+      }),
+      this.prisma.recipe.count({
+        where: { householdId },
+      }),
+      this.auditService.getHouseholdActivity(householdId, {
+        skip: 0,
+        take: RECENT_ACTIVITY_LIMIT,
+      }),
+      this.prisma.pantryItem.count({ where: expiringWhere }),
+      this.prisma.pantryItem.findMany({
+        where: expiringWhere,
+        select: { id: true, name: true, location: true, expiresAt: true },
+        orderBy: { expiresAt: 'asc' },
+        take: MAX_EXPIRING_ITEMS_IN_SUMMARY,
+      }),
+    ]);
 
-    recentActivity.sort((a, b) => {
-      const timeA = this.parseTime(a.time);
-      const timeB = this.parseTime(b.time);
-      return timeB.getTime() - timeA.getTime();
+    const recentActivity: RecentActivityDto[] = activity.items.map((entry) => {
+      const metadata = (entry.metadata ?? {}) as { name?: string };
+      return {
+        type: entry.action.toLowerCase(),
+        user: entry.actor?.name || 'Unknown',
+        item: metadata.name ?? '',
+        time: this.formatTime(entry.createdAt, timeZone),
+        createdAt: entry.createdAt,
+      };
     });
 
     return {
@@ -112,15 +108,22 @@ export class DashboardService {
       activeListCount: lists,
       pendingChoresCount: chores,
       savedRecipesCount: recipes,
-      recentActivity: recentActivity.slice(0, 10),
+      expiringSoonCount,
+      expiringSoonItems: expiringSoonItems.map((item) => ({
+        id: item.id,
+        name: item.name,
+        location: item.location,
+        expiresAt: item.expiresAt as Date,
+      })),
+      recentActivity,
     };
   }
 
   /**
-   * Gets time-appropriate greeting based on current hour.
+   * Gets time-appropriate greeting based on the current hour in a timezone.
    */
-  private getGreeting(): string {
-    const hour = new Date().getHours();
+  private getGreeting(timeZone: string): string {
+    const { hour } = TimeZoneUtils.getZonedParts(new Date(), timeZone);
     if (hour < 12) {
       return 'Good Morning';
     } else if (hour < 17) {
@@ -131,34 +134,15 @@ export class DashboardService {
   }
 
   /**
-   * Formats a date to time string (HH:MM AM/PM).
+   * Formats a date to time string (HH:MM AM/PM) in a timezone.
    */
-  private formatTime(date: Date): string {
-    const hours = date.getHours();
-    const minutes = date.getMinutes();
+  private formatTime(date: Date, timeZone: string): string {
+    const { hour: hours, minute: minutes } = TimeZoneUtils.getZonedParts(
+      date,
+      timeZone,
+    );
     const ampm = hours >= 12 ? 'PM' : 'AM';
     const displayHours = hours % 12 || 12;
     return `${displayHours}:${minutes.toString().padStart(2, '0')} ${ampm}`;
   }
-
-  /**
-   * Parses a time string back to a Date object for sorting.
-   */
-  private parseTime(timeString: string): Date {
-    const now = new Date();
-    const [time, ampm] = timeString.split(' ');
-    const [hours, minutes] = time.split(':');
-    let hour = parseInt(hours, 10);
-    const minute = parseInt(minutes, 10);
-
-    if (ampm === 'PM' && hour !== 12) {
-      hour += 12;
-    } else if (ampm === 'AM' && hour === 12) {
-      hour = 0;
-    }
-
-    const date = new Date(now);
-    date.setHours(hour, minute, 0, 0);
-    return date;
-  }
 }
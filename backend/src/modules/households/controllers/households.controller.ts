@@ -5,20 +5,37 @@ import {
   Delete,
   Get,
   Param,
+  Patch,
   Post,
   Put,
+  Query,
   UseGuards,
 } from '@nestjs/common';
 import { HouseholdsService } from '../services/households.service';
 import { CreateHouseholdDto } from '../dtos/create-household.dto';
-import { InviteMemberDto, UpdateHouseholdDto, JoinHouseholdDto } from '../dtos';
-import { JwtAuthGuard, HouseholdGuard } from '../../../common/guards';
-import { CurrentUser, CurrentUserPayload } from '../../../common/decorators';
+import {
+  HouseholdActivityQueryDto,
+  InviteMemberDto,
+  UpdateHouseholdDto,
+  JoinHouseholdDto,
+  UpdateMemberRoleDto,
+} from '../dtos';
+import {
+  JwtAuthGuard,
+  HouseholdGuard,
+  PermissionGuard,
+} from '../../../common/guards';
+import {
+  CurrentUser,
+  CurrentUserPayload,
+  RequirePermission,
+} from '../../../common/decorators';
+import { PERMISSIONS } from '../../../common/constants';
 
 /**
  * Households controller managing household operations and member management.
  * API Version: 1
- * All endpoints require authentication and household membership.
+ * Household-scoped endpoints act on the active household carried by the token.
  */
 @Controller({ path: 'household', version: '1' })
 export class HouseholdsController {
@@ -46,48 +63,297 @@ export class HouseholdsController {
   @Get()
   @UseGuards(JwtAuthGuard, HouseholdGuard)
   async getHousehold(@CurrentUser() user: CurrentUserPayload) {
-    return this.householdsService.getHousehold(user.userId);
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    return this.householdsService.getHousehold(user.userId, user.householdId);
+  }
+
+  /**
+   * Gets the household activity feed, newest first, with the member who
+   * made each change.
+   */
+  @Get('activity')
+  @UseGuards(JwtAuthGuard, HouseholdGuard)
+  async getActivity(
+    @CurrentUser() user: CurrentUserPayload,
+    @Query() query: HouseholdActivityQueryDto,
+  ) {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    return this.householdsService.getActivity(
+      user.userId,
+      user.householdId,
+      query,
+    );
+  }
+
+  /**
+   * Lists every household the user belongs to, marking the active one.
+   * Requires authentication but NOT household membership.
+   */
+  @Get('memberships')
+  @UseGuards(JwtAuthGuard)
+  async listMemberships(@CurrentUser() user: CurrentUserPayload) {
+    return this.householdsService.listMemberships(
+      user.userId,
+      user.householdId,
+    );
   }
 
   /**
    * Updates household settings (admin only).
    */
   @Put()
-  @UseGuards(JwtAuthGuard, HouseholdGuard)
+  @UseGuards(JwtAuthGuard, HouseholdGuard, PermissionGuard)
+  @RequirePermission(PERMISSIONS.HOUSEHOLD_MANAGE)
   async updateHousehold(
     @CurrentUser() user: CurrentUserPayload,
     @Body() dto: UpdateHouseholdDto,
   ) {
-    return this.householdsService.updateHousehold(user.userId, dto);
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    return this.householdsService.updateHousehold(
+      user.userId,
+      user.householdId,
+      dto,
+    );
   }
 
   /**
    * Invites a new member to the household (admin only).
    */
   @Post('invite')
-  @UseGuards(JwtAuthGuard, HouseholdGuard)
+  @UseGuards(JwtAuthGuard, HouseholdGuard, PermissionGuard)
+  @RequirePermission(PERMISSIONS.MEMBERS_INVITE)
   async inviteMember(
     @CurrentUser() user: CurrentUserPayload,
     @Body() dto: InviteMemberDto,
   ) {
-    return this.householdsService.inviteMember(user.userId, dto);
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    return this.householdsService.inviteMember(
+      user.userId,
+      user.householdId,
+      dto,
+    );
+  }
+
+  /**
+   * Lists the household's outstanding invites (admin only).
+   */
+  @Get('invites')
+  @UseGuards(JwtAuthGuard, HouseholdGuard, PermissionGuard)
+  @RequirePermission(PERMISSIONS.MEMBERS_INVITE)
+  async listInvites(@CurrentUser() user: CurrentUserPayload) {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    return this.householdsService.listInvites(user.userId, user.householdId);
+  }
+
+  /**
+   * Revokes an invite code (admin only).
+   */
+  @Delete('invites/:id')
+  @UseGuards(JwtAuthGuard, HouseholdGuard, PermissionGuard)
+  @RequirePermission(PERMISSIONS.MEMBERS_INVITE)
+  async revokeInvite(
+    @CurrentUser() user: CurrentUserPayload,
+    @Param('id') inviteId: string,
+  ) {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    await this.householdsService.revokeInvite(
+      user.userId,
+      user.householdId,
+      inviteId,
+    );
+    return { success: true };
+  }
+
+  /**
+   * Lists requests waiting to join the household (admin only).
+   */
+  @Get('join-requests')
+  @UseGuards(JwtAuthGuard, HouseholdGuard, PermissionGuard)
+  @RequirePermission(PERMISSIONS.MEMBERS_INVITE)
+  async listJoinRequests(@CurrentUser() user: CurrentUserPayload) {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    return this.householdsService.listJoinRequests(
+      user.userId,
+      user.householdId,
+    );
+  }
+
+  /**
+   * Lists the current user's own pending join requests.
+   * Requires authentication but NOT household membership.
+   */
+  @Get('join-requests/mine')
+  @UseGuards(JwtAuthGuard)
+  async listMyJoinRequests(@CurrentUser() user: CurrentUserPayload) {
+    return this.householdsService.listMyJoinRequests(user.userId);
+  }
+
+  /**
+   * Withdraws one of the current user's pending join requests.
+   * Requires authentication but NOT household membership.
+   */
+  @Delete('join-requests/mine/:id')
+  @UseGuards(JwtAuthGuard)
+  async cancelJoinRequest(
+    @CurrentUser() user: CurrentUserPayload,
+    @Param('id') requestId: string,
+  ) {
+    await this.householdsService.cancelJoinRequest(user.userId, requestId);
+    return { success: true };
+  }
+
+  /**
+   * Approves a join request (admin only).
+   */
+  @Post('join-requests/:id/approve')
+  @UseGuards(JwtAuthGuard, HouseholdGuard, PermissionGuard)
+  @RequirePermission(PERMISSIONS.MEMBERS_INVITE)
+  async approveJoinRequest(
+    @CurrentUser() user: CurrentUserPayload,
+    @Param('id') requestId: string,
+  ) {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    return this.householdsService.approveJoinRequest(
+      user.userId,
+      user.householdId,
+      requestId,
+    );
+  }
+
+  /**
+   * Rejects a join request (admin only).
+   */
+  @Post('join-requests/:id/reject')
+  @UseGuards(JwtAuthGuard, HouseholdGuard, PermissionGuard)
+  @RequirePermission(PERMISSIONS.MEMBERS_INVITE)
+  async rejectJoinRequest(
+    @CurrentUser() user: CurrentUserPayload,
+    @Param('id') requestId: string,
+  ) {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    await this.householdsService.rejectJoinRequest(
+      user.userId,
+      user.householdId,
+      requestId,
+    );
+    return { success: true };
   }
 
   /**
    * Removes a member from the household (admin only).
    */
   @Delete('members/:id')
-  @UseGuards(JwtAuthGuard, HouseholdGuard)
+  @UseGuards(JwtAuthGuard, HouseholdGuard, PermissionGuard)
+  @RequirePermission(PERMISSIONS.MEMBERS_REMOVE)
   async removeMember(
     @CurrentUser() user: CurrentUserPayload,
     @Param('id') memberId: string,
   ) {
-    await this.householdsService.removeMember(user.userId, memberId);
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    await this.householdsService.removeMember(
+      user.userId,
+      user.householdId,
+      memberId,
+    );
+    return { success: true };
+  }
+
+  /**
+   * Changes a member's role (admin only).
+   */
+  @Patch('members/:id/role')
+  @UseGuards(JwtAuthGuard, HouseholdGuard, PermissionGuard)
+  @RequirePermission(PERMISSIONS.MEMBERS_CHANGE_ROLE)
+  async updateMemberRole(
+    @CurrentUser() user: CurrentUserPayload,
+    @Param('id') memberId: string,
+    @Body() dto: UpdateMemberRoleDto,
+  ) {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    return this.householdsService.updateMemberRole(
+      user.userId,
+      user.householdId,
+      memberId,
+      dto.role,
+    );
+  }
+
+  /**
+   * Hands the admin role to another member (admin only).
+   */
+  @Post('members/:id/transfer-admin')
+  @UseGuards(JwtAuthGuard, HouseholdGuard, PermissionGuard)
+  @RequirePermission(PERMISSIONS.MEMBERS_CHANGE_ROLE)
+  async transferAdmin(
+    @CurrentUser() user: CurrentUserPayload,
+    @Param('id') memberId: string,
+  ) {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    return this.householdsService.transferAdmin(
+      user.userId,
+      user.householdId,
+      memberId,
+    );
+  }
+
+  /**
+   * Leaves the active household. The client should refresh its tokens
+   * afterwards to pick up the next active household.
+   */
+  @Post('leave')
+  @UseGuards(JwtAuthGuard, HouseholdGuard)
+  async leaveHousehold(@CurrentUser() user: CurrentUserPayload) {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    await this.householdsService.leaveHousehold(user.userId, user.householdId);
+    return { success: true };
+  }
+
+  /**
+   * Dissolves the active household and deletes its data (admin only).
+   */
+  @Delete()
+  @UseGuards(JwtAuthGuard, HouseholdGuard, PermissionGuard)
+  @RequirePermission(PERMISSIONS.HOUSEHOLD_MANAGE)
+  async dissolveHousehold(@CurrentUser() user: CurrentUserPayload) {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    await this.householdsService.dissolveHousehold(
+      user.userId,
+      user.householdId,
+    );
     return { success: true };
   }
 
   /**
-   * Joins a household using an invite code.
+   * Joins a household using an invite code. Households that require approval
+   * return a pending join request instead.
    * Requires authentication but NOT household membership.
    */
   @Post('join')
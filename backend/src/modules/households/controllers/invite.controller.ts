@@ -1,6 +1,7 @@
 import { Controller, Get, Query } from '@nestjs/common';
 import { HouseholdsService } from '../services/households.service';
 import { Public } from '../../../common/decorators/public.decorator';
+import { InviteValidationDto } from '../dtos';
 
 /**
  * Public invite controller for resolving invite codes before sign-in.
@@ -16,13 +17,14 @@ export class InviteController {
    * Used by unauthenticated users before Google sign-in when joining an existing household.
    *
    * @param code - The invite code (inviteToken) shared by a household member
-   * @returns householdId and householdName for display
+   * @returns householdId and householdName for display, or the reason the
+   * code can't be used (not_found, expired, revoked, exhausted)
    */
   @Get('validate')
   @Public()
   async validateInviteCode(
     @Query('code') code: string,
-  ): Promise<{ householdId: string; householdName: string }> {
+  ): Promise<InviteValidationDto> {
     return this.householdsService.validateInviteCode(code ?? '');
   }
 }
@@ -0,0 +1,22 @@
+import { PaginationDto } from '../../../common/dtos/pagination.dto';
+
+/**
+ * Query parameters for the household activity feed.
+ */
+export class HouseholdActivityQueryDto extends PaginationDto {}
+
+/**
+ * One change in the household activity feed, e.g. a member checking off a
+ * shopping item. `metadata.name` holds the entity's name at the time, so
+ * entries still read well after the entity is renamed or deleted.
+ */
+export class HouseholdActivityDto {
+  id: string;
+  action: string;
+  entityType: string;
+  entityId: string;
+  /** Null when the member's account no longer exists. */
+  actor: { id: string; name?: string; avatarUrl?: string } | null;
+  metadata: Record<string, unknown>;
+  createdAt: Date;
+}
@@ -0,0 +1,31 @@
+/**
+ * Why an invite code can't be used.
+ */
+export const INVITE_INVALID_REASONS = [
+  'not_found',
+  'expired',
+  'revoked',
+  'exhausted',
+] as const;
+
+export type InviteInvalidReason = (typeof INVITE_INVALID_REASONS)[number];
+
+export class HouseholdInviteDto {
+  id: string;
+  code: string;
+  email?: string;
+  maxUses?: number;
+  useCount: number;
+  expiresAt?: Date;
+  createdAt: Date;
+  createdBy: { id: string; name?: string };
+}
+
+export class InviteValidationDto {
+  valid: boolean;
+  reason?: InviteInvalidReason;
+  householdId?: string;
+  householdName?: string;
+  /** Joining with this code creates a request an admin must approve */
+  requiresApproval?: boolean;
+}
@@ -0,0 +1,31 @@
+import { HouseholdResponseDto } from './household-response.dto';
+
+/**
+ * Lifecycle of a request to join a household that requires approval.
+ */
+export const JOIN_REQUEST_STATUSES = [
+  'pending',
+  'approved',
+  'rejected',
+] as const;
+
+export type JoinRequestStatus = (typeof JOIN_REQUEST_STATUSES)[number];
+
+export class HouseholdJoinRequestDto {
+  id: string;
+  householdId: string;
+  householdName: string;
+  status: JoinRequestStatus;
+  createdAt: Date;
+  user: { id: string; name?: string; email?: string; avatarUrl?: string };
+}
+
+/**
+ * Result of joining with an invite code: either the user is now a member,
+ * or the household requires approval and a request is waiting for an admin.
+ */
+export class JoinHouseholdResultDto {
+  status: 'joined' | 'pending';
+  household?: HouseholdResponseDto;
+  joinRequest?: HouseholdJoinRequestDto;
+}
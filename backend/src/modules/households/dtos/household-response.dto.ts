@@ -9,5 +9,14 @@ export class HouseholdMemberDto {
 export class HouseholdResponseDto {
   id: string;
   name: string;
+  requireJoinApproval: boolean;
   members: HouseholdMemberDto[];
 }
+
+export class HouseholdMembershipDto {
+  id: string;
+  name: string;
+  role: string;
+  joinedAt: Date;
+  isActive: boolean;
+}
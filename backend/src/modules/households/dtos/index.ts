@@ -3,3 +3,7 @@ export * from './create-household.dto';
 export * from './update-household.dto';
 export * from './invite-member.dto';
 export * from './join-household.dto';
+export * from './update-member-role.dto';
+export * from './household-invite.dto';
+export * from './household-join-request.dto';
+export * from './household-activity.dto';
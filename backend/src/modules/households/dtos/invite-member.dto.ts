@@ -1,8 +1,30 @@
-import { IsString, IsEmail, IsOptional } from 'class-validator';
+import {
+  IsString,
+  IsEmail,
+  IsOptional,
+  IsInt,
+  Min,
+  Max,
+} from 'class-validator';
 
 export class InviteMemberDto {
+  /** When set, the invite code is also sent to this address. */
   @IsString()
   @IsEmail()
   @IsOptional()
   email?: string;
+
+  /** How many people can join with the code; unlimited when omitted. */
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  maxUses?: number;
+
+  /** Days until the code expires; never when omitted. */
+  @IsInt()
+  @Min(1)
+  @Max(30)
+  @IsOptional()
+  expiresInDays?: number;
 }
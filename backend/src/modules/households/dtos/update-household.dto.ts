@@ -1,9 +1,16 @@
-import { IsString, IsOptional, MinLength, MaxLength } from 'class-validator';
+import {
+  IsBoolean,
+  IsString,
+  IsOptional,
+  MinLength,
+  MaxLength,
+} from 'class-validator';
 import { Transform } from 'class-transformer';
 
 /**
  * Update payload for household settings. All fields are optional; only provided fields are updated.
  * When name is provided it must be non-empty after trim and at most 200 characters.
+ * requireJoinApproval makes invite joins wait for an admin's approval.
  */
 export class UpdateHouseholdDto {
   @IsOptional()
@@ -20,4 +27,8 @@ export class UpdateHouseholdDto {
   @IsString()
   @IsOptional()
   timezone?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  requireJoinApproval?: boolean;
 }
@@ -0,0 +1,10 @@
+import { IsIn } from 'class-validator';
+import { HOUSEHOLD_ROLES, HouseholdRole } from '../../../common/constants';
+
+/**
+ * DTO for changing a household member's role.
+ */
+export class UpdateMemberRoleDto {
+  @IsIn(HOUSEHOLD_ROLES)
+  role: HouseholdRole;
+}
@@ -5,11 +5,14 @@ import { HouseholdsService } from './services/households.service';
 import { HouseholdsRepository } from './repositories/households.repository';
 import { PrismaModule } from '../../infrastructure/database/prisma/prisma.module';
 import { AuditModule } from '../audit/audit.module';
+import { SettingsModule } from '../settings/settings.module';
+import { RealtimeModule } from '../realtime/realtime.module';
+import { EmailService } from '../auth/services/email.service';
 
 @Module({
-  imports: [PrismaModule, AuditModule],
+  imports: [PrismaModule, AuditModule, SettingsModule, RealtimeModule],
   controllers: [HouseholdsController, InviteController],
-  providers: [HouseholdsService, HouseholdsRepository],
+  providers: [HouseholdsService, HouseholdsRepository, EmailService],
   exports: [HouseholdsService],
 })
 export class HouseholdsModule {}
@@ -1,6 +1,6 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../../../infrastructure/database/prisma/prisma.service';
-import { Household, User } from '@prisma/client';
+import { Household, HouseholdMembership, Prisma, User } from '@prisma/client';
 import { ACTIVE_RECORDS_FILTER } from '../../../infrastructure/database/filters/soft-delete.filter';
 
 @Injectable()
@@ -17,9 +17,10 @@ export class HouseholdsRepository {
   }
 
   async findHouseholdWithMembers(id: string): Promise<
-    Household & {
-      users: User[];
-    }
+    | (Household & {
+        memberships: (HouseholdMembership & { user: User })[];
+      })
+    | null
   > {
     return this.prisma.household.findFirst({
       where: {
@@ -27,16 +28,75 @@ export class HouseholdsRepository {
         ...ACTIVE_RECORDS_FILTER,
       },
       include: {
-        users: {
-          orderBy: { createdAt: 'asc' },
+        memberships: {
+          include: { user: true },
+          orderBy: { joinedAt: 'asc' },
         },
       },
     });
   }
 
+  async findMembership(
+    userId: string,
+    householdId: string,
+  ): Promise<HouseholdMembership | null> {
+    return this.prisma.householdMembership.findUnique({
+      where: { userId_householdId: { userId, householdId } },
+    });
+  }
+
+  /**
+   * Lists the households a user belongs to, oldest membership first.
+   */
+  async findMembershipsForUser(
+    userId: string,
+  ): Promise<(HouseholdMembership & { household: Household })[]> {
+    return this.prisma.householdMembership.findMany({
+      where: { userId, household: ACTIVE_RECORDS_FILTER },
+      include: { household: true },
+      orderBy: { joinedAt: 'asc' },
+    });
+  }
+
+  async countMembersWithRole(
+    householdId: string,
+    role: string,
+  ): Promise<number> {
+    return this.prisma.householdMembership.count({
+      where: { householdId, role },
+    });
+  }
+
+  async countMembers(householdId: string): Promise<number> {
+    return this.prisma.householdMembership.count({
+      where: { householdId },
+    });
+  }
+
+  /**
+   * Updates a member's role, and the cached `User.role` when the household is
+   * the member's active one.
+   */
+  async updateMembershipRole(
+    userId: string,
+    householdId: string,
+    role: string,
+  ): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.householdMembership.update({
+        where: { userId_householdId: { userId, householdId } },
+        data: { role },
+      }),
+      this.prisma.user.updateMany({
+        where: { id: userId, householdId },
+        data: { role },
+      }),
+    ]);
+  }
+
   async updateHousehold(
     id: string,
-    data: { name?: string },
+    data: { name?: string; requireJoinApproval?: boolean },
   ): Promise<Household> {
     return this.prisma.household.update({
       where: { id },
@@ -50,10 +110,87 @@ export class HouseholdsRepository {
     });
   }
 
-  async removeUserFromHousehold(userId: string): Promise<void> {
-    await this.prisma.user.update({
+  /**
+   * Makes `toUserId` an admin and demotes `fromUserId` to member in a single
+   * transaction, so the household never has zero or two admins by accident.
+   */
+  async transferAdmin(
+    fromUserId: string,
+    toUserId: string,
+    householdId: string,
+  ): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.householdMembership.update({
+        where: { userId_householdId: { userId: toUserId, householdId } },
+        data: { role: 'Admin' },
+      }),
+      this.prisma.user.updateMany({
+        where: { id: toUserId, householdId },
+        data: { role: 'Admin' },
+      }),
+      this.prisma.householdMembership.update({
+        where: { userId_householdId: { userId: fromUserId, householdId } },
+        data: { role: 'Member' },
+      }),
+      this.prisma.user.updateMany({
+        where: { id: fromUserId, householdId },
+        data: { role: 'Member' },
+      }),
+    ]);
+  }
+
+  /**
+   * Deletes a membership. When it was the user's active household, the
+   * user's oldest remaining membership becomes active instead.
+   */
+  async removeUserFromHousehold(
+    userId: string,
+    householdId: string,
+  ): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      await tx.householdMembership.delete({
+        where: { userId_householdId: { userId, householdId } },
+      });
+
+      const user = await tx.user.findUnique({ where: { id: userId } });
+      if (user?.householdId === householdId) {
+        await this.activateNextMembership(tx, userId);
+      }
+    });
+  }
+
+  /**
+   * Hard-deletes a household and everything in it. Members whose active
+   * household it was fall back to their oldest remaining membership.
+   */
+  async deleteHousehold(householdId: string): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      const activeMembers = await tx.user.findMany({
+        where: { householdId },
+        select: { id: true },
+      });
+
+      await tx.household.delete({ where: { id: householdId } });
+
+      for (const member of activeMembers) {
+        await this.activateNextMembership(tx, member.id);
+      }
+    });
+  }
+
+  private async activateNextMembership(
+    tx: Prisma.TransactionClient,
+    userId: string,
+  ): Promise<void> {
+    const next = await tx.householdMembership.findFirst({
+      where: { userId, household: ACTIVE_RECORDS_FILTER },
+      orderBy: { joinedAt: 'asc' },
+    });
+    await tx.user.update({
       where: { id: userId },
-      data: { householdId: null },
+      data: next
+        ? { householdId: next.householdId, role: next.role }
+        : { householdId: null },
     });
   }
 }
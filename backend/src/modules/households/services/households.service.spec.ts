@@ -9,6 +9,9 @@ import {
 } from '@nestjs/common';
 import { DEFAULT_MAIN_SHOPPING_LIST } from '../../shopping/constants/defaults';
 import { AuditService } from '../../audit/services/audit.service';
+import { EmailService } from '../../auth/services/email.service';
+import { SettingsService } from '../../settings/services/settings.service';
+import { RealtimeService } from '../../realtime/services/realtime.service';
 
 /**
  * Households Service Unit Tests
@@ -19,6 +22,10 @@ describe('HouseholdsService', () => {
   let service: HouseholdsService;
   let prisma: PrismaService;
   let repository: HouseholdsRepository;
+  let auditService: AuditService;
+  let emailService: EmailService;
+  let settingsService: { updateHouseholdSettings: jest.Mock };
+  let realtimeService: { closeStreams: jest.Mock };
 
   const mockUserId = 'user-123';
   const mockHouseholdId = 'household-123';
@@ -28,11 +35,26 @@ describe('HouseholdsService', () => {
     const userMock = {
       findUnique: jest.fn(),
       update: jest.fn(),
+      updateMany: jest.fn(),
     };
     const householdMock = { create: jest.fn() };
+    const householdMembershipMock = {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+    };
     const householdInviteMock = {
       findUnique: jest.fn(),
+      findMany: jest.fn(),
       create: jest.fn(),
+      updateMany: jest.fn(),
+    };
+    const householdJoinRequestMock = {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
     };
     const shoppingListMock = {
       create: jest.fn().mockResolvedValue(undefined),
@@ -43,7 +65,9 @@ describe('HouseholdsService', () => {
         const tx = {
           user: userMock,
           household: householdMock,
+          householdMembership: householdMembershipMock,
           householdInvite: householdInviteMock,
+          householdJoinRequest: householdJoinRequestMock,
           shoppingList: shoppingListMock,
         };
         return fn(tx);
@@ -60,6 +84,13 @@ describe('HouseholdsService', () => {
             updateHousehold: jest.fn(),
             createHousehold: jest.fn(),
             removeUserFromHousehold: jest.fn(),
+            findMembership: jest.fn(),
+            findMembershipsForUser: jest.fn(),
+            countMembersWithRole: jest.fn(),
+            countMembers: jest.fn(),
+            updateMembershipRole: jest.fn(),
+            transferAdmin: jest.fn(),
+            deleteHousehold: jest.fn(),
           },
         },
         {
@@ -67,14 +98,40 @@ describe('HouseholdsService', () => {
           useValue: {
             user: userMock,
             household: householdMock,
+            householdMembership: householdMembershipMock,
             householdInvite: householdInviteMock,
+            householdJoinRequest: householdJoinRequestMock,
             shoppingList: shoppingListMock,
             $transaction: transactionMock,
           },
         },
         {
           provide: AuditService,
-          useValue: { logRemoveMember: jest.fn().mockResolvedValue(undefined) },
+          useValue: {
+            logRemoveMember: jest.fn().mockResolvedValue(undefined),
+            logRoleChange: jest.fn().mockResolvedValue(undefined),
+            logLeaveHousehold: jest.fn().mockResolvedValue(undefined),
+            logAdminTransfer: jest.fn().mockResolvedValue(undefined),
+            logHouseholdDeletion: jest.fn().mockResolvedValue(undefined),
+            logJoinRequestDecision: jest.fn().mockResolvedValue(undefined),
+            getHouseholdActivity: jest.fn(),
+          },
+        },
+        {
+          provide: EmailService,
+          useValue: {
+            sendHouseholdInviteEmail: jest.fn().mockResolvedValue(undefined),
+          },
+        },
+        {
+          provide: SettingsService,
+          useValue: {
+            updateHouseholdSettings: jest.fn().mockResolvedValue(undefined),
+          },
+        },
+        {
+          provide: RealtimeService,
+          useValue: { closeStreams: jest.fn() },
         },
       ],
     }).compile();
@@ -82,6 +139,10 @@ describe('HouseholdsService', () => {
     service = module.get<HouseholdsService>(HouseholdsService);
     prisma = module.get<PrismaService>(PrismaService);
     repository = module.get<HouseholdsRepository>(HouseholdsRepository);
+    auditService = module.get<AuditService>(AuditService);
+    emailService = module.get<EmailService>(EmailService);
+    settingsService = module.get(SettingsService);
+    realtimeService = module.get(RealtimeService);
   });
 
   describe('createHousehold', () => {
@@ -94,10 +155,10 @@ describe('HouseholdsService', () => {
       expect(prisma.household.create).not.toHaveBeenCalled();
     });
 
-    it('should throw ForbiddenException when user already has a household', async () => {
+    it('should create an additional household when user already has one', async () => {
       jest.spyOn(prisma.user, 'findUnique').mockResolvedValue({
         id: mockUserId,
-        householdId: mockHouseholdId,
+        householdId: 'other-household-id',
         email: 'u@example.com',
         name: 'User',
         avatarUrl: null,
@@ -105,11 +166,25 @@ describe('HouseholdsService', () => {
         createdAt: new Date(),
         updatedAt: new Date(),
       } as any);
+      jest.spyOn(prisma.household, 'create').mockResolvedValue({
+        id: mockHouseholdId,
+        name: mockHouseholdName,
+        users: [{ id: mockUserId, email: 'u@example.com', name: 'User' }],
+      } as any);
 
-      await expect(
-        service.createHousehold(mockUserId, mockHouseholdName),
-      ).rejects.toThrow(ForbiddenException);
-      expect(prisma.household.create).not.toHaveBeenCalled();
+      const result = await service.createHousehold(
+        mockUserId,
+        mockHouseholdName,
+      );
+
+      expect(prisma.householdMembership.create).toHaveBeenCalledWith({
+        data: {
+          userId: mockUserId,
+          householdId: mockHouseholdId,
+          role: 'Admin',
+        },
+      });
+      expect(result.members[0].role).toBe('Admin');
     });
 
     it('should create household and set user as Admin when user has no household', async () => {
@@ -209,6 +284,13 @@ describe('HouseholdsService', () => {
       expect(prisma.household.create).toHaveBeenCalledWith({
         data: { name: mockHouseholdName },
       });
+      expect(prisma.householdMembership.create).toHaveBeenCalledWith({
+        data: {
+          userId: mockUserId,
+          householdId: mockHouseholdId,
+          role: 'Admin',
+        },
+      });
       expect(prisma.user.update).toHaveBeenCalledWith({
         where: { id: mockUserId },
         data: { householdId: mockHouseholdId, role: 'Admin' },
@@ -338,6 +420,13 @@ describe('HouseholdsService', () => {
       expect(repository.findHouseholdById).toHaveBeenCalledWith(
         mockHouseholdId,
       );
+      expect(prisma.householdMembership.create).toHaveBeenCalledWith({
+        data: {
+          userId: mockUserId,
+          householdId: mockHouseholdId,
+          role: 'Member',
+        },
+      });
       expect(prisma.user.update).toHaveBeenCalledWith({
         where: { id: mockUserId },
         data: { householdId: mockHouseholdId, role: 'Member' },
@@ -385,13 +474,19 @@ describe('HouseholdsService', () => {
         createdAt: new Date(),
         updatedAt: new Date(),
       } as any);
+      jest.spyOn(repository, 'findMembership').mockResolvedValue({
+        userId: mockUserId,
+        householdId: mockHouseholdId,
+        role: 'Member',
+      } as any);
 
       await service.addUserToHousehold(mockHouseholdId, mockUserId);
 
+      expect(prisma.householdMembership.create).not.toHaveBeenCalled();
       expect(prisma.user.update).not.toHaveBeenCalled();
     });
 
-    it('should throw ForbiddenException when user already has a different household', async () => {
+    it('should add a further household and make it active when user already has one', async () => {
       jest.spyOn(repository, 'findHouseholdById').mockResolvedValue({
         id: mockHouseholdId,
         name: mockHouseholdName,
@@ -404,14 +499,57 @@ describe('HouseholdsService', () => {
         email: 'u@example.com',
         name: 'User',
         avatarUrl: null,
-        role: 'Member',
+        role: 'Admin',
         createdAt: new Date(),
         updatedAt: new Date(),
       } as any);
+      jest.spyOn(repository, 'findMembership').mockResolvedValue(null);
 
-      await expect(
-        service.addUserToHousehold(mockHouseholdId, mockUserId),
-      ).rejects.toThrow(ForbiddenException);
+      await service.addUserToHousehold(mockHouseholdId, mockUserId);
+
+      expect(prisma.householdMembership.create).toHaveBeenCalledWith({
+        data: {
+          userId: mockUserId,
+          householdId: mockHouseholdId,
+          role: 'Member',
+        },
+      });
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: mockUserId },
+        data: { householdId: mockHouseholdId, role: 'Member' },
+      });
+    });
+
+    it('should create a join request instead when the household requires approval', async () => {
+      jest.spyOn(repository, 'findHouseholdById').mockResolvedValue({
+        id: mockHouseholdId,
+        name: mockHouseholdName,
+        requireJoinApproval: true,
+      } as any);
+      jest
+        .spyOn(prisma.user, 'findUnique')
+        .mockResolvedValue({ id: mockUserId, householdId: null } as any);
+      jest.spyOn(repository, 'findMembership').mockResolvedValue(null);
+      jest
+        .spyOn(prisma.householdJoinRequest, 'findFirst')
+        .mockResolvedValue(null);
+      jest.spyOn(prisma.householdJoinRequest, 'upsert').mockResolvedValue({
+        id: 'request-1',
+        householdId: mockHouseholdId,
+        status: 'pending',
+        createdAt: new Date(),
+        household: { name: mockHouseholdName },
+        user: { id: mockUserId },
+      } as any);
+
+      await service.addUserToHousehold(mockHouseholdId, mockUserId);
+
+      expect(prisma.householdJoinRequest.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: { userId: mockUserId, householdId: mockHouseholdId },
+        }),
+      );
+      expect(prisma.householdMembership.create).not.toHaveBeenCalled();
       expect(prisma.user.update).not.toHaveBeenCalled();
     });
   });
@@ -439,6 +577,7 @@ describe('HouseholdsService', () => {
         include: { household: true },
       });
       expect(result).toEqual({
+        valid: true,
         householdId: mockHouseholdId,
         householdName: mockHouseholdName,
       });
@@ -457,16 +596,859 @@ describe('HouseholdsService', () => {
       },
     );
 
-    it('should throw NotFoundException when invite code is invalid or expired', async () => {
+    it('should report not_found for an unknown invite code', async () => {
       jest.spyOn(prisma.householdInvite, 'findUnique').mockResolvedValue(null);
 
-      await expect(service.validateInviteCode('UNKNOWN1')).rejects.toThrow(
-        NotFoundException,
-      );
+      await expect(service.validateInviteCode('UNKNOWN1')).resolves.toEqual({
+        valid: false,
+        reason: 'not_found',
+      });
       expect(prisma.householdInvite.findUnique).toHaveBeenCalledWith({
         where: { code: 'UNKNOWN1' },
         include: { household: true },
       });
     });
+
+    it.each([
+      ['revoked', { revokedAt: new Date() }],
+      ['expired', { expiresAt: new Date(Date.now() - 1000) }],
+      ['exhausted', { maxUses: 2, useCount: 2 }],
+    ])('should report %s invites', async (reason, overrides) => {
+      jest.spyOn(prisma.householdInvite, 'findUnique').mockResolvedValue({
+        id: 'invite-1',
+        householdId: mockHouseholdId,
+        expiresAt: null,
+        revokedAt: null,
+        maxUses: null,
+        useCount: 0,
+        household: { id: mockHouseholdId, name: mockHouseholdName },
+        ...overrides,
+      } as any);
+
+      await expect(service.validateInviteCode('ABC12XYZ')).resolves.toEqual({
+        valid: false,
+        reason,
+      });
+    });
+  });
+
+  describe('updateHousehold', () => {
+    beforeEach(() => {
+      jest.spyOn(repository, 'findMembership').mockResolvedValue({
+        userId: mockUserId,
+        householdId: mockHouseholdId,
+        role: 'Admin',
+      } as any);
+      jest.spyOn(service, 'getHousehold').mockResolvedValue({} as any);
+    });
+
+    it('should save the timezone in the household settings', async () => {
+      await service.updateHousehold(mockUserId, mockHouseholdId, {
+        timezone: 'Asia/Jerusalem',
+      });
+
+      expect(settingsService.updateHouseholdSettings).toHaveBeenCalledWith(
+        mockHouseholdId,
+        { timezone: 'Asia/Jerusalem' },
+      );
+    });
+
+    it('should leave the settings alone when no timezone is given', async () => {
+      await service.updateHousehold(mockUserId, mockHouseholdId, {
+        name: 'Renamed',
+      });
+
+      expect(settingsService.updateHouseholdSettings).not.toHaveBeenCalled();
+      expect(repository.updateHousehold).toHaveBeenCalledWith(mockHouseholdId, {
+        name: 'Renamed',
+        requireJoinApproval: undefined,
+      });
+    });
+  });
+
+  describe('inviteMember', () => {
+    const createdInvite = {
+      household: { name: mockHouseholdName },
+      creator: { name: 'Dana' },
+    };
+
+    beforeEach(() => {
+      jest
+        .spyOn(repository, 'findMembership')
+        .mockResolvedValue({ role: 'Admin' } as any);
+      jest
+        .spyOn(prisma.householdInvite, 'create')
+        .mockResolvedValue(createdInvite as any);
+    });
+
+    it('should store usage limit and expiry and email the code', async () => {
+      const result = await service.inviteMember(mockUserId, mockHouseholdId, {
+        email: 'friend@example.com',
+        maxUses: 1,
+        expiresInDays: 7,
+      });
+
+      expect(prisma.householdInvite.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            code: result.inviteToken,
+            email: 'friend@example.com',
+            maxUses: 1,
+            expiresAt: expect.any(Date),
+          }),
+        }),
+      );
+      expect(emailService.sendHouseholdInviteEmail).toHaveBeenCalledWith(
+        'friend@example.com',
+        result.inviteToken,
+        mockHouseholdName,
+        'Dana',
+      );
+    });
+
+    it('should not send an email for code-only invites', async () => {
+      await service.inviteMember(mockUserId, mockHouseholdId, {});
+
+      expect(emailService.sendHouseholdInviteEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getActivity', () => {
+    it('should return a page of activity with the acting member', async () => {
+      jest
+        .spyOn(repository, 'findMembership')
+        .mockResolvedValue({ role: 'Member' } as any);
+      const createdAt = new Date('2026-10-01T08:00:00Z');
+      (auditService.getHouseholdActivity as jest.Mock).mockResolvedValue({
+        items: [
+          {
+            id: 'log-1',
+            userId: 'user-2',
+            householdId: mockHouseholdId,
+            action: 'CHECK_LIST_ITEM',
+            entityType: 'SHOPPING_ITEM',
+            entityId: 'item-1',
+            metadata: { name: 'Milk' },
+            createdAt,
+            actor: { id: 'user-2', name: 'Dana', avatarUrl: null },
+          },
+          {
+            id: 'log-2',
+            userId: null,
+            householdId: mockHouseholdId,
+            action: 'CREATE_CHORE',
+            entityType: 'CHORE',
+            entityId: 'chore-1',
+            metadata: null,
+            createdAt,
+            actor: null,
+          },
+        ],
+        total: 12,
+      });
+
+      const result = await service.getActivity(mockUserId, mockHouseholdId, {
+        page: 2,
+        limit: 10,
+      });
+
+      expect(auditService.getHouseholdActivity).toHaveBeenCalledWith(
+        mockHouseholdId,
+        { skip: 10, take: 10 },
+      );
+      expect(result).toMatchObject({ page: 2, total: 12, totalPages: 2 });
+      expect(result.data).toEqual([
+        {
+          id: 'log-1',
+          action: 'CHECK_LIST_ITEM',
+          entityType: 'SHOPPING_ITEM',
+          entityId: 'item-1',
+          actor: { id: 'user-2', name: 'Dana', avatarUrl: undefined },
+          metadata: { name: 'Milk' },
+          createdAt,
+        },
+        {
+          id: 'log-2',
+          action: 'CREATE_CHORE',
+          entityType: 'CHORE',
+          entityId: 'chore-1',
+          actor: null,
+          metadata: {},
+          createdAt,
+        },
+      ]);
+    });
+
+    it('should throw NotFoundException for non-members', async () => {
+      jest.spyOn(repository, 'findMembership').mockResolvedValue(null);
+
+      await expect(
+        service.getActivity(mockUserId, mockHouseholdId, {}),
+      ).rejects.toThrow(NotFoundException);
+      expect(auditService.getHouseholdActivity).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listInvites', () => {
+    it('should list only invites that can still be used', async () => {
+      jest
+        .spyOn(repository, 'findMembership')
+        .mockResolvedValue({ role: 'Admin' } as any);
+      const createdAt = new Date('2026-10-01T00:00:00Z');
+      const base = {
+        householdId: mockHouseholdId,
+        email: null,
+        expiresAt: null,
+        revokedAt: null,
+        maxUses: null,
+        useCount: 0,
+        createdAt,
+        creator: { id: mockUserId, name: 'Dana' },
+      };
+      jest.spyOn(prisma.householdInvite, 'findMany').mockResolvedValue([
+        { ...base, id: 'invite-1', code: 'AAAA1111', maxUses: 3, useCount: 1 },
+        { ...base, id: 'invite-2', code: 'BBBB2222', maxUses: 1, useCount: 1 },
+      ] as any);
+
+      const result = await service.listInvites(mockUserId, mockHouseholdId);
+
+      expect(prisma.householdInvite.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { householdId: mockHouseholdId, revokedAt: null },
+        }),
+      );
+      expect(result).toEqual([
+        {
+          id: 'invite-1',
+          code: 'AAAA1111',
+          email: undefined,
+          maxUses: 3,
+          useCount: 1,
+          expiresAt: undefined,
+          createdAt,
+          createdBy: { id: mockUserId, name: 'Dana' },
+        },
+      ]);
+    });
+
+    it('should throw ForbiddenException for non-admins', async () => {
+      jest
+        .spyOn(repository, 'findMembership')
+        .mockResolvedValue({ role: 'Member' } as any);
+
+      await expect(
+        service.listInvites(mockUserId, mockHouseholdId),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('revokeInvite', () => {
+    beforeEach(() => {
+      jest
+        .spyOn(repository, 'findMembership')
+        .mockResolvedValue({ role: 'Admin' } as any);
+    });
+
+    it('should mark the invite as revoked', async () => {
+      jest
+        .spyOn(prisma.householdInvite, 'updateMany')
+        .mockResolvedValue({ count: 1 });
+
+      await service.revokeInvite(mockUserId, mockHouseholdId, 'invite-1');
+
+      expect(prisma.householdInvite.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'invite-1',
+          householdId: mockHouseholdId,
+          revokedAt: null,
+        },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+
+    it('should throw NotFoundException for unknown or already revoked invites', async () => {
+      jest
+        .spyOn(prisma.householdInvite, 'updateMany')
+        .mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.revokeInvite(mockUserId, mockHouseholdId, 'invite-1'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('joinHousehold', () => {
+    const invite = {
+      id: 'invite-1',
+      householdId: mockHouseholdId,
+      expiresAt: null,
+      revokedAt: null,
+      maxUses: 1,
+      useCount: 0,
+      household: {
+        id: mockHouseholdId,
+        name: mockHouseholdName,
+        requireJoinApproval: false,
+      },
+    };
+
+    it('should reject an invite that was revoked', async () => {
+      jest
+        .spyOn(prisma.householdInvite, 'findUnique')
+        .mockResolvedValue({ ...invite, revokedAt: new Date() } as any);
+
+      await expect(
+        service.joinHousehold(mockUserId, 'ABC12XYZ'),
+      ).rejects.toThrow('Invite code has been revoked');
+    });
+
+    it('should reject the join when the last use was taken concurrently', async () => {
+      jest
+        .spyOn(prisma.householdInvite, 'findUnique')
+        .mockResolvedValue(invite as any);
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+        id: mockUserId,
+      });
+      (prisma.householdMembership.findUnique as jest.Mock).mockResolvedValue(
+        null,
+      );
+      jest
+        .spyOn(prisma.householdInvite, 'updateMany')
+        .mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.joinHousehold(mockUserId, 'ABC12XYZ'),
+      ).rejects.toThrow('Invite code has reached its usage limit');
+      expect(prisma.householdInvite.updateMany).toHaveBeenCalledWith({
+        where: { id: 'invite-1', revokedAt: null, useCount: { lt: 1 } },
+        data: { useCount: { increment: 1 } },
+      });
+      expect(prisma.householdMembership.create).not.toHaveBeenCalled();
+    });
+
+    it('should create a pending join request when the household requires approval', async () => {
+      const createdAt = new Date('2026-03-01T00:00:00.000Z');
+      jest.spyOn(prisma.householdInvite, 'findUnique').mockResolvedValue({
+        ...invite,
+        household: { ...invite.household, requireJoinApproval: true },
+      } as any);
+      jest.spyOn(repository, 'findMembership').mockResolvedValue(null);
+      jest
+        .spyOn(prisma.householdJoinRequest, 'findFirst')
+        .mockResolvedValue(null);
+      jest
+        .spyOn(prisma.householdInvite, 'updateMany')
+        .mockResolvedValue({ count: 1 });
+      jest.spyOn(prisma.householdJoinRequest, 'upsert').mockResolvedValue({
+        id: 'request-1',
+        householdId: mockHouseholdId,
+        userId: mockUserId,
+        status: 'pending',
+        createdAt,
+        household: { id: mockHouseholdId, name: mockHouseholdName },
+        user: { id: mockUserId, name: 'Dana', email: null, avatarUrl: null },
+      } as any);
+
+      const result = await service.joinHousehold(mockUserId, 'ABC12XYZ');
+
+      expect(result).toEqual({
+        status: 'pending',
+        joinRequest: {
+          id: 'request-1',
+          householdId: mockHouseholdId,
+          householdName: mockHouseholdName,
+          status: 'pending',
+          createdAt,
+          user: {
+            id: mockUserId,
+            name: 'Dana',
+            email: undefined,
+            avatarUrl: undefined,
+          },
+        },
+      });
+      expect(prisma.householdInvite.updateMany).toHaveBeenCalled();
+      expect(prisma.householdMembership.create).not.toHaveBeenCalled();
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should return the waiting request instead of asking twice', async () => {
+      jest.spyOn(prisma.householdInvite, 'findUnique').mockResolvedValue({
+        ...invite,
+        household: { ...invite.household, requireJoinApproval: true },
+      } as any);
+      jest.spyOn(repository, 'findMembership').mockResolvedValue(null);
+      jest.spyOn(prisma.householdJoinRequest, 'findFirst').mockResolvedValue({
+        id: 'request-1',
+        householdId: mockHouseholdId,
+        status: 'pending',
+        createdAt: new Date(),
+        household: { id: mockHouseholdId, name: mockHouseholdName },
+        user: { id: mockUserId },
+      } as any);
+
+      const result = await service.joinHousehold(mockUserId, 'ABC12XYZ');
+
+      expect(result.status).toBe('pending');
+      expect(result.joinRequest?.id).toBe('request-1');
+      expect(prisma.householdInvite.updateMany).not.toHaveBeenCalled();
+      expect(prisma.householdJoinRequest.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('join requests', () => {
+    const pendingRequest = {
+      id: 'request-1',
+      householdId: mockHouseholdId,
+      userId: 'requester-1',
+      inviteId: 'invite-1',
+      status: 'pending',
+    };
+
+    it('should forbid members from reviewing join requests', async () => {
+      jest
+        .spyOn(repository, 'findMembership')
+        .mockResolvedValue({ role: 'Member' } as any);
+
+      await expect(
+        service.listJoinRequests(mockUserId, mockHouseholdId),
+      ).rejects.toThrow(ForbiddenException);
+      await expect(
+        service.approveJoinRequest(mockUserId, mockHouseholdId, 'request-1'),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should add the requester as a member when approved', async () => {
+      jest
+        .spyOn(repository, 'findMembership')
+        .mockResolvedValue({ role: 'Admin' } as any);
+      jest
+        .spyOn(prisma.householdJoinRequest, 'findFirst')
+        .mockResolvedValue(pendingRequest as any);
+      jest
+        .spyOn(prisma.householdJoinRequest, 'updateMany')
+        .mockResolvedValue({ count: 1 });
+      jest.spyOn(repository, 'findHouseholdWithMembers').mockResolvedValue({
+        id: mockHouseholdId,
+        name: mockHouseholdName,
+        requireJoinApproval: true,
+        memberships: [],
+      } as any);
+
+      await service.approveJoinRequest(
+        mockUserId,
+        mockHouseholdId,
+        'request-1',
+      );
+
+      expect(prisma.householdJoinRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: 'request-1', status: 'pending' },
+        data: expect.objectContaining({
+          status: 'approved',
+          decidedById: mockUserId,
+        }),
+      });
+      expect(prisma.householdMembership.upsert).toHaveBeenCalledWith({
+        where: {
+          userId_householdId: {
+            userId: 'requester-1',
+            householdId: mockHouseholdId,
+          },
+        },
+        create: {
+          userId: 'requester-1',
+          householdId: mockHouseholdId,
+          role: 'Member',
+        },
+        update: {},
+      });
+      // Only requesters without an active household switch to this one
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'requester-1', householdId: null },
+        data: {
+          householdId: mockHouseholdId,
+          role: 'Member',
+          joinedViaInviteId: 'invite-1',
+        },
+      });
+      expect(auditService.logJoinRequestDecision).toHaveBeenCalledWith(
+        mockUserId,
+        mockHouseholdId,
+        { requestId: 'request-1', requesterId: 'requester-1', approved: true },
+      );
+    });
+
+    it('should not add a member when the request was decided meanwhile', async () => {
+      jest
+        .spyOn(repository, 'findMembership')
+        .mockResolvedValue({ role: 'Admin' } as any);
+      jest
+        .spyOn(prisma.householdJoinRequest, 'findFirst')
+        .mockResolvedValue(pendingRequest as any);
+      jest
+        .spyOn(prisma.householdJoinRequest, 'updateMany')
+        .mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.approveJoinRequest(mockUserId, mockHouseholdId, 'request-1'),
+      ).rejects.toThrow('Join request not found');
+      expect(prisma.householdMembership.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should reject a pending request', async () => {
+      jest
+        .spyOn(repository, 'findMembership')
+        .mockResolvedValue({ role: 'Admin' } as any);
+      jest
+        .spyOn(prisma.householdJoinRequest, 'findFirst')
+        .mockResolvedValue(pendingRequest as any);
+      jest
+        .spyOn(prisma.householdJoinRequest, 'updateMany')
+        .mockResolvedValue({ count: 1 });
+
+      await service.rejectJoinRequest(mockUserId, mockHouseholdId, 'request-1');
+
+      expect(prisma.householdJoinRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: 'request-1', status: 'pending' },
+        data: expect.objectContaining({ status: 'rejected' }),
+      });
+      expect(prisma.householdMembership.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown request', async () => {
+      jest
+        .spyOn(repository, 'findMembership')
+        .mockResolvedValue({ role: 'Admin' } as any);
+      jest
+        .spyOn(prisma.householdJoinRequest, 'findFirst')
+        .mockResolvedValue(null);
+
+      await expect(
+        service.rejectJoinRequest(mockUserId, mockHouseholdId, 'missing'),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should only let requesters cancel their own pending request', async () => {
+      jest
+        .spyOn(prisma.householdJoinRequest, 'deleteMany')
+        .mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.cancelJoinRequest('someone-else', 'request-1'),
+      ).rejects.toThrow(NotFoundException);
+      expect(prisma.householdJoinRequest.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'request-1', userId: 'someone-else', status: 'pending' },
+      });
+    });
+  });
+
+  describe('listMemberships', () => {
+    it('should list households with the role held and mark the active one', async () => {
+      const joinedAt = new Date('2026-01-01T00:00:00.000Z');
+      jest.spyOn(repository, 'findMembershipsForUser').mockResolvedValue([
+        {
+          householdId: mockHouseholdId,
+          role: 'Admin',
+          joinedAt,
+          household: { id: mockHouseholdId, name: mockHouseholdName },
+        },
+        {
+          householdId: 'parents-household',
+          role: 'Member',
+          joinedAt,
+          household: { id: 'parents-household', name: 'Parents' },
+        },
+      ] as any);
+
+      const result = await service.listMemberships(
+        mockUserId,
+        'parents-household',
+      );
+
+      expect(result).toEqual([
+        {
+          id: mockHouseholdId,
+          name: mockHouseholdName,
+          role: 'Admin',
+          joinedAt,
+          isActive: false,
+        },
+        {
+          id: 'parents-household',
+          name: 'Parents',
+          role: 'Member',
+          joinedAt,
+          isActive: true,
+        },
+      ]);
+    });
+  });
+
+  describe('removeMember', () => {
+    it('should remove the membership of the token household', async () => {
+      jest
+        .spyOn(repository, 'findMembership')
+        .mockResolvedValueOnce({ role: 'Admin' } as any)
+        .mockResolvedValueOnce({ role: 'Member' } as any);
+
+      await service.removeMember(mockUserId, mockHouseholdId, 'member-456');
+
+      expect(repository.removeUserFromHousehold).toHaveBeenCalledWith(
+        'member-456',
+        mockHouseholdId,
+      );
+      expect(realtimeService.closeStreams).toHaveBeenCalledWith(
+        mockHouseholdId,
+        'member-456',
+      );
+    });
+
+    it('should throw NotFoundException when the user is not a member of the household', async () => {
+      jest.spyOn(repository, 'findMembership').mockResolvedValue(null);
+
+      await expect(
+        service.removeMember(mockUserId, mockHouseholdId, 'member-456'),
+      ).rejects.toThrow(NotFoundException);
+      expect(repository.removeUserFromHousehold).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateMemberRole', () => {
+    const memberId = 'member-456';
+    const adminMembership = {
+      userId: mockUserId,
+      householdId: mockHouseholdId,
+      role: 'Admin',
+    };
+    const memberUser = {
+      id: memberId,
+      email: 'kid@example.com',
+      name: 'Kid',
+      avatarUrl: null,
+    };
+
+    it('should change the member role and record it', async () => {
+      jest
+        .spyOn(repository, 'findMembership')
+        .mockResolvedValueOnce(adminMembership as any)
+        .mockResolvedValueOnce({ ...adminMembership, role: 'Member' } as any);
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(memberUser);
+
+      const result = await service.updateMemberRole(
+        mockUserId,
+        mockHouseholdId,
+        memberId,
+        'Kid',
+      );
+
+      expect(repository.updateMembershipRole).toHaveBeenCalledWith(
+        memberId,
+        mockHouseholdId,
+        'Kid',
+      );
+      expect(result).toEqual({ ...memberUser, role: 'Kid' });
+    });
+
+    it('should throw ForbiddenException when the user is not an admin', async () => {
+      jest
+        .spyOn(repository, 'findMembership')
+        .mockResolvedValueOnce({ ...adminMembership, role: 'Member' } as any);
+
+      await expect(
+        service.updateMemberRole(mockUserId, mockHouseholdId, memberId, 'Kid'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(repository.updateMembershipRole).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException when the member is not in the household', async () => {
+      jest
+        .spyOn(repository, 'findMembership')
+        .mockResolvedValueOnce(adminMembership as any)
+        .mockResolvedValueOnce(null);
+
+      await expect(
+        service.updateMemberRole(mockUserId, mockHouseholdId, memberId, 'Kid'),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should not demote the last admin', async () => {
+      jest
+        .spyOn(repository, 'findMembership')
+        .mockResolvedValueOnce(adminMembership as any);
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+        ...memberUser,
+        id: mockUserId,
+      });
+      jest.spyOn(repository, 'countMembersWithRole').mockResolvedValue(1);
+
+      await expect(
+        service.updateMemberRole(
+          mockUserId,
+          mockHouseholdId,
+          mockUserId,
+          'Member',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(repository.updateMembershipRole).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('leaveHousehold', () => {
+    it('should remove the membership and record it', async () => {
+      jest
+        .spyOn(repository, 'findMembership')
+        .mockResolvedValue({ role: 'Member' } as any);
+
+      await service.leaveHousehold(mockUserId, mockHouseholdId);
+
+      expect(auditService.logLeaveHousehold).toHaveBeenCalledWith(
+        mockUserId,
+        mockHouseholdId,
+      );
+      expect(repository.removeUserFromHousehold).toHaveBeenCalledWith(
+        mockUserId,
+        mockHouseholdId,
+      );
+      expect(realtimeService.closeStreams).toHaveBeenCalledWith(
+        mockHouseholdId,
+        mockUserId,
+      );
+    });
+
+    it('should let an admin leave while another admin remains', async () => {
+      jest
+        .spyOn(repository, 'findMembership')
+        .mockResolvedValue({ role: 'Admin' } as any);
+      jest.spyOn(repository, 'countMembersWithRole').mockResolvedValue(2);
+
+      await service.leaveHousehold(mockUserId, mockHouseholdId);
+
+      expect(repository.removeUserFromHousehold).toHaveBeenCalled();
+    });
+
+    it.each([
+      [3, 'Transfer the admin role to another member before leaving'],
+      [1, 'You are the only member; dissolve the household instead'],
+    ])(
+      'should not let the last admin leave a household of %i',
+      async (memberCount, message) => {
+        jest
+          .spyOn(repository, 'findMembership')
+          .mockResolvedValue({ role: 'Admin' } as any);
+        jest.spyOn(repository, 'countMembersWithRole').mockResolvedValue(1);
+        jest.spyOn(repository, 'countMembers').mockResolvedValue(memberCount);
+
+        await expect(
+          service.leaveHousehold(mockUserId, mockHouseholdId),
+        ).rejects.toThrow(message);
+        expect(repository.removeUserFromHousehold).not.toHaveBeenCalled();
+      },
+    );
+
+    it('should throw NotFoundException when the user is not a member', async () => {
+      jest.spyOn(repository, 'findMembership').mockResolvedValue(null);
+
+      await expect(
+        service.leaveHousehold(mockUserId, mockHouseholdId),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('transferAdmin', () => {
+    const memberId = 'member-456';
+
+    it('should swap roles, record it and return the household', async () => {
+      jest
+        .spyOn(repository, 'findMembership')
+        .mockResolvedValueOnce({ role: 'Admin' } as any)
+        .mockResolvedValueOnce({ role: 'Member' } as any)
+        .mockResolvedValueOnce({ role: 'Member' } as any);
+      jest.spyOn(repository, 'findHouseholdWithMembers').mockResolvedValue({
+        id: mockHouseholdId,
+        name: mockHouseholdName,
+        memberships: [],
+      } as any);
+
+      const result = await service.transferAdmin(
+        mockUserId,
+        mockHouseholdId,
+        memberId,
+      );
+
+      expect(repository.transferAdmin).toHaveBeenCalledWith(
+        mockUserId,
+        memberId,
+        mockHouseholdId,
+      );
+      expect(auditService.logAdminTransfer).toHaveBeenCalledWith(
+        mockUserId,
+        mockHouseholdId,
+        { memberId, previousRole: 'Member' },
+      );
+      expect(result.id).toBe(mockHouseholdId);
+    });
+
+    it('should throw ForbiddenException when the user is not an admin', async () => {
+      jest
+        .spyOn(repository, 'findMembership')
+        .mockResolvedValue({ role: 'Member' } as any);
+
+      await expect(
+        service.transferAdmin(mockUserId, mockHouseholdId, memberId),
+      ).rejects.toThrow(ForbiddenException);
+      expect(repository.transferAdmin).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException when transferring to yourself', async () => {
+      jest
+        .spyOn(repository, 'findMembership')
+        .mockResolvedValue({ role: 'Admin' } as any);
+
+      await expect(
+        service.transferAdmin(mockUserId, mockHouseholdId, mockUserId),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw NotFoundException when the member is not in the household', async () => {
+      jest
+        .spyOn(repository, 'findMembership')
+        .mockResolvedValueOnce({ role: 'Admin' } as any)
+        .mockResolvedValueOnce(null);
+
+      await expect(
+        service.transferAdmin(mockUserId, mockHouseholdId, memberId),
+      ).rejects.toThrow(NotFoundException);
+      expect(repository.transferAdmin).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dissolveHousehold', () => {
+    it('should record and delete the household', async () => {
+      jest
+        .spyOn(repository, 'findMembership')
+        .mockResolvedValue({ role: 'Admin' } as any);
+
+      await service.dissolveHousehold(mockUserId, mockHouseholdId);
+
+      expect(auditService.logHouseholdDeletion).toHaveBeenCalledWith(
+        mockHouseholdId,
+        { userId: mockUserId, reason: 'dissolved' },
+      );
+      expect(repository.deleteHousehold).toHaveBeenCalledWith(mockHouseholdId);
+      expect(realtimeService.closeStreams).toHaveBeenCalledWith(
+        mockHouseholdId,
+      );
+    });
+
+    it('should throw ForbiddenException when the user is not an admin', async () => {
+      jest
+        .spyOn(repository, 'findMembership')
+        .mockResolvedValue({ role: 'Member' } as any);
+
+      await expect(
+        service.dissolveHousehold(mockUserId, mockHouseholdId),
+      ).rejects.toThrow(ForbiddenException);
+      expect(repository.deleteHousehold).not.toHaveBeenCalled();
+    });
   });
 });
@@ -7,23 +7,72 @@ import {
 } from '@nestjs/common';
 import { HouseholdsRepository } from '../repositories/households.repository';
 import { PrismaService } from '../../../infrastructure/database/prisma/prisma.service';
+import {
+  Household,
+  HouseholdInvite,
+  HouseholdJoinRequest,
+  HouseholdMembership,
+  Prisma,
+  User,
+} from '@prisma/client';
 import { AuditService } from '../../audit/services/audit.service';
+import { EmailService } from '../../auth/services/email.service';
+import { SettingsService } from '../../settings/services/settings.service';
+import { RealtimeService } from '../../realtime/services/realtime.service';
 import {
+  HouseholdActivityDto,
+  HouseholdActivityQueryDto,
+  HouseholdInviteDto,
+  HouseholdJoinRequestDto,
+  HouseholdMemberDto,
+  JoinHouseholdResultDto,
+  JoinRequestStatus,
+  InviteInvalidReason,
+  InviteValidationDto,
+  HouseholdMembershipDto,
   HouseholdResponseDto,
   UpdateHouseholdDto,
   InviteMemberDto,
 } from '../dtos';
 import { DEFAULT_MAIN_SHOPPING_LIST } from '../../shopping/constants/defaults';
+import { PaginatedResponse } from '../../../common/dtos/pagination.dto';
 import { HouseholdUtils } from '../../../common/utils/household.utils';
+import {
+  HouseholdRole,
+  PERMISSIONS,
+  hasPermission,
+} from '../../../common/constants';
+
+const INVITE_INVALID_MESSAGES: Record<InviteInvalidReason, string> = {
+  not_found: 'Invite code is invalid or expired',
+  expired: 'Invite code has expired',
+  revoked: 'Invite code has been revoked',
+  exhausted: 'Invite code has reached its usage limit',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type JoinRequestWithRelations = HouseholdJoinRequest & {
+  household: Household;
+  user: User;
+};
 
 /**
  * Household service managing household operations and member management.
  *
+ * A user can belong to several households. `HouseholdMembership` holds each
+ * membership and its role; `User.householdId`/`User.role` mirror the active
+ * one, which is what new tokens carry.
+ *
  * Responsibilities:
  * - Retrieve household information with members
+ * - List a user's households
+ * - Household activity feed (who changed what, newest first)
  * - Update household settings (admin only)
- * - Invite new members (admin only)
- * - Remove household members (admin only)
+ * - Invite new members, list and revoke invites (admin only)
+ * - Approve or reject join requests when the household requires approval
+ * - Remove household members and change their roles (admin only)
+ * - Leave a household, hand over the admin role, or dissolve it
  */
 @Injectable()
 export class HouseholdsService {
@@ -33,52 +82,112 @@ export class HouseholdsService {
     private householdsRepository: HouseholdsRepository,
     private prisma: PrismaService,
     private auditService: AuditService,
+    private emailService: EmailService,
+    private settingsService: SettingsService,
+    private realtimeService: RealtimeService,
   ) {}
 
   /**
-   * Gets the household for a user with all members.
+   * Gets a household the user belongs to, with all members.
    *
    * @param userId - The user ID
+   * @param householdId - The household ID (the active household from the token)
    * @returns Household details with member list
-   * @throws NotFoundException if user doesn't belong to a household
+   * @throws NotFoundException if user doesn't belong to the household
    */
-  async getHousehold(userId: string): Promise<HouseholdResponseDto> {
-    const user = await this.prisma.user.findUnique({
-      where: { id: userId },
-      include: {
-        household: {
-          include: {
-            users: {
-              orderBy: { createdAt: 'asc' },
-            },
-          },
-        },
-      },
-    });
-
-    if (!user) {
-      throw new NotFoundException('User not found');
-    }
+  async getHousehold(
+    userId: string,
+    householdId: string,
+  ): Promise<HouseholdResponseDto> {
+    await this.requireMembership(userId, householdId);
 
-    if (!user.householdId) {
-      throw new NotFoundException('User does not belong to a household');
+    const household =
+      await this.householdsRepository.findHouseholdWithMembers(householdId);
+    if (!household) {
+      throw new NotFoundException('Household not found');
     }
 
     return {
-      id: user.household.id,
-      name: user.household.name,
-      members: user.household.users.map((member) => ({
-        id: member.id,
-        email: member.email,
-        name: member.name,
-        avatarUrl: member.avatarUrl,
-        role: member.role,
+      id: household.id,
+      name: household.name,
+      requireJoinApproval: household.requireJoinApproval,
+      members: household.memberships.map((membership) => ({
+        id: membership.user.id,
+        email: membership.user.email,
+        name: membership.user.name,
+        avatarUrl: membership.user.avatarUrl,
+        role: membership.role,
       })),
     };
   }
 
   /**
-   * Creates a new household for a user.
+   * Lists every household the user belongs to.
+   *
+   * @param userId - The user ID
+   * @param activeHouseholdId - The household the current token is scoped to
+   * @returns Households with the user's role in each
+   */
+  async listMemberships(
+    userId: string,
+    activeHouseholdId: string | null,
+  ): Promise<HouseholdMembershipDto[]> {
+    const memberships =
+      await this.householdsRepository.findMembershipsForUser(userId);
+
+    return memberships.map((membership) => ({
+      id: membership.household.id,
+      name: membership.household.name,
+      role: membership.role,
+      joinedAt: membership.joinedAt,
+      isActive: membership.householdId === activeHouseholdId,
+    }));
+  }
+
+  /**
+   * Gets a page of the household activity feed: lists, items, recipes and
+   * chores members created or changed, and membership changes, newest first.
+   *
+   * @param userId - The user ID
+   * @param householdId - The household ID (the active household from the token)
+   * @param query - Page and page size
+   * @returns Paginated activity with the member who acted
+   * @throws NotFoundException if user doesn't belong to the household
+   */
+  async getActivity(
+    userId: string,
+    householdId: string,
+    query: HouseholdActivityQueryDto,
+  ): Promise<PaginatedResponse<HouseholdActivityDto>> {
+    await this.requireMembership(userId, householdId);
+
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 10;
+    const { items, total } = await this.auditService.getHouseholdActivity(
+      householdId,
+      { skip: (page - 1) * limit, take: limit },
+    );
+
+    const data = items.map((entry) => ({
+      id: entry.id,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      actor: entry.actor && {
+        id: entry.actor.id,
+        name: entry.actor.name ?? undefined,
+        avatarUrl: entry.actor.avatarUrl ?? undefined,
+      },
+      metadata: (entry.metadata ?? {}) as Record<string, unknown>,
+      createdAt: entry.createdAt,
+    }));
+
+    return new PaginatedResponse(data, page, limit, total);
+  }
+
+  /**
+   * Creates a new household for a user and makes it their active household.
+   * Users who already belong to households keep those memberships.
    *
    * @param userId - The user ID
    * @param name - Household name
@@ -92,8 +201,6 @@ export class HouseholdsService {
       where: { id: userId },
     });
     if (!user) throw new NotFoundException('User not found');
-    if (user.householdId)
-      throw new ForbiddenException('User already has a household');
 
     // Use transaction to ensure atomicity
     const result = await this.prisma.$transaction(async (tx) => {
@@ -111,21 +218,16 @@ export class HouseholdsService {
       });
 
       // Update user to be Admin
+      await tx.householdMembership.create({
+        data: { userId, householdId: household.id, role: 'Admin' },
+      });
       await tx.user.update({
         where: { id: userId },
         data: { role: 'Admin' },
       });
 
       // Create default main shopping list
-      await tx.shoppingList.create({
-        data: {
-          householdId: household.id,
-          name: DEFAULT_MAIN_SHOPPING_LIST.NAME,
-          color: DEFAULT_MAIN_SHOPPING_LIST.COLOR,
-          icon: DEFAULT_MAIN_SHOPPING_LIST.ICON,
-          isMain: true,
-        },
-      });
+      await this.createMainShoppingList(tx, household.id);
 
       return household;
     });
@@ -133,12 +235,13 @@ export class HouseholdsService {
     return {
       id: result.id,
       name: result.name,
+      requireJoinApproval: result.requireJoinApproval,
       members: result.users.map((member) => ({
         id: member.id,
         email: member.email,
         name: member.name,
         avatarUrl: member.avatarUrl,
-        role: member.role ?? 'Admin',
+        role: 'Admin',
       })),
     };
   }
@@ -168,20 +271,15 @@ export class HouseholdsService {
         data: householdId ? { id: householdId, name } : { name },
       });
 
+      await tx.householdMembership.create({
+        data: { userId, householdId: createdHousehold.id, role: 'Admin' },
+      });
       await tx.user.update({
         where: { id: userId },
         data: { householdId: createdHousehold.id, role: 'Admin' },
       });
 
-      await tx.shoppingList.create({
-        data: {
-          householdId: createdHousehold.id,
-          name: DEFAULT_MAIN_SHOPPING_LIST.NAME,
-          color: DEFAULT_MAIN_SHOPPING_LIST.COLOR,
-          icon: DEFAULT_MAIN_SHOPPING_LIST.ICON,
-          isMain: true,
-        },
-      });
+      await this.createMainShoppingList(tx, createdHousehold.id);
 
       return createdHousehold;
     });
@@ -190,13 +288,14 @@ export class HouseholdsService {
   }
 
   /**
-   * Adds an existing user to an existing household (e.g. join during auth).
+   * Adds an existing user to an existing household (e.g. join during auth)
+   * and makes it their active household. When the household requires
+   * approval, a pending join request is created instead.
    * No-op if user is already a member of this household (idempotent).
    *
    * @param householdId - The household to join
    * @param userId - The user ID to add as Member
    * @throws NotFoundException if household or user not found
-   * @throws ForbiddenException if user already belongs to a different household
    */
   async addUserToHousehold(householdId: string, userId: string): Promise<void> {
     const household =
@@ -207,39 +306,49 @@ export class HouseholdsService {
       where: { id: userId },
     });
     if (!user) throw new NotFoundException('User not found');
-    if (user.householdId === householdId) return;
-    if (user.householdId)
-      throw new ForbiddenException('User already has a household');
 
-    await this.prisma.user.update({
-      where: { id: userId },
-      data: { householdId, role: 'Member' },
+    const membership = await this.householdsRepository.findMembership(
+      userId,
+      householdId,
+    );
+    if (membership) return;
+
+    if (household.requireJoinApproval) {
+      await this.createJoinRequest(userId, householdId);
+      return;
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.householdMembership.create({
+        data: { userId, householdId, role: 'Member' },
+      });
+      await tx.user.update({
+        where: { id: userId },
+        data: { householdId, role: 'Member' },
+      });
     });
   }
 
   /**
-   * Updates household settings (name, timezone).
+   * Updates household settings (name, timezone, join approval).
    * Only admins can update household settings.
    *
    * @param userId - The user ID requesting the update
+   * @param householdId - The household to update
    * @param dto - Update data
    * @returns Updated household details
-   * @throws NotFoundException if user doesn't belong to a household
+   * @throws NotFoundException if user doesn't belong to the household
    * @throws ForbiddenException if user is not an admin
+   * @throws BadRequestException if the timezone is unknown
    */
   async updateHousehold(
     userId: string,
+    householdId: string,
     dto: UpdateHouseholdDto,
   ): Promise<HouseholdResponseDto> {
-    const user = await this.prisma.user.findUnique({
-      where: { id: userId },
-    });
-
-    if (!user || !user.householdId) {
-      throw new NotFoundException('User does not belong to a household');
-    }
+    const membership = await this.requireMembership(userId, householdId);
 
-    if (user.role !== 'Admin') {
+    if (!hasPermission(membership.role, PERMISSIONS.HOUSEHOLD_MANAGE)) {
       throw new ForbiddenException('Only admins can update household');
     }
 
@@ -248,64 +357,154 @@ export class HouseholdsService {
         ? dto.name.trim()
         : undefined;
 
-    await this.householdsRepository.updateHousehold(user.householdId, {
+    if (dto.timezone) {
+      // The timezone is kept with the rest of the household settings
+      await this.settingsService.updateHouseholdSettings(householdId, {
+        timezone: dto.timezone,
+      });
+    }
+
+    await this.householdsRepository.updateHousehold(householdId, {
       name,
+      requireJoinApproval: dto.requireJoinApproval,
     });
 
-    return this.getHousehold(userId);
+    return this.getHousehold(userId, householdId);
   }
 
   /**
-   * Invites a new member to the household via email.
+   * Creates an invite code for the household, optionally limited in uses
+   * and lifetime, and emails it when an address is given.
    * Only admins can invite members.
    *
    * @param userId - The user ID sending the invitation
-   * @param dto - Contains the email to invite
+   * @param householdId - The household to invite to
+   * @param dto - Optional email, usage limit and lifetime
    * @returns Invitation token
-   * @throws NotFoundException if user doesn't belong to a household
-   * @throws ForbiddenException if user is not an admin or email is already a member
+   * @throws NotFoundException if user doesn't belong to the household
+   * @throws ForbiddenException if user is not an admin
    */
   async inviteMember(
     userId: string,
+    householdId: string,
     dto: InviteMemberDto,
   ): Promise<{ inviteToken: string }> {
-    void dto; // Invite is code-only; DTO kept for API compatibility
-    const user = await this.prisma.user.findUnique({
-      where: { id: userId },
-    });
+    const membership = await this.requireMembership(userId, householdId);
 
-    if (!user || !user.householdId) {
-      throw new NotFoundException('User does not belong to a household');
-    }
-
-    if (user.role !== 'Admin') {
+    if (!hasPermission(membership.role, PERMISSIONS.MEMBERS_INVITE)) {
       throw new ForbiddenException('Only admins can invite members');
     }
 
     const code = HouseholdUtils.generateInviteCode();
 
-    await this.prisma.householdInvite.create({
+    const invite = await this.prisma.householdInvite.create({
       data: {
         code,
-        householdId: user.householdId,
+        householdId,
         creatorId: userId,
+        email: dto.email,
+        maxUses: dto.maxUses,
+        expiresAt: dto.expiresInDays
+          ? new Date(Date.now() + dto.expiresInDays * DAY_MS)
+          : undefined,
       },
+      include: { household: true, creator: true },
     });
 
+    if (dto.email) {
+      await this.emailService.sendHouseholdInviteEmail(
+        dto.email,
+        code,
+        invite.household.name,
+        invite.creator.name ?? undefined,
+      );
+    }
+
     return { inviteToken: code };
   }
 
   /**
-   * Validates an invite code and returns household id and name for display.
-   * Public endpoint so unauthenticated users can resolve the code before sign-in.
+   * Lists the household's invites that can still be used, newest first.
+   *
+   * @param userId - The user ID requesting the list
+   * @param householdId - The household
+   * @returns Outstanding invites
+   * @throws NotFoundException if user doesn't belong to the household
+   * @throws ForbiddenException if user is not an admin
+   */
+  async listInvites(
+    userId: string,
+    householdId: string,
+  ): Promise<HouseholdInviteDto[]> {
+    const membership = await this.requireMembership(userId, householdId);
+
+    if (!hasPermission(membership.role, PERMISSIONS.MEMBERS_INVITE)) {
+      throw new ForbiddenException('Only admins can view invites');
+    }
+
+    const invites = await this.prisma.householdInvite.findMany({
+      where: { householdId, revokedAt: null },
+      include: { creator: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return invites
+      .filter((invite) => !this.getInviteInvalidReason(invite))
+      .map((invite) => ({
+        id: invite.id,
+        code: invite.code,
+        email: invite.email ?? undefined,
+        maxUses: invite.maxUses ?? undefined,
+        useCount: invite.useCount,
+        expiresAt: invite.expiresAt ?? undefined,
+        createdAt: invite.createdAt,
+        createdBy: {
+          id: invite.creator.id,
+          name: invite.creator.name ?? undefined,
+        },
+      }));
+  }
+
+  /**
+   * Revokes an invite so its code can no longer be used.
+   *
+   * @param userId - The user ID revoking the invite
+   * @param householdId - The household the invite belongs to
+   * @param inviteId - The invite to revoke
+   * @throws NotFoundException if user doesn't belong to the household or invite not found
+   * @throws ForbiddenException if user is not an admin
+   */
+  async revokeInvite(
+    userId: string,
+    householdId: string,
+    inviteId: string,
+  ): Promise<void> {
+    const membership = await this.requireMembership(userId, householdId);
+
+    if (!hasPermission(membership.role, PERMISSIONS.MEMBERS_INVITE)) {
+      throw new ForbiddenException('Only admins can revoke invites');
+    }
+
+    const { count } = await this.prisma.householdInvite.updateMany({
+      where: { id: inviteId, householdId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('Invite not found');
+    }
+  }
+
+  /**
+   * Checks an invite code and returns household id and name for display, or
+   * why the code can't be used. Public endpoint so unauthenticated users can
+   * resolve the code before sign-in.
    *
    * @param code - The invite code shared by a household member
-   * @returns householdId and householdName
-   * @throws NotFoundException if invite code is invalid or expired
+   * @returns Validation result with the household or the reason it is invalid
+   * @throws BadRequestException if the code is empty
    */
-  async validateInviteCode(
-    code: string,
-  ): Promise<{ householdId: string; householdName: string }> {
+  async validateInviteCode(code: string): Promise<InviteValidationDto> {
     const trimmed = code?.trim();
     if (!trimmed) {
       throw new BadRequestException('Invite code is required');
@@ -316,31 +515,34 @@ export class HouseholdsService {
       include: { household: true },
     });
 
-    if (!invite) {
-      throw new NotFoundException('Invite code is invalid or expired');
-    }
-
-    if (invite.expiresAt && invite.expiresAt < new Date()) {
-      throw new NotFoundException('Invite code has expired');
+    const reason = invite ? this.getInviteInvalidReason(invite) : 'not_found';
+    if (!invite || reason) {
+      return { valid: false, reason: reason ?? 'not_found' };
     }
 
     return {
+      valid: true,
       householdId: invite.householdId,
       householdName: invite.household.name,
+      requiresApproval: invite.household.requireJoinApproval,
     };
   }
 
   /**
-   * Joins a household using an invite code.
+   * Joins a household using an invite code and makes it the user's active
+   * household. Joining a household the user already belongs to only
+   * activates it. When the household requires approval, the code is used
+   * to create a pending join request instead.
    *
    * @param userId - The user ID joining
    * @param code - The invite code
-   * @returns Joined household details
+   * @returns The joined household, or the pending join request
+   * @throws NotFoundException if the invite is unknown, expired, revoked or used up
    */
   async joinHousehold(
     userId: string,
     code: string,
-  ): Promise<HouseholdResponseDto> {
+  ): Promise<JoinHouseholdResultDto> {
     const trimmed = code?.trim();
     if (!trimmed) {
       throw new BadRequestException('Invite code is required');
@@ -348,25 +550,53 @@ export class HouseholdsService {
 
     const invite = await this.prisma.householdInvite.findUnique({
       where: { code: trimmed },
+      include: { household: true },
     });
 
-    if (!invite) {
-      throw new NotFoundException('Invite code is invalid or expired');
-    }
-
-    if (invite.expiresAt && invite.expiresAt < new Date()) {
-      throw new NotFoundException('Invite code has expired');
+    const reason = invite ? this.getInviteInvalidReason(invite) : 'not_found';
+    if (!invite || reason) {
+      throw new NotFoundException(
+        INVITE_INVALID_MESSAGES[reason ?? 'not_found'],
+      );
     }
 
     const householdId = invite.householdId;
 
+    if (invite.household.requireJoinApproval) {
+      const membership = await this.householdsRepository.findMembership(
+        userId,
+        householdId,
+      );
+      if (!membership) {
+        const joinRequest = await this.createJoinRequest(
+          userId,
+          householdId,
+          invite,
+        );
+        return { status: 'pending', joinRequest };
+      }
+    }
+
     await this.prisma.$transaction(async (tx) => {
       const user = await tx.user.findUnique({ where: { id: userId } });
       if (!user) throw new NotFoundException('User not found');
-      if (user.householdId) {
-        throw new ForbiddenException('User already belongs to a household');
+
+      const existing = await tx.householdMembership.findUnique({
+        where: { userId_householdId: { userId, householdId } },
+      });
+      if (existing) {
+        await tx.user.update({
+          where: { id: userId },
+          data: { householdId, role: existing.role },
+        });
+        return;
       }
 
+      await this.consumeInvite(tx, invite);
+
+      await tx.householdMembership.create({
+        data: { userId, householdId, role: 'Member' },
+      });
       await tx.user.update({
         where: { id: userId },
         data: {
@@ -377,7 +607,164 @@ export class HouseholdsService {
       });
     });
 
-    return this.getHousehold(userId);
+    return {
+      status: 'joined',
+      household: await this.getHousehold(userId, householdId),
+    };
+  }
+
+  /**
+   * Lists the requests waiting to join the household, oldest first.
+   *
+   * @param userId - The user ID requesting the list
+   * @param householdId - The household
+   * @returns Pending join requests
+   * @throws NotFoundException if user doesn't belong to the household
+   * @throws ForbiddenException if user is not an admin
+   */
+  async listJoinRequests(
+    userId: string,
+    householdId: string,
+  ): Promise<HouseholdJoinRequestDto[]> {
+    const membership = await this.requireMembership(userId, householdId);
+
+    if (!hasPermission(membership.role, PERMISSIONS.MEMBERS_INVITE)) {
+      throw new ForbiddenException('Only admins can review join requests');
+    }
+
+    const requests = await this.prisma.householdJoinRequest.findMany({
+      where: { householdId, status: 'pending' },
+      include: { household: true, user: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return requests.map((request) => this.toJoinRequestDto(request));
+  }
+
+  /**
+   * Approves a pending join request. The requester becomes a Member, and
+   * this becomes their active household if they have none.
+   *
+   * @param userId - The admin approving the request
+   * @param householdId - The household the request is for
+   * @param requestId - The join request
+   * @returns Updated household details
+   * @throws NotFoundException if user doesn't belong to the household or request not found
+   * @throws ForbiddenException if user is not an admin
+   */
+  async approveJoinRequest(
+    userId: string,
+    householdId: string,
+    requestId: string,
+  ): Promise<HouseholdResponseDto> {
+    const membership = await this.requireMembership(userId, householdId);
+
+    if (!hasPermission(membership.role, PERMISSIONS.MEMBERS_INVITE)) {
+      throw new ForbiddenException('Only admins can review join requests');
+    }
+
+    const request = await this.prisma.householdJoinRequest.findFirst({
+      where: { id: requestId, householdId, status: 'pending' },
+    });
+    if (!request) {
+      throw new NotFoundException('Join request not found');
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await this.decideJoinRequest(tx, request.id, userId, 'approved');
+      await tx.householdMembership.upsert({
+        where: {
+          userId_householdId: { userId: request.userId, householdId },
+        },
+        create: { userId: request.userId, householdId, role: 'Member' },
+        update: {},
+      });
+      await tx.user.updateMany({
+        where: { id: request.userId, householdId: null },
+        data: {
+          householdId,
+          role: 'Member',
+          joinedViaInviteId: request.inviteId,
+        },
+      });
+    });
+
+    await this.auditService.logJoinRequestDecision(userId, householdId, {
+      requestId: request.id,
+      requesterId: request.userId,
+      approved: true,
+    });
+
+    return this.getHousehold(userId, householdId);
+  }
+
+  /**
+   * Rejects a pending join request.
+   *
+   * @param userId - The admin rejecting the request
+   * @param householdId - The household the request is for
+   * @param requestId - The join request
+   * @throws NotFoundException if user doesn't belong to the household or request not found
+   * @throws ForbiddenException if user is not an admin
+   */
+  async rejectJoinRequest(
+    userId: string,
+    householdId: string,
+    requestId: string,
+  ): Promise<void> {
+    const membership = await this.requireMembership(userId, householdId);
+
+    if (!hasPermission(membership.role, PERMISSIONS.MEMBERS_INVITE)) {
+      throw new ForbiddenException('Only admins can review join requests');
+    }
+
+    const request = await this.prisma.householdJoinRequest.findFirst({
+      where: { id: requestId, householdId, status: 'pending' },
+    });
+    if (!request) {
+      throw new NotFoundException('Join request not found');
+    }
+
+    await this.decideJoinRequest(this.prisma, request.id, userId, 'rejected');
+
+    await this.auditService.logJoinRequestDecision(userId, householdId, {
+      requestId: request.id,
+      requesterId: request.userId,
+      approved: false,
+    });
+  }
+
+  /**
+   * Lists the user's own join requests that are still waiting for an admin.
+   *
+   * @param userId - The requesting user
+   * @returns Pending join requests with the household they are for
+   */
+  async listMyJoinRequests(userId: string): Promise<HouseholdJoinRequestDto[]> {
+    const requests = await this.prisma.householdJoinRequest.findMany({
+      where: { userId, status: 'pending' },
+      include: { household: true, user: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return requests.map((request) => this.toJoinRequestDto(request));
+  }
+
+  /**
+   * Withdraws the user's own pending join request.
+   *
+   * @param userId - The requesting user
+   * @param requestId - The join request
+   * @throws NotFoundException if no pending request of the user matches
+   */
+  async cancelJoinRequest(userId: string, requestId: string): Promise<void> {
+    const { count } = await this.prisma.householdJoinRequest.deleteMany({
+      where: { id: requestId, userId, status: 'pending' },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('Join request not found');
+    }
   }
 
   /**
@@ -385,20 +772,19 @@ export class HouseholdsService {
    * Only admins can remove members. Users cannot remove themselves.
    *
    * @param userId - The user ID requesting the removal
+   * @param householdId - The household to remove the member from
    * @param memberId - The ID of the member to remove
-   * @throws NotFoundException if user doesn't belong to a household or member not found
+   * @throws NotFoundException if user doesn't belong to the household or member not found
    * @throws ForbiddenException if user is not an admin or trying to remove themselves
    */
-  async removeMember(userId: string, memberId: string): Promise<void> {
-    const user = await this.prisma.user.findUnique({
-      where: { id: userId },
-    });
-
-    if (!user || !user.householdId) {
-      throw new NotFoundException('User does not belong to a household');
-    }
+  async removeMember(
+    userId: string,
+    householdId: string,
+    memberId: string,
+  ): Promise<void> {
+    const membership = await this.requireMembership(userId, householdId);
 
-    if (user.role !== 'Admin') {
+    if (!hasPermission(membership.role, PERMISSIONS.MEMBERS_REMOVE)) {
       throw new ForbiddenException('Only admins can remove members');
     }
 
@@ -406,15 +792,350 @@ export class HouseholdsService {
       throw new ForbiddenException('Cannot remove yourself');
     }
 
-    const member = await this.prisma.user.findUnique({
-      where: { id: memberId },
-    });
+    const member = await this.householdsRepository.findMembership(
+      memberId,
+      householdId,
+    );
+
+    if (!member) {
+      throw new NotFoundException('Member not found in household');
+    }
+
+    await this.auditService.logRemoveMember(userId, householdId, memberId);
+    await this.householdsRepository.removeUserFromHousehold(
+      memberId,
+      householdId,
+    );
+    this.realtimeService.closeStreams(householdId, memberId);
+  }
+
+  /**
+   * Changes a member's role. The last admin can't be demoted so the household
+   * always keeps someone who can manage it.
+   *
+   * @param userId - The user ID requesting the change
+   * @param householdId - The household the member belongs to
+   * @param memberId - The ID of the member whose role changes
+   * @param role - The new role
+   * @returns The updated member
+   * @throws NotFoundException if user doesn't belong to the household or member not found
+   * @throws ForbiddenException if user is not an admin
+   * @throws BadRequestException if the change would leave the household without an admin
+   */
+  async updateMemberRole(
+    userId: string,
+    householdId: string,
+    memberId: string,
+    role: HouseholdRole,
+  ): Promise<HouseholdMemberDto> {
+    const membership = await this.requireMembership(userId, householdId);
+
+    if (!hasPermission(membership.role, PERMISSIONS.MEMBERS_CHANGE_ROLE)) {
+      throw new ForbiddenException('Only admins can change member roles');
+    }
 
-    if (!member || member.householdId !== user.householdId) {
+    const member =
+      memberId === userId
+        ? membership
+        : await this.householdsRepository.findMembership(memberId, householdId);
+    const memberUser = member
+      ? await this.prisma.user.findUnique({ where: { id: memberId } })
+      : null;
+
+    if (!member || !memberUser) {
       throw new NotFoundException('Member not found in household');
     }
 
-    await this.auditService.logRemoveMember(userId, user.householdId, memberId);
-    await this.householdsRepository.removeUserFromHousehold(memberId);
+    if (member.role !== role) {
+      if (member.role === 'Admin') {
+        const adminCount = await this.householdsRepository.countMembersWithRole(
+          householdId,
+          'Admin',
+        );
+        if (adminCount <= 1) {
+          throw new BadRequestException('A household needs at least one admin');
+        }
+      }
+
+      await this.householdsRepository.updateMembershipRole(
+        memberId,
+        householdId,
+        role,
+      );
+      await this.auditService.logRoleChange(userId, householdId, {
+        memberId,
+        previousRole: member.role,
+        role,
+      });
+    }
+
+    return {
+      id: memberUser.id,
+      email: memberUser.email,
+      name: memberUser.name,
+      avatarUrl: memberUser.avatarUrl,
+      role,
+    };
+  }
+
+  /**
+   * Leaves a household. The last admin has to transfer the admin role first,
+   * and the last member has to dissolve the household instead, so no
+   * household is left without someone who can manage it.
+   *
+   * @param userId - The user leaving
+   * @param householdId - The household to leave
+   * @throws NotFoundException if user doesn't belong to the household
+   * @throws BadRequestException if the user is the last admin or the last member
+   */
+  async leaveHousehold(userId: string, householdId: string): Promise<void> {
+    const membership = await this.requireMembership(userId, householdId);
+
+    if (membership.role === 'Admin') {
+      const adminCount = await this.householdsRepository.countMembersWithRole(
+        householdId,
+        'Admin',
+      );
+      if (adminCount <= 1) {
+        const memberCount =
+          await this.householdsRepository.countMembers(householdId);
+        throw new BadRequestException(
+          memberCount > 1
+            ? 'Transfer the admin role to another member before leaving'
+            : 'You are the only member; dissolve the household instead',
+        );
+      }
+    }
+
+    await this.auditService.logLeaveHousehold(userId, householdId);
+    await this.householdsRepository.removeUserFromHousehold(
+      userId,
+      householdId,
+    );
+    this.realtimeService.closeStreams(householdId, userId);
+    this.logger.log('Member left household', { userId, householdId });
+  }
+
+  /**
+   * Makes another member the admin; the current admin becomes a member.
+   *
+   * @param userId - The admin handing over the role
+   * @param householdId - The household
+   * @param memberId - The member who becomes admin
+   * @returns The household with updated roles
+   * @throws NotFoundException if user doesn't belong to the household or member not found
+   * @throws ForbiddenException if user is not an admin
+   * @throws BadRequestException if the member is the user themselves
+   */
+  async transferAdmin(
+    userId: string,
+    householdId: string,
+    memberId: string,
+  ): Promise<HouseholdResponseDto> {
+    const membership = await this.requireMembership(userId, householdId);
+
+    if (membership.role !== 'Admin') {
+      throw new ForbiddenException('Only admins can transfer the admin role');
+    }
+
+    if (memberId === userId) {
+      throw new BadRequestException(
+        'Cannot transfer the admin role to yourself',
+      );
+    }
+
+    const member = await this.householdsRepository.findMembership(
+      memberId,
+      householdId,
+    );
+    if (!member) {
+      throw new NotFoundException('Member not found in household');
+    }
+
+    await this.householdsRepository.transferAdmin(
+      userId,
+      memberId,
+      householdId,
+    );
+    await this.auditService.logAdminTransfer(userId, householdId, {
+      memberId,
+      previousRole: member.role,
+    });
+
+    return this.getHousehold(userId, householdId);
+  }
+
+  /**
+   * Dissolves a household: deletes it with all its data for every member.
+   * Members who had it active fall back to another household they belong to.
+   *
+   * @param userId - The admin dissolving the household
+   * @param householdId - The household to dissolve
+   * @throws NotFoundException if user doesn't belong to the household
+   * @throws ForbiddenException if user is not an admin
+   */
+  async dissolveHousehold(userId: string, householdId: string): Promise<void> {
+    const membership = await this.requireMembership(userId, householdId);
+
+    if (!hasPermission(membership.role, PERMISSIONS.HOUSEHOLD_MANAGE)) {
+      throw new ForbiddenException('Only admins can dissolve the household');
+    }
+
+    await this.auditService.logHouseholdDeletion(householdId, {
+      userId,
+      reason: 'dissolved',
+    });
+    await this.householdsRepository.deleteHousehold(householdId);
+    this.realtimeService.closeStreams(householdId);
+    this.logger.log('Household dissolved', { userId, householdId });
+  }
+
+  private getInviteInvalidReason(
+    invite: Pick<
+      HouseholdInvite,
+      'expiresAt' | 'revokedAt' | 'maxUses' | 'useCount'
+    >,
+  ): InviteInvalidReason | null {
+    if (invite.revokedAt) {
+      return 'revoked';
+    }
+    if (invite.expiresAt && invite.expiresAt < new Date()) {
+      return 'expired';
+    }
+    if (invite.maxUses !== null && invite.useCount >= invite.maxUses) {
+      return 'exhausted';
+    }
+    return null;
+  }
+
+  /**
+   * Creates a pending request to join the household, or returns the one
+   * already waiting. A new request counts as a use of the invite.
+   */
+  private async createJoinRequest(
+    userId: string,
+    householdId: string,
+    invite?: HouseholdInvite,
+  ): Promise<HouseholdJoinRequestDto> {
+    const pending = await this.prisma.householdJoinRequest.findFirst({
+      where: { userId, householdId, status: 'pending' },
+      include: { household: true, user: true },
+    });
+    if (pending) {
+      return this.toJoinRequestDto(pending);
+    }
+
+    const request = await this.prisma.$transaction(async (tx) => {
+      if (invite) {
+        await this.consumeInvite(tx, invite);
+      }
+      // One row per user and household; asking again after a rejection reopens it
+      return tx.householdJoinRequest.upsert({
+        where: { userId_householdId: { userId, householdId } },
+        create: { userId, householdId, inviteId: invite?.id },
+        update: {
+          status: 'pending',
+          inviteId: invite?.id ?? null,
+          decidedById: null,
+          decidedAt: null,
+          createdAt: new Date(),
+        },
+        include: { household: true, user: true },
+      });
+    });
+
+    this.logger.log('Join request created', { userId, householdId });
+    return this.toJoinRequestDto(request);
+  }
+
+  /**
+   * Moves a pending join request to its final status.
+   *
+   * @throws NotFoundException if the request was decided concurrently
+   */
+  private async decideJoinRequest(
+    tx: Prisma.TransactionClient,
+    requestId: string,
+    decidedById: string,
+    status: Exclude<JoinRequestStatus, 'pending'>,
+  ): Promise<void> {
+    const { count } = await tx.householdJoinRequest.updateMany({
+      where: { id: requestId, status: 'pending' },
+      data: { status, decidedById, decidedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new NotFoundException('Join request not found');
+    }
+  }
+
+  /**
+   * Counts a use of the invite.
+   *
+   * @throws NotFoundException if the invite was revoked or used up meanwhile
+   */
+  private async consumeInvite(
+    tx: Prisma.TransactionClient,
+    invite: HouseholdInvite,
+  ): Promise<void> {
+    // Conditional increment so concurrent joins can't exceed maxUses.
+    const { count } = await tx.householdInvite.updateMany({
+      where: {
+        id: invite.id,
+        revokedAt: null,
+        ...(invite.maxUses !== null && {
+          useCount: { lt: invite.maxUses },
+        }),
+      },
+      data: { useCount: { increment: 1 } },
+    });
+    if (count === 0) {
+      throw new NotFoundException(INVITE_INVALID_MESSAGES.exhausted);
+    }
+  }
+
+  private toJoinRequestDto(
+    request: JoinRequestWithRelations,
+  ): HouseholdJoinRequestDto {
+    return {
+      id: request.id,
+      householdId: request.householdId,
+      householdName: request.household.name,
+      status: request.status as JoinRequestStatus,
+      createdAt: request.createdAt,
+      user: {
+        id: request.user.id,
+        name: request.user.name ?? undefined,
+        email: request.user.email ?? undefined,
+        avatarUrl: request.user.avatarUrl ?? undefined,
+      },
+    };
+  }
+
+  private async requireMembership(
+    userId: string,
+    householdId: string | null,
+  ): Promise<HouseholdMembership> {
+    const membership = householdId
+      ? await this.householdsRepository.findMembership(userId, householdId)
+      : null;
+    if (!membership) {
+      throw new NotFoundException('User does not belong to this household');
+    }
+    return membership;
+  }
+
+  private async createMainShoppingList(
+    tx: Prisma.TransactionClient,
+    householdId: string,
+  ): Promise<void> {
+    await tx.shoppingList.create({
+      data: {
+        householdId,
+        name: DEFAULT_MAIN_SHOPPING_LIST.NAME,
+        color: DEFAULT_MAIN_SHOPPING_LIST.COLOR,
+        icon: DEFAULT_MAIN_SHOPPING_LIST.ICON,
+        isMain: true,
+      },
+    });
   }
 }
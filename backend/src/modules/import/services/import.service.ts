@@ -266,6 +266,7 @@ export class ImportService {
             householdId,
             title: recipe.title,
             prepTime: recipe.prepTime,
+            servings: recipe.servings,
             ingredients: recipe.ingredients as unknown as Prisma.JsonValue,
             instructions: recipe.instructions as unknown as Prisma.JsonValue,
             imageUrl: recipe.imageUrl,
@@ -0,0 +1,2 @@
+export * from './job.constants';
+export * from './job-names.constants';
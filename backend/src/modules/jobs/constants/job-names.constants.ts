@@ -0,0 +1,17 @@
+/**
+ * Names of the job handlers registered with the queue. Keep names stable:
+ * they are persisted with every queued job.
+ */
+export const JOB_NAMES = {
+  SYNC_CLEANUP_IDEMPOTENCY_KEYS: 'sync.cleanup-idempotency-keys',
+  AUTH_CLEANUP_EXPIRED_TOKENS: 'auth.cleanup-expired-tokens',
+  NOTIFICATIONS_SCAN_CHORE_REMINDERS: 'notifications.scan-chore-reminders',
+  NOTIFICATIONS_SEND_CHORE_REMINDER: 'notifications.send-chore-reminder',
+  RECIPES_ENQUEUE_LEGACY_IMAGE_MIGRATIONS:
+    'recipes.enqueue-legacy-image-migrations',
+  RECIPES_MIGRATE_LEGACY_IMAGE: 'recipes.migrate-legacy-image',
+  JOBS_PURGE_COMPLETED: 'jobs.purge-completed',
+  TRASH_PURGE_EXPIRED: 'trash.purge-expired',
+} as const;
+
+export type JobName = (typeof JOB_NAMES)[keyof typeof JOB_NAMES];
@@ -0,0 +1,41 @@
+/**
+ * Lifecycle of a queued job. `failed` jobs have exhausted their attempts and
+ * stay in the table (dead-lettered) until an admin retries them.
+ */
+export const JOB_STATUSES = {
+  PENDING: 'pending',
+  RUNNING: 'running',
+  COMPLETED: 'completed',
+  FAILED: 'failed',
+} as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[keyof typeof JOB_STATUSES];
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+
+/** Delay before the first retry; doubles with every further attempt. */
+export const RETRY_BASE_DELAY_MS = 30 * 1000;
+export const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * How long a worker owns a leased job. The worker renews the lease while the
+ * job runs, so it only expires when the worker stops (e.g. the instance
+ * crashed); the job is then picked up again by another worker, or
+ * dead-lettered if that was its last attempt.
+ */
+export const JOB_LEASE_MS = 5 * 60 * 1000;
+
+/** How often a running job's lease is renewed; well within JOB_LEASE_MS. */
+export const JOB_LEASE_RENEW_INTERVAL_MS = 60 * 1000;
+
+/** Stored on a job dead-lettered because its last lease expired. */
+export const LEASE_EXPIRED_ERROR =
+  'Lease expired on the last attempt (worker stopped while running the job)';
+
+export const WORKER_POLL_INTERVAL_MS = 5 * 1000;
+export const WORKER_BATCH_SIZE = 10;
+
+export const COMPLETED_JOB_RETENTION_DAYS = 7;
+
+/** Error messages are truncated before being stored on the job. */
+export const MAX_JOB_ERROR_LENGTH = 2000;
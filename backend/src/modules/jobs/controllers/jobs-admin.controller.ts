@@ -0,0 +1,37 @@
+import { Controller, Get, Post, Param, Query, UseGuards } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { JobQueueService } from '../services/job-queue.service';
+import { JobDto } from '../dtos';
+import { PaginationDto } from '../../../common/dtos/pagination.dto';
+import { JwtAuthGuard, AdminGuard } from '../../../common/guards';
+
+/**
+ * Operator endpoints for the background job queue.
+ * API Version: 1
+ * All endpoints require an admin (see ADMIN_EMAILS).
+ */
+@ApiTags('admin')
+@Controller({ path: 'admin/jobs', version: '1' })
+@UseGuards(JwtAuthGuard, AdminGuard)
+export class JobsAdminController {
+  constructor(private jobQueueService: JobQueueService) {}
+
+  @Get('failed')
+  @ApiOperation({ summary: 'List jobs that ran out of retry attempts' })
+  @ApiResponse({ status: 200, description: 'Paginated failed jobs' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async listFailedJobs(@Query() query: PaginationDto) {
+    return this.jobQueueService.listFailedJobs(
+      query.page ?? 1,
+      query.limit ?? 10,
+    );
+  }
+
+  @Post(':id/retry')
+  @ApiOperation({ summary: 'Re-queue a failed job' })
+  @ApiResponse({ status: 201, description: 'Job re-queued', type: JobDto })
+  @ApiResponse({ status: 404, description: 'Failed job not found' })
+  async retryFailedJob(@Param('id') jobId: string): Promise<JobDto> {
+    return this.jobQueueService.retryFailedJob(jobId);
+  }
+}
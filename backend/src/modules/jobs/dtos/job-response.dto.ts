@@ -0,0 +1,12 @@
+export class JobDto {
+  id: string;
+  name: string;
+  payload: Record<string, unknown>;
+  status: string;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lastError: string | null;
+  failedAt: Date | null;
+  createdAt: Date;
+}
@@ -0,0 +1,26 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { JobsAdminController } from './controllers/jobs-admin.controller';
+import { JobQueueService } from './services/job-queue.service';
+import { JobWorkerService } from './services/job-worker.service';
+import { JobsRepository } from './repositories/jobs.repository';
+import { JobsMaintenanceProcessor } from '../../jobs/jobs-maintenance.processor';
+import { PrismaModule } from '../../infrastructure/database/prisma/prisma.module';
+
+/**
+ * Postgres-backed background job queue. Global so any module can register
+ * handlers and enqueue work through JobQueueService.
+ */
+@Global()
+@Module({
+  imports: [PrismaModule, ConfigModule],
+  controllers: [JobsAdminController],
+  providers: [
+    JobQueueService,
+    JobWorkerService,
+    JobsRepository,
+    JobsMaintenanceProcessor,
+  ],
+  exports: [JobQueueService],
+})
+export class JobsModule {}
@@ -0,0 +1,231 @@
+import { Injectable } from '@nestjs/common';
+import { Job, Prisma } from '@prisma/client';
+import { PrismaService } from '../../../infrastructure/database/prisma/prisma.service';
+import { JOB_STATUSES } from '../constants/job.constants';
+
+export interface CreateJobData {
+  name: string;
+  payload: Record<string, unknown>;
+  runAt: Date;
+  maxAttempts: number;
+  scheduleKey?: string;
+}
+
+/**
+ * Persistence for the background job queue.
+ *
+ * Status transitions made by a worker are guarded by `lockedBy`, so a worker
+ * whose lease expired cannot overwrite the outcome of the worker that took
+ * the job over.
+ */
+@Injectable()
+export class JobsRepository {
+  constructor(private prisma: PrismaService) {}
+
+  async create(data: CreateJobData): Promise<Job> {
+    return this.prisma.job.create({
+      data: {
+        ...data,
+        payload: data.payload as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  /**
+   * Enqueues the run of a cron schedule for one slot. Every instance
+   * evaluates the schedules, so the unique (scheduleKey, runAt) pair makes
+   * sure each slot is only queued once.
+   *
+   * @returns true if this call queued the job
+   */
+  async createScheduled(
+    data: CreateJobData & { scheduleKey: string },
+  ): Promise<boolean> {
+    const { count } = await this.prisma.job.createMany({
+      data: [{ ...data, payload: data.payload as Prisma.InputJsonValue }],
+      skipDuplicates: true,
+    });
+    return count > 0;
+  }
+
+  /**
+   * Atomically leases up to `limit` runnable jobs for a worker: pending jobs
+   * that are due, and running jobs whose lease expired while they still have
+   * attempts left. Rows locked by other workers are skipped. Leasing counts
+   * as an attempt.
+   *
+   * @returns The leased jobs, oldest first
+   */
+  async lease(
+    workerId: string,
+    limit: number,
+    lockedUntil: Date,
+  ): Promise<Job[]> {
+    const rows = await this.prisma.$queryRaw<{ id: string }[]>`
+      UPDATE "jobs"
+      SET status = ${JOB_STATUSES.RUNNING},
+          locked_by = ${workerId},
+          locked_until = ${lockedUntil},
+          attempts = attempts + 1,
+          updated_at = NOW()
+      WHERE id IN (
+        SELECT id FROM "jobs"
+        WHERE (status = ${JOB_STATUSES.PENDING} AND run_at <= NOW())
+           OR (status = ${JOB_STATUSES.RUNNING} AND locked_until < NOW()
+               AND attempts < max_attempts)
+        ORDER BY run_at
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id
+    `;
+    if (rows.length === 0) {
+      return [];
+    }
+
+    return this.prisma.job.findMany({
+      where: { id: { in: rows.map((row) => row.id) } },
+      orderBy: { runAt: 'asc' },
+    });
+  }
+
+  /**
+   * Dead-letters running jobs whose lease expired on their last attempt,
+   * e.g. a job that crashes its worker every time.
+   *
+   * @returns Number of jobs dead-lettered
+   */
+  async failExpiredLeases(error: string): Promise<number> {
+    return this.prisma.$executeRaw`
+      UPDATE "jobs"
+      SET status = ${JOB_STATUSES.FAILED},
+          failed_at = NOW(),
+          last_error = ${error},
+          locked_by = NULL,
+          locked_until = NULL,
+          updated_at = NOW()
+      WHERE status = ${JOB_STATUSES.RUNNING}
+        AND locked_until < NOW()
+        AND attempts >= max_attempts
+    `;
+  }
+
+  /**
+   * Extends the lease of a job the worker still owns.
+   *
+   * @returns false if the lease was lost (e.g. another worker took the job over)
+   */
+  async renewLease(
+    id: string,
+    workerId: string,
+    lockedUntil: Date,
+  ): Promise<boolean> {
+    const { count } = await this.prisma.job.updateMany({
+      where: { id, lockedBy: workerId, status: JOB_STATUSES.RUNNING },
+      data: { lockedUntil },
+    });
+    return count > 0;
+  }
+
+  async markCompleted(id: string, workerId: string): Promise<void> {
+    await this.prisma.job.updateMany({
+      where: { id, lockedBy: workerId, status: JOB_STATUSES.RUNNING },
+      data: {
+        status: JOB_STATUSES.COMPLETED,
+        completedAt: new Date(),
+        lockedBy: null,
+        lockedUntil: null,
+      },
+    });
+  }
+
+  /**
+   * Puts a job back in the queue after a failed attempt.
+   */
+  async markForRetry(
+    id: string,
+    workerId: string,
+    runAt: Date,
+    error: string,
+  ): Promise<void> {
+    await this.prisma.job.updateMany({
+      where: { id, lockedBy: workerId, status: JOB_STATUSES.RUNNING },
+      data: {
+        status: JOB_STATUSES.PENDING,
+        runAt,
+        lastError: error,
+        lockedBy: null,
+        lockedUntil: null,
+      },
+    });
+  }
+
+  /**
+   * Dead-letters a job that ran out of attempts.
+   */
+  async markFailed(id: string, workerId: string, error: string): Promise<void> {
+    await this.prisma.job.updateMany({
+      where: { id, lockedBy: workerId, status: JOB_STATUSES.RUNNING },
+      data: {
+        status: JOB_STATUSES.FAILED,
+        failedAt: new Date(),
+        lastError: error,
+        lockedBy: null,
+        lockedUntil: null,
+      },
+    });
+  }
+
+  /**
+   * Lists dead-lettered jobs, most recent failure first.
+   */
+  async findFailed(
+    skip: number,
+    take: number,
+  ): Promise<{ jobs: Job[]; total: number }> {
+    const where = { status: JOB_STATUSES.FAILED };
+    const [jobs, total] = await Promise.all([
+      this.prisma.job.findMany({
+        where,
+        orderBy: { failedAt: 'desc' },
+        skip,
+        take,
+      }),
+      this.prisma.job.count({ where }),
+    ]);
+    return { jobs, total };
+  }
+
+  /**
+   * Re-queues a dead-lettered job with a fresh set of attempts.
+   *
+   * @returns The re-queued job, or null if no failed job has that ID
+   */
+  async requeueFailed(id: string, runAt: Date): Promise<Job | null> {
+    const { count } = await this.prisma.job.updateMany({
+      where: { id, status: JOB_STATUSES.FAILED },
+      data: {
+        status: JOB_STATUSES.PENDING,
+        attempts: 0,
+        runAt,
+        failedAt: null,
+      },
+    });
+    if (count === 0) {
+      return null;
+    }
+    return this.prisma.job.findUnique({ where: { id } });
+  }
+
+  /**
+   * Deletes completed jobs finished before the cutoff.
+   *
+   * @returns Number of jobs deleted
+   */
+  async purgeCompleted(before: Date): Promise<number> {
+    const { count } = await this.prisma.job.deleteMany({
+      where: { status: JOB_STATUSES.COMPLETED, completedAt: { lt: before } },
+    });
+    return count;
+  }
+}
@@ -0,0 +1,181 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { JobQueueService } from '../job-queue.service';
+import { JobsRepository } from '../../repositories/jobs.repository';
+import { DEFAULT_MAX_ATTEMPTS } from '../../constants/job.constants';
+
+describe('JobQueueService', () => {
+  let service: JobQueueService;
+
+  const mockRepository = {
+    create: jest.fn(),
+    createScheduled: jest.fn(),
+    findFailed: jest.fn(),
+    requeueFailed: jest.fn(),
+  };
+
+  const failedJob = {
+    id: 'job-1',
+    name: 'recipes.migrate-legacy-image',
+    payload: { recipeId: 'r1' },
+    status: 'failed',
+    attempts: 5,
+    maxAttempts: 5,
+    runAt: new Date('2026-03-10T04:00:00.000Z'),
+    scheduleKey: null,
+    lockedBy: null,
+    lockedUntil: null,
+    lastError: 'timeout',
+    completedAt: null,
+    failedAt: new Date('2026-03-10T06:00:00.000Z'),
+    createdAt: new Date('2026-03-10T04:00:00.000Z'),
+    updatedAt: new Date('2026-03-10T06:00:00.000Z'),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JobQueueService,
+        { provide: JobsRepository, useValue: mockRepository },
+      ],
+    }).compile();
+
+    service = module.get<JobQueueService>(JobQueueService);
+  });
+
+  describe('registerHandler', () => {
+    it('rejects a second handler for the same job', () => {
+      const handler = jest.fn();
+      service.registerHandler('a', handler);
+
+      expect(service.getHandler('a')).toBe(handler);
+      expect(() => service.registerHandler('a', jest.fn())).toThrow(
+        'already registered',
+      );
+    });
+  });
+
+  describe('enqueue', () => {
+    it('queues the job with the default attempts', async () => {
+      const runAt = new Date('2026-03-10T10:00:00.000Z');
+
+      await service.enqueue('a', { id: 1 }, { runAt });
+
+      expect(mockRepository.create).toHaveBeenCalledWith({
+        name: 'a',
+        payload: { id: 1 },
+        runAt,
+        maxAttempts: DEFAULT_MAX_ATTEMPTS,
+      });
+    });
+
+    it('delays the job', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2026-03-10T10:00:00.000Z'));
+
+      await service.enqueue('a', {}, { delayMs: 60_000, maxAttempts: 1 });
+
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          runAt: new Date('2026-03-10T10:01:00.000Z'),
+          maxAttempts: 1,
+        }),
+      );
+      jest.useRealTimers();
+    });
+  });
+
+  describe('enqueueDueSchedules', () => {
+    const registeredAt = new Date('2026-03-10T01:30:00.000Z');
+
+    beforeEach(() => {
+      service.registerSchedule('nightly', '0 2 * * *', { a: 1 }, registeredAt);
+    });
+
+    it('does nothing before the next slot', async () => {
+      await expect(
+        service.enqueueDueSchedules(new Date('2026-03-10T01:59:00.000Z')),
+      ).resolves.toBe(0);
+      expect(mockRepository.createScheduled).not.toHaveBeenCalled();
+    });
+
+    it('queues the due slot once and moves on to the next one', async () => {
+      mockRepository.createScheduled.mockResolvedValue(true);
+
+      await expect(
+        service.enqueueDueSchedules(new Date('2026-03-10T02:00:05.000Z')),
+      ).resolves.toBe(1);
+      await service.enqueueDueSchedules(new Date('2026-03-10T02:01:00.000Z'));
+
+      expect(mockRepository.createScheduled).toHaveBeenCalledTimes(1);
+      expect(mockRepository.createScheduled).toHaveBeenCalledWith({
+        name: 'nightly',
+        payload: { a: 1 },
+        runAt: new Date('2026-03-10T02:00:00.000Z'),
+        maxAttempts: DEFAULT_MAX_ATTEMPTS,
+        scheduleKey: 'nightly',
+      });
+    });
+
+    it('does not count slots already queued by another instance', async () => {
+      mockRepository.createScheduled.mockResolvedValue(false);
+
+      await expect(
+        service.enqueueDueSchedules(new Date('2026-03-10T02:00:05.000Z')),
+      ).resolves.toBe(0);
+    });
+
+    it('rejects invalid expressions', () => {
+      expect(() => service.registerSchedule('bad', '0 25 * * *')).toThrow(
+        'Invalid cron expression',
+      );
+    });
+  });
+
+  describe('listFailedJobs', () => {
+    it('returns a page of failed jobs', async () => {
+      mockRepository.findFailed.mockResolvedValue({
+        jobs: [failedJob],
+        total: 11,
+      });
+
+      const result = await service.listFailedJobs(2, 10);
+
+      expect(mockRepository.findFailed).toHaveBeenCalledWith(10, 10);
+      expect(result.totalPages).toBe(2);
+      expect(result.data[0]).toEqual(
+        expect.objectContaining({
+          id: 'job-1',
+          payload: { recipeId: 'r1' },
+          lastError: 'timeout',
+        }),
+      );
+    });
+  });
+
+  describe('retryFailedJob', () => {
+    it('re-queues the failed job', async () => {
+      mockRepository.requeueFailed.mockResolvedValue({
+        ...failedJob,
+        status: 'pending',
+        attempts: 0,
+      });
+
+      const result = await service.retryFailedJob('job-1');
+
+      expect(mockRepository.requeueFailed).toHaveBeenCalledWith(
+        'job-1',
+        expect.any(Date),
+      );
+      expect(result.status).toBe('pending');
+    });
+
+    it('throws NotFoundException when no failed job matches', async () => {
+      mockRepository.requeueFailed.mockResolvedValue(null);
+
+      await expect(service.retryFailedJob('job-1')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
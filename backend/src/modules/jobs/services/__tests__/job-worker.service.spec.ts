@@ -0,0 +1,207 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { JobWorkerService } from '../job-worker.service';
+import { JobQueueService } from '../job-queue.service';
+import { JobsRepository } from '../../repositories/jobs.repository';
+import {
+  JOB_LEASE_RENEW_INTERVAL_MS,
+  LEASE_EXPIRED_ERROR,
+  RETRY_BASE_DELAY_MS,
+} from '../../constants/job.constants';
+
+describe('JobWorkerService', () => {
+  let worker: JobWorkerService;
+  let queue: JobQueueService;
+
+  const now = new Date('2026-03-10T10:00:00.000Z');
+
+  const mockRepository = {
+    createScheduled: jest.fn(),
+    lease: jest.fn(),
+    failExpiredLeases: jest.fn(),
+    renewLease: jest.fn(),
+    markCompleted: jest.fn(),
+    markForRetry: jest.fn(),
+    markFailed: jest.fn(),
+  };
+
+  const job = (overrides: Record<string, unknown> = {}) => ({
+    id: 'job-1',
+    name: 'test.job',
+    payload: { value: 1 },
+    status: 'running',
+    attempts: 1,
+    maxAttempts: 3,
+    runAt: now,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JobWorkerService,
+        JobQueueService,
+        { provide: JobsRepository, useValue: mockRepository },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) =>
+              key === 'NODE_ENV' ? 'test' : undefined,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    worker = module.get<JobWorkerService>(JobWorkerService);
+    queue = module.get<JobQueueService>(JobQueueService);
+    mockRepository.failExpiredLeases.mockResolvedValue(0);
+    mockRepository.renewLease.mockResolvedValue(true);
+  });
+
+  it('runs leased jobs with their handler and completes them', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    queue.registerHandler('test.job', handler);
+    mockRepository.lease.mockResolvedValue([job()]);
+
+    await expect(worker.tick(now)).resolves.toBe(1);
+
+    expect(handler).toHaveBeenCalledWith({ value: 1 }, job());
+    expect(mockRepository.markCompleted).toHaveBeenCalledWith(
+      'job-1',
+      expect.any(String),
+    );
+  });
+
+  it('retries a failed attempt with backoff', async () => {
+    queue.registerHandler('test.job', () =>
+      Promise.reject(new Error('provider down')),
+    );
+    mockRepository.lease.mockResolvedValue([job({ attempts: 2 })]);
+
+    await worker.tick(now);
+
+    expect(mockRepository.markForRetry).toHaveBeenCalledWith(
+      'job-1',
+      expect.any(String),
+      new Date(now.getTime() + RETRY_BASE_DELAY_MS * 2),
+      'provider down',
+    );
+    expect(mockRepository.markFailed).not.toHaveBeenCalled();
+  });
+
+  it('dead-letters a job on its last attempt', async () => {
+    queue.registerHandler('test.job', () =>
+      Promise.reject(new Error('provider down')),
+    );
+    mockRepository.lease.mockResolvedValue([job({ attempts: 3 })]);
+
+    await worker.tick(now);
+
+    expect(mockRepository.markFailed).toHaveBeenCalledWith(
+      'job-1',
+      expect.any(String),
+      'provider down',
+    );
+    expect(mockRepository.markForRetry).not.toHaveBeenCalled();
+  });
+
+  it('treats a job without a handler as a failed attempt', async () => {
+    mockRepository.lease.mockResolvedValue([job({ name: 'unknown.job' })]);
+
+    await worker.tick(now);
+
+    expect(mockRepository.markForRetry).toHaveBeenCalledWith(
+      'job-1',
+      expect.any(String),
+      expect.any(Date),
+      'No handler registered for job "unknown.job"',
+    );
+  });
+
+  it('queues due schedules before leasing', async () => {
+    queue.registerHandler('test.job', jest.fn());
+    queue.registerSchedule(
+      'test.job',
+      '* * * * *',
+      {},
+      new Date('2026-03-10T09:58:30.000Z'),
+    );
+    mockRepository.createScheduled.mockResolvedValue(true);
+    mockRepository.lease.mockResolvedValue([]);
+
+    await worker.tick(now);
+
+    expect(mockRepository.createScheduled).toHaveBeenCalledWith(
+      expect.objectContaining({
+        scheduleKey: 'test.job',
+        runAt: new Date('2026-03-10T09:59:00.000Z'),
+      }),
+    );
+    expect(mockRepository.lease).toHaveBeenCalled();
+  });
+
+  it('dead-letters jobs whose lease expired on their last attempt', async () => {
+    mockRepository.lease.mockResolvedValue([]);
+
+    await worker.tick(now);
+
+    expect(mockRepository.failExpiredLeases).toHaveBeenCalledWith(
+      LEASE_EXPIRED_ERROR,
+    );
+  });
+
+  it('skips a job whose lease was lost before it started', async () => {
+    const handler = jest.fn();
+    queue.registerHandler('test.job', handler);
+    mockRepository.lease.mockResolvedValue([job()]);
+    mockRepository.renewLease.mockResolvedValue(false);
+
+    await worker.tick(now);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(mockRepository.markCompleted).not.toHaveBeenCalled();
+  });
+
+  it('renews the lease while a long job runs', async () => {
+    jest.useFakeTimers();
+    try {
+      let finish!: () => void;
+      queue.registerHandler(
+        'test.job',
+        () => new Promise<void>((resolve) => (finish = resolve)),
+      );
+      mockRepository.lease.mockResolvedValue([job()]);
+
+      const tick = worker.tick(now);
+      await jest.advanceTimersByTimeAsync(JOB_LEASE_RENEW_INTERVAL_MS * 2);
+
+      // Once before the job starts, then on every heartbeat
+      expect(mockRepository.renewLease).toHaveBeenCalledTimes(3);
+      expect(mockRepository.renewLease).toHaveBeenCalledWith(
+        'job-1',
+        expect.any(String),
+        expect.any(Date),
+      );
+
+      finish();
+      await tick;
+      await jest.advanceTimersByTimeAsync(JOB_LEASE_RENEW_INTERVAL_MS * 2);
+
+      expect(mockRepository.renewLease).toHaveBeenCalledTimes(3);
+      expect(mockRepository.markCompleted).toHaveBeenCalled();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('does not start in tests', () => {
+    const setIntervalSpy = jest.spyOn(global, 'setInterval');
+
+    worker.onApplicationBootstrap();
+
+    expect(setIntervalSpy).not.toHaveBeenCalled();
+    setIntervalSpy.mockRestore();
+  });
+});
@@ -0,0 +1,187 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Job } from '@prisma/client';
+import { JobsRepository } from '../repositories/jobs.repository';
+import { EnqueueOptions, JobHandler } from '../types';
+import { CronExpression } from '../utils/cron-expression';
+import { DEFAULT_MAX_ATTEMPTS } from '../constants/job.constants';
+import { JobDto } from '../dtos';
+import { PaginatedResponse } from '../../../common/dtos/pagination.dto';
+
+interface RegisteredSchedule {
+  name: string;
+  cron: CronExpression;
+  payload: Record<string, unknown>;
+  nextRunAt: Date;
+}
+
+/**
+ * Job queue service: the entry point for producing background work.
+ *
+ * Responsibilities:
+ * - Handler registry (modules register handlers on init)
+ * - Enqueueing one-off jobs
+ * - Cron schedules, materialized as jobs when a slot comes due
+ * - Listing and retrying dead-lettered jobs
+ */
+@Injectable()
+export class JobQueueService {
+  private readonly logger = new Logger(JobQueueService.name);
+  private readonly handlers = new Map<string, JobHandler>();
+  private readonly schedules = new Map<string, RegisteredSchedule>();
+
+  constructor(private jobsRepository: JobsRepository) {}
+
+  /**
+   * Registers the handler that runs jobs with the given name.
+   *
+   * @throws Error if a handler is already registered for the name
+   */
+  registerHandler<TPayload = Record<string, unknown>>(
+    name: string,
+    handler: JobHandler<TPayload>,
+  ): void {
+    if (this.handlers.has(name)) {
+      throw new Error(`A handler is already registered for job "${name}"`);
+    }
+    this.handlers.set(name, handler as JobHandler);
+  }
+
+  getHandler(name: string): JobHandler | undefined {
+    return this.handlers.get(name);
+  }
+
+  /**
+   * Runs a job on a cron schedule (UTC). The job name doubles as the
+   * schedule key, so each job name can have one schedule.
+   *
+   * @param name - Job name; a handler must be registered for it
+   * @param expression - 5-field cron expression
+   * @param payload - Payload passed to every scheduled run
+   * @throws Error if the expression is invalid or the job is already scheduled
+   */
+  registerSchedule(
+    name: string,
+    expression: string,
+    payload: Record<string, unknown> = {},
+    now: Date = new Date(),
+  ): void {
+    if (this.schedules.has(name)) {
+      throw new Error(`Job "${name}" is already scheduled`);
+    }
+    const cron = CronExpression.parse(expression);
+    this.schedules.set(name, {
+      name,
+      cron,
+      payload,
+      nextRunAt: cron.next(now),
+    });
+  }
+
+  /**
+   * Adds a job to the queue.
+   *
+   * @param name - Job name
+   * @param payload - JSON-serializable job input
+   * @param options - When to run and how often to try
+   * @returns The queued job
+   */
+  async enqueue(
+    name: string,
+    payload: Record<string, unknown> = {},
+    options: EnqueueOptions = {},
+  ): Promise<Job> {
+    const runAt =
+      options.runAt ?? new Date(Date.now() + (options.delayMs ?? 0));
+    return this.jobsRepository.create({
+      name,
+      payload,
+      runAt,
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    });
+  }
+
+  /**
+   * Queues a job for every schedule whose next slot has come. Missed slots
+   * (e.g. while no instance was running) are not backfilled: a schedule
+   * runs once and moves on to its next future slot.
+   *
+   * @param now - Reference time (defaults to the current time)
+   * @returns Number of jobs queued by this instance
+   */
+  async enqueueDueSchedules(now: Date = new Date()): Promise<number> {
+    let queued = 0;
+    for (const schedule of this.schedules.values()) {
+      if (schedule.nextRunAt.getTime() > now.getTime()) {
+        continue;
+      }
+
+      const created = await this.jobsRepository.createScheduled({
+        name: schedule.name,
+        payload: schedule.payload,
+        runAt: schedule.nextRunAt,
+        maxAttempts: DEFAULT_MAX_ATTEMPTS,
+        scheduleKey: schedule.name,
+      });
+      if (created) {
+        queued += 1;
+      }
+      schedule.nextRunAt = schedule.cron.next(now);
+    }
+    return queued;
+  }
+
+  /**
+   * Lists dead-lettered jobs.
+   *
+   * @param page - Page number (1-based)
+   * @param limit - Page size
+   * @returns Paginated failed jobs, most recent failure first
+   */
+  async listFailedJobs(
+    page: number,
+    limit: number,
+  ): Promise<PaginatedResponse<JobDto>> {
+    const { jobs, total } = await this.jobsRepository.findFailed(
+      (page - 1) * limit,
+      limit,
+    );
+    return new PaginatedResponse(
+      jobs.map((job) => this.mapJobToDto(job)),
+      page,
+      limit,
+      total,
+    );
+  }
+
+  /**
+   * Re-queues a dead-lettered job to run immediately with a fresh set of
+   * attempts.
+   *
+   * @param jobId - The job ID
+   * @returns The re-queued job
+   * @throws NotFoundException if no failed job has that ID
+   */
+  async retryFailedJob(jobId: string): Promise<JobDto> {
+    const job = await this.jobsRepository.requeueFailed(jobId, new Date());
+    if (!job) {
+      throw new NotFoundException('Failed job not found');
+    }
+    this.logger.log(`Failed job ${jobId} (${job.name}) re-queued`);
+    return this.mapJobToDto(job);
+  }
+
+  private mapJobToDto(job: Job): JobDto {
+    return {
+      id: job.id,
+      name: job.name,
+      payload: job.payload as Record<string, unknown>,
+      status: job.status,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      runAt: job.runAt,
+      lastError: job.lastError,
+      failedAt: job.failedAt,
+      createdAt: job.createdAt,
+    };
+  }
+}
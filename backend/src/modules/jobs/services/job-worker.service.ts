@@ -0,0 +1,187 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Job } from '@prisma/client';
+import { hostname } from 'os';
+import { randomBytes } from 'crypto';
+import { JobQueueService } from './job-queue.service';
+import { JobsRepository } from '../repositories/jobs.repository';
+import { retryDelayMs } from '../utils/retry-backoff';
+import {
+  JOB_LEASE_MS,
+  JOB_LEASE_RENEW_INTERVAL_MS,
+  LEASE_EXPIRED_ERROR,
+  MAX_JOB_ERROR_LENGTH,
+  WORKER_BATCH_SIZE,
+  WORKER_POLL_INTERVAL_MS,
+} from '../constants/job.constants';
+
+/**
+ * Polls the queue and runs leased jobs with their registered handlers.
+ *
+ * Starts once every module has registered its handlers. Disabled with
+ * JOBS_WORKER_ENABLED=false (e.g. on instances that only serve API traffic)
+ * and in tests.
+ */
+@Injectable()
+export class JobWorkerService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(JobWorkerService.name);
+  private readonly workerId = `${hostname()}:${process.pid}:${randomBytes(4).toString('hex')}`;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private jobQueueService: JobQueueService,
+    private jobsRepository: JobsRepository,
+    private configService: ConfigService,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    const enabled =
+      this.configService.get<string>('JOBS_WORKER_ENABLED') !== 'false' &&
+      this.configService.get<string>('NODE_ENV') !== 'test';
+    if (!enabled) {
+      return;
+    }
+
+    this.timer = setInterval(() => void this.tick(), WORKER_POLL_INTERVAL_MS);
+    // Don't keep the process alive just for the worker
+    this.timer.unref();
+    this.logger.log(`Job worker ${this.workerId} started`);
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Runs one polling cycle: queues due schedules, dead-letters jobs whose
+   * worker stopped on their last attempt, then leases and runs a batch of
+   * jobs. Skipped while the previous cycle is still in progress.
+   *
+   * @param now - Reference time (defaults to the current time)
+   * @returns Number of jobs run
+   */
+  async tick(now: Date = new Date()): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    try {
+      await this.jobQueueService.enqueueDueSchedules(now);
+      const deadLettered =
+        await this.jobsRepository.failExpiredLeases(LEASE_EXPIRED_ERROR);
+      if (deadLettered > 0) {
+        this.logger.error(
+          `Dead-lettered ${deadLettered} jobs whose lease expired on their last attempt`,
+        );
+      }
+      const jobs = await this.jobsRepository.lease(
+        this.workerId,
+        WORKER_BATCH_SIZE,
+        new Date(now.getTime() + JOB_LEASE_MS),
+      );
+      for (const job of jobs) {
+        await this.runJob(job, now);
+      }
+      return jobs.length;
+    } catch (error) {
+      this.logger.error(`Job worker cycle failed: ${(error as Error).message}`);
+      return 0;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Runs a leased job. Failed attempts are retried with exponential backoff;
+   * once the job is out of attempts it is dead-lettered.
+   *
+   * The lease is renewed before the job starts (jobs later in the batch have
+   * waited for the ones before them) and periodically while it runs, so a
+   * long job is not taken over by another worker.
+   */
+  private async runJob(job: Job, now: Date): Promise<void> {
+    if (!(await this.renewLease(job))) {
+      this.logger.warn(
+        `Job ${job.id} (${job.name}) lease was lost before it started, skipping`,
+      );
+      return;
+    }
+
+    const heartbeat = setInterval(
+      () => void this.renewLease(job),
+      JOB_LEASE_RENEW_INTERVAL_MS,
+    );
+    heartbeat.unref();
+    try {
+      await this.executeJob(job, now);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async executeJob(job: Job, now: Date): Promise<void> {
+    try {
+      const handler = this.jobQueueService.getHandler(job.name);
+      if (!handler) {
+        throw new Error(`No handler registered for job "${job.name}"`);
+      }
+      await handler(job.payload as Record<string, unknown>, job);
+      await this.jobsRepository.markCompleted(job.id, this.workerId);
+    } catch (error) {
+      const message = (
+        error instanceof Error ? error.message : String(error)
+      ).slice(0, MAX_JOB_ERROR_LENGTH);
+
+      if (job.attempts >= job.maxAttempts) {
+        await this.jobsRepository.markFailed(job.id, this.workerId, message);
+        this.logger.error(
+          `Job ${job.id} (${job.name}) failed after ${job.attempts} attempts: ${message}`,
+        );
+        return;
+      }
+
+      const runAt = new Date(now.getTime() + retryDelayMs(job.attempts));
+      await this.jobsRepository.markForRetry(
+        job.id,
+        this.workerId,
+        runAt,
+        message,
+      );
+      this.logger.warn(
+        `Job ${job.id} (${job.name}) attempt ${job.attempts} failed, retrying at ${runAt.toISOString()}: ${message}`,
+      );
+    }
+  }
+
+  /**
+   * Extends the job's lease from the current time.
+   *
+   * @returns false if the lease was lost or could not be renewed
+   */
+  private async renewLease(job: Job): Promise<boolean> {
+    try {
+      return await this.jobsRepository.renewLease(
+        job.id,
+        this.workerId,
+        new Date(Date.now() + JOB_LEASE_MS),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to renew lease of job ${job.id}: ${(error as Error).message}`,
+      );
+      return false;
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { Job } from '@prisma/client';
+
+/**
+ * Runs one job. Throwing marks the attempt as failed and schedules a retry
+ * until the job runs out of attempts.
+ */
+export type JobHandler<TPayload = Record<string, unknown>> = (
+  payload: TPayload,
+  job: Job,
+) => Promise<void>;
+
+export interface EnqueueOptions {
+  /** Earliest time the job may run (defaults to now). */
+  runAt?: Date;
+  /** Alternative to runAt: delay from now in milliseconds. */
+  delayMs?: number;
+  maxAttempts?: number;
+}
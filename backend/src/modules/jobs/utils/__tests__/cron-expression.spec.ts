@@ -0,0 +1,93 @@
+import { CronExpression } from '../cron-expression';
+
+describe('CronExpression', () => {
+  describe('next', () => {
+    it.each([
+      [
+        'every minute',
+        '* * * * *',
+        '2026-03-10T10:15:30.000Z',
+        '2026-03-10T10:16:00.000Z',
+      ],
+      [
+        'every 15 minutes',
+        '*/15 * * * *',
+        '2026-03-10T10:15:00.000Z',
+        '2026-03-10T10:30:00.000Z',
+      ],
+      [
+        'daily at 02:00 (later today)',
+        '0 2 * * *',
+        '2026-03-10T01:59:00.000Z',
+        '2026-03-10T02:00:00.000Z',
+      ],
+      [
+        'daily at 02:00 (tomorrow)',
+        '0 2 * * *',
+        '2026-03-10T02:00:00.000Z',
+        '2026-03-11T02:00:00.000Z',
+      ],
+      [
+        'weekdays at 09:30 over a weekend',
+        '30 9 * * 1-5',
+        '2026-03-13T10:00:00.000Z', // Friday
+        '2026-03-16T09:30:00.000Z', // Monday
+      ],
+      [
+        'Sunday written as 7',
+        '0 0 * * 7',
+        '2026-03-10T00:00:00.000Z',
+        '2026-03-15T00:00:00.000Z',
+      ],
+      [
+        'first of the month across a year boundary',
+        '0 0 1 * *',
+        '2026-12-15T00:00:00.000Z',
+        '2027-01-01T00:00:00.000Z',
+      ],
+      [
+        'listed hours',
+        '0 6,18 * * *',
+        '2026-03-10T07:00:00.000Z',
+        '2026-03-10T18:00:00.000Z',
+      ],
+      [
+        'day of month OR day of week when both are set',
+        '0 0 20 * 1',
+        '2026-03-10T00:00:00.000Z', // Tuesday
+        '2026-03-16T00:00:00.000Z', // Monday comes before the 20th
+      ],
+      [
+        'leap day',
+        '0 0 29 2 *',
+        '2026-03-01T00:00:00.000Z',
+        '2028-02-29T00:00:00.000Z',
+      ],
+    ])('%s', (_label, expression, after, expected) => {
+      expect(CronExpression.parse(expression).next(new Date(after))).toEqual(
+        new Date(expected),
+      );
+    });
+
+    it('throws when the expression can never match', () => {
+      expect(() => CronExpression.parse('0 0 30 2 *').next(new Date())).toThrow(
+        'never matches',
+      );
+    });
+  });
+
+  describe('parse', () => {
+    it.each([
+      ['too few fields', '* * * *'],
+      ['an out-of-range minute', '60 * * * *'],
+      ['an out-of-range month', '0 0 1 13 *'],
+      ['a reversed range', '0 5-1 * * *'],
+      ['a zero step', '*/0 * * * *'],
+      ['a non-numeric value', 'a * * * *'],
+    ])('rejects %s', (_label, expression) => {
+      expect(() => CronExpression.parse(expression)).toThrow(
+        'Invalid cron expression',
+      );
+    });
+  });
+});
@@ -0,0 +1,20 @@
+import { retryDelayMs } from '../retry-backoff';
+import {
+  MAX_RETRY_DELAY_MS,
+  RETRY_BASE_DELAY_MS,
+} from '../../constants/job.constants';
+
+describe('retryDelayMs', () => {
+  it.each([
+    [1, RETRY_BASE_DELAY_MS],
+    [2, RETRY_BASE_DELAY_MS * 2],
+    [3, RETRY_BASE_DELAY_MS * 4],
+    [4, RETRY_BASE_DELAY_MS * 8],
+  ])('doubles the delay after attempt %i', (attempt, expected) => {
+    expect(retryDelayMs(attempt)).toBe(expected);
+  });
+
+  it('caps the delay', () => {
+    expect(retryDelayMs(30)).toBe(MAX_RETRY_DELAY_MS);
+  });
+});
@@ -0,0 +1,158 @@
+interface CronField {
+  min: number;
+  max: number;
+}
+
+const FIELDS: CronField[] = [
+  { min: 0, max: 59 }, // minute
+  { min: 0, max: 23 }, // hour
+  { min: 1, max: 31 }, // day of month
+  { min: 1, max: 12 }, // month
+  { min: 0, max: 7 }, // day of week (0 and 7 are Sunday)
+];
+
+/** Upper bound for the search so impossible dates (e.g. Feb 30) terminate. */
+const MAX_SEARCH_YEARS = 5;
+
+/**
+ * Standard 5-field cron expression (`minute hour day-of-month month
+ * day-of-week`) evaluated in UTC. Supports `*`, lists (`1,15`), ranges
+ * (`1-5`) and steps (`*\/15`, `0-30/10`). As in cron, when both day fields
+ * are restricted a day matches if either one does.
+ */
+export class CronExpression {
+  private constructor(
+    readonly source: string,
+    private readonly minutes: Set<number>,
+    private readonly hours: Set<number>,
+    private readonly daysOfMonth: Set<number>,
+    private readonly months: Set<number>,
+    private readonly daysOfWeek: Set<number>,
+    private readonly domRestricted: boolean,
+    private readonly dowRestricted: boolean,
+  ) {}
+
+  /**
+   * Parses an expression.
+   *
+   * @throws Error if the expression is malformed or out of range
+   */
+  static parse(expression: string): CronExpression {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== FIELDS.length) {
+      throw new Error(
+        `Invalid cron expression "${expression}": expected ${FIELDS.length} fields`,
+      );
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map(
+      (part, index) => this.parseField(part, FIELDS[index], expression),
+    );
+    if (daysOfWeek.delete(7)) {
+      daysOfWeek.add(0);
+    }
+
+    return new CronExpression(
+      expression,
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek,
+      parts[2] !== '*',
+      parts[4] !== '*',
+    );
+  }
+
+  /**
+   * Computes the first matching minute strictly after `after`.
+   *
+   * @throws Error if the expression never matches (e.g. `0 0 30 2 *`)
+   */
+  next(after: Date): Date {
+    const candidate = new Date(after.getTime());
+    candidate.setUTCSeconds(0, 0);
+    candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+    const limit = Date.UTC(after.getUTCFullYear() + MAX_SEARCH_YEARS, 0, 1);
+    while (candidate.getTime() < limit) {
+      if (!this.months.has(candidate.getUTCMonth() + 1)) {
+        candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1);
+        candidate.setUTCHours(0, 0);
+        continue;
+      }
+      if (!this.matchesDay(candidate)) {
+        candidate.setUTCDate(candidate.getUTCDate() + 1);
+        candidate.setUTCHours(0, 0);
+        continue;
+      }
+      if (!this.hours.has(candidate.getUTCHours())) {
+        candidate.setUTCHours(candidate.getUTCHours() + 1, 0);
+        continue;
+      }
+      if (!this.minutes.has(candidate.getUTCMinutes())) {
+        candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+        continue;
+      }
+      return candidate;
+    }
+
+    throw new Error(`Cron expression "${this.source}" never matches`);
+  }
+
+  private matchesDay(date: Date): boolean {
+    const domMatch = this.daysOfMonth.has(date.getUTCDate());
+    const dowMatch = this.daysOfWeek.has(date.getUTCDay());
+    if (this.domRestricted && this.dowRestricted) {
+      return domMatch || dowMatch;
+    }
+    return domMatch && dowMatch;
+  }
+
+  private static parseField(
+    part: string,
+    field: CronField,
+    expression: string,
+  ): Set<number> {
+    const values = new Set<number>();
+    const invalid = () =>
+      new Error(`Invalid cron expression "${expression}": bad field "${part}"`);
+
+    for (const item of part.split(',')) {
+      const [range, stepText] = item.split('/');
+      const step = stepText === undefined ? 1 : Number(stepText);
+      if (!Number.isInteger(step) || step < 1) {
+        throw invalid();
+      }
+
+      let start: number;
+      let end: number;
+      if (range === '*') {
+        start = field.min;
+        end = field.max;
+      } else if (range.includes('-')) {
+        [start, end] = range.split('-').map(Number);
+      } else {
+        start = Number(range);
+        // "5/10" means from 5 to the end of the range in steps of 10
+        end = stepText === undefined ? start : field.max;
+      }
+
+      if (
+        !Number.isInteger(start) ||
+        !Number.isInteger(end) ||
+        start < field.min ||
+        end > field.max ||
+        start > end
+      ) {
+        throw invalid();
+      }
+
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    }
+
+    return values;
+  }
+}
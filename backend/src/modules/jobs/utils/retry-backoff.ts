@@ -0,0 +1,16 @@
+import {
+  MAX_RETRY_DELAY_MS,
+  RETRY_BASE_DELAY_MS,
+} from '../constants/job.constants';
+
+/**
+ * Exponential backoff for failed job attempts: 30s, 1m, 2m, 4m, … capped at
+ * one hour.
+ *
+ * @param attempt - Number of the attempt that just failed (1-based)
+ * @returns Delay before the next attempt in milliseconds
+ */
+export function retryDelayMs(attempt: number): number {
+  const exponent = Math.max(attempt, 1) - 1;
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** exponent, MAX_RETRY_DELAY_MS);
+}
@@ -0,0 +1,10 @@
+/** Meal slots a day can be planned in, in display order. */
+export const MEAL_SLOTS = ['breakfast', 'lunch', 'dinner', 'snack'] as const;
+
+export type MealSlot = (typeof MEAL_SLOTS)[number];
+
+/** Longest date range (inclusive, in days) a single meal plan query may cover. */
+export const MAX_MEAL_PLAN_RANGE_DAYS = 62;
+
+/** Calendar date without time, as used for meal plan dates (YYYY-MM-DD). */
+export const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
@@ -0,0 +1,102 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import { MealPlansService } from '../services/meal-plans.service';
+import {
+  CreateMealPlanEntryDto,
+  GenerateShoppingListDto,
+  MealPlanQueryDto,
+  UpdateMealPlanEntryDto,
+} from '../dtos';
+import {
+  JwtAuthGuard,
+  HouseholdGuard,
+  PermissionGuard,
+} from '../../../common/guards';
+import {
+  CurrentUser,
+  CurrentUserPayload,
+  RequirePermission,
+} from '../../../common/decorators';
+import { PERMISSIONS } from '../../../common/constants';
+
+/**
+ * Meal plans controller for planning the household's meals by date and slot.
+ * API Version: 1
+ * All endpoints require authentication and household membership.
+ */
+@Controller({ path: 'meal-plans', version: '1' })
+@UseGuards(JwtAuthGuard, HouseholdGuard, PermissionGuard)
+export class MealPlansController {
+  constructor(private mealPlansService: MealPlansService) {}
+
+  @Get()
+  async getEntries(
+    @CurrentUser() user: CurrentUserPayload,
+    @Query() query: MealPlanQueryDto,
+  ) {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    return this.mealPlansService.getEntries(user.householdId, query);
+  }
+
+  @Post()
+  @RequirePermission(PERMISSIONS.MEAL_PLANS_EDIT)
+  async createEntry(
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: CreateMealPlanEntryDto,
+  ) {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    return this.mealPlansService.createEntry(user.householdId, dto);
+  }
+
+  @Post('shopping-list')
+  @RequirePermission(PERMISSIONS.MEAL_PLANS_EDIT)
+  async generateShoppingList(
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: GenerateShoppingListDto,
+  ) {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    return this.mealPlansService.generateShoppingList(user.householdId, dto);
+  }
+
+  @Patch(':id')
+  @RequirePermission(PERMISSIONS.MEAL_PLANS_EDIT)
+  async updateEntry(
+    @CurrentUser() user: CurrentUserPayload,
+    @Param('id') entryId: string,
+    @Body() dto: UpdateMealPlanEntryDto,
+  ) {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    return this.mealPlansService.updateEntry(entryId, user.householdId, dto);
+  }
+
+  @Delete(':id')
+  @RequirePermission(PERMISSIONS.MEAL_PLANS_EDIT)
+  async deleteEntry(
+    @CurrentUser() user: CurrentUserPayload,
+    @Param('id') entryId: string,
+  ) {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    await this.mealPlansService.deleteEntry(entryId, user.householdId);
+    return { success: true };
+  }
+}
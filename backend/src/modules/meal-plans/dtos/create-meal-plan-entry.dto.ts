@@ -0,0 +1,45 @@
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { DATE_ONLY_PATTERN, MEAL_SLOTS, MealSlot } from '../constants';
+
+export class CreateMealPlanEntryDto {
+  /** Calendar date (YYYY-MM-DD) */
+  @Matches(DATE_ONLY_PATTERN, { message: 'date must be formatted YYYY-MM-DD' })
+  date: string;
+
+  @IsIn(MEAL_SLOTS)
+  mealSlot: MealSlot;
+
+  @IsString()
+  @IsOptional()
+  recipeId?: string;
+
+  /** Free text meal (e.g. "Leftovers"); required when no recipe is linked. */
+  @ValidateIf((entry) => !entry.recipeId)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(120)
+  title?: string;
+
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  @IsOptional()
+  servings?: number;
+
+  /** Household member cooking this meal */
+  @IsUUID()
+  @IsOptional()
+  cookId?: string;
+}
@@ -0,0 +1,31 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { MealPlanQueryDto } from './meal-plan-query.dto';
+import { CookLineDecisionDto } from '../../recipes/dtos';
+
+/**
+ * Adds the ingredients of every recipe planned in the range to a shopping list.
+ */
+export class GenerateShoppingListDto extends MealPlanQueryDto {
+  @IsString()
+  @IsNotEmpty()
+  targetListId: string;
+
+  /** When true, only the plan is returned and nothing is written. */
+  @IsBoolean()
+  @IsOptional()
+  preview?: boolean;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CookLineDecisionDto)
+  @IsOptional()
+  lines?: CookLineDecisionDto[];
+}
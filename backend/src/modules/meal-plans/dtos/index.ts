@@ -0,0 +1,5 @@
+export * from './create-meal-plan-entry.dto';
+export * from './update-meal-plan-entry.dto';
+export * from './meal-plan-query.dto';
+export * from './generate-shopping-list.dto';
+export * from './meal-plan-entry-response.dto';
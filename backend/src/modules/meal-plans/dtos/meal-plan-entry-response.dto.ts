@@ -0,0 +1,15 @@
+export class MealPlanEntryDto {
+  id: string;
+  /** Calendar date (YYYY-MM-DD) */
+  date: string;
+  mealSlot: string;
+  recipeId?: string;
+  recipeTitle?: string;
+  /** Free text title, or the recipe title when a recipe is linked */
+  title: string;
+  servings?: number;
+  cookId?: string;
+  cookName?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
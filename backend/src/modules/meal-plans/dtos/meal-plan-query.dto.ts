@@ -0,0 +1,13 @@
+import { Matches } from 'class-validator';
+import { DATE_ONLY_PATTERN } from '../constants';
+
+/**
+ * Inclusive date range of a meal plan query.
+ */
+export class MealPlanQueryDto {
+  @Matches(DATE_ONLY_PATTERN, { message: 'from must be formatted YYYY-MM-DD' })
+  from: string;
+
+  @Matches(DATE_ONLY_PATTERN, { message: 'to must be formatted YYYY-MM-DD' })
+  to: string;
+}
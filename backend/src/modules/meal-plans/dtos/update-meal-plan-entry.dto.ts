@@ -0,0 +1,46 @@
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { DATE_ONLY_PATTERN, MEAL_SLOTS, MealSlot } from '../constants';
+
+export class UpdateMealPlanEntryDto {
+  @Matches(DATE_ONLY_PATTERN, { message: 'date must be formatted YYYY-MM-DD' })
+  @IsOptional()
+  date?: string;
+
+  @IsIn(MEAL_SLOTS)
+  @IsOptional()
+  mealSlot?: MealSlot;
+
+  /** Links a recipe; null unlinks it (the entry then needs a title). */
+  @IsString()
+  @IsOptional()
+  recipeId?: string | null;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(120)
+  @IsOptional()
+  title?: string | null;
+
+  /** Replaces the servings; null clears them. */
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  @IsOptional()
+  servings?: number | null;
+
+  /** Replaces the cook; null unassigns. */
+  @IsUUID()
+  @IsOptional()
+  cookId?: string | null;
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { MealPlansController } from './controllers/meal-plans.controller';
+import { MealPlansService } from './services/meal-plans.service';
+import { MealPlansRepository } from './repositories/meal-plans.repository';
+import { PrismaModule } from '../../infrastructure/database/prisma/prisma.module';
+import { RecipesModule } from '../recipes/recipes.module';
+
+@Module({
+  imports: [PrismaModule, RecipesModule],
+  controllers: [MealPlansController],
+  providers: [MealPlansService, MealPlansRepository],
+})
+export class MealPlansModule {}
@@ -0,0 +1,108 @@
+import { Injectable } from '@nestjs/common';
+import { MealPlanEntry, Prisma, Recipe, User } from '@prisma/client';
+import { PrismaService } from '../../../infrastructure/database/prisma/prisma.service';
+import { ACTIVE_RECORDS_FILTER } from '../../../infrastructure/database/filters/soft-delete.filter';
+
+export type MealPlanEntryWithRelations = MealPlanEntry & {
+  recipe: Pick<Recipe, 'id' | 'title'> | null;
+  cook: Pick<User, 'id' | 'name'> | null;
+};
+
+const ENTRY_INCLUDE = {
+  recipe: { select: { id: true, title: true } },
+  cook: { select: { id: true, name: true } },
+} satisfies Prisma.MealPlanEntryInclude;
+
+@Injectable()
+export class MealPlansRepository {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Lists a household's entries between two dates (inclusive), by date and
+   * creation order.
+   */
+  async findEntries(
+    householdId: string,
+    from: Date,
+    to: Date,
+  ): Promise<MealPlanEntryWithRelations[]> {
+    return this.prisma.mealPlanEntry.findMany({
+      where: {
+        householdId,
+        date: { gte: from, lte: to },
+        ...ACTIVE_RECORDS_FILTER,
+      },
+      include: ENTRY_INCLUDE,
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  async findEntryById(id: string): Promise<MealPlanEntryWithRelations | null> {
+    return this.prisma.mealPlanEntry.findFirst({
+      where: { id, ...ACTIVE_RECORDS_FILTER },
+      include: ENTRY_INCLUDE,
+    });
+  }
+
+  async createEntry(
+    data: Prisma.MealPlanEntryUncheckedCreateInput,
+  ): Promise<MealPlanEntryWithRelations> {
+    return this.prisma.mealPlanEntry.create({
+      data,
+      include: ENTRY_INCLUDE,
+    });
+  }
+
+  async updateEntry(
+    id: string,
+    data: Prisma.MealPlanEntryUncheckedUpdateInput,
+  ): Promise<MealPlanEntryWithRelations> {
+    return this.prisma.mealPlanEntry.update({
+      where: { id },
+      data,
+      include: ENTRY_INCLUDE,
+    });
+  }
+
+  /**
+   * Soft-deletes an entry by setting deletedAt timestamp.
+   */
+  async deleteEntry(id: string): Promise<void> {
+    await this.prisma.mealPlanEntry.update({
+      where: { id },
+      data: { deletedAt: new Date() },
+    });
+  }
+
+  async findRecipe(
+    id: string,
+  ): Promise<Pick<Recipe, 'id' | 'householdId'> | null> {
+    return this.prisma.recipe.findFirst({
+      where: { id, ...ACTIVE_RECORDS_FILTER },
+      select: { id: true, householdId: true },
+    });
+  }
+
+  /**
+   * Loads the ingredients and servings of the given recipes (only those of the household).
+   */
+  async findRecipesWithIngredients(
+    householdId: string,
+    recipeIds: string[],
+  ): Promise<Pick<Recipe, 'id' | 'ingredients' | 'servings'>[]> {
+    return this.prisma.recipe.findMany({
+      where: { id: { in: recipeIds }, householdId, ...ACTIVE_RECORDS_FILTER },
+      select: { id: true, ingredients: true, servings: true },
+    });
+  }
+
+  async isHouseholdMember(
+    householdId: string,
+    userId: string,
+  ): Promise<boolean> {
+    const count = await this.prisma.householdMembership.count({
+      where: { userId, householdId },
+    });
+    return count > 0;
+  }
+}
@@ -0,0 +1,292 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { MealPlansService } from './meal-plans.service';
+import { MealPlansRepository } from '../repositories/meal-plans.repository';
+import { RecipesService } from '../../recipes/services/recipes.service';
+
+describe('MealPlansService', () => {
+  let service: MealPlansService;
+
+  const householdId = 'household-1';
+  const now = new Date('2026-03-10T12:00:00.000Z');
+
+  const mockRepository = {
+    findEntries: jest.fn(),
+    findEntryById: jest.fn(),
+    createEntry: jest.fn(),
+    updateEntry: jest.fn(),
+    deleteEntry: jest.fn(),
+    findRecipe: jest.fn(),
+    findRecipesWithIngredients: jest.fn(),
+    isHouseholdMember: jest.fn(),
+  };
+
+  const mockRecipesService = {
+    addIngredientsToList: jest.fn(),
+  };
+
+  const entry = (overrides: Record<string, unknown> = {}) => ({
+    id: 'entry-1',
+    householdId,
+    date: new Date('2026-03-12T00:00:00.000Z'),
+    mealSlot: 'dinner',
+    recipeId: null,
+    title: 'Leftovers',
+    servings: null,
+    cookId: null,
+    createdAt: now,
+    updatedAt: now,
+    deletedAt: null,
+    recipe: null,
+    cook: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockRepository.createEntry.mockImplementation((data) =>
+      entry({ ...data, id: 'entry-new' }),
+    );
+    mockRepository.updateEntry.mockImplementation((id, data) =>
+      entry({ id, ...data }),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MealPlansService,
+        { provide: MealPlansRepository, useValue: mockRepository },
+        { provide: RecipesService, useValue: mockRecipesService },
+      ],
+    }).compile();
+
+    service = module.get<MealPlansService>(MealPlansService);
+  });
+
+  describe('getEntries', () => {
+    it('queries the inclusive range and maps dates to calendar days', async () => {
+      mockRepository.findEntries.mockResolvedValue([
+        entry({
+          recipeId: 'recipe-1',
+          title: null,
+          recipe: { id: 'recipe-1', title: 'Shakshuka' },
+          cook: { id: 'user-1', name: 'Dana' },
+          cookId: 'user-1',
+        }),
+      ]);
+
+      const result = await service.getEntries(householdId, {
+        from: '2026-03-09',
+        to: '2026-03-15',
+      });
+
+      expect(mockRepository.findEntries).toHaveBeenCalledWith(
+        householdId,
+        new Date('2026-03-09T00:00:00.000Z'),
+        new Date('2026-03-15T00:00:00.000Z'),
+      );
+      expect(result[0]).toEqual(
+        expect.objectContaining({
+          date: '2026-03-12',
+          title: 'Shakshuka',
+          recipeTitle: 'Shakshuka',
+          cookName: 'Dana',
+        }),
+      );
+    });
+
+    it.each([
+      ['an inverted range', '2026-03-15', '2026-03-09'],
+      ['a range longer than the maximum', '2026-01-01', '2026-06-01'],
+    ])('rejects %s', async (_label, from, to) => {
+      await expect(
+        service.getEntries(householdId, { from, to }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockRepository.findEntries).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createEntry', () => {
+    it('creates a free text entry', async () => {
+      const result = await service.createEntry(householdId, {
+        date: '2026-03-12',
+        mealSlot: 'dinner',
+        title: ' Pizza night ',
+      });
+
+      expect(mockRepository.createEntry).toHaveBeenCalledWith(
+        expect.objectContaining({
+          householdId,
+          date: new Date('2026-03-12T00:00:00.000Z'),
+          title: 'Pizza night',
+        }),
+      );
+      expect(result.id).toBe('entry-new');
+    });
+
+    it('rejects a recipe from another household', async () => {
+      mockRepository.findRecipe.mockResolvedValue({
+        id: 'recipe-1',
+        householdId: 'other-household',
+      });
+
+      await expect(
+        service.createEntry(householdId, {
+          date: '2026-03-12',
+          mealSlot: 'dinner',
+          recipeId: 'recipe-1',
+        }),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockRepository.createEntry).not.toHaveBeenCalled();
+    });
+
+    it('rejects a cook who is not a household member', async () => {
+      mockRepository.isHouseholdMember.mockResolvedValue(false);
+
+      await expect(
+        service.createEntry(householdId, {
+          date: '2026-03-12',
+          mealSlot: 'dinner',
+          title: 'Soup',
+          cookId: '11111111-1111-1111-1111-111111111111',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('updateEntry', () => {
+    it('rejects unlinking the recipe of an entry without a title', async () => {
+      mockRepository.findEntryById.mockResolvedValue(
+        entry({ recipeId: 'recipe-1', title: null }),
+      );
+
+      await expect(
+        service.updateEntry('entry-1', householdId, { recipeId: null }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockRepository.updateEntry).not.toHaveBeenCalled();
+    });
+
+    it('rejects entries of another household', async () => {
+      mockRepository.findEntryById.mockResolvedValue(
+        entry({ householdId: 'other-household' }),
+      );
+
+      await expect(
+        service.updateEntry('entry-1', householdId, { servings: 4 }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('moves an entry to another day', async () => {
+      mockRepository.findEntryById.mockResolvedValue(entry());
+
+      const result = await service.updateEntry('entry-1', householdId, {
+        date: '2026-03-13',
+      });
+
+      expect(mockRepository.updateEntry).toHaveBeenCalledWith(
+        'entry-1',
+        expect.objectContaining({ date: new Date('2026-03-13T00:00:00.000Z') }),
+      );
+      expect(result.date).toBe('2026-03-13');
+    });
+  });
+
+  describe('generateShoppingList', () => {
+    it('combines the ingredients of every planned recipe', async () => {
+      mockRepository.findEntries.mockResolvedValue([
+        entry({ id: 'entry-1', recipeId: 'recipe-1' }),
+        entry({ id: 'entry-2', recipeId: null }),
+        entry({ id: 'entry-3', recipeId: 'recipe-2' }),
+        entry({ id: 'entry-4', recipeId: 'recipe-1' }),
+      ]);
+      mockRepository.findRecipesWithIngredients.mockResolvedValue([
+        {
+          id: 'recipe-1',
+          ingredients: [
+            { name: 'Onion', quantityAmount: 1, quantityUnit: 'piece' },
+          ],
+        },
+        {
+          id: 'recipe-2',
+          ingredients: [
+            { name: 'Onion', quantityAmount: 2, quantityUnit: 'piece' },
+            { name: 'Rice', quantityAmount: 1, quantityUnit: 'cup' },
+          ],
+        },
+      ]);
+      mockRecipesService.addIngredientsToList.mockResolvedValue({
+        preview: true,
+        servingsMultiplier: 1,
+        lines: [],
+        itemsAdded: [],
+        itemsUpdated: [],
+      });
+
+      await service.generateShoppingList(householdId, {
+        from: '2026-03-09',
+        to: '2026-03-15',
+        targetListId: 'list-1',
+        preview: true,
+      });
+
+      expect(mockRepository.findRecipesWithIngredients).toHaveBeenCalledWith(
+        householdId,
+        ['recipe-1', 'recipe-2'],
+      );
+      expect(mockRecipesService.addIngredientsToList).toHaveBeenCalledWith(
+        householdId,
+        'list-1',
+        [
+          expect.objectContaining({ name: 'Onion', amount: 4, unit: 'piece' }),
+          expect.objectContaining({ name: 'Rice', amount: 1, unit: 'cup' }),
+        ],
+        { preview: true, lines: undefined },
+      );
+    });
+
+    it('scales each meal from the recipe servings to the planned servings', async () => {
+      mockRepository.findEntries.mockResolvedValue([
+        entry({ id: 'entry-1', recipeId: 'recipe-1', servings: 6 }),
+        entry({ id: 'entry-2', recipeId: 'recipe-1' }),
+      ]);
+      mockRepository.findRecipesWithIngredients.mockResolvedValue([
+        {
+          id: 'recipe-1',
+          servings: 2,
+          ingredients: [
+            { name: 'Rice', quantityAmount: 200, quantityUnit: 'g' },
+          ],
+        },
+      ]);
+
+      await service.generateShoppingList(householdId, {
+        from: '2026-03-09',
+        to: '2026-03-15',
+        targetListId: 'list-1',
+      });
+
+      expect(mockRecipesService.addIngredientsToList).toHaveBeenCalledWith(
+        householdId,
+        'list-1',
+        [expect.objectContaining({ name: 'Rice', amount: 800, unit: 'g' })],
+        expect.anything(),
+      );
+    });
+
+    it('rejects a range without planned recipes', async () => {
+      mockRepository.findEntries.mockResolvedValue([entry()]);
+
+      await expect(
+        service.generateShoppingList(householdId, {
+          from: '2026-03-09',
+          to: '2026-03-15',
+          targetListId: 'list-1',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockRecipesService.addIngredientsToList).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,307 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import {
+  MealPlanEntryWithRelations,
+  MealPlansRepository,
+} from '../repositories/meal-plans.repository';
+import {
+  CreateMealPlanEntryDto,
+  GenerateShoppingListDto,
+  MealPlanEntryDto,
+  MealPlanQueryDto,
+  UpdateMealPlanEntryDto,
+} from '../dtos';
+import { MAX_MEAL_PLAN_RANGE_DAYS } from '../constants';
+import { RecipesService } from '../../recipes/services/recipes.service';
+import { CookRecipeResponseDto } from '../../recipes/dtos';
+import { CookPlanner } from '../../recipes/utils/cook-planner';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Meal plans service for the household's weekly dinner (and other meal) plan.
+ *
+ * Responsibilities:
+ * - Meal plan entry CRUD (recipe or free text, servings, cook)
+ * - Date range queries
+ * - Adding the ingredients of planned recipes to a shopping list
+ */
+@Injectable()
+export class MealPlansService {
+  private readonly logger = new Logger(MealPlansService.name);
+
+  constructor(
+    private mealPlansRepository: MealPlansRepository,
+    private recipesService: RecipesService,
+  ) {}
+
+  /**
+   * Lists planned meals between two dates (inclusive).
+   *
+   * @param householdId - The household ID
+   * @param query - Date range
+   * @returns Entries ordered by date
+   * @throws BadRequestException if the range is inverted or too long
+   */
+  async getEntries(
+    householdId: string,
+    query: MealPlanQueryDto,
+  ): Promise<MealPlanEntryDto[]> {
+    const { from, to } = this.parseRange(query);
+    const entries = await this.mealPlansRepository.findEntries(
+      householdId,
+      from,
+      to,
+    );
+    return entries.map((entry) => this.mapEntryToDto(entry));
+  }
+
+  /**
+   * Plans a meal.
+   *
+   * @param householdId - The household ID
+   * @param dto - Entry data
+   * @returns Created entry
+   * @throws NotFoundException if the recipe doesn't exist in the household
+   * @throws BadRequestException if the cook is not a household member
+   */
+  async createEntry(
+    householdId: string,
+    dto: CreateMealPlanEntryDto,
+  ): Promise<MealPlanEntryDto> {
+    if (dto.recipeId) {
+      await this.assertRecipeInHousehold(dto.recipeId, householdId);
+    }
+    if (dto.cookId) {
+      await this.assertCookInHousehold(dto.cookId, householdId);
+    }
+
+    const entry = await this.mealPlansRepository.createEntry({
+      householdId,
+      date: this.parseDate(dto.date),
+      mealSlot: dto.mealSlot,
+      recipeId: dto.recipeId,
+      title: dto.title?.trim(),
+      servings: dto.servings,
+      cookId: dto.cookId,
+    });
+    return this.mapEntryToDto(entry);
+  }
+
+  /**
+   * Updates a planned meal.
+   *
+   * @param entryId - The entry ID
+   * @param householdId - The household ID for authorization
+   * @param dto - Update data
+   * @returns Updated entry
+   * @throws NotFoundException if the entry or recipe doesn't exist
+   * @throws ForbiddenException if user doesn't have access
+   * @throws BadRequestException if the entry would have neither recipe nor title,
+   *   or the cook is not a household member
+   */
+  async updateEntry(
+    entryId: string,
+    householdId: string,
+    dto: UpdateMealPlanEntryDto,
+  ): Promise<MealPlanEntryDto> {
+    const entry = await this.getEntryOrThrow(entryId, householdId);
+
+    if (dto.recipeId) {
+      await this.assertRecipeInHousehold(dto.recipeId, householdId);
+    }
+    if (dto.cookId) {
+      await this.assertCookInHousehold(dto.cookId, householdId);
+    }
+
+    const recipeId = dto.recipeId !== undefined ? dto.recipeId : entry.recipeId;
+    const title = dto.title !== undefined ? dto.title?.trim() : entry.title;
+    if (!recipeId && !title) {
+      throw new BadRequestException(
+        'Meal plan entry needs a recipe or a title',
+      );
+    }
+
+    const data: Prisma.MealPlanEntryUncheckedUpdateInput = {
+      mealSlot: dto.mealSlot,
+      recipeId: dto.recipeId,
+      title: dto.title === undefined ? undefined : (title ?? null),
+      servings: dto.servings,
+      cookId: dto.cookId,
+    };
+    if (dto.date) {
+      data.date = this.parseDate(dto.date);
+    }
+
+    const updated = await this.mealPlansRepository.updateEntry(entryId, data);
+    return this.mapEntryToDto(updated);
+  }
+
+  /**
+   * Removes a planned meal.
+   *
+   * @param entryId - The entry ID
+   * @param householdId - The household ID for authorization
+   * @throws NotFoundException if the entry doesn't exist
+   * @throws ForbiddenException if user doesn't have access
+   */
+  async deleteEntry(entryId: string, householdId: string): Promise<void> {
+    await this.getEntryOrThrow(entryId, householdId);
+    await this.mealPlansRepository.deleteEntry(entryId);
+  }
+
+  /**
+   * Adds the ingredients of every recipe planned in the range to a shopping
+   * list. Each meal is scaled from the recipe's servings to the planned
+   * servings, ingredients shared by several meals are combined, then the
+   * pantry-aware cook plan decides what to add, merge or skip.
+   *
+   * @param householdId - The household ID
+   * @param dto - Date range, target list, preview flag and per-line decisions
+   * @returns The plan (or applied lines) with the items added and updated
+   * @throws BadRequestException if the range is invalid or has no planned recipes
+   * @throws NotFoundException if the shopping list doesn't exist
+   */
+  async generateShoppingList(
+    householdId: string,
+    dto: GenerateShoppingListDto,
+  ): Promise<CookRecipeResponseDto> {
+    const { from, to } = this.parseRange(dto);
+    const entries = await this.mealPlansRepository.findEntries(
+      householdId,
+      from,
+      to,
+    );
+    const plannedMeals = entries.filter((entry) => entry.recipeId);
+
+    if (plannedMeals.length === 0) {
+      throw new BadRequestException('No recipes are planned in this range');
+    }
+
+    const recipes = await this.mealPlansRepository.findRecipesWithIngredients(
+      householdId,
+      [...new Set(plannedMeals.map((entry) => entry.recipeId as string))],
+    );
+    const recipesById = new Map(recipes.map((recipe) => [recipe.id, recipe]));
+    const ingredients = CookPlanner.combine(
+      plannedMeals.flatMap((entry) => {
+        const recipe = recipesById.get(entry.recipeId as string);
+        if (!recipe) {
+          return [];
+        }
+        // Meals without servings (on the entry or the recipe) use the recipe as written
+        const factor =
+          entry.servings && recipe.servings
+            ? entry.servings / recipe.servings
+            : 1;
+        return CookPlanner.scale(
+          CookPlanner.fromRecipeIngredients(recipe.ingredients),
+          factor,
+        );
+      }),
+    );
+
+    const result = await this.recipesService.addIngredientsToList(
+      householdId,
+      dto.targetListId,
+      ingredients,
+      { preview: dto.preview, lines: dto.lines },
+    );
+
+    if (!result.preview) {
+      this.logger.log(
+        `Generated shopping list ${dto.targetListId} from ${plannedMeals.length} planned meals for household ${householdId}`,
+      );
+    }
+    return result;
+  }
+
+  private parseRange(query: MealPlanQueryDto): { from: Date; to: Date } {
+    const from = this.parseDate(query.from);
+    const to = this.parseDate(query.to);
+
+    if (to < from) {
+      throw new BadRequestException('to must not be before from');
+    }
+    if (
+      (to.getTime() - from.getTime()) / MS_PER_DAY + 1 >
+      MAX_MEAL_PLAN_RANGE_DAYS
+    ) {
+      throw new BadRequestException(
+        `Date range cannot exceed ${MAX_MEAL_PLAN_RANGE_DAYS} days`,
+      );
+    }
+    return { from, to };
+  }
+
+  /**
+   * Parses a calendar date (YYYY-MM-DD) as UTC midnight, which is how
+   * Prisma stores DATE columns.
+   */
+  private parseDate(date: string): Date {
+    const parsed = new Date(`${date}T00:00:00.000Z`);
+    if (Number.isNaN(parsed.getTime())) {
+      throw new BadRequestException(`Invalid date: ${date}`);
+    }
+    return parsed;
+  }
+
+  private async assertRecipeInHousehold(
+    recipeId: string,
+    householdId: string,
+  ): Promise<void> {
+    const recipe = await this.mealPlansRepository.findRecipe(recipeId);
+    if (!recipe || recipe.householdId !== householdId) {
+      throw new NotFoundException('Recipe not found');
+    }
+  }
+
+  private async assertCookInHousehold(
+    cookId: string,
+    householdId: string,
+  ): Promise<void> {
+    const isMember = await this.mealPlansRepository.isHouseholdMember(
+      householdId,
+      cookId,
+    );
+    if (!isMember) {
+      throw new BadRequestException('Cook must be a household member');
+    }
+  }
+
+  private async getEntryOrThrow(
+    entryId: string,
+    householdId: string,
+  ): Promise<MealPlanEntryWithRelations> {
+    const entry = await this.mealPlansRepository.findEntryById(entryId);
+    if (!entry) {
+      throw new NotFoundException('Meal plan entry not found');
+    }
+    if (entry.householdId !== householdId) {
+      throw new ForbiddenException('Access denied');
+    }
+    return entry;
+  }
+
+  private mapEntryToDto(entry: MealPlanEntryWithRelations): MealPlanEntryDto {
+    return {
+      id: entry.id,
+      date: entry.date.toISOString().slice(0, 10),
+      mealSlot: entry.mealSlot,
+      recipeId: entry.recipeId ?? undefined,
+      recipeTitle: entry.recipe?.title,
+      title: entry.title ?? entry.recipe?.title ?? '',
+      servings: entry.servings ?? undefined,
+      cookId: entry.cookId ?? undefined,
+      cookName: entry.cook?.name ?? undefined,
+      createdAt: entry.createdAt,
+      updatedAt: entry.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,17 @@
+/** Notification kinds, sent in the push payload so the app can route taps. */
+export const NOTIFICATION_TYPES = {
+  CHORE_REMINDER: 'chore_reminder',
+  MAIN_LIST_ITEMS_ADDED: 'main_list_items_added',
+} as const;
+
+export type NotificationType =
+  (typeof NOTIFICATION_TYPES)[keyof typeof NOTIFICATION_TYPES];
+
+/** Cron schedule of the job that looks for chore reminders that are due. */
+export const REMINDER_SCAN_SCHEDULE = '* * * * *';
+
+/** Maximum number of chore reminders sent per scan. */
+export const REMINDER_BATCH_SIZE = 100;
+
+/** Item names listed in a "items added" notification before summarizing. */
+export const MAX_ITEM_NAMES_IN_NOTIFICATION = 3;
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { NotificationsService } from './services/notifications.service';
+import { NotificationsRepository } from './repositories/notifications.repository';
+import { NotificationsProcessor } from '../../jobs/notifications.processor';
+import { PrismaModule } from '../../infrastructure/database/prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [
+    NotificationsService,
+    NotificationsRepository,
+    NotificationsProcessor,
+  ],
+  exports: [NotificationsService],
+})
+export class NotificationsModule {}
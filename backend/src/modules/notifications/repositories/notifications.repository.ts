@@ -0,0 +1,155 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../../infrastructure/database/prisma/prisma.service';
+import { ACTIVE_RECORDS_FILTER } from '../../../infrastructure/database/filters/soft-delete.filter';
+
+export interface DueChoreReminder {
+  id: string;
+  householdId: string;
+  title: string;
+  dueDate: Date | null;
+  assigneeId: string | null;
+}
+
+/**
+ * Data access for push notification delivery: device tokens, recipients and
+ * chore reminders.
+ */
+@Injectable()
+export class NotificationsRepository {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Finds the device tokens registered by the given users.
+   */
+  async findDeviceTokens(userIds: string[]): Promise<string[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+    const rows = await this.prisma.deviceToken.findMany({
+      where: { userId: { in: userIds } },
+      select: { token: true },
+    });
+    return rows.map((row) => row.token);
+  }
+
+  /**
+   * Removes tokens the push provider reported as no longer valid.
+   */
+  async deleteDeviceTokens(tokens: string[]): Promise<void> {
+    if (tokens.length === 0) {
+      return;
+    }
+    await this.prisma.deviceToken.deleteMany({
+      where: { token: { in: tokens } },
+    });
+  }
+
+  /**
+   * Finds which of the given users turned off a notification type in their
+   * settings.
+   */
+  async findUsersMutingType(
+    userIds: string[],
+    type: string,
+  ): Promise<string[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+    const rows = await this.prisma.userSettings.findMany({
+      where: {
+        userId: { in: userIds },
+        notifications: { path: [type], equals: false },
+      },
+      select: { userId: true },
+    });
+    return rows.map((row) => row.userId);
+  }
+
+  async findHouseholdMemberIds(householdId: string): Promise<string[]> {
+    const members = await this.prisma.householdMembership.findMany({
+      where: { householdId },
+      select: { userId: true },
+    });
+    return members.map((member) => member.userId);
+  }
+
+  async findUserName(userId: string): Promise<string | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { name: true },
+    });
+    return user?.name ?? null;
+  }
+
+  /**
+   * Finds pending chores whose reminder time has passed and that have not
+   * been reminded about yet, oldest first.
+   */
+  async findDueChoreReminders(
+    now: Date,
+    limit: number,
+  ): Promise<DueChoreReminder[]> {
+    return this.prisma.chore.findMany({
+      where: {
+        remindAt: { lte: now },
+        reminderSentAt: null,
+        isCompleted: false,
+        ...ACTIVE_RECORDS_FILTER,
+        household: ACTIVE_RECORDS_FILTER,
+      },
+      select: {
+        id: true,
+        householdId: true,
+        title: true,
+        dueDate: true,
+        assigneeId: true,
+      },
+      orderBy: { remindAt: 'asc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Loads a chore for its reminder, unless it was completed or deleted.
+   */
+  async findChoreReminder(choreId: string): Promise<DueChoreReminder | null> {
+    return this.prisma.chore.findFirst({
+      where: {
+        id: choreId,
+        isCompleted: false,
+        ...ACTIVE_RECORDS_FILTER,
+        household: ACTIVE_RECORDS_FILTER,
+      },
+      select: {
+        id: true,
+        householdId: true,
+        title: true,
+        dueDate: true,
+        assigneeId: true,
+      },
+    });
+  }
+
+  /**
+   * Marks reminders as sent. Only rows not yet claimed are updated, so
+   * concurrent schedulers never send the same reminder twice.
+   *
+   * @returns IDs of the chores claimed by this call
+   */
+  async claimChoreReminders(
+    choreIds: string[],
+    sentAt: Date,
+  ): Promise<string[]> {
+    const claimed: string[] = [];
+    for (const id of choreIds) {
+      const { count } = await this.prisma.chore.updateMany({
+        where: { id, reminderSentAt: null },
+        data: { reminderSentAt: sentAt },
+      });
+      if (count > 0) {
+        claimed.push(id);
+      }
+    }
+    return claimed;
+  }
+}
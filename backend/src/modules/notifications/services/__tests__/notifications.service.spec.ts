@@ -0,0 +1,212 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotificationsService } from '../notifications.service';
+import { NotificationsRepository } from '../../repositories/notifications.repository';
+import { LogPushAdapter } from '../../../../infrastructure/push/log-push.adapter';
+import { PushProviderPort } from '../../../../infrastructure/push/push.interface';
+
+describe('NotificationsService', () => {
+  let service: NotificationsService;
+  let pushProvider: LogPushAdapter;
+
+  const mockRepository = {
+    findDeviceTokens: jest.fn(),
+    findUsersMutingType: jest.fn().mockResolvedValue([]),
+    deleteDeviceTokens: jest.fn(),
+    findHouseholdMemberIds: jest.fn(),
+    findUserName: jest.fn(),
+    findDueChoreReminders: jest.fn(),
+    claimChoreReminders: jest.fn(),
+    findChoreReminder: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    pushProvider = new LogPushAdapter();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationsService,
+        { provide: NotificationsRepository, useValue: mockRepository },
+        { provide: 'PushProviderPort', useValue: pushProvider },
+      ],
+    }).compile();
+
+    service = module.get<NotificationsService>(NotificationsService);
+  });
+
+  describe('sendToUsers', () => {
+    it('sends to every registered device of the users', async () => {
+      mockRepository.findDeviceTokens.mockResolvedValue(['t1', 't2']);
+
+      const delivered = await service.sendToUsers(['user-1', 'user-1'], {
+        title: 'Hi',
+        body: 'There',
+      });
+
+      expect(mockRepository.findDeviceTokens).toHaveBeenCalledWith(['user-1']);
+      expect(delivered).toBe(2);
+      expect(pushProvider.sent.map(({ token }) => token)).toEqual(['t1', 't2']);
+    });
+
+    it('skips users who turned the notification type off', async () => {
+      mockRepository.findUsersMutingType.mockResolvedValueOnce(['user-2']);
+      mockRepository.findDeviceTokens.mockResolvedValue(['t1']);
+
+      await service.sendToUsers(['user-1', 'user-2'], {
+        title: 'Chore reminder',
+        body: 'Due soon',
+        data: { type: 'chore_reminder' },
+      });
+
+      expect(mockRepository.findUsersMutingType).toHaveBeenCalledWith(
+        ['user-1', 'user-2'],
+        'chore_reminder',
+      );
+      expect(mockRepository.findDeviceTokens).toHaveBeenCalledWith(['user-1']);
+    });
+
+    it('removes tokens the provider reports as invalid', async () => {
+      const failingProvider: PushProviderPort = {
+        send: jest.fn().mockResolvedValue([
+          { token: 't1', success: true },
+          { token: 't2', success: false, invalidToken: true },
+          { token: 't3', success: false, invalidToken: false },
+        ]),
+      };
+      const module = await Test.createTestingModule({
+        providers: [
+          NotificationsService,
+          { provide: NotificationsRepository, useValue: mockRepository },
+          { provide: 'PushProviderPort', useValue: failingProvider },
+        ],
+      }).compile();
+      mockRepository.findDeviceTokens.mockResolvedValue(['t1', 't2', 't3']);
+
+      const delivered = await module
+        .get(NotificationsService)
+        .sendToUsers(['user-1'], { title: 'Hi', body: 'There' });
+
+      expect(delivered).toBe(1);
+      expect(mockRepository.deleteDeviceTokens).toHaveBeenCalledWith(['t2']);
+    });
+
+    it('does not call the provider when no devices are registered', async () => {
+      mockRepository.findDeviceTokens.mockResolvedValue([]);
+
+      await expect(
+        service.sendToUsers(['user-1'], { title: 'Hi', body: 'There' }),
+      ).resolves.toBe(0);
+      expect(pushProvider.sent).toHaveLength(0);
+    });
+  });
+
+  describe('notifyMainListItemsAdded', () => {
+    it('notifies the other household members, not the actor', async () => {
+      mockRepository.findHouseholdMemberIds.mockResolvedValue([
+        'actor',
+        'user-2',
+      ]);
+      mockRepository.findUserName.mockResolvedValue('Dana');
+      mockRepository.findDeviceTokens.mockResolvedValue(['t2']);
+
+      await service.notifyMainListItemsAdded('household-1', 'actor', 'list-1', [
+        'Milk',
+        'Eggs',
+        'Bread',
+        'Apples',
+        'Rice',
+      ]);
+
+      expect(mockRepository.findDeviceTokens).toHaveBeenCalledWith(['user-2']);
+      expect(pushProvider.sent[0].message).toEqual({
+        title: 'Shopping list updated',
+        body: 'Dana added Milk, Eggs, Bread and 2 more',
+        data: { type: 'main_list_items_added', listId: 'list-1' },
+      });
+    });
+
+    it('skips households with no other members', async () => {
+      mockRepository.findHouseholdMemberIds.mockResolvedValue(['actor']);
+
+      await service.notifyMainListItemsAdded('household-1', 'actor', 'list-1', [
+        'Milk',
+      ]);
+
+      expect(mockRepository.findDeviceTokens).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('chore reminders', () => {
+    const now = new Date('2026-03-10T17:00:00.000Z');
+    const dueDate = new Date('2026-03-10T18:00:00.000Z');
+    const reminder = {
+      id: 'c1',
+      householdId: 'h1',
+      title: 'Trash',
+      dueDate,
+      assigneeId: 'user-1',
+    };
+
+    it('claims the due reminders', async () => {
+      mockRepository.findDueChoreReminders.mockResolvedValue([
+        reminder,
+        { ...reminder, id: 'c2' },
+      ]);
+      mockRepository.claimChoreReminders.mockResolvedValue(['c2']);
+
+      await expect(service.claimDueChoreReminders(now)).resolves.toEqual([
+        'c2',
+      ]);
+      expect(mockRepository.claimChoreReminders).toHaveBeenCalledWith(
+        ['c1', 'c2'],
+        now,
+      );
+    });
+
+    it('does not claim anything when no reminder is due', async () => {
+      mockRepository.findDueChoreReminders.mockResolvedValue([]);
+
+      await expect(service.claimDueChoreReminders(now)).resolves.toEqual([]);
+      expect(mockRepository.claimChoreReminders).not.toHaveBeenCalled();
+    });
+
+    it('reminds the assignee with the due date in the payload', async () => {
+      mockRepository.findChoreReminder.mockResolvedValue(reminder);
+      mockRepository.findDeviceTokens.mockResolvedValue(['t1']);
+
+      await expect(service.sendChoreReminder('c1')).resolves.toBe(true);
+
+      expect(mockRepository.findDeviceTokens).toHaveBeenCalledWith(['user-1']);
+      expect(pushProvider.sent[0].message.data).toEqual({
+        type: 'chore_reminder',
+        choreId: 'c1',
+        dueDate: dueDate.toISOString(),
+      });
+    });
+
+    it('reminds the whole household when the chore is unassigned', async () => {
+      mockRepository.findChoreReminder.mockResolvedValue({
+        ...reminder,
+        assigneeId: null,
+      });
+      mockRepository.findHouseholdMemberIds.mockResolvedValue([
+        'user-1',
+        'user-2',
+      ]);
+      mockRepository.findDeviceTokens.mockResolvedValue(['t1']);
+
+      await service.sendChoreReminder('c1');
+
+      expect(mockRepository.findDeviceTokens).toHaveBeenCalledWith([
+        'user-1',
+        'user-2',
+      ]);
+    });
+
+    it('skips chores completed or deleted since they were claimed', async () => {
+      mockRepository.findChoreReminder.mockResolvedValue(null);
+
+      await expect(service.sendChoreReminder('c1')).resolves.toBe(false);
+      expect(mockRepository.findDeviceTokens).not.toHaveBeenCalled();
+    });
+  });
+});
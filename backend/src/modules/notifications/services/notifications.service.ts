@@ -0,0 +1,169 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  PushMessage,
+  PushProviderPort,
+} from '../../../infrastructure/push/push.interface';
+import { NotificationsRepository } from '../repositories/notifications.repository';
+import {
+  MAX_ITEM_NAMES_IN_NOTIFICATION,
+  NOTIFICATION_TYPES,
+  REMINDER_BATCH_SIZE,
+} from '../constants/notification.constants';
+
+/**
+ * Notifications service delivering push notifications to household members.
+ *
+ * Responsibilities:
+ * - Fan-out of messages to every device a user registered
+ * - Honoring the notification types users turned off in their settings
+ * - Pruning device tokens the provider reports as invalid
+ * - Chore due reminders (claimed by the scan job, sent one job per chore)
+ * - "Items added to the main list" events
+ */
+@Injectable()
+export class NotificationsService {
+  private readonly logger = new Logger(NotificationsService.name);
+
+  constructor(
+    private notificationsRepository: NotificationsRepository,
+    @Inject('PushProviderPort') private pushProvider: PushProviderPort,
+  ) {}
+
+  /**
+   * Sends a message to all devices of the given users. Users who turned off
+   * the message's notification type in their settings are skipped.
+   *
+   * @param userIds - Recipients
+   * @param message - Notification content
+   * @returns Number of devices the message was delivered to
+   */
+  async sendToUsers(userIds: string[], message: PushMessage): Promise<number> {
+    let recipients = [...new Set(userIds)];
+    const type = message.data?.type;
+    if (type) {
+      const muting = new Set(
+        await this.notificationsRepository.findUsersMutingType(
+          recipients,
+          type,
+        ),
+      );
+      recipients = recipients.filter((id) => !muting.has(id));
+    }
+
+    const tokens =
+      await this.notificationsRepository.findDeviceTokens(recipients);
+    if (tokens.length === 0) {
+      return 0;
+    }
+
+    const results = await this.pushProvider.send(tokens, message);
+    const invalidTokens = results
+      .filter((result) => result.invalidToken)
+      .map((result) => result.token);
+    if (invalidTokens.length > 0) {
+      await this.notificationsRepository.deleteDeviceTokens(invalidTokens);
+      this.logger.log(`Removed ${invalidTokens.length} invalid device tokens`);
+    }
+
+    return results.filter((result) => result.success).length;
+  }
+
+  /**
+   * Tells the other household members that items were added to the main
+   * shopping list.
+   *
+   * @param householdId - The household ID
+   * @param actorUserId - Member who added the items (not notified)
+   * @param listId - The main list ID
+   * @param itemNames - Names of the added items
+   */
+  async notifyMainListItemsAdded(
+    householdId: string,
+    actorUserId: string,
+    listId: string,
+    itemNames: string[],
+  ): Promise<void> {
+    if (itemNames.length === 0) {
+      return;
+    }
+
+    const recipients = (
+      await this.notificationsRepository.findHouseholdMemberIds(householdId)
+    ).filter((id) => id !== actorUserId);
+    if (recipients.length === 0) {
+      return;
+    }
+
+    const actorName =
+      (await this.notificationsRepository.findUserName(actorUserId)) ??
+      'Someone';
+    const shown = itemNames.slice(0, MAX_ITEM_NAMES_IN_NOTIFICATION);
+    const remaining = itemNames.length - shown.length;
+
+    await this.sendToUsers(recipients, {
+      title: 'Shopping list updated',
+      body: `${actorName} added ${shown.join(', ')}${remaining > 0 ? ` and ${remaining} more` : ''}`,
+      data: {
+        type: NOTIFICATION_TYPES.MAIN_LIST_ITEMS_ADDED,
+        listId,
+      },
+    });
+  }
+
+  /**
+   * Claims the chore reminders whose time has passed. Claiming marks them as
+   * sent, so each reminder is handed out at most once even if several
+   * instances scan concurrently.
+   *
+   * @param now - Reference time (defaults to the current time)
+   * @returns IDs of the chores claimed by this call
+   */
+  async claimDueChoreReminders(now: Date = new Date()): Promise<string[]> {
+    const due = await this.notificationsRepository.findDueChoreReminders(
+      now,
+      REMINDER_BATCH_SIZE,
+    );
+    if (due.length === 0) {
+      return [];
+    }
+
+    return this.notificationsRepository.claimChoreReminders(
+      due.map((chore) => chore.id),
+      now,
+    );
+  }
+
+  /**
+   * Sends the reminder for a claimed chore. Unassigned chores remind the
+   * whole household. Chores completed or deleted since they were claimed
+   * are skipped.
+   *
+   * @param choreId - The chore ID
+   * @returns true if a reminder was sent
+   */
+  async sendChoreReminder(choreId: string): Promise<boolean> {
+    const chore = await this.notificationsRepository.findChoreReminder(choreId);
+    if (!chore) {
+      return false;
+    }
+
+    const recipients = chore.assigneeId
+      ? [chore.assigneeId]
+      : await this.notificationsRepository.findHouseholdMemberIds(
+          chore.householdId,
+        );
+
+    await this.sendToUsers(recipients, {
+      title: 'Chore reminder',
+      // The due time is sent in the payload so the app formats it in the
+      // member's own timezone
+      body: `"${chore.title}" is due soon`,
+      data: {
+        type: NOTIFICATION_TYPES.CHORE_REMINDER,
+        choreId: chore.id,
+        ...(chore.dueDate && { dueDate: chore.dueDate.toISOString() }),
+      },
+    });
+    return true;
+  }
+}
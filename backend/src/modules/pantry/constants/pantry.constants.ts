@@ -0,0 +1,12 @@
+/** Where an item is stored in the kitchen. */
+export const PANTRY_LOCATIONS = ['fridge', 'freezer', 'pantry'] as const;
+
+export type PantryLocation = (typeof PANTRY_LOCATIONS)[number];
+
+export const DEFAULT_PANTRY_LOCATION: PantryLocation = 'pantry';
+
+/** Items expiring within this many days (or already expired) count as expiring soon. */
+export const EXPIRING_SOON_DAYS = 3;
+
+/** Expiring items listed in the dashboard summary. */
+export const MAX_EXPIRING_ITEMS_IN_SUMMARY = 5;
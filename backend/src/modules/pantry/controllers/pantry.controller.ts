@@ -0,0 +1,100 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import { PantryService } from '../services/pantry.service';
+import {
+  CreatePantryItemDto,
+  PantryQueryDto,
+  UpdatePantryItemDto,
+} from '../dtos';
+import {
+  JwtAuthGuard,
+  HouseholdGuard,
+  PermissionGuard,
+} from '../../../common/guards';
+import {
+  CurrentUser,
+  CurrentUserPayload,
+  RequirePermission,
+} from '../../../common/decorators';
+import { PERMISSIONS } from '../../../common/constants';
+
+/**
+ * Pantry controller managing what the household has in stock.
+ * API Version: 1
+ * All endpoints require authentication and household membership.
+ */
+@Controller({ path: 'pantry', version: '1' })
+@UseGuards(JwtAuthGuard, HouseholdGuard, PermissionGuard)
+export class PantryController {
+  constructor(private pantryService: PantryService) {}
+
+  @Get()
+  async getItems(
+    @CurrentUser() user: CurrentUserPayload,
+    @Query() query: PantryQueryDto,
+  ) {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    return this.pantryService.getItems(user.householdId, query);
+  }
+
+  @Post()
+  @RequirePermission(PERMISSIONS.PANTRY_EDIT)
+  async createItem(
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: CreatePantryItemDto,
+  ) {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    return this.pantryService.createItem(user.householdId, dto);
+  }
+
+  @Get(':id')
+  async getItem(
+    @CurrentUser() user: CurrentUserPayload,
+    @Param('id') itemId: string,
+  ) {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    return this.pantryService.getItem(itemId, user.householdId);
+  }
+
+  @Patch(':id')
+  @RequirePermission(PERMISSIONS.PANTRY_EDIT)
+  async updateItem(
+    @CurrentUser() user: CurrentUserPayload,
+    @Param('id') itemId: string,
+    @Body() dto: UpdatePantryItemDto,
+  ) {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    return this.pantryService.updateItem(itemId, user.householdId, dto);
+  }
+
+  @Delete(':id')
+  @RequirePermission(PERMISSIONS.PANTRY_EDIT)
+  async deleteItem(
+    @CurrentUser() user: CurrentUserPayload,
+    @Param('id') itemId: string,
+  ) {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    await this.pantryService.deleteItem(itemId, user.householdId);
+    return { success: true };
+  }
+}
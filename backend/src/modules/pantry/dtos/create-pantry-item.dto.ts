@@ -0,0 +1,44 @@
+import {
+  IsDateString,
+  IsIn,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { PANTRY_LOCATIONS, PantryLocation } from '../constants';
+
+export class CreatePantryItemDto {
+  @IsString()
+  @IsOptional()
+  catalogItemId?: string;
+
+  /** Required for custom items; catalog items take the catalog name. */
+  @ValidateIf((item) => !item.catalogItemId)
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  quantity?: number;
+
+  @IsString()
+  @IsOptional()
+  unit?: string;
+
+  @IsString()
+  @IsOptional()
+  category?: string;
+
+  @IsIn(PANTRY_LOCATIONS)
+  @IsOptional()
+  location?: PantryLocation;
+
+  @IsDateString()
+  @IsOptional()
+  expiresAt?: string;
+}
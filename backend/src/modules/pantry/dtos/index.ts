@@ -0,0 +1,4 @@
+export * from './create-pantry-item.dto';
+export * from './update-pantry-item.dto';
+export * from './pantry-query.dto';
+export * from './pantry-item-response.dto';
@@ -0,0 +1,13 @@
+export class PantryItemDto {
+  id: string;
+  catalogItemId?: string;
+  customItemId?: string;
+  name: string;
+  category?: string;
+  quantity: number;
+  unit?: string;
+  location: string;
+  expiresAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
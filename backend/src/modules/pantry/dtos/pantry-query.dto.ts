@@ -0,0 +1,17 @@
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { PANTRY_LOCATIONS, PantryLocation } from '../constants';
+
+export class PantryQueryDto {
+  @IsIn(PANTRY_LOCATIONS)
+  @IsOptional()
+  location?: PantryLocation;
+
+  /** Only items expiring within this many days (including expired ones). */
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  @IsOptional()
+  expiringWithinDays?: number;
+}
@@ -0,0 +1,36 @@
+import {
+  IsDateString,
+  IsIn,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import { PANTRY_LOCATIONS, PantryLocation } from '../constants';
+
+export class UpdatePantryItemDto {
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  name?: string;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  quantity?: number;
+
+  /** Replaces the unit; null clears it. */
+  @IsString()
+  @IsOptional()
+  unit?: string | null;
+
+  @IsIn(PANTRY_LOCATIONS)
+  @IsOptional()
+  location?: PantryLocation;
+
+  /** Replaces the expiry date; null marks the item as not expiring. */
+  @IsDateString()
+  @IsOptional()
+  expiresAt?: string | null;
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PantryController } from './controllers/pantry.controller';
+import { PantryService } from './services/pantry.service';
+import { PantryRepository } from './repositories/pantry.repository';
+import { PrismaModule } from '../../infrastructure/database/prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [PantryController],
+  providers: [PantryService, PantryRepository],
+  exports: [PantryService],
+})
+export class PantryModule {}
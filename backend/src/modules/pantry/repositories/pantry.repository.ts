@@ -0,0 +1,134 @@
+import { Injectable } from '@nestjs/common';
+import {
+  CustomItem,
+  MasterGroceryCatalog,
+  PantryItem,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../../../infrastructure/database/prisma/prisma.service';
+import { ACTIVE_RECORDS_FILTER } from '../../../infrastructure/database/filters/soft-delete.filter';
+
+export interface PantryItemData {
+  catalogItemId?: string;
+  customItemId?: string;
+  name: string;
+  category?: string;
+  quantity: number;
+  unit?: string;
+  location: string;
+  expiresAt?: Date;
+}
+
+@Injectable()
+export class PantryRepository {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Lists a household's pantry, soonest expiry first; items without an
+   * expiry date come last.
+   */
+  async findItems(
+    householdId: string,
+    filters: { location?: string; expiresBefore?: Date } = {},
+  ): Promise<PantryItem[]> {
+    return this.prisma.pantryItem.findMany({
+      where: {
+        householdId,
+        ...(filters.location && { location: filters.location }),
+        ...(filters.expiresBefore && {
+          expiresAt: { lte: filters.expiresBefore },
+        }),
+        ...ACTIVE_RECORDS_FILTER,
+      },
+      orderBy: [{ expiresAt: { sort: 'asc', nulls: 'last' } }, { name: 'asc' }],
+    });
+  }
+
+  async findItemById(id: string): Promise<PantryItem | null> {
+    return this.prisma.pantryItem.findFirst({
+      where: { id, ...ACTIVE_RECORDS_FILTER },
+    });
+  }
+
+  /**
+   * Finds a stocked item the same product can be merged into: same catalog
+   * or custom item, unit, location and expiry date.
+   */
+  async findMergeTarget(
+    householdId: string,
+    data: PantryItemData,
+  ): Promise<PantryItem | null> {
+    const product: Prisma.PantryItemWhereInput = data.catalogItemId
+      ? { catalogItemId: data.catalogItemId }
+      : data.customItemId
+        ? { customItemId: data.customItemId }
+        : { name: { equals: data.name, mode: 'insensitive' } };
+
+    return this.prisma.pantryItem.findFirst({
+      where: {
+        householdId,
+        ...product,
+        unit: data.unit ?? null,
+        location: data.location,
+        expiresAt: data.expiresAt ?? null,
+        ...ACTIVE_RECORDS_FILTER,
+      },
+    });
+  }
+
+  async createItem(
+    householdId: string,
+    data: PantryItemData,
+  ): Promise<PantryItem> {
+    return this.prisma.pantryItem.create({
+      data: { householdId, ...data },
+    });
+  }
+
+  async updateItem(
+    id: string,
+    data: Prisma.PantryItemUncheckedUpdateInput,
+  ): Promise<PantryItem> {
+    return this.prisma.pantryItem.update({
+      where: { id },
+      data,
+    });
+  }
+
+  /**
+   * Soft-deletes a pantry item by setting deletedAt timestamp.
+   */
+  async deleteItem(id: string): Promise<void> {
+    await this.prisma.pantryItem.update({
+      where: { id },
+      data: { deletedAt: new Date() },
+    });
+  }
+
+  async findCatalogItem(id: string): Promise<MasterGroceryCatalog | null> {
+    return this.prisma.masterGroceryCatalog.findUnique({ where: { id } });
+  }
+
+  async findCustomItemByName(
+    householdId: string,
+    name: string,
+  ): Promise<CustomItem | null> {
+    return this.prisma.customItem.findFirst({
+      where: {
+        householdId,
+        name: { equals: name, mode: 'insensitive' },
+        ...ACTIVE_RECORDS_FILTER,
+      },
+    });
+  }
+
+  async createCustomItem(
+    householdId: string,
+    name: string,
+    category?: string,
+  ): Promise<CustomItem> {
+    return this.prisma.customItem.create({
+      data: { householdId, name, category },
+    });
+  }
+}
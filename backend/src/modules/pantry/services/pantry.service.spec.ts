@@ -0,0 +1,236 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { PantryService } from './pantry.service';
+import { PantryRepository } from '../repositories/pantry.repository';
+
+describe('PantryService', () => {
+  let service: PantryService;
+
+  const householdId = 'household-1';
+  const now = new Date('2026-03-10T12:00:00.000Z');
+
+  const mockRepository = {
+    findItems: jest.fn(),
+    findItemById: jest.fn(),
+    findMergeTarget: jest.fn(),
+    createItem: jest.fn(),
+    updateItem: jest.fn(),
+    deleteItem: jest.fn(),
+    findCatalogItem: jest.fn(),
+    findCustomItemByName: jest.fn(),
+    createCustomItem: jest.fn(),
+  };
+
+  const pantryItem = (overrides: Record<string, unknown> = {}) => ({
+    id: 'pantry-1',
+    householdId,
+    catalogItemId: null,
+    customItemId: 'custom-1',
+    name: 'Hummus',
+    category: null,
+    quantity: 1,
+    unit: null,
+    location: 'fridge',
+    expiresAt: null,
+    createdAt: now,
+    updatedAt: now,
+    deletedAt: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockRepository.createItem.mockImplementation((hid, data) =>
+      pantryItem({ householdId: hid, catalogItemId: null, ...data }),
+    );
+    mockRepository.updateItem.mockImplementation((id, data) =>
+      pantryItem({ id, ...data }),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PantryService,
+        { provide: PantryRepository, useValue: mockRepository },
+      ],
+    }).compile();
+
+    service = module.get<PantryService>(PantryService);
+  });
+
+  describe('getItems', () => {
+    it('filters by location and expiry window', async () => {
+      mockRepository.findItems.mockResolvedValue([pantryItem()]);
+
+      const result = await service.getItems(
+        householdId,
+        { location: 'fridge', expiringWithinDays: 3 },
+        now,
+      );
+
+      expect(mockRepository.findItems).toHaveBeenCalledWith(householdId, {
+        location: 'fridge',
+        expiresBefore: new Date('2026-03-13T12:00:00.000Z'),
+      });
+      expect(result[0]).toEqual(
+        expect.objectContaining({ id: 'pantry-1', unit: undefined }),
+      );
+    });
+  });
+
+  describe('createItem', () => {
+    it('takes name, category and defaults from the catalog', async () => {
+      mockRepository.findCatalogItem.mockResolvedValue({
+        id: 'catalog-milk',
+        name: 'Milk',
+        category: 'dairy',
+        defaultUnit: 'l',
+        defaultQuantity: 1,
+      });
+
+      const result = await service.createItem(householdId, {
+        catalogItemId: 'catalog-milk',
+        location: 'fridge',
+        expiresAt: '2026-03-15',
+      });
+
+      expect(mockRepository.createItem).toHaveBeenCalledWith(householdId, {
+        catalogItemId: 'catalog-milk',
+        name: 'Milk',
+        category: 'dairy',
+        quantity: 1,
+        unit: 'l',
+        location: 'fridge',
+        expiresAt: new Date('2026-03-15'),
+      });
+      expect(result.name).toBe('Milk');
+    });
+
+    it('rejects unknown catalog items', async () => {
+      mockRepository.findCatalogItem.mockResolvedValue(null);
+
+      await expect(
+        service.createItem(householdId, { catalogItemId: 'missing' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('stores other names as custom items in the pantry by default', async () => {
+      mockRepository.findCustomItemByName.mockResolvedValue(null);
+      mockRepository.createCustomItem.mockResolvedValue({
+        id: 'custom-2',
+        category: null,
+      });
+
+      await service.createItem(householdId, { name: '  Tahini ' });
+
+      expect(mockRepository.createCustomItem).toHaveBeenCalledWith(
+        householdId,
+        'Tahini',
+        undefined,
+      );
+      expect(mockRepository.createItem).toHaveBeenCalledWith(
+        householdId,
+        expect.objectContaining({
+          customItemId: 'custom-2',
+          name: 'Tahini',
+          quantity: 1,
+          location: 'pantry',
+        }),
+      );
+    });
+  });
+
+  describe('updateItem', () => {
+    it('clears the expiry date with null', async () => {
+      mockRepository.findItemById.mockResolvedValue(
+        pantryItem({ expiresAt: now }),
+      );
+
+      await service.updateItem('pantry-1', householdId, { expiresAt: null });
+
+      expect(mockRepository.updateItem).toHaveBeenCalledWith(
+        'pantry-1',
+        expect.objectContaining({ expiresAt: null }),
+      );
+    });
+
+    it('throws NotFoundException for missing items', async () => {
+      mockRepository.findItemById.mockResolvedValue(null);
+
+      await expect(
+        service.updateItem('pantry-1', householdId, { quantity: 2 }),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('throws ForbiddenException for items of another household', async () => {
+      mockRepository.findItemById.mockResolvedValue(
+        pantryItem({ householdId: 'other' }),
+      );
+
+      await expect(
+        service.updateItem('pantry-1', householdId, { quantity: 2 }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('deleteItem', () => {
+    it('soft-deletes the item', async () => {
+      mockRepository.findItemById.mockResolvedValue(pantryItem());
+
+      await service.deleteItem('pantry-1', householdId);
+
+      expect(mockRepository.deleteItem).toHaveBeenCalledWith('pantry-1');
+    });
+  });
+
+  describe('addFromShoppingItem', () => {
+    const shoppingItem = {
+      catalogItemId: 'catalog-milk',
+      customItemId: null,
+      name: 'Milk',
+      category: 'dairy',
+      quantity: 2,
+      unit: 'l',
+    };
+
+    it('adds the quantity to matching stock', async () => {
+      mockRepository.findMergeTarget.mockResolvedValue(
+        pantryItem({ id: 'pantry-milk', quantity: 1 }),
+      );
+
+      const result = await service.addFromShoppingItem(
+        householdId,
+        shoppingItem,
+        { location: 'fridge' },
+      );
+
+      expect(mockRepository.updateItem).toHaveBeenCalledWith('pantry-milk', {
+        quantity: 3,
+      });
+      expect(mockRepository.createItem).not.toHaveBeenCalled();
+      expect(result.quantity).toBe(3);
+    });
+
+    it('creates a new item when nothing matches', async () => {
+      mockRepository.findMergeTarget.mockResolvedValue(null);
+
+      await service.addFromShoppingItem(householdId, shoppingItem, {
+        expiresAt: '2026-03-20',
+      });
+
+      expect(mockRepository.createItem).toHaveBeenCalledWith(householdId, {
+        catalogItemId: 'catalog-milk',
+        customItemId: undefined,
+        name: 'Milk',
+        category: 'dairy',
+        quantity: 2,
+        unit: 'l',
+        location: 'pantry',
+        expiresAt: new Date('2026-03-20'),
+      });
+    });
+  });
+});
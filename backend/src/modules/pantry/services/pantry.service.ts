@@ -0,0 +1,260 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { PantryItem, Prisma } from '@prisma/client';
+import {
+  PantryItemData,
+  PantryRepository,
+} from '../repositories/pantry.repository';
+import {
+  CreatePantryItemDto,
+  PantryItemDto,
+  PantryQueryDto,
+  UpdatePantryItemDto,
+} from '../dtos';
+import { DEFAULT_PANTRY_LOCATION, PantryLocation } from '../constants';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Source of a pantry item moved in from a checked-off shopping item.
+ */
+export interface ShoppingItemSource {
+  catalogItemId?: string | null;
+  customItemId?: string | null;
+  name: string;
+  category?: string | null;
+  quantity: number;
+  unit?: string | null;
+}
+
+/**
+ * Pantry service tracking what the household already has at home.
+ *
+ * Responsibilities:
+ * - Pantry item CRUD (catalog or custom items)
+ * - Expiry filtering
+ * - Stocking items checked off a shopping list, merging into matching stock
+ */
+@Injectable()
+export class PantryService {
+  private readonly logger = new Logger(PantryService.name);
+
+  constructor(private pantryRepository: PantryRepository) {}
+
+  /**
+   * Lists the household's pantry, soonest expiry first.
+   *
+   * @param householdId - The household ID
+   * @param query - Optional location and expiry filters
+   * @param now - Reference time for the expiry filter (defaults to the current time)
+   * @returns Pantry items
+   */
+  async getItems(
+    householdId: string,
+    query: PantryQueryDto = {},
+    now: Date = new Date(),
+  ): Promise<PantryItemDto[]> {
+    const items = await this.pantryRepository.findItems(householdId, {
+      location: query.location,
+      expiresBefore:
+        query.expiringWithinDays !== undefined
+          ? new Date(now.getTime() + query.expiringWithinDays * MS_PER_DAY)
+          : undefined,
+    });
+    return items.map((item) => this.mapItemToDto(item));
+  }
+
+  /**
+   * Gets a pantry item.
+   *
+   * @param itemId - The pantry item ID
+   * @param householdId - The household ID for authorization
+   * @throws NotFoundException if item doesn't exist
+   * @throws ForbiddenException if user doesn't have access
+   */
+  async getItem(itemId: string, householdId: string): Promise<PantryItemDto> {
+    const item = await this.getItemOrThrow(itemId, householdId);
+    return this.mapItemToDto(item);
+  }
+
+  /**
+   * Adds an item to the pantry. Catalog items take their name and category
+   * from the catalog; other names are stored as household custom items.
+   *
+   * @param householdId - The household ID
+   * @param dto - Item data
+   * @returns Created item
+   * @throws BadRequestException if the catalog item doesn't exist
+   */
+  async createItem(
+    householdId: string,
+    dto: CreatePantryItemDto,
+  ): Promise<PantryItemDto> {
+    let data: PantryItemData;
+
+    if (dto.catalogItemId) {
+      const catalogItem = await this.pantryRepository.findCatalogItem(
+        dto.catalogItemId,
+      );
+      if (!catalogItem) {
+        throw new BadRequestException('Catalog item not found');
+      }
+      data = {
+        catalogItemId: catalogItem.id,
+        name: catalogItem.name,
+        category: catalogItem.category,
+        quantity: dto.quantity ?? catalogItem.defaultQuantity ?? 1,
+        unit: dto.unit ?? catalogItem.defaultUnit ?? undefined,
+        location: dto.location ?? DEFAULT_PANTRY_LOCATION,
+        expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : undefined,
+      };
+    } else {
+      const name = dto.name?.trim();
+      if (!name) {
+        throw new BadRequestException('Pantry item name is required');
+      }
+      const customItem =
+        (await this.pantryRepository.findCustomItemByName(householdId, name)) ??
+        (await this.pantryRepository.createCustomItem(
+          householdId,
+          name,
+          dto.category,
+        ));
+      data = {
+        customItemId: customItem.id,
+        name,
+        category: dto.category ?? customItem.category ?? undefined,
+        quantity: dto.quantity ?? 1,
+        unit: dto.unit,
+        location: dto.location ?? DEFAULT_PANTRY_LOCATION,
+        expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : undefined,
+      };
+    }
+
+    const item = await this.pantryRepository.createItem(householdId, data);
+    return this.mapItemToDto(item);
+  }
+
+  /**
+   * Updates a pantry item.
+   *
+   * @param itemId - The pantry item ID
+   * @param householdId - The household ID for authorization
+   * @param dto - Update data
+   * @returns Updated item
+   * @throws NotFoundException if item doesn't exist
+   * @throws ForbiddenException if user doesn't have access
+   */
+  async updateItem(
+    itemId: string,
+    householdId: string,
+    dto: UpdatePantryItemDto,
+  ): Promise<PantryItemDto> {
+    await this.getItemOrThrow(itemId, householdId);
+
+    const data: Prisma.PantryItemUncheckedUpdateInput = {
+      name: dto.name?.trim(),
+      quantity: dto.quantity,
+      unit: dto.unit,
+      location: dto.location,
+    };
+    if (dto.expiresAt !== undefined) {
+      data.expiresAt = dto.expiresAt === null ? null : new Date(dto.expiresAt);
+    }
+
+    const updated = await this.pantryRepository.updateItem(itemId, data);
+    return this.mapItemToDto(updated);
+  }
+
+  /**
+   * Removes an item from the pantry.
+   *
+   * @param itemId - The pantry item ID
+   * @param householdId - The household ID for authorization
+   * @throws NotFoundException if item doesn't exist
+   * @throws ForbiddenException if user doesn't have access
+   */
+  async deleteItem(itemId: string, householdId: string): Promise<void> {
+    await this.getItemOrThrow(itemId, householdId);
+    await this.pantryRepository.deleteItem(itemId);
+  }
+
+  /**
+   * Stocks a checked-off shopping item. The quantity is added to a matching
+   * item (same product, unit, location and expiry) when one is stocked,
+   * otherwise a new item is created.
+   *
+   * @param householdId - The household ID
+   * @param source - The shopping item
+   * @param options - Where to store it and when it expires
+   * @returns The stocked pantry item
+   */
+  async addFromShoppingItem(
+    householdId: string,
+    source: ShoppingItemSource,
+    options: { location?: PantryLocation; expiresAt?: string } = {},
+  ): Promise<PantryItemDto> {
+    const data: PantryItemData = {
+      catalogItemId: source.catalogItemId ?? undefined,
+      customItemId: source.catalogItemId
+        ? undefined
+        : (source.customItemId ?? undefined),
+      name: source.name,
+      category: source.category ?? undefined,
+      quantity: source.quantity,
+      unit: source.unit ?? undefined,
+      location: options.location ?? DEFAULT_PANTRY_LOCATION,
+      expiresAt: options.expiresAt ? new Date(options.expiresAt) : undefined,
+    };
+
+    const existing = await this.pantryRepository.findMergeTarget(
+      householdId,
+      data,
+    );
+    const item = existing
+      ? await this.pantryRepository.updateItem(existing.id, {
+          quantity: existing.quantity + data.quantity,
+        })
+      : await this.pantryRepository.createItem(householdId, data);
+
+    this.logger.log(
+      `Stocked "${data.name}" in ${data.location} for household ${householdId}`,
+    );
+    return this.mapItemToDto(item);
+  }
+
+  private async getItemOrThrow(
+    itemId: string,
+    householdId: string,
+  ): Promise<PantryItem> {
+    const item = await this.pantryRepository.findItemById(itemId);
+    if (!item) {
+      throw new NotFoundException('Pantry item not found');
+    }
+    if (item.householdId !== householdId) {
+      throw new ForbiddenException('Access denied');
+    }
+    return item;
+  }
+
+  private mapItemToDto(item: PantryItem): PantryItemDto {
+    return {
+      id: item.id,
+      catalogItemId: item.catalogItemId ?? undefined,
+      customItemId: item.customItemId ?? undefined,
+      name: item.name,
+      category: item.category ?? undefined,
+      quantity: item.quantity,
+      unit: item.unit ?? undefined,
+      location: item.location,
+      expiresAt: item.expiresAt ?? undefined,
+      createdAt: item.createdAt,
+      updatedAt: item.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,21 @@
+/** Tables whose changes are pushed to household members. */
+export const REALTIME_TABLES = {
+  SHOPPING_LISTS: 'shopping_lists',
+  SHOPPING_ITEMS: 'shopping_items',
+} as const;
+
+export type RealtimeTable =
+  (typeof REALTIME_TABLES)[keyof typeof REALTIME_TABLES];
+
+export const REALTIME_EVENT_TYPES = ['INSERT', 'UPDATE', 'DELETE'] as const;
+
+export type RealtimeEventType = (typeof REALTIME_EVENT_TYPES)[number];
+
+/** SSE event name for row changes. */
+export const REALTIME_CHANGE_EVENT = 'change';
+
+/** SSE event name for keep-alive messages. */
+export const REALTIME_PING_EVENT = 'ping';
+
+/** Keeps idle streams open through proxies and load balancers. */
+export const REALTIME_HEARTBEAT_MS = 25_000;
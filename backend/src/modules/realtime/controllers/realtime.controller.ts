@@ -0,0 +1,50 @@
+import {
+  Controller,
+  MessageEvent,
+  Sse,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Observable } from 'rxjs';
+import { RealtimeService } from '../services/realtime.service';
+import { JwtAuthGuard, HouseholdGuard } from '../../../common/guards';
+import { CurrentUser, CurrentUserPayload } from '../../../common/decorators';
+
+/**
+ * Live household updates.
+ * API Version: 1
+ * All endpoints require authentication and household membership.
+ *
+ * - GET /realtime/events - Server-sent event stream of shopping list and item changes
+ */
+@ApiTags('realtime')
+@Controller({ path: 'realtime', version: '1' })
+@UseGuards(JwtAuthGuard, HouseholdGuard)
+export class RealtimeController {
+  constructor(private realtimeService: RealtimeService) {}
+
+  @Sse('events')
+  @ApiOperation({
+    summary: 'Stream household changes',
+    description:
+      'Server-sent events: `change` events carry { table, eventType, new, old } for shopping lists and items; `ping` events keep the connection open. The stream ends when the caller leaves, is removed from or switches away from the household.',
+  })
+  @ApiResponse({ status: 200, description: 'text/event-stream' })
+  @ApiResponse({
+    status: 403,
+    description: 'User is no longer a member of the household',
+  })
+  async events(
+    @CurrentUser() user: CurrentUserPayload,
+  ): Promise<Observable<MessageEvent>> {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    await this.realtimeService.assertMember(user.userId, user.householdId);
+    return this.realtimeService.streamForHousehold(
+      user.householdId,
+      user.userId,
+    );
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { RealtimeController } from './controllers/realtime.controller';
+import { RealtimeService } from './services/realtime.service';
+import { PrismaModule } from '../../infrastructure/database/prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [RealtimeController],
+  providers: [RealtimeService],
+  exports: [RealtimeService],
+})
+export class RealtimeModule {}
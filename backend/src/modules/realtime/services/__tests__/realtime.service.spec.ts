@@ -0,0 +1,109 @@
+import { ForbiddenException, MessageEvent } from '@nestjs/common';
+import { Subscription } from 'rxjs';
+import { RealtimeService } from '../realtime.service';
+import { RealtimeChange } from '../../types/realtime-change.interface';
+
+describe('RealtimeService', () => {
+  let service: RealtimeService;
+  let subscription: Subscription | undefined;
+
+  const prisma = {
+    householdMembership: { findUnique: jest.fn() },
+  };
+
+  const change: RealtimeChange = {
+    table: 'shopping_items',
+    eventType: 'UPDATE',
+    new: { id: 'item-1', is_checked: true },
+    old: null,
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    service = new RealtimeService(prisma as any);
+  });
+
+  afterEach(() => {
+    subscription?.unsubscribe();
+    jest.useRealTimers();
+  });
+
+  it("delivers changes to the household's stream only", () => {
+    const received: MessageEvent[] = [];
+    subscription = service
+      .streamForHousehold('household-1', 'user-1')
+      .subscribe((event) => received.push(event));
+
+    service.publish('household-2', change);
+    service.publish('household-1', change);
+
+    expect(received).toEqual([{ type: 'change', data: change }]);
+  });
+
+  it('sends pings while the stream is idle', () => {
+    const received: MessageEvent[] = [];
+    subscription = service
+      .streamForHousehold('household-1', 'user-1', 1000)
+      .subscribe((event) => received.push(event));
+
+    jest.advanceTimersByTime(2000);
+
+    expect(received).toEqual([
+      { type: 'ping', data: {} },
+      { type: 'ping', data: {} },
+    ]);
+  });
+
+  it('stops delivering once the client disconnects', () => {
+    const received: MessageEvent[] = [];
+    subscription = service
+      .streamForHousehold('household-1', 'user-1')
+      .subscribe((event) => received.push(event));
+
+    subscription.unsubscribe();
+    service.publish('household-1', change);
+
+    expect(received).toEqual([]);
+  });
+
+  it("ends a member's stream when their streams in the household are closed", () => {
+    let completed = false;
+    subscription = service
+      .streamForHousehold('household-1', 'user-1')
+      .subscribe({ complete: () => (completed = true) });
+
+    service.closeStreams('household-2', 'user-1');
+    service.closeStreams('household-1', 'user-2');
+    expect(completed).toBe(false);
+
+    service.closeStreams('household-1', 'user-1');
+    expect(completed).toBe(true);
+  });
+
+  it("ends every member's stream when the household's streams are closed", () => {
+    const completed: string[] = [];
+    for (const userId of ['user-1', 'user-2']) {
+      service
+        .streamForHousehold('household-1', userId)
+        .subscribe({ complete: () => completed.push(userId) });
+    }
+
+    service.closeStreams('household-1');
+
+    expect(completed).toEqual(['user-1', 'user-2']);
+  });
+
+  it('rejects a user who is no longer a member of the household', async () => {
+    prisma.householdMembership.findUnique.mockResolvedValueOnce(null);
+
+    await expect(service.assertMember('user-1', 'household-1')).rejects.toThrow(
+      ForbiddenException,
+    );
+    expect(prisma.householdMembership.findUnique).toHaveBeenCalledWith({
+      where: {
+        userId_householdId: { userId: 'user-1', householdId: 'household-1' },
+      },
+      select: { userId: true },
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import {
+  ForbiddenException,
+  Injectable,
+  Logger,
+  MessageEvent,
+} from '@nestjs/common';
+import { Observable, Subject, interval, merge } from 'rxjs';
+import { filter, map, takeUntil } from 'rxjs/operators';
+import { PrismaService } from '../../../infrastructure/database/prisma/prisma.service';
+import { RealtimeChange } from '../types/realtime-change.interface';
+import {
+  REALTIME_CHANGE_EVENT,
+  REALTIME_HEARTBEAT_MS,
+  REALTIME_PING_EVENT,
+} from '../constants/realtime.constants';
+
+interface HouseholdChange {
+  householdId: string;
+  change: RealtimeChange;
+}
+
+interface StreamClosure {
+  householdId: string;
+  /** Only this member's streams; every member's when unset */
+  userId?: string;
+}
+
+/**
+ * Fans out row changes to the household members connected to the event
+ * stream. Changes live in process memory only: a member who is offline when
+ * a change happens picks it up on their next fetch, and the backend has to
+ * run as a single instance for every member to see every change.
+ */
+@Injectable()
+export class RealtimeService {
+  private readonly logger = new Logger(RealtimeService.name);
+  private readonly changes$ = new Subject<HouseholdChange>();
+  private readonly closures$ = new Subject<StreamClosure>();
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Pushes a change to every member of the household who is listening.
+   *
+   * @param householdId - Household the changed row belongs to
+   * @param change - The row change
+   */
+  publish(householdId: string, change: RealtimeChange): void {
+    this.logger.debug(
+      `Publishing ${change.eventType} on ${change.table} to household ${householdId}`,
+    );
+    this.changes$.next({ householdId, change });
+  }
+
+  /**
+   * Ends open event streams of a household, so a member who lost access to
+   * it stops receiving its changes.
+   *
+   * @param householdId - The household
+   * @param userId - Only end this member's streams; every member's when omitted
+   */
+  closeStreams(householdId: string, userId?: string): void {
+    this.logger.debug(
+      `Closing streams of ${userId ?? 'every member'} in household ${householdId}`,
+    );
+    this.closures$.next({ householdId, userId });
+  }
+
+  /**
+   * Checks that the user is still a member of the household. Access tokens
+   * outlive a removal, so the stream can't rely on the token alone.
+   *
+   * @throws ForbiddenException if the user is not a member
+   */
+  async assertMember(userId: string, householdId: string): Promise<void> {
+    const membership = await this.prisma.householdMembership.findUnique({
+      where: { userId_householdId: { userId, householdId } },
+      select: { userId: true },
+    });
+    if (!membership) {
+      throw new ForbiddenException('User does not belong to this household');
+    }
+  }
+
+  /**
+   * Event stream for one member of a household: its row changes plus
+   * periodic pings. Completes when the member's streams are closed.
+   *
+   * @param householdId - The caller's household
+   * @param userId - The caller
+   * @param heartbeatMs - Interval between pings
+   * @returns Server-sent events for the household
+   */
+  streamForHousehold(
+    householdId: string,
+    userId: string,
+    heartbeatMs = REALTIME_HEARTBEAT_MS,
+  ): Observable<MessageEvent> {
+    const changes = this.changes$.pipe(
+      filter((entry) => entry.householdId === householdId),
+      map(
+        (entry): MessageEvent => ({
+          type: REALTIME_CHANGE_EVENT,
+          data: entry.change,
+        }),
+      ),
+    );
+    const pings = interval(heartbeatMs).pipe(
+      map((): MessageEvent => ({ type: REALTIME_PING_EVENT, data: {} })),
+    );
+    const closed = this.closures$.pipe(
+      filter(
+        (closure) =>
+          closure.householdId === householdId &&
+          (closure.userId === undefined || closure.userId === userId),
+      ),
+    );
+    return merge(changes, pings).pipe(takeUntil(closed));
+  }
+}
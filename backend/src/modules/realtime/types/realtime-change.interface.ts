@@ -0,0 +1,18 @@
+import {
+  RealtimeEventType,
+  RealtimeTable,
+} from '../constants/realtime.constants';
+
+/** Column-named row, as the change would appear in the database. */
+export type RealtimeRow = { id: string } & Record<string, unknown>;
+
+/**
+ * A row change pushed to household members. Mirrors the shape of a Postgres
+ * change payload: inserts and updates carry `new`, deletes carry `old`.
+ */
+export interface RealtimeChange {
+  table: RealtimeTable;
+  eventType: RealtimeEventType;
+  new: RealtimeRow | null;
+  old: RealtimeRow | null;
+}
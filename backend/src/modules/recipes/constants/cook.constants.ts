@@ -0,0 +1,19 @@
+/**
+ * What cooking a recipe does with one ingredient line on the target list.
+ * - add: create a new shopping item for the missing amount
+ * - merge: add the missing amount to a matching unchecked item
+ * - replace: overwrite the matching item's quantity with the missing amount
+ * - skip: leave the list untouched (e.g. the pantry already covers it)
+ */
+export const COOK_LINE_ACTIONS = ['add', 'merge', 'replace', 'skip'] as const;
+
+export type CookLineAction = (typeof COOK_LINE_ACTIONS)[number];
+
+/** Category used for new items whose ingredient has no catalog entry. */
+export const RECIPE_INGREDIENT_CATEGORY = 'Recipe Ingredients';
+
+/** Upper bound for the servings multiplier accepted by the cook endpoint. */
+export const MAX_SERVINGS_MULTIPLIER = 20;
+
+/** Upper bound for a recipe's servings and for the target servings when cooking. */
+export const MAX_RECIPE_SERVINGS = 100;
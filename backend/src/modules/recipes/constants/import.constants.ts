@@ -0,0 +1,8 @@
+/** How long to wait for a recipe page when importing from a URL. */
+export const RECIPE_IMPORT_FETCH_TIMEOUT_MS = 10 * 1000;
+
+/** Largest page accepted for import, fetched or pasted (2 MB). */
+export const RECIPE_IMPORT_MAX_HTML_BYTES = 2 * 1024 * 1024;
+
+/** Redirects followed when fetching a recipe page; each target is re-checked. */
+export const RECIPE_IMPORT_MAX_REDIRECTS = 3;
@@ -2,3 +2,15 @@ export {
   normalizeRecipeCategory,
   type RecipeCategory,
 } from './recipe-categories.constants';
+export {
+  COOK_LINE_ACTIONS,
+  type CookLineAction,
+  RECIPE_INGREDIENT_CATEGORY,
+  MAX_SERVINGS_MULTIPLIER,
+  MAX_RECIPE_SERVINGS,
+} from './cook.constants';
+export {
+  RECIPE_IMPORT_FETCH_TIMEOUT_MS,
+  RECIPE_IMPORT_MAX_HTML_BYTES,
+  RECIPE_IMPORT_MAX_REDIRECTS,
+} from './import.constants';
@@ -4,6 +4,7 @@ import { RecipeImagesService } from '../../services/recipe-images.service';
 import { RecipeImageRateLimitGuard } from '../../guards/recipe-image-rate-limit.guard';
 import { BadRequestException } from '@nestjs/common';
 import { JwtAuthGuard } from '../../../../common/guards/jwt-auth.guard';
+import { PermissionGuard } from '../../../../common/guards/permission.guard';
 
 jest.mock(
   'file-type',
@@ -39,6 +40,8 @@ describe('RecipeImagesController', () => {
       .useValue({ canActivate: () => true })
       .overrideGuard(RecipeImageRateLimitGuard)
       .useValue({ canActivate: () => true })
+      .overrideGuard(PermissionGuard)
+      .useValue({ canActivate: () => true })
       .compile();
 
     controller = module.get<RecipeImagesController>(RecipeImagesController);
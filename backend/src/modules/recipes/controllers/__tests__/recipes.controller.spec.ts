@@ -1,11 +1,13 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { RecipesController } from '../recipes.controller';
 import { RecipesService } from '../../services/recipes.service';
+import { RecipeImportService } from '../../services/recipe-import.service';
 import { CreateRecipeDto } from '../../dtos/create-recipe.dto';
 import { RecipeDetailDto } from '../../dtos/recipe-detail-response.dto';
 import { UnitCode, UnitType } from '../../constants/units.constants';
 import { JwtAuthGuard } from '../../../../common/guards/jwt-auth.guard';
 import { HouseholdGuard } from '../../../../common/guards/household.guard';
+import { PermissionGuard } from '../../../../common/guards/permission.guard';
 import { CurrentUserPayload } from '../../../../common/decorators/current-user.decorator';
 
 describe('RecipesController - Unit System', () => {
@@ -29,12 +31,18 @@ describe('RecipesController - Unit System', () => {
             getRecipe: jest.fn(),
           },
         },
+        {
+          provide: RecipeImportService,
+          useValue: { importRecipe: jest.fn() },
+        },
       ],
     })
       .overrideGuard(JwtAuthGuard)
       .useValue({ canActivate: () => true })
       .overrideGuard(HouseholdGuard)
       .useValue({ canActivate: () => true })
+      .overrideGuard(PermissionGuard)
+      .useValue({ canActivate: () => true })
       .compile();
 
     controller = moduleRef.get<RecipesController>(RecipesController);
@@ -71,6 +79,7 @@ describe('RecipesController - Unit System', () => {
       expect(service.createRecipe).toHaveBeenCalledWith(
         mockUser.householdId,
         dto,
+        mockUser.userId,
       );
       expect(result.ingredients).toHaveLength(1);
       expect(result.ingredients[0]).toMatchObject({
@@ -8,12 +8,15 @@ import {
 } from '@nestjs/common';
 import { RecipeImagesService } from '../services/recipe-images.service';
 import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
+import { PermissionGuard } from '../../../common/guards/permission.guard';
+import { RequirePermission } from '../../../common/decorators/require-permission.decorator';
 import { RecipeImageRateLimitGuard } from '../guards/recipe-image-rate-limit.guard';
 import { ApiTags, ApiConsumes, ApiBody } from '@nestjs/swagger';
 import {
   RECIPE_IMAGE_ALLOWED_MIME_TYPES,
   RECIPE_IMAGE_MAX_SIZE_BYTES,
   RecipeImageAllowedMimeType,
+  PERMISSIONS,
 } from '../../../common/constants';
 
 const INVALID_IMAGE_TYPE_MESSAGE =
@@ -40,7 +43,8 @@ export class RecipeImagesController {
   constructor(private readonly recipeImagesService: RecipeImagesService) {}
 
   @Post(':id/image')
-  @UseGuards(RecipeImageRateLimitGuard)
+  @UseGuards(PermissionGuard, RecipeImageRateLimitGuard)
+  @RequirePermission(PERMISSIONS.RECIPES_EDIT)
   @ApiConsumes('multipart/form-data')
   @ApiBody({
     schema: {
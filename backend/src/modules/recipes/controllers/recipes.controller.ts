@@ -12,9 +12,24 @@ import {
   Logger,
 } from '@nestjs/common';
 import { RecipesService } from '../services/recipes.service';
-import { CreateRecipeDto, UpdateRecipeDto, CookRecipeDto } from '../dtos';
-import { JwtAuthGuard, HouseholdGuard } from '../../../common/guards';
-import { CurrentUser, CurrentUserPayload } from '../../../common/decorators';
+import { RecipeImportService } from '../services/recipe-import.service';
+import {
+  CreateRecipeDto,
+  UpdateRecipeDto,
+  CookRecipeDto,
+  ImportRecipeDto,
+} from '../dtos';
+import {
+  JwtAuthGuard,
+  HouseholdGuard,
+  PermissionGuard,
+} from '../../../common/guards';
+import {
+  CurrentUser,
+  CurrentUserPayload,
+  RequirePermission,
+} from '../../../common/decorators';
+import { PERMISSIONS } from '../../../common/constants';
 
 /**
  * Recipes controller handling recipe CRUD operations.
@@ -22,11 +37,14 @@ import { CurrentUser, CurrentUserPayload } from '../../../common/decorators';
  * All endpoints require authentication and household membership.
  */
 @Controller({ path: 'recipes', version: '1' })
-@UseGuards(JwtAuthGuard, HouseholdGuard)
+@UseGuards(JwtAuthGuard, HouseholdGuard, PermissionGuard)
 export class RecipesController {
   private readonly logger = new Logger(RecipesController.name);
 
-  constructor(private recipesService: RecipesService) {}
+  constructor(
+    private recipesService: RecipesService,
+    private recipeImportService: RecipeImportService,
+  ) {}
 
   @Get()
   async getRecipes(
@@ -48,6 +66,7 @@ export class RecipesController {
   }
 
   @Post()
+  @RequirePermission(PERMISSIONS.RECIPES_EDIT)
   async createRecipe(
     @CurrentUser() user: CurrentUserPayload,
     @Body() dto: CreateRecipeDto,
@@ -57,7 +76,23 @@ export class RecipesController {
       throw new BadRequestException('User must belong to a household');
     }
 
-    return this.recipesService.createRecipe(user.householdId, dto);
+    return this.recipesService.createRecipe(user.householdId, dto, user.userId);
+  }
+
+  /**
+   * Parses a recipe draft from a web page (schema.org Recipe JSON-LD or
+   * microdata). The draft is returned for review and is not saved.
+   */
+  @Post('import')
+  @RequirePermission(PERMISSIONS.RECIPES_EDIT)
+  async importRecipe(
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: ImportRecipeDto,
+  ) {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    return this.recipeImportService.importRecipe(dto);
   }
 
   @Get(':id')
@@ -75,6 +110,7 @@ export class RecipesController {
   }
 
   @Put(':id')
+  @RequirePermission(PERMISSIONS.RECIPES_EDIT)
   async updateRecipe(
     @CurrentUser() user: CurrentUserPayload,
     @Param('id') recipeId: string,
@@ -83,10 +119,16 @@ export class RecipesController {
     if (!user.householdId) {
       throw new BadRequestException('User must belong to a household');
     }
-    return this.recipesService.updateRecipe(recipeId, user.householdId, dto);
+    return this.recipesService.updateRecipe(
+      recipeId,
+      user.householdId,
+      dto,
+      user.userId,
+    );
   }
 
   @Post(':id/cook')
+  @RequirePermission(PERMISSIONS.RECIPES_COOK)
   async cookRecipe(
     @CurrentUser() user: CurrentUserPayload,
     @Param('id') recipeId: string,
@@ -95,10 +137,16 @@ export class RecipesController {
     if (!user.householdId) {
       throw new BadRequestException('User must belong to a household');
     }
-    return this.recipesService.cookRecipe(recipeId, user.householdId, dto);
+    return this.recipesService.cookRecipe(
+      recipeId,
+      user.householdId,
+      dto,
+      user.userId,
+    );
   }
 
   @Delete(':id')
+  @RequirePermission(PERMISSIONS.RECIPES_EDIT)
   async deleteRecipe(
     @CurrentUser() user: CurrentUserPayload,
     @Param('id') recipeId: string,
@@ -109,4 +157,21 @@ export class RecipesController {
     await this.recipesService.deleteRecipe(recipeId, user.householdId);
     return { success: true };
   }
+
+  @Post(':id/restore')
+  @RequirePermission(PERMISSIONS.RECIPES_EDIT)
+  async restoreRecipe(
+    @CurrentUser() user: CurrentUserPayload,
+    @Param('id') recipeId: string,
+  ) {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    await this.recipesService.restoreRecipe(
+      recipeId,
+      user.householdId,
+      user.userId,
+    );
+    return { success: true };
+  }
 }
@@ -0,0 +1,40 @@
+import { CookLineAction } from '../constants';
+
+export class CookListItemDto {
+  id: string;
+  name: string;
+  quantity: number;
+  unit?: string;
+}
+
+/**
+ * Planned (or applied) outcome for one recipe ingredient.
+ * Amounts are expressed in the ingredient's unit unless stated otherwise.
+ */
+export class CookPlanLineDto {
+  /** Index of the ingredient in the recipe's ingredient list */
+  index: number;
+  name: string;
+  catalogItemId?: string;
+  unit?: string;
+  /** Amount the recipe needs after applying the servings multiplier */
+  required: number;
+  /** Part of the required amount already covered by pantry stock */
+  inPantry: number;
+  /** Amount that goes onto the list */
+  quantity: number;
+  action: CookLineAction;
+  /** Unchecked list item the line merges into or replaces, if any */
+  existingItem?: CookListItemDto;
+  /** Quantity of the existing item after the line is applied, in that item's unit */
+  resultingQuantity?: number;
+}
+
+export class CookRecipeResponseDto {
+  /** True when nothing was written and `lines` is a proposal */
+  preview: boolean;
+  servingsMultiplier: number;
+  lines: CookPlanLineDto[];
+  itemsAdded: CookListItemDto[];
+  itemsUpdated: CookListItemDto[];
+}
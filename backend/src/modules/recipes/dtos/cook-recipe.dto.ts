@@ -1,4 +1,44 @@
-import { IsString, IsNotEmpty, IsOptional } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsNumber,
+  IsPositive,
+  IsBoolean,
+  IsArray,
+  IsIn,
+  IsInt,
+  Min,
+  Max,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  COOK_LINE_ACTIONS,
+  CookLineAction,
+  MAX_SERVINGS_MULTIPLIER,
+  MAX_RECIPE_SERVINGS,
+} from '../constants';
+
+/**
+ * User decision for one ingredient line of a cook preview.
+ * Lines without a decision are applied as planned.
+ */
+export class CookLineDecisionDto {
+  /** Index of the ingredient in the recipe's ingredient list */
+  @IsInt()
+  @Min(0)
+  index: number;
+
+  @IsIn(COOK_LINE_ACTIONS)
+  action: CookLineAction;
+
+  /** Overrides the planned amount, expressed in the ingredient's unit */
+  @IsNumber()
+  @IsPositive()
+  @IsOptional()
+  quantity?: number;
+}
 
 export class CookRecipeDto {
   @IsString()
@@ -8,4 +48,32 @@ export class CookRecipeDto {
   @IsString()
   @IsOptional()
   ingredients?: string; // JSON string of ingredients to add
+
+  /** Scales every ingredient amount (e.g. 2 to cook a double batch). Defaults to 1. */
+  @IsNumber()
+  @IsPositive()
+  @Max(MAX_SERVINGS_MULTIPLIER)
+  @IsOptional()
+  servingsMultiplier?: number;
+
+  /**
+   * Number of servings to cook. Scales the recipe from its own servings and
+   * cannot be combined with servingsMultiplier.
+   */
+  @IsInt()
+  @Min(1)
+  @Max(MAX_RECIPE_SERVINGS)
+  @IsOptional()
+  servings?: number;
+
+  /** When true, only the plan is returned and nothing is written. */
+  @IsBoolean()
+  @IsOptional()
+  preview?: boolean;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CookLineDecisionDto)
+  @IsOptional()
+  lines?: CookLineDecisionDto[];
 }
@@ -4,6 +4,8 @@ import {
   IsOptional,
   IsArray,
   IsNumber,
+  IsInt,
+  Max,
   IsEnum,
   ValidateIf,
   Min,
@@ -12,6 +14,7 @@ import {
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { UnitType, UnitCode } from '../constants/units.constants';
+import { MAX_RECIPE_SERVINGS } from '../constants';
 import {
   IsValidUnitTypeMatch,
   HasPositiveAmountWhenMeasured,
@@ -98,6 +101,13 @@ export class CreateRecipeDto {
   @IsOptional()
   prepTime?: number;
 
+  /** Number of servings the ingredient amounts yield. */
+  @IsInt()
+  @Min(1)
+  @Max(MAX_RECIPE_SERVINGS)
+  @IsOptional()
+  servings?: number;
+
   @IsArray()
   @IsNotEmpty()
   @ValidateNested({ each: true })
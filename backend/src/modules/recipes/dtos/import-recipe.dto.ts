@@ -0,0 +1,24 @@
+import {
+  IsNotEmpty,
+  IsString,
+  IsUrl,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { RECIPE_IMPORT_MAX_HTML_BYTES } from '../constants';
+
+/**
+ * Source of a recipe import: a page URL the server fetches, or HTML the app
+ * already has (e.g. pasted or shared). One of the two is required.
+ */
+export class ImportRecipeDto {
+  @ValidateIf((o) => !o.html)
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true })
+  url?: string;
+
+  @ValidateIf((o) => !o.url)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(RECIPE_IMPORT_MAX_HTML_BYTES)
+  html?: string;
+}
@@ -0,0 +1,20 @@
+import {
+  RecipeIngredientDto,
+  RecipeInstructionDto,
+} from './recipe-detail-response.dto';
+
+/**
+ * Recipe draft parsed from a web page, in CreateRecipeDto shape. Nothing is
+ * saved; the app shows the draft for review and then creates the recipe.
+ */
+export class ImportedRecipeDto {
+  title: string;
+  description?: string;
+  prepTime?: number;
+  servings?: number;
+  imageUrl?: string;
+  /** Page the recipe was fetched from, when imported by URL */
+  sourceUrl?: string;
+  ingredients: RecipeIngredientDto[];
+  instructions: RecipeInstructionDto[];
+}
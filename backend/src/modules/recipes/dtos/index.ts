@@ -3,3 +3,6 @@ export * from './recipe-detail-response.dto';
 export * from './create-recipe.dto';
 export * from './update-recipe.dto';
 export * from './cook-recipe.dto';
+export * from './cook-recipe-response.dto';
+export * from './import-recipe.dto';
+export * from './imported-recipe-response.dto';
@@ -23,6 +23,7 @@ export class RecipeDetailDto {
   description?: string;
   category?: string;
   prepTime?: number;
+  servings?: number;
   ingredients: RecipeIngredientDto[];
   instructions: RecipeInstructionDto[];
   hasImage: boolean;
@@ -4,6 +4,7 @@ export class RecipeListItemDto {
   description?: string;
   category?: string;
   prepTime?: number;
+  servings?: number;
   hasImage: boolean;
   imageUrl?: string;
   thumbUrl?: string | null;
@@ -14,3 +15,13 @@ export class RecipeListItemDto {
   imageVersion?: number;
   imageUpdatedAt?: Date | null;
 }
+
+/**
+ * A recipe in a sync delta. Deleted recipes are sent as tombstones with
+ * deletedAt set.
+ */
+export class RecipeChangeDto extends RecipeListItemDto {
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt: Date | null;
+}
@@ -3,11 +3,15 @@ import {
   IsOptional,
   IsArray,
   IsNumber,
+  IsInt,
+  Min,
+  Max,
   ValidateNested,
   ValidateIf,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { IngredientInputDto, InstructionInputDto } from './create-recipe.dto';
+import { MAX_RECIPE_SERVINGS } from '../constants';
 
 export class UpdateRecipeDto {
   @IsString()
@@ -26,6 +30,14 @@ export class UpdateRecipeDto {
   @IsOptional()
   prepTime?: number;
 
+  /** Number of servings the ingredient amounts yield; pass null to clear. */
+  @ValidateIf((o) => o.servings != null)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_RECIPE_SERVINGS)
+  @IsOptional()
+  servings?: number | null;
+
   @IsArray()
   @IsOptional()
   @ValidateNested({ each: true })
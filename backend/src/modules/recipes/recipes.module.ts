@@ -3,25 +3,36 @@ import { ConfigModule } from '@nestjs/config';
 import { RecipesController } from './controllers/recipes.controller';
 import { RecipeImagesController } from './controllers/recipe-images.controller';
 import { RecipesService } from './services/recipes.service';
+import { RecipeImportService } from './services/recipe-import.service';
 import { RecipeImagesService } from './services/recipe-images.service';
 import { ImageProcessingService } from './images/image-processing.service';
 import { RecipeImageRateLimitService } from './services/recipe-image-rate-limit.service';
 import { RecipeImageRateLimitGuard } from './guards/recipe-image-rate-limit.guard';
 import { RecipesRepository } from './repositories/recipes.repository';
+import { RecipeImagesProcessor } from '../../jobs/recipe-images.processor';
 import { PrismaModule } from '../../infrastructure/database/prisma/prisma.module';
 import { StorageModule } from '../../infrastructure/storage/storage.module';
 import { ShoppingModule } from '../shopping/shopping.module';
+import { AuditModule } from '../audit/audit.module';
 
 @Module({
-  imports: [PrismaModule, StorageModule, ConfigModule, ShoppingModule],
+  imports: [
+    PrismaModule,
+    StorageModule,
+    ConfigModule,
+    ShoppingModule,
+    AuditModule,
+  ],
   controllers: [RecipesController, RecipeImagesController],
   providers: [
     RecipesService,
+    RecipeImportService,
     RecipesRepository,
     RecipeImagesService,
     RecipeImageRateLimitService,
     RecipeImageRateLimitGuard,
     ImageProcessingService,
+    RecipeImagesProcessor,
   ],
   exports: [RecipesService],
 })
@@ -54,6 +54,26 @@ export class RecipesRepository {
     }
   }
 
+  /**
+   * Finds recipes created, updated or deleted at or after a point in time,
+   * including soft-deleted ones.
+   *
+   * @param householdId - The household ID
+   * @param since - Earliest updatedAt to include
+   */
+  async findRecipesChangedSince(
+    householdId: string,
+    since: Date,
+  ): Promise<Recipe[]> {
+    return this.prisma.recipe.findMany({
+      where: {
+        householdId,
+        updatedAt: { gte: since },
+      },
+      orderBy: { updatedAt: 'asc' },
+    });
+  }
+
   async findRecipeById(id: string): Promise<Recipe | null> {
     return this.prisma.recipe.findFirst({
       where: {
@@ -63,6 +83,20 @@ export class RecipesRepository {
     });
   }
 
+  /**
+   * Finds a recipe that is in the trash (soft-deleted).
+   *
+   * @param id - Recipe ID
+   */
+  async findDeletedRecipeById(id: string): Promise<Recipe | null> {
+    return this.prisma.recipe.findFirst({
+      where: {
+        id,
+        deletedAt: { not: null },
+      },
+    });
+  }
+
   async createRecipe(
     householdId: string,
     data: {
@@ -70,6 +104,7 @@ export class RecipesRepository {
       description?: string;
       category?: string;
       prepTime?: number;
+      servings?: number;
       ingredients: any;
       instructions: any;
       imageUrl?: string;
@@ -86,6 +121,7 @@ export class RecipesRepository {
           description: data.description,
           category: data.category,
           prepTime: data.prepTime,
+          servings: data.servings,
           ingredients: data.ingredients,
           instructions: data.instructions,
           imageUrl: data.imageUrl,
@@ -113,6 +149,7 @@ export class RecipesRepository {
       description?: string | null;
       category?: string;
       prepTime?: number;
+      servings?: number | null;
       /** JSON-serializable; cast to Prisma input at boundary */
       ingredients?: unknown;
       /** JSON-serializable; cast to Prisma input at boundary */
@@ -161,4 +198,36 @@ export class RecipesRepository {
       data: { deletedAt: null },
     });
   }
+
+  /**
+   * Finds catalog items whose name or alias matches one of the given names
+   * (case-insensitive). Used to link imported ingredients to the catalog.
+   *
+   * @param names - Lowercased ingredient names
+   */
+  async findCatalogItemsByNames(
+    names: string[],
+  ): Promise<
+    { id: string; name: string; aliases: { normalizedAlias: string }[] }[]
+  > {
+    if (names.length === 0) {
+      return [];
+    }
+    return this.prisma.masterGroceryCatalog.findMany({
+      where: {
+        OR: [
+          { name: { in: names, mode: 'insensitive' } },
+          { aliases: { some: { normalizedAlias: { in: names } } } },
+        ],
+      },
+      select: {
+        id: true,
+        name: true,
+        aliases: {
+          where: { normalizedAlias: { in: names } },
+          select: { normalizedAlias: true },
+        },
+      },
+    });
+  }
 }
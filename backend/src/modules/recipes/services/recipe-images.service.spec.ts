@@ -4,6 +4,9 @@ import { RecipeImagesService } from './recipe-images.service';
 import { PrismaService } from '../../../infrastructure/database/prisma/prisma.service';
 import { ImageProcessingService } from '../images/image-processing.service';
 import { StoragePort } from '../../../infrastructure/storage/storage.interface';
+import axios from 'axios';
+
+jest.mock('axios');
 
 const DEFAULT_SIGNED_URL_TTL_SECONDS = 60 * 60 * 24 * 7;
 
@@ -29,6 +32,8 @@ describe('RecipeImagesService', () => {
           useValue: {
             recipe: {
               findUnique: jest.fn(),
+              findFirst: jest.fn(),
+              findMany: jest.fn(),
               update: jest.fn(),
             },
           },
@@ -131,4 +136,67 @@ describe('RecipeImagesService', () => {
       expect(result).toEqual(expected);
     });
   });
+
+  describe('migrateLegacyImage', () => {
+    const legacyRecipe = {
+      id: 'r1',
+      householdId: 'h1',
+      imageUrl: 'https://legacy.example.com/pasta.jpg',
+      imageKey: null,
+      imageVersion: 1,
+    };
+
+    it('downloads the legacy image and stores it as a recipe image', async () => {
+      const module = await createTestingModule(() => 3600);
+      const service = module.get(RecipeImagesService);
+      const prisma = module.get(PrismaService) as any;
+      prisma.recipe.findFirst.mockResolvedValue(legacyRecipe);
+      prisma.recipe.findUnique.mockResolvedValue(legacyRecipe);
+      prisma.recipe.update.mockResolvedValue({
+        ...legacyRecipe,
+        imageUrl: null,
+      });
+      (axios.get as jest.Mock).mockResolvedValue({
+        data: Buffer.from('jpeg'),
+        headers: { 'content-type': 'image/png' },
+      });
+
+      await expect(service.migrateLegacyImage('r1')).resolves.toBe(true);
+
+      expect(axios.get).toHaveBeenCalledWith(
+        legacyRecipe.imageUrl,
+        expect.objectContaining({ responseType: 'arraybuffer' }),
+      );
+      expect(mockStorage.putObject).toHaveBeenCalledTimes(2);
+      expect(prisma.recipe.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ imageUrl: null, imageVersion: 2 }),
+        }),
+      );
+    });
+
+    it('skips recipes that were already migrated', async () => {
+      const module = await createTestingModule(() => 3600);
+      const service = module.get(RecipeImagesService);
+      const prisma = module.get(PrismaService) as any;
+      prisma.recipe.findFirst.mockResolvedValue({
+        ...legacyRecipe,
+        imageKey: 'households/h1/recipes/r1/image_v2.webp',
+      });
+
+      await expect(service.migrateLegacyImage('r1')).resolves.toBe(false);
+      expect(axios.get).not.toHaveBeenCalled();
+    });
+
+    it('propagates download failures so the job is retried', async () => {
+      const module = await createTestingModule(() => 3600);
+      const service = module.get(RecipeImagesService);
+      const prisma = module.get(PrismaService) as any;
+      prisma.recipe.findFirst.mockResolvedValue(legacyRecipe);
+      (axios.get as jest.Mock).mockRejectedValue(new Error('timeout'));
+
+      await expect(service.migrateLegacyImage('r1')).rejects.toThrow('timeout');
+      expect(mockStorage.putObject).not.toHaveBeenCalled();
+    });
+  });
 });
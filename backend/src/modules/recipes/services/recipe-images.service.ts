@@ -1,10 +1,13 @@
 import { Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
 import { PrismaService } from '../../../infrastructure/database/prisma/prisma.service';
 import { ImageProcessingService } from '../images/image-processing.service';
 import { StoragePort } from '../../../infrastructure/storage/storage.interface';
+import { ACTIVE_RECORDS_FILTER } from '../../../infrastructure/database/filters/soft-delete.filter';
 
 const DEFAULT_SIGNED_URL_TTL_SECONDS = 60 * 60 * 24 * 7;
+const LEGACY_IMAGE_DOWNLOAD_TIMEOUT_MS = 30 * 1000;
 
 /**
  * Reads RECIPE_IMAGE_SIGNED_URL_TTL_SECONDS from config. ConfigService may return
@@ -144,6 +147,55 @@ export class RecipeImagesService {
     }
   }
 
+  /**
+   * Finds recipes that still reference a legacy image URL instead of a
+   * stored image.
+   *
+   * @returns Recipe IDs to migrate
+   */
+  async findLegacyImageRecipeIds(): Promise<string[]> {
+    const recipes = await this.prisma.recipe.findMany({
+      where: {
+        imageUrl: { not: null },
+        imageKey: null,
+        ...ACTIVE_RECORDS_FILTER,
+      },
+      select: { id: true },
+    });
+    return recipes.map((recipe) => recipe.id);
+  }
+
+  /**
+   * Downloads a recipe's legacy image URL and stores it like an uploaded
+   * image (processed, versioned, legacy URL cleared).
+   *
+   * @param recipeId - The recipe ID
+   * @returns true if the image was migrated, false if there was nothing to migrate
+   * @throws Error if the download, processing or upload fails
+   */
+  async migrateLegacyImage(recipeId: string): Promise<boolean> {
+    const recipe = await this.prisma.recipe.findFirst({
+      where: { id: recipeId, ...ACTIVE_RECORDS_FILTER },
+    });
+    if (!recipe?.imageUrl || recipe.imageKey) {
+      return false;
+    }
+
+    const response = await axios.get<ArrayBuffer>(recipe.imageUrl, {
+      responseType: 'arraybuffer',
+      timeout: LEGACY_IMAGE_DOWNLOAD_TIMEOUT_MS,
+    });
+    const mimeType = response.headers['content-type'] || 'image/jpeg';
+
+    await this.uploadRecipeImage(
+      recipe.id,
+      Buffer.from(response.data),
+      String(mimeType),
+      recipe.householdId,
+    );
+    return true;
+  }
+
   async getRecipeImageUrls(recipe: {
     imageKey: string | null;
     thumbKey: string | null;
@@ -0,0 +1,176 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Test, TestingModule } from '@nestjs/testing';
+import axios from 'axios';
+import { isIP } from 'net';
+import { lookup } from 'dns/promises';
+import { RecipeImportService } from './recipe-import.service';
+import { RecipesRepository } from '../repositories/recipes.repository';
+
+jest.mock('axios');
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+const DNS_RECORDS: Record<string, string> = {
+  'example.com': '93.184.216.34',
+  'cdn.example.com': '93.184.216.35',
+  localhost: '127.0.0.1',
+  'recipes.attacker.test': '10.0.0.8',
+};
+
+describe('RecipeImportService', () => {
+  let service: RecipeImportService;
+
+  const pageHtml = readFileSync(
+    join(__dirname, '../utils/__tests__/fixtures/json-ld-graph.html'),
+    'utf8',
+  );
+
+  const mockRepository = {
+    findCatalogItemsByNames: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    (lookup as jest.Mock).mockImplementation(async (host: string) => {
+      const address = isIP(host) ? host : DNS_RECORDS[host];
+      return [{ address, family: isIP(address) }];
+    });
+    mockRepository.findCatalogItemsByNames.mockResolvedValue([
+      { id: 'cat-onion', name: 'Onion', aliases: [] },
+      {
+        id: 'cat-egg',
+        name: 'Eggs',
+        aliases: [{ normalizedAlias: 'large eggs' }],
+      },
+    ]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RecipeImportService,
+        { provide: RecipesRepository, useValue: mockRepository },
+      ],
+    }).compile();
+
+    service = module.get<RecipeImportService>(RecipeImportService);
+  });
+
+  it('parses pasted HTML without fetching', async () => {
+    const draft = await service.importRecipe({ html: pageHtml });
+
+    expect(axios.get).not.toHaveBeenCalled();
+    expect(draft.title).toBe('Easy Shakshuka');
+    expect(draft.sourceUrl).toBeUndefined();
+    expect(draft.instructions).toHaveLength(3);
+  });
+
+  it('links ingredients to catalog items by name, singular or alias', async () => {
+    const draft = await service.importRecipe({ html: pageHtml });
+
+    expect(mockRepository.findCatalogItemsByNames).toHaveBeenCalledWith(
+      expect.arrayContaining(['onion', 'large eggs', 'large egg']),
+    );
+    expect(draft.ingredients[1]).toEqual(
+      expect.objectContaining({
+        name: 'onion, diced',
+        catalogItemId: 'cat-onion',
+      }),
+    );
+    expect(draft.ingredients[5].catalogItemId).toBe('cat-egg');
+    expect(draft.ingredients[0].catalogItemId).toBeUndefined();
+  });
+
+  it('fetches the page when given a URL', async () => {
+    (axios.get as jest.Mock).mockResolvedValue({
+      status: 200,
+      headers: {},
+      data: pageHtml,
+    });
+
+    const draft = await service.importRecipe({
+      url: 'https://example.com/shakshuka/',
+    });
+
+    expect(axios.get).toHaveBeenCalledWith(
+      'https://example.com/shakshuka/',
+      expect.objectContaining({ responseType: 'text', maxRedirects: 0 }),
+    );
+    expect(draft.sourceUrl).toBe('https://example.com/shakshuka/');
+  });
+
+  it.each([
+    ['a private host', 'http://192.168.1.10/recipe'],
+    ['localhost', 'http://localhost:3000/recipe'],
+    ['a decimal IPv4 loopback', 'http://2130706433/recipe'],
+    ['an IPv4-mapped IPv6 loopback', 'http://[::ffff:7f00:1]/recipe'],
+    [
+      'a public name resolving to a private address',
+      'http://recipes.attacker.test/',
+    ],
+  ])('rejects %s', async (_label, url) => {
+    await expect(service.importRecipe({ url })).rejects.toThrow(
+      'URL must point to a public website',
+    );
+    expect(axios.get).not.toHaveBeenCalled();
+  });
+
+  it('follows redirects to public pages', async () => {
+    (axios.get as jest.Mock)
+      .mockResolvedValueOnce({
+        status: 301,
+        headers: { location: 'https://cdn.example.com/shakshuka/' },
+        data: '',
+      })
+      .mockResolvedValueOnce({ status: 200, headers: {}, data: pageHtml });
+
+    const draft = await service.importRecipe({
+      url: 'https://example.com/shakshuka/',
+    });
+
+    expect(axios.get).toHaveBeenLastCalledWith(
+      'https://cdn.example.com/shakshuka/',
+      expect.anything(),
+    );
+    expect(draft.title).toBe('Easy Shakshuka');
+  });
+
+  it('rejects a redirect to an internal address', async () => {
+    (axios.get as jest.Mock).mockResolvedValue({
+      status: 302,
+      headers: { location: 'http://169.254.169.254/latest/meta-data/' },
+      data: '',
+    });
+
+    await expect(
+      service.importRecipe({ url: 'https://example.com/shakshuka/' }),
+    ).rejects.toThrow('URL must point to a public website');
+    expect(axios.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops after too many redirects', async () => {
+    (axios.get as jest.Mock).mockResolvedValue({
+      status: 302,
+      headers: { location: '/again' },
+      data: '',
+    });
+
+    await expect(
+      service.importRecipe({ url: 'https://example.com/loop' }),
+    ).rejects.toThrow('Could not fetch the recipe page');
+    expect(axios.get).toHaveBeenCalledTimes(4);
+  });
+
+  it('rejects pages that fail to load', async () => {
+    (axios.get as jest.Mock).mockRejectedValue(new Error('timeout'));
+
+    await expect(
+      service.importRecipe({ url: 'https://example.com/missing' }),
+    ).rejects.toThrow('Could not fetch the recipe page');
+  });
+
+  it('rejects pages without a recipe', async () => {
+    await expect(
+      service.importRecipe({ html: '<html><body>Hello</body></html>' }),
+    ).rejects.toThrow('No recipe found on this page');
+    expect(mockRepository.findCatalogItemsByNames).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,192 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import axios, { AxiosResponse } from 'axios';
+import { Agent as HttpAgent } from 'http';
+import { Agent as HttpsAgent } from 'https';
+import { RecipesRepository } from '../repositories/recipes.repository';
+import { ImportRecipeDto, ImportedRecipeDto } from '../dtos';
+import {
+  RECIPE_IMPORT_FETCH_TIMEOUT_MS,
+  RECIPE_IMPORT_MAX_HTML_BYTES,
+  RECIPE_IMPORT_MAX_REDIRECTS,
+} from '../constants';
+import {
+  ParsedIngredient,
+  RecipeHtmlParser,
+} from '../utils/recipe-html-parser';
+import {
+  NonPublicAddressError,
+  lookupPublicAddress,
+  resolvePublicAddresses,
+} from '../utils/public-address';
+
+const httpAgent = new HttpAgent({ lookup: lookupPublicAddress });
+const httpsAgent = new HttpsAgent({ lookup: lookupPublicAddress });
+
+/**
+ * Imports recipes from web pages that publish schema.org Recipe data.
+ *
+ * Responsibilities:
+ * - Fetching the page (or taking HTML from the client)
+ * - Parsing the Recipe JSON-LD/microdata into a CreateRecipeDto-shaped draft
+ * - Linking ingredients to catalog items by name or alias
+ *
+ * Nothing is saved; the client reviews the draft and creates the recipe.
+ */
+@Injectable()
+export class RecipeImportService {
+  private readonly logger = new Logger(RecipeImportService.name);
+
+  constructor(private recipesRepository: RecipesRepository) {}
+
+  /**
+   * Parses a recipe draft from a URL or from HTML.
+   *
+   * @param dto - Page URL or HTML
+   * @returns The recipe draft
+   * @throws BadRequestException if the page can't be fetched or has no recipe
+   */
+  async importRecipe(dto: ImportRecipeDto): Promise<ImportedRecipeDto> {
+    const html = dto.html ?? (await this.fetchHtml(dto.url as string));
+    const parsed = RecipeHtmlParser.parse(html);
+    if (!parsed) {
+      throw new BadRequestException('No recipe found on this page');
+    }
+
+    const catalogIds = await this.matchCatalogItems(parsed.ingredients);
+    this.logger.log(
+      `Imported recipe draft with ${parsed.ingredients.length} ingredients (${catalogIds.size} matched to catalog)`,
+    );
+
+    return {
+      ...parsed,
+      sourceUrl: dto.html ? undefined : dto.url,
+      ingredients: parsed.ingredients.map((ingredient) => ({
+        ...ingredient,
+        catalogItemId: catalogIds.get(this.catalogKey(ingredient.name)),
+      })),
+    };
+  }
+
+  /**
+   * Fetches a recipe page from the public internet. Redirects are followed
+   * by hand so every target is checked, and the agents only connect to the
+   * public addresses the host was checked against.
+   *
+   * @throws BadRequestException if a URL points to a non-public address or
+   *   the page can't be fetched
+   */
+  private async fetchHtml(url: string): Promise<string> {
+    let target = new URL(url);
+    for (let redirects = 0; ; redirects++) {
+      await this.assertPublicUrl(target);
+      const response = await this.request(target);
+      const location = response.headers.location;
+      if (response.status < 300) {
+        return String(response.data);
+      }
+      if (
+        typeof location !== 'string' ||
+        redirects >= RECIPE_IMPORT_MAX_REDIRECTS
+      ) {
+        this.logger.warn(
+          `Failed to fetch recipe page ${url}: too many or invalid redirects`,
+        );
+        throw new BadRequestException('Could not fetch the recipe page');
+      }
+      target = new URL(location, target);
+    }
+  }
+
+  private async assertPublicUrl(url: URL): Promise<void> {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new BadRequestException('URL must point to a public website');
+    }
+    try {
+      await resolvePublicAddresses(url.hostname);
+    } catch (error) {
+      if (error instanceof NonPublicAddressError) {
+        throw new BadRequestException('URL must point to a public website');
+      }
+      this.logger.warn(
+        `Failed to resolve recipe page host ${url.hostname}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new BadRequestException('Could not fetch the recipe page');
+    }
+  }
+
+  private async request(url: URL): Promise<AxiosResponse<string>> {
+    try {
+      return await axios.get<string>(url.href, {
+        responseType: 'text',
+        timeout: RECIPE_IMPORT_FETCH_TIMEOUT_MS,
+        maxContentLength: RECIPE_IMPORT_MAX_HTML_BYTES,
+        maxRedirects: 0,
+        validateStatus: (status) => status >= 200 && status < 400,
+        httpAgent,
+        httpsAgent,
+        headers: { Accept: 'text/html,application/xhtml+xml' },
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to fetch recipe page ${url.href}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new BadRequestException('Could not fetch the recipe page');
+    }
+  }
+
+  /**
+   * Maps catalog keys of the ingredients to catalog item IDs. Names match the
+   * catalog name or an alias, also in the singular ("onions" → "onion").
+   */
+  private async matchCatalogItems(
+    ingredients: ParsedIngredient[],
+  ): Promise<Map<string, string>> {
+    const candidatesByKey = new Map(
+      ingredients.map((ingredient) => {
+        const key = this.catalogKey(ingredient.name);
+        return [key, this.singularCandidates(key)];
+      }),
+    );
+    const catalogItems = await this.recipesRepository.findCatalogItemsByNames([
+      ...new Set([...candidatesByKey.values()].flat()),
+    ]);
+
+    const idByName = new Map<string, string>();
+    for (const item of catalogItems) {
+      idByName.set(item.name.toLowerCase(), item.id);
+      for (const alias of item.aliases) {
+        if (!idByName.has(alias.normalizedAlias)) {
+          idByName.set(alias.normalizedAlias, item.id);
+        }
+      }
+    }
+
+    const matches = new Map<string, string>();
+    for (const [key, candidates] of candidatesByKey) {
+      const id = candidates
+        .map((candidate) => idByName.get(candidate))
+        .find(Boolean);
+      if (id) {
+        matches.set(key, id);
+      }
+    }
+    return matches;
+  }
+
+  /** The part of the name before any preparation note ("onions, diced" → "onions"). */
+  private catalogKey(name: string): string {
+    return name.split(/[,(]/)[0].trim().toLowerCase();
+  }
+
+  private singularCandidates(name: string): string[] {
+    const candidates = [name];
+    if (name.endsWith('ies')) {
+      candidates.push(`${name.slice(0, -3)}y`);
+    } else if (name.endsWith('oes') || name.endsWith('ches')) {
+      candidates.push(name.slice(0, -2));
+    } else if (name.endsWith('s') && !name.endsWith('ss')) {
+      candidates.push(name.slice(0, -1));
+    }
+    return candidates.filter(Boolean);
+  }
+}
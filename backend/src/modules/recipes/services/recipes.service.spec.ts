@@ -3,9 +3,14 @@ import { Recipe, ShoppingList, ShoppingItem } from '@prisma/client';
 import { RecipesService } from './recipes.service';
 import { RecipesRepository } from '../repositories/recipes.repository';
 import { PrismaService } from '../../../infrastructure/database/prisma/prisma.service';
-import { NotFoundException, ForbiddenException } from '@nestjs/common';
+import {
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
 import { RecipeImagesService } from './recipe-images.service';
 import { ShoppingService } from '../../shopping/services/shopping.service';
+import { AuditService } from '../../audit/services/audit.service';
 
 /**
  * Recipes Service Unit Tests
@@ -22,8 +27,31 @@ describe('RecipesService - Soft-Delete Behavior', () => {
 
   const mockHouseholdId = 'household-123';
   const mockRecipeId = 'recipe-123';
+  const mockUserId = 'user-123';
 
   beforeEach(async () => {
+    const prismaMock = {
+      shoppingList: {
+        findFirst: jest.fn(),
+      },
+      shoppingItem: {
+        create: jest.fn(),
+        update: jest.fn(),
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      pantryItem: {
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      masterGroceryCatalog: {
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      $transaction: jest.fn(),
+    };
+    prismaMock.$transaction.mockImplementation(
+      (callback: (tx: typeof prismaMock) => Promise<unknown>) =>
+        callback(prismaMock),
+    );
+
     module = await Test.createTestingModule({
       providers: [
         RecipesService,
@@ -35,6 +63,8 @@ describe('RecipesService - Soft-Delete Behavior', () => {
             createRecipe: jest.fn(),
             updateRecipe: jest.fn(),
             deleteRecipe: jest.fn(),
+            findDeletedRecipeById: jest.fn(),
+            restoreRecipe: jest.fn(),
           },
         },
         {
@@ -48,21 +78,19 @@ describe('RecipesService - Soft-Delete Behavior', () => {
         },
         {
           provide: PrismaService,
-          useValue: {
-            shoppingList: {
-              findFirst: jest.fn(),
-            },
-            shoppingItem: {
-              create: jest.fn(),
-            },
-          },
+          useValue: prismaMock,
         },
         {
           provide: ShoppingService,
           useValue: {
             getCatalogDisplayNames: jest.fn(),
+            publishItemChange: jest.fn(),
           },
         },
+        {
+          provide: AuditService,
+          useValue: { logActivity: jest.fn(), logRestoreRecipe: jest.fn() },
+        },
       ],
     }).compile();
 
@@ -440,7 +468,11 @@ describe('RecipesService - Soft-Delete Behavior', () => {
         .spyOn(repository, 'createRecipe')
         .mockResolvedValue(createdEntity as unknown as Recipe);
 
-      const result = await service.createRecipe(mockHouseholdId, createDto);
+      const result = await service.createRecipe(
+        mockHouseholdId,
+        createDto,
+        mockUserId,
+      );
 
       expect(repository.createRecipe).toHaveBeenCalledWith(
         mockHouseholdId,
@@ -452,6 +484,16 @@ describe('RecipesService - Soft-Delete Behavior', () => {
           imageUrl: createDto.imageUrl,
         }),
       );
+      expect(module.get(AuditService).logActivity).toHaveBeenCalledWith(
+        mockUserId,
+        mockHouseholdId,
+        {
+          action: 'CREATE_RECIPE',
+          entityType: 'RECIPE',
+          entityId: 'recipe-new-1',
+          metadata: { name: 'New Pasta' },
+        },
+      );
       expect(result.id).toBe('recipe-new-1');
       expect(result.title).toBe('New Pasta');
       expect(result.prepTime).toBe(25);
@@ -500,7 +542,11 @@ describe('RecipesService - Soft-Delete Behavior', () => {
         .spyOn(repository, 'createRecipe')
         .mockResolvedValue(createdEntity as unknown as Recipe);
 
-      const result = await service.createRecipe(mockHouseholdId, createDto);
+      const result = await service.createRecipe(
+        mockHouseholdId,
+        createDto,
+        mockUserId,
+      );
 
       expect(result.id).toBe('recipe-min-1');
       expect(result.title).toBe('Minimal Recipe');
@@ -512,111 +558,436 @@ describe('RecipesService - Soft-Delete Behavior', () => {
   });
 
   describe('cookRecipe', () => {
-    it('should add recipe ingredients to active shopping list', async () => {
-      const mockRecipe = {
+    const mockList = {
+      id: 'list-123',
+      householdId: mockHouseholdId,
+      name: 'Shopping List',
+      color: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      deletedAt: null,
+    };
+
+    const buildRecipe = (ingredients: unknown[]) =>
+      ({
         id: mockRecipeId,
         householdId: mockHouseholdId,
         title: 'Test Recipe',
         prepTime: 30,
-        ingredients: [
-          { name: 'Tomato', quantity: 2, unit: 'kg' },
-          { name: 'Onion', quantity: 1, unit: 'piece' },
-        ],
+        ingredients,
         instructions: [],
         imageUrl: null,
         createdAt: new Date(),
         updatedAt: new Date(),
         deletedAt: null,
-      };
+      }) as unknown as Recipe;
 
-      const mockList = {
-        id: 'list-123',
-        householdId: mockHouseholdId,
-        name: 'Shopping List',
-        color: null,
+    const buildListItem = (overrides: Partial<ShoppingItem>) =>
+      ({
+        id: 'item-1',
+        listId: 'list-123',
+        catalogItemId: null,
+        customItemId: null,
+        name: 'Item',
+        quantity: 1,
+        unit: null,
+        isChecked: false,
+        category: null,
+        image: null,
         createdAt: new Date(),
         updatedAt: new Date(),
         deletedAt: null,
-      };
+        ...overrides,
+      }) as ShoppingItem;
 
-      const mockCreatedItems = [
+    beforeEach(() => {
+      jest
+        .spyOn(prisma.shoppingList, 'findFirst')
+        .mockResolvedValue(mockList as unknown as ShoppingList);
+      jest.spyOn(prisma.shoppingItem, 'create').mockImplementation(
+        ({ data }) =>
+          Promise.resolve(
+            buildListItem({
+              id: `created-${data.name}`,
+              name: data.name,
+              quantity: data.quantity as number,
+              unit: (data.unit as string) ?? null,
+            }),
+          ) as never,
+      );
+      jest.spyOn(prisma.shoppingItem, 'update').mockImplementation(
+        ({ where, data }) =>
+          Promise.resolve(
+            buildListItem({
+              id: where.id,
+              name: 'Flour',
+              quantity: data.quantity as number,
+              unit: 'kg',
+            }),
+          ) as never,
+      );
+    });
+
+    it('should add recipe ingredients to active shopping list', async () => {
+      jest.spyOn(repository, 'findRecipeById').mockResolvedValue(
+        buildRecipe([
+          { name: 'Tomato', quantity: 2, unit: 'kg' },
+          { name: 'Onion', quantity: 1, unit: 'piece' },
+        ]),
+      );
+
+      const result = await service.cookRecipe(
+        mockRecipeId,
+        mockHouseholdId,
         {
-          id: 'item-1',
-          listId: 'list-123',
-          catalogItemId: null,
+          targetListId: 'list-123',
+        },
+        mockUserId,
+      );
+
+      expect(prisma.shoppingList.findFirst).toHaveBeenCalledWith({
+        where: {
+          id: 'list-123',
+          deletedAt: null,
+        },
+      });
+      expect(result.preview).toBe(false);
+      expect(result.itemsAdded).toHaveLength(2);
+      expect(result.itemsAdded[0].name).toBe('Tomato');
+      expect(result.itemsAdded[1].name).toBe('Onion');
+      expect(prisma.shoppingItem.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
           name: 'Tomato',
           quantity: 2,
           unit: 'kg',
-          isChecked: false,
           category: 'Recipe Ingredients',
-          createdAt: new Date(),
-          updatedAt: new Date(),
-          deletedAt: null,
+        }),
+      });
+      expect(shoppingService.publishItemChange).toHaveBeenCalledTimes(2);
+      expect(shoppingService.publishItemChange).toHaveBeenCalledWith(
+        mockHouseholdId,
+        'INSERT',
+        expect.objectContaining({ id: 'created-Tomato' }),
+      );
+    });
+
+    it('should publish items only after the transaction commits', async () => {
+      jest
+        .spyOn(repository, 'findRecipeById')
+        .mockResolvedValue(buildRecipe([{ name: 'Tomato', quantity: 2 }]));
+      (prisma.$transaction as jest.Mock).mockRejectedValueOnce(
+        new Error('rolled back'),
+      );
+
+      await expect(
+        service.cookRecipe(
+          mockRecipeId,
+          mockHouseholdId,
+          { targetListId: 'list-123' },
+          mockUserId,
+        ),
+      ).rejects.toThrow('rolled back');
+      expect(shoppingService.publishItemChange).not.toHaveBeenCalled();
+    });
+
+    it('should return a preview without writing anything', async () => {
+      jest
+        .spyOn(repository, 'findRecipeById')
+        .mockResolvedValue(
+          buildRecipe([
+            { name: 'Tomato', quantityAmount: 2, quantityUnit: 'kg' },
+          ]),
+        );
+
+      const result = await service.cookRecipe(
+        mockRecipeId,
+        mockHouseholdId,
+        {
+          targetListId: 'list-123',
+          preview: true,
+        },
+        mockUserId,
+      );
+
+      expect(result.preview).toBe(true);
+      expect(result.lines).toEqual([
+        expect.objectContaining({
+          index: 0,
+          name: 'Tomato',
+          action: 'add',
+          quantity: 2,
+        }),
+      ]);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+      expect(prisma.shoppingItem.create).not.toHaveBeenCalled();
+      expect(shoppingService.publishItemChange).not.toHaveBeenCalled();
+      expect(module.get(AuditService).logActivity).not.toHaveBeenCalled();
+    });
+
+    it('should scale amounts, subtract pantry stock and merge by catalog id', async () => {
+      jest.spyOn(repository, 'findRecipeById').mockResolvedValue(
+        buildRecipe([
+          {
+            name: 'Flour',
+            catalogItemId: 'cat-flour',
+            quantityAmount: 500,
+            quantityUnit: 'g',
+          },
+          {
+            name: 'Eggs',
+            catalogItemId: 'cat-eggs',
+            quantityAmount: 2,
+            quantityUnit: 'piece',
+          },
+        ]),
+      );
+      jest.spyOn(prisma.pantryItem, 'findMany').mockResolvedValue([
+        {
+          id: 'pantry-eggs',
+          name: 'Eggs',
+          catalogItemId: 'cat-eggs',
+          quantity: 6,
+          unit: 'piece',
         },
         {
-          id: 'item-2',
-          listId: 'list-123',
-          catalogItemId: null,
-          name: 'Onion',
+          id: 'pantry-flour',
+          name: 'Flour',
+          catalogItemId: 'cat-flour',
+          quantity: 0.2,
+          unit: 'kg',
+        },
+      ] as never);
+      jest.spyOn(prisma.shoppingItem, 'findMany').mockResolvedValue([
+        buildListItem({
+          id: 'item-flour',
+          name: 'Flour',
+          catalogItemId: 'cat-flour',
           quantity: 1,
-          unit: 'piece',
-          isChecked: false,
-          category: 'Recipe Ingredients',
-          createdAt: new Date(),
-          updatedAt: new Date(),
-          deletedAt: null,
+          unit: 'kg',
+        }),
+      ]);
+
+      const result = await service.cookRecipe(
+        mockRecipeId,
+        mockHouseholdId,
+        {
+          targetListId: 'list-123',
+          servingsMultiplier: 2,
         },
-      ];
+        mockUserId,
+      );
 
+      expect(result.lines[0]).toEqual(
+        expect.objectContaining({
+          action: 'merge',
+          unit: 'kg',
+          required: 1,
+          inPantry: 0.2,
+          quantity: 0.8,
+          resultingQuantity: 1.8,
+        }),
+      );
+      expect(result.lines[1]).toEqual(
+        expect.objectContaining({ action: 'skip', inPantry: 4, quantity: 0 }),
+      );
+      expect(prisma.shoppingItem.create).not.toHaveBeenCalled();
+      expect(prisma.shoppingItem.update).toHaveBeenCalledWith({
+        where: { id: 'item-flour' },
+        data: { quantity: 1.8 },
+        include: expect.any(Object),
+      });
+      expect(shoppingService.publishItemChange).toHaveBeenCalledWith(
+        mockHouseholdId,
+        'UPDATE',
+        expect.objectContaining({ id: 'item-flour', quantity: 1.8 }),
+      );
+      expect(result.itemsUpdated).toEqual([
+        { id: 'item-flour', name: 'Flour', quantity: 1.8, unit: 'kg' },
+      ]);
+    });
+
+    it('should scale from the recipe servings to the requested servings', async () => {
+      jest.spyOn(repository, 'findRecipeById').mockResolvedValue({
+        ...buildRecipe([
+          { name: 'Oil', quantityAmount: 8, quantityUnit: 'tbsp' },
+        ]),
+        servings: 2,
+      } as Recipe);
+
+      const result = await service.cookRecipe(
+        mockRecipeId,
+        mockHouseholdId,
+        {
+          targetListId: 'list-123',
+          servings: 4,
+          preview: true,
+        },
+        mockUserId,
+      );
+
+      expect(result.servingsMultiplier).toBe(2);
+      expect(result.lines[0]).toEqual(
+        expect.objectContaining({ required: 1, unit: 'cup' }),
+      );
+    });
+
+    it.each([
+      ['the recipe has no servings', null, { servings: 4 }],
+      [
+        'both servings and a multiplier are given',
+        2,
+        { servings: 4, servingsMultiplier: 2 },
+      ],
+      ['the scale exceeds the maximum', 1, { servings: 50 }],
+    ])('should reject servings when %s', async (_label, servings, options) => {
+      jest.spyOn(repository, 'findRecipeById').mockResolvedValue({
+        ...buildRecipe([
+          { name: 'Oil', quantityAmount: 1, quantityUnit: 'tbsp' },
+        ]),
+        servings,
+      } as Recipe);
+
+      await expect(
+        service.cookRecipe(
+          mockRecipeId,
+          mockHouseholdId,
+          {
+            targetListId: 'list-123',
+            ...options,
+          },
+          mockUserId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should apply per-line decisions from the preview', async () => {
+      jest.spyOn(repository, 'findRecipeById').mockResolvedValue(
+        buildRecipe([
+          {
+            name: 'Flour',
+            catalogItemId: 'cat-flour',
+            quantityAmount: 500,
+            quantityUnit: 'g',
+          },
+          { name: 'Salt', quantityAmount: 1, quantityUnit: 'tsp' },
+        ]),
+      );
+      jest.spyOn(prisma.shoppingItem, 'findMany').mockResolvedValue([
+        buildListItem({
+          id: 'item-flour',
+          name: 'Flour',
+          catalogItemId: 'cat-flour',
+          quantity: 1,
+          unit: 'kg',
+        }),
+      ]);
+
+      const result = await service.cookRecipe(
+        mockRecipeId,
+        mockHouseholdId,
+        {
+          targetListId: 'list-123',
+          lines: [
+            { index: 0, action: 'replace', quantity: 750 },
+            { index: 1, action: 'skip' },
+          ],
+        },
+        mockUserId,
+      );
+
+      expect(prisma.shoppingItem.update).toHaveBeenCalledWith({
+        where: { id: 'item-flour' },
+        data: { quantity: 0.75 },
+        include: expect.any(Object),
+      });
+      expect(prisma.shoppingItem.create).not.toHaveBeenCalled();
+      expect(result.lines.map((line) => line.action)).toEqual([
+        'replace',
+        'skip',
+      ]);
+    });
+
+    it('should use the catalog category for new catalog ingredients', async () => {
       jest
         .spyOn(repository, 'findRecipeById')
-        .mockResolvedValue(mockRecipe as unknown as Recipe);
-      jest
-        .spyOn(prisma.shoppingList, 'findFirst')
-        .mockResolvedValue(mockList as unknown as ShoppingList);
+        .mockResolvedValue(
+          buildRecipe([
+            { name: 'Milk', catalogItemId: 'cat-milk', quantityAmount: 1 },
+          ]),
+        );
       jest
-        .spyOn(prisma.shoppingItem, 'create')
-        .mockResolvedValueOnce(mockCreatedItems[0] as unknown as ShoppingItem)
-        .mockResolvedValueOnce(mockCreatedItems[1] as unknown as ShoppingItem);
-
-      const result = await service.cookRecipe(mockRecipeId, mockHouseholdId, {
-        targetListId: 'list-123',
-      });
+        .spyOn(prisma.masterGroceryCatalog, 'findMany')
+        .mockResolvedValue([{ id: 'cat-milk', category: 'Dairy' }] as never);
 
-      expect(prisma.shoppingList.findFirst).toHaveBeenCalledWith({
-        where: {
-          id: 'list-123',
-          deletedAt: null,
+      await service.cookRecipe(
+        mockRecipeId,
+        mockHouseholdId,
+        {
+          targetListId: 'list-123',
         },
+        mockUserId,
+      );
+
+      expect(prisma.shoppingItem.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          catalogItemId: 'cat-milk',
+          category: 'Dairy',
+        }),
       });
-      expect(result.itemsAdded).toHaveLength(2);
-      expect(result.itemsAdded[0].name).toBe('Tomato');
-      expect(result.itemsAdded[1].name).toBe('Onion');
     });
 
-    it('should throw NotFoundException if target shopping list is soft-deleted', async () => {
-      const mockRecipe = {
-        id: mockRecipeId,
-        householdId: mockHouseholdId,
-        title: 'Test Recipe',
-        prepTime: 30,
-        ingredients: [{ name: 'Tomato', quantity: 2 }],
-        instructions: [],
-        imageUrl: null,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        deletedAt: null,
-      };
+    it('should reject a merge decision for a line without a matching list item', async () => {
+      jest
+        .spyOn(repository, 'findRecipeById')
+        .mockResolvedValue(buildRecipe([{ name: 'Tomato', quantity: 2 }]));
+
+      await expect(
+        service.cookRecipe(
+          mockRecipeId,
+          mockHouseholdId,
+          {
+            targetListId: 'list-123',
+            lines: [{ index: 0, action: 'merge' }],
+          },
+          mockUserId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
 
+    it('should reject decisions for unknown ingredient lines', async () => {
       jest
         .spyOn(repository, 'findRecipeById')
-        .mockResolvedValue(mockRecipe as unknown as Recipe);
+        .mockResolvedValue(buildRecipe([{ name: 'Tomato', quantity: 2 }]));
+
+      await expect(
+        service.cookRecipe(
+          mockRecipeId,
+          mockHouseholdId,
+          {
+            targetListId: 'list-123',
+            lines: [{ index: 3, action: 'skip' }],
+          },
+          mockUserId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw NotFoundException if target shopping list is soft-deleted', async () => {
+      jest
+        .spyOn(repository, 'findRecipeById')
+        .mockResolvedValue(buildRecipe([{ name: 'Tomato', quantity: 2 }]));
       jest.spyOn(prisma.shoppingList, 'findFirst').mockResolvedValue(null);
 
       await expect(
-        service.cookRecipe(mockRecipeId, mockHouseholdId, {
-          targetListId: 'deleted-list',
-        }),
+        service.cookRecipe(
+          mockRecipeId,
+          mockHouseholdId,
+          {
+            targetListId: 'deleted-list',
+          },
+          mockUserId,
+        ),
       ).rejects.toThrow(NotFoundException);
     });
   });
@@ -680,4 +1051,49 @@ describe('RecipesService - Soft-Delete Behavior', () => {
   });
 
   // uploadImage tests removed as functionality moved to RecipeImagesService
+
+  describe('restoreRecipe', () => {
+    const deletedRecipe = {
+      id: mockRecipeId,
+      householdId: mockHouseholdId,
+      title: 'Shakshuka',
+      deletedAt: new Date(),
+    } as unknown as Recipe;
+
+    it('restores a recipe from the trash and records it', async () => {
+      jest
+        .spyOn(repository, 'findDeletedRecipeById')
+        .mockResolvedValue(deletedRecipe);
+
+      await service.restoreRecipe(mockRecipeId, mockHouseholdId, mockUserId);
+
+      expect(repository.restoreRecipe).toHaveBeenCalledWith(mockRecipeId);
+      expect(module.get(AuditService).logRestoreRecipe).toHaveBeenCalledWith(
+        mockUserId,
+        mockHouseholdId,
+        mockRecipeId,
+        'Shakshuka',
+      );
+    });
+
+    it('throws NotFoundException if the recipe is not in the trash', async () => {
+      jest.spyOn(repository, 'findDeletedRecipeById').mockResolvedValue(null);
+
+      await expect(
+        service.restoreRecipe(mockRecipeId, mockHouseholdId, mockUserId),
+      ).rejects.toThrow(NotFoundException);
+      expect(repository.restoreRecipe).not.toHaveBeenCalled();
+    });
+
+    it('throws ForbiddenException for another household', async () => {
+      jest
+        .spyOn(repository, 'findDeletedRecipeById')
+        .mockResolvedValue({ ...deletedRecipe, householdId: 'other' });
+
+      await expect(
+        service.restoreRecipe(mockRecipeId, mockHouseholdId, mockUserId),
+      ).rejects.toThrow(ForbiddenException);
+      expect(repository.restoreRecipe).not.toHaveBeenCalled();
+    });
+  });
 });
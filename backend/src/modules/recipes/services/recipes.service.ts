@@ -2,6 +2,7 @@ import {
   Injectable,
   NotFoundException,
   ForbiddenException,
+  BadRequestException,
   Logger,
 } from '@nestjs/common';
 import { RecipesRepository } from '../repositories/recipes.repository';
@@ -10,18 +11,32 @@ import { PrismaService } from '../../../infrastructure/database/prisma/prisma.se
 import { ACTIVE_RECORDS_FILTER } from '../../../infrastructure/database/filters/soft-delete.filter';
 import {
   RecipeListItemDto,
+  RecipeChangeDto,
   RecipeDetailDto,
   CreateRecipeDto,
   UpdateRecipeDto,
   CookRecipeDto,
+  CookLineDecisionDto,
+  CookPlanLineDto,
+  CookRecipeResponseDto,
 } from '../dtos';
 import {
   RecipeIngredientDto,
   RecipeInstructionDto,
 } from '../dtos/recipe-detail-response.dto';
 import { RecipeImagesService } from './recipe-images.service';
-import { normalizeRecipeCategory } from '../constants';
+import {
+  normalizeRecipeCategory,
+  RECIPE_INGREDIENT_CATEGORY,
+  MAX_SERVINGS_MULTIPLIER,
+} from '../constants';
+import { CookPlanner, CookIngredient } from '../utils/cook-planner';
+import { UnitConverter } from '../utils/unit-converter';
 import { ShoppingService } from '../../shopping/services/shopping.service';
+import { ITEM_PEOPLE_INCLUDE } from '../../shopping/repositories/shopping.repository';
+import { AuditService } from '../../audit/services/audit.service';
+import { AUDIT_ACTIONS } from '../../audit/constants/audit-actions';
+import { ENTITY_TYPES } from '../../audit/constants/entity-types';
 
 /**
  * Shape of recipe entity as returned by the repository (Prisma JSON columns are untyped).
@@ -32,6 +47,7 @@ type RecipeEntityShape = {
   description?: string | null;
   category?: string | null;
   prepTime?: number | null;
+  servings?: number | null;
   ingredients?: unknown;
   instructions?: unknown;
   imageUrl?: string | null;
@@ -80,6 +96,7 @@ function mapRecipeToDetailDto(recipe: RecipeEntityShape): RecipeDetailDto {
     description: recipe.description ?? undefined,
     category: normalizeRecipeCategory(recipe.category),
     prepTime: recipe.prepTime ?? undefined,
+    servings: recipe.servings ?? undefined,
     ingredients,
     instructions: Array.isArray(recipe.instructions)
       ? (recipe.instructions as unknown as RecipeInstructionDto[])
@@ -101,6 +118,7 @@ function mapRecipeToDetailDto(recipe: RecipeEntityShape): RecipeDetailDto {
  * - Recipe creation and updates
  * - Recipe detail retrieval
  * - "Cook" feature that adds recipe ingredients to shopping lists
+ * - Recording changes in the household activity feed
  */
 @Injectable()
 export class RecipesService {
@@ -111,6 +129,7 @@ export class RecipesService {
     private prisma: PrismaService,
     private recipeImagesService: RecipeImagesService,
     private shoppingService: ShoppingService,
+    private auditService: AuditService,
   ) {}
 
   /**
@@ -148,35 +167,65 @@ export class RecipesService {
       `Found ${recipes.length} recipes for household ${householdId}`,
     );
 
-    const mapped = await Promise.all(
-      recipes.map(async (recipe) => {
-        const { imageUrl, thumbUrl } =
-          await this.recipeImagesService.getRecipeImageUrls({
-            imageKey: recipe.imageKey,
-            thumbKey: recipe.thumbKey,
-          });
-
-        // Fallback to legacy imageUrl if new system has no image
-        const finalImageUrl = imageUrl || recipe.imageUrl;
-
-        return {
-          id: recipe.id,
-          title: recipe.title,
-          description: recipe.description ?? undefined,
-          category: normalizeRecipeCategory(recipe.category),
-          prepTime: recipe.prepTime ?? undefined,
-          hasImage: Boolean(recipe.imageKey || recipe.imageUrl),
-          imageUrl: finalImageUrl ?? undefined,
-          thumbUrl: thumbUrl ?? undefined,
-          imageKey: recipe.imageKey ?? null,
-          thumbKey: recipe.thumbKey ?? null,
-          imageVersion: recipe.imageVersion ?? undefined,
-          imageUpdatedAt: recipe.imageUpdatedAt ?? undefined,
-        };
-      }),
+    return Promise.all(recipes.map((recipe) => this.toListItemDto(recipe)));
+  }
+
+  /**
+   * Gets recipes changed since a point in time, for delta sync. Without a
+   * point in time, returns every active recipe.
+   *
+   * @param householdId - The household ID
+   * @param since - Earliest updatedAt to include, or null for all active recipes
+   * @returns Changed recipes, including deleted ones as tombstones
+   */
+  async getRecipeChanges(
+    householdId: string,
+    since: Date | null,
+  ): Promise<RecipeChangeDto[]> {
+    const recipes = since
+      ? await this.recipesRepository.findRecipesChangedSince(householdId, since)
+      : await this.recipesRepository.findRecipesByHousehold(householdId);
+
+    return Promise.all(
+      recipes.map(async (recipe) => ({
+        ...(await this.toListItemDto(recipe)),
+        createdAt: recipe.createdAt,
+        updatedAt: recipe.updatedAt,
+        deletedAt: recipe.deletedAt,
+      })),
     );
+  }
 
-    return mapped;
+  /**
+   * Maps a recipe to its list shape, resolving image URLs.
+   */
+  private async toListItemDto(
+    recipe: RecipeEntityShape,
+  ): Promise<RecipeListItemDto> {
+    const { imageUrl, thumbUrl } =
+      await this.recipeImagesService.getRecipeImageUrls({
+        imageKey: recipe.imageKey,
+        thumbKey: recipe.thumbKey,
+      });
+
+    // Fallback to legacy imageUrl if new system has no image
+    const finalImageUrl = imageUrl || recipe.imageUrl;
+
+    return {
+      id: recipe.id,
+      title: recipe.title,
+      description: recipe.description ?? undefined,
+      category: normalizeRecipeCategory(recipe.category),
+      prepTime: recipe.prepTime ?? undefined,
+      servings: recipe.servings ?? undefined,
+      hasImage: Boolean(recipe.imageKey || recipe.imageUrl),
+      imageUrl: finalImageUrl ?? undefined,
+      thumbUrl: thumbUrl ?? undefined,
+      imageKey: recipe.imageKey ?? null,
+      thumbKey: recipe.thumbKey ?? null,
+      imageVersion: recipe.imageVersion ?? undefined,
+      imageUpdatedAt: recipe.imageUpdatedAt ?? undefined,
+    };
   }
 
   /**
@@ -264,11 +313,13 @@ export class RecipesService {
    *
    * @param householdId - The household ID
    * @param dto - Recipe creation data
+   * @param userId - The member creating the recipe
    * @returns Created recipe with full details
    */
   async createRecipe(
     householdId: string,
     dto: CreateRecipeDto,
+    userId: string,
   ): Promise<RecipeDetailDto> {
     this.logger.log(`Creating recipe for household ${householdId}`);
     this.logger.debug(`Recipe data: ${JSON.stringify(dto, null, 2)}`);
@@ -278,12 +329,19 @@ export class RecipesService {
       description: dto.description,
       category: normalizeRecipeCategory(dto.category),
       prepTime: dto.prepTime,
+      servings: dto.servings,
       ingredients: dto.ingredients,
       instructions: dto.instructions,
       imageUrl: dto.imageUrl, // Legacy support
     });
 
     this.logger.log(`Recipe created successfully with ID: ${recipe.id}`);
+    await this.auditService.logActivity(userId, householdId, {
+      action: AUDIT_ACTIONS.CREATE_RECIPE,
+      entityType: ENTITY_TYPES.RECIPE,
+      entityId: recipe.id,
+      metadata: { name: recipe.title },
+    });
 
     const mapped = mapRecipeToDetailDto(recipe);
     // New recipe won't have imageKey yet (uploaded separately), so just return as is
@@ -296,6 +354,7 @@ export class RecipesService {
    * @param recipeId - The recipe ID
    * @param householdId - The household ID for authorization
    * @param dto - Update data
+   * @param userId - The member updating the recipe
    * @returns Updated recipe details
    * @throws NotFoundException if recipe doesn't exist
    * @throws ForbiddenException if user doesn't have access
@@ -304,6 +363,7 @@ export class RecipesService {
     recipeId: string,
     householdId: string,
     dto: UpdateRecipeDto,
+    userId: string,
   ): Promise<RecipeDetailDto> {
     const recipe = await this.recipesRepository.findRecipeById(recipeId);
 
@@ -323,11 +383,19 @@ export class RecipesService {
           ? undefined
           : normalizeRecipeCategory(dto.category),
       prepTime: dto.prepTime,
+      servings: dto.servings,
       ingredients: dto.ingredients,
       instructions: dto.instructions,
       imageUrl: dto.imageUrl,
     });
 
+    await this.auditService.logActivity(userId, householdId, {
+      action: AUDIT_ACTIONS.UPDATE_RECIPE,
+      entityType: ENTITY_TYPES.RECIPE,
+      entityId: recipeId,
+      metadata: { name: updatedRecipe.title, fields: Object.keys(dto) },
+    });
+
     const mapped = mapRecipeToDetailDto(updatedRecipe);
 
     const { imageUrl } = await this.recipeImagesService.getRecipeImageUrls({
@@ -342,26 +410,29 @@ export class RecipesService {
 
   /**
    * Adds recipe ingredients to a shopping list (cook feature).
+   * Amounts are scaled by the servings multiplier (or from the recipe's own
+   * servings to the requested `servings`), pantry stock is subtracted,
+   * and whatever is still missing is merged into matching unchecked list items
+   * (by catalog ID, converting compatible units) or added as new items.
+   * With `preview` set, the plan is returned without writing anything so the
+   * user can confirm each line; confirmed `lines` override the planned actions.
    *
    * @param recipeId - The recipe ID
    * @param householdId - The household ID for authorization
-   * @param dto - Contains target shopping list ID
-   * @returns Added items
+   * @param dto - Target list, servings or multiplier, preview flag and per-line decisions
+   * @param userId - The member cooking the recipe
+   * @returns The plan (or applied lines) with the items added and updated
    * @throws NotFoundException if recipe or shopping list doesn't exist
    * @throws ForbiddenException if user doesn't have access
+   * @throws BadRequestException if servings can't be scaled from the recipe
+   * @throws BadRequestException if a decision references an unknown line or a missing list item
    */
   async cookRecipe(
     recipeId: string,
     householdId: string,
     dto: CookRecipeDto,
-  ): Promise<{
-    itemsAdded: Array<{
-      id: string;
-      name: string;
-      quantity: number;
-      unit?: string;
-    }>;
-  }> {
+    userId: string,
+  ): Promise<CookRecipeResponseDto> {
     const recipe = await this.recipesRepository.findRecipeById(recipeId);
 
     if (!recipe) {
@@ -372,9 +443,60 @@ export class RecipesService {
       throw new ForbiddenException('Access denied');
     }
 
+    const result = await this.addIngredientsToList(
+      householdId,
+      dto.targetListId,
+      CookPlanner.fromRecipeIngredients(recipe.ingredients),
+      {
+        servingsMultiplier: this.resolveServingsMultiplier(recipe, dto),
+        preview: dto.preview,
+        lines: dto.lines,
+      },
+    );
+
+    if (!result.preview) {
+      this.logger.log(
+        `Cooked recipe ${recipeId} into list ${dto.targetListId}: ${result.itemsAdded.length} added, ${result.itemsUpdated.length} updated`,
+      );
+      await this.auditService.logActivity(userId, householdId, {
+        action: AUDIT_ACTIONS.COOK_RECIPE,
+        entityType: ENTITY_TYPES.RECIPE,
+        entityId: recipeId,
+        metadata: {
+          name: recipe.title,
+          listId: dto.targetListId,
+          itemCount: result.itemsAdded.length + result.itemsUpdated.length,
+        },
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Adds ingredients to a shopping list the way cooking does: pantry stock is
+   * subtracted and the rest merges into matching unchecked items or is added.
+   *
+   * @param householdId - The household ID for authorization
+   * @param listId - Target shopping list ID
+   * @param ingredients - Ingredients in plan order (line indexes refer to this array)
+   * @param options - Servings multiplier, preview flag and per-line decisions
+   * @returns The plan (or applied lines) with the items added and updated
+   * @throws NotFoundException if the shopping list doesn't exist
+   * @throws BadRequestException if a decision references an unknown line or a missing list item
+   */
+  async addIngredientsToList(
+    householdId: string,
+    listId: string,
+    ingredients: CookIngredient[],
+    options: Pick<
+      CookRecipeDto,
+      'servingsMultiplier' | 'preview' | 'lines'
+    > = {},
+  ): Promise<CookRecipeResponseDto> {
     const list = await this.prisma.shoppingList.findFirst({
       where: {
-        id: dto.targetListId,
+        id: listId,
         ...ACTIVE_RECORDS_FILTER,
       },
     });
@@ -383,31 +505,237 @@ export class RecipesService {
       throw new NotFoundException('Shopping list not found');
     }
 
-    const ingredients = Array.isArray(recipe.ingredients)
-      ? (recipe.ingredients as unknown[])
-      : [];
+    const servingsMultiplier = options.servingsMultiplier ?? 1;
+
+    const [pantryItems, listItems] = await Promise.all([
+      this.prisma.pantryItem.findMany({
+        where: { householdId, ...ACTIVE_RECORDS_FILTER },
+        orderBy: { expiresAt: { sort: 'asc', nulls: 'last' } },
+      }),
+      this.prisma.shoppingItem.findMany({
+        where: {
+          listId: list.id,
+          isChecked: false,
+          ...ACTIVE_RECORDS_FILTER,
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    const plan = CookPlanner.buildPlan(
+      ingredients,
+      servingsMultiplier,
+      pantryItems,
+      listItems,
+    );
+
+    if (options.preview) {
+      return {
+        preview: true,
+        servingsMultiplier,
+        lines: plan,
+        itemsAdded: [],
+        itemsUpdated: [],
+      };
+    }
+
+    const lines = this.applyCookDecisions(plan, options.lines ?? []);
+    const { itemsAdded, itemsUpdated } = await this.writeCookLines(
+      householdId,
+      list.id,
+      lines,
+    );
+
+    return {
+      preview: false,
+      servingsMultiplier,
+      lines,
+      itemsAdded,
+      itemsUpdated,
+    };
+  }
+
+  /**
+   * Turns the requested servings into a multiplier of the recipe's own
+   * servings; without servings the explicit multiplier (default 1) applies.
+   */
+  private resolveServingsMultiplier(
+    recipe: { servings: number | null },
+    dto: Pick<CookRecipeDto, 'servings' | 'servingsMultiplier'>,
+  ): number | undefined {
+    if (dto.servings === undefined) {
+      return dto.servingsMultiplier;
+    }
+    if (dto.servingsMultiplier !== undefined) {
+      throw new BadRequestException(
+        'Provide either servings or servingsMultiplier, not both',
+      );
+    }
+    if (!recipe.servings) {
+      throw new BadRequestException(
+        'Recipe servings are not set, use servingsMultiplier instead',
+      );
+    }
 
-    const itemsAdded = await Promise.all(
-      ingredients.map(async (ingredient: IngredientRow) =>
-        this.prisma.shoppingItem.create({
-          data: {
-            listId: dto.targetListId,
-            name: ingredient.name,
-            quantity: ingredient.quantityAmount ?? ingredient.quantity ?? 1,
-            unit: ingredient.quantityUnit ?? ingredient.unit,
-            category: 'Recipe Ingredients',
-          },
-        }),
+    const multiplier = dto.servings / recipe.servings;
+    if (multiplier > MAX_SERVINGS_MULTIPLIER) {
+      throw new BadRequestException(
+        `Cannot scale a recipe more than ${MAX_SERVINGS_MULTIPLIER} times`,
+      );
+    }
+    return multiplier;
+  }
+
+  /**
+   * Applies the user's per-line decisions to a cook plan and recomputes the
+   * resulting quantities of the list items they touch.
+   */
+  private applyCookDecisions(
+    plan: CookPlanLineDto[],
+    decisions: CookLineDecisionDto[],
+  ): CookPlanLineDto[] {
+    const decisionByIndex = new Map(
+      decisions.map((decision) => [decision.index, decision]),
+    );
+
+    for (const index of decisionByIndex.keys()) {
+      if (!plan[index]) {
+        throw new BadRequestException(`Unknown ingredient line ${index}`);
+      }
+    }
+
+    const itemQuantities = new Map<string, number>();
+
+    return plan.map((planned) => {
+      const decision = decisionByIndex.get(planned.index);
+      const action = decision?.action ?? planned.action;
+      const quantity =
+        decision?.quantity ??
+        (planned.quantity > 0 || action === 'skip'
+          ? planned.quantity
+          : planned.required);
+      const line: CookPlanLineDto = {
+        ...planned,
+        action,
+        quantity,
+        resultingQuantity: undefined,
+      };
+
+      if (action === 'add' || action === 'skip') {
+        return line;
+      }
+
+      const existing = planned.existingItem;
+      if (!existing) {
+        throw new BadRequestException(
+          `Ingredient line ${planned.index} has no matching list item`,
+        );
+      }
+
+      const current = itemQuantities.get(existing.id) ?? existing.quantity;
+      const resultingQuantity =
+        action === 'replace'
+          ? (UnitConverter.convert(quantity, line.unit, existing.unit) ??
+            quantity)
+          : current +
+            (UnitConverter.convert(quantity, line.unit, existing.unit) ?? 0);
+
+      line.resultingQuantity = CookPlanner.round(resultingQuantity);
+      itemQuantities.set(existing.id, line.resultingQuantity);
+      return line;
+    });
+  }
+
+  /**
+   * Persists confirmed cook lines in a single transaction, then pushes the
+   * written items to household members once it has committed.
+   */
+  private async writeCookLines(
+    householdId: string,
+    listId: string,
+    lines: CookPlanLineDto[],
+  ): Promise<Pick<CookRecipeResponseDto, 'itemsAdded' | 'itemsUpdated'>> {
+    const linesToAdd = lines.filter((line) => line.action === 'add');
+    const finalQuantities = new Map<string, number>();
+    for (const line of lines) {
+      if (line.existingItem && line.resultingQuantity !== undefined) {
+        finalQuantities.set(line.existingItem.id, line.resultingQuantity);
+      }
+    }
+
+    const catalogIds = [
+      ...new Set(
+        linesToAdd
+          .map((line) => line.catalogItemId)
+          .filter((id): id is string => Boolean(id)),
       ),
+    ];
+    const catalogItems = catalogIds.length
+      ? await this.prisma.masterGroceryCatalog.findMany({
+          where: { id: { in: catalogIds } },
+          select: { id: true, category: true },
+        })
+      : [];
+    const categoryByCatalogId = new Map(
+      catalogItems.map((item) => [item.id, item.category]),
     );
 
+    const { created, updated } = await this.prisma.$transaction(async (tx) => {
+      const created = [];
+      for (const line of linesToAdd) {
+        created.push(
+          await tx.shoppingItem.create({
+            data: {
+              listId,
+              catalogItemId: line.catalogItemId,
+              name: line.name,
+              quantity: line.quantity,
+              unit: line.unit,
+              category:
+                (line.catalogItemId &&
+                  categoryByCatalogId.get(line.catalogItemId)) ||
+                RECIPE_INGREDIENT_CATEGORY,
+            },
+          }),
+        );
+      }
+
+      const updated = [];
+      for (const [itemId, quantity] of finalQuantities) {
+        updated.push(
+          await tx.shoppingItem.update({
+            where: { id: itemId },
+            data: { quantity },
+            include: ITEM_PEOPLE_INCLUDE,
+          }),
+        );
+      }
+
+      return { created, updated };
+    });
+
+    for (const item of created) {
+      this.shoppingService.publishItemChange(householdId, 'INSERT', item);
+    }
+    for (const item of updated) {
+      this.shoppingService.publishItemChange(householdId, 'UPDATE', item);
+    }
+
+    const toListItem = (item: {
+      id: string;
+      name: string;
+      quantity: number;
+      unit: string | null;
+    }) => ({
+      id: item.id,
+      name: item.name,
+      quantity: item.quantity,
+      unit: item.unit ?? undefined,
+    });
+
     return {
-      itemsAdded: itemsAdded.map((item) => ({
-        id: item.id,
-        name: item.name,
-        quantity: item.quantity,
-        unit: item.unit,
-      })),
+      itemsAdded: created.map(toListItem),
+      itemsUpdated: updated.map(toListItem),
     };
   }
 
@@ -432,4 +760,37 @@ export class RecipesService {
 
     await this.recipesRepository.deleteRecipe(recipeId);
   }
+
+  /**
+   * Restores a recipe from the trash.
+   *
+   * @param recipeId - The recipe ID
+   * @param householdId - The household ID for authorization
+   * @param userId - Member restoring the recipe, for the activity feed
+   * @throws NotFoundException if the recipe isn't in the trash
+   * @throws ForbiddenException if user doesn't have access
+   */
+  async restoreRecipe(
+    recipeId: string,
+    householdId: string,
+    userId: string,
+  ): Promise<void> {
+    const recipe = await this.recipesRepository.findDeletedRecipeById(recipeId);
+
+    if (!recipe) {
+      throw new NotFoundException('Recipe not found in trash');
+    }
+
+    if (recipe.householdId !== householdId) {
+      throw new ForbiddenException('Access denied');
+    }
+
+    await this.recipesRepository.restoreRecipe(recipeId);
+    await this.auditService.logRestoreRecipe(
+      userId,
+      householdId,
+      recipeId,
+      recipe.title,
+    );
+  }
 }
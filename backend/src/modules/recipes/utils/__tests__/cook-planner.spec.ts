@@ -0,0 +1,150 @@
+import { CookPlanner, CookStockItem } from '../cook-planner';
+
+describe('CookPlanner', () => {
+  const stock = (overrides: Partial<CookStockItem>): CookStockItem => ({
+    id: 'stock-1',
+    name: 'Item',
+    catalogItemId: null,
+    quantity: 1,
+    unit: null,
+    ...overrides,
+  });
+
+  describe('buildPlan', () => {
+    it('should add scaled ingredients when nothing matches', () => {
+      const [line] = CookPlanner.buildPlan(
+        [{ name: 'Rice', amount: 1.5, unit: 'cup' }],
+        2,
+        [],
+        [],
+      );
+
+      expect(line).toEqual(
+        expect.objectContaining({
+          action: 'add',
+          required: 3,
+          inPantry: 0,
+          quantity: 3,
+          unit: 'cup',
+        }),
+      );
+      expect(line.existingItem).toBeUndefined();
+    });
+
+    it('should share pantry stock between lines of the same ingredient', () => {
+      const lines = CookPlanner.buildPlan(
+        [
+          { name: 'Butter', amount: 100, unit: 'g' },
+          { name: 'Butter', amount: 100, unit: 'g' },
+        ],
+        1,
+        [stock({ name: 'butter', quantity: 150, unit: 'g' })],
+        [],
+      );
+
+      expect(lines[0]).toEqual(
+        expect.objectContaining({ action: 'skip', inPantry: 100 }),
+      );
+      expect(lines[1]).toEqual(
+        expect.objectContaining({ action: 'add', inPantry: 50, quantity: 50 }),
+      );
+    });
+
+    it('should ignore stock in an incompatible unit', () => {
+      const [line] = CookPlanner.buildPlan(
+        [{ name: 'Milk', catalogItemId: 'cat-milk', amount: 200, unit: 'ml' }],
+        1,
+        [stock({ catalogItemId: 'cat-milk', quantity: 1, unit: 'bottle' })],
+        [stock({ id: 'item-milk', catalogItemId: 'cat-milk', unit: 'bottle' })],
+      );
+
+      expect(line).toEqual(
+        expect.objectContaining({ action: 'add', inPantry: 0, quantity: 200 }),
+      );
+      expect(line.existingItem).toBeUndefined();
+    });
+
+    it('should match by catalog id rather than by name when available', () => {
+      const [line] = CookPlanner.buildPlan(
+        [{ name: 'Tomatoes', catalogItemId: 'cat-tomato', amount: 2 }],
+        1,
+        [],
+        [
+          stock({ id: 'item-named', name: 'Tomatoes', quantity: 5 }),
+          stock({ id: 'item-catalog', catalogItemId: 'cat-tomato' }),
+        ],
+      );
+
+      expect(line.existingItem?.id).toBe('item-catalog');
+      expect(line.resultingQuantity).toBe(3);
+    });
+
+    it('should accumulate merges into the same list item', () => {
+      const lines = CookPlanner.buildPlan(
+        [
+          { name: 'Sugar', amount: 1, unit: 'cup' },
+          { name: 'Sugar', amount: 16, unit: 'tbsp' },
+        ],
+        1,
+        [],
+        [stock({ id: 'item-sugar', name: 'Sugar', quantity: 1, unit: 'cup' })],
+      );
+
+      expect(lines[0].resultingQuantity).toBe(2);
+      expect(lines[1].resultingQuantity).toBe(3);
+      expect(lines[1].existingItem?.quantity).toBe(1);
+    });
+
+    it('should re-normalize units when scaling', () => {
+      const [line] = CookPlanner.buildPlan(
+        [{ name: 'Oil', amount: 8, unit: 'tbsp' }],
+        2,
+        [],
+        [],
+      );
+
+      expect(line).toEqual(
+        expect.objectContaining({ required: 1, quantity: 1, unit: 'cup' }),
+      );
+    });
+  });
+
+  describe('combine', () => {
+    it('should sum the same product across recipes in convertible units', () => {
+      const combined = CookPlanner.combine([
+        { name: 'Flour', catalogItemId: 'cat-flour', amount: 1, unit: 'kg' },
+        { name: 'Onion', amount: 1, unit: 'piece' },
+        { name: 'flour', catalogItemId: 'cat-flour', amount: 250, unit: 'g' },
+        { name: 'Onion', amount: 2, unit: 'piece' },
+      ]);
+
+      expect(combined).toEqual([
+        { name: 'Flour', catalogItemId: 'cat-flour', amount: 1.25, unit: 'kg' },
+        { name: 'Onion', amount: 3, unit: 'piece' },
+      ]);
+    });
+
+    it('should keep incompatible units as separate lines', () => {
+      const combined = CookPlanner.combine([
+        { name: 'Milk', amount: 200, unit: 'ml' },
+        { name: 'Milk', amount: 1, unit: 'bottle' },
+      ]);
+
+      expect(combined).toHaveLength(2);
+    });
+  });
+
+  describe('fromRecipeIngredients', () => {
+    it('should prefer structured quantities and default amounts to 1', () => {
+      expect(
+        CookPlanner.fromRecipeIngredients([
+          { name: 'Salt', quantityAmount: 1, quantityUnit: 'tsp', quantity: 5 },
+          { name: 'Basil', unit: 'bunch' },
+        ]),
+      ).toEqual([
+        { name: 'Salt', catalogItemId: undefined, amount: 1, unit: 'tsp' },
+        { name: 'Basil', catalogItemId: undefined, amount: 1, unit: 'bunch' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { lookup } from 'dns/promises';
+import {
+  NonPublicAddressError,
+  isPublicAddress,
+  lookupPublicAddress,
+} from '../public-address';
+
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+describe('isPublicAddress', () => {
+  it.each(['93.184.216.34', '8.8.8.8', '2606:2800:220:1:248:1893:25c8:1946'])(
+    'accepts %s',
+    (address) => {
+      expect(isPublicAddress(address)).toBe(true);
+    },
+  );
+
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.20.0.1',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::',
+    '::1',
+    '::ffff:127.0.0.1',
+    '::ffff:7f00:1',
+    '0:0:0:0:0:ffff:a00:1',
+    'fd00::1',
+    'fe80::1',
+    'not-an-ip',
+  ])('rejects %s', (address) => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+});
+
+describe('lookupPublicAddress', () => {
+  const resolve = (options: { all?: boolean }) =>
+    new Promise<unknown[]>((done) =>
+      lookupPublicAddress('example.com', options as any, (...args) =>
+        done(args),
+      ),
+    );
+
+  it('answers with the checked address, singly or as a list', async () => {
+    (lookup as jest.Mock).mockResolvedValue([
+      { address: '93.184.216.34', family: 4 },
+    ]);
+
+    await expect(resolve({})).resolves.toEqual([null, '93.184.216.34', 4]);
+    await expect(resolve({ all: true })).resolves.toEqual([
+      null,
+      [{ address: '93.184.216.34', family: 4 }],
+    ]);
+  });
+
+  it('fails when any resolved address is not public', async () => {
+    (lookup as jest.Mock).mockResolvedValue([
+      { address: '93.184.216.34', family: 4 },
+      { address: '10.0.0.8', family: 4 },
+    ]);
+
+    const [error] = await resolve({});
+
+    expect(error).toBeInstanceOf(NonPublicAddressError);
+  });
+});
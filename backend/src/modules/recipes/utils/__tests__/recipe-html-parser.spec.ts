@@ -0,0 +1,172 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { RecipeHtmlParser } from '../recipe-html-parser';
+import { UnitCode, UnitType } from '../../constants/units.constants';
+
+const fixture = (name: string) =>
+  readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+describe('RecipeHtmlParser', () => {
+  describe('parse', () => {
+    it('should read a Recipe from a JSON-LD @graph', () => {
+      const recipe = RecipeHtmlParser.parse(fixture('json-ld-graph.html'));
+
+      expect(recipe).toEqual(
+        expect.objectContaining({
+          title: 'Easy Shakshuka',
+          description: 'Eggs poached in a spicy tomato & pepper sauce.',
+          prepTime: 15,
+          servings: 4,
+          imageUrl: 'https://example.com/images/shakshuka.jpg',
+        }),
+      );
+      expect(recipe?.ingredients).toEqual([
+        {
+          name: 'olive oil',
+          quantityAmount: 2,
+          quantityUnit: UnitCode.TABLESPOON,
+          quantityUnitType: UnitType.VOLUME,
+        },
+        { name: 'onion, diced', quantityAmount: 1 },
+        {
+          name: 'garlic, minced',
+          quantityAmount: 2,
+          quantityUnit: UnitCode.CLOVE,
+          quantityUnitType: UnitType.COUNT,
+        },
+        {
+          name: 'ground cumin',
+          quantityAmount: 1.5,
+          quantityUnit: UnitCode.TEASPOON,
+          quantityUnitType: UnitType.VOLUME,
+        },
+        {
+          name: 'canned tomatoes',
+          quantityAmount: 800,
+          quantityUnit: UnitCode.GRAM,
+          quantityUnitType: UnitType.WEIGHT,
+        },
+        { name: 'large eggs', quantityAmount: 6 },
+        { name: 'chili flakes', quantityAmount: 1, quantityModifier: 'pinch' },
+        { name: 'Fresh parsley' },
+      ]);
+      expect(recipe?.instructions).toEqual([
+        { step: 1, instruction: 'Heat the oil and soften the onion.' },
+        {
+          step: 2,
+          instruction:
+            'Add garlic and cumin, then the tomatoes. Simmer 10 minutes.',
+        },
+        {
+          step: 3,
+          instruction: 'Make wells, crack in the eggs and cover until set.',
+        },
+      ]);
+    });
+
+    it('should skip malformed blocks and read a Recipe from a JSON-LD array', () => {
+      const recipe = RecipeHtmlParser.parse(fixture('json-ld-array.html'));
+
+      expect(recipe).toEqual(
+        expect.objectContaining({
+          title: "Grandma's Pancakes",
+          prepTime: 65,
+          servings: 8,
+          imageUrl: 'https://example.com/pancakes.jpg',
+        }),
+      );
+      expect(recipe?.ingredients.slice(0, 3)).toEqual([
+        expect.objectContaining({
+          name: 'all-purpose flour',
+          quantityAmount: 1.5,
+          quantityUnit: UnitCode.CUP,
+        }),
+        expect.objectContaining({ name: 'milk', quantityAmount: 0.75 }),
+        expect.objectContaining({
+          name: 'sugar',
+          quantityAmount: 1,
+          quantityUnit: UnitCode.TABLESPOON,
+        }),
+      ]);
+      expect(recipe?.instructions.map((step) => step.instruction)).toEqual([
+        'Whisk the dry ingredients.',
+        'Add milk and eggs.',
+        'Cook on a hot griddle.',
+      ]);
+    });
+
+    it('should fall back to microdata', () => {
+      const recipe = RecipeHtmlParser.parse(fixture('microdata.html'));
+
+      expect(recipe).toEqual({
+        title: 'Lemon Rice',
+        description: 'Bright, fragrant rice.',
+        prepTime: 10,
+        servings: 2,
+        imageUrl: 'https://example.com/lemon-rice.jpg',
+        ingredients: [
+          expect.objectContaining({
+            name: 'basmati rice',
+            quantityAmount: 200,
+            quantityUnit: UnitCode.GRAM,
+          }),
+          { name: 'lemon', quantityAmount: 1 },
+          expect.objectContaining({
+            name: 'water',
+            quantityAmount: 500,
+            quantityUnit: UnitCode.MILLILITER,
+          }),
+        ],
+        instructions: [
+          { step: 1, instruction: 'Rinse the rice.' },
+          {
+            step: 2,
+            instruction:
+              'Simmer with water for 12 minutes, then stir in lemon juice.',
+          },
+        ],
+      });
+    });
+
+    it('should return null for pages without a recipe', () => {
+      expect(RecipeHtmlParser.parse(fixture('no-recipe.html'))).toBeNull();
+      expect(RecipeHtmlParser.parse('<html><body></body></html>')).toBeNull();
+    });
+  });
+
+  describe('parseDuration', () => {
+    it.each([
+      ['PT30M', 30],
+      ['PT1H30M', 90],
+      ['P0DT2H', 120],
+      ['PT90S', 2],
+      ['PT0M', undefined],
+      ['30 minutes', undefined],
+      [undefined, undefined],
+    ])('should convert %p to %p minutes', (value, expected) => {
+      expect(RecipeHtmlParser.parseDuration(value)).toBe(expected);
+    });
+  });
+
+  describe('parseIngredientLine', () => {
+    it.each([
+      ['1½ cups sugar', 1.5, UnitCode.CUP, 'sugar'],
+      ['250g butter', 250, UnitCode.GRAM, 'butter'],
+      ['1,5 l stock', 1.5, UnitCode.LITER, 'stock'],
+      ['2 to 3 lbs potatoes', 2, UnitCode.POUND, 'potatoes'],
+      ['3 cups of water', 3, UnitCode.CUP, 'water'],
+    ])('should parse %p', (line, amount, unit, name) => {
+      expect(RecipeHtmlParser.parseIngredientLine(line)).toEqual(
+        expect.objectContaining({
+          name,
+          quantityAmount: amount,
+          quantityUnit: unit,
+        }),
+      );
+    });
+
+    it('should return null for blank lines', () => {
+      expect(RecipeHtmlParser.parseIngredientLine('  ')).toBeNull();
+    });
+  });
+});
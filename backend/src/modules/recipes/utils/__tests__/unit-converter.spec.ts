@@ -81,4 +81,75 @@ describe('UnitConverter', () => {
       ).toBeNull();
     });
   });
+
+  describe('convert', () => {
+    it('should convert between weight units', () => {
+      expect(UnitConverter.convert(500, 'g', 'kg')).toBe(0.5);
+    });
+
+    it('should convert between volume units', () => {
+      expect(UnitConverter.convert(16, 'tbsp', 'cup')).toBeCloseTo(1, 2);
+    });
+
+    it('should compare units case-insensitively', () => {
+      expect(UnitConverter.convert(2, 'KG', 'g')).toBe(2000);
+    });
+
+    it('should keep the amount for identical count units', () => {
+      expect(UnitConverter.convert(3, 'clove', 'clove')).toBe(3);
+    });
+
+    it('should treat two missing units as the same unit', () => {
+      expect(UnitConverter.convert(2, undefined, null)).toBe(2);
+    });
+
+    it.each([
+      ['weight to volume', 'g', 'ml'],
+      ['different count units', 'piece', 'can'],
+      ['missing to known unit', undefined, 'g'],
+      ['unknown unit', 'pinch', 'g'],
+    ])('should return null for %s', (_label, from, to) => {
+      expect(UnitConverter.convert(1, from, to)).toBeNull();
+    });
+  });
+
+  describe('scale', () => {
+    it.each([
+      ['tablespoons up to a cup', 8, 'tbsp', 2, 1, 'cup'],
+      ['teaspoons up to tablespoons', 1, 'tsp', 3, 1, 'tbsp'],
+      ['grams up to kilograms', 600, 'g', 2, 1.2, 'kg'],
+      ['liters down to milliliters', 1, 'l', 0.25, 250, 'ml'],
+      ['ounces up to pounds', 8, 'oz', 2, 1, 'lb'],
+    ])(
+      'should re-normalize %s',
+      (_label, amount, unit, factor, expected, expectedUnit) => {
+        const result = UnitConverter.scale(amount, unit, factor);
+
+        expect(result.amount).toBeCloseTo(expected, 2);
+        expect(result.unit).toBe(expectedUnit);
+      },
+    );
+
+    it('should stay in the kitchen measures rather than switching to metric', () => {
+      expect(UnitConverter.scale(2, 'cup', 3).unit).toBe('cup');
+    });
+
+    it('should keep the written unit for a factor of 1', () => {
+      expect(UnitConverter.scale(16, 'tbsp', 1)).toEqual({
+        amount: 16,
+        unit: 'tbsp',
+      });
+    });
+
+    it('should only multiply count and unknown units', () => {
+      expect(UnitConverter.scale(2, 'clove', 1.5)).toEqual({
+        amount: 3,
+        unit: 'clove',
+      });
+      expect(UnitConverter.scale(1, undefined, 2)).toEqual({
+        amount: 2,
+        unit: undefined,
+      });
+    });
+  });
 });
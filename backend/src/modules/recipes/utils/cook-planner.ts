@@ -0,0 +1,247 @@
+import { CookPlanLineDto } from '../dtos/cook-recipe-response.dto';
+import { UnitConverter } from './unit-converter';
+
+/** Recipe ingredient as it enters the planner (legacy fields already resolved). */
+export interface CookIngredient {
+  name: string;
+  catalogItemId?: string;
+  amount: number;
+  unit?: string;
+}
+
+/** Pantry stock or shopping list item the planner can match against. */
+export interface CookStockItem {
+  id: string;
+  name: string;
+  catalogItemId: string | null;
+  quantity: number;
+  unit: string | null;
+}
+
+/** Ingredient row as stored in a recipe's JSON column (structured or legacy quantity). */
+type StoredIngredient = {
+  name: string;
+  catalogItemId?: string;
+  quantityAmount?: number;
+  quantityUnit?: string;
+  quantity?: number;
+  unit?: string;
+};
+
+const QUANTITY_PRECISION = 100;
+
+/**
+ * Builds the cook plan for a recipe: scales ingredient amounts, subtracts
+ * what the pantry already holds and decides whether the rest merges into an
+ * existing list item or becomes a new one.
+ *
+ * Ingredients match stock by catalog item ID, or by case-insensitive name when
+ * the ingredient has no catalog entry. Stock in an incompatible unit is ignored.
+ */
+export class CookPlanner {
+  /**
+   * @param ingredients - Recipe ingredients in recipe order
+   * @param multiplier - Servings multiplier applied to every amount (units are re-normalized)
+   * @param pantryItems - Household pantry stock
+   * @param listItems - Unchecked items on the target list
+   * @returns One line per ingredient, indexed by its position in the recipe
+   */
+  static buildPlan(
+    ingredients: CookIngredient[],
+    multiplier: number,
+    pantryItems: CookStockItem[],
+    listItems: CookStockItem[],
+  ): CookPlanLineDto[] {
+    const pantryRemaining = new Map(
+      pantryItems.map((item) => [item.id, item.quantity]),
+    );
+    const listQuantities = new Map(
+      listItems.map((item) => [item.id, item.quantity]),
+    );
+
+    return this.scale(ingredients, multiplier).map((ingredient, index) => {
+      const required = ingredient.amount;
+      const inPantry = this.takeFromPantry(
+        ingredient,
+        required,
+        pantryItems,
+        pantryRemaining,
+      );
+      const quantity = this.round(Math.max(required - inPantry, 0));
+
+      const existing = listItems.find(
+        (item) =>
+          this.matches(ingredient, item) &&
+          UnitConverter.convert(1, ingredient.unit, item.unit) !== null,
+      );
+
+      const line: CookPlanLineDto = {
+        index,
+        name: ingredient.name,
+        catalogItemId: ingredient.catalogItemId,
+        unit: ingredient.unit,
+        required,
+        inPantry,
+        quantity,
+        action: 'add',
+        existingItem: existing && {
+          id: existing.id,
+          name: existing.name,
+          quantity: existing.quantity,
+          unit: existing.unit ?? undefined,
+        },
+      };
+
+      if (quantity <= 0) {
+        return { ...line, action: 'skip' };
+      }
+      if (!existing) {
+        return line;
+      }
+
+      const resultingQuantity = this.round(
+        (listQuantities.get(existing.id) ?? existing.quantity) +
+          (UnitConverter.convert(quantity, ingredient.unit, existing.unit) ??
+            0),
+      );
+      listQuantities.set(existing.id, resultingQuantity);
+
+      return { ...line, action: 'merge', resultingQuantity };
+    });
+  }
+
+  /**
+   * Multiplies every ingredient amount and re-normalizes its unit
+   * (e.g. 8 tbsp × 2 → 1 cup). Amounts are rounded to two decimals.
+   */
+  static scale(
+    ingredients: CookIngredient[],
+    factor: number,
+  ): CookIngredient[] {
+    return ingredients.map((ingredient) => {
+      const scaled = UnitConverter.scale(
+        ingredient.amount,
+        ingredient.unit,
+        factor,
+      );
+      return {
+        ...ingredient,
+        amount: this.round(scaled.amount),
+        unit: scaled.unit,
+      };
+    });
+  }
+
+  /**
+   * Reads a recipe's JSON ingredient column, preferring the structured
+   * quantity fields over the legacy ones. Amounts default to 1.
+   */
+  static fromRecipeIngredients(ingredients: unknown): CookIngredient[] {
+    if (!Array.isArray(ingredients)) {
+      return [];
+    }
+    return (ingredients as StoredIngredient[]).map((ingredient) => ({
+      name: ingredient.name,
+      catalogItemId: ingredient.catalogItemId,
+      amount: ingredient.quantityAmount ?? ingredient.quantity ?? 1,
+      unit: ingredient.quantityUnit ?? ingredient.unit,
+    }));
+  }
+
+  /**
+   * Combines ingredients that stand for the same product in convertible
+   * units (e.g. across several recipes) into one line, expressed in the unit
+   * of the first occurrence.
+   */
+  static combine(ingredients: CookIngredient[]): CookIngredient[] {
+    const combined: CookIngredient[] = [];
+
+    for (const ingredient of ingredients) {
+      const target = combined.find(
+        (candidate) =>
+          this.isSameProduct(candidate, ingredient) &&
+          UnitConverter.convert(1, ingredient.unit, candidate.unit) !== null,
+      );
+      if (target) {
+        target.amount = this.round(
+          target.amount +
+            (UnitConverter.convert(
+              ingredient.amount,
+              ingredient.unit,
+              target.unit,
+            ) ?? 0),
+        );
+      } else {
+        combined.push({ ...ingredient });
+      }
+    }
+
+    return combined;
+  }
+
+  /**
+   * Checks whether a stock item stands for the ingredient.
+   */
+  static matches(ingredient: CookIngredient, item: CookStockItem): boolean {
+    if (ingredient.catalogItemId) {
+      return item.catalogItemId === ingredient.catalogItemId;
+    }
+    return (
+      item.name.trim().toLowerCase() === ingredient.name.trim().toLowerCase()
+    );
+  }
+
+  /**
+   * Rounds to two decimals so converted amounts stay readable.
+   */
+  static round(value: number): number {
+    return Math.round(value * QUANTITY_PRECISION) / QUANTITY_PRECISION;
+  }
+
+  /**
+   * Consumes matching pantry stock for one ingredient. Stock is shared across
+   * lines, so an ingredient listed twice cannot use the same jar twice.
+   *
+   * @returns Covered amount in the ingredient's unit
+   */
+  private static takeFromPantry(
+    ingredient: CookIngredient,
+    required: number,
+    pantryItems: CookStockItem[],
+    remaining: Map<string, number>,
+  ): number {
+    let covered = 0;
+
+    for (const item of pantryItems) {
+      if (covered >= required || !this.matches(ingredient, item)) {
+        continue;
+      }
+
+      const available = UnitConverter.convert(
+        remaining.get(item.id) ?? 0,
+        item.unit,
+        ingredient.unit,
+      );
+      if (available === null || available <= 0) {
+        continue;
+      }
+
+      const taken = Math.min(available, required - covered);
+      covered += taken;
+      remaining.set(
+        item.id,
+        (remaining.get(item.id) ?? 0) -
+          (UnitConverter.convert(taken, ingredient.unit, item.unit) ?? 0),
+      );
+    }
+
+    return this.round(covered);
+  }
+
+  private static isSameProduct(a: CookIngredient, b: CookIngredient): boolean {
+    if (a.catalogItemId && b.catalogItemId) {
+      return a.catalogItemId === b.catalogItemId;
+    }
+    return a.name.trim().toLowerCase() === b.name.trim().toLowerCase();
+  }
+}
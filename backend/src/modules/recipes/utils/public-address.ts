@@ -0,0 +1,114 @@
+import { BlockList, LookupFunction, isIP } from 'net';
+import { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+
+/**
+ * Addresses a server-side fetch must not reach: loopback, private,
+ * carrier-grade NAT, link-local, unique local, multicast, reserved and
+ * unspecified ranges. NAT64 IPv6 addresses are blocked as a whole, since they
+ * can wrap any of the IPv4 ranges.
+ */
+const NON_PUBLIC_ADDRESSES = new BlockList();
+(
+  [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 4],
+    ['240.0.0.0', 4],
+  ] as const
+).forEach(([network, prefix]) =>
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4'),
+);
+(
+  [
+    ['::', 128],
+    ['::1', 128],
+    ['64:ff9b::', 96],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8],
+  ] as const
+).forEach(([network, prefix]) =>
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6'),
+);
+
+/**
+ * IPv4-mapped IPv6 addresses, blocked as a whole for the same reason. Kept
+ * apart because a `BlockList` also matches plain IPv4 addresses against
+ * `::ffff:0:0/96`, so it is only checked for IPv6 input.
+ */
+const IPV4_MAPPED_ADDRESSES = new BlockList();
+IPV4_MAPPED_ADDRESSES.addSubnet('::ffff:0:0', 96, 'ipv6');
+
+/**
+ * Thrown when a host resolves to an address that is not on the public
+ * internet.
+ */
+export class NonPublicAddressError extends Error {
+  constructor(hostname: string) {
+    super(`${hostname} does not resolve to a public address`);
+    this.name = 'NonPublicAddressError';
+  }
+}
+
+/**
+ * Checks whether an IP address is on the public internet.
+ *
+ * @param address - IPv4 or IPv6 address
+ * @returns False for non-public ranges and for strings that are not IPs
+ */
+export function isPublicAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 0) {
+    return false;
+  }
+  if (version === 6 && IPV4_MAPPED_ADDRESSES.check(address, 'ipv6')) {
+    return false;
+  }
+  return !NON_PUBLIC_ADDRESSES.check(address, version === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolves a host name (or IP literal, with or without IPv6 brackets) and
+ * checks that every address it resolves to is public.
+ *
+ * @throws NonPublicAddressError if any address is not public
+ */
+export async function resolvePublicAddresses(
+  hostname: string,
+): Promise<LookupAddress[]> {
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = await lookup(host, { all: true, verbatim: true });
+  if (
+    addresses.length === 0 ||
+    addresses.some(({ address }) => !isPublicAddress(address))
+  ) {
+    throw new NonPublicAddressError(hostname);
+  }
+  return addresses;
+}
+
+/**
+ * `lookup` for HTTP agents that only connects to public addresses. The
+ * socket connects to the address checked here, so a DNS answer that changes
+ * between a separate check and the connection can't reach a private host.
+ */
+export const lookupPublicAddress = ((hostname, options, callback) => {
+  resolvePublicAddresses(hostname).then(
+    (addresses) => {
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    },
+    (error) => callback(error, '', 0),
+  );
+}) as LookupFunction;
@@ -0,0 +1,448 @@
+import {
+  UnitCode,
+  UnitType,
+  UNIT_TYPE_MAPPING,
+} from '../constants/units.constants';
+import { MAX_RECIPE_SERVINGS } from '../constants';
+
+export interface ParsedIngredient {
+  name: string;
+  quantityAmount?: number;
+  quantityUnit?: UnitCode;
+  quantityUnitType?: UnitType;
+  quantityModifier?: string;
+}
+
+export interface ParsedInstruction {
+  step: number;
+  instruction: string;
+}
+
+export interface ParsedRecipe {
+  title: string;
+  description?: string;
+  prepTime?: number;
+  servings?: number;
+  imageUrl?: string;
+  ingredients: ParsedIngredient[];
+  instructions: ParsedInstruction[];
+}
+
+/** A schema.org Recipe read from JSON-LD or microdata, keyed by property name. */
+type RecipeNode = Record<string, unknown>;
+
+/**
+ * Extracts a schema.org Recipe from a web page.
+ *
+ * JSON-LD (`<script type="application/ld+json">`, including `@graph` documents)
+ * is preferred; pages that only use microdata (`itemtype=".../Recipe"`) are read
+ * on a best-effort basis. Ingredient lines are split into amount, unit and name
+ * so the result can be reviewed and saved as a regular recipe.
+ */
+export class RecipeHtmlParser {
+  private static readonly UNIT_ALIASES: Record<string, UnitCode> = {
+    g: UnitCode.GRAM,
+    gr: UnitCode.GRAM,
+    gram: UnitCode.GRAM,
+    grams: UnitCode.GRAM,
+    kg: UnitCode.KILOGRAM,
+    kilogram: UnitCode.KILOGRAM,
+    kilograms: UnitCode.KILOGRAM,
+    oz: UnitCode.OUNCE,
+    ounce: UnitCode.OUNCE,
+    ounces: UnitCode.OUNCE,
+    lb: UnitCode.POUND,
+    lbs: UnitCode.POUND,
+    pound: UnitCode.POUND,
+    pounds: UnitCode.POUND,
+    ml: UnitCode.MILLILITER,
+    milliliter: UnitCode.MILLILITER,
+    milliliters: UnitCode.MILLILITER,
+    millilitre: UnitCode.MILLILITER,
+    millilitres: UnitCode.MILLILITER,
+    l: UnitCode.LITER,
+    liter: UnitCode.LITER,
+    liters: UnitCode.LITER,
+    litre: UnitCode.LITER,
+    litres: UnitCode.LITER,
+    tsp: UnitCode.TEASPOON,
+    teaspoon: UnitCode.TEASPOON,
+    teaspoons: UnitCode.TEASPOON,
+    tbsp: UnitCode.TABLESPOON,
+    tbs: UnitCode.TABLESPOON,
+    tablespoon: UnitCode.TABLESPOON,
+    tablespoons: UnitCode.TABLESPOON,
+    cup: UnitCode.CUP,
+    cups: UnitCode.CUP,
+    piece: UnitCode.PIECE,
+    pieces: UnitCode.PIECE,
+    clove: UnitCode.CLOVE,
+    cloves: UnitCode.CLOVE,
+    slice: UnitCode.SLICE,
+    slices: UnitCode.SLICE,
+    bunch: UnitCode.BUNCH,
+    bunches: UnitCode.BUNCH,
+    can: UnitCode.CAN,
+    cans: UnitCode.CAN,
+    bottle: UnitCode.BOTTLE,
+    bottles: UnitCode.BOTTLE,
+    packet: UnitCode.PACKET,
+    packets: UnitCode.PACKET,
+    stick: UnitCode.STICK,
+    sticks: UnitCode.STICK,
+  };
+
+  /** Measures without a canonical unit; kept as the ingredient's modifier. */
+  private static readonly MODIFIER_WORDS = new Set([
+    'pinch',
+    'pinches',
+    'dash',
+    'dashes',
+    'handful',
+    'handfuls',
+    'sprig',
+    'sprigs',
+  ]);
+
+  private static readonly UNICODE_FRACTIONS: Record<string, string> = {
+    '½': '1/2',
+    '⅓': '1/3',
+    '⅔': '2/3',
+    '¼': '1/4',
+    '¾': '3/4',
+    '⅕': '1/5',
+    '⅛': '1/8',
+    '⅜': '3/8',
+    '⅝': '5/8',
+    '⅞': '7/8',
+  };
+
+  private static readonly HTML_ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+    frac12: '½',
+    frac14: '¼',
+    frac34: '¾',
+  };
+
+  /** Properties read from microdata; repeated ones become arrays. */
+  private static readonly MICRODATA_LIST_PROPS = new Set([
+    'recipeIngredient',
+    'ingredients',
+    'recipeInstructions',
+  ]);
+
+  /**
+   * Parses the first schema.org Recipe found in the page.
+   *
+   * @param html - Page HTML
+   * @returns The recipe, or null when the page has no recipe with a name
+   */
+  static parse(html: string): ParsedRecipe | null {
+    const node = this.findJsonLdRecipe(html) ?? this.readMicrodata(html);
+    if (!node) {
+      return null;
+    }
+
+    const title = this.toText(node.name ?? node.headline);
+    if (!title) {
+      return null;
+    }
+
+    return {
+      title,
+      description: this.toText(node.description) || undefined,
+      prepTime:
+        this.parseDuration(node.prepTime) ?? this.parseDuration(node.totalTime),
+      servings: this.parseYield(node.recipeYield ?? node.yield),
+      imageUrl: this.parseImage(node.image),
+      ingredients: this.toList(node.recipeIngredient ?? node.ingredients)
+        .map((line) => this.parseIngredientLine(this.toText(line)))
+        .filter((ingredient): ingredient is ParsedIngredient =>
+          Boolean(ingredient),
+        ),
+      instructions: this.flattenInstructions(node.recipeInstructions).map(
+        (instruction, index) => ({ step: index + 1, instruction }),
+      ),
+    };
+  }
+
+  /**
+   * Converts an ISO-8601 duration (e.g. PT1H30M, P0DT45M) to whole minutes.
+   *
+   * @returns Minutes, or undefined when the value is not a positive duration
+   */
+  static parseDuration(value: unknown): number | undefined {
+    if (typeof value !== 'string') {
+      return undefined;
+    }
+    const match = value
+      .trim()
+      .match(
+        /^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i,
+      );
+    if (!match) {
+      return undefined;
+    }
+    const [, days, hours, minutes, seconds] = match.map((part) =>
+      part ? Number(part) : 0,
+    );
+    const total = Math.round(
+      days * 24 * 60 + hours * 60 + minutes + seconds / 60,
+    );
+    return total > 0 ? total : undefined;
+  }
+
+  /**
+   * Splits an ingredient line such as "1 1/2 cups flour, sifted" into amount,
+   * unit and name. Ranges ("2-3 cloves") use the lower bound. Lines without a
+   * recognized unit keep the whole text after the amount as the name.
+   *
+   * @returns The ingredient, or null for blank lines
+   */
+  static parseIngredientLine(line: string): ParsedIngredient | null {
+    let rest = this.replaceUnicodeFractions(line).trim();
+    if (!rest) {
+      return null;
+    }
+
+    const amountMatch = rest.match(
+      /^(\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:[.,]\d+)?)(?:\s*(?:-|–|to)\s*(?:\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:[.,]\d+)?))?\s*/i,
+    );
+    if (!amountMatch) {
+      return { name: rest };
+    }
+
+    const quantityAmount = this.parseAmount(amountMatch[1]);
+    rest = rest.slice(amountMatch[0].length);
+
+    const ingredient: ParsedIngredient = { name: rest, quantityAmount };
+    const unitMatch = rest.match(/^([a-z]+)\.?(?:\s+|$)/i);
+    const unitWord = unitMatch?.[1].toLowerCase();
+    if (unitMatch && unitWord && this.UNIT_ALIASES[unitWord]) {
+      ingredient.quantityUnit = this.UNIT_ALIASES[unitWord];
+      ingredient.quantityUnitType = UNIT_TYPE_MAPPING[ingredient.quantityUnit];
+      rest = rest.slice(unitMatch[0].length);
+    } else if (unitMatch && unitWord && this.MODIFIER_WORDS.has(unitWord)) {
+      ingredient.quantityModifier = unitWord;
+      rest = rest.slice(unitMatch[0].length);
+    }
+
+    ingredient.name = rest.replace(/^of\s+/i, '').trim() || line.trim();
+    return ingredient;
+  }
+
+  private static findJsonLdRecipe(html: string): RecipeNode | null {
+    const scripts = html.matchAll(
+      /<script[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi,
+    );
+    for (const [, json] of scripts) {
+      try {
+        const recipe = this.findRecipeNode(JSON.parse(json.trim()));
+        if (recipe) {
+          return recipe;
+        }
+      } catch {
+        // Malformed blocks are common on real pages; try the next one
+      }
+    }
+    return null;
+  }
+
+  private static findRecipeNode(value: unknown): RecipeNode | null {
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        const recipe = this.findRecipeNode(item);
+        if (recipe) {
+          return recipe;
+        }
+      }
+      return null;
+    }
+    if (!value || typeof value !== 'object') {
+      return null;
+    }
+
+    const node = value as RecipeNode;
+    const types = this.toList(node['@type']).map(String);
+    if (types.some((type) => /(^|[/:])recipe$/i.test(type))) {
+      return node;
+    }
+    return (
+      this.findRecipeNode(node['@graph']) ??
+      this.findRecipeNode(node.mainEntity)
+    );
+  }
+
+  /**
+   * Reads itemprop values inside the first Recipe itemscope. Nested tags are
+   * not tracked, so each value runs to the first closing tag of its element.
+   */
+  private static readMicrodata(html: string): RecipeNode | null {
+    const start = html.search(
+      /itemtype\s*=\s*["']https?:\/\/schema\.org\/Recipe["']/i,
+    );
+    if (start < 0) {
+      return null;
+    }
+
+    const node: RecipeNode = {};
+    const scope = html.slice(start);
+    const props = scope.matchAll(
+      /<([a-z0-9]+)\b([^>]*?)\bitemprop\s*=\s*["']([^"']+)["']([^>]*)>/gi,
+    );
+    for (const match of props) {
+      const [tag, tagName, before, prop, after] = match;
+      const attributes = `${before} ${after}`;
+      const value =
+        this.readAttribute(attributes, 'content') ??
+        this.readAttribute(attributes, 'datetime') ??
+        (tagName.toLowerCase() === 'img'
+          ? this.readAttribute(attributes, 'src')
+          : undefined) ??
+        this.readElementText(scope, (match.index ?? 0) + tag.length, tagName);
+
+      if (this.MICRODATA_LIST_PROPS.has(prop)) {
+        node[prop] = [...this.toList(node[prop]), value];
+      } else if (node[prop] === undefined) {
+        node[prop] = value;
+      }
+    }
+    return node;
+  }
+
+  private static readAttribute(
+    attributes: string,
+    name: string,
+  ): string | undefined {
+    const match = attributes.match(
+      new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'),
+    );
+    return match ? (match[1] ?? match[2]) : undefined;
+  }
+
+  private static readElementText(
+    html: string,
+    from: number,
+    tagName: string,
+  ): string {
+    const end = html.toLowerCase().indexOf(`</${tagName.toLowerCase()}`, from);
+    return end < 0 ? '' : html.slice(from, end);
+  }
+
+  private static flattenInstructions(value: unknown): string[] {
+    if (typeof value === 'string') {
+      return this.toText(value, true)
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean);
+    }
+    if (Array.isArray(value)) {
+      return value.flatMap((item) => this.flattenInstructions(item));
+    }
+    if (value && typeof value === 'object') {
+      const node = value as RecipeNode;
+      if (node.itemListElement) {
+        return this.flattenInstructions(node.itemListElement);
+      }
+      const text = this.toText(node.text ?? node.name);
+      return text ? [text] : [];
+    }
+    return [];
+  }
+
+  private static parseYield(value: unknown): number | undefined {
+    for (const item of this.toList(value)) {
+      const match = String(item).match(/\d+/);
+      if (match) {
+        const servings = Number(match[0]);
+        if (servings >= 1) {
+          return Math.min(servings, MAX_RECIPE_SERVINGS);
+        }
+      }
+    }
+    return undefined;
+  }
+
+  private static parseImage(value: unknown): string | undefined {
+    const [image] = this.toList(value);
+    if (typeof image === 'string') {
+      return image.trim() || undefined;
+    }
+    if (image && typeof image === 'object') {
+      const url = (image as RecipeNode).url;
+      return typeof url === 'string' ? url : undefined;
+    }
+    return undefined;
+  }
+
+  private static parseAmount(value: string): number {
+    return value.split(/\s+/).reduce((sum, part) => {
+      const [numerator, denominator] = part.split('/');
+      return (
+        sum +
+        (denominator
+          ? Number(numerator) / Number(denominator)
+          : Number(part.replace(',', '.')))
+      );
+    }, 0);
+  }
+
+  private static replaceUnicodeFractions(value: string): string {
+    return value.replace(/(\d)?([½⅓⅔¼¾⅕⅛⅜⅝⅞])/g, (_match, whole, fraction) =>
+      whole
+        ? `${whole} ${this.UNICODE_FRACTIONS[fraction]}`
+        : this.UNICODE_FRACTIONS[fraction],
+    );
+  }
+
+  private static toList(value: unknown): unknown[] {
+    if (value === undefined || value === null) {
+      return [];
+    }
+    return Array.isArray(value) ? value : [value];
+  }
+
+  /**
+   * Strips tags, decodes entities and collapses whitespace. With
+   * `keepLineBreaks`, block boundaries become newlines instead of spaces.
+   */
+  private static toText(value: unknown, keepLineBreaks = false): string {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      return '';
+    }
+    let text = String(value);
+    if (keepLineBreaks) {
+      text = text.replace(/<br\s*\/?>|<\/(?:p|li|div)>/gi, '\n');
+    }
+    text = text.replace(/<[^>]*>/g, ' ');
+    text = this.decodeEntities(text);
+    return keepLineBreaks
+      ? text
+          .split('\n')
+          .map((line) => line.replace(/\s+/g, ' ').trim())
+          .join('\n')
+          .trim()
+      : text.replace(/\s+/g, ' ').trim();
+  }
+
+  private static decodeEntities(value: string): string {
+    return value.replace(
+      /&(#x[0-9a-f]+|#\d+|[a-z0-9]+);/gi,
+      (entity, code: string) => {
+        if (code[0] === '#') {
+          const point =
+            code[1].toLowerCase() === 'x'
+              ? parseInt(code.slice(2), 16)
+              : parseInt(code.slice(1), 10);
+          return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+        }
+        return this.HTML_ENTITIES[code.toLowerCase()] ?? entity;
+      },
+    );
+  }
+}
@@ -1,4 +1,8 @@
-import { UnitCode, UnitType } from '../constants/units.constants';
+import {
+  UnitCode,
+  UnitType,
+  UNIT_TYPE_MAPPING,
+} from '../constants/units.constants';
 
 /**
  * Converts measurable units to a canonical base for search/analytics.
@@ -20,6 +24,17 @@ export class UnitConverter {
     [UnitCode.CUP]: 236.588,
   };
 
+  /**
+   * Units that scaled amounts may move between, smallest first. Metric and
+   * kitchen measures stay separate so 500 ml never turns into cups.
+   */
+  private static readonly SCALING_LADDERS: UnitCode[][] = [
+    [UnitCode.GRAM, UnitCode.KILOGRAM],
+    [UnitCode.OUNCE, UnitCode.POUND],
+    [UnitCode.MILLILITER, UnitCode.LITER],
+    [UnitCode.TEASPOON, UnitCode.TABLESPOON, UnitCode.CUP],
+  ];
+
   /**
    * Normalize amount to base unit (grams for weight, ml for volume).
    *
@@ -50,4 +65,81 @@ export class UnitConverter {
 
     return null;
   }
+
+  /**
+   * Convert an amount between two units of the same measurement type.
+   * Unit strings are compared case-insensitively; a missing unit only matches another missing unit.
+   *
+   * @param amount - Numeric quantity in the `from` unit
+   * @param from - Source unit (free-form, as stored on list and pantry items)
+   * @param to - Target unit
+   * @returns Amount expressed in `to`, or null when the units are not convertible
+   *   (different types, different count units, or unknown codes)
+   */
+  static convert(
+    amount: number,
+    from: string | null | undefined,
+    to: string | null | undefined,
+  ): number | null {
+    const fromUnit = from?.trim().toLowerCase() || null;
+    const toUnit = to?.trim().toLowerCase() || null;
+
+    if (fromUnit === toUnit) {
+      return amount;
+    }
+    if (!fromUnit || !toUnit) {
+      return null;
+    }
+
+    const fromType = UNIT_TYPE_MAPPING[fromUnit as UnitCode];
+    if (!fromType || fromType !== UNIT_TYPE_MAPPING[toUnit as UnitCode]) {
+      return null;
+    }
+
+    const inBase = this.normalize(amount, fromUnit as UnitCode, fromType);
+    const basePerTarget = this.normalize(1, toUnit as UnitCode, fromType);
+    if (inBase == null || !basePerTarget) {
+      return null;
+    }
+
+    return inBase / basePerTarget;
+  }
+
+  /**
+   * Multiply an amount and re-normalize its unit to the largest unit of the
+   * same family that still holds at least one (e.g. 8 tbsp × 2 → 1 cup,
+   * 600 g × 2 → 1.2 kg). A factor of 1 keeps the unit as written.
+   *
+   * @param amount - Numeric quantity in `unit`
+   * @param unit - Unit code; count and unknown units are only multiplied
+   * @param factor - Scaling factor (e.g. target servings / recipe servings)
+   * @returns Scaled amount (unrounded) and the unit it is expressed in
+   */
+  static scale(
+    amount: number,
+    unit: string | undefined,
+    factor: number,
+  ): { amount: number; unit: string | undefined } {
+    const scaled = amount * factor;
+    const code = unit?.trim().toLowerCase();
+    const ladder = this.SCALING_LADDERS.find((candidates) =>
+      candidates.includes(code as UnitCode),
+    );
+    if (factor === 1 || !ladder || scaled <= 0) {
+      return { amount: scaled, unit };
+    }
+
+    for (const candidate of [...ladder].reverse()) {
+      const converted = this.convert(scaled, code, candidate);
+      // Compare at display precision so 16 tbsp (236.59 ml) still counts as a cup
+      if (converted !== null && Math.round(converted * 100) / 100 >= 1) {
+        return { amount: converted, unit: candidate };
+      }
+    }
+
+    return {
+      amount: this.convert(scaled, code, ladder[0]) ?? scaled,
+      unit: ladder[0],
+    };
+  }
 }
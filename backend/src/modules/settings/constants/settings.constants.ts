@@ -0,0 +1,28 @@
+import {
+  NOTIFICATION_TYPES,
+  NotificationType,
+} from '../../notifications/constants/notification.constants';
+
+/** Measurement systems a household can prefer for quantities. */
+export const UNIT_SYSTEMS = ['metric', 'imperial'] as const;
+
+export type UnitSystem = (typeof UNIT_SYSTEMS)[number];
+
+/** Timezone used until a household picks its own. */
+export const DEFAULT_TIMEZONE = 'UTC';
+
+/** Household settings used until an admin saves their own. */
+export const DEFAULT_HOUSEHOLD_SETTINGS = {
+  units: 'metric' as UnitSystem,
+  weekStartDay: 0,
+  timezone: DEFAULT_TIMEZONE,
+  defaultShoppingListId: null,
+  defaultChoreReminder: null,
+};
+
+/** Notification types a user can turn off; every type is on by default. */
+export const NOTIFICATION_PREFERENCE_TYPES: NotificationType[] =
+  Object.values(NOTIFICATION_TYPES);
+
+/** Language codes such as "en", "he" or "pt-BR". */
+export const LANGUAGE_CODE_PATTERN = /^[a-z]{2,3}([-_][A-Za-z]{2,4})?$/;
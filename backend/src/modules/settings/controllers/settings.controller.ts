@@ -0,0 +1,87 @@
+import {
+  Controller,
+  Get,
+  Patch,
+  Body,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { SettingsService } from '../services/settings.service';
+import {
+  HouseholdSettingsDto,
+  SettingsResponseDto,
+  UpdateHouseholdSettingsDto,
+  UpdateUserSettingsDto,
+  UserSettingsDto,
+} from '../dtos';
+import {
+  JwtAuthGuard,
+  HouseholdGuard,
+  PermissionGuard,
+} from '../../../common/guards';
+import {
+  CurrentUser,
+  CurrentUserPayload,
+  RequirePermission,
+} from '../../../common/decorators';
+import { PERMISSIONS } from '../../../common/constants';
+
+/**
+ * Household and user settings.
+ * API Version: 1
+ * All endpoints require authentication and household membership.
+ *
+ * - GET /settings - Settings of the active household and the current user
+ * - PATCH /settings/household - Update household settings (admins)
+ * - PATCH /settings/me - Update the current user's settings
+ */
+@ApiTags('settings')
+@Controller({ path: 'settings', version: '1' })
+@UseGuards(JwtAuthGuard, HouseholdGuard, PermissionGuard)
+export class SettingsController {
+  constructor(private settingsService: SettingsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get household and user settings' })
+  @ApiResponse({ status: 200, type: SettingsResponseDto })
+  async getSettings(
+    @CurrentUser() user: CurrentUserPayload,
+  ): Promise<SettingsResponseDto> {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    return this.settingsService.getSettings(user.userId, user.householdId);
+  }
+
+  @Patch('household')
+  @RequirePermission(PERMISSIONS.HOUSEHOLD_MANAGE)
+  @ApiOperation({
+    summary: 'Update household settings',
+    description:
+      'Units, week start day, timezone, default shopping list and default chore reminder.',
+  })
+  @ApiResponse({ status: 200, type: HouseholdSettingsDto })
+  async updateHouseholdSettings(
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: UpdateHouseholdSettingsDto,
+  ): Promise<HouseholdSettingsDto> {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    return this.settingsService.updateHouseholdSettings(user.householdId, dto);
+  }
+
+  @Patch('me')
+  @ApiOperation({
+    summary: 'Update my settings',
+    description: 'Language, timezone and notification preferences.',
+  })
+  @ApiResponse({ status: 200, type: UserSettingsDto })
+  async updateUserSettings(
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: UpdateUserSettingsDto,
+  ): Promise<UserSettingsDto> {
+    return this.settingsService.updateUserSettings(user.userId, dto);
+  }
+}
@@ -0,0 +1,3 @@
+export * from './settings-response.dto';
+export * from './update-household-settings.dto';
+export * from './update-user-settings.dto';
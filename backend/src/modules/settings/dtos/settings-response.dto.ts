@@ -0,0 +1,28 @@
+import { UnitSystem } from '../constants/settings.constants';
+import { NotificationType } from '../../notifications/constants/notification.constants';
+
+/**
+ * Preferences shared by every member of a household.
+ */
+export class HouseholdSettingsDto {
+  units: UnitSystem;
+  weekStartDay: number;
+  timezone: string;
+  defaultShoppingListId: string | null;
+  defaultChoreReminder: string | null;
+}
+
+/**
+ * Preferences of the signed-in user. A null language or timezone follows
+ * the device and the household respectively.
+ */
+export class UserSettingsDto {
+  language: string | null;
+  timezone: string | null;
+  notifications: Record<NotificationType, boolean>;
+}
+
+export class SettingsResponseDto {
+  household: HouseholdSettingsDto;
+  user: UserSettingsDto;
+}
@@ -0,0 +1,42 @@
+import {
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { UNIT_SYSTEMS, UnitSystem } from '../constants/settings.constants';
+import { REMINDER_OFFSET_PATTERN } from '../../chores/constants/reminder.constants';
+
+/**
+ * Update payload for household settings. Only provided fields are updated;
+ * null clears the default shopping list or chore reminder.
+ */
+export class UpdateHouseholdSettingsDto {
+  @IsIn(UNIT_SYSTEMS)
+  @IsOptional()
+  units?: UnitSystem;
+
+  /** First day of the week, 0 = Sunday. */
+  @IsInt()
+  @Min(0)
+  @Max(6)
+  @IsOptional()
+  weekStartDay?: number;
+
+  /** IANA timezone, e.g. Asia/Jerusalem. */
+  @IsString()
+  @IsOptional()
+  timezone?: string;
+
+  @IsString()
+  @IsOptional()
+  defaultShoppingListId?: string | null;
+
+  /** Reminder offset applied to new chores, e.g. 30m, 1h or 1d. */
+  @Matches(REMINDER_OFFSET_PATTERN)
+  @IsOptional()
+  defaultChoreReminder?: string | null;
+}
@@ -0,0 +1,43 @@
+import {
+  IsBoolean,
+  IsOptional,
+  IsString,
+  Matches,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { LANGUAGE_CODE_PATTERN } from '../constants/settings.constants';
+
+/**
+ * Notification types to turn on or off, keyed like the `type` sent in push
+ * payloads. Omitted types keep their current value.
+ */
+export class NotificationPreferencesDto {
+  @IsBoolean()
+  @IsOptional()
+  chore_reminder?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  main_list_items_added?: boolean;
+}
+
+/**
+ * Update payload for the signed-in user's settings. Only provided fields are
+ * updated; null language or timezone falls back to the device or household.
+ */
+export class UpdateUserSettingsDto {
+  @Matches(LANGUAGE_CODE_PATTERN)
+  @IsOptional()
+  language?: string | null;
+
+  /** IANA timezone, e.g. Asia/Jerusalem. */
+  @IsString()
+  @IsOptional()
+  timezone?: string | null;
+
+  @ValidateNested()
+  @Type(() => NotificationPreferencesDto)
+  @IsOptional()
+  notifications?: NotificationPreferencesDto;
+}
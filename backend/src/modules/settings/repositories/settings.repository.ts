@@ -0,0 +1,77 @@
+import { Injectable } from '@nestjs/common';
+import { HouseholdSettings, Prisma, UserSettings } from '@prisma/client';
+import { PrismaService } from '../../../infrastructure/database/prisma/prisma.service';
+import { ACTIVE_RECORDS_FILTER } from '../../../infrastructure/database/filters/soft-delete.filter';
+
+export type HouseholdSettingsUpdate = Partial<
+  Pick<
+    HouseholdSettings,
+    | 'units'
+    | 'weekStartDay'
+    | 'timezone'
+    | 'defaultShoppingListId'
+    | 'defaultChoreReminder'
+  >
+>;
+
+export type UserSettingsUpdate = {
+  language?: string | null;
+  timezone?: string | null;
+  notifications?: Prisma.InputJsonValue;
+};
+
+/**
+ * Data access for household and user settings. Rows are created on first
+ * save; until then callers fall back to defaults.
+ */
+@Injectable()
+export class SettingsRepository {
+  constructor(private prisma: PrismaService) {}
+
+  async findHouseholdSettings(
+    householdId: string,
+  ): Promise<HouseholdSettings | null> {
+    return this.prisma.householdSettings.findUnique({
+      where: { householdId },
+    });
+  }
+
+  async upsertHouseholdSettings(
+    householdId: string,
+    data: HouseholdSettingsUpdate,
+  ): Promise<HouseholdSettings> {
+    return this.prisma.householdSettings.upsert({
+      where: { householdId },
+      create: { householdId, ...data },
+      update: data,
+    });
+  }
+
+  async findUserSettings(userId: string): Promise<UserSettings | null> {
+    return this.prisma.userSettings.findUnique({ where: { userId } });
+  }
+
+  async upsertUserSettings(
+    userId: string,
+    data: UserSettingsUpdate,
+  ): Promise<UserSettings> {
+    return this.prisma.userSettings.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data,
+    });
+  }
+
+  /**
+   * Whether an active shopping list belongs to the household.
+   */
+  async shoppingListExists(
+    listId: string,
+    householdId: string,
+  ): Promise<boolean> {
+    const count = await this.prisma.shoppingList.count({
+      where: { id: listId, householdId, ...ACTIVE_RECORDS_FILTER },
+    });
+    return count > 0;
+  }
+}
@@ -0,0 +1,176 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { SettingsService } from '../settings.service';
+import { SettingsRepository } from '../../repositories/settings.repository';
+import { DEFAULT_HOUSEHOLD_SETTINGS } from '../../constants/settings.constants';
+
+describe('SettingsService', () => {
+  let service: SettingsService;
+
+  const householdId = 'household-1';
+  const userId = 'user-1';
+
+  const mockRepository = {
+    findHouseholdSettings: jest.fn(),
+    upsertHouseholdSettings: jest.fn(),
+    findUserSettings: jest.fn(),
+    upsertUserSettings: jest.fn(),
+    shoppingListExists: jest.fn(),
+  };
+
+  const householdRow = {
+    householdId,
+    units: 'imperial',
+    weekStartDay: 1,
+    timezone: 'America/New_York',
+    defaultShoppingListId: 'list-1',
+    defaultChoreReminder: '1h',
+    updatedAt: new Date(),
+  };
+
+  const userRow = {
+    userId,
+    language: 'he',
+    timezone: null,
+    notifications: { chore_reminder: false },
+    updatedAt: new Date(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SettingsService,
+        { provide: SettingsRepository, useValue: mockRepository },
+      ],
+    }).compile();
+
+    service = module.get<SettingsService>(SettingsService);
+  });
+
+  describe('getSettings', () => {
+    it('returns defaults when nothing was saved', async () => {
+      mockRepository.findHouseholdSettings.mockResolvedValue(null);
+      mockRepository.findUserSettings.mockResolvedValue(null);
+
+      const result = await service.getSettings(userId, householdId);
+
+      expect(result).toEqual({
+        household: DEFAULT_HOUSEHOLD_SETTINGS,
+        user: {
+          language: null,
+          timezone: null,
+          notifications: { chore_reminder: true, main_list_items_added: true },
+        },
+      });
+    });
+
+    it('returns the saved settings with every notification type listed', async () => {
+      mockRepository.findHouseholdSettings.mockResolvedValue(householdRow);
+      mockRepository.findUserSettings.mockResolvedValue(userRow);
+
+      const result = await service.getSettings(userId, householdId);
+
+      expect(result.household).toEqual({
+        units: 'imperial',
+        weekStartDay: 1,
+        timezone: 'America/New_York',
+        defaultShoppingListId: 'list-1',
+        defaultChoreReminder: '1h',
+      });
+      expect(result.user.notifications).toEqual({
+        chore_reminder: false,
+        main_list_items_added: true,
+      });
+    });
+  });
+
+  describe('updateHouseholdSettings', () => {
+    it('saves the provided fields', async () => {
+      mockRepository.shoppingListExists.mockResolvedValue(true);
+      mockRepository.upsertHouseholdSettings.mockResolvedValue(householdRow);
+
+      await service.updateHouseholdSettings(householdId, {
+        timezone: 'America/New_York',
+        defaultShoppingListId: 'list-1',
+      });
+
+      expect(mockRepository.upsertHouseholdSettings).toHaveBeenCalledWith(
+        householdId,
+        expect.objectContaining({
+          timezone: 'America/New_York',
+          defaultShoppingListId: 'list-1',
+          units: undefined,
+        }),
+      );
+    });
+
+    it('rejects an unknown timezone', async () => {
+      await expect(
+        service.updateHouseholdSettings(householdId, {
+          timezone: 'Moon/Base',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockRepository.upsertHouseholdSettings).not.toHaveBeenCalled();
+    });
+
+    it('rejects a default shopping list from another household', async () => {
+      mockRepository.shoppingListExists.mockResolvedValue(false);
+
+      await expect(
+        service.updateHouseholdSettings(householdId, {
+          defaultShoppingListId: 'list-other',
+        }),
+      ).rejects.toThrow('Default shopping list must belong to the household');
+    });
+  });
+
+  describe('updateUserSettings', () => {
+    it('merges notification preferences into the saved ones', async () => {
+      mockRepository.findUserSettings.mockResolvedValue(userRow);
+      mockRepository.upsertUserSettings.mockResolvedValue(userRow);
+
+      await service.updateUserSettings(userId, {
+        notifications: { main_list_items_added: false },
+      });
+
+      expect(mockRepository.upsertUserSettings).toHaveBeenCalledWith(userId, {
+        language: undefined,
+        timezone: undefined,
+        notifications: { chore_reminder: false, main_list_items_added: false },
+      });
+    });
+
+    it('clears the language with null', async () => {
+      mockRepository.upsertUserSettings.mockResolvedValue({
+        ...userRow,
+        language: null,
+      });
+
+      const result = await service.updateUserSettings(userId, {
+        language: null,
+      });
+
+      expect(mockRepository.findUserSettings).not.toHaveBeenCalled();
+      expect(result.language).toBeNull();
+    });
+  });
+
+  describe('resolveTimeZone', () => {
+    it.each([
+      ['the user timezone', 'Asia/Jerusalem', householdRow, 'Asia/Jerusalem'],
+      ['the household timezone', null, householdRow, 'America/New_York'],
+      ['UTC', null, null, 'UTC'],
+    ])('resolves to %s', async (_label, userTimeZone, household, expected) => {
+      mockRepository.findUserSettings.mockResolvedValue({
+        ...userRow,
+        timezone: userTimeZone,
+      });
+      mockRepository.findHouseholdSettings.mockResolvedValue(household);
+
+      await expect(service.resolveTimeZone(userId, householdId)).resolves.toBe(
+        expected,
+      );
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { HouseholdSettings, UserSettings } from '@prisma/client';
+import { SettingsRepository } from '../repositories/settings.repository';
+import {
+  HouseholdSettingsDto,
+  SettingsResponseDto,
+  UpdateHouseholdSettingsDto,
+  UpdateUserSettingsDto,
+  UserSettingsDto,
+} from '../dtos';
+import {
+  DEFAULT_HOUSEHOLD_SETTINGS,
+  NOTIFICATION_PREFERENCE_TYPES,
+  UnitSystem,
+} from '../constants/settings.constants';
+import { NotificationType } from '../../notifications/constants/notification.constants';
+import { TimeZoneUtils } from '../../../common/utils';
+
+/**
+ * Settings service managing household- and user-level preferences.
+ *
+ * Responsibilities:
+ * - Reading settings with defaults for households and users that never saved any
+ * - Validating and saving updates (timezones, default shopping list)
+ * - Resolving the effective timezone and language for other modules
+ */
+@Injectable()
+export class SettingsService {
+  private readonly logger = new Logger(SettingsService.name);
+
+  constructor(private settingsRepository: SettingsRepository) {}
+
+  /**
+   * Gets the settings of the user and their active household.
+   *
+   * @param userId - The user ID
+   * @param householdId - The active household ID
+   * @returns Household and user settings
+   */
+  async getSettings(
+    userId: string,
+    householdId: string,
+  ): Promise<SettingsResponseDto> {
+    const [household, user] = await Promise.all([
+      this.getHouseholdSettings(householdId),
+      this.getUserSettings(userId),
+    ]);
+    return { household, user };
+  }
+
+  /**
+   * Gets the settings of a household, or the defaults if none were saved.
+   *
+   * @param householdId - The household ID
+   * @returns Household settings
+   */
+  async getHouseholdSettings(
+    householdId: string,
+  ): Promise<HouseholdSettingsDto> {
+    const settings =
+      await this.settingsRepository.findHouseholdSettings(householdId);
+    return this.toHouseholdSettingsDto(settings);
+  }
+
+  /**
+   * Gets the settings of a user, or the defaults if none were saved.
+   *
+   * @param userId - The user ID
+   * @returns User settings
+   */
+  async getUserSettings(userId: string): Promise<UserSettingsDto> {
+    const settings = await this.settingsRepository.findUserSettings(userId);
+    return this.toUserSettingsDto(settings);
+  }
+
+  /**
+   * Updates household settings. Permission is checked by the caller.
+   *
+   * @param householdId - The household ID
+   * @param dto - Fields to update
+   * @returns Updated household settings
+   * @throws BadRequestException if the timezone is unknown or the default
+   * shopping list is not in the household
+   */
+  async updateHouseholdSettings(
+    householdId: string,
+    dto: UpdateHouseholdSettingsDto,
+  ): Promise<HouseholdSettingsDto> {
+    if (dto.timezone) {
+      this.assertValidTimeZone(dto.timezone);
+    }
+
+    if (
+      dto.defaultShoppingListId &&
+      !(await this.settingsRepository.shoppingListExists(
+        dto.defaultShoppingListId,
+        householdId,
+      ))
+    ) {
+      throw new BadRequestException(
+        'Default shopping list must belong to the household',
+      );
+    }
+
+    const settings = await this.settingsRepository.upsertHouseholdSettings(
+      householdId,
+      {
+        units: dto.units ?? undefined,
+        weekStartDay: dto.weekStartDay ?? undefined,
+        timezone: dto.timezone || undefined,
+        defaultShoppingListId: dto.defaultShoppingListId,
+        defaultChoreReminder: dto.defaultChoreReminder,
+      },
+    );
+    this.logger.log(`Updated settings of household ${householdId}`);
+
+    return this.toHouseholdSettingsDto(settings);
+  }
+
+  /**
+   * Updates the user's own settings. Notification preferences are merged
+   * into the saved ones.
+   *
+   * @param userId - The user ID
+   * @param dto - Fields to update
+   * @returns Updated user settings
+   * @throws BadRequestException if the timezone is unknown
+   */
+  async updateUserSettings(
+    userId: string,
+    dto: UpdateUserSettingsDto,
+  ): Promise<UserSettingsDto> {
+    if (dto.timezone) {
+      this.assertValidTimeZone(dto.timezone);
+    }
+
+    const current = dto.notifications
+      ? await this.getUserSettings(userId)
+      : undefined;
+
+    const settings = await this.settingsRepository.upsertUserSettings(userId, {
+      language: dto.language,
+      timezone: dto.timezone,
+      notifications: current && {
+        ...current.notifications,
+        ...dto.notifications,
+      },
+    });
+
+    return this.toUserSettingsDto(settings);
+  }
+
+  /**
+   * Resolves the timezone dates are shown in for a user: their own
+   * timezone if set, otherwise the household's.
+   *
+   * @param userId - The user ID
+   * @param householdId - The active household ID
+   * @returns IANA timezone
+   */
+  async resolveTimeZone(userId: string, householdId: string): Promise<string> {
+    const [user, household] = await Promise.all([
+      this.settingsRepository.findUserSettings(userId),
+      this.settingsRepository.findHouseholdSettings(householdId),
+    ]);
+    return (
+      user?.timezone ??
+      household?.timezone ??
+      DEFAULT_HOUSEHOLD_SETTINGS.timezone
+    );
+  }
+
+  /**
+   * Gets the language a user chose for server-side content.
+   *
+   * @param userId - The user ID
+   * @returns Language code, or undefined to use the default
+   */
+  async getLanguage(userId: string): Promise<string | undefined> {
+    const settings = await this.settingsRepository.findUserSettings(userId);
+    return settings?.language ?? undefined;
+  }
+
+  private assertValidTimeZone(timeZone: string): void {
+    if (!TimeZoneUtils.isValidTimeZone(timeZone)) {
+      throw new BadRequestException(`Unknown timezone "${timeZone}"`);
+    }
+  }
+
+  private toHouseholdSettingsDto(
+    settings: HouseholdSettings | null,
+  ): HouseholdSettingsDto {
+    if (!settings) {
+      return { ...DEFAULT_HOUSEHOLD_SETTINGS };
+    }
+    return {
+      units: settings.units as UnitSystem,
+      weekStartDay: settings.weekStartDay,
+      timezone: settings.timezone,
+      defaultShoppingListId: settings.defaultShoppingListId,
+      defaultChoreReminder: settings.defaultChoreReminder,
+    };
+  }
+
+  private toUserSettingsDto(settings: UserSettings | null): UserSettingsDto {
+    const saved = (settings?.notifications ?? {}) as Partial<
+      Record<NotificationType, boolean>
+    >;
+    const notifications = Object.fromEntries(
+      NOTIFICATION_PREFERENCE_TYPES.map((type) => [type, saved[type] ?? true]),
+    ) as Record<NotificationType, boolean>;
+
+    return {
+      language: settings?.language ?? null,
+      timezone: settings?.timezone ?? null,
+      notifications,
+    };
+  }
+}
@@ -1,9 +1,13 @@
 import { Module } from '@nestjs/common';
+import { SettingsController } from './controllers/settings.controller';
+import { SettingsService } from './services/settings.service';
+import { SettingsRepository } from './repositories/settings.repository';
+import { PrismaModule } from '../../infrastructure/database/prisma/prisma.module';
 
 @Module({
-  imports: [],
-  controllers: [],
-  providers: [],
-  exports: [],
+  imports: [PrismaModule],
+  controllers: [SettingsController],
+  providers: [SettingsService, SettingsRepository],
+  exports: [SettingsService],
 })
 export class SettingsModule {}
@@ -5,9 +5,17 @@ import {
 } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
 import { CurrentUserPayload } from '../../../common/decorators';
-import { JwtAuthGuard, HouseholdGuard } from '../../../common/guards';
+import {
+  JwtAuthGuard,
+  HouseholdGuard,
+  PermissionGuard,
+} from '../../../common/guards';
 import { ShoppingService } from '../services/shopping.service';
-import { ShoppingListsController } from './shopping.controller';
+import { SettingsService } from '../../settings/services/settings.service';
+import {
+  ShoppingItemsController,
+  ShoppingListsController,
+} from './shopping.controller';
 
 describe('ShoppingListsController', () => {
   let controller: ShoppingListsController;
@@ -17,6 +25,10 @@ describe('ShoppingListsController', () => {
     deleteList: jest.fn(),
   };
 
+  const mockSettingsService = {
+    getLanguage: jest.fn(),
+  };
+
   const mockUser: CurrentUserPayload = {
     userId: 'user-123',
     householdId: 'household-123',
@@ -53,12 +65,18 @@ describe('ShoppingListsController', () => {
           provide: ShoppingService,
           useValue: mockShoppingService,
         },
+        {
+          provide: SettingsService,
+          useValue: mockSettingsService,
+        },
       ],
     })
       .overrideGuard(JwtAuthGuard)
       .useValue({ canActivate: () => true })
       .overrideGuard(HouseholdGuard)
       .useValue({ canActivate: () => true })
+      .overrideGuard(PermissionGuard)
+      .useValue({ canActivate: () => true })
       .compile();
 
     controller = module.get<ShoppingListsController>(ShoppingListsController);
@@ -80,11 +98,11 @@ describe('ShoppingListsController', () => {
     });
 
     describe.each([
-      ['en', 'en'],
-      ['he', 'he'],
-      ['undefined (no lang param)', undefined],
-      ['empty string', ''],
-    ])('with lang=%s', (_description, lang) => {
+      ['en', 'en', 'en'],
+      ['he', 'he', 'he'],
+      ['undefined (no lang param)', undefined, undefined],
+      ['empty string', '', undefined],
+    ])('with lang=%s', (_description, lang, expectedLang) => {
       it('delegates to ShoppingService with correct householdId and lang', async () => {
         mockShoppingService.getShoppingData.mockResolvedValue(aggregateFixture);
 
@@ -92,7 +110,7 @@ describe('ShoppingListsController', () => {
 
         expect(mockShoppingService.getShoppingData).toHaveBeenCalledWith(
           mockUser.householdId,
-          lang,
+          expectedLang,
         );
       });
 
@@ -105,6 +123,29 @@ describe('ShoppingListsController', () => {
       });
     });
 
+    it("falls back to the language in the user's settings", async () => {
+      mockSettingsService.getLanguage.mockResolvedValueOnce('he');
+      mockShoppingService.getShoppingData.mockResolvedValue(aggregateFixture);
+
+      await controller.getShoppingData(mockUser);
+
+      expect(mockSettingsService.getLanguage).toHaveBeenCalledWith(
+        mockUser.userId,
+      );
+      expect(mockShoppingService.getShoppingData).toHaveBeenCalledWith(
+        mockUser.householdId,
+        'he',
+      );
+    });
+
+    it('prefers an explicit lang over the settings', async () => {
+      mockShoppingService.getShoppingData.mockResolvedValue(aggregateFixture);
+
+      await controller.getShoppingData(mockUser, 'en');
+
+      expect(mockSettingsService.getLanguage).not.toHaveBeenCalled();
+    });
+
     describe('when service throws', () => {
       it('propagates generic errors to the caller', async () => {
         const serviceError = new Error('Database unavailable');
@@ -155,3 +196,87 @@ describe('ShoppingListsController', () => {
     });
   });
 });
+
+describe('ShoppingItemsController', () => {
+  let controller: ShoppingItemsController;
+
+  const mockShoppingService = {
+    updateItem: jest.fn(),
+  };
+
+  const kid: CurrentUserPayload = {
+    userId: 'kid-1',
+    householdId: 'household-123',
+    role: 'Kid',
+  };
+  const member: CurrentUserPayload = {
+    ...kid,
+    userId: 'member-1',
+    role: 'Member',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ShoppingItemsController],
+      providers: [{ provide: ShoppingService, useValue: mockShoppingService }],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({ canActivate: () => true })
+      .overrideGuard(HouseholdGuard)
+      .useValue({ canActivate: () => true })
+      .overrideGuard(PermissionGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<ShoppingItemsController>(ShoppingItemsController);
+    mockShoppingService.updateItem.mockResolvedValue({ updatedItem: {} });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('updateItem', () => {
+    it('lets a kid check an item off and claim it for themselves', async () => {
+      await controller.updateItem(kid, 'item-1', {
+        isChecked: true,
+        claimedById: 'kid-1',
+      });
+
+      expect(mockShoppingService.updateItem).toHaveBeenCalledWith(
+        'item-1',
+        'household-123',
+        { isChecked: true, claimedById: 'kid-1' },
+        'kid-1',
+      );
+    });
+
+    it.each([
+      ['change the quantity', { quantity: 3 }],
+      ['claim an item for another member', { claimedById: 'member-1' }],
+      ['move an item to the pantry', { isChecked: true, moveToPantry: true }],
+    ])('forbids a kid to %s', async (_description, dto) => {
+      await expect(controller.updateItem(kid, 'item-1', dto)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(mockShoppingService.updateItem).not.toHaveBeenCalled();
+    });
+
+    it('lets a member claim for others and move items to the pantry', async () => {
+      const dto = {
+        isChecked: true,
+        claimedById: 'kid-1',
+        moveToPantry: true,
+      };
+
+      await controller.updateItem(member, 'item-1', dto);
+
+      expect(mockShoppingService.updateItem).toHaveBeenCalledWith(
+        'item-1',
+        'household-123',
+        dto,
+        'member-1',
+      );
+    });
+  });
+});
@@ -9,10 +9,12 @@ import {
   Query,
   UseGuards,
   BadRequestException,
+  ForbiddenException,
   Logger,
 } from '@nestjs/common';
 import { ApiOperation, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
 import { ShoppingService } from '../services/shopping.service';
+import { SettingsService } from '../../settings/services/settings.service';
 import {
   CreateListDto,
   AddItemsDto,
@@ -20,8 +22,17 @@ import {
   UpdateListDto,
 } from '../dtos';
 import { ShoppingDataDto } from '../dtos/shopping-list-response.dto';
-import { JwtAuthGuard, HouseholdGuard } from '../../../common/guards';
-import { CurrentUser, CurrentUserPayload } from '../../../common/decorators';
+import {
+  JwtAuthGuard,
+  HouseholdGuard,
+  PermissionGuard,
+} from '../../../common/guards';
+import {
+  CurrentUser,
+  CurrentUserPayload,
+  RequirePermission,
+} from '../../../common/decorators';
+import { PERMISSIONS, hasPermission } from '../../../common/constants';
 import { Public } from '../../../common/decorators/public.decorator';
 
 /**
@@ -92,11 +103,25 @@ export class GroceriesController {
  */
 @ApiTags('shopping-lists')
 @Controller({ path: 'shopping-lists', version: '1' })
-@UseGuards(JwtAuthGuard, HouseholdGuard)
+@UseGuards(JwtAuthGuard, HouseholdGuard, PermissionGuard)
 export class ShoppingListsController {
   private readonly logger = new Logger(ShoppingListsController.name);
 
-  constructor(private shoppingService: ShoppingService) {}
+  constructor(
+    private shoppingService: ShoppingService,
+    private settingsService: SettingsService,
+  ) {}
+
+  /**
+   * Catalog names are localized in the requested language, falling back to
+   * the language the user picked in their settings.
+   */
+  private async resolveLanguage(
+    userId: string,
+    lang?: string,
+  ): Promise<string | undefined> {
+    return lang?.trim() || this.settingsService.getLanguage(userId);
+  }
 
   @Get()
   async getLists(@CurrentUser() user: CurrentUserPayload) {
@@ -121,7 +146,7 @@ export class ShoppingListsController {
     name: 'lang',
     required: false,
     description:
-      'Language code for catalog item name localization (e.g. "en", "he")',
+      'Language code for catalog item name localization (e.g. "en", "he"). Defaults to the language chosen in settings.',
   })
   @ApiResponse({
     status: 200,
@@ -137,10 +162,14 @@ export class ShoppingListsController {
       throw new BadRequestException('User must belong to a household');
     }
 
-    return this.shoppingService.getShoppingData(user.householdId, lang);
+    return this.shoppingService.getShoppingData(
+      user.householdId,
+      await this.resolveLanguage(user.userId, lang),
+    );
   }
 
   @Post()
+  @RequirePermission(PERMISSIONS.SHOPPING_MANAGE_LISTS)
   async createList(
     @CurrentUser() user: CurrentUserPayload,
     @Body() dto: CreateListDto,
@@ -154,7 +183,11 @@ export class ShoppingListsController {
       householdId: user.householdId,
     });
 
-    const result = await this.shoppingService.createList(user.householdId, dto);
+    const result = await this.shoppingService.createList(
+      user.householdId,
+      dto,
+      user.userId,
+    );
     this.logger.debug('Shopping list created successfully', {
       userId: user.userId,
       listId: result.id,
@@ -171,10 +204,15 @@ export class ShoppingListsController {
     if (!user.householdId) {
       throw new BadRequestException('User must belong to a household');
     }
-    return this.shoppingService.getListDetails(listId, user.householdId, lang);
+    return this.shoppingService.getListDetails(
+      listId,
+      user.householdId,
+      await this.resolveLanguage(user.userId, lang),
+    );
   }
 
   @Patch(':id')
+  @RequirePermission(PERMISSIONS.SHOPPING_MANAGE_LISTS)
   async updateList(
     @CurrentUser() user: CurrentUserPayload,
     @Param('id') listId: string,
@@ -183,10 +221,16 @@ export class ShoppingListsController {
     if (!user.householdId) {
       throw new BadRequestException('User must belong to a household');
     }
-    return this.shoppingService.updateList(listId, user.householdId, dto);
+    return this.shoppingService.updateList(
+      listId,
+      user.householdId,
+      dto,
+      user.userId,
+    );
   }
 
   @Delete(':id')
+  @RequirePermission(PERMISSIONS.SHOPPING_MANAGE_LISTS)
   async deleteList(
     @CurrentUser() user: CurrentUserPayload,
     @Param('id') listId: string,
@@ -197,7 +241,25 @@ export class ShoppingListsController {
     await this.shoppingService.deleteList(listId, user.householdId);
   }
 
+  @Post(':id/restore')
+  @RequirePermission(PERMISSIONS.SHOPPING_MANAGE_LISTS)
+  async restoreList(
+    @CurrentUser() user: CurrentUserPayload,
+    @Param('id') listId: string,
+  ) {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    await this.shoppingService.restoreList(
+      listId,
+      user.householdId,
+      user.userId,
+    );
+    return { success: true };
+  }
+
   @Post(':id/items')
+  @RequirePermission(PERMISSIONS.SHOPPING_EDIT_ITEMS)
   async addItems(
     @CurrentUser() user: CurrentUserPayload,
     @Param('id') listId: string,
@@ -206,7 +268,12 @@ export class ShoppingListsController {
     if (!user.householdId) {
       throw new BadRequestException('User must belong to a household');
     }
-    return this.shoppingService.addItems(listId, user.householdId, dto);
+    return this.shoppingService.addItems(
+      listId,
+      user.householdId,
+      dto,
+      user.userId,
+    );
   }
 }
 
@@ -216,7 +283,7 @@ export class ShoppingListsController {
  * All endpoints require authentication and household membership.
  */
 @Controller({ path: 'shopping-items', version: '1' })
-@UseGuards(JwtAuthGuard, HouseholdGuard)
+@UseGuards(JwtAuthGuard, HouseholdGuard, PermissionGuard)
 export class ShoppingItemsController {
   private readonly logger = new Logger(ShoppingItemsController.name);
 
@@ -231,6 +298,7 @@ export class ShoppingItemsController {
   }
 
   @Patch(':id')
+  @RequirePermission(PERMISSIONS.SHOPPING_CHECK_ITEMS)
   async updateItem(
     @CurrentUser() user: CurrentUserPayload,
     @Param('id') itemId: string,
@@ -239,10 +307,40 @@ export class ShoppingItemsController {
     if (!user.householdId) {
       throw new BadRequestException('User must belong to a household');
     }
-    return this.shoppingService.updateItem(itemId, user.householdId, dto);
+    // Checking off and claiming for yourself are open to every role;
+    // changing the quantity or claiming for someone else is an edit
+    const canEditItems = hasPermission(
+      user.role,
+      PERMISSIONS.SHOPPING_EDIT_ITEMS,
+    );
+    if (dto.quantity !== undefined && !canEditItems) {
+      throw new ForbiddenException(
+        'Your household role does not allow editing items',
+      );
+    }
+    if (dto.claimedById && dto.claimedById !== user.userId && !canEditItems) {
+      throw new ForbiddenException(
+        'Your household role only allows claiming items for yourself',
+      );
+    }
+    if (
+      dto.moveToPantry &&
+      !hasPermission(user.role, PERMISSIONS.PANTRY_EDIT)
+    ) {
+      throw new ForbiddenException(
+        'Your household role does not allow editing the pantry',
+      );
+    }
+    return this.shoppingService.updateItem(
+      itemId,
+      user.householdId,
+      dto,
+      user.userId,
+    );
   }
 
   @Delete(':id')
+  @RequirePermission(PERMISSIONS.SHOPPING_EDIT_ITEMS)
   async deleteItem(
     @CurrentUser() user: CurrentUserPayload,
     @Param('id') itemId: string,
@@ -265,4 +363,21 @@ export class ShoppingItemsController {
     this.logger.log(`Item ${itemId} deleted successfully`);
     return { success: true };
   }
+
+  @Post(':id/restore')
+  @RequirePermission(PERMISSIONS.SHOPPING_EDIT_ITEMS)
+  async restoreItem(
+    @CurrentUser() user: CurrentUserPayload,
+    @Param('id') itemId: string,
+  ) {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    await this.shoppingService.restoreItem(
+      itemId,
+      user.householdId,
+      user.userId,
+    );
+    return { success: true };
+  }
 }
@@ -18,6 +18,11 @@ export class ShoppingItemDto {
   isChecked: boolean;
   category?: string;
   image?: string;
+  claimedById?: string;
+  claimedByName?: string;
+  checkedById?: string;
+  checkedByName?: string;
+  checkedAt?: Date;
 }
 
 export class ShoppingListDetailDto {
@@ -36,3 +41,26 @@ export class ShoppingDataDto {
   lists: ShoppingListSummaryDto[];
   items: ShoppingDataItemDto[];
 }
+
+/**
+ * A list in a sync delta. Deleted lists are sent as tombstones with
+ * deletedAt set.
+ */
+export class ShoppingListChangeDto extends ShoppingListSummaryDto {
+  deletedAt: Date | null;
+}
+
+/**
+ * An item in a sync delta. Deleted items are sent as tombstones with
+ * deletedAt set.
+ */
+export class ShoppingItemChangeDto extends ShoppingDataItemDto {
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt: Date | null;
+}
+
+export class ShoppingChangesDto {
+  lists: ShoppingListChangeDto[];
+  items: ShoppingItemChangeDto[];
+}
@@ -1,4 +1,15 @@
-import { IsOptional, IsBoolean, IsNumber } from 'class-validator';
+import {
+  IsOptional,
+  IsBoolean,
+  IsNumber,
+  IsIn,
+  IsDateString,
+  IsUUID,
+} from 'class-validator';
+import {
+  PANTRY_LOCATIONS,
+  PantryLocation,
+} from '../../pantry/constants/pantry.constants';
 
 export class UpdateItemDto {
   @IsBoolean()
@@ -8,4 +19,22 @@ export class UpdateItemDto {
   @IsNumber()
   @IsOptional()
   quantity?: number;
+
+  /** Member who is buying the item; null releases the claim. */
+  @IsUUID()
+  @IsOptional()
+  claimedById?: string | null;
+
+  /** When checking the item off, also stock it in the pantry. */
+  @IsBoolean()
+  @IsOptional()
+  moveToPantry?: boolean;
+
+  @IsIn(PANTRY_LOCATIONS)
+  @IsOptional()
+  pantryLocation?: PantryLocation;
+
+  @IsDateString()
+  @IsOptional()
+  pantryExpiresAt?: string;
 }
@@ -3,6 +3,17 @@ import { PrismaService } from '../../../infrastructure/database/prisma/prisma.se
 import { ShoppingList, ShoppingItem, CustomItem } from '@prisma/client';
 import { ACTIVE_RECORDS_FILTER } from '../../../infrastructure/database/filters/soft-delete.filter';
 
+/** Loads the names of the members who claimed and checked off an item. */
+export const ITEM_PEOPLE_INCLUDE = {
+  claimedBy: { select: { name: true } },
+  checkedBy: { select: { name: true } },
+} as const;
+
+export type ShoppingItemWithPeople = ShoppingItem & {
+  claimedBy?: { name: string } | null;
+  checkedBy?: { name: string } | null;
+};
+
 @Injectable()
 export class ShoppingRepository {
   private readonly logger = new Logger(ShoppingRepository.name);
@@ -28,9 +39,23 @@ export class ShoppingRepository {
     });
   }
 
+  /**
+   * Finds a shopping list that is in the trash (soft-deleted).
+   *
+   * @param id - Shopping list ID
+   */
+  async findDeletedListById(id: string): Promise<ShoppingList | null> {
+    return this.prisma.shoppingList.findFirst({
+      where: {
+        id,
+        deletedAt: { not: null },
+      },
+    });
+  }
+
   async findListWithItems(id: string): Promise<
     ShoppingList & {
-      items: ShoppingItem[];
+      items: ShoppingItemWithPeople[];
     }
   > {
     return this.prisma.shoppingList.findUnique({
@@ -38,6 +63,7 @@ export class ShoppingRepository {
       include: {
         items: {
           where: ACTIVE_RECORDS_FILTER,
+          include: ITEM_PEOPLE_INCLUDE,
           orderBy: { createdAt: 'asc' },
         },
       },
@@ -105,15 +131,16 @@ export class ShoppingRepository {
    * Restores a soft-deleted shopping list.
    *
    * @param id - Shopping list ID to restore
+   * @returns The restored list
    */
-  async restoreList(id: string): Promise<void> {
+  async restoreList(id: string): Promise<ShoppingList> {
     this.logger.log('Restoring shopping list', {
       action: 'RESTORE_LIST',
       entityType: 'SHOPPING_LIST',
       entityId: id,
       timestamp: new Date().toISOString(),
     });
-    await this.prisma.shoppingList.update({
+    return this.prisma.shoppingList.update({
       where: { id },
       data: { deletedAt: null },
     });
@@ -195,14 +222,32 @@ export class ShoppingRepository {
 
   async updateItem(
     id: string,
-    data: { quantity?: number; isChecked?: boolean },
-  ): Promise<ShoppingItem> {
+    data: {
+      quantity?: number;
+      isChecked?: boolean;
+      claimedById?: string | null;
+      checkedById?: string | null;
+      checkedAt?: Date | null;
+    },
+  ): Promise<ShoppingItemWithPeople> {
     return this.prisma.shoppingItem.update({
       where: { id },
       data,
+      include: ITEM_PEOPLE_INCLUDE,
     });
   }
 
+  async isHouseholdMember(
+    userId: string,
+    householdId: string,
+  ): Promise<boolean> {
+    const membership = await this.prisma.householdMembership.findUnique({
+      where: { userId_householdId: { userId, householdId } },
+      select: { id: true },
+    });
+    return membership !== null;
+  }
+
   /**
    * Soft-deletes a shopping item by setting deletedAt timestamp.
    *
@@ -225,17 +270,19 @@ export class ShoppingRepository {
    * Restores a soft-deleted shopping item.
    *
    * @param id - Shopping item ID to restore
+   * @returns The restored item
    */
-  async restoreItem(id: string): Promise<void> {
+  async restoreItem(id: string): Promise<ShoppingItemWithPeople> {
     this.logger.log('Restoring shopping item', {
       action: 'RESTORE_ITEM',
       entityType: 'SHOPPING_ITEM',
       entityId: id,
       timestamp: new Date().toISOString(),
     });
-    await this.prisma.shoppingItem.update({
+    return this.prisma.shoppingItem.update({
       where: { id },
       data: { deletedAt: null },
+      include: ITEM_PEOPLE_INCLUDE,
     });
   }
 
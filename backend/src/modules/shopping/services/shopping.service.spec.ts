@@ -3,6 +3,10 @@ import { ShoppingService } from './shopping.service';
 import { ShoppingRepository } from '../repositories/shopping.repository';
 import { PrismaService } from '../../../infrastructure/database/prisma/prisma.service';
 import { MemoryCacheService } from '../../../infrastructure/cache';
+import { NotificationsService } from '../../notifications/services/notifications.service';
+import { PantryService } from '../../pantry/services/pantry.service';
+import { AuditService } from '../../audit/services/audit.service';
+import { RealtimeService } from '../../realtime/services/realtime.service';
 import {
   NotFoundException,
   ForbiddenException,
@@ -19,6 +23,10 @@ describe('ShoppingService - Soft-Delete Behavior', () => {
   let repository: ShoppingRepository;
   let prisma: PrismaService;
   let cache: MemoryCacheService;
+  let notifications: NotificationsService;
+  let pantry: PantryService;
+  let audit: { logActivity: jest.Mock; logRestoreList: jest.Mock };
+  let realtime: { publish: jest.Mock };
 
   const mockHouseholdId = 'household-123';
   const mockListId = 'list-123';
@@ -34,8 +42,12 @@ describe('ShoppingService - Soft-Delete Behavior', () => {
             findListById: jest.fn(),
             findListWithItems: jest.fn(),
             findItemById: jest.fn(),
+            isHouseholdMember: jest.fn(),
             deleteList: jest.fn(),
             deleteItem: jest.fn(),
+            findDeletedListById: jest.fn(),
+            restoreList: jest.fn(),
+            restoreItem: jest.fn(),
             createList: jest.fn(),
             createItem: jest.fn(),
             updateItem: jest.fn(),
@@ -52,6 +64,9 @@ describe('ShoppingService - Soft-Delete Behavior', () => {
               findUnique: jest.fn(),
               findFirst: jest.fn(),
             },
+            shoppingItem: {
+              findMany: jest.fn(),
+            },
             masterGroceryCatalog: {
               findMany: jest.fn(),
               findUnique: jest.fn(),
@@ -69,6 +84,26 @@ describe('ShoppingService - Soft-Delete Behavior', () => {
             invalidateByPrefix: jest.fn(),
           },
         },
+        {
+          provide: NotificationsService,
+          useValue: {
+            notifyMainListItemsAdded: jest.fn().mockResolvedValue(undefined),
+          },
+        },
+        {
+          provide: PantryService,
+          useValue: {
+            addFromShoppingItem: jest.fn(),
+          },
+        },
+        {
+          provide: AuditService,
+          useValue: { logActivity: jest.fn(), logRestoreList: jest.fn() },
+        },
+        {
+          provide: RealtimeService,
+          useValue: { publish: jest.fn() },
+        },
       ],
     }).compile();
 
@@ -76,6 +111,10 @@ describe('ShoppingService - Soft-Delete Behavior', () => {
     repository = module.get<ShoppingRepository>(ShoppingRepository);
     prisma = module.get<PrismaService>(PrismaService);
     cache = module.get<MemoryCacheService>(MemoryCacheService);
+    notifications = module.get<NotificationsService>(NotificationsService);
+    pantry = module.get<PantryService>(PantryService);
+    audit = module.get(AuditService);
+    realtime = module.get(RealtimeService);
   });
 
   describe('deleteList', () => {
@@ -99,6 +138,12 @@ describe('ShoppingService - Soft-Delete Behavior', () => {
 
       expect(repository.findListById).toHaveBeenCalledWith(mockListId);
       expect(repository.deleteList).toHaveBeenCalledWith(mockListId);
+      expect(realtime.publish).toHaveBeenCalledWith(mockHouseholdId, {
+        table: 'shopping_lists',
+        eventType: 'DELETE',
+        new: null,
+        old: { id: mockListId },
+      });
     });
 
     it('should throw NotFoundException if list does not exist', async () => {
@@ -152,6 +197,307 @@ describe('ShoppingService - Soft-Delete Behavior', () => {
     });
   });
 
+  describe('addItems', () => {
+    const addedItem = {
+      id: mockItemId,
+      catalogItemId: null,
+      name: 'Milk',
+      quantity: 1,
+      unit: null,
+      isChecked: false,
+      category: 'Dairy',
+      image: null,
+      claimedById: null,
+      checkedById: null,
+      checkedAt: null,
+    };
+
+    beforeEach(() => {
+      jest
+        .spyOn(service, 'createItemFromInput')
+        .mockResolvedValue(addedItem as any);
+    });
+
+    it('notifies the household when items are added to the main list', async () => {
+      jest.spyOn(repository, 'findListById').mockResolvedValue({
+        id: mockListId,
+        householdId: mockHouseholdId,
+        isMain: true,
+      } as any);
+
+      await service.addItems(
+        mockListId,
+        mockHouseholdId,
+        { items: [{ name: 'Milk' }] },
+        'user-1',
+      );
+
+      expect(notifications.notifyMainListItemsAdded).toHaveBeenCalledWith(
+        mockHouseholdId,
+        'user-1',
+        mockListId,
+        ['Milk'],
+      );
+    });
+
+    it('does not notify for other lists', async () => {
+      jest.spyOn(repository, 'findListById').mockResolvedValue({
+        id: mockListId,
+        householdId: mockHouseholdId,
+        isMain: false,
+      } as any);
+
+      await service.addItems(
+        mockListId,
+        mockHouseholdId,
+        { items: [{ name: 'Milk' }] },
+        'user-1',
+      );
+
+      expect(notifications.notifyMainListItemsAdded).not.toHaveBeenCalled();
+    });
+
+    it('records the added items in the household activity feed', async () => {
+      jest.spyOn(repository, 'findListById').mockResolvedValue({
+        id: mockListId,
+        householdId: mockHouseholdId,
+        name: 'Groceries',
+        isMain: false,
+      } as any);
+
+      await service.addItems(
+        mockListId,
+        mockHouseholdId,
+        { items: [{ name: 'Milk' }] },
+        'user-1',
+      );
+
+      expect(audit.logActivity).toHaveBeenCalledWith(
+        'user-1',
+        mockHouseholdId,
+        {
+          action: 'ADD_LIST_ITEMS',
+          entityType: 'SHOPPING_LIST',
+          entityId: mockListId,
+          metadata: { name: 'Groceries', items: ['Milk'], count: 1 },
+        },
+      );
+    });
+  });
+
+  describe('updateItem', () => {
+    const mockItem = {
+      id: mockItemId,
+      listId: mockListId,
+      catalogItemId: 'catalog-milk',
+      customItemId: null,
+      name: 'Milk',
+      quantity: 2,
+      unit: 'l',
+      isChecked: false,
+      category: 'dairy',
+      image: null,
+      claimedById: null,
+      checkedById: null,
+      checkedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      deletedAt: null,
+    };
+
+    beforeEach(() => {
+      (repository.findListById as jest.Mock).mockResolvedValue({
+        id: mockListId,
+        householdId: mockHouseholdId,
+      });
+      (repository.updateItem as jest.Mock).mockImplementation((_id, data) => ({
+        ...mockItem,
+        ...data,
+      }));
+    });
+
+    it('stocks the item in the pantry when checked off with moveToPantry', async () => {
+      (repository.findItemById as jest.Mock).mockResolvedValue(mockItem);
+      const pantryItem = { id: 'pantry-1', name: 'Milk', location: 'fridge' };
+      (pantry.addFromShoppingItem as jest.Mock).mockResolvedValue(pantryItem);
+
+      const result = await service.updateItem(
+        mockItemId,
+        mockHouseholdId,
+        {
+          isChecked: true,
+          moveToPantry: true,
+          pantryLocation: 'fridge',
+          pantryExpiresAt: '2026-03-20',
+        },
+        'user-1',
+      );
+
+      expect(repository.updateItem).toHaveBeenCalledWith(mockItemId, {
+        isChecked: true,
+        checkedById: 'user-1',
+        checkedAt: expect.any(Date),
+      });
+      expect(pantry.addFromShoppingItem).toHaveBeenCalledWith(
+        mockHouseholdId,
+        expect.objectContaining({ catalogItemId: 'catalog-milk', quantity: 2 }),
+        { location: 'fridge', expiresAt: '2026-03-20' },
+      );
+      expect(result.pantryItem).toEqual(pantryItem);
+      expect(result.updatedItem.isChecked).toBe(true);
+    });
+
+    it('does not stock an item that was already checked', async () => {
+      (repository.findItemById as jest.Mock).mockResolvedValue({
+        ...mockItem,
+        isChecked: true,
+      });
+
+      const result = await service.updateItem(
+        mockItemId,
+        mockHouseholdId,
+        {
+          isChecked: true,
+          moveToPantry: true,
+        },
+        'user-1',
+      );
+
+      expect(pantry.addFromShoppingItem).not.toHaveBeenCalled();
+      expect(result.pantryItem).toBeUndefined();
+    });
+
+    it('does not stock the item without moveToPantry', async () => {
+      (repository.findItemById as jest.Mock).mockResolvedValue(mockItem);
+
+      await service.updateItem(
+        mockItemId,
+        mockHouseholdId,
+        {
+          isChecked: true,
+        },
+        'user-1',
+      );
+
+      expect(pantry.addFromShoppingItem).not.toHaveBeenCalled();
+    });
+
+    it('clears who checked the item when it is unchecked', async () => {
+      (repository.findItemById as jest.Mock).mockResolvedValue({
+        ...mockItem,
+        isChecked: true,
+        checkedById: 'user-2',
+        checkedAt: new Date(),
+      });
+
+      const result = await service.updateItem(
+        mockItemId,
+        mockHouseholdId,
+        { isChecked: false },
+        'user-1',
+      );
+
+      expect(repository.updateItem).toHaveBeenCalledWith(mockItemId, {
+        isChecked: false,
+        checkedById: null,
+        checkedAt: null,
+      });
+      expect(result.updatedItem.checkedById).toBeUndefined();
+    });
+
+    it('claims the item for a household member', async () => {
+      (repository.findItemById as jest.Mock).mockResolvedValue(mockItem);
+      (repository.isHouseholdMember as jest.Mock).mockResolvedValue(true);
+
+      const result = await service.updateItem(
+        mockItemId,
+        mockHouseholdId,
+        { claimedById: 'user-2' },
+        'user-1',
+      );
+
+      expect(repository.isHouseholdMember).toHaveBeenCalledWith(
+        'user-2',
+        mockHouseholdId,
+      );
+      expect(repository.updateItem).toHaveBeenCalledWith(mockItemId, {
+        claimedById: 'user-2',
+      });
+      expect(result.updatedItem.claimedById).toBe('user-2');
+      expect(realtime.publish).toHaveBeenCalledWith(mockHouseholdId, {
+        table: 'shopping_items',
+        eventType: 'UPDATE',
+        new: expect.objectContaining({
+          id: mockItemId,
+          list_id: mockListId,
+          claimed_by_id: 'user-2',
+        }),
+        old: null,
+      });
+    });
+
+    it('releases a claim without a membership check', async () => {
+      (repository.findItemById as jest.Mock).mockResolvedValue({
+        ...mockItem,
+        claimedById: 'user-2',
+      });
+
+      await service.updateItem(
+        mockItemId,
+        mockHouseholdId,
+        { claimedById: null },
+        'user-1',
+      );
+
+      expect(repository.isHouseholdMember).not.toHaveBeenCalled();
+      expect(repository.updateItem).toHaveBeenCalledWith(mockItemId, {
+        claimedById: null,
+      });
+    });
+
+    it('rejects a claim for someone outside the household', async () => {
+      (repository.findItemById as jest.Mock).mockResolvedValue(mockItem);
+      (repository.isHouseholdMember as jest.Mock).mockResolvedValue(false);
+
+      await expect(
+        service.updateItem(
+          mockItemId,
+          mockHouseholdId,
+          { claimedById: 'stranger' },
+          'user-1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(repository.updateItem).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      [false, { isChecked: true }, 'CHECK_LIST_ITEM'],
+      [true, { isChecked: false }, 'UNCHECK_LIST_ITEM'],
+      [true, { isChecked: true }, 'UPDATE_LIST_ITEM'],
+      [false, { quantity: 3 }, 'UPDATE_LIST_ITEM'],
+    ])(
+      'records an item that was checked=%p and updated with %p as %s',
+      async (wasChecked, dto, action) => {
+        (repository.findItemById as jest.Mock).mockResolvedValue({
+          ...mockItem,
+          isChecked: wasChecked,
+        });
+
+        await service.updateItem(mockItemId, mockHouseholdId, dto, 'user-1');
+
+        expect(audit.logActivity).toHaveBeenCalledWith(
+          'user-1',
+          mockHouseholdId,
+          expect.objectContaining({
+            action,
+            entityType: 'SHOPPING_ITEM',
+            entityId: mockItemId,
+          }),
+        );
+      },
+    );
+  });
+
   describe('deleteItem', () => {
     it('should soft-delete a shopping item', async () => {
       const mockItem = {
@@ -165,6 +511,9 @@ describe('ShoppingService - Soft-Delete Behavior', () => {
         isChecked: false,
         category: null,
         image: null,
+        claimedById: null,
+        checkedById: null,
+        checkedAt: null,
         createdAt: new Date(),
         updatedAt: new Date(),
         deletedAt: null,
@@ -213,6 +562,9 @@ describe('ShoppingService - Soft-Delete Behavior', () => {
         isChecked: false,
         category: null,
         image: null,
+        claimedById: null,
+        checkedById: null,
+        checkedAt: null,
         createdAt: new Date(),
         updatedAt: new Date(),
         deletedAt: null,
@@ -239,6 +591,154 @@ describe('ShoppingService - Soft-Delete Behavior', () => {
     });
   });
 
+  describe('restoreList', () => {
+    const deletedList = {
+      id: mockListId,
+      householdId: mockHouseholdId,
+      name: 'Party',
+      color: null,
+      icon: null,
+      isMain: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      deletedAt: new Date(),
+    };
+
+    it('restores a list from the trash and records it', async () => {
+      jest
+        .spyOn(repository, 'findDeletedListById')
+        .mockResolvedValue(deletedList);
+      jest
+        .spyOn(repository, 'restoreList')
+        .mockResolvedValue({ ...deletedList, deletedAt: null });
+
+      await service.restoreList(mockListId, mockHouseholdId, 'user-1');
+
+      expect(repository.restoreList).toHaveBeenCalledWith(mockListId);
+      expect(realtime.publish).toHaveBeenCalledWith(
+        mockHouseholdId,
+        expect.objectContaining({
+          table: 'shopping_lists',
+          eventType: 'INSERT',
+          new: expect.objectContaining({ id: mockListId, deleted_at: null }),
+        }),
+      );
+      expect(audit.logRestoreList).toHaveBeenCalledWith(
+        'user-1',
+        mockHouseholdId,
+        mockListId,
+        'Party',
+      );
+    });
+
+    it('throws NotFoundException if the list is not in the trash', async () => {
+      jest.spyOn(repository, 'findDeletedListById').mockResolvedValue(null);
+
+      await expect(
+        service.restoreList(mockListId, mockHouseholdId, 'user-1'),
+      ).rejects.toThrow(NotFoundException);
+      expect(repository.restoreList).not.toHaveBeenCalled();
+    });
+
+    it('throws ForbiddenException for another household', async () => {
+      jest
+        .spyOn(repository, 'findDeletedListById')
+        .mockResolvedValue({ ...deletedList, householdId: 'other' });
+
+      await expect(
+        service.restoreList(mockListId, mockHouseholdId, 'user-1'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(repository.restoreList).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restoreItem', () => {
+    const deletedItem = {
+      id: mockItemId,
+      listId: mockListId,
+      catalogItemId: null,
+      customItemId: null,
+      name: 'Milk',
+      quantity: 1,
+      unit: null,
+      isChecked: false,
+      category: null,
+      image: null,
+      claimedById: null,
+      checkedById: null,
+      checkedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      deletedAt: new Date(),
+    };
+    const list = {
+      id: mockListId,
+      householdId: mockHouseholdId,
+      name: 'Groceries',
+      deletedAt: null,
+    };
+
+    it('restores an item and records it in the activity feed', async () => {
+      jest.spyOn(repository, 'findItemById').mockResolvedValue(deletedItem);
+      jest
+        .spyOn(repository, 'restoreItem')
+        .mockResolvedValue({ ...deletedItem, deletedAt: null });
+      (prisma.shoppingList.findUnique as jest.Mock).mockResolvedValue(list);
+
+      await service.restoreItem(mockItemId, mockHouseholdId, 'user-1');
+
+      expect(repository.restoreItem).toHaveBeenCalledWith(mockItemId);
+      expect(audit.logActivity).toHaveBeenCalledWith(
+        'user-1',
+        mockHouseholdId,
+        expect.objectContaining({
+          action: 'RESTORE_LIST_ITEM',
+          entityId: mockItemId,
+          metadata: {
+            name: 'Milk',
+            listId: mockListId,
+            listName: 'Groceries',
+          },
+        }),
+      );
+    });
+
+    it('throws NotFoundException if the item is not deleted', async () => {
+      jest
+        .spyOn(repository, 'findItemById')
+        .mockResolvedValue({ ...deletedItem, deletedAt: null });
+
+      await expect(
+        service.restoreItem(mockItemId, mockHouseholdId, 'user-1'),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('throws ForbiddenException for another household', async () => {
+      jest.spyOn(repository, 'findItemById').mockResolvedValue(deletedItem);
+      (prisma.shoppingList.findUnique as jest.Mock).mockResolvedValue({
+        ...list,
+        householdId: 'other',
+      });
+
+      await expect(
+        service.restoreItem(mockItemId, mockHouseholdId, 'user-1'),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('requires the list to be restored first', async () => {
+      jest.spyOn(repository, 'findItemById').mockResolvedValue(deletedItem);
+      (prisma.shoppingList.findUnique as jest.Mock).mockResolvedValue({
+        ...list,
+        deletedAt: new Date(),
+      });
+
+      await expect(
+        service.restoreItem(mockItemId, mockHouseholdId, 'user-1'),
+      ).rejects.toThrow(BadRequestException);
+      expect(repository.restoreItem).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getLists', () => {
     it('should return only active shopping lists (exclude soft-deleted)', async () => {
       const mockLists = [
@@ -281,6 +781,78 @@ describe('ShoppingService - Soft-Delete Behavior', () => {
     });
   });
 
+  describe('getShoppingChanges', () => {
+    it('should return changed lists and items, including deleted ones', async () => {
+      const since = new Date('2026-03-14T10:00:00Z');
+      const updatedAt = new Date('2026-03-14T11:00:00Z');
+      jest.spyOn(prisma.shoppingList, 'findMany').mockResolvedValue([
+        {
+          id: 'list-1',
+          name: 'Groceries',
+          color: null,
+          icon: null,
+          isMain: true,
+          householdId: mockHouseholdId,
+          createdAt: updatedAt,
+          updatedAt,
+          deletedAt: null,
+          _count: { items: 1 },
+        },
+      ] as any);
+      jest.spyOn(prisma.shoppingItem, 'findMany').mockResolvedValue([
+        {
+          id: 'item-1',
+          listId: 'list-1',
+          catalogItemId: null,
+          name: 'Milk',
+          quantity: 1,
+          unit: null,
+          isChecked: false,
+          category: null,
+          image: null,
+          claimedById: null,
+          checkedById: null,
+          checkedAt: null,
+          createdAt: updatedAt,
+          updatedAt,
+          deletedAt: updatedAt,
+        },
+      ] as any);
+
+      const result = await service.getShoppingChanges(mockHouseholdId, since);
+
+      const changed = { updatedAt: { gte: since } };
+      expect(prisma.shoppingList.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            householdId: mockHouseholdId,
+            OR: [changed, { items: { some: changed } }],
+          },
+        }),
+      );
+      expect(prisma.shoppingItem.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { ...changed, list: { householdId: mockHouseholdId } },
+        }),
+      );
+      expect(result.lists[0]).toEqual(
+        expect.objectContaining({
+          id: 'list-1',
+          itemCount: 1,
+          deletedAt: null,
+        }),
+      );
+      expect(result.items[0]).toEqual(
+        expect.objectContaining({
+          id: 'item-1',
+          listId: 'list-1',
+          name: 'Milk',
+          deletedAt: updatedAt,
+        }),
+      );
+    });
+  });
+
   describe('getListDetails', () => {
     it('should return only active items in list details', async () => {
       const mockList = {
@@ -305,6 +877,9 @@ describe('ShoppingService - Soft-Delete Behavior', () => {
             isChecked: false,
             category: null,
             image: null,
+            claimedById: null,
+            checkedById: null,
+            checkedAt: null,
             createdAt: new Date(),
             updatedAt: new Date(),
             deletedAt: null,
@@ -345,6 +920,9 @@ describe('ShoppingService - Soft-Delete Behavior', () => {
             isChecked: false,
             category: null,
             image: null,
+            claimedById: null,
+            checkedById: null,
+            checkedAt: null,
             createdAt: new Date(),
             updatedAt: new Date(),
             deletedAt: null,
@@ -398,6 +976,9 @@ describe('ShoppingService - Soft-Delete Behavior', () => {
             isChecked: false,
             category: null,
             image: null,
+            claimedById: null,
+            checkedById: null,
+            checkedAt: null,
             createdAt: new Date(),
             updatedAt: new Date(),
             deletedAt: null,
@@ -413,6 +994,9 @@ describe('ShoppingService - Soft-Delete Behavior', () => {
             isChecked: false,
             category: null,
             image: null,
+            claimedById: null,
+            checkedById: null,
+            checkedAt: null,
             createdAt: new Date(),
             updatedAt: new Date(),
             deletedAt: null,
@@ -5,7 +5,12 @@ import {
   Logger,
   BadRequestException,
 } from '@nestjs/common';
-import { ShoppingRepository } from '../repositories/shopping.repository';
+import { ShoppingList } from '@prisma/client';
+import {
+  ShoppingRepository,
+  ShoppingItemWithPeople,
+  ITEM_PEOPLE_INCLUDE,
+} from '../repositories/shopping.repository';
 import { PrismaService } from '../../../infrastructure/database/prisma/prisma.service';
 import { ACTIVE_RECORDS_FILTER } from '../../../infrastructure/database/filters/soft-delete.filter';
 import {
@@ -19,9 +24,27 @@ import {
   UpdateItemDto,
   UpdateListDto,
   ShoppingItemDto,
+  ShoppingChangesDto,
 } from '../dtos';
 import { readCatalogIconsBaseUrlFromEnv } from '../../../config/configuration';
 import { MemoryCacheService } from '../../../infrastructure/cache';
+import { NotificationsService } from '../../notifications/services/notifications.service';
+import { PantryService } from '../../pantry/services/pantry.service';
+import { PantryItemDto } from '../../pantry/dtos';
+import { AuditService } from '../../audit/services/audit.service';
+import {
+  AUDIT_ACTIONS,
+  AuditAction,
+} from '../../audit/constants/audit-actions';
+import { ENTITY_TYPES } from '../../audit/constants/entity-types';
+import { MAX_ACTIVITY_ITEM_NAMES } from '../../audit/constants/audit-defaults';
+import { RealtimeService } from '../../realtime/services/realtime.service';
+import {
+  REALTIME_TABLES,
+  RealtimeEventType,
+  RealtimeTable,
+} from '../../realtime/constants/realtime.constants';
+import { toShoppingItemRow, toShoppingListRow } from '../utils/realtime-rows';
 
 interface CatalogSearchRow {
   catalog_id: string;
@@ -40,6 +63,10 @@ interface CatalogSearchRow {
  * - Shopping list CRUD operations
  * - Shopping item management
  * - Grocery search and category retrieval
+ * - Notifying members about items added to the main list
+ * - Stocking checked-off items in the pantry
+ * - Recording changes in the household activity feed
+ * - Pushing list and item changes to connected household members
  */
 @Injectable()
 export class ShoppingService {
@@ -52,6 +79,10 @@ export class ShoppingService {
     private shoppingRepository: ShoppingRepository,
     private prisma: PrismaService,
     private cache: MemoryCacheService,
+    private notificationsService: NotificationsService,
+    private pantryService: PantryService,
+    private auditService: AuditService,
+    private realtimeService: RealtimeService,
   ) {}
 
   /**
@@ -474,6 +505,7 @@ export class ShoppingService {
       include: {
         items: {
           where: ACTIVE_RECORDS_FILTER,
+          include: ITEM_PEOPLE_INCLUDE,
           orderBy: { createdAt: 'asc' },
         },
         _count: {
@@ -529,29 +561,96 @@ export class ShoppingService {
 
         return {
           listId: item.listId,
-          id: item.id,
-          catalogItemId: item.catalogItemId ?? undefined,
-          name: displayName ?? item.name,
-          quantity: item.quantity,
-          unit: item.unit,
-          isChecked: item.isChecked,
-          category: item.category,
-          image: item.image ?? undefined,
+          ...this.toItemDto(item, displayName),
         };
       }),
     };
   }
 
+  /**
+   * Gets lists and items changed since a point in time, for delta sync.
+   * Without a point in time, returns every active list and item.
+   *
+   * A list is included when any of its items changed, so its item count
+   * stays current.
+   *
+   * @param householdId - The household ID
+   * @param since - Earliest updatedAt to include, or null for everything active
+   * @returns Changed lists and items, including deleted ones as tombstones
+   */
+  async getShoppingChanges(
+    householdId: string,
+    since: Date | null,
+  ): Promise<ShoppingChangesDto> {
+    const changed = since
+      ? { updatedAt: { gte: since } }
+      : ACTIVE_RECORDS_FILTER;
+
+    const [lists, items] = await Promise.all([
+      this.prisma.shoppingList.findMany({
+        where: {
+          householdId,
+          ...(since
+            ? { OR: [changed, { items: { some: changed } }] }
+            : ACTIVE_RECORDS_FILTER),
+        },
+        include: {
+          _count: {
+            select: {
+              items: {
+                where: ACTIVE_RECORDS_FILTER,
+              },
+            },
+          },
+        },
+        orderBy: { updatedAt: 'asc' },
+      }),
+      this.prisma.shoppingItem.findMany({
+        where: {
+          ...changed,
+          list: since
+            ? { householdId }
+            : { householdId, ...ACTIVE_RECORDS_FILTER },
+        },
+        include: ITEM_PEOPLE_INCLUDE,
+        orderBy: { updatedAt: 'asc' },
+      }),
+    ]);
+
+    return {
+      lists: lists.map((list) => ({
+        id: list.id,
+        name: list.name,
+        color: list.color ?? undefined,
+        icon: list.icon ?? undefined,
+        isMain: list.isMain,
+        itemCount: list._count.items,
+        createdAt: list.createdAt,
+        updatedAt: list.updatedAt,
+        deletedAt: list.deletedAt,
+      })),
+      items: items.map((item) => ({
+        listId: item.listId,
+        ...this.toItemDto(item),
+        createdAt: item.createdAt,
+        updatedAt: item.updatedAt,
+        deletedAt: item.deletedAt,
+      })),
+    };
+  }
+
   /**
    * Creates a new shopping list.
    *
    * @param householdId - The household ID
    * @param dto - List creation data
+   * @param actorUserId - Member creating the list
    * @returns Created list ID and name
    */
   async createList(
     householdId: string,
     dto: CreateListDto,
+    actorUserId: string,
   ): Promise<{ id: string; name: string }> {
     this.logger.log(`Creating shopping list for household ${householdId}`);
     this.logger.debug(`List data: ${JSON.stringify(dto, null, 2)}`);
@@ -560,6 +659,13 @@ export class ShoppingService {
 
     this.logger.log(`Shopping list created successfully with ID: ${list.id}`);
     this.logger.debug(`Created list: ${JSON.stringify(list, null, 2)}`);
+    await this.auditService.logActivity(actorUserId, householdId, {
+      action: AUDIT_ACTIONS.CREATE_LIST,
+      entityType: ENTITY_TYPES.SHOPPING_LIST,
+      entityId: list.id,
+      metadata: { name: list.name },
+    });
+    this.publishListChange(householdId, 'INSERT', list);
 
     return { id: list.id, name: list.name };
   }
@@ -610,16 +716,7 @@ export class ShoppingService {
           item.catalogItemId != null
             ? nameByCatalogId.get(item.catalogItemId)
             : undefined;
-        return {
-          id: item.id,
-          catalogItemId: item.catalogItemId ?? undefined,
-          name: displayName ?? item.name,
-          quantity: item.quantity,
-          unit: item.unit,
-          isChecked: item.isChecked,
-          category: item.category,
-          image: item.image ?? undefined,
-        };
+        return this.toItemDto(item, displayName);
       }),
     };
   }
@@ -657,6 +754,7 @@ export class ShoppingService {
    * @param listId - The shopping list ID
    * @param householdId - The household ID for authorization
    * @param dto - Update data
+   * @param actorUserId - Member updating the list
    * @returns Updated list
    * @throws NotFoundException if list doesn't exist
    * @throws ForbiddenException if user doesn't have access
@@ -665,6 +763,7 @@ export class ShoppingService {
     listId: string,
     householdId: string,
     dto: UpdateListDto,
+    actorUserId: string,
   ): Promise<ShoppingListSummaryDto> {
     const list = await this.shoppingRepository.findListById(listId);
 
@@ -683,6 +782,13 @@ export class ShoppingService {
 
     const updatedList = await this.shoppingRepository.updateList(listId, dto);
     const itemCount = await this.shoppingRepository.countActiveItems(listId);
+    await this.auditService.logActivity(actorUserId, householdId, {
+      action: AUDIT_ACTIONS.UPDATE_LIST,
+      entityType: ENTITY_TYPES.SHOPPING_LIST,
+      entityId: listId,
+      metadata: { name: updatedList.name, fields: Object.keys(dto) },
+    });
+    this.publishListChange(householdId, 'UPDATE', updatedList);
 
     return {
       id: updatedList.id,
@@ -697,11 +803,13 @@ export class ShoppingService {
   }
 
   /**
-   * Adds multiple items to a shopping list.
+   * Adds multiple items to a shopping list. Items added to the main list
+   * are announced to the other household members.
    *
    * @param listId - The shopping list ID
    * @param householdId - The household ID for authorization
    * @param dto - Items to add
+   * @param actorUserId - Member adding the items (not notified)
    * @returns Added items
    * @throws NotFoundException if list doesn't exist
    * @throws ForbiddenException if user doesn't have access
@@ -710,6 +818,7 @@ export class ShoppingService {
     listId: string,
     householdId: string,
     dto: AddItemsDto,
+    actorUserId?: string,
   ): Promise<{ addedItems: ShoppingItemDto[] }> {
     const list = await this.shoppingRepository.findListById(listId);
 
@@ -727,35 +836,65 @@ export class ShoppingService {
       ),
     );
 
+    await this.auditService.logActivity(actorUserId, householdId, {
+      action: AUDIT_ACTIONS.ADD_LIST_ITEMS,
+      entityType: ENTITY_TYPES.SHOPPING_LIST,
+      entityId: listId,
+      metadata: {
+        name: list.name,
+        items: addedItems
+          .slice(0, MAX_ACTIVITY_ITEM_NAMES)
+          .map((item) => item.name),
+        count: addedItems.length,
+      },
+    });
+    addedItems.forEach((item) =>
+      this.publishItemChange(householdId, 'INSERT', item),
+    );
+
+    if (list.isMain && actorUserId) {
+      // Delivery must not delay or fail the request
+      void this.notificationsService
+        .notifyMainListItemsAdded(
+          householdId,
+          actorUserId,
+          listId,
+          addedItems.map((item) => item.name),
+        )
+        .catch((error: Error) =>
+          this.logger.warn(
+            `Failed to notify about main list items: ${error.message}`,
+          ),
+        );
+    }
+
     return {
-      addedItems: addedItems.map((item) => ({
-        id: item.id,
-        catalogItemId: item.catalogItemId ?? undefined,
-        name: item.name,
-        quantity: item.quantity,
-        unit: item.unit,
-        isChecked: item.isChecked,
-        category: item.category,
-        image: item.image ?? undefined,
-      })),
+      addedItems: addedItems.map((item) => this.toItemDto(item)),
     };
   }
 
   /**
-   * Updates a shopping item (quantity or checked status).
+   * Updates a shopping item (quantity, claim or checked status). Checking an
+   * item off records who checked it and when; unchecking clears both.
+   * Checking an item off with `moveToPantry` also stocks it in the pantry;
+   * re-sending the flag for an item that is already checked does not stock
+   * it twice.
    *
    * @param itemId - The shopping item ID
    * @param householdId - The household ID for authorization
    * @param dto - Update data
-   * @returns Updated item
+   * @param actorUserId - Member updating the item
+   * @returns Updated item, and the pantry item when it was stocked
    * @throws NotFoundException if item doesn't exist
    * @throws ForbiddenException if user doesn't have access
+   * @throws BadRequestException if the item is claimed for a non-member
    */
   async updateItem(
     itemId: string,
     householdId: string,
     dto: UpdateItemDto,
-  ): Promise<{ updatedItem: ShoppingItemDto }> {
+    actorUserId: string,
+  ): Promise<{ updatedItem: ShoppingItemDto; pantryItem?: PantryItemDto }> {
     const item = await this.shoppingRepository.findItemById(itemId);
 
     if (!item) {
@@ -768,19 +907,50 @@ export class ShoppingService {
       throw new ForbiddenException('Access denied');
     }
 
-    const updatedItem = await this.shoppingRepository.updateItem(itemId, dto);
+    if (
+      dto.claimedById &&
+      !(await this.shoppingRepository.isHouseholdMember(
+        dto.claimedById,
+        householdId,
+      ))
+    ) {
+      throw new BadRequestException(
+        'Items can only be claimed by household members',
+      );
+    }
+
+    const { moveToPantry, pantryLocation, pantryExpiresAt, ...itemUpdate } =
+      dto;
+    const updatedItem = await this.shoppingRepository.updateItem(itemId, {
+      ...itemUpdate,
+      ...this.checkedByUpdate(item.isChecked, dto.isChecked, actorUserId),
+    });
 
-    return {
-      updatedItem: {
-        id: updatedItem.id,
-        catalogItemId: updatedItem.catalogItemId ?? undefined,
+    const pantryItem =
+      moveToPantry && dto.isChecked === true && !item.isChecked
+        ? await this.pantryService.addFromShoppingItem(
+            householdId,
+            updatedItem,
+            { location: pantryLocation, expiresAt: pantryExpiresAt },
+          )
+        : undefined;
+
+    await this.auditService.logActivity(actorUserId, householdId, {
+      action: this.itemActivityAction(item.isChecked, dto.isChecked),
+      entityType: ENTITY_TYPES.SHOPPING_ITEM,
+      entityId: itemId,
+      metadata: {
         name: updatedItem.name,
-        quantity: updatedItem.quantity,
-        unit: updatedItem.unit,
-        isChecked: updatedItem.isChecked,
-        category: updatedItem.category,
-        image: updatedItem.image ?? undefined,
+        listId: list.id,
+        listName: list.name,
+        ...(pantryItem && { movedToPantry: true }),
       },
+    });
+    this.publishItemChange(householdId, 'UPDATE', updatedItem);
+
+    return {
+      ...(pantryItem && { pantryItem }),
+      updatedItem: this.toItemDto(updatedItem),
     };
   }
 
@@ -806,6 +976,7 @@ export class ShoppingService {
     }
 
     await this.shoppingRepository.deleteItem(itemId);
+    this.publishDeletion(householdId, REALTIME_TABLES.SHOPPING_ITEMS, itemId);
   }
 
   /**
@@ -832,6 +1003,88 @@ export class ShoppingService {
     }
 
     await this.shoppingRepository.deleteList(listId);
+    this.publishDeletion(householdId, REALTIME_TABLES.SHOPPING_LISTS, listId);
+  }
+
+  /**
+   * Restores a shopping list from the trash.
+   *
+   * @param listId - The shopping list ID
+   * @param householdId - The household ID for authorization
+   * @param actorUserId - Member restoring the list, for the activity feed
+   * @throws NotFoundException if the list isn't in the trash
+   * @throws ForbiddenException if user doesn't have access
+   */
+  async restoreList(
+    listId: string,
+    householdId: string,
+    actorUserId: string,
+  ): Promise<void> {
+    const list = await this.shoppingRepository.findDeletedListById(listId);
+
+    if (!list) {
+      throw new NotFoundException('Shopping list not found in trash');
+    }
+
+    if (list.householdId !== householdId) {
+      throw new ForbiddenException('Access denied');
+    }
+
+    const restoredList = await this.shoppingRepository.restoreList(listId);
+    this.publishListChange(householdId, 'INSERT', restoredList);
+    await this.auditService.logRestoreList(
+      actorUserId,
+      householdId,
+      listId,
+      list.name,
+    );
+  }
+
+  /**
+   * Restores a shopping item from the trash. The item's list must not be in
+   * the trash itself; restore the list first.
+   *
+   * @param itemId - The shopping item ID
+   * @param householdId - The household ID for authorization
+   * @param actorUserId - Member restoring the item, for the activity feed
+   * @throws NotFoundException if the item isn't in the trash
+   * @throws ForbiddenException if user doesn't have access
+   * @throws BadRequestException if the item's list is deleted
+   */
+  async restoreItem(
+    itemId: string,
+    householdId: string,
+    actorUserId: string,
+  ): Promise<void> {
+    // findItemById doesn't filter by deletedAt, so it can find deleted items
+    const item = await this.shoppingRepository.findItemById(itemId);
+
+    if (!item || !item.deletedAt) {
+      throw new NotFoundException('Shopping item not found in trash');
+    }
+
+    const list = await this.prisma.shoppingList.findUnique({
+      where: { id: item.listId },
+    });
+
+    if (!list || list.householdId !== householdId) {
+      throw new ForbiddenException('Access denied');
+    }
+
+    if (list.deletedAt) {
+      throw new BadRequestException(
+        'Restore the shopping list before restoring its items',
+      );
+    }
+
+    const restoredItem = await this.shoppingRepository.restoreItem(itemId);
+    this.publishItemChange(householdId, 'INSERT', restoredItem);
+    await this.auditService.logActivity(actorUserId, householdId, {
+      action: AUDIT_ACTIONS.RESTORE_LIST_ITEM,
+      entityType: ENTITY_TYPES.SHOPPING_ITEM,
+      entityId: itemId,
+      metadata: { name: item.name, listId: list.id, listName: list.name },
+    });
   }
 
   /**
@@ -903,4 +1156,109 @@ export class ShoppingService {
   async getCustomItems(householdId: string) {
     return this.shoppingRepository.findCustomItems(householdId);
   }
+
+  /**
+   * Pushes a list change to household members. Public so lists written
+   * outside this service (e.g. offline sync) reach other devices live.
+   */
+  publishListChange(
+    householdId: string,
+    eventType: RealtimeEventType,
+    list: ShoppingList,
+  ): void {
+    this.realtimeService.publish(householdId, {
+      table: REALTIME_TABLES.SHOPPING_LISTS,
+      eventType,
+      new: toShoppingListRow(list),
+      old: null,
+    });
+  }
+
+  /**
+   * Pushes an item change to household members. Public so items written
+   * outside this service (e.g. cooking a recipe or offline sync) reach other
+   * devices live.
+   */
+  publishItemChange(
+    householdId: string,
+    eventType: RealtimeEventType,
+    item: ShoppingItemWithPeople,
+  ): void {
+    this.realtimeService.publish(householdId, {
+      table: REALTIME_TABLES.SHOPPING_ITEMS,
+      eventType,
+      new: toShoppingItemRow(item),
+      old: null,
+    });
+  }
+
+  /**
+   * Pushes a list or item deletion to household members.
+   */
+  publishDeletion(householdId: string, table: RealtimeTable, id: string): void {
+    this.realtimeService.publish(householdId, {
+      table,
+      eventType: 'DELETE',
+      new: null,
+      old: { id },
+    });
+  }
+
+  /**
+   * Maps an item to its response shape, with the display name resolved for
+   * the requested language when one is given.
+   */
+  private toItemDto(
+    item: ShoppingItemWithPeople,
+    displayName?: string,
+  ): ShoppingItemDto {
+    return {
+      id: item.id,
+      catalogItemId: item.catalogItemId ?? undefined,
+      name: displayName ?? item.name,
+      quantity: item.quantity,
+      unit: item.unit,
+      isChecked: item.isChecked,
+      category: item.category,
+      image: item.image ?? undefined,
+      claimedById: item.claimedById ?? undefined,
+      claimedByName: item.claimedBy?.name ?? undefined,
+      checkedById: item.checkedById ?? undefined,
+      checkedByName: item.checkedBy?.name ?? undefined,
+      checkedAt: item.checkedAt ?? undefined,
+    };
+  }
+
+  /**
+   * Records who checked an item off when it becomes checked, and clears the
+   * record when it is unchecked. Other updates leave it untouched.
+   */
+  checkedByUpdate(
+    wasChecked: boolean,
+    isChecked: boolean | undefined,
+    actorUserId: string,
+  ): { checkedById: string | null; checkedAt: Date | null } | undefined {
+    if (isChecked === undefined || isChecked === wasChecked) {
+      return undefined;
+    }
+    return isChecked
+      ? { checkedById: actorUserId, checkedAt: new Date() }
+      : { checkedById: null, checkedAt: null };
+  }
+
+  /**
+   * Picks the activity action for an item update: checking and unchecking
+   * are reported as such, anything else as an edit.
+   */
+  itemActivityAction(
+    wasChecked: boolean,
+    isChecked: boolean | undefined,
+  ): AuditAction {
+    if (isChecked === undefined || isChecked === wasChecked) {
+      return AUDIT_ACTIONS.UPDATE_LIST_ITEM;
+    }
+    return isChecked
+      ? AUDIT_ACTIONS.CHECK_LIST_ITEM
+      : AUDIT_ACTIONS.UNCHECK_LIST_ITEM;
+  }
 }
@@ -7,9 +7,21 @@ import {
   ShoppingItemsController,
 } from './controllers';
 import { PrismaModule } from '../../infrastructure/database/prisma/prisma.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { PantryModule } from '../pantry/pantry.module';
+import { SettingsModule } from '../settings/settings.module';
+import { AuditModule } from '../audit/audit.module';
+import { RealtimeModule } from '../realtime/realtime.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [
+    PrismaModule,
+    NotificationsModule,
+    PantryModule,
+    SettingsModule,
+    AuditModule,
+    RealtimeModule,
+  ],
   controllers: [
     GroceriesController,
     ShoppingListsController,
@@ -0,0 +1,50 @@
+import { ShoppingList } from '@prisma/client';
+import { ShoppingItemWithPeople } from '../repositories/shopping.repository';
+import { RealtimeRow } from '../../realtime/types/realtime-change.interface';
+
+const toTimestamp = (value: Date | null | undefined): string | null =>
+  value ? value.toISOString() : null;
+
+/**
+ * Maps a shopping list to its `shopping_lists` row for the realtime stream.
+ */
+export function toShoppingListRow(list: ShoppingList): RealtimeRow {
+  return {
+    id: list.id,
+    household_id: list.householdId,
+    name: list.name,
+    color: list.color,
+    icon: list.icon,
+    is_main: list.isMain,
+    created_at: toTimestamp(list.createdAt),
+    updated_at: toTimestamp(list.updatedAt),
+    deleted_at: toTimestamp(list.deletedAt),
+  };
+}
+
+/**
+ * Maps a shopping item to its `shopping_items` row for the realtime stream.
+ * The claimer's and checker's names ride along so clients can show avatars
+ * without a lookup.
+ */
+export function toShoppingItemRow(item: ShoppingItemWithPeople): RealtimeRow {
+  return {
+    id: item.id,
+    list_id: item.listId,
+    catalog_item_id: item.catalogItemId,
+    name: item.name,
+    quantity: item.quantity,
+    unit: item.unit,
+    category: item.category,
+    image: item.image,
+    is_checked: item.isChecked,
+    claimed_by_id: item.claimedById,
+    claimed_by_name: item.claimedBy?.name ?? null,
+    checked_by_id: item.checkedById,
+    checked_by_name: item.checkedBy?.name ?? null,
+    checked_at: toTimestamp(item.checkedAt),
+    created_at: toTimestamp(item.createdAt),
+    updated_at: toTimestamp(item.updatedAt),
+    deleted_at: toTimestamp(item.deletedAt),
+  };
+}
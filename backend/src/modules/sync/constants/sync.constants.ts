@@ -0,0 +1,11 @@
+/** Collections a client can pull changes for. */
+export const SYNC_COLLECTIONS = ['shopping', 'recipes', 'chores'] as const;
+
+export type SyncCollection = (typeof SYNC_COLLECTIONS)[number];
+
+/**
+ * Changes made this long before a cursor are sent again, so writes from
+ * transactions that committed after the cursor was issued aren't missed.
+ * Clients merge by ID, so repeated entities are harmless.
+ */
+export const SYNC_CURSOR_OVERLAP_MS = 5_000;
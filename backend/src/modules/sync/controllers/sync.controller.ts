@@ -0,0 +1,49 @@
+import {
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { SyncService } from '../services/sync.service';
+import { SyncChangesQueryDto, SyncChangesResponseDto } from '../dtos';
+import { JwtAuthGuard, HouseholdGuard } from '../../../common/guards';
+import { CurrentUser, CurrentUserPayload } from '../../../common/decorators';
+
+/**
+ * Delta sync.
+ * API Version: 1
+ * All endpoints require authentication and household membership.
+ *
+ * - GET /sync/changes - Lists, items, recipes and chores changed since a cursor
+ *
+ * Local changes are pushed through POST /auth/sync.
+ */
+@ApiTags('sync')
+@Controller({ path: 'sync', version: '1' })
+@UseGuards(JwtAuthGuard, HouseholdGuard)
+export class SyncController {
+  constructor(private syncService: SyncService) {}
+
+  @Get('changes')
+  @ApiOperation({
+    summary: 'Pull changes since a cursor',
+    description:
+      'Returns created, updated and deleted (tombstoned) entities since the cursor, and the cursor for the next pull. Without a cursor, returns everything.',
+  })
+  @ApiResponse({ status: 200, type: SyncChangesResponseDto })
+  async getChanges(
+    @CurrentUser() user: CurrentUserPayload,
+    @Query() query: SyncChangesQueryDto,
+  ): Promise<SyncChangesResponseDto> {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    return this.syncService.getChanges(
+      user.householdId,
+      query.since,
+      query.collections,
+    );
+  }
+}
@@ -0,0 +1,2 @@
+export * from './sync-changes-query.dto';
+export * from './sync-changes-response.dto';
@@ -0,0 +1,21 @@
+import { Transform } from 'class-transformer';
+import { IsIn, IsOptional, Matches } from 'class-validator';
+import { SYNC_COLLECTIONS, SyncCollection } from '../constants';
+
+/**
+ * Query parameters for pulling changes.
+ */
+export class SyncChangesQueryDto {
+  /** Cursor from a previous response; omit for a full sync. */
+  @IsOptional()
+  @Matches(/^\d+$/, { message: 'since must be a cursor from a sync response' })
+  since?: string;
+
+  /** Comma-separated collections to include; defaults to all of them. */
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.split(',') : value,
+  )
+  @IsIn(SYNC_COLLECTIONS, { each: true })
+  collections?: SyncCollection[];
+}
@@ -0,0 +1,25 @@
+import {
+  ShoppingItemChangeDto,
+  ShoppingListChangeDto,
+} from '../../shopping/dtos';
+import { RecipeChangeDto } from '../../recipes/dtos';
+import { ChoreChangeDto } from '../../chores/dtos';
+
+/**
+ * Entities changed since the requested cursor. Collections that weren't
+ * requested are returned empty.
+ */
+export class SyncChangesResponseDto {
+  /** Pass as `since` on the next pull. */
+  cursor: string;
+  /**
+   * True when the response holds every active entity instead of changes:
+   * no cursor was given, or it is older than deleted entities are kept.
+   * Clients should replace their cache rather than merge into it.
+   */
+  full: boolean;
+  shoppingLists: ShoppingListChangeDto[];
+  shoppingItems: ShoppingItemChangeDto[];
+  recipes: RecipeChangeDto[];
+  chores: ChoreChangeDto[];
+}
@@ -0,0 +1,125 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SyncService } from '../sync.service';
+import { ShoppingService } from '../../../shopping/services/shopping.service';
+import { RecipesService } from '../../../recipes/services/recipes.service';
+import { ChoresService } from '../../../chores/services/chores.service';
+
+describe('SyncService', () => {
+  let service: SyncService;
+
+  const householdId = 'household-1';
+  const now = new Date('2026-03-31T12:00:00.000Z');
+
+  const mockShoppingService = { getShoppingChanges: jest.fn() };
+  const mockRecipesService = { getRecipeChanges: jest.fn() };
+  const mockChoresService = { getChoreChanges: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockShoppingService.getShoppingChanges.mockResolvedValue({
+      lists: [{ id: 'list-1' }],
+      items: [{ id: 'item-1', listId: 'list-1' }],
+    });
+    mockRecipesService.getRecipeChanges.mockResolvedValue([{ id: 'recipe-1' }]);
+    mockChoresService.getChoreChanges.mockResolvedValue([{ id: 'chore-1' }]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SyncService,
+        { provide: ShoppingService, useValue: mockShoppingService },
+        { provide: RecipesService, useValue: mockRecipesService },
+        { provide: ChoresService, useValue: mockChoresService },
+      ],
+    }).compile();
+
+    service = module.get<SyncService>(SyncService);
+  });
+
+  it('returns everything active when there is no cursor', async () => {
+    const result = await service.getChanges(
+      householdId,
+      undefined,
+      undefined,
+      now,
+    );
+
+    expect(mockShoppingService.getShoppingChanges).toHaveBeenCalledWith(
+      householdId,
+      null,
+    );
+    expect(mockRecipesService.getRecipeChanges).toHaveBeenCalledWith(
+      householdId,
+      null,
+    );
+    expect(result).toEqual({
+      cursor: String(now.getTime()),
+      full: true,
+      shoppingLists: [{ id: 'list-1' }],
+      shoppingItems: [{ id: 'item-1', listId: 'list-1' }],
+      recipes: [{ id: 'recipe-1' }],
+      chores: [{ id: 'chore-1' }],
+    });
+  });
+
+  it('returns changes since the cursor, with an overlap for late commits', async () => {
+    const since = new Date('2026-03-31T11:00:00.000Z').getTime();
+
+    const result = await service.getChanges(
+      householdId,
+      String(since),
+      undefined,
+      now,
+    );
+
+    expect(result.full).toBe(false);
+    expect(mockChoresService.getChoreChanges).toHaveBeenCalledWith(
+      householdId,
+      new Date('2026-03-31T10:59:55.000Z'),
+    );
+  });
+
+  it('falls back to a full sync when the cursor predates trash retention', async () => {
+    const since = new Date('2026-02-01T00:00:00.000Z').getTime();
+
+    const result = await service.getChanges(
+      householdId,
+      String(since),
+      undefined,
+      now,
+    );
+
+    expect(result.full).toBe(true);
+    expect(mockRecipesService.getRecipeChanges).toHaveBeenCalledWith(
+      householdId,
+      null,
+    );
+  });
+
+  it('never moves the cursor backwards', async () => {
+    const since = now.getTime() + 60_000;
+
+    const result = await service.getChanges(
+      householdId,
+      String(since),
+      undefined,
+      now,
+    );
+
+    expect(result.cursor).toBe(String(since));
+  });
+
+  it('only queries the requested collections', async () => {
+    const result = await service.getChanges(
+      householdId,
+      undefined,
+      ['recipes'],
+      now,
+    );
+
+    expect(mockShoppingService.getShoppingChanges).not.toHaveBeenCalled();
+    expect(mockChoresService.getChoreChanges).not.toHaveBeenCalled();
+    expect(result.shoppingLists).toEqual([]);
+    expect(result.chores).toEqual([]);
+    expect(result.recipes).toEqual([{ id: 'recipe-1' }]);
+  });
+});
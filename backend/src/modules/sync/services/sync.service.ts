@@ -0,0 +1,77 @@
+import { Injectable } from '@nestjs/common';
+import { ShoppingService } from '../../shopping/services/shopping.service';
+import { RecipesService } from '../../recipes/services/recipes.service';
+import { ChoresService } from '../../chores/services/chores.service';
+import { TRASH_RETENTION_DAYS } from '../../trash/constants';
+import {
+  SYNC_COLLECTIONS,
+  SYNC_CURSOR_OVERLAP_MS,
+  SyncCollection,
+} from '../constants';
+import { SyncChangesResponseDto } from '../dtos';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Delta sync: returns what changed in a household since a client's cursor.
+ *
+ * Cursors are server timestamps (epoch milliseconds). They never go
+ * backwards for a client, even if server clocks disagree, because a new
+ * cursor is never earlier than the one it replaces.
+ */
+@Injectable()
+export class SyncService {
+  constructor(
+    private shoppingService: ShoppingService,
+    private recipesService: RecipesService,
+    private choresService: ChoresService,
+  ) {}
+
+  /**
+   * Gets lists, items, recipes and chores changed since a cursor, with
+   * deleted ones as tombstones.
+   *
+   * Without a cursor, or with one older than the trash retention window
+   * (whose tombstones may already be purged), every active entity is
+   * returned and the response is marked full.
+   *
+   * @param householdId - The household ID
+   * @param since - Cursor from a previous response
+   * @param collections - Collections to include (default: all)
+   * @param now - Current time (for testing)
+   */
+  async getChanges(
+    householdId: string,
+    since?: string,
+    collections: readonly SyncCollection[] = SYNC_COLLECTIONS,
+    now: Date = new Date(),
+  ): Promise<SyncChangesResponseDto> {
+    const sinceMs = since ? Number(since) : null;
+    const oldestUsableMs = now.getTime() - TRASH_RETENTION_DAYS * MS_PER_DAY;
+    const full = sinceMs === null || sinceMs < oldestUsableMs;
+    const changedSince = full
+      ? null
+      : new Date(sinceMs - SYNC_CURSOR_OVERLAP_MS);
+
+    const [shopping, recipes, chores] = await Promise.all([
+      collections.includes('shopping')
+        ? this.shoppingService.getShoppingChanges(householdId, changedSince)
+        : { lists: [], items: [] },
+      collections.includes('recipes')
+        ? this.recipesService.getRecipeChanges(householdId, changedSince)
+        : [],
+      collections.includes('chores')
+        ? this.choresService.getChoreChanges(householdId, changedSince)
+        : [],
+    ]);
+
+    return {
+      cursor: String(Math.max(now.getTime(), sinceMs ?? 0)),
+      full,
+      shoppingLists: shopping.lists,
+      shoppingItems: shopping.items,
+      recipes,
+      chores,
+    };
+  }
+}
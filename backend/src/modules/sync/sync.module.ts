@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { SyncController } from './controllers/sync.controller';
+import { SyncService } from './services/sync.service';
+import { ShoppingModule } from '../shopping/shopping.module';
+import { RecipesModule } from '../recipes/recipes.module';
+import { ChoresModule } from '../chores/chores.module';
+
+@Module({
+  imports: [ShoppingModule, RecipesModule, ChoresModule],
+  controllers: [SyncController],
+  providers: [SyncService],
+  exports: [SyncService],
+})
+export class SyncModule {}
@@ -0,0 +1,19 @@
+/** Days a deleted list, item, recipe or chore stays restorable before it is purged. */
+export const TRASH_RETENTION_DAYS = 30;
+
+/** Purge expired trash daily at 3:45 AM UTC. */
+export const TRASH_PURGE_SCHEDULE = '45 3 * * *';
+
+/** Most entries returned by the trash endpoint, newest first. */
+export const MAX_TRASH_ENTRIES = 200;
+
+/** Kinds of entity that can be restored from the trash. */
+export const TRASH_ENTITY_TYPES = {
+  SHOPPING_LIST: 'shopping_list',
+  SHOPPING_ITEM: 'shopping_item',
+  RECIPE: 'recipe',
+  CHORE: 'chore',
+} as const;
+
+export type TrashEntityType =
+  (typeof TRASH_ENTITY_TYPES)[keyof typeof TRASH_ENTITY_TYPES];
@@ -0,0 +1,45 @@
+import {
+  Controller,
+  Get,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { TrashService } from '../services/trash.service';
+import { TrashResponseDto } from '../dtos';
+import { JwtAuthGuard, HouseholdGuard } from '../../../common/guards';
+import { CurrentUser, CurrentUserPayload } from '../../../common/decorators';
+
+/**
+ * Household trash.
+ * API Version: 1
+ * All endpoints require authentication and household membership.
+ *
+ * - GET /trash - Recently deleted lists, items, recipes and chores
+ *
+ * Entries are restored through their own endpoints:
+ * POST /shopping-lists/:id/restore, POST /shopping-items/:id/restore,
+ * POST /recipes/:id/restore and POST /chores/:id/restore.
+ */
+@ApiTags('trash')
+@Controller({ path: 'trash', version: '1' })
+@UseGuards(JwtAuthGuard, HouseholdGuard)
+export class TrashController {
+  constructor(private trashService: TrashService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List recently deleted lists, items, recipes and chores',
+    description:
+      'Deleted entities stay restorable for the retention window, then are purged.',
+  })
+  @ApiResponse({ status: 200, type: TrashResponseDto })
+  async getTrash(
+    @CurrentUser() user: CurrentUserPayload,
+  ): Promise<TrashResponseDto> {
+    if (!user.householdId) {
+      throw new BadRequestException('User must belong to a household');
+    }
+    return this.trashService.getTrash(user.householdId);
+  }
+}
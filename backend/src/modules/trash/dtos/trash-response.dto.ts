@@ -0,0 +1,21 @@
+import { TrashEntityType } from '../constants/trash.constants';
+
+/**
+ * A deleted entity that can still be restored. Shopping items carry the list
+ * they belong to.
+ */
+export class TrashEntryDto {
+  id: string;
+  type: TrashEntityType;
+  name: string;
+  deletedAt: Date;
+  /** When the entity is permanently deleted. */
+  purgeAt: Date;
+  listId?: string;
+  listName?: string;
+}
+
+export class TrashResponseDto {
+  retentionDays: number;
+  entries: TrashEntryDto[];
+}
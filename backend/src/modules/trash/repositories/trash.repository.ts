@@ -0,0 +1,120 @@
+import { Injectable } from '@nestjs/common';
+import { Chore, Recipe, ShoppingItem, ShoppingList } from '@prisma/client';
+import { PrismaService } from '../../../infrastructure/database/prisma/prisma.service';
+import { MAX_TRASH_ENTRIES } from '../constants/trash.constants';
+
+export type DeletedShoppingItem = ShoppingItem & {
+  list: Pick<ShoppingList, 'id' | 'name'>;
+};
+
+export type ExpiredRecipe = Pick<Recipe, 'id' | 'imageKey' | 'thumbKey'>;
+
+export interface TrashPurgeResult {
+  lists: number;
+  items: number;
+  recipes: number;
+  chores: number;
+}
+
+/**
+ * Data access for soft-deleted lists, items, recipes and chores across a
+ * household.
+ */
+@Injectable()
+export class TrashRepository {
+  constructor(private prisma: PrismaService) {}
+
+  async findDeletedLists(
+    householdId: string,
+    deletedSince: Date,
+  ): Promise<ShoppingList[]> {
+    return this.prisma.shoppingList.findMany({
+      where: { householdId, deletedAt: { gte: deletedSince } },
+      orderBy: { deletedAt: 'desc' },
+      take: MAX_TRASH_ENTRIES,
+    });
+  }
+
+  /**
+   * Finds deleted items of active lists. Items of a deleted list come back
+   * with the list, so they aren't listed on their own.
+   */
+  async findDeletedItems(
+    householdId: string,
+    deletedSince: Date,
+  ): Promise<DeletedShoppingItem[]> {
+    return this.prisma.shoppingItem.findMany({
+      where: {
+        deletedAt: { gte: deletedSince },
+        list: { householdId, deletedAt: null },
+      },
+      include: { list: { select: { id: true, name: true } } },
+      orderBy: { deletedAt: 'desc' },
+      take: MAX_TRASH_ENTRIES,
+    });
+  }
+
+  async findDeletedRecipes(
+    householdId: string,
+    deletedSince: Date,
+  ): Promise<Recipe[]> {
+    return this.prisma.recipe.findMany({
+      where: { householdId, deletedAt: { gte: deletedSince } },
+      orderBy: { deletedAt: 'desc' },
+      take: MAX_TRASH_ENTRIES,
+    });
+  }
+
+  async findDeletedChores(
+    householdId: string,
+    deletedSince: Date,
+  ): Promise<Chore[]> {
+    return this.prisma.chore.findMany({
+      where: { householdId, deletedAt: { gte: deletedSince } },
+      orderBy: { deletedAt: 'desc' },
+      take: MAX_TRASH_ENTRIES,
+    });
+  }
+
+  /**
+   * Finds recipes soft-deleted before the cutoff, in all households, with
+   * the storage keys of their images.
+   */
+  async findExpiredRecipes(cutoff: Date): Promise<ExpiredRecipe[]> {
+    return this.prisma.recipe.findMany({
+      where: { deletedAt: { lt: cutoff } },
+      select: { id: true, imageKey: true, thumbKey: true },
+    });
+  }
+
+  /**
+   * Hard-deletes everything soft-deleted before the cutoff, in all
+   * households. Deleting a list also removes its items, and deleting a
+   * chore its completion history. Recipes are limited to the given IDs so
+   * only recipes whose images are cleaned up are purged.
+   *
+   * @param cutoff - Entities deleted before this time are purged
+   * @param recipeIds - Expired recipes to purge (see findExpiredRecipes)
+   * @returns Number of purged rows per entity type
+   */
+  async purgeDeletedBefore(
+    cutoff: Date,
+    recipeIds: string[],
+  ): Promise<TrashPurgeResult> {
+    const expired = { deletedAt: { lt: cutoff } };
+    const [items, lists, recipes, chores] = await this.prisma.$transaction([
+      this.prisma.shoppingItem.deleteMany({ where: expired }),
+      this.prisma.shoppingList.deleteMany({ where: expired }),
+      this.prisma.recipe.deleteMany({
+        where: { ...expired, id: { in: recipeIds } },
+      }),
+      this.prisma.chore.deleteMany({ where: expired }),
+    ]);
+    return {
+      lists: lists.count,
+      items: items.count,
+      recipes: recipes.count,
+      chores: chores.count,
+    };
+  }
+}
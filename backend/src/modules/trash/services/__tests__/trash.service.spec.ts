@@ -0,0 +1,279 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TrashService } from '../trash.service';
+import { TrashRepository } from '../../repositories/trash.repository';
+import {
+  TRASH_ENTITY_TYPES,
+  TRASH_RETENTION_DAYS,
+} from '../../constants/trash.constants';
+import { PrismaService } from '../../../../infrastructure/database/prisma/prisma.service';
+import { ChoresService } from '../../../chores/services/chores.service';
+import { ChoresRepository } from '../../../chores/repositories/chores.repository';
+import { SettingsService } from '../../../settings/services/settings.service';
+import { AuditService } from '../../../audit/services/audit.service';
+import { DEFAULT_HOUSEHOLD_SETTINGS } from '../../../settings/constants/settings.constants';
+
+describe('TrashService', () => {
+  let service: TrashService;
+
+  const householdId = 'household-1';
+  const now = new Date('2026-03-31T12:00:00.000Z');
+  const retentionStart = new Date('2026-03-01T12:00:00.000Z');
+
+  const mockRepository = {
+    findDeletedLists: jest.fn(),
+    findDeletedItems: jest.fn(),
+    findDeletedRecipes: jest.fn(),
+    findDeletedChores: jest.fn(),
+    findExpiredRecipes: jest.fn(),
+    purgeDeletedBefore: jest.fn(),
+  };
+
+  const mockStorage = {
+    delete: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TrashService,
+        { provide: TrashRepository, useValue: mockRepository },
+        { provide: 'StoragePort', useValue: mockStorage },
+      ],
+    }).compile();
+
+    service = module.get<TrashService>(TrashService);
+  });
+
+  describe('getTrash', () => {
+    it('merges deleted lists, items, recipes and chores, newest first', async () => {
+      mockRepository.findDeletedLists.mockResolvedValue([
+        {
+          id: 'list-1',
+          name: 'Party',
+          deletedAt: new Date('2026-03-30T10:00:00.000Z'),
+        },
+      ]);
+      mockRepository.findDeletedItems.mockResolvedValue([
+        {
+          id: 'item-1',
+          name: 'Milk',
+          deletedAt: new Date('2026-03-31T09:00:00.000Z'),
+          list: { id: 'list-2', name: 'Groceries' },
+        },
+      ]);
+      mockRepository.findDeletedRecipes.mockResolvedValue([
+        {
+          id: 'recipe-1',
+          title: 'Shakshuka',
+          deletedAt: new Date('2026-03-20T08:00:00.000Z'),
+        },
+      ]);
+      mockRepository.findDeletedChores.mockResolvedValue([
+        {
+          id: 'chore-1',
+          title: 'Water plants',
+          deletedAt: new Date('2026-03-25T07:00:00.000Z'),
+        },
+      ]);
+
+      const result = await service.getTrash(householdId, now);
+
+      expect(mockRepository.findDeletedLists).toHaveBeenCalledWith(
+        householdId,
+        retentionStart,
+      );
+      expect(result.retentionDays).toBe(TRASH_RETENTION_DAYS);
+      expect(result.entries).toEqual([
+        {
+          id: 'item-1',
+          type: 'shopping_item',
+          name: 'Milk',
+          deletedAt: new Date('2026-03-31T09:00:00.000Z'),
+          purgeAt: new Date('2026-04-30T09:00:00.000Z'),
+          listId: 'list-2',
+          listName: 'Groceries',
+        },
+        {
+          id: 'list-1',
+          type: 'shopping_list',
+          name: 'Party',
+          deletedAt: new Date('2026-03-30T10:00:00.000Z'),
+          purgeAt: new Date('2026-04-29T10:00:00.000Z'),
+        },
+        {
+          id: 'chore-1',
+          type: 'chore',
+          name: 'Water plants',
+          deletedAt: new Date('2026-03-25T07:00:00.000Z'),
+          purgeAt: new Date('2026-04-24T07:00:00.000Z'),
+        },
+        {
+          id: 'recipe-1',
+          type: 'recipe',
+          name: 'Shakshuka',
+          deletedAt: new Date('2026-03-20T08:00:00.000Z'),
+          purgeAt: new Date('2026-04-19T08:00:00.000Z'),
+        },
+      ]);
+    });
+  });
+
+  describe('purgeExpired', () => {
+    it('purges everything deleted before the retention window', async () => {
+      const counts = { lists: 1, items: 4, recipes: 2, chores: 3 };
+      mockRepository.findExpiredRecipes.mockResolvedValue([
+        { id: 'recipe-1', imageKey: null, thumbKey: null },
+        { id: 'recipe-2', imageKey: null, thumbKey: null },
+      ]);
+      mockRepository.purgeDeletedBefore.mockResolvedValue(counts);
+
+      const result = await service.purgeExpired(now);
+
+      expect(mockRepository.findExpiredRecipes).toHaveBeenCalledWith(
+        retentionStart,
+      );
+      expect(mockRepository.purgeDeletedBefore).toHaveBeenCalledWith(
+        retentionStart,
+        ['recipe-1', 'recipe-2'],
+      );
+      expect(result).toEqual(counts);
+    });
+
+    it('deletes the stored images of purged recipes', async () => {
+      mockRepository.findExpiredRecipes.mockResolvedValue([
+        {
+          id: 'recipe-1',
+          imageKey: 'recipes/recipe-1/image_v1.webp',
+          thumbKey: 'recipes/recipe-1/thumb_v1.webp',
+        },
+        { id: 'recipe-2', imageKey: null, thumbKey: null },
+      ]);
+      mockRepository.purgeDeletedBefore.mockResolvedValue({
+        lists: 0,
+        items: 0,
+        recipes: 2,
+        chores: 0,
+      });
+      mockStorage.delete.mockResolvedValue(undefined);
+
+      await service.purgeExpired(now);
+
+      expect(mockStorage.delete).toHaveBeenCalledTimes(2);
+      expect(mockStorage.delete).toHaveBeenCalledWith(
+        'recipes/recipe-1/image_v1.webp',
+      );
+      expect(mockStorage.delete).toHaveBeenCalledWith(
+        'recipes/recipe-1/thumb_v1.webp',
+      );
+    });
+
+    it('still completes the purge when deleting an image fails', async () => {
+      const counts = { lists: 0, items: 0, recipes: 1, chores: 0 };
+      mockRepository.findExpiredRecipes.mockResolvedValue([
+        {
+          id: 'recipe-1',
+          imageKey: 'recipes/recipe-1/image_v1.webp',
+          thumbKey: null,
+        },
+      ]);
+      mockRepository.purgeDeletedBefore.mockResolvedValue(counts);
+      mockStorage.delete.mockRejectedValue(new Error('storage down'));
+
+      await expect(service.purgeExpired(now)).resolves.toEqual(counts);
+    });
+  });
+});
+
+/**
+ * Deletes and restores a chore through ChoresService over an in-memory chore
+ * table, so the trash sees what a delete from the app actually stores.
+ */
+describe('TrashService - chores deleted from the app', () => {
+  let trashService: TrashService;
+  let choresService: ChoresService;
+  let chores: Record<string, any>[];
+
+  const householdId = 'household-1';
+
+  beforeEach(async () => {
+    chores = [
+      {
+        id: 'chore-1',
+        householdId,
+        title: 'Water plants',
+        deletedAt: null,
+        updatedAt: new Date('2026-03-01T08:00:00.000Z'),
+      },
+    ];
+    const findChore = async ({ where }: { where: Record<string, any> }) =>
+      chores.find(
+        (chore) =>
+          chore.id === where.id &&
+          (where.deletedAt !== null || chore.deletedAt === null),
+      ) ?? null;
+    const prisma = {
+      chore: {
+        findFirst: jest.fn(findChore),
+        findUnique: jest.fn(findChore),
+        findMany: jest.fn(async ({ where }) =>
+          chores.filter(
+            (chore) =>
+              chore.householdId === where.householdId &&
+              chore.deletedAt !== null &&
+              chore.deletedAt >= where.deletedAt.gte,
+          ),
+        ),
+        update: jest.fn(async ({ where, data }) => {
+          const chore = chores.find((row) => row.id === where.id)!;
+          return Object.assign(chore, data, { updatedAt: new Date() });
+        }),
+      },
+      shoppingList: { findMany: jest.fn().mockResolvedValue([]) },
+      shoppingItem: { findMany: jest.fn().mockResolvedValue([]) },
+      recipe: { findMany: jest.fn().mockResolvedValue([]) },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TrashService,
+        TrashRepository,
+        ChoresService,
+        ChoresRepository,
+        { provide: PrismaService, useValue: prisma },
+        { provide: 'StoragePort', useValue: { delete: jest.fn() } },
+        {
+          provide: SettingsService,
+          useValue: {
+            getHouseholdSettings: jest
+              .fn()
+              .mockResolvedValue(DEFAULT_HOUSEHOLD_SETTINGS),
+          },
+        },
+        { provide: AuditService, useValue: { logActivity: jest.fn() } },
+      ],
+    }).compile();
+
+    trashService = module.get<TrashService>(TrashService);
+    choresService = module.get<ChoresService>(ChoresService);
+  });
+
+  it('lists a deleted chore in the trash and undoes the delete', async () => {
+    await choresService.deleteChore('chore-1', householdId);
+
+    const trash = await trashService.getTrash(householdId);
+
+    expect(trash.entries).toEqual([
+      expect.objectContaining({
+        id: 'chore-1',
+        type: TRASH_ENTITY_TYPES.CHORE,
+        name: 'Water plants',
+      }),
+    ]);
+
+    await choresService.restoreChore('chore-1', householdId);
+
+    expect((await trashService.getTrash(householdId)).entries).toEqual([]);
+    expect(chores[0].deletedAt).toBeNull();
+  });
+});
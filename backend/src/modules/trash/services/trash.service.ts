@@ -0,0 +1,161 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  ExpiredRecipe,
+  TrashPurgeResult,
+  TrashRepository,
+} from '../repositories/trash.repository';
+import { StoragePort } from '../../../infrastructure/storage/storage.interface';
+import { TrashEntryDto, TrashResponseDto } from '../dtos';
+import {
+  MAX_TRASH_ENTRIES,
+  TRASH_ENTITY_TYPES,
+  TRASH_RETENTION_DAYS,
+} from '../constants/trash.constants';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const RETENTION_MS = TRASH_RETENTION_DAYS * MS_PER_DAY;
+
+/**
+ * Household trash: lists what was deleted recently and purges it for good
+ * once the retention window has passed. Restoring goes through the owning
+ * feature (e.g. POST /recipes/:id/restore).
+ */
+@Injectable()
+export class TrashService {
+  private readonly logger = new Logger(TrashService.name);
+
+  constructor(
+    private trashRepository: TrashRepository,
+    @Inject('StoragePort') private readonly storage: StoragePort,
+  ) {}
+
+  /**
+   * Gets the household's deleted lists, items, recipes and chores that can
+   * still be restored, most recently deleted first.
+   *
+   * @param householdId - The household ID
+   * @param now - Reference time (defaults to the current time)
+   * @returns Trash entries and the retention window
+   */
+  async getTrash(
+    householdId: string,
+    now: Date = new Date(),
+  ): Promise<TrashResponseDto> {
+    const deletedSince = new Date(now.getTime() - RETENTION_MS);
+    const [lists, items, recipes, chores] = await Promise.all([
+      this.trashRepository.findDeletedLists(householdId, deletedSince),
+      this.trashRepository.findDeletedItems(householdId, deletedSince),
+      this.trashRepository.findDeletedRecipes(householdId, deletedSince),
+      this.trashRepository.findDeletedChores(householdId, deletedSince),
+    ]);
+
+    const entries: TrashEntryDto[] = [
+      ...lists.map((list) =>
+        this.toEntry(
+          list.id,
+          TRASH_ENTITY_TYPES.SHOPPING_LIST,
+          list.name,
+          list.deletedAt!,
+        ),
+      ),
+      ...items.map((item) => ({
+        ...this.toEntry(
+          item.id,
+          TRASH_ENTITY_TYPES.SHOPPING_ITEM,
+          item.name,
+          item.deletedAt!,
+        ),
+        listId: item.list.id,
+        listName: item.list.name,
+      })),
+      ...recipes.map((recipe) =>
+        this.toEntry(
+          recipe.id,
+          TRASH_ENTITY_TYPES.RECIPE,
+          recipe.title,
+          recipe.deletedAt!,
+        ),
+      ),
+      ...chores.map((chore) =>
+        this.toEntry(
+          chore.id,
+          TRASH_ENTITY_TYPES.CHORE,
+          chore.title,
+          chore.deletedAt!,
+        ),
+      ),
+    ];
+
+    entries.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+
+    return {
+      retentionDays: TRASH_RETENTION_DAYS,
+      entries: entries.slice(0, MAX_TRASH_ENTRIES),
+    };
+  }
+
+  /**
+   * Permanently deletes everything that has been in the trash longer than
+   * the retention window, including the stored images of purged recipes.
+   *
+   * @param now - Reference time (defaults to the current time)
+   * @returns Number of purged rows per entity type
+   */
+  async purgeExpired(now: Date = new Date()): Promise<TrashPurgeResult> {
+    const cutoff = new Date(now.getTime() - RETENTION_MS);
+    const recipes = await this.trashRepository.findExpiredRecipes(cutoff);
+    const result = await this.trashRepository.purgeDeletedBefore(
+      cutoff,
+      recipes.map((recipe) => recipe.id),
+    );
+    await this.deleteRecipeImages(recipes);
+
+    this.logger.log(
+      `Purged trash: ${result.lists} lists, ${result.items} items, ${result.recipes} recipes, ${result.chores} chores`,
+    );
+    return result;
+  }
+
+  /**
+   * Deletes the stored images of purged recipes. A failed delete only
+   * leaves an orphaned object behind, so it is logged rather than failing
+   * the purge.
+   */
+  private async deleteRecipeImages(recipes: ExpiredRecipe[]): Promise<void> {
+    const keys = recipes.flatMap((recipe) =>
+      [recipe.imageKey, recipe.thumbKey].filter((key): key is string =>
+        Boolean(key),
+      ),
+    );
+    const results = await Promise.allSettled(
+      keys.map((key) => this.storage.delete(key)),
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        this.logger.warn(
+          `Failed to delete recipe image ${keys[index]}: ${
+            result.reason instanceof Error
+              ? result.reason.message
+              : String(result.reason)
+          }`,
+        );
+      }
+    });
+  }
+
+  private toEntry(
+    id: string,
+    type: TrashEntryDto['type'],
+    name: string,
+    deletedAt: Date,
+  ): TrashEntryDto {
+    return {
+      id,
+      type,
+      name,
+      deletedAt,
+      purgeAt: new Date(deletedAt.getTime() + RETENTION_MS),
+    };
+  }
+}
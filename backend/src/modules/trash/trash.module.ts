@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TrashController } from './controllers/trash.controller';
+import { TrashService } from './services/trash.service';
+import { TrashRepository } from './repositories/trash.repository';
+import { TrashProcessor } from '../../jobs/trash.processor';
+import { PrismaModule } from '../../infrastructure/database/prisma/prisma.module';
+import { StorageModule } from '../../infrastructure/storage/storage.module';
+
+@Module({
+  imports: [PrismaModule, StorageModule],
+  controllers: [TrashController],
+  providers: [TrashService, TrashRepository, TrashProcessor],
+  exports: [TrashService],
+})
+export class TrashModule {}
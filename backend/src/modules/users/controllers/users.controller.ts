@@ -2,6 +2,7 @@ import {
   Controller,
   Delete,
   Get,
+  Post,
   HttpCode,
   HttpStatus,
   Body,
@@ -13,6 +14,10 @@ import { UsersService } from '../services/users.service';
 import { CurrentUser, CurrentUserPayload } from '../../../common/decorators';
 import { DeleteAccountDto } from '../dtos/delete-account.dto';
 import { UserExportDto } from '../dtos/user-export.dto';
+import {
+  RegisterDeviceTokenDto,
+  UnregisterDeviceTokenDto,
+} from '../dtos/device-token.dto';
 
 /**
  * User profile and account management.
@@ -21,6 +26,8 @@ import { UserExportDto } from '../dtos/user-export.dto';
  * Protected endpoints:
  * - DELETE /users/me - Delete account and data
  * - GET /users/me/export - Export user data (GDPR)
+ * - POST /users/me/devices - Register a push notification device token
+ * - DELETE /users/me/devices - Unregister a push notification device token
  */
 @ApiTags('users')
 @Controller({ path: 'users', version: '1' })
@@ -94,4 +101,43 @@ export class UsersController {
   ): Promise<UserExportDto> {
     return this.usersService.exportUserData(user.userId);
   }
+
+  /**
+   * Registers the current device for push notifications.
+   */
+  @Post('me/devices')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Register device token',
+    description:
+      'Registers an FCM / APNs push token for the current user. Re-registering an existing token moves it to the current user.',
+  })
+  @ApiResponse({ status: 204, description: 'Device registered' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async registerDevice(
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: RegisterDeviceTokenDto,
+  ): Promise<void> {
+    await this.usersService.registerDeviceToken(user.userId, dto);
+  }
+
+  /**
+   * Unregisters a device so it no longer receives push notifications.
+   * The token is sent in the body because push tokens exceed URL parameter limits.
+   */
+  @Delete('me/devices')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Unregister device token',
+    description:
+      'Stops push notifications to the given device token. Unknown tokens are ignored.',
+  })
+  @ApiResponse({ status: 204, description: 'Device unregistered' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async unregisterDevice(
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: UnregisterDeviceTokenDto,
+  ): Promise<void> {
+    await this.usersService.unregisterDeviceToken(user.userId, dto.token);
+  }
 }
@@ -0,0 +1,33 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import {
+  PUSH_PLATFORMS,
+  PushPlatform,
+} from '../../../infrastructure/push/push.interface';
+
+/**
+ * Push token of one app install, registered so the user receives
+ * notifications on that device.
+ */
+export class RegisterDeviceTokenDto {
+  @ApiProperty({ description: 'FCM / APNs device token', maxLength: 4096 })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(4096)
+  token: string;
+
+  @ApiProperty({ enum: PUSH_PLATFORMS })
+  @IsIn(PUSH_PLATFORMS)
+  platform: PushPlatform;
+}
+
+/**
+ * Device token to stop sending notifications to (e.g. on sign-out).
+ */
+export class UnregisterDeviceTokenDto {
+  @ApiProperty({ description: 'FCM / APNs device token', maxLength: 4096 })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(4096)
+  token: string;
+}
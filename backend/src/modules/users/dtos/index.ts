@@ -1,2 +1,3 @@
 export * from './delete-account.dto';
 export * from './user-export.dto';
+export * from './device-token.dto';
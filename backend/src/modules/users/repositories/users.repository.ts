@@ -1,7 +1,13 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../../../infrastructure/database/prisma/prisma.service';
 import { ACTIVE_RECORDS_FILTER } from '../../../infrastructure/database/filters/soft-delete.filter';
-import type { Recipe, ShoppingList, ShoppingItem, Chore } from '@prisma/client';
+import type {
+  Recipe,
+  ShoppingList,
+  ShoppingItem,
+  Chore,
+  DeviceToken,
+} from '@prisma/client';
 
 /** Recipe shape returned in user data export (active records only). */
 export type RecipeExport = Recipe;
@@ -33,7 +39,7 @@ export interface UserExportData {
 }
 
 /**
- * Repository for user-related data access (export, etc.).
+ * Repository for user-related data access (export, device tokens, etc.).
  */
 @Injectable()
 export class UsersRepository {
@@ -120,4 +126,33 @@ export class UsersRepository {
       assignedChores,
     };
   }
+
+  /**
+   * Registers a device token for the user. A token is unique per app install,
+   * so re-registering moves it to the signed-in user and refreshes lastSeenAt.
+   */
+  async upsertDeviceToken(
+    userId: string,
+    token: string,
+    platform: string,
+  ): Promise<DeviceToken> {
+    const now = new Date();
+    return this.prisma.deviceToken.upsert({
+      where: { token },
+      create: { userId, token, platform, lastSeenAt: now },
+      update: { userId, platform, lastSeenAt: now },
+    });
+  }
+
+  /**
+   * Removes a device token, only if it belongs to the user.
+   *
+   * @returns Number of removed tokens
+   */
+  async deleteDeviceToken(userId: string, token: string): Promise<number> {
+    const { count } = await this.prisma.deviceToken.deleteMany({
+      where: { userId, token },
+    });
+    return count;
+  }
 }
@@ -4,13 +4,15 @@ import { UsersService } from '../users.service';
 import { PrismaService } from '../../../../infrastructure/database/prisma/prisma.service';
 import { UsersRepository } from '../../repositories/users.repository';
 import { AuditService } from '../../../audit/services/audit.service';
+import { RealtimeService } from '../../../realtime/services/realtime.service';
 
 describe('UsersService', () => {
   let service: UsersService;
 
   const mockTx = {
-    user: { findUnique: jest.fn(), update: jest.fn(), delete: jest.fn() },
-    household: { findUnique: jest.fn(), delete: jest.fn() },
+    user: { update: jest.fn(), updateMany: jest.fn(), delete: jest.fn() },
+    household: { delete: jest.fn() },
+    householdMembership: { update: jest.fn() },
     refreshToken: { deleteMany: jest.fn() },
     syncIdempotencyKey: { deleteMany: jest.fn() },
     householdInvite: { deleteMany: jest.fn() },
@@ -19,16 +21,10 @@ describe('UsersService', () => {
   const mockPrismaService = {
     user: {
       findUnique: jest.fn(),
-      update: jest.fn(),
-      delete: jest.fn(),
     },
-    household: {
-      findUnique: jest.fn(),
-      delete: jest.fn(),
+    householdMembership: {
+      findMany: jest.fn(),
     },
-    refreshToken: { deleteMany: jest.fn() },
-    syncIdempotencyKey: { deleteMany: jest.fn() },
-    householdInvite: { deleteMany: jest.fn() },
     $transaction: jest.fn((fn: (tx: typeof mockTx) => Promise<unknown>) =>
       fn(mockTx),
     ),
@@ -36,6 +32,8 @@ describe('UsersService', () => {
 
   const mockUsersRepository = {
     getUserExportData: jest.fn(),
+    upsertDeviceToken: jest.fn(),
+    deleteDeviceToken: jest.fn(),
   };
 
   const mockAuditService = {
@@ -45,6 +43,10 @@ describe('UsersService', () => {
     logDataExport: jest.fn(),
   };
 
+  const mockRealtimeService = {
+    closeStreams: jest.fn(),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -52,6 +54,7 @@ describe('UsersService', () => {
         { provide: PrismaService, useValue: mockPrismaService },
         { provide: UsersRepository, useValue: mockUsersRepository },
         { provide: AuditService, useValue: mockAuditService },
+        { provide: RealtimeService, useValue: mockRealtimeService },
       ],
     }).compile();
 
@@ -60,6 +63,34 @@ describe('UsersService', () => {
   });
 
   describe('deleteAccount', () => {
+    const membership = (userId: string, householdId: string, role: string) => ({
+      userId,
+      householdId,
+      role,
+    });
+
+    /** A membership of user-1 with the household's members, oldest first. */
+    const userMembership = (
+      householdId: string,
+      role: string,
+      members: { userId: string; role: string }[],
+    ) => ({
+      ...membership('user-1', householdId, role),
+      household: {
+        id: householdId,
+        memberships: members.map((m) =>
+          membership(m.userId, householdId, m.role),
+        ),
+      },
+    });
+
+    const activeUser = (role: string) => ({
+      id: 'user-1',
+      householdId: 'household-1',
+      role,
+      household: { id: 'household-1' },
+    });
+
     it('should throw NotFoundException when user not found', async () => {
       mockPrismaService.user.findUnique.mockResolvedValue(null);
 
@@ -70,23 +101,12 @@ describe('UsersService', () => {
     });
 
     it('should delete sole admin and household', async () => {
-      const user = {
-        id: 'user-1',
-        householdId: 'household-1',
-        role: 'Admin',
-        household: { id: 'household-1' },
-      };
-      mockPrismaService.user.findUnique.mockResolvedValue(user);
-      mockPrismaService.household.findUnique.mockResolvedValue({
-        id: 'household-1',
-        users: [user],
-      });
-      mockTx.user.update.mockResolvedValue({});
-      mockTx.household.delete.mockResolvedValue({});
-      mockTx.refreshToken.deleteMany.mockResolvedValue({});
-      mockTx.syncIdempotencyKey.deleteMany.mockResolvedValue({});
-      mockTx.householdInvite.deleteMany.mockResolvedValue({});
-      mockTx.user.delete.mockResolvedValue({});
+      mockPrismaService.user.findUnique.mockResolvedValue(activeUser('Admin'));
+      mockPrismaService.householdMembership.findMany.mockResolvedValue([
+        userMembership('household-1', 'Admin', [
+          { userId: 'user-1', role: 'Admin' },
+        ]),
+      ]);
 
       await service.deleteAccount('user-1', 'test reason');
 
@@ -119,31 +139,14 @@ describe('UsersService', () => {
     });
 
     it('should promote next member and remove user when admin with multiple members', async () => {
-      const user = {
-        id: 'user-1',
-        householdId: 'household-1',
-        role: 'Admin',
-        household: { id: 'household-1' },
-      };
-      const otherUser = {
-        id: 'user-2',
-        householdId: 'household-1',
-        createdAt: new Date(),
-      };
-      mockPrismaService.user.findUnique.mockResolvedValue(user);
-      mockPrismaService.household.findUnique.mockResolvedValue({
-        id: 'household-1',
-        users: [user, otherUser],
-      });
-      mockTx.household.findUnique.mockResolvedValue({
-        id: 'household-1',
-        users: [user, otherUser],
-      });
-      mockTx.user.update.mockResolvedValue({});
-      mockTx.refreshToken.deleteMany.mockResolvedValue({});
-      mockTx.syncIdempotencyKey.deleteMany.mockResolvedValue({});
-      mockTx.householdInvite.deleteMany.mockResolvedValue({});
-      mockTx.user.delete.mockResolvedValue({});
+      mockPrismaService.user.findUnique.mockResolvedValue(activeUser('Admin'));
+      mockPrismaService.householdMembership.findMany.mockResolvedValue([
+        userMembership('household-1', 'Admin', [
+          { userId: 'user-1', role: 'Admin' },
+          { userId: 'user-2', role: 'Member' },
+          { userId: 'user-3', role: 'Member' },
+        ]),
+      ]);
 
       await service.deleteAccount('user-1');
 
@@ -152,8 +155,14 @@ describe('UsersService', () => {
         'household-1',
         { promotedUserId: 'user-2' },
       );
-      expect(mockTx.user.update).toHaveBeenCalledWith({
-        where: { id: 'user-2' },
+      expect(mockTx.householdMembership.update).toHaveBeenCalledWith({
+        where: {
+          userId_householdId: { userId: 'user-2', householdId: 'household-1' },
+        },
+        data: { role: 'Admin' },
+      });
+      expect(mockTx.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'user-2', householdId: 'household-1' },
         data: { role: 'Admin' },
       });
       expect(mockTx.user.update).toHaveBeenCalledWith({
@@ -164,32 +173,87 @@ describe('UsersService', () => {
     });
 
     it('should only remove from household when member', async () => {
-      const memberUser = {
-        id: 'user-1',
-        householdId: 'household-1',
-        role: 'Member',
-        household: { id: 'household-1' },
-      };
-      mockPrismaService.user.findUnique.mockReset();
-      mockPrismaService.user.findUnique.mockResolvedValue(memberUser);
-      mockPrismaService.household.findUnique.mockResolvedValue({
-        id: 'household-1',
-        users: [memberUser, { id: 'admin-1' }],
-      });
-      mockTx.user.update.mockResolvedValue({});
-      mockTx.refreshToken.deleteMany.mockResolvedValue({});
-      mockTx.syncIdempotencyKey.deleteMany.mockResolvedValue({});
-      mockTx.householdInvite.deleteMany.mockResolvedValue({});
-      mockTx.user.delete.mockResolvedValue({});
+      mockPrismaService.user.findUnique.mockResolvedValue(activeUser('Member'));
+      mockPrismaService.householdMembership.findMany.mockResolvedValue([
+        userMembership('household-1', 'Member', [
+          { userId: 'admin-1', role: 'Admin' },
+          { userId: 'user-1', role: 'Member' },
+        ]),
+      ]);
 
       await service.deleteAccount('user-1');
 
       expect(mockAuditService.logAdminPromotion).not.toHaveBeenCalled();
       expect(mockAuditService.logHouseholdDeletion).not.toHaveBeenCalled();
+      expect(mockTx.household.delete).not.toHaveBeenCalled();
       expect(mockTx.user.update).toHaveBeenCalledWith({
         where: { id: 'user-1' },
         data: { householdId: null },
       });
+      expect(mockTx.user.delete).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+      });
+    });
+
+    it('should handle every household of a user in two households', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(activeUser('Admin'));
+      mockPrismaService.householdMembership.findMany.mockResolvedValue([
+        // Active household; the other member's active household is elsewhere
+        userMembership('household-1', 'Admin', [
+          { userId: 'user-1', role: 'Admin' },
+          { userId: 'user-2', role: 'Member' },
+        ]),
+        // Only member left
+        userMembership('household-2', 'Admin', [
+          { userId: 'user-1', role: 'Admin' },
+        ]),
+      ]);
+
+      await service.deleteAccount('user-1');
+
+      expect(mockTx.household.delete).toHaveBeenCalledTimes(1);
+      expect(mockTx.household.delete).toHaveBeenCalledWith({
+        where: { id: 'household-2' },
+      });
+      expect(mockTx.householdMembership.update).toHaveBeenCalledWith({
+        where: {
+          userId_householdId: { userId: 'user-2', householdId: 'household-1' },
+        },
+        data: { role: 'Admin' },
+      });
+      expect(mockAuditService.logHouseholdDeletion).toHaveBeenCalledWith(
+        'household-2',
+        { userId: 'user-1', reason: undefined },
+      );
+      expect(mockAuditService.logAccountDeletion).toHaveBeenCalledWith(
+        'user-1',
+        expect.objectContaining({ householdId: 'household-1', memberCount: 2 }),
+      );
+      expect(mockRealtimeService.closeStreams).toHaveBeenCalledWith(
+        'household-1',
+        'user-1',
+      );
+      expect(mockRealtimeService.closeStreams).toHaveBeenCalledWith(
+        'household-2',
+        'user-1',
+      );
+    });
+
+    it('should not promote anyone when another admin remains', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(activeUser('Admin'));
+      mockPrismaService.householdMembership.findMany.mockResolvedValue([
+        userMembership('household-1', 'Admin', [
+          { userId: 'user-1', role: 'Admin' },
+          { userId: 'user-2', role: 'Member' },
+          { userId: 'user-3', role: 'Admin' },
+        ]),
+      ]);
+
+      await service.deleteAccount('user-1');
+
+      expect(mockAuditService.logAdminPromotion).not.toHaveBeenCalled();
+      expect(mockTx.householdMembership.update).not.toHaveBeenCalled();
+      expect(mockTx.household.delete).not.toHaveBeenCalled();
     });
   });
 
@@ -238,4 +302,33 @@ describe('UsersService', () => {
       expect(result.exportedAt).toBeInstanceOf(Date);
     });
   });
+
+  describe('device tokens', () => {
+    it('registers the token for the user', async () => {
+      mockUsersRepository.upsertDeviceToken.mockResolvedValue({});
+
+      await service.registerDeviceToken('user-1', {
+        token: 'fcm-token',
+        platform: 'android',
+      });
+
+      expect(mockUsersRepository.upsertDeviceToken).toHaveBeenCalledWith(
+        'user-1',
+        'fcm-token',
+        'android',
+      );
+    });
+
+    it('ignores unregistering an unknown token', async () => {
+      mockUsersRepository.deleteDeviceToken.mockResolvedValue(0);
+
+      await expect(
+        service.unregisterDeviceToken('user-1', 'unknown-token'),
+      ).resolves.toBeUndefined();
+      expect(mockUsersRepository.deleteDeviceToken).toHaveBeenCalledWith(
+        'user-1',
+        'unknown-token',
+      );
+    });
+  });
 });
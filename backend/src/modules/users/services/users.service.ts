@@ -3,20 +3,28 @@ import { Prisma } from '@prisma/client';
 import { PrismaService } from '../../../infrastructure/database/prisma/prisma.service';
 import { UsersRepository } from '../repositories/users.repository';
 import { AuditService } from '../../audit/services/audit.service';
+import { RealtimeService } from '../../realtime/services/realtime.service';
 import {
   UserExportDto,
   UserExportSummaryDto,
   HouseholdExportSummaryDto,
   ActivityExportSummaryDto,
 } from '../dtos/user-export.dto';
-import type { User, Household } from '@prisma/client';
+import { RegisterDeviceTokenDto } from '../dtos/device-token.dto';
+import type { User, Household, HouseholdMembership } from '@prisma/client';
 import type { UserExportData } from '../repositories/users.repository';
 
 type UserWithHousehold = User & { household: Household | null };
-type HouseholdWithMembers = Household & { users: User[] };
+type MembershipWithMembers = HouseholdMembership & {
+  household: Household & { memberships: HouseholdMembership[] };
+};
+type HouseholdDeparture =
+  | { action: 'delete' | 'leave'; householdId: string }
+  | { action: 'promote'; householdId: string; nextAdminId: string };
 
 /**
- * Service for user profile operations: account deletion and data export.
+ * Service for user profile operations: account deletion, data export and
+ * push notification device registration.
  */
 @Injectable()
 export class UsersService {
@@ -26,63 +34,68 @@ export class UsersService {
     private prisma: PrismaService,
     private usersRepository: UsersRepository,
     private auditService: AuditService,
+    private realtimeService: RealtimeService,
   ) {}
 
   /**
-   * Deletes the current user's account and associated data.
-   * - If sole household admin: hard-deletes household and all its data.
-   * - If admin with other members: promotes oldest member to admin, then removes user.
-   * - Revokes refresh tokens, clears idempotency keys, deletes invites created by user, then deletes user.
+   * Deletes the current user's account and associated data. Every household
+   * the user is a member of is handled from its memberships:
+   * - No other members: hard-deletes the household and all its data.
+   * - Sole admin with other members: promotes the longest-standing member to admin.
+   * - Otherwise the user just leaves (the membership goes with the user).
+   * Revokes refresh tokens, clears idempotency keys, deletes invites created by user, then deletes user.
    * All Prisma writes run in a single transaction for consistency.
    */
   async deleteAccount(userId: string, reason?: string): Promise<void> {
     const user = await this.getUserWithHousehold(userId);
-    const { householdId, role, memberCount } =
-      await this.resolveHouseholdContext(user);
+    const memberships = await this.getMembershipsWithMembers(userId);
+    const departures = memberships.map((membership) =>
+      this.planDeparture(userId, membership),
+    );
+    const { householdId, role, memberCount } = this.resolveHouseholdContext(
+      user,
+      memberships,
+    );
 
-    if (user.householdId) {
-      if (role === 'Admin' && memberCount === 1) {
-        await this.auditService.logHouseholdDeletion(user.householdId, {
+    for (const departure of departures) {
+      if (departure.action === 'delete') {
+        await this.auditService.logHouseholdDeletion(departure.householdId, {
           userId,
           reason,
         });
-      } else if (role === 'Admin' && memberCount > 1) {
-        const householdWithMembers = await this.getHouseholdWithMembers(
-          user.householdId,
-        );
-        const otherMembers = householdWithMembers.users.filter(
-          (u) => u.id !== userId && u.householdId === user.householdId,
+      } else if (departure.action === 'promote') {
+        await this.auditService.logAdminPromotion(
+          userId,
+          departure.householdId,
+          { promotedUserId: departure.nextAdminId },
         );
-        if (otherMembers.length === 0) {
-          this.logger.error('No eligible members to promote to admin', {
-            userId,
-            householdId: user.householdId,
-          });
-          throw new Error(
-            'No eligible members to promote to admin. Cannot delete account.',
-          );
-        }
-        const nextAdmin = otherMembers[0];
-        await this.auditService.logAdminPromotion(userId, user.householdId, {
-          promotedUserId: nextAdmin.id,
-        });
       }
     }
 
     await this.prisma.$transaction(async (tx) => {
       if (user.householdId) {
-        if (role === 'Admin' && memberCount === 1) {
-          await this.deleteSoleAdminHousehold(tx, userId, user.householdId);
-        } else if (role === 'Admin' && memberCount > 1) {
-          await this.promoteNextAdminAndLeaveHousehold(tx, user);
-        } else {
-          await this.removeUserFromHousehold(tx, userId);
+        await this.clearActiveHousehold(tx, userId);
+      }
+
+      for (const departure of departures) {
+        if (departure.action === 'delete') {
+          await this.deleteHouseholdWithoutMembers(tx, departure.householdId);
+        } else if (departure.action === 'promote') {
+          await this.promoteAdmin(
+            tx,
+            departure.householdId,
+            departure.nextAdminId,
+          );
         }
       }
 
       await this.cleanupUserData(tx, userId);
     });
 
+    for (const departure of departures) {
+      this.realtimeService.closeStreams(departure.householdId, userId);
+    }
+
     try {
       await this.auditService.logAccountDeletion(userId, {
         householdId,
@@ -153,6 +166,35 @@ export class UsersService {
     };
   }
 
+  /**
+   * Registers the device the user is signed in on for push notifications.
+   */
+  async registerDeviceToken(
+    userId: string,
+    dto: RegisterDeviceTokenDto,
+  ): Promise<void> {
+    await this.usersRepository.upsertDeviceToken(
+      userId,
+      dto.token,
+      dto.platform,
+    );
+    this.logger.log('Device token registered', {
+      userId,
+      platform: dto.platform,
+    });
+  }
+
+  /**
+   * Stops push notifications to a device. Unknown tokens are ignored so
+   * sign-out can call this unconditionally.
+   */
+  async unregisterDeviceToken(userId: string, token: string): Promise<void> {
+    const removed = await this.usersRepository.deleteDeviceToken(userId, token);
+    if (removed > 0) {
+      this.logger.log('Device token unregistered', { userId });
+    }
+  }
+
   private async getUserWithHousehold(
     userId: string,
   ): Promise<UserWithHousehold> {
@@ -168,99 +210,118 @@ export class UsersService {
     return user;
   }
 
-  private async resolveHouseholdContext(user: UserWithHousehold): Promise<{
+  /**
+   * Lists the user's memberships with every member of each household,
+   * longest-standing member first.
+   */
+  private async getMembershipsWithMembers(
+    userId: string,
+  ): Promise<MembershipWithMembers[]> {
+    return this.prisma.householdMembership.findMany({
+      where: { userId },
+      include: {
+        household: {
+          include: { memberships: { orderBy: { joinedAt: 'asc' } } },
+        },
+      },
+      orderBy: { joinedAt: 'asc' },
+    });
+  }
+
+  /**
+   * Decides what happens to one of the user's households when the account is
+   * deleted.
+   */
+  private planDeparture(
+    userId: string,
+    membership: MembershipWithMembers,
+  ): HouseholdDeparture {
+    const { householdId } = membership;
+    const otherMembers = membership.household.memberships.filter(
+      (m) => m.userId !== userId,
+    );
+
+    if (otherMembers.length === 0) {
+      return { action: 'delete', householdId };
+    }
+    if (
+      membership.role === 'Admin' &&
+      !otherMembers.some((m) => m.role === 'Admin')
+    ) {
+      return {
+        action: 'promote',
+        householdId,
+        nextAdminId: otherMembers[0].userId,
+      };
+    }
+    return { action: 'leave', householdId };
+  }
+
+  /**
+   * Describes the user's active household for the account deletion audit log.
+   */
+  private resolveHouseholdContext(
+    user: UserWithHousehold,
+    memberships: MembershipWithMembers[],
+  ): {
     householdId: string | undefined;
     role: string;
     memberCount: number;
-  }> {
-    const householdId = user.householdId ?? undefined;
-    let memberCount = 0;
-
-    if (user.householdId) {
-      const householdWithMembers = await this.getHouseholdWithMembers(
-        user.householdId,
-      );
-      memberCount = householdWithMembers?.users.length ?? 0;
-    }
+  } {
+    const active = memberships.find(
+      (membership) => membership.householdId === user.householdId,
+    );
 
     return {
-      householdId,
+      householdId: user.householdId ?? undefined,
       role: user.role,
-      memberCount,
+      memberCount: active?.household.memberships.length ?? 0,
     };
   }
 
-  private async getHouseholdWithMembers(
-    householdId: string,
-  ): Promise<HouseholdWithMembers | null> {
-    return this.prisma.household.findUnique({
-      where: { id: householdId },
-      include: {
-        users: { orderBy: { createdAt: 'asc' } },
-      },
-    });
-  }
-
-  private async deleteSoleAdminHousehold(
+  private async clearActiveHousehold(
     tx: Prisma.TransactionClient,
     userId: string,
-    householdId: string,
   ): Promise<void> {
     await tx.user.update({
       where: { id: userId },
       data: { householdId: null },
     });
+  }
+
+  private async deleteHouseholdWithoutMembers(
+    tx: Prisma.TransactionClient,
+    householdId: string,
+  ): Promise<void> {
     await tx.household.delete({
       where: { id: householdId },
     });
     this.logger.log('Deleted household (sole member)', { householdId });
   }
 
-  private async promoteNextAdminAndLeaveHousehold(
+  /**
+   * Makes a member admin, updating the cached `User.role` when the household
+   * is the member's active one.
+   */
+  private async promoteAdmin(
     tx: Prisma.TransactionClient,
-    user: UserWithHousehold,
+    householdId: string,
+    nextAdminId: string,
   ): Promise<void> {
-    const householdWithMembers = await tx.household.findUnique({
-      where: { id: user.householdId! },
-      include: { users: { orderBy: { createdAt: 'asc' } } },
-    });
-
-    if (!householdWithMembers) {
-      throw new Error('Household not found during admin promotion');
-    }
-
-    const otherMembers = householdWithMembers.users.filter(
-      (u) => u.id !== user.id && u.householdId === user.householdId,
-    );
-
-    if (otherMembers.length === 0) {
-      throw new Error('No eligible members to promote to admin');
-    }
-
-    const nextAdmin = otherMembers[0];
-
-    await tx.user.update({
-      where: { id: nextAdmin.id },
+    await tx.householdMembership.update({
+      where: {
+        userId_householdId: { userId: nextAdminId, householdId },
+      },
       data: { role: 'Admin' },
     });
-    await tx.user.update({
-      where: { id: user.id },
-      data: { householdId: null },
+    await tx.user.updateMany({
+      where: { id: nextAdminId, householdId },
+      data: { role: 'Admin' },
     });
 
     this.logger.log('Promoted member to admin', {
-      householdId: user.householdId,
-      promotedUserId: nextAdmin.id,
-    });
-  }
-
-  private async removeUserFromHousehold(
-    tx: Prisma.TransactionClient,
-    userId: string,
-  ): Promise<void> {
-    await tx.user.update({
-      where: { id: userId },
-      data: { householdId: null },
+      householdId,
+      promotedUserId: nextAdminId,
     });
   }
 
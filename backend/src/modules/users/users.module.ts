@@ -4,9 +4,10 @@ import { UsersService } from './services/users.service';
 import { UsersRepository } from './repositories/users.repository';
 import { AuditModule } from '../audit/audit.module';
 import { PrismaModule } from '../../infrastructure/database/prisma/prisma.module';
+import { RealtimeModule } from '../realtime/realtime.module';
 
 @Module({
-  imports: [PrismaModule, AuditModule],
+  imports: [PrismaModule, AuditModule, RealtimeModule],
   controllers: [UsersController],
   providers: [UsersService, UsersRepository],
   exports: [UsersService],
@@ -100,6 +100,7 @@ describe('Guest Mode No-Sync Integration', () => {
       callMethod: (service) => service.getChores(),
       mockApiResponse: () => {
         (api.get as jest.Mock).mockResolvedValue({
+          overdue: [],
           today: [],
           upcoming: [],
         });
@@ -110,6 +110,13 @@ const DEFAULT_TRANSLATIONS: Record<TranslationKey, string> = {
   'listPanel.deleteListAccessibility': 'Delete {{name}} list',
   'listPanel.expandCategoryHint': 'Double tap to expand and show items in this category',
   'listPanel.collapseCategoryHint': 'Double tap to collapse and hide items in this category',
+  'listPanel.filterAll': 'All items',
+  'listPanel.filterMine': 'My items',
+  'listPanel.claimItem': "I'll buy {{name}}",
+  'listPanel.releaseClaim': 'Stop buying {{name}}',
+  'listPanel.claimedBy': '{{member}} is buying {{name}}. Tap to buy it yourself',
+  'listPanel.checkedBy': 'Checked by {{member}}',
+  'listPanel.myItemsEmptyTitle': "You haven't claimed anything",
   
   // Shopping screen
   'screen.headerTitle': 'Shopping List',
@@ -15,6 +15,7 @@ const navItemConfigs: NavItemConfig[] = [
   { key: 'Shopping', icon: 'cart-outline', iconActive: 'cart', labelKey: 'navigation.shop' },
   { key: 'Chores', icon: 'checkbox-outline', iconActive: 'checkbox', labelKey: 'navigation.chores' },
   { key: 'Recipes', icon: 'book-outline', iconActive: 'book', labelKey: 'navigation.recipes' },
+  { key: 'Planner', icon: 'calendar-outline', iconActive: 'calendar', labelKey: 'navigation.planner' },
   { key: 'Settings', icon: 'person-outline', iconActive: 'person', labelKey: 'navigation.profile' },
 ];
 
@@ -1,6 +1,6 @@
 import { Ionicons } from '@expo/vector-icons';
 
-export type TabKey = 'Dashboard' | 'Shopping' | 'Recipes' | 'Chores' | 'Settings';
+export type TabKey = 'Dashboard' | 'Shopping' | 'Recipes' | 'Chores' | 'Planner' | 'Settings';
 
 export interface NavItem {
   key: TabKey;
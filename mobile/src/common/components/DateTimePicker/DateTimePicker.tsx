@@ -20,16 +20,22 @@ export function DateTimePicker({
   displayFormat = 'MMM D, YYYY h:mm A',
   timeFormat = '12h',
   minuteInterval = 1,
+  allDay = false,
+  onAllDayChange,
+  allDayDisplayFormat = 'MMM D, YYYY',
 }: DateTimePickerProps) {
   const { t, i18n } = useTranslation('common');
   const [modalVisible, setModalVisible] = useState(false);
 
   const handleConfirm = useCallback(
-    (date: Date) => {
+    (date: Date, confirmedAllDay: boolean) => {
       onChange(date);
+      if (confirmedAllDay !== allDay) {
+        onAllDayChange?.(confirmedAllDay);
+      }
       setModalVisible(false);
     },
-    [onChange]
+    [onChange, onAllDayChange, allDay]
   );
 
   const handleClose = useCallback(() => {
@@ -61,8 +67,10 @@ export function DateTimePicker({
 
   const formattedValue = useMemo(() => {
     if (!normalizedValue) return null;
-    return dayjs(normalizedValue).locale(locale).format(displayFormat);
-  }, [normalizedValue, locale, displayFormat]);
+    return dayjs(normalizedValue)
+      .locale(locale)
+      .format(allDay ? allDayDisplayFormat : displayFormat);
+  }, [normalizedValue, locale, displayFormat, allDay, allDayDisplayFormat]);
 
   return (
     <>
@@ -85,6 +93,8 @@ export function DateTimePicker({
         accentColor={accentColor}
         timeFormat={timeFormat}
         minuteInterval={minuteInterval}
+        allDay={allDay}
+        showAllDayToggle={onAllDayChange !== undefined}
       />
     </>
   );
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Platform } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, Platform, Switch } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
 import { CenteredModal } from '../CenteredModal';
@@ -20,31 +20,50 @@ export function DateTimePickerModal({
   accentColor,
   timeFormat,
   minuteInterval,
+  allDay,
+  showAllDayToggle,
 }: DateTimePickerModalProps) {
   const { t, i18n } = useTranslation('common');
   const locale = useMemo(() => i18n.resolvedLanguage || i18n.language || undefined, [i18n.resolvedLanguage, i18n.language]);
   const [activeTab, setActiveTab] = useState<ActiveTab>('date');
   const [tempDate, setTempDate] = useState<Date>(value || new Date());
+  const [tempAllDay, setTempAllDay] = useState(allDay);
   const [showAndroidDatePicker, setShowAndroidDatePicker] = useState(false);
   const [showAndroidTimePicker, setShowAndroidTimePicker] = useState(false);
 
   useEffect(() => {
     if (visible) {
       setTempDate(value || new Date());
+      setTempAllDay(allDay);
       setActiveTab('date');
       setShowAndroidDatePicker(false);
       setShowAndroidTimePicker(false);
     }
-  }, [visible, value]);
+  }, [visible, value, allDay]);
 
   const handleConfirm = () => {
-    onConfirm(tempDate);
+    if (tempAllDay) {
+      // All-day values keep only the date
+      const startOfDay = new Date(tempDate);
+      startOfDay.setHours(0, 0, 0, 0);
+      onConfirm(startOfDay, true);
+      return;
+    }
+    onConfirm(tempDate, false);
+  };
+
+  const handleAllDayChange = (nextAllDay: boolean) => {
+    setTempAllDay(nextAllDay);
+    setActiveTab('date');
+    setShowAndroidTimePicker(false);
   };
 
   const handleWebDateChange = (date: Date) => {
     setTempDate(date);
     // Auto-advance to time tab after selecting date
-    setActiveTab('time');
+    if (!tempAllDay) {
+      setActiveTab('time');
+    }
   };
 
   const handleNativeDateTimeChange = (event: DateTimePickerEvent, selectedDate?: Date) => {
@@ -134,11 +153,12 @@ export function DateTimePickerModal({
         <View style={styles.androidPickerContainer}>
           <Text style={styles.androidPreviewLabel}>{t('dateTimePicker.selected')}</Text>
           <Text style={styles.androidPreviewText}>
-            {tempDate.toLocaleDateString(locale)} {tempDate.toLocaleTimeString(locale, {
+            {tempDate.toLocaleDateString(locale)}
+            {!tempAllDay && ` ${tempDate.toLocaleTimeString(locale, {
               hour: '2-digit',
               minute: '2-digit',
               hour12: timeFormat === '12h'
-            })}
+            })}`}
           </Text>
           <TouchableOpacity
             style={[styles.androidPickerButton, { borderColor: accentColor }]}
@@ -154,20 +174,22 @@ export function DateTimePickerModal({
               {t('dateTimePicker.changeDate')}
             </Text>
           </TouchableOpacity>
-          <TouchableOpacity
-            style={[styles.androidPickerButton, { borderColor: accentColor }]}
-            onPress={() => {
-              setShowAndroidDatePicker(false);
-              setShowAndroidTimePicker(true);
-            }}
-            accessibilityRole="button"
-            accessibilityLabel={t('dateTimePicker.accessibility.changeTime')}
-          >
-            <Ionicons name="time" size={20} color={accentColor} />
-            <Text style={[styles.androidPickerButtonText, { color: accentColor }]}>
-              {t('dateTimePicker.changeTime')}
-            </Text>
-          </TouchableOpacity>
+          {!tempAllDay && (
+            <TouchableOpacity
+              style={[styles.androidPickerButton, { borderColor: accentColor }]}
+              onPress={() => {
+                setShowAndroidDatePicker(false);
+                setShowAndroidTimePicker(true);
+              }}
+              accessibilityRole="button"
+              accessibilityLabel={t('dateTimePicker.accessibility.changeTime')}
+            >
+              <Ionicons name="time" size={20} color={accentColor} />
+              <Text style={[styles.androidPickerButtonText, { color: accentColor }]}>
+                {t('dateTimePicker.changeTime')}
+              </Text>
+            </TouchableOpacity>
+          )}
 
           {showAndroidDatePicker && (
             <DateTimePicker
@@ -223,13 +245,27 @@ export function DateTimePickerModal({
     <CenteredModal
       visible={visible}
       onClose={onClose}
-      title={t('dateTimePicker.title')}
+      title={tempAllDay ? t('dateTimePicker.dateTitle') : t('dateTimePicker.title')}
       confirmText={t('dateTimePicker.confirm')}
       onConfirm={handleConfirm}
       confirmColor={accentColor}
     >
-      {/* Tab Switcher - only show on iOS and Web */}
-      {Platform.OS !== 'android' && (
+      {showAllDayToggle && (
+        <View style={styles.allDayRow}>
+          <Text style={styles.allDayLabel}>{t('dateTimePicker.allDay')}</Text>
+          <Switch
+            testID="date-time-picker-all-day"
+            value={tempAllDay}
+            onValueChange={handleAllDayChange}
+            trackColor={{ false: colors.border, true: accentColor }}
+            thumbColor={colors.surface}
+            accessibilityLabel={t('dateTimePicker.allDay')}
+          />
+        </View>
+      )}
+
+      {/* Tab Switcher - only show on iOS and Web, and only when there is a time to pick */}
+      {Platform.OS !== 'android' && !tempAllDay && (
         <View style={styles.tabContainer} accessibilityRole="tablist">
           {renderTabButton('date', 'calendar', t('dateTimePicker.tabs.date'))}
           {renderTabButton('time', 'time', t('dateTimePicker.tabs.time'))}
@@ -242,6 +278,17 @@ export function DateTimePickerModal({
 }
 
 const styles = StyleSheet.create({
+  allDayRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: spacing.md,
+  },
+  allDayLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
   tabContainer: {
     flexDirection: 'row',
     backgroundColor: colors.background,
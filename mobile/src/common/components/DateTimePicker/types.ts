@@ -31,6 +31,15 @@ export interface DateTimePickerProps {
 
   /** Minute interval for time selection (default: 1) */
   minuteInterval?: 1 | 5 | 10 | 15 | 30;
+
+  /** Whether the value is a whole day without a time */
+  allDay?: boolean;
+
+  /** Callback when the all-day switch is confirmed; the switch is only shown when set */
+  onAllDayChange?: (allDay: boolean) => void;
+
+  /** Date format string for all-day values (dayjs format) */
+  allDayDisplayFormat?: string;
 }
 
 export interface DateTimePickerButtonProps {
@@ -45,13 +54,15 @@ export interface DateTimePickerButtonProps {
 export interface DateTimePickerModalProps {
   visible: boolean;
   onClose: () => void;
-  onConfirm: (date: Date) => void;
+  onConfirm: (date: Date, allDay: boolean) => void;
   value: Date | null;
   minDate?: Date;
   maxDate?: Date;
   accentColor: string;
   timeFormat: '12h' | '24h';
   minuteInterval: 1 | 5 | 10 | 15 | 30;
+  allDay: boolean;
+  showAllDayToggle: boolean;
 }
 
 export interface TimePickerWebProps {
@@ -3,6 +3,7 @@
  * 
  * Compact, dismissible offline indicator with sync status.
  * Shows offline state, pending sync count, or syncing state.
+ * Opens the sync issues screen when pressed while writes need attention.
  */
 
 import React, { useState, useEffect } from 'react';
@@ -29,10 +30,11 @@ export function OfflinePill({
   position = 'bottom-right',
   dismissible = false,
   showPendingCount = true,
+  onPressIssues,
 }: OfflinePillProps) {
   const { t } = useTranslation('common');
   const { isOffline } = useNetwork();
-  const { totalPending, isProcessing, failedCount } = useSyncQueueStatus();
+  const { totalPending, isProcessing, failedCount, issueCount } = useSyncQueueStatus();
   const [isDismissed, setIsDismissed] = useState(false);
   const opacity = useSharedValue(0);
 
@@ -58,6 +60,7 @@ export function OfflinePill({
     isProcessing || // Show when syncing
     (failedCount > 0) // Show when there are failed items
   );
+  const canReviewIssues = Boolean(onPressIssues) && issueCount > 0;
 
   // Animate appearance/disappearance
   useEffect(() => {
@@ -142,16 +145,24 @@ export function OfflinePill({
       entering={FadeIn.duration(300)}
       exiting={FadeOut.duration(300)}
     >
-      {content.showSpinner ? (
-        <ActivityIndicator size="small" color={content.color} />
-      ) : content.icon ? (
-        <View style={styles.iconContainer}>
-          <Ionicons name={content.icon} size={16} color={content.color} />
-        </View>
-      ) : null}
-      <Text style={[styles.text, { color: content.color }]}>
-        {content.text}
-      </Text>
+      <TouchableOpacity
+        style={styles.content}
+        onPress={onPressIssues}
+        disabled={!canReviewIssues}
+        accessibilityRole={canReviewIssues ? 'button' : undefined}
+        accessibilityHint={canReviewIssues ? t('offline.reviewIssues') : undefined}
+      >
+        {content.showSpinner ? (
+          <ActivityIndicator size="small" color={content.color} />
+        ) : content.icon ? (
+          <View style={styles.iconContainer}>
+            <Ionicons name={content.icon} size={16} color={content.color} />
+          </View>
+        ) : null}
+        <Text style={[styles.text, { color: content.color }]}>
+          {content.text}
+        </Text>
+      </TouchableOpacity>
       {dismissible && (
         <TouchableOpacity
           style={styles.dismissButton}
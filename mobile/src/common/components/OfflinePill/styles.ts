@@ -35,6 +35,11 @@ export const createStyles = (position: OfflinePillPosition) => {
       zIndex: zIndex.overlay,
       minWidth: 80,
     },
+    content: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: spacing.xs,
+    },
     iconContainer: {
       width: 20,
       height: 20,
@@ -22,4 +22,10 @@ export interface OfflinePillProps {
    * @default true
    */
   showPendingCount?: boolean;
+
+  /**
+   * Called when the pill is pressed while there are sync issues
+   * (failed or conflicted writes). The pill is not pressable without it.
+   */
+  onPressIssues?: () => void;
 }
@@ -1,5 +1,5 @@
 import React, { useCallback, useEffect, useRef, useState } from 'react';
-import { View, Text } from 'react-native';
+import { View, Text, TouchableOpacity } from 'react-native';
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
@@ -13,6 +13,8 @@ import type { ToastProps, ToastType } from './types';
 
 const ANIMATION_DURATION = 300;
 const DEFAULT_TOAST_DURATION = 2500;
+/** Toasts offering "Undo" stay up longer so there is time to react. */
+export const UNDO_TOAST_DURATION = 5000;
 
 const getIcon = (type: ToastType): keyof typeof Ionicons.glyphMap => {
   switch (type) {
@@ -43,6 +45,7 @@ export function Toast({
   message,
   type = 'success',
   duration = DEFAULT_TOAST_DURATION,
+  action,
   onHide,
 }: ToastProps) {
   const translateY = useSharedValue(-100);
@@ -104,6 +107,18 @@ export function Toast({
     }
   }, [visible, duration, hideAndNotify, unmountToast]);
 
+  const handleActionPress = useCallback(() => {
+    if (hideTimerRef.current) {
+      clearTimeout(hideTimerRef.current);
+      hideTimerRef.current = null;
+    }
+    action?.onPress();
+    translateY.value = withTiming(-100, { duration: ANIMATION_DURATION });
+    opacity.value = withTiming(0, { duration: ANIMATION_DURATION }, () => {
+      runOnJS(hideAndNotify)();
+    });
+  }, [action, hideAndNotify]);
+
   const animatedStyle = useAnimatedStyle(() => ({
     transform: [{ translateY: translateY.value }],
     opacity: opacity.value,
@@ -114,12 +129,22 @@ export function Toast({
   }
 
   return (
-    <View style={styles.container}>
+    <View style={[styles.container, action && styles.containerInteractive]}>
       <Animated.View style={[styles.toast, animatedStyle]}>
         <View style={[styles.iconContainer, getIconContainerStyle(type)]}>
           <Ionicons name={getIcon(type)} size={14} color="white" />
         </View>
         <Text style={styles.message}>{message}</Text>
+        {action && (
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={handleActionPress}
+            accessibilityRole="button"
+            accessibilityLabel={action.label}
+          >
+            <Text style={styles.actionText}>{action.label}</Text>
+          </TouchableOpacity>
+        )}
       </Animated.View>
     </View>
   );
@@ -0,0 +1,40 @@
+import React from 'react';
+import { fireEvent, render } from '@testing-library/react-native';
+import { Toast } from '../Toast';
+
+jest.mock('react-native-reanimated', () => {
+  const Reanimated = require('react-native-reanimated/mock');
+  Reanimated.default.call = () => {};
+  return Reanimated;
+});
+
+jest.mock('@expo/vector-icons', () => ({
+  Ionicons: 'Ionicons',
+}));
+
+describe('Toast', () => {
+  it('shows the message without an action by default', () => {
+    const { getByText, queryByRole } = render(
+      <Toast visible message="Saved" onHide={jest.fn()} />,
+    );
+
+    expect(getByText('Saved')).toBeTruthy();
+    expect(queryByRole('button')).toBeNull();
+  });
+
+  it('runs the action when it is pressed', () => {
+    const onPress = jest.fn();
+    const { getByRole } = render(
+      <Toast
+        visible
+        message="Milk removed"
+        action={{ label: 'Undo', onPress }}
+        onHide={jest.fn()}
+      />,
+    );
+
+    fireEvent.press(getByRole('button', { name: 'Undo' }));
+
+    expect(onPress).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,2 +1,2 @@
-export { Toast } from './Toast';
-export type { ToastProps, ToastType } from './types';
+export { Toast, UNDO_TOAST_DURATION } from './Toast';
+export type { ToastAction, ToastProps, ToastType } from './types';
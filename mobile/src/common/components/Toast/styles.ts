@@ -13,6 +13,9 @@ export const styles = StyleSheet.create({
     zIndex: zIndex.tooltip,
     pointerEvents: 'none',
   },
+  containerInteractive: {
+    pointerEvents: 'box-none',
+  },
   toast: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -44,4 +47,16 @@ export const styles = StyleSheet.create({
     letterSpacing: 0.5,
     textTransform: 'uppercase',
   },
+  actionButton: {
+    marginStart: spacing.sm,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  actionText: {
+    color: colors.success,
+    fontSize: 12,
+    fontWeight: '800',
+    letterSpacing: 0.5,
+    textTransform: 'uppercase',
+  },
 });
@@ -1,9 +1,17 @@
 export type ToastType = 'success' | 'info' | 'error';
 
+/** Button shown at the end of the toast, e.g. "Undo" after a delete. */
+export interface ToastAction {
+  label: string;
+  onPress: () => void;
+}
+
 export interface ToastProps {
   visible: boolean;
   message: string;
   type?: ToastType;
   duration?: number;
+  /** Pressing the action runs it and hides the toast right away. */
+  action?: ToastAction;
   onHide: () => void;
 }
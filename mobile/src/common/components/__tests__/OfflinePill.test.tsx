@@ -5,7 +5,7 @@
  */
 
 import React from 'react';
-import { render } from '@testing-library/react-native';
+import { render, fireEvent } from '@testing-library/react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { OfflinePill } from '../OfflinePill';
 
@@ -130,4 +130,36 @@ describe('OfflinePill', () => {
       expect(getByText('offline.pending')).toBeTruthy();
     });
   });
+
+  describe('onPressIssues prop', () => {
+    it('should call onPressIssues when pressed while there are sync issues', () => {
+      const onPressIssues = jest.fn();
+      mockedUseSyncQueueStatus.mockReturnValue({
+        totalPending: 0,
+        isProcessing: false,
+        failedCount: 2,
+        issueCount: 2,
+      });
+
+      const { getByText } = render(<OfflinePill onPressIssues={onPressIssues} />);
+      fireEvent.press(getByText('offline.failedCount'));
+
+      expect(onPressIssues).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not be pressable without sync issues', () => {
+      const onPressIssues = jest.fn();
+      mockedUseSyncQueueStatus.mockReturnValue({
+        totalPending: 3,
+        isProcessing: false,
+        failedCount: 0,
+        issueCount: 0,
+      });
+
+      const { getByText } = render(<OfflinePill onPressIssues={onPressIssues} />);
+      fireEvent.press(getByText('offline.pendingCount'));
+
+      expect(onPressIssues).not.toHaveBeenCalled();
+    });
+  });
 });
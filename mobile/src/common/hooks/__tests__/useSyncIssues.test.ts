@@ -0,0 +1,141 @@
+/**
+ * useSyncIssues Hook Tests
+ *
+ * Tests listing failed/conflicted queued writes and the resolution actions.
+ */
+
+import { renderHook, act, waitFor } from '@testing-library/react-native';
+import { useSyncIssues } from '../useSyncIssues';
+import { syncQueueStorage, type QueuedWrite } from '../../utils/syncQueueStorage';
+import { getSyncQueueProcessor } from '../../utils/syncQueueProcessor';
+import { getIsOnline } from '../../utils/networkStatus';
+import { cacheEvents } from '../../utils/cacheEvents';
+import { invalidateCache } from '../../repositories/cacheAwareRepository';
+
+jest.mock('../../utils/syncQueueStorage', () => ({
+  syncQueueStorage: {
+    getAll: jest.fn(),
+    requeue: jest.fn(),
+    remove: jest.fn(),
+  },
+}));
+
+jest.mock('../../utils/syncQueueProcessor', () => ({
+  getSyncQueueProcessor: jest.fn(),
+}));
+
+jest.mock('../../utils/networkStatus', () => ({
+  getIsOnline: jest.fn(),
+}));
+
+jest.mock('../../utils/cacheEvents', () => ({
+  cacheEvents: {
+    onCacheChange: jest.fn(() => jest.fn()),
+    emitCacheChange: jest.fn(),
+  },
+}));
+
+jest.mock('../../repositories/cacheAwareRepository', () => ({
+  invalidateCache: jest.fn(),
+}));
+
+const mockSyncQueueStorage = syncQueueStorage as jest.Mocked<typeof syncQueueStorage>;
+
+const buildWrite = (overrides: Partial<QueuedWrite> = {}): QueuedWrite => ({
+  id: 'queue-1',
+  operationId: 'op-1',
+  entityType: 'chores',
+  op: 'update',
+  target: { localId: 'chore-1', serverId: 'chore-1' },
+  payload: { id: 'chore-1', title: 'Dishes' },
+  clientTimestamp: '2026-01-25T10:00:00.000Z',
+  attemptCount: 3,
+  status: 'FAILED_PERMANENT',
+  ...overrides,
+});
+
+describe('useSyncIssues', () => {
+  const mockStart = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    mockSyncQueueStorage.getAll.mockResolvedValue([]);
+    mockSyncQueueStorage.requeue.mockResolvedValue(undefined);
+    mockSyncQueueStorage.remove.mockResolvedValue(undefined);
+    (getSyncQueueProcessor as jest.Mock).mockReturnValue({ start: mockStart });
+    (getIsOnline as jest.Mock).mockReturnValue(true);
+    (invalidateCache as jest.Mock).mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('lists only failed and conflicted writes', async () => {
+    const failed = buildWrite();
+    const conflicted = buildWrite({
+      id: 'queue-2',
+      status: 'RETRYING',
+      conflict: { reason: 'not_found', reportedAt: '2026-01-25T11:00:00.000Z' },
+    });
+    mockSyncQueueStorage.getAll.mockResolvedValue([
+      buildWrite({ id: 'queue-3', status: 'PENDING' }),
+      failed,
+      conflicted,
+    ]);
+
+    const { result } = renderHook(() => useSyncIssues());
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+    expect(result.current.issues).toEqual([failed, conflicted]);
+  });
+
+  describe.each([
+    ['retry', false],
+    ['keepMine', true],
+  ] as const)('%s', (action, overwriteServer) => {
+    it('requeues the write and starts the sync worker', async () => {
+      const { result } = renderHook(() => useSyncIssues());
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+      await act(async () => {
+        await result.current[action](buildWrite());
+      });
+
+      expect(mockSyncQueueStorage.requeue).toHaveBeenCalledWith('queue-1', overwriteServer);
+      expect(mockStart).toHaveBeenCalled();
+    });
+  });
+
+  it('does not start the sync worker while offline', async () => {
+    (getIsOnline as jest.Mock).mockReturnValue(false);
+    const { result } = renderHook(() => useSyncIssues());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await act(async () => {
+      await result.current.retry(buildWrite());
+    });
+
+    expect(mockSyncQueueStorage.requeue).toHaveBeenCalledWith('queue-1', false);
+    expect(mockStart).not.toHaveBeenCalled();
+  });
+
+  describe.each(['keepTheirs', 'discard'] as const)('%s', (action) => {
+    it('removes the write and reloads the entity type from the server', async () => {
+      const { result } = renderHook(() => useSyncIssues());
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+      await act(async () => {
+        await result.current[action](buildWrite());
+      });
+
+      expect(mockSyncQueueStorage.remove).toHaveBeenCalledWith('queue-1');
+      expect(invalidateCache).toHaveBeenCalledWith('chores');
+      expect(cacheEvents.emitCacheChange).toHaveBeenCalledWith('chores');
+      expect(mockSyncQueueStorage.requeue).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -107,6 +107,22 @@ describe('useSyncQueueStatus', () => {
     });
   });
 
+  describe('sync issues', () => {
+    it('should count failed and conflicted items as issues', async () => {
+      mockSyncQueueStorage.getAll.mockResolvedValue([
+        { status: 'PENDING' },
+        { status: 'RETRYING', conflict: { reason: 'not_found', reportedAt: '2026-01-25T10:00:00.000Z' } },
+        { status: 'FAILED_PERMANENT' },
+      ] as QueuedWrite[]);
+
+      const { result } = renderHook(() => useSyncQueueStatus());
+
+      await waitFor(() => {
+        expect(result.current.issueCount).toBe(2);
+      });
+    });
+  });
+
   describe('polling', () => {
     it('should poll queue status every 2 seconds', async () => {
       mockSyncQueueStorage.getAll.mockResolvedValue([]);
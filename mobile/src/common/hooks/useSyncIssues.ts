@@ -0,0 +1,98 @@
+/**
+ * useSyncIssues Hook
+ *
+ * Lists queued writes that need the user's attention (permanently failed, or
+ * conflicted with the server) and the actions to resolve them.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { syncQueueStorage, type QueuedWrite } from '../utils/syncQueueStorage';
+import { getSyncQueueProcessor } from '../utils/syncQueueProcessor';
+import { isSyncIssue } from '../utils/syncStatusUtils';
+import { getIsOnline } from '../utils/networkStatus';
+import { cacheEvents } from '../utils/cacheEvents';
+import { invalidateCache } from '../repositories/cacheAwareRepository';
+import type { SyncEntityType } from '../utils/cacheMetadata';
+
+/**
+ * Polling interval for sync issue updates (in milliseconds).
+ * Retried writes can fail again without a cache event.
+ */
+const SYNC_ISSUES_POLL_INTERVAL_MS = 2000;
+
+const ENTITY_TYPES: SyncEntityType[] = ['recipes', 'shoppingLists', 'shoppingItems', 'chores'];
+
+/**
+ * Hook to review and resolve sync issues.
+ *
+ * - `retry`: send the write again as queued
+ * - `keepMine`: send the full local version, overwriting the server copy
+ * - `keepTheirs`: drop the local change and reload the server copy
+ * - `discard`: drop the local change
+ *
+ * @returns Sync issues, loading state and resolution actions
+ */
+export function useSyncIssues(): {
+  issues: QueuedWrite[];
+  isLoading: boolean;
+  refresh: () => Promise<void>;
+  retry: (issue: QueuedWrite) => Promise<void>;
+  keepMine: (issue: QueuedWrite) => Promise<void>;
+  keepTheirs: (issue: QueuedWrite) => Promise<void>;
+  discard: (issue: QueuedWrite) => Promise<void>;
+} {
+  const [issues, setIssues] = useState<QueuedWrite[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const queue = await syncQueueStorage.getAll();
+      setIssues(queue.filter(isSyncIssue));
+    } catch (error) {
+      console.error('Failed to load sync issues:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+
+    const intervalId = setInterval(refresh, SYNC_ISSUES_POLL_INTERVAL_MS);
+    const unsubscribeHandlers = ENTITY_TYPES.map((entityType) =>
+      cacheEvents.onCacheChange(entityType, refresh)
+    );
+
+    return () => {
+      clearInterval(intervalId);
+      unsubscribeHandlers.forEach((unsubscribe) => unsubscribe());
+    };
+  }, [refresh]);
+
+  const requeue = useCallback(
+    async (issue: QueuedWrite, overwriteServer: boolean) => {
+      await syncQueueStorage.requeue(issue.id, overwriteServer);
+      if (getIsOnline()) {
+        getSyncQueueProcessor().start();
+      }
+      await refresh();
+    },
+    [refresh]
+  );
+
+  const drop = useCallback(
+    async (issue: QueuedWrite) => {
+      await syncQueueStorage.remove(issue.id);
+      // The cache still holds the local change; reload it from the server
+      await invalidateCache(issue.entityType);
+      cacheEvents.emitCacheChange(issue.entityType);
+      await refresh();
+    },
+    [refresh]
+  );
+
+  const retry = useCallback((issue: QueuedWrite) => requeue(issue, false), [requeue]);
+  const keepMine = useCallback((issue: QueuedWrite) => requeue(issue, true), [requeue]);
+
+  return { issues, isLoading, refresh, retry, keepMine, keepTheirs: drop, discard: drop };
+}
@@ -8,7 +8,7 @@
 import { useState, useEffect, useMemo, useCallback } from 'react';
 import { syncQueueStorage, type QueuedWriteStatus } from '../utils/syncQueueStorage';
 import { getSyncQueueProcessor } from '../utils/syncQueueProcessor';
-import { isEntityInQueue, getEntityQueueStatus, isEntityPending } from '../utils/syncStatusUtils';
+import { isEntityInQueue, getEntityQueueStatus, isEntityPending, isSyncIssue } from '../utils/syncStatusUtils';
 import { cacheEvents } from '../utils/cacheEvents';
 import type { SyncEntityType } from '../utils/cacheMetadata';
 
@@ -22,6 +22,7 @@ const QUEUE_STATUS_POLL_INTERVAL_MS = 2000;
  * Hook to get sync queue statistics
  * 
  * Returns counts of pending, retrying, and failed items, plus processing state.
+ * `issueCount` counts writes listed under sync issues (failed or conflicted).
  * Automatically polls queue status when online.
  * 
  * @returns Object with queue statistics and processing state
@@ -30,6 +31,7 @@ export function useSyncQueueStatus(): {
   pendingCount: number;
   retryingCount: number;
   failedCount: number;
+  issueCount: number;
   isProcessing: boolean;
   totalPending: number;
 } {
@@ -78,11 +80,13 @@ export function useSyncQueueStatus(): {
     const retryingCount = queue.filter(item => item.status === 'RETRYING').length;
     const failedCount = queue.filter(item => item.status === 'FAILED_PERMANENT').length;
     const totalPending = pendingCount + retryingCount;
+    const issueCount = queue.filter(isSyncIssue).length;
 
     return {
       pendingCount,
       retryingCount,
       failedCount,
+      issueCount,
       isProcessing,
       totalPending,
     };
@@ -0,0 +1,95 @@
+/**
+ * Tests for delta refresh in the cache layer (pullCached / applyDeltaToCache).
+ *
+ * Uses the in-memory AsyncStorage mock so cache data and metadata round-trip
+ * through the real storage helpers.
+ */
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { pullCached, readCachedEntitiesForUpdate, setCached, type CacheDelta } from '../cacheAwareRepository';
+import { getCacheMetadata, updateCacheMetadata } from '../../utils/cacheMetadata';
+
+type TestEntity = {
+  id: string;
+  title: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+  deletedAt?: Date;
+};
+
+const getId = (entity: TestEntity) => entity.id;
+const at = (iso: string) => new Date(iso);
+
+describe('pullCached', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('does a full pull without a stored cursor and stores the new one', async () => {
+    const fetchDelta = jest.fn(
+      async (): Promise<CacheDelta<TestEntity>> => ({
+        entities: [
+          { id: 'a', title: 'Soup', updatedAt: at('2026-03-01T10:00:00Z') },
+          { id: 'b', title: 'Gone', deletedAt: at('2026-03-01T10:00:00Z') },
+        ],
+        cursor: '100',
+        full: true,
+      })
+    );
+
+    const result = await pullCached('recipes', fetchDelta, getId, true);
+
+    expect(fetchDelta).toHaveBeenCalledWith(null);
+    expect(result.map(getId)).toEqual(['a']);
+    expect((await getCacheMetadata('recipes'))?.syncCursor).toBe('100');
+  });
+
+  it('merges changes since the stored cursor into the cache', async () => {
+    await setCached<TestEntity>(
+      'recipes',
+      [
+        { id: 'a', title: 'Soup', updatedAt: at('2026-03-01T10:00:00Z') },
+        { id: 'b', title: 'Salad', updatedAt: at('2026-03-01T10:00:00Z') },
+        { id: 'c', title: 'Stew', updatedAt: at('2026-03-01T10:00:00Z') },
+      ],
+      getId
+    );
+    await updateCacheMetadata('recipes', new Date().toISOString(), '100');
+    const fetchDelta = jest.fn(
+      async (): Promise<CacheDelta<TestEntity>> => ({
+        entities: [
+          { id: 'a', title: 'Tomato soup', updatedAt: at('2026-03-02T10:00:00Z') },
+          { id: 'b', title: 'Salad', updatedAt: at('2026-03-02T10:00:00Z'), deletedAt: at('2026-03-02T10:00:00Z') },
+          { id: 'd', title: 'Pie', updatedAt: at('2026-03-02T10:00:00Z') },
+        ],
+        cursor: '200',
+        full: false,
+      })
+    );
+
+    await pullCached('recipes', fetchDelta, getId, true);
+
+    expect(fetchDelta).toHaveBeenCalledWith('100');
+    const cached = await readCachedEntitiesForUpdate<TestEntity>('recipes');
+    expect(cached.map((entity) => [entity.id, entity.title])).toEqual([
+      ['a', 'Tomato soup'],
+      ['c', 'Stew'],
+      ['d', 'Pie'],
+    ]);
+    expect((await getCacheMetadata('recipes'))?.syncCursor).toBe('200');
+  });
+
+  it('returns the cache without pulling when offline', async () => {
+    await setCached<TestEntity>('recipes', [{ id: 'a', title: 'Soup' }], getId);
+    const fetchDelta = jest.fn();
+
+    const result = await pullCached('recipes', fetchDelta, getId, false);
+
+    expect(fetchDelta).not.toHaveBeenCalled();
+    expect(result.map(getId)).toEqual(['a']);
+  });
+});
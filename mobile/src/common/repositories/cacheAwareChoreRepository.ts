@@ -5,7 +5,7 @@
  * Provides immediate cache returns for reads and background refresh for stale data.
  */
 
-import type { Chore } from '../../mocks/chores';
+import type { Chore, ChoreRecurrence, ChoreRotation } from '../../mocks/chores';
 import type { IChoresService } from '../../features/chores/services/choresService';
 import type { ICacheAwareRepository } from './baseCacheAwareRepository';
 import { EntityTimestamps } from '../types/entityMetadata';
@@ -15,8 +15,12 @@ import {
   readCachedEntitiesForUpdate,
   addEntityToCache,
   updateEntityInCache,
-  removeEntityFromCache
+  removeEntityFromCache,
+  pullCached,
+  type CacheDelta
 } from './cacheAwareRepository';
+import { fetchSyncChanges } from '../utils/syncChanges';
+import { getCacheMetadata } from '../utils/cacheMetadata';
 import { getIsOnline } from '../utils/networkStatus';
 import { api } from '../../services/api';
 import { normalizeTimestampsFromApi } from '../utils/timestamps';
@@ -26,6 +30,8 @@ import { NetworkError } from '../../services/api';
 import { syncQueueStorage, type SyncOp } from '../utils/syncQueueStorage';
 import { getSyncQueueProcessor } from '../utils/syncQueueProcessor';
 import * as Crypto from 'expo-crypto';
+import { recurrenceFromDto } from '../../features/chores/utils/recurrence';
+import { dueDateFromDto } from '../../features/chores/utils/dueDate';
 
 /**
  * DTO types for API responses (matches RemoteChoresService)
@@ -35,26 +41,43 @@ type ChoreDto = {
   title: string;
   assigneeName?: string | null;
   dueDate?: string | Date | null;
+  isAllDay?: boolean;
   isCompleted: boolean;
   repeat?: string | null;
+  recurrence?: ChoreRecurrence | null;
+  rotation?: ChoreRotation | null;
+  nextAssigneeName?: string | null;
+  reminder?: string | null;
 };
 
 type ChoreListResponseDto = {
+  overdue: ChoreDto[];
   today: ChoreDto[];
   upcoming: ChoreDto[];
 };
 
+/**
+ * Chore in a GET /sync/changes delta: the bucket GET /chores lists it under
+ * (null when it isn't listed) plus timestamps.
+ */
+type ChoreChangeDto = ChoreDto & {
+  section: keyof ChoreListResponseDto | null;
+  createdAt?: string | null;
+  updatedAt?: string | null;
+  deletedAt?: string | null;
+};
+
+const SECTION_BY_BUCKET: Record<keyof ChoreListResponseDto, Chore['section']> = {
+  overdue: 'overdue',
+  today: 'today',
+  upcoming: 'thisWeek',
+};
+
 const DEFAULT_CHORE_ICON = '🧹';
 
 /**
  * Helper functions (duplicated from RemoteChoresService for now)
  */
-const parseDate = (value?: string | Date | null): Date | null => {
-  if (!value) return null;
-  const parsed = value instanceof Date ? value : new Date(value);
-  return Number.isNaN(parsed.getTime()) ? null : parsed;
-};
-
 const formatDateLabel = (date: Date | null, section: Chore['section']): string => {
   if (!date) {
     return section === 'today' ? 'Today' : 'Upcoming';
@@ -75,17 +98,12 @@ const formatTimeLabel = (date: Date | null): string | undefined => {
 };
 
 const mapChoreDto = (dto: ChoreDto, section: Chore['section']): Chore => {
-  const dueDate = parseDate(dto.dueDate);
-  const isRecurring = Boolean(dto.repeat);
-  const now = new Date();
-  const isDueTodayLocal =
-    dueDate !== null && dueDate.toDateString() === now.toDateString();
-  // Keep backend today bucket, and also treat local same-day due dates as today.
-  // This avoids timezone bucket drift where a chore due "today" appears as upcoming.
+  const dueDate = dueDateFromDto(dto);
+  const recurrence = recurrenceFromDto(dto);
+  const isRecurring = recurrence !== null;
+  // Backend buckets are computed in the household timezone; keep them as-is
   const resolvedSection: Chore['section'] =
-    section === 'today' || isDueTodayLocal
-      ? 'today'
-      : (isRecurring ? 'recurring' : section);
+    section === 'thisWeek' && isRecurring ? 'recurring' : section;
 
   return {
     id: dto.id,
@@ -93,9 +111,14 @@ const mapChoreDto = (dto: ChoreDto, section: Chore['section']): Chore => {
     title: dto.title,
     assignee: dto.assigneeName ?? undefined,
     dueDate: formatDateLabel(dueDate, resolvedSection),
-    dueTime: formatTimeLabel(dueDate),
-    reminder: undefined,
+    dueTime: dto.isAllDay ? undefined : formatTimeLabel(dueDate),
+    isAllDay: dto.isAllDay ?? false,
+    reminder: dto.reminder ?? undefined,
     isRecurring,
+    recurrencePattern: recurrence?.frequency ?? null,
+    recurrence,
+    rotation: dto.rotation ?? null,
+    nextAssignee: dto.nextAssigneeName ?? undefined,
     isCompleted: dto.isCompleted,
     section: resolvedSection,
     icon: DEFAULT_CHORE_ICON,
@@ -142,6 +165,9 @@ export class CacheAwareChoreRepository implements ICacheAwareRepository<Chore> {
       dueTime: data.dueTime,
       reminder: data.reminder,
       isRecurring: data.isRecurring ?? false,
+      recurrencePattern: data.recurrencePattern ?? data.recurrence?.frequency ?? null,
+      recurrence: data.recurrence ?? null,
+      rotation: data.rotation ?? null,
       isCompleted: data.isCompleted ?? false,
       section: data.section ?? 'today',
       icon: data.icon ?? DEFAULT_CHORE_ICON,
@@ -168,10 +194,12 @@ export class CacheAwareChoreRepository implements ICacheAwareRepository<Chore> {
    * 
    * @param op - Sync operation type (create, update, delete)
    * @param entity - Chore entity to enqueue
+   * @param base - For updates, the chore before the change (three-way merge base)
    */
   private async enqueueWrite(
     op: SyncOp,
-    entity: Chore
+    entity: Chore,
+    base?: Chore
   ): Promise<void> {
     const localId = entity.localId ?? entity.id;
     const serverId = entity.id !== localId ? entity.id : undefined;
@@ -180,7 +208,8 @@ export class CacheAwareChoreRepository implements ICacheAwareRepository<Chore> {
       this.entityType,
       op,
       { localId, serverId },
-      entity // Full entity payload
+      entity, // Full entity payload
+      base
     );
     if (getIsOnline()) {
       getSyncQueueProcessor().start();
@@ -197,17 +226,49 @@ export class CacheAwareChoreRepository implements ICacheAwareRepository<Chore> {
     console.log('[fetchChoresFromApi] Fetching chores from API...');
     const response = await api.get<ChoreListResponseDto>('/chores');
     console.log('[fetchChoresFromApi] API response:', JSON.stringify(response, null, 2));
-    console.log('[fetchChoresFromApi] Response type:', typeof response, 'today:', response.today?.length ?? 0, 'upcoming:', response.upcoming?.length ?? 0);
+    console.log('[fetchChoresFromApi] Response type:', typeof response, 'overdue:', response.overdue?.length ?? 0, 'today:', response.today?.length ?? 0, 'upcoming:', response.upcoming?.length ?? 0);
+    const overdueChores = response.overdue.map((chore) => mapChoreDto(chore, 'overdue'));
     const todayChores = response.today.map((chore) => mapChoreDto(chore, 'today'));
     const upcomingChores = response.upcoming.map((chore) => mapChoreDto(chore, 'thisWeek'));
 
     // Normalize timestamps from API response (server is authority)
-    const allChores = [...todayChores, ...upcomingChores];
+    const allChores = [...overdueChores, ...todayChores, ...upcomingChores];
     const normalized = allChores.map((chore) => normalizeTimestampsFromApi<Chore>(chore));
     console.log('[fetchChoresFromApi] Normalized chores:', normalized.length);
     return normalized;
   }
 
+  /**
+   * Pulls chores changed since a cursor (used by delta refresh)
+   *
+   * Buckets depend on the current day, so the first pull on a new day is a
+   * full one. Chores GET /chores no longer lists (e.g. completed before
+   * today) are applied as tombstones so they drop out of the cache.
+   */
+  private async fetchChoreChanges(since: string | null): Promise<CacheDelta<Chore>> {
+    const metadata = await getCacheMetadata(this.entityType);
+    const isSameDay =
+      metadata !== null &&
+      new Date(metadata.lastSyncedAt).toDateString() === new Date().toDateString();
+
+    const response = await fetchSyncChanges<{ chores: ChoreChangeDto[] }>(
+      'chores',
+      isSameDay ? since : null
+    );
+    return {
+      entities: response.chores.map(({ section, createdAt, updatedAt, deletedAt, ...dto }) =>
+        normalizeTimestampsFromApi<Chore>({
+          ...mapChoreDto(dto, section ? SECTION_BY_BUCKET[section] : 'thisWeek'),
+          createdAt,
+          updatedAt,
+          deletedAt: deletedAt ?? (section ? null : updatedAt),
+        })
+      ),
+      cursor: response.cursor,
+      full: response.full,
+    };
+  }
+
   /**
    * Cache-first read with background refresh
    * Returns cached data immediately, refreshes in background if stale
@@ -223,16 +284,15 @@ export class CacheAwareChoreRepository implements ICacheAwareRepository<Chore> {
   }
 
   /**
-   * Force refresh from API (bypasses cache)
-   * Fetches fresh data from API and updates cache
+   * Refresh from API (bypasses cache freshness)
+   * Pulls only the chores changed since the last refresh and merges them into the cache
    */
   async refresh(): Promise<Chore[]> {
-    return getCached<Chore>(
+    return pullCached<Chore>(
       this.entityType,
-      () => this.fetchChoresFromApi(),
+      (since) => this.fetchChoreChanges(since),
       (chore) => this.getId(chore),
-      getIsOnline(),
-      true // Force refresh
+      getIsOnline()
     );
   }
 
@@ -349,6 +409,7 @@ export class CacheAwareChoreRepository implements ICacheAwareRepository<Chore> {
           originalDate: updated.originalDate ?? optimisticEntity.originalDate,
           section: updated.section ?? optimisticEntity.section,
           recurrencePattern: updated.recurrencePattern ?? optimisticEntity.recurrencePattern,
+          recurrence: updated.recurrence ?? optimisticEntity.recurrence,
         };
         await updateEntityInCache(
           this.entityType,
@@ -360,12 +421,12 @@ export class CacheAwareChoreRepository implements ICacheAwareRepository<Chore> {
         return reconciled;
       } catch (error) {
         if (error instanceof NetworkError) {
-          await this.enqueueWrite('update', optimisticEntity);
+          await this.enqueueWrite('update', optimisticEntity, existing);
         }
         throw error;
       }
     } else {
-      await this.enqueueWrite('update', optimisticEntity);
+      await this.enqueueWrite('update', optimisticEntity, existing);
       return optimisticEntity;
     }
   }
@@ -455,15 +516,23 @@ export class CacheAwareChoreRepository implements ICacheAwareRepository<Chore> {
           (c) => c.id === id || c.localId === id
         );
         cacheEvents.emitCacheChange(this.entityType);
+
+        // Completing a recurring chore makes the server generate its next
+        // occurrence; pull it into the cache so it shows up without a manual refresh.
+        if (updated.isCompleted && updated.isRecurring) {
+          await this.refresh().catch((error) => {
+            console.warn('[CacheAwareChoreRepository] Failed to refresh after recurring completion:', error);
+          });
+        }
         return updated;
       } catch (error) {
         if (error instanceof NetworkError) {
-          await this.enqueueWrite('update', optimisticEntity);
+          await this.enqueueWrite('update', optimisticEntity, existing);
         }
         throw error;
       }
     } else {
-      await this.enqueueWrite('update', optimisticEntity);
+      await this.enqueueWrite('update', optimisticEntity, existing);
       return optimisticEntity;
     }
   }
@@ -15,8 +15,11 @@ import {
   readCachedEntitiesForUpdate,
   addEntityToCache,
   updateEntityInCache,
-  setCached
+  setCached,
+  pullCached,
+  type CacheDelta
 } from './cacheAwareRepository';
+import { fetchSyncChanges } from '../utils/syncChanges';
 import { getIsOnline } from '../utils/networkStatus';
 import { api } from '../../services/api';
 import { normalizeTimestampsFromApi } from '../utils/timestamps';
@@ -99,6 +102,23 @@ export class CacheAwareRecipeRepository implements ICacheAwareRepository<Recipe>
     }
   }
   
+  /**
+   * Pulls recipes changed since a cursor (used by delta refresh)
+   *
+   * Changed recipes arrive in list shape; their ingredients and instructions
+   * are cleared so findById() fetches the updated details.
+   */
+  private async fetchRecipeChanges(since: string | null): Promise<CacheDelta<Recipe>> {
+    const response = await fetchSyncChanges<{ recipes: RecipeApiResponse[] }>('recipes', since);
+    return {
+      entities: response.recipes.map((item) =>
+        normalizeTimestampsFromApi<Recipe>({ ...item, ingredients: [], instructions: [] })
+      ),
+      cursor: response.cursor,
+      full: response.full,
+    };
+  }
+
   /**
    * Cache-first read with background refresh
    * Returns cached data immediately, refreshes in background if stale
@@ -114,16 +134,15 @@ export class CacheAwareRecipeRepository implements ICacheAwareRepository<Recipe>
   }
   
   /**
-   * Force refresh from API (bypasses cache)
-   * Fetches fresh data from API and updates cache
+   * Refresh from API (bypasses cache freshness)
+   * Pulls only the recipes changed since the last refresh and merges them into the cache
    */
   async refresh(): Promise<Recipe[]> {
-    return getCached<Recipe>(
+    return pullCached<Recipe>(
       this.entityType,
-      () => this.fetchRecipesFromApi(),
+      (since) => this.fetchRecipeChanges(since),
       (recipe) => this.getId(recipe),
-      getIsOnline(),
-      true // Force refresh
+      getIsOnline()
     );
   }
   
@@ -244,10 +263,12 @@ export class CacheAwareRecipeRepository implements ICacheAwareRepository<Recipe>
    * 
    * @param op - Sync operation type (create, update, delete)
    * @param entity - Recipe entity to enqueue
+   * @param base - For updates, the recipe before the change (three-way merge base)
    */
   private async enqueueWrite(
     op: SyncOp,
-    entity: Recipe
+    entity: Recipe,
+    base?: Recipe
   ): Promise<void> {
     const localId = entity.localId ?? entity.id;
     const serverId = entity.id !== localId ? entity.id : undefined;
@@ -256,7 +277,8 @@ export class CacheAwareRecipeRepository implements ICacheAwareRepository<Recipe>
       this.entityType,
       op,
       { localId, serverId },
-      entity // Full entity payload
+      entity, // Full entity payload
+      base
     );
     if (getIsOnline()) {
       getSyncQueueProcessor().start();
@@ -390,13 +412,13 @@ export class CacheAwareRecipeRepository implements ICacheAwareRepository<Recipe>
       } catch (error) {
         // Network error during service call → enqueue for retry
         if (error instanceof NetworkError) {
-          await this.enqueueWrite('update', optimisticEntity);
+          await this.enqueueWrite('update', optimisticEntity, existing);
         }
         throw error;
       }
     } else {
       // Offline: Enqueue write for later sync
-      await this.enqueueWrite('update', optimisticEntity);
+      await this.enqueueWrite('update', optimisticEntity, existing);
       return optimisticEntity;
     }
   }
@@ -456,6 +478,38 @@ export class CacheAwareRecipeRepository implements ICacheAwareRepository<Recipe>
     }
   }
   
+  /**
+   * Restores a soft-deleted recipe (e.g. "Undo" right after a delete).
+   *
+   * Unlike the other writes this is online-only: there is no queued restore
+   * operation, so the tombstone is cleared once the server confirms.
+   *
+   * @param id - Recipe ID to restore
+   * @throws {Error} If the recipe isn't cached or the service call fails
+   */
+  async restore(id: string): Promise<void> {
+    const current = await readCachedEntitiesForUpdate<Recipe>(this.entityType);
+    const existing = current.find(r => r.id === id || r.localId === id);
+
+    if (!existing) {
+      throw new Error(`Recipe with id ${id} not found in cache`);
+    }
+
+    await this.service.restoreRecipe(id);
+
+    const restoredEntity = this.ensureLocalId(withUpdatedAt({
+      ...existing,
+      deletedAt: undefined,
+    }));
+    await updateEntityInCache(
+      this.entityType,
+      restoredEntity,
+      (r) => this.getId(r),
+      (r) => r.id === id || r.localId === id
+    );
+    cacheEvents.emitCacheChange(this.entityType);
+  }
+
   /**
    * Invalidate cache (force refresh on next read)
    */
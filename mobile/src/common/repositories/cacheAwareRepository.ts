@@ -5,17 +5,20 @@
  * - Fetches from API ONLY when cache is missing (first login) or forceRefresh=true (explicit refresh)
  * - Returns cached data for all other cases (fresh/stale/expired)
  * - No background refresh - data is served from cache until explicitly refreshed
+ * - Explicit refreshes can pull only what changed since the last pull (pullCached)
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { ENTITY_TYPES, getSignedInCacheKey } from '../storage/dataModeStorage';
-import { EntityTimestamps, toPersistedTimestamps } from '../types/entityMetadata';
+import { EntityTimestamps, isEntityDeleted, toPersistedTimestamps } from '../types/entityMetadata';
 import type { SyncEntityType } from '../utils/cacheMetadata';
 import { getCacheMetadata, updateCacheMetadata, clearCacheMetadata } from '../utils/cacheMetadata';
 import { getCacheState, type CacheState } from '../config/cacheConfig';
 import { applyRemoteUpdatesToLocal } from '../utils/syncApplication';
+import { mergeEntityArrays } from '../utils/conflictResolution';
 import { cacheEvents } from '../utils/cacheEvents';
 import { readCacheArray, writeCacheArray } from '../utils/cacheStorage';
+import { logger } from '../utils/logger';
 
 /**
  * Entity type to storage key mapping
@@ -219,6 +222,84 @@ export async function getCached<T extends EntityTimestamps & { id: string }>(
   return cached;
 }
 
+/**
+ * Changes pulled from GET /sync/changes for one entity type, already mapped
+ * to app entities. Deleted entities carry deletedAt.
+ */
+export interface CacheDelta<T> {
+  entities: T[];
+  cursor: string;
+  /** The entities are the whole active dataset rather than changes */
+  full: boolean;
+}
+
+/**
+ * Gets the cursor of the last delta pull for an entity type
+ *
+ * @param entityType - The entity type
+ * @returns The stored cursor, or null if the next pull must be a full one
+ */
+export async function getSyncCursor(entityType: SyncEntityType): Promise<string | null> {
+  const metadata = await getCacheMetadata(entityType);
+  return metadata?.syncCursor ?? null;
+}
+
+/**
+ * Applies a delta pull to the cache and stores its cursor
+ *
+ * A full delta replaces the cache. Otherwise the changes are merged into the
+ * cache with LWW + tombstone rules: deleted entities drop out, and cached
+ * entities the delta doesn't mention are kept as they are.
+ *
+ * @param entityType - The entity type to update
+ * @param delta - Pulled changes and the cursor they are current to
+ * @param getId - Function to extract entity ID for merging
+ * @returns The cached entities after applying the delta
+ */
+export async function applyDeltaToCache<T extends EntityTimestamps & { id: string }>(
+  entityType: SyncEntityType,
+  delta: CacheDelta<T>,
+  getId: (entity: T) => string
+): Promise<T[]> {
+  const next = delta.full
+    ? delta.entities.filter((entity) => !isEntityDeleted(entity))
+    : mergeEntityArrays(await readCachedEntities<T>(entityType), delta.entities, getId);
+
+  await writeCachedEntities(entityType, next, getId);
+  await updateCacheMetadata(entityType, new Date().toISOString(), delta.cursor);
+  cacheEvents.emitCacheChange(entityType);
+  return next;
+}
+
+/**
+ * Delta refresh: pulls changes since the stored cursor and applies them
+ *
+ * Used in place of a forced full fetch. Without a stored cursor (first pull,
+ * or after the cache was rewritten by a full fetch) the pull is a full one.
+ * Offline, returns the cached data unchanged.
+ *
+ * @param entityType - The entity type to refresh
+ * @param fetchDelta - Pulls changes since a cursor (null for a full pull)
+ * @param getId - Function to extract entity ID for merging
+ * @param isOnline - Whether the device is online
+ * @returns The cached entities after the pull
+ */
+export async function pullCached<T extends EntityTimestamps & { id: string }>(
+  entityType: SyncEntityType,
+  fetchDelta: (since: string | null) => Promise<CacheDelta<T>>,
+  getId: (entity: T) => string,
+  isOnline: boolean
+): Promise<T[]> {
+  if (!isOnline) {
+    return readCachedEntities<T>(entityType);
+  }
+
+  const since = await getSyncCursor(entityType);
+  const delta = await fetchDelta(since);
+  logger.debug(`[pullCached] ${entityType} pulled ${delta.entities.length} ${delta.full ? 'entities (full)' : 'changes'}`);
+  return applyDeltaToCache(entityType, delta, getId);
+}
+
 /**
  * Writes entities to cache and updates metadata (write-through)
  * 
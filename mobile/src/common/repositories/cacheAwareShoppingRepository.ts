@@ -15,8 +15,13 @@ import {
   readCachedEntitiesForUpdate,
   addEntityToCache,
   updateEntityInCache,
-  setCached
+  setCached,
+  getSyncCursor,
+  applyDeltaToCache,
+  type CacheDelta
 } from './cacheAwareRepository';
+import { fetchSyncChanges } from '../utils/syncChanges';
+import { normalizeTimestampsFromApi } from '../utils/timestamps';
 import { getIsOnline } from '../utils/networkStatus';
 import { api } from '../../services/api';
 import { colors } from '../../theme';
@@ -57,6 +62,18 @@ type ShoppingListDetailDto = {
   }[];
 };
 
+type ChangeTimestamps = {
+  createdAt?: string | null;
+  updatedAt?: string | null;
+  deletedAt?: string | null;
+};
+
+/** Lists and items in a GET /sync/changes delta */
+type ShoppingChangesDto = {
+  shoppingLists: (ShoppingListSummaryDto & ChangeTimestamps)[];
+  shoppingItems: (ShoppingListDetailDto['items'][number] & ChangeTimestamps & { listId: string })[];
+};
+
 const DEFAULT_LIST_ICON: ShoppingList['icon'] = 'cart-outline';
 const DEFAULT_LIST_COLOR = colors.shopping;
 
@@ -224,6 +241,44 @@ export class CacheAwareShoppingRepository implements ICacheAwareShoppingReposito
     );
   }
   
+  /**
+   * Pulls lists and items changed since a cursor (used by refreshAll).
+   */
+  private async fetchShoppingChanges(
+    since: string | null
+  ): Promise<{ lists: CacheDelta<ShoppingList>; items: CacheDelta<ShoppingItem> }> {
+    const response = await fetchSyncChanges<ShoppingChangesDto>('shopping', since);
+    const groceryItems = await this.getGroceryItems();
+    const timestampsOf = ({ createdAt, updatedAt, deletedAt }: ChangeTimestamps) => ({
+      createdAt,
+      updatedAt,
+      deletedAt,
+    });
+
+    return {
+      lists: {
+        entities: response.shoppingLists.map((list) =>
+          normalizeTimestampsFromApi<ShoppingList>({
+            ...mapShoppingListSummary(list),
+            ...timestampsOf(list),
+          })
+        ),
+        cursor: response.cursor,
+        full: response.full,
+      },
+      items: {
+        entities: response.shoppingItems.map((item) =>
+          normalizeTimestampsFromApi<ShoppingItem>({
+            ...buildShoppingItemsFromDetails(item.listId, [item], groceryItems)[0],
+            ...timestampsOf(item),
+          })
+        ),
+        cursor: response.cursor,
+        full: response.full,
+      },
+    };
+  }
+
   /**
    * Fetches grocery items using CatalogService with fallback strategy.
    * 
@@ -305,11 +360,13 @@ export class CacheAwareShoppingRepository implements ICacheAwareShoppingReposito
    * @param entityType - Type of entity (shoppingLists or shoppingItems)
    * @param op - Sync operation type (create, update, delete)
    * @param entity - Entity to enqueue
+   * @param base - For updates, the entity before the change (three-way merge base)
    */
   private async enqueueWrite(
     entityType: 'shoppingLists' | 'shoppingItems',
     op: SyncOp,
-    entity: ShoppingList | ShoppingItem
+    entity: ShoppingList | ShoppingItem,
+    base?: ShoppingList | ShoppingItem
   ): Promise<void> {
     const localId = entity.localId ?? entity.id;
     const serverId = entity.id !== localId ? entity.id : undefined;
@@ -318,7 +375,8 @@ export class CacheAwareShoppingRepository implements ICacheAwareShoppingReposito
       entityType,
       op,
       { localId, serverId },
-      entity // Full entity payload
+      entity, // Full entity payload
+      base
     );
     if (getIsOnline()) {
       getSyncQueueProcessor().start();
@@ -540,7 +598,7 @@ export class CacheAwareShoppingRepository implements ICacheAwareShoppingReposito
       } catch (error) {
         if (error instanceof NetworkError) {
           // Network error: enqueue for retry when online
-          await this.enqueueWrite('shoppingLists', 'update', optimisticEntity);
+          await this.enqueueWrite('shoppingLists', 'update', optimisticEntity, existing);
           throw error;
         }
         
@@ -565,7 +623,7 @@ export class CacheAwareShoppingRepository implements ICacheAwareShoppingReposito
         throw error;
       }
     } else {
-      await this.enqueueWrite('shoppingLists', 'update', optimisticEntity);
+      await this.enqueueWrite('shoppingLists', 'update', optimisticEntity, existing);
       return optimisticEntity;
     }
   }
@@ -639,25 +697,31 @@ export class CacheAwareShoppingRepository implements ICacheAwareShoppingReposito
   }
 
   /**
-   * Sequentially refreshes lists then items so both datasets are derived from
-   * the same server snapshot.
+   * Refreshes lists and items from a single delta pull so both datasets are
+   * derived from the same server snapshot.
    *
-   * Calling refreshLists() and refreshItems() in parallel would cause
-   * fetchItemsFromApi() to call findAllLists() (cache-first) while
-   * refreshLists() is simultaneously writing a newer list snapshot to the
-   * same cache key, producing a mismatched pair.  By awaiting the list
-   * refresh first and passing the result directly to fetchItemsFromApi(),
-   * both datasets are guaranteed to be consistent.
+   * Only what changed since the last pull is fetched and merged into the
+   * cache. Lists and items share one cursor; if their stored cursors differ
+   * (e.g. one cache was rewritten by a full fetch) the pull is a full one.
    */
   async refreshAll(): Promise<{ lists: ShoppingList[]; items: ShoppingItem[] }> {
-    const lists = await this.refreshLists();
-    const items = await getCached<ShoppingItem>(
-      'shoppingItems',
-      () => this.fetchItemsFromApi(lists),
-      (item) => this.getItemId(item),
-      getIsOnline(),
-      true,
+    if (!getIsOnline()) {
+      return {
+        lists: await readCachedEntitiesForUpdate<ShoppingList>('shoppingLists'),
+        items: await readCachedEntitiesForUpdate<ShoppingItem>('shoppingItems'),
+      };
+    }
+
+    const [listCursor, itemCursor] = await Promise.all([
+      getSyncCursor('shoppingLists'),
+      getSyncCursor('shoppingItems'),
+    ]);
+    const changes = await this.fetchShoppingChanges(
+      listCursor === itemCursor ? listCursor : null
     );
+
+    const lists = await applyDeltaToCache('shoppingLists', changes.lists, (list) => this.getListId(list));
+    const items = await applyDeltaToCache('shoppingItems', changes.items, (item) => this.getItemId(item));
     return { lists, items };
   }
 
@@ -867,12 +931,12 @@ export class CacheAwareShoppingRepository implements ICacheAwareShoppingReposito
         return updated;
       } catch (error) {
         if (error instanceof NetworkError) {
-          await this.enqueueWrite('shoppingItems', 'update', optimisticEntity);
+          await this.enqueueWrite('shoppingItems', 'update', optimisticEntity, existing);
         }
         throw error;
       }
     } else {
-      await this.enqueueWrite('shoppingItems', 'update', optimisticEntity);
+      await this.enqueueWrite('shoppingItems', 'update', optimisticEntity, existing);
       return optimisticEntity;
     }
   }
@@ -1004,12 +1068,12 @@ export class CacheAwareShoppingRepository implements ICacheAwareShoppingReposito
         return updated;
       } catch (error) {
         if (error instanceof NetworkError) {
-          await this.enqueueWrite('shoppingItems', 'update', optimisticEntity);
+          await this.enqueueWrite('shoppingItems', 'update', optimisticEntity, existing);
         }
         throw error;
       }
     } else {
-      await this.enqueueWrite('shoppingItems', 'update', optimisticEntity);
+      await this.enqueueWrite('shoppingItems', 'update', optimisticEntity, existing);
       return optimisticEntity;
     }
   }
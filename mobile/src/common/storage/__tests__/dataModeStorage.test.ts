@@ -1,6 +1,8 @@
 import {
   getGuestStorageKey,
   getSignedInCacheKey,
+  setSignedInCacheScope,
+  getSignedInCacheScope,
   getPublicCatalogCacheKey,
   validateStorageKey,
   getModeFromStorageKey,
@@ -31,6 +33,35 @@ describe('dataModeStorage', () => {
     });
   });
 
+  describe('signed-in cache scope', () => {
+    afterEach(() => {
+      setSignedInCacheScope(null);
+    });
+
+    it('should include the active household in signed-in cache keys', () => {
+      setSignedInCacheScope('household-1');
+
+      expect(getSignedInCacheScope()).toBe('household-1');
+      expect(getSignedInCacheKey('recipes')).toBe('@kitchen_hub_cache_hh_household-1_recipes');
+      expect(getModeFromStorageKey(getSignedInCacheKey('recipes'))).toBe('signed-in');
+    });
+
+    it('should keep caches of different households apart', () => {
+      setSignedInCacheScope('household-1');
+      const firstKey = getSignedInCacheKey('chores');
+      setSignedInCacheScope('household-2');
+
+      expect(getSignedInCacheKey('chores')).not.toBe(firstKey);
+    });
+
+    it('should fall back to unscoped keys when the scope is cleared', () => {
+      setSignedInCacheScope('household-1');
+      setSignedInCacheScope(null);
+
+      expect(getSignedInCacheKey('recipes')).toBe('@kitchen_hub_cache_recipes');
+    });
+  });
+
   describe('getPublicCatalogCacheKey', () => {
     it.each([
       ['grocery_catalog', '@kitchen_hub_catalog_grocery_catalog'],
@@ -43,13 +43,43 @@ export function getGuestStorageKey(entityType: string): string {
   return `${STORAGE_PREFIXES.guest}${entityType}`;
 }
 
+/**
+ * Household the signed-in cache currently belongs to.
+ * Users can belong to several households, so each one gets its own cache.
+ */
+let signedInCacheScope: string | null = null;
+
+/**
+ * Scopes signed-in cache keys to a household
+ * 
+ * @param householdId - The active household ID, or null for the unscoped cache
+ */
+export function setSignedInCacheScope(householdId: string | null): void {
+  signedInCacheScope = householdId;
+}
+
+/**
+ * Gets the household the signed-in cache is scoped to
+ * 
+ * @returns The active household ID, or null when unscoped
+ */
+export function getSignedInCacheScope(): string | null {
+  return signedInCacheScope;
+}
+
 /**
  * Gets the storage key for a signed-in cache entity
  * 
+ * When a household scope is set the key includes it
+ * (e.g., `@kitchen_hub_cache_hh_<householdId>_recipes`).
+ * 
  * @param entityType - The type of entity (e.g., 'shopping_lists')
  * @returns The full storage key with signed-in cache prefix
  */
 export function getSignedInCacheKey(entityType: string): string {
+  if (signedInCacheScope) {
+    return `${STORAGE_PREFIXES.signedIn}hh_${signedInCacheScope}_${entityType}`;
+  }
   return `${STORAGE_PREFIXES.signedIn}${entityType}`;
 }
 
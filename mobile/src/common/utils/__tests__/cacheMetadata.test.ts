@@ -171,6 +171,29 @@ describe('cacheMetadata', () => {
       });
       expect(AsyncStorage.setItem).toHaveBeenCalledWith(storageKey, JSON.stringify(writtenData));
     });
+
+    it('should store the sync cursor when one is given', async () => {
+      const lastSyncedAt = '2026-01-28T12:00:00.000Z';
+
+      await updateCacheMetadata(entityType, lastSyncedAt, '1769601600000');
+
+      const writtenData = JSON.parse((AsyncStorage.setItem as jest.Mock).mock.calls[0][1]);
+      expect(writtenData).toEqual({
+        lastSyncedAt,
+        syncCursor: '1769601600000',
+        version: CURRENT_CACHE_METADATA_STORAGE_VERSION,
+      });
+    });
+
+    it('should keep the sync cursor when read back', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(
+        JSON.stringify({ lastSyncedAt: '2026-01-28T12:00:00.000Z', syncCursor: '1769601600000' })
+      );
+
+      const result = await getCacheMetadata(entityType);
+
+      expect(result?.syncCursor).toBe('1769601600000');
+    });
   });
 
   describe('clearCacheMetadata', () => {
@@ -2,9 +2,11 @@ import type { EntityTimestamps } from '../../types/entityMetadata';
 import {
   compareTimestamps,
   determineConflictWinner,
+  diffFields,
   mergeEntitiesLWW,
   mergeEntitiesWithTombstones,
   mergeEntityArrays,
+  mergeThreeWay,
 } from '../conflictResolution';
 
 interface TestEntity extends EntityTimestamps {
@@ -468,3 +470,58 @@ describe('mergeEntityArrays', () => {
     });
   });
 });
+
+describe('diffFields', () => {
+  it('returns only the fields that changed', () => {
+    expect(
+      diffFields({ name: 'Milk', quantity: 1 }, { name: 'Milk', quantity: 2 }, ['name', 'quantity'])
+    ).toEqual({ quantity: 2 });
+  });
+
+  it('reports cleared fields as null', () => {
+    expect(diffFields({ unit: 'l' }, {}, ['unit'])).toEqual({ unit: null });
+  });
+
+  it('compares nested values structurally and treats undefined as null', () => {
+    expect(
+      diffFields(
+        { ingredients: [{ name: 'Salt' }], unit: null },
+        { ingredients: [{ name: 'Salt' }] },
+        ['ingredients', 'unit']
+      )
+    ).toEqual({});
+  });
+});
+
+describe('mergeThreeWay', () => {
+  const fields = ['name', 'quantity', 'unit'];
+  const base = { name: 'Milk', quantity: 1, unit: 'l' };
+
+  it('keeps changes made on either side', () => {
+    const local = { ...base, name: 'Oat milk' };
+    const remote = { ...base, quantity: 2 };
+
+    expect(mergeThreeWay(base, local, remote, fields, false)).toEqual({
+      merged: { name: 'Oat milk', quantity: 2, unit: 'l' },
+      conflictingFields: [],
+    });
+  });
+
+  it('does not report identical changes on both sides as conflicts', () => {
+    const local = { ...base, quantity: 3 };
+    const remote = { ...base, quantity: 3 };
+
+    expect(mergeThreeWay(base, local, remote, fields, false).conflictingFields).toEqual([]);
+  });
+
+  it('resolves fields changed on both sides by preferLocal', () => {
+    const local = { ...base, quantity: 3 };
+    const remote = { ...base, quantity: 5 };
+
+    expect(mergeThreeWay(base, local, remote, fields, true)).toEqual({
+      merged: { name: 'Milk', quantity: 3, unit: 'l' },
+      conflictingFields: ['quantity'],
+    });
+    expect(mergeThreeWay(base, local, remote, fields, false).merged.quantity).toBe(5);
+  });
+});
@@ -88,6 +88,8 @@ describe('SyncQueueProcessor', () => {
     (syncQueueStorage.updateStatus as jest.Mock).mockResolvedValue(undefined);
     (syncQueueStorage.markAsFailedPermanent as jest.Mock).mockResolvedValue(undefined);
     (syncQueueStorage.clear as jest.Mock).mockResolvedValue(undefined);
+    (syncQueueStorage.rebase as jest.Mock).mockResolvedValue(undefined);
+    (syncQueueStorage.recordConflict as jest.Mock).mockResolvedValue(undefined);
     
     // Reset worker state
     if (processor) {
@@ -183,6 +185,176 @@ describe('SyncQueueProcessor', () => {
       expect(syncQueueStorage.incrementRetry).toHaveBeenCalledWith('queue-1');
       expect(syncQueueStorage.remove).not.toHaveBeenCalledWith('queue-1');
     });
+
+    it('should record unresolved conflicts on the queued write for review', async () => {
+      const mockQueue: QueuedWrite[] = [
+        {
+          id: 'queue-1',
+          operationId: 'op-chore-1',
+          entityType: 'chores',
+          op: 'update',
+          target: { localId: 'chore-1', serverId: 'chore-1' },
+          payload: { id: 'chore-1', title: 'Dishes' },
+          clientTimestamp: new Date().toISOString(),
+          attemptCount: 0,
+          status: 'PENDING',
+        },
+      ];
+
+      (syncQueueStorage.getAll as jest.Mock).mockResolvedValue(mockQueue);
+      (api.post as jest.Mock).mockResolvedValue({
+        status: 'partial',
+        conflicts: [
+          {
+            type: 'chore',
+            id: 'chore-1',
+            operationId: 'op-chore-1',
+            reason: 'not_found',
+            message: 'Chore not found',
+          },
+        ],
+        succeeded: [],
+      });
+
+      await processor.processQueue();
+
+      expect(syncQueueStorage.recordConflict).toHaveBeenCalledWith('queue-1', {
+        reason: 'not_found',
+        message: 'Chore not found',
+        fields: undefined,
+        serverEntity: undefined,
+      });
+      expect(syncQueueStorage.incrementRetry).toHaveBeenCalledWith('queue-1');
+    });
+  });
+
+  describe('delete and field-level update operations', () => {
+    const baseRecipe = {
+      id: 'server-123',
+      title: 'Soup',
+      ingredients: [],
+      instructions: [],
+      updatedAt: '2026-01-25T10:00:00.000Z',
+    };
+
+    const buildUpdate = (overrides: Partial<QueuedWrite> = {}): QueuedWrite => ({
+      id: 'queue-1',
+      operationId: 'op-recipe-1',
+      entityType: 'recipes',
+      op: 'update',
+      target: { localId: 'local-123', serverId: 'server-123' },
+      payload: { ...baseRecipe, title: 'Tomato soup' },
+      base: baseRecipe,
+      clientTimestamp: '2026-01-25T11:00:00.000Z',
+      attemptCount: 0,
+      status: 'PENDING',
+      ...overrides,
+    });
+
+    it('sends updates with a base as a patch of the changed fields', async () => {
+      (syncQueueStorage.getAll as jest.Mock).mockResolvedValue([buildUpdate()]);
+      (api.post as jest.Mock).mockResolvedValue({ status: 'synced', conflicts: [] });
+
+      await processor.processQueue();
+
+      const payload = (api.post as jest.Mock).mock.calls[0][1];
+      expect(payload.recipes).toEqual([
+        {
+          id: 'server-123',
+          operationId: 'op-recipe-1',
+          op: 'update',
+          baseUpdatedAt: '2026-01-25T10:00:00.000Z',
+          title: 'Tomato soup',
+        },
+      ]);
+    });
+
+    it('sends deletes as delete operations', async () => {
+      (syncQueueStorage.getAll as jest.Mock).mockResolvedValue([
+        buildUpdate({ op: 'delete', base: undefined }),
+      ]);
+      (api.post as jest.Mock).mockResolvedValue({ status: 'synced', conflicts: [] });
+
+      await processor.processQueue();
+
+      const payload = (api.post as jest.Mock).mock.calls[0][1];
+      expect(payload.recipes).toEqual([
+        { id: 'server-123', operationId: 'op-recipe-1', op: 'delete' },
+      ]);
+    });
+
+    it('rebases a stale update onto the server copy, keeping both edits', async () => {
+      (syncQueueStorage.getAll as jest.Mock).mockResolvedValue([buildUpdate()]);
+      (api.post as jest.Mock).mockResolvedValue({
+        status: 'partial',
+        conflicts: [
+          {
+            type: 'recipe',
+            id: 'server-123',
+            operationId: 'op-recipe-1',
+            reason: 'stale_base',
+            fields: [],
+            serverEntity: {
+              id: 'server-123',
+              title: 'Soup',
+              ingredients: [],
+              instructions: [{ step: 1, instruction: 'Boil' }],
+              updatedAt: '2026-01-25T12:00:00.000Z',
+              deletedAt: null,
+            },
+          },
+        ],
+        succeeded: [],
+      });
+
+      await processor.processQueue();
+
+      expect(syncQueueStorage.rebase).toHaveBeenCalledWith(
+        'queue-1',
+        { title: 'Tomato soup' },
+        '2026-01-25T12:00:00.000Z'
+      );
+      expect(syncQueueStorage.incrementRetry).not.toHaveBeenCalled();
+      expect(syncQueueStorage.remove).not.toHaveBeenCalledWith('queue-1');
+    });
+
+    it('drops a stale update the server copy already matches', async () => {
+      (syncQueueStorage.getAll as jest.Mock).mockResolvedValue([buildUpdate()]);
+      (api.post as jest.Mock).mockResolvedValue({
+        status: 'partial',
+        conflicts: [
+          {
+            type: 'recipe',
+            id: 'server-123',
+            operationId: 'op-recipe-1',
+            reason: 'stale_base',
+            serverEntity: { ...baseRecipe, title: 'Tomato soup', updatedAt: '2026-01-25T12:00:00.000Z' },
+          },
+        ],
+        succeeded: [],
+      });
+
+      await processor.processQueue();
+
+      expect(syncQueueStorage.remove).toHaveBeenCalledWith('queue-1');
+      expect(syncQueueStorage.rebase).not.toHaveBeenCalled();
+    });
+
+    it('drops an update whose target was deleted on the server', async () => {
+      (syncQueueStorage.getAll as jest.Mock).mockResolvedValue([buildUpdate()]);
+      (api.post as jest.Mock).mockResolvedValue({
+        status: 'partial',
+        conflicts: [
+          { type: 'recipe', id: 'server-123', operationId: 'op-recipe-1', reason: 'deleted' },
+        ],
+        succeeded: [],
+      });
+
+      await processor.processQueue();
+
+      expect(syncQueueStorage.remove).toHaveBeenCalledWith('queue-1');
+      expect(syncQueueStorage.incrementRetry).not.toHaveBeenCalled();
+    });
   });
 
   describe('error handling', () => {
@@ -288,6 +288,84 @@ describe('SyncQueueStorage', () => {
     });
   });
 
+  describe('update base tracking', () => {
+    it('keeps the original base when compacting update + update', async () => {
+      const target: QueueTargetId = { localId: 'local-123' };
+      const base = { id: 'local-123', name: 'Base', updatedAt: '2026-01-25T10:00:00.000Z' };
+
+      await syncQueueStorage.enqueue('recipes', 'update', target, { id: 'local-123', name: 'Test 1' }, base);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      await syncQueueStorage.enqueue('recipes', 'update', target, { id: 'local-123', name: 'Test 2' }, {
+        id: 'local-123',
+        name: 'Test 1',
+      });
+
+      const queue = await syncQueueStorage.getAll();
+      expect(queue).toHaveLength(1);
+      expect(queue[0].base).toEqual(base);
+      expect(queue[0].payload).toEqual({ id: 'local-123', name: 'Test 2' });
+    });
+
+    it('does not store a base for creates', async () => {
+      const target: QueueTargetId = { localId: 'local-123' };
+
+      const queued = await syncQueueStorage.enqueue('recipes', 'create', target, { id: 'local-123' }, {
+        id: 'local-123',
+      });
+
+      expect(queued.base).toBeUndefined();
+    });
+
+    it('rebase stores the patch and resets retry state', async () => {
+      const target: QueueTargetId = { localId: 'local-123' };
+      const queued = await syncQueueStorage.enqueue('recipes', 'update', target, { id: 'local-123' });
+      await syncQueueStorage.incrementRetry(queued.id);
+
+      await syncQueueStorage.rebase(queued.id, { title: 'Merged' }, '2026-01-25T12:00:00.000Z');
+
+      const [rebased] = await syncQueueStorage.getAll();
+      expect(rebased.patch).toEqual({ title: 'Merged' });
+      expect(rebased.baseUpdatedAt).toBe('2026-01-25T12:00:00.000Z');
+      expect(rebased.attemptCount).toBe(0);
+      expect(rebased.status).toBe('PENDING');
+    });
+  });
+
+  describe('sync issue resolution', () => {
+    const target: QueueTargetId = { localId: 'local-123' };
+    const base = { id: 'local-123', name: 'Base', updatedAt: '2026-01-25T10:00:00.000Z' };
+
+    it('recordConflict stores the conflict and its message', async () => {
+      const queued = await syncQueueStorage.enqueue('recipes', 'update', target, { id: 'local-123' }, base);
+
+      await syncQueueStorage.recordConflict(queued.id, { reason: 'error', message: 'Invalid recipe' });
+
+      const [item] = await syncQueueStorage.getAll();
+      expect(item.conflict).toEqual(
+        expect.objectContaining({ reason: 'error', message: 'Invalid recipe', reportedAt: expect.any(String) })
+      );
+      expect(item.lastError).toBe('Invalid recipe');
+    });
+
+    it.each([
+      ['keeps field-level update state by default', false],
+      ['drops field-level update state when overwriting the server', true],
+    ])('requeue %s', async (description, overwriteServer) => {
+      const queued = await syncQueueStorage.enqueue('recipes', 'update', target, { id: 'local-123' }, base);
+      await syncQueueStorage.recordConflict(queued.id, { reason: 'error' });
+      await syncQueueStorage.markAsFailedPermanent(queued.id, 'Sync failed: max retries exceeded');
+
+      await syncQueueStorage.requeue(queued.id, overwriteServer);
+
+      const [item] = await syncQueueStorage.getAll();
+      expect(item.status).toBe('PENDING');
+      expect(item.attemptCount).toBe(0);
+      expect(item.conflict).toBeUndefined();
+      expect(item.lastError).toBeUndefined();
+      expect(item.base).toEqual(overwriteServer ? undefined : base);
+    });
+  });
+
   describe('updateLastAttempt', () => {
     it('should update lastAttemptAt timestamp', async () => {
       const target: QueueTargetId = { localId: 'local-123' };
@@ -6,7 +6,7 @@
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { syncQueueStorage, type QueuedWriteStatus } from '../syncQueueStorage';
-import { isEntityInQueue, getEntityQueueStatus, isEntityPending, determineIndicatorStatus } from '../syncStatusUtils';
+import { isEntityInQueue, getEntityQueueStatus, isEntityPending, determineIndicatorStatus, isSyncIssue } from '../syncStatusUtils';
 import type { SyncEntityType } from '../cacheMetadata';
 
 // Mock AsyncStorage
@@ -176,4 +176,19 @@ describe('syncStatusUtils', () => {
       });
     });
   });
+
+  describe('isSyncIssue', () => {
+    const conflict = { reason: 'not_found', reportedAt: '2026-01-25T10:00:00.000Z' };
+
+    describe.each([
+      ['pending write', { status: 'PENDING' as QueuedWriteStatus }, false],
+      ['retrying write', { status: 'RETRYING' as QueuedWriteStatus }, false],
+      ['permanently failed write', { status: 'FAILED_PERMANENT' as QueuedWriteStatus }, true],
+      ['retrying write with a conflict', { status: 'RETRYING' as QueuedWriteStatus, conflict }, true],
+    ])('%s', (description, item, expected) => {
+      it(`should return ${expected}`, () => {
+        expect(isSyncIssue(item)).toBe(expected);
+      });
+    });
+  });
 });
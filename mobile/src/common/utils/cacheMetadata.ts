@@ -1,13 +1,16 @@
 /**
  * Cache Metadata Utilities
  * 
- * Manages cache metadata (lastSyncedAt) per entity type for signed-in users.
+ * Manages cache metadata (lastSyncedAt and the delta sync cursor) per entity
+ * type for signed-in users.
  * Metadata is stored separately from entity data to track cache freshness.
  * 
  * Storage key pattern: @kitchen_hub_cache_meta_${entityType}
+ * (scoped to the active household like the entity data it describes)
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getSignedInCacheKey } from '../storage/dataModeStorage';
 import { CURRENT_CACHE_METADATA_STORAGE_VERSION } from './cacheStorage.constants';
 import type { CacheMetadataFormat } from './cacheStorage.types';
 
@@ -27,6 +30,12 @@ export interface CacheMetadata {
    * ISO 8601 timestamp of when data was last synced from the server
    */
   lastSyncedAt: string;
+  /**
+   * Server cursor from the last GET /sync/changes pull. Absent until the
+   * first delta pull, and dropped when the cache is rewritten from a full
+   * fetch, which makes the next pull a full one.
+   */
+  syncCursor?: string;
   /**
    * Storage schema version for this cache metadata.
    * - Omitted/null in legacy records (treated as version 1 on read).
@@ -36,11 +45,6 @@ export interface CacheMetadata {
   version?: number;
 }
 
-/**
- * Storage key prefix for cache metadata
- */
-const CACHE_META_PREFIX = '@kitchen_hub_cache_meta_';
-
 /**
  * Gets the storage key for cache metadata of a given entity type
  * 
@@ -48,7 +52,7 @@ const CACHE_META_PREFIX = '@kitchen_hub_cache_meta_';
  * @returns The storage key for the metadata
  */
 function getCacheMetadataKey(entityType: SyncEntityType): string {
-  return `${CACHE_META_PREFIX}${entityType}`;
+  return getSignedInCacheKey(`meta_${entityType}`);
 }
 
 /**
@@ -143,6 +147,7 @@ function migrateCacheMetadata(parsed: unknown): { result: CacheMetadata; status:
   // Build normalized metadata
   const result: CacheMetadata = {
     lastSyncedAt,
+    ...(typeof obj.syncCursor === 'string' && { syncCursor: obj.syncCursor }),
     version: CURRENT_CACHE_METADATA_STORAGE_VERSION,
   };
   
@@ -206,6 +211,7 @@ export async function getCacheMetadata(
         );
         return {
           lastSyncedAt,
+          ...(typeof obj.syncCursor === 'string' && { syncCursor: obj.syncCursor }),
           version: futureVersion,
         };
       }
@@ -254,19 +260,23 @@ export async function getCacheMetadata(
  * Updates cache metadata for a given entity type
  * 
  * Always sets version field to CURRENT_CACHE_METADATA_STORAGE_VERSION.
+ * Replaces any stored sync cursor with the one given (or none).
  * 
  * @param entityType - The entity type to update metadata for
  * @param lastSyncedAt - ISO 8601 timestamp of when data was last synced
+ * @param syncCursor - Server cursor the cached data is current to, after a delta pull
  * @throws Error if storage write fails
  */
 export async function updateCacheMetadata(
   entityType: SyncEntityType,
-  lastSyncedAt: string
+  lastSyncedAt: string,
+  syncCursor?: string
 ): Promise<void> {
   try {
     const key = getCacheMetadataKey(entityType);
     const metadata: CacheMetadata = {
       lastSyncedAt,
+      ...(syncCursor !== undefined && { syncCursor }),
       version: CURRENT_CACHE_METADATA_STORAGE_VERSION,
     };
     
@@ -285,3 +285,86 @@ export function mergeEntityArrays<T extends EntityTimestamps>(
 
   return merged;
 }
+
+const areFieldValuesEqual = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Lists the fields whose values differ between two versions of an entity.
+ *
+ * Values are compared structurally; `undefined` and `null` are treated as equal.
+ *
+ * @param from - Earlier version
+ * @param to - Later version
+ * @param fields - Fields to compare
+ * @returns Changed fields mapped to their value in `to` (`null` when cleared)
+ *
+ * @example
+ * ```typescript
+ * diffFields({ name: 'Milk', unit: 'l' }, { name: 'Milk' }, ['name', 'unit']);
+ * // { unit: null }
+ * ```
+ */
+export function diffFields(
+  from: Record<string, unknown>,
+  to: Record<string, unknown>,
+  fields: readonly string[]
+): Record<string, unknown> {
+  const changes: Record<string, unknown> = {};
+  fields.forEach((field) => {
+    if (!areFieldValuesEqual(from[field], to[field])) {
+      changes[field] = to[field] ?? null;
+    }
+  });
+  return changes;
+}
+
+/**
+ * Merges local and remote edits of the same entity field by field, against
+ * the base version both sides started from.
+ *
+ * - Field changed on one side only → that side's value
+ * - Field changed on both sides to the same value → that value
+ * - Field changed on both sides to different values → conflict, resolved by
+ *   `preferLocal` (callers pass whether the local edit is the newer one)
+ *
+ * @param base - Version both sides started from
+ * @param local - Local version
+ * @param remote - Remote (server) version
+ * @param fields - Fields to merge
+ * @param preferLocal - Whether local wins fields changed on both sides
+ * @returns Merged field values and the fields that conflicted
+ *
+ * @example
+ * ```typescript
+ * const base = { name: 'Milk', quantity: 1 };
+ * const local = { name: 'Oat milk', quantity: 1 };
+ * const remote = { name: 'Milk', quantity: 2 };
+ * mergeThreeWay(base, local, remote, ['name', 'quantity'], false);
+ * // { merged: { name: 'Oat milk', quantity: 2 }, conflictingFields: [] }
+ * ```
+ */
+export function mergeThreeWay(
+  base: Record<string, unknown>,
+  local: Record<string, unknown>,
+  remote: Record<string, unknown>,
+  fields: readonly string[],
+  preferLocal: boolean
+): { merged: Record<string, unknown>; conflictingFields: string[] } {
+  const merged: Record<string, unknown> = {};
+  const conflictingFields: string[] = [];
+
+  fields.forEach((field) => {
+    const localChanged = !areFieldValuesEqual(base[field], local[field]);
+    const remoteChanged = !areFieldValuesEqual(base[field], remote[field]);
+
+    if (localChanged && remoteChanged && !areFieldValuesEqual(local[field], remote[field])) {
+      conflictingFields.push(field);
+      merged[field] = preferLocal ? local[field] : remote[field];
+    } else {
+      merged[field] = localChanged ? local[field] : remote[field];
+    }
+  });
+
+  return { merged, conflictingFields };
+}
@@ -0,0 +1,41 @@
+/**
+ * Delta Sync Transport
+ *
+ * Pulls server changes from GET /sync/changes. Responses carry created,
+ * updated and deleted (tombstoned) entities since a cursor, plus the cursor
+ * for the next pull. Cache-aware repositories store the cursor in cache
+ * metadata and merge the changes instead of refetching whole collections.
+ */
+
+import { api } from '../../services/api';
+
+/** Collections that can be pulled independently. */
+export type SyncCollection = 'shopping' | 'recipes' | 'chores';
+
+/**
+ * Response of GET /sync/changes for the requested collection's arrays.
+ * `full` means the arrays hold every active entity (no cursor was sent, or
+ * it had expired) and should replace the cache rather than merge into it.
+ */
+export type SyncChangesResponse<T extends Record<string, unknown[]>> = T & {
+  cursor: string;
+  full: boolean;
+};
+
+/**
+ * Fetches changes for one collection since a cursor.
+ *
+ * @param collection - Collection to pull
+ * @param since - Cursor from the previous pull, or null for a full pull
+ * @returns Changed entities and the next cursor
+ */
+export async function fetchSyncChanges<T extends Record<string, unknown[]>>(
+  collection: SyncCollection,
+  since: string | null
+): Promise<SyncChangesResponse<T>> {
+  const params = new URLSearchParams({ collections: collection });
+  if (since) {
+    params.set('since', since);
+  }
+  return api.get<SyncChangesResponse<T>>(`/sync/changes?${params.toString()}`);
+}
@@ -13,7 +13,13 @@ export interface SyncResult {
     type: 'list' | 'recipe' | 'chore' | 'shoppingItem';
     id: string;
     operationId: string;
+    /** 'not_found' | 'deleted' | 'stale_base' | 'error' */
     reason: string;
+    message?: string;
+    /** stale_base: patched fields that differ from the server copy. */
+    fields?: string[];
+    /** stale_base, deleted: server copy in sync DTO shape. */
+    serverEntity?: Record<string, unknown>;
   }>;
   succeeded?: Array<{
     operationId: string;
@@ -49,7 +55,7 @@ export interface SyncShoppingListDto {
   operationId: string;
   name: string;
   color?: string;
-  items?: SyncShoppingItemDto[];
+  items?: Array<SyncShoppingItemDto | SyncPatchDto>;
 }
 
 export interface SyncChoreDto {
@@ -61,6 +67,21 @@ export interface SyncChoreDto {
   isCompleted?: boolean;
 }
 
+/**
+ * Field-level update or delete of an entity. DTOs without `op` are full-state upserts.
+ * Updates carry only the changed fields (`null` clears a field).
+ */
+export interface SyncPatchDto {
+  id: string;
+  operationId: string;
+  op: 'update' | 'delete';
+  /** Server updatedAt the update was made against. */
+  baseUpdatedAt?: string;
+  /** Lists only. */
+  items?: Array<SyncShoppingItemDto | SyncPatchDto>;
+  [field: string]: unknown;
+}
+
 export interface SyncDataDto {
   /**
    * Version of the sync payload contract sent to the backend.
@@ -72,9 +93,9 @@ export interface SyncDataDto {
    * Optional request ID for observability (same for all items in batch).
    */
   requestId?: string;
-  recipes?: SyncRecipeDto[];
-  lists?: SyncShoppingListDto[];
-  chores?: SyncChoreDto[];
+  recipes?: Array<SyncRecipeDto | SyncPatchDto>;
+  lists?: Array<SyncShoppingListDto | SyncPatchDto>;
+  chores?: Array<SyncChoreDto | SyncPatchDto>;
 }
 
 /**
@@ -19,6 +19,17 @@ export type QueueTargetId = {
   serverId?: string;
 };
 
+/**
+ * Last conflict the server reported for a queued write.
+ */
+export type QueuedWriteConflict = {
+  reason: string;
+  message?: string;
+  fields?: string[];
+  serverEntity?: Record<string, unknown>;
+  reportedAt: string;
+};
+
 /**
  * Queued write operation with deterministic ordering and stable identity.
  */
@@ -35,6 +46,14 @@ export type QueuedWrite = {
   status: QueuedWriteStatus;
   lastError?: string;
   requestId?: string;
+  /** Updates: entity as last synced, before the first queued change (three-way merge base). */
+  base?: unknown;
+  /** Updates: field changes left after resolving a conflict (sync DTO field names). */
+  patch?: Record<string, unknown>;
+  /** Updates: server updatedAt that `patch` applies to. */
+  baseUpdatedAt?: string;
+  /** Last unresolved conflict reported by the server. */
+  conflict?: QueuedWriteConflict;
   /**
    * Storage schema version for this queued write.
    * - Omitted/null in legacy records (treated as version 1 on read).
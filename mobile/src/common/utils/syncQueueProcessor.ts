@@ -12,6 +12,8 @@ import { syncQueueStorage, type QueuedWrite, type QueuedWriteStatus } from './sy
 import { getIsOnline } from './networkStatus';
 import { cacheEvents } from './cacheEvents';
 import { invalidateCache } from '../repositories/cacheAwareRepository';
+import { compareTimestamps, diffFields, mergeThreeWay } from './conflictResolution';
+import { normalizeToUtc } from './timestamps';
 import type { SyncEntityType } from './cacheMetadata';
 import type { Recipe } from '../../mocks/recipes';
 import type { ShoppingList, ShoppingItem } from '../../mocks/shopping';
@@ -27,7 +29,10 @@ interface SyncResult {
     type: 'list' | 'recipe' | 'chore' | 'shoppingItem';
     id: string;
     operationId: string; // Idempotency key for precise matching
-    reason: string;
+    reason: string; // 'not_found' | 'deleted' | 'stale_base' | 'forbidden' | 'error'
+    message?: string;
+    fields?: string[]; // stale_base: patched fields that differ from the server copy
+    serverEntity?: Record<string, unknown>; // stale_base, deleted: server copy in sync DTO shape
   }>;
   succeeded?: Array<{ // Optional for backward compatibility
     operationId: string;
@@ -64,7 +69,7 @@ interface SyncShoppingListDto {
   operationId: string; // Idempotency key for this operation
   name: string;
   color?: string;
-  items?: SyncShoppingItemDto[];
+  items?: Array<SyncShoppingItemDto | SyncPatchDto>;
 }
 
 interface SyncChoreDto {
@@ -76,13 +81,37 @@ interface SyncChoreDto {
   isCompleted?: boolean;
 }
 
+/**
+ * Field-level update or delete of an entity. DTOs without `op` are full-state upserts.
+ * Updates carry only the changed fields (`null` clears a field).
+ */
+interface SyncPatchDto {
+  id: string;
+  operationId: string;
+  op: 'update' | 'delete';
+  baseUpdatedAt?: string; // Server updatedAt the update was made against
+  items?: Array<SyncShoppingItemDto | SyncPatchDto>; // Lists only
+  [field: string]: unknown;
+}
+
 interface SyncDataDto {
   requestId?: string; // Optional request ID for observability (same for all items in batch)
-  recipes?: SyncRecipeDto[];
-  lists?: SyncShoppingListDto[];
-  chores?: SyncChoreDto[];
+  recipes?: Array<SyncRecipeDto | SyncPatchDto>;
+  lists?: Array<SyncShoppingListDto | SyncPatchDto>;
+  chores?: Array<SyncChoreDto | SyncPatchDto>;
 }
 
+/**
+ * Fields a field-level update may patch, per entity type (sync DTO field names).
+ * Mirrors the backend's list of patchable fields.
+ */
+const SYNC_PATCH_FIELDS: Record<SyncEntityType, readonly string[]> = {
+  recipes: ['title', 'ingredients', 'instructions'],
+  shoppingLists: ['name', 'color'],
+  shoppingItems: ['name', 'quantity', 'unit', 'category', 'isChecked'],
+  chores: ['title', 'assigneeId', 'dueDate', 'isCompleted'],
+};
+
 /**
  * Maximum retry attempts before giving up
  */
@@ -854,11 +883,13 @@ class SyncQueueProcessorImpl implements SyncQueueProcessor {
    * @param list - ShoppingList entity to transform
    * @param allItems - Array of shopping items with their operationIds
    * @param operationId - Idempotency key for this list operation
+   * @param writes - Queued writes by operationId, to send each item's operation
    */
   private transformShoppingListToDto(
     list: ShoppingList,
     allItems: Array<{ entity: ShoppingItem; operationId: string }>,
-    operationId: string
+    operationId: string,
+    writes: Map<string, QueuedWrite> = new Map()
   ): SyncShoppingListDto {
     // Find items for this list
     const listItems = allItems.filter(
@@ -871,8 +902,12 @@ class SyncQueueProcessorImpl implements SyncQueueProcessor {
       name: list.name,
       color: list.color || undefined,
       items: listItems.length > 0 
-        ? listItems.map(({ entity: item, operationId: itemOperationId }) => 
-            this.transformShoppingItemToDto(item, itemOperationId))
+        ? listItems.map(({ entity: item, operationId: itemOperationId }) =>
+            this.toOperationDto(
+              this.transformShoppingItemToDto(item, itemOperationId),
+              writes.get(itemOperationId),
+              (base) => this.transformShoppingItemToDto(base, itemOperationId)
+            ))
         : undefined,
     };
   }
@@ -1007,6 +1042,7 @@ class SyncQueueProcessorImpl implements SyncQueueProcessor {
    * 
    * @param separated - Separated entities by type with operationIds
    * @param requestId - Optional request ID for observability
+   * @param writes - Queued writes by operationId, to send each entity's operation
    * @returns SyncDataDto for backend
    */
   private transformToDto(
@@ -1016,17 +1052,22 @@ class SyncQueueProcessorImpl implements SyncQueueProcessor {
       items: Array<{ entity: ShoppingItem; operationId: string }>;
       chores: Array<{ entity: Chore; operationId: string }>;
     },
-    requestId?: string
+    requestId?: string,
+    writes: Map<string, QueuedWrite> = new Map()
   ): SyncDataDto {
-    const recipes: SyncRecipeDto[] = [];
-    const lists: SyncShoppingListDto[] = [];
-    const chores: SyncChoreDto[] = [];
+    const recipes: NonNullable<SyncDataDto['recipes']> = [];
+    const lists: NonNullable<SyncDataDto['lists']> = [];
+    const chores: NonNullable<SyncDataDto['chores']> = [];
     const orphanedItems: Array<{ entity: ShoppingItem; operationId: string }> = [];
 
     // Transform recipes
     for (const { entity: recipe, operationId } of separated.recipes) {
       try {
-        recipes.push(this.transformRecipeToDto(recipe, operationId));
+        recipes.push(this.toOperationDto(
+          this.transformRecipeToDto(recipe, operationId),
+          writes.get(operationId),
+          (base) => this.transformRecipeToDto(base, operationId)
+        ));
       } catch (error) {
         console.error('Failed to transform recipe:', error);
       }
@@ -1035,7 +1076,11 @@ class SyncQueueProcessorImpl implements SyncQueueProcessor {
     // Transform chores
     for (const { entity: chore, operationId } of separated.chores) {
       try {
-        chores.push(this.transformChoreToDto(chore, operationId));
+        chores.push(this.toOperationDto(
+          this.transformChoreToDto(chore, operationId),
+          writes.get(operationId),
+          (base) => this.transformChoreToDto(base, operationId)
+        ));
       } catch (error) {
         console.error('Failed to transform chore:', error);
       }
@@ -1044,7 +1089,11 @@ class SyncQueueProcessorImpl implements SyncQueueProcessor {
     // Transform shopping lists with nested items
     for (const { entity: list, operationId } of separated.lists) {
       try {
-        lists.push(this.transformShoppingListToDto(list, separated.items, operationId));
+        lists.push(this.toOperationDto(
+          this.transformShoppingListToDto(list, separated.items, operationId, writes),
+          writes.get(operationId),
+          (base) => this.transformShoppingListToDto(base as ShoppingList, [], operationId)
+        ));
       } catch (error) {
         console.error('Failed to transform shopping list:', error);
       }
@@ -1089,11 +1138,82 @@ class SyncQueueProcessorImpl implements SyncQueueProcessor {
   private async buildSyncPayload(queue: QueuedWrite[]): Promise<SyncDataDto> {
     const entityMap = this.groupWritesByEntity(queue);
     const separated = this.separateEntitiesByType(entityMap);
+    const writes = new Map(
+      Array.from(entityMap.values()).map((write) => [write.operationId, write])
+    );
     
     // Generate requestId for this sync batch (optional, for observability)
     const requestId = Crypto.randomUUID();
     
-    return this.transformToDto(separated, requestId);
+    return this.transformToDto(separated, requestId, writes);
+  }
+
+  /**
+   * Turns a queued write's full-state DTO into the DTO for its operation.
+   *
+   * - delete → `{ id, operationId, op: 'delete' }`
+   * - update with a base → only the fields changed since the base (or the
+   *   patch left after a resolved conflict), against the base's `updatedAt`
+   * - anything else (creates, updates queued without a base) → full-state upsert
+   *
+   * Nested list items are kept as-is.
+   *
+   * @param dto - Full-state DTO built from the write's payload
+   * @param write - The queued write
+   * @param toDto - Builds the same DTO from another version of the entity
+   * @returns DTO to send
+   */
+  private toOperationDto<T extends { id: string; operationId: string; items?: SyncPatchDto['items'] }>(
+    dto: T,
+    write: QueuedWrite | undefined,
+    toDto: (entity: unknown) => T
+  ): T | SyncPatchDto {
+    const nested = dto.items ? { items: dto.items } : {};
+
+    if (write?.op === 'delete') {
+      return { id: dto.id, operationId: dto.operationId, op: 'delete', ...nested };
+    }
+    if (write?.op !== 'update') {
+      return dto;
+    }
+
+    if (write.patch && write.baseUpdatedAt) {
+      return {
+        ...write.patch,
+        id: dto.id,
+        operationId: dto.operationId,
+        op: 'update',
+        baseUpdatedAt: write.baseUpdatedAt,
+        ...nested,
+      };
+    }
+
+    const baseUpdatedAt = normalizeToUtc(
+      (write.base as { updatedAt?: Date | string } | undefined)?.updatedAt
+    );
+    if (!baseUpdatedAt) {
+      return dto;
+    }
+
+    let baseDto: T;
+    try {
+      baseDto = toDto(write.base);
+    } catch {
+      return dto;
+    }
+
+    return {
+      ...diffFields(
+        baseDto as Record<string, unknown>,
+        dto as Record<string, unknown>,
+        SYNC_PATCH_FIELDS[write.entityType]
+      ),
+      id: dto.id,
+      operationId: dto.operationId,
+      op: 'update',
+      baseUpdatedAt: baseUpdatedAt.toISOString(),
+      ...nested,
+    };
   }
 
   /**
@@ -1244,8 +1364,24 @@ class SyncQueueProcessorImpl implements SyncQueueProcessor {
       }
       
       if (failedOperationIds.has(item.operationId)) {
-        // Explicit failure: keep in queue, let existing retry/backoff logic apply
-        await this.handleFailedItem(item);
+        const conflict = result.conflicts.find((c) => c.operationId === item.operationId);
+        const resolution = conflict ? await this.resolveConflict(item, conflict) : 'failed';
+        if (resolution === 'resolved') {
+          // Dropped: refresh the cache so it shows the server copy
+          syncedIds.add(item.id);
+          syncedTypes.add(item.entityType);
+        } else if (resolution === 'failed') {
+          // Explicit failure: keep in queue (with the conflict, for review), let existing retry/backoff logic apply
+          if (conflict) {
+            await syncQueueStorage.recordConflict(item.id, {
+              reason: conflict.reason,
+              message: conflict.message,
+              fields: conflict.fields,
+              serverEntity: conflict.serverEntity,
+            });
+          }
+          await this.handleFailedItem(item);
+        }
         continue;
       }
 
@@ -1263,6 +1399,93 @@ class SyncQueueProcessorImpl implements SyncQueueProcessor {
     return { syncedIds, syncedTypes, serverIdMappings };
   }
 
+  /**
+   * Resolves a structured sync conflict for a queued write where possible.
+   *
+   * - `deleted`: delete wins, so the queued write is dropped
+   * - `stale_base` for an update with a base: three-way merges the base, local
+   *   and server fields; fields changed on both sides go to the newer edit.
+   *   If the server already has the merged values the write is dropped,
+   *   otherwise it is rebased onto the server copy and retried
+   *
+   * @param item - Queued write that conflicted
+   * @param conflict - Conflict reported by the backend
+   * @returns 'resolved' if the write was dropped, 'rebased' if it will be
+   *   retried as a rebased update, 'failed' if it needs regular failure handling
+   */
+  private async resolveConflict(
+    item: QueuedWrite,
+    conflict: SyncResult['conflicts'][number]
+  ): Promise<'resolved' | 'rebased' | 'failed'> {
+    if (conflict.reason === 'deleted') {
+      await syncQueueStorage.remove(item.id);
+      return 'resolved';
+    }
+
+    const serverEntity = conflict.serverEntity;
+    const serverUpdatedAt = serverEntity?.updatedAt;
+    if (
+      conflict.reason !== 'stale_base' ||
+      !serverEntity ||
+      typeof serverUpdatedAt !== 'string' ||
+      item.op !== 'update' ||
+      item.base === undefined
+    ) {
+      return 'failed';
+    }
+
+    let base: Record<string, unknown>;
+    let local: Record<string, unknown>;
+    try {
+      base = this.toSyncFields(item.entityType, item.base);
+      local = this.toSyncFields(item.entityType, item.payload);
+    } catch {
+      return 'failed';
+    }
+
+    const fields = SYNC_PATCH_FIELDS[item.entityType];
+    const isLocalNewer = compareTimestamps(item.clientTimestamp, serverUpdatedAt) === -1;
+    const { merged, conflictingFields } = mergeThreeWay(base, local, serverEntity, fields, isLocalNewer);
+    const patch = diffFields(serverEntity, merged, fields);
+
+    if (DEBUG_SYNC_QUEUE) {
+      console.log(
+        `[SyncWorker] merged ${item.entityType}:${item.target.localId} ` +
+        `(conflicting: ${conflictingFields.join(', ') || 'none'}, ` +
+        `${isLocalNewer ? 'local' : 'server'} newer)`
+      );
+    }
+
+    if (Object.keys(patch).length === 0) {
+      await syncQueueStorage.remove(item.id);
+      return 'resolved';
+    }
+
+    await syncQueueStorage.rebase(item.id, patch, serverUpdatedAt);
+    return 'rebased';
+  }
+
+  /**
+   * Builds the sync DTO fields of an entity, for merging.
+   *
+   * @throws Error if the entity payload is invalid
+   */
+  private toSyncFields(entityType: SyncEntityType, entity: unknown): Record<string, unknown> {
+    switch (entityType) {
+      case 'recipes':
+        return { ...this.transformRecipeToDto(entity, '') };
+      case 'shoppingLists':
+        if (!this.isValidShoppingListPayload(entity)) {
+          throw new Error('Invalid shopping list payload in queue: missing required fields');
+        }
+        return { ...this.transformShoppingListToDto(entity, [], '') };
+      case 'shoppingItems':
+        return { ...this.transformShoppingItemToDto(entity, '') };
+      case 'chores':
+        return { ...this.transformChoreToDto(entity, '') };
+    }
+  }
+
   /**
    * Handles a failed sync item by updating retry count or marking as permanently failed.
    * 
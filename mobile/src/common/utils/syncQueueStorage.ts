@@ -31,6 +31,17 @@ export type QueueTargetId = {
   serverId?: string; // Filled after sync (optional, may not exist yet)
 };
 
+/**
+ * Last conflict the server reported for a queued write (see `/auth/sync` conflicts).
+ */
+export type QueuedWriteConflict = {
+  reason: string;                          // Machine-readable reason (not_found, stale_base, error, ...)
+  message?: string;                        // Human-readable detail from the server
+  fields?: string[];                       // Fields that conflict with the server copy
+  serverEntity?: Record<string, unknown>;  // Server copy in sync DTO shape, when the server sent one
+  reportedAt: string;                      // ISO timestamp the conflict was received
+};
+
 /**
  * Queued write operation with deterministic ordering and stable identity.
  */
@@ -47,6 +58,10 @@ export type QueuedWrite = {
   status: QueuedWriteStatus;    // Item status
   lastError?: string;           // Last error message (for debugging)
   requestId?: string;           // Optional request ID for observability (same for all items in a batch)
+  base?: unknown;               // Updates: entity as last synced, before the first queued change (three-way merge base)
+  patch?: Record<string, unknown>; // Updates: field changes left after resolving a conflict (sync DTO field names)
+  baseUpdatedAt?: string;       // Updates: server updatedAt that `patch` applies to
+  conflict?: QueuedWriteConflict; // Last unresolved conflict reported by the server
 };
 
 /**
@@ -311,10 +326,13 @@ function compactQueue(queue: QueuedWrite[]): QueuedWrite[] {
     } else if (existing.op === 'update' && item.op === 'update') {
       // update + update → update with latest payload
       // Preserve existing operationId (the original update operation)
+      // Keep the original base; a resolved patch is outdated by the new payload
       compacted.set(key, {
         ...existing,
         payload: item.payload,
         clientTimestamp: item.clientTimestamp,
+        patch: undefined,
+        baseUpdatedAt: undefined,
         // operationId preserved from existing (original update)
       });
     } else if (existing.op === 'create' && item.op === 'delete') {
@@ -350,7 +368,8 @@ export interface SyncQueueStorage {
     entityType: SyncEntityType,
     op: SyncOp,
     target: QueueTargetId,
-    payload: unknown
+    payload: unknown,
+    base?: unknown
   ): Promise<QueuedWrite>;
   
   /**
@@ -397,6 +416,24 @@ export interface SyncQueueStorage {
    * Mark a queued write as permanently failed.
    */
   markAsFailedPermanent(id: string, error: string): Promise<void>;
+
+  /**
+   * Replace a queued update's field changes after a sync conflict was resolved,
+   * and make it ready to retry.
+   */
+  rebase(id: string, patch: Record<string, unknown>, baseUpdatedAt: string): Promise<void>;
+
+  /**
+   * Record the conflict the server reported for a queued write.
+   */
+  recordConflict(id: string, conflict: Omit<QueuedWriteConflict, 'reportedAt'>): Promise<void>;
+
+  /**
+   * Make a failed or conflicted write ready to retry.
+   * With `overwriteServer`, field-level update state is dropped so the write
+   * is sent as the full local version.
+   */
+  requeue(id: string, overwriteServer?: boolean): Promise<void>;
   
   /**
    * Compact queue: merge operations for same entity to prevent thrash.
@@ -425,13 +462,15 @@ class SyncQueueStorageImpl implements SyncQueueStorage {
    * @param op - Operation type (create, update, delete)
    * @param target - Entity identifier (localId and optional serverId)
    * @param payload - Full entity data to sync
+   * @param base - For updates, the entity before this change (kept from the first queued update)
    * @returns The queued write operation (may be merged with existing if compaction occurs)
    */
   async enqueue(
     entityType: SyncEntityType,
     op: SyncOp,
     target: QueueTargetId,
-    payload: unknown
+    payload: unknown,
+    base?: unknown
   ): Promise<QueuedWrite> {
     // Create the queue item first (before lock) to have its ID and operationId
     const queuedWriteId = Crypto.randomUUID();
@@ -457,6 +496,7 @@ class SyncQueueStorageImpl implements SyncQueueStorage {
         clientTimestamp,
         attemptCount: 0,
         status: 'PENDING',
+        ...(op === 'update' && base !== undefined && { base }),
       };
       
       if (__DEV__) {
@@ -637,6 +677,57 @@ class SyncQueueStorageImpl implements SyncQueueStorage {
     }));
   }
   
+  /**
+   * Replace a queued update's field changes after a resolved conflict.
+   * Resets the retry state so the rebased update is sent on the next run.
+   * 
+   * Uses lock mechanism to prevent race conditions.
+   */
+  async rebase(id: string, patch: Record<string, unknown>, baseUpdatedAt: string): Promise<void> {
+    return this.updateQueueItem(id, item => ({
+      ...item,
+      patch,
+      baseUpdatedAt,
+      attemptCount: 0,
+      status: 'PENDING' as QueuedWriteStatus,
+      lastError: undefined,
+      conflict: undefined,
+    }));
+  }
+
+  /**
+   * Record the conflict the server reported for a queued write.
+   * 
+   * Uses lock mechanism to prevent race conditions.
+   */
+  async recordConflict(id: string, conflict: Omit<QueuedWriteConflict, 'reportedAt'>): Promise<void> {
+    return this.updateQueueItem(id, item => ({
+      ...item,
+      conflict: { ...conflict, reportedAt: new Date().toISOString() },
+      lastError: conflict.message ?? conflict.reason,
+    }));
+  }
+
+  /**
+   * Make a failed or conflicted write ready to retry, resetting its retry state
+   * and recorded conflict.
+   * 
+   * Uses lock mechanism to prevent race conditions.
+   * 
+   * @param id - ID of the queued write
+   * @param overwriteServer - Send the full local version instead of a field-level update
+   */
+  async requeue(id: string, overwriteServer = false): Promise<void> {
+    return this.updateQueueItem(id, item => ({
+      ...item,
+      ...(overwriteServer ? { base: undefined, patch: undefined, baseUpdatedAt: undefined } : {}),
+      attemptCount: 0,
+      status: 'PENDING' as QueuedWriteStatus,
+      lastError: undefined,
+      conflict: undefined,
+    }));
+  }
+  
   /**
    * Compact queue: merge operations for same entity to prevent thrash.
    * 
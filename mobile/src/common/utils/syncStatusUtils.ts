@@ -5,7 +5,7 @@
  * These functions check if entities are in the sync queue and determine their sync state.
  */
 
-import { syncQueueStorage, type QueuedWriteStatus } from './syncQueueStorage';
+import { syncQueueStorage, type QueuedWrite, type QueuedWriteStatus } from './syncQueueStorage';
 import type { SyncEntityType } from './cacheMetadata';
 
 /**
@@ -99,3 +99,14 @@ export function determineIndicatorStatus(syncStatus: {
   }
   return 'confirmed';
 }
+
+/**
+ * Checks whether a queued write needs the user's attention: it failed
+ * permanently, or the server reported a conflict it could not resolve.
+ * 
+ * @param item - Queued write to check
+ * @returns True if the write should be listed under sync issues
+ */
+export function isSyncIssue(item: Pick<QueuedWrite, 'status' | 'conflict'>): boolean {
+  return item.status === 'FAILED_PERMANENT' || item.conflict !== undefined;
+}
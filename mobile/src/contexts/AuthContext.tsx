@@ -11,10 +11,11 @@ import {
   setSessionRefreshHandler,
 } from '../services/api';
 import { tokenStorage } from '../features/auth/services/tokenStorage';
-import { authApi } from '../features/auth/services/authApi';
+import { authApi, type AuthResponse } from '../features/auth/services/authApi';
 import { refreshAccessToken } from '../features/auth/services/sessionManager';
 import { logger } from '../common/utils/logger';
 import { guestStorage } from '../common/utils/guestStorage';
+import { setSignedInCacheScope } from '../common/storage/dataModeStorage';
 import {
   verifyHouseholdIsNewlyCreated,
   mapUserResponseToUser,
@@ -45,6 +46,7 @@ interface AuthContextType {
   showHouseholdNameScreen: boolean;
   setShowHouseholdNameScreen: (show: boolean) => void;
   refreshUser: () => Promise<void>;
+  applySession: (response: AuthResponse) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -71,13 +73,22 @@ function isTransientSessionError(error: unknown): boolean {
 }
 
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUserState] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [showHouseholdNameScreen, setShowHouseholdNameScreen] = useState(false);
   const isProcessingOAuthRef = useRef(false);
 
   const { signInWithGoogle: oauthSignIn } = useOAuthSignIn();
 
+  /**
+   * Sets the current user and scopes the signed-in cache to their active household.
+   * The scope is applied before React re-renders so cache reads never mix households.
+   */
+  const setUser = useCallback((userData: User | null) => {
+    setSignedInCacheScope(userData && !userData.isGuest ? userData.householdId ?? null : null);
+    setUserState(userData);
+  }, []);
+
   const fetchCurrentUser = useCallback(async (): Promise<User> => {
     try {
       const response = await authApi.getCurrentUser();
@@ -544,6 +555,24 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  /**
+   * Applies tokens and user data issued for a new session context,
+   * such as after switching the active household.
+   *
+   * @param response - Auth response carrying the new tokens and user
+   */
+  const handleApplySession = async (response: AuthResponse) => {
+    await tokenStorage.saveAccessToken(response.accessToken);
+    if (response.refreshToken) {
+      await tokenStorage.saveRefreshToken(response.refreshToken);
+    }
+    api.setAuthToken(response.accessToken);
+
+    const userData = mapUserResponseToUser(response.user);
+    await saveUser(userData);
+    setUser(userData);
+  };
+
   const handleSignOut = async () => {
     // Clear stored user
     await saveUser(null);
@@ -606,6 +635,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         showHouseholdNameScreen,
         setShowHouseholdNameScreen,
         refreshUser: loadStoredUser,
+        applySession: handleApplySession,
       }}
     >
       {children}
@@ -1,6 +1,15 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { i18n } from '../i18n';
+import { config } from '../config';
+import { useAuth } from './AuthContext';
+import { authApi } from '../features/auth/services/authApi';
+import { refreshAccessToken } from '../features/auth/services/sessionManager';
+import { householdService, type HouseholdMembership } from '../services/householdService';
+import { syncQueueStorage } from '../common/utils/syncQueueStorage';
+import { getSyncQueueProcessor } from '../common/utils/syncQueueProcessor';
+import { cacheEvents } from '../common/utils/cacheEvents';
+import type { SyncEntityType } from '../common/utils/cacheMetadata';
 
 export interface HouseholdMember {
   id: string;
@@ -15,12 +24,33 @@ interface HouseholdContextType {
   addMember: (name: string, color?: string) => Promise<void>;
   removeMember: (id: string) => Promise<void>;
   getMemberById: (id: string) => HouseholdMember | undefined;
+  /** Households the signed-in user belongs to (empty for guests) */
+  households: HouseholdMembership[];
+  activeHouseholdId: string | null;
+  isSwitchingHousehold: boolean;
+  refreshHouseholds: () => Promise<void>;
+  switchHousehold: (householdId: string) => Promise<void>;
+  leaveHousehold: () => Promise<void>;
+  dissolveHousehold: () => Promise<void>;
 }
 
 const HouseholdContext = createContext<HouseholdContextType | undefined>(undefined);
 
 export const STORAGE_KEY = '@kitchen_hub_household_members';
 
+/**
+ * Thrown when queued offline writes could not be flushed before a switch.
+ * Sending them after the switch would apply them to the wrong household.
+ */
+export class PendingWritesError extends Error {
+  constructor() {
+    super('Pending changes must sync before switching households');
+    this.name = 'PendingWritesError';
+  }
+}
+
+const CACHED_ENTITY_TYPES: SyncEntityType[] = ['recipes', 'shoppingLists', 'shoppingItems', 'chores'];
+
 const DEFAULT_MEMBER_TEMPLATES = [
   { id: 'default-mom', nameKey: 'mom', fallback: 'Mom', color: '#FFB5A7' },
   { id: 'default-dad', nameKey: 'dad', fallback: 'Dad', color: '#B8E6E1' },
@@ -37,14 +67,113 @@ function getDefaultMembers(): HouseholdMember[] {
   }));
 }
 
+/**
+ * Syncs queued offline writes, which belong to the active household.
+ *
+ * @throws PendingWritesError if some writes are still waiting to sync
+ */
+async function flushPendingWrites(): Promise<void> {
+  await getSyncQueueProcessor().processQueue();
+  const queued = await syncQueueStorage.getAll();
+  if (queued.some(item => item.status !== 'FAILED_PERMANENT')) {
+    throw new PendingWritesError();
+  }
+}
+
+/**
+ * Tells cache-backed screens to reload after the cache scope changed.
+ */
+function notifyCacheScopeChanged(): void {
+  CACHED_ENTITY_TYPES.forEach(entityType => cacheEvents.emitCacheChange(entityType));
+}
+
 export function HouseholdProvider({ children }: { children: ReactNode }) {
   const [members, setMembers] = useState<HouseholdMember[]>(() => getDefaultMembers());
   const [isLoading, setIsLoading] = useState(true);
+  const { user, applySession, refreshUser, setShowHouseholdNameScreen } = useAuth();
+  const [households, setHouseholds] = useState<HouseholdMembership[]>([]);
+  const [isSwitchingHousehold, setIsSwitchingHousehold] = useState(false);
+
+  const isSignedIn = !config.mockData.enabled && !!user && !user.isGuest;
+  const activeHouseholdId = isSignedIn ? user?.householdId ?? null : null;
 
   useEffect(() => {
     loadMembers();
   }, []);
 
+  const refreshHouseholds = useCallback(async () => {
+    if (!isSignedIn) {
+      setHouseholds([]);
+      return;
+    }
+    try {
+      setHouseholds(await householdService.listMemberships());
+    } catch (error) {
+      console.error('Error loading households:', error);
+    }
+  }, [isSignedIn]);
+
+  useEffect(() => {
+    refreshHouseholds();
+  }, [refreshHouseholds, activeHouseholdId]);
+
+  /**
+   * Makes another household active.
+   * Queued writes are flushed first because they belong to the current household;
+   * the new tokens then scope both the API and the local cache to the chosen one.
+   *
+   * @param householdId - The household to switch to
+   * @throws PendingWritesError if queued writes could not be synced
+   */
+  const switchHousehold = useCallback(async (householdId: string) => {
+    if (householdId === activeHouseholdId) return;
+
+    setIsSwitchingHousehold(true);
+    try {
+      await flushPendingWrites();
+      const response = await authApi.switchHousehold(householdId);
+      await applySession(response);
+      setHouseholds(prev => prev.map(item => ({ ...item, isActive: item.id === householdId })));
+      notifyCacheScopeChanged();
+    } finally {
+      setIsSwitchingHousehold(false);
+    }
+  }, [activeHouseholdId, applySession]);
+
+  /**
+   * Runs an action that removes the user from the active household, then
+   * reloads the session so the server-picked next household becomes active.
+   * Without any household left the user is sent to household creation.
+   */
+  const leaveActiveHousehold = useCallback(async (action: () => Promise<unknown>) => {
+    setIsSwitchingHousehold(true);
+    try {
+      await flushPendingWrites();
+      await action();
+      await refreshAccessToken();
+      await refreshUser();
+
+      const remaining = await householdService.listMemberships();
+      setHouseholds(remaining);
+      notifyCacheScopeChanged();
+      if (remaining.length === 0) {
+        setShowHouseholdNameScreen(true);
+      }
+    } finally {
+      setIsSwitchingHousehold(false);
+    }
+  }, [refreshUser, setShowHouseholdNameScreen]);
+
+  const leaveHousehold = useCallback(
+    () => leaveActiveHousehold(householdService.leaveHousehold),
+    [leaveActiveHousehold],
+  );
+
+  const dissolveHousehold = useCallback(
+    () => leaveActiveHousehold(householdService.dissolveHousehold),
+    [leaveActiveHousehold],
+  );
+
   useEffect(() => {
     const handleLanguageChange = () => {
       setMembers(prevMembers => {
@@ -129,6 +258,13 @@ export function HouseholdProvider({ children }: { children: ReactNode }) {
         addMember,
         removeMember,
         getMemberById,
+        households,
+        activeHouseholdId,
+        isSwitchingHousehold,
+        refreshHouseholds,
+        switchHousehold,
+        leaveHousehold,
+        dissolveHousehold,
       }}
     >
       {children}
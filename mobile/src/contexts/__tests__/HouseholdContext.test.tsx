@@ -0,0 +1,116 @@
+import React from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+
+const mockApplySession = jest.fn();
+const mockRefreshUser = jest.fn();
+const mockSetShowHouseholdNameScreen = jest.fn();
+jest.mock('../AuthContext', () => ({
+  useAuth: () => ({
+    user: { id: 'user-1', householdId: 'h1', isGuest: false, role: 'Admin' },
+    applySession: mockApplySession,
+    refreshUser: mockRefreshUser,
+    setShowHouseholdNameScreen: mockSetShowHouseholdNameScreen,
+  }),
+}));
+
+jest.mock('../../config', () => ({
+  config: { mockData: { enabled: false } },
+}));
+
+const mockSwitchHousehold = jest.fn();
+jest.mock('../../features/auth/services/authApi', () => ({
+  authApi: { switchHousehold: (id: string) => mockSwitchHousehold(id) },
+}));
+
+const mockRefreshAccessToken = jest.fn();
+jest.mock('../../features/auth/services/sessionManager', () => ({
+  refreshAccessToken: () => mockRefreshAccessToken(),
+}));
+
+const mockListMemberships = jest.fn();
+const mockLeaveHousehold = jest.fn();
+jest.mock('../../services/householdService', () => ({
+  householdService: {
+    listMemberships: () => mockListMemberships(),
+    leaveHousehold: () => mockLeaveHousehold(),
+    dissolveHousehold: jest.fn(),
+  },
+}));
+
+const mockGetQueue = jest.fn();
+jest.mock('../../common/utils/syncQueueStorage', () => ({
+  syncQueueStorage: { getAll: () => mockGetQueue() },
+}));
+
+const mockProcessQueue = jest.fn();
+jest.mock('../../common/utils/syncQueueProcessor', () => ({
+  getSyncQueueProcessor: () => ({ processQueue: mockProcessQueue }),
+}));
+
+import { HouseholdProvider, PendingWritesError, useHousehold } from '../HouseholdContext';
+
+const MEMBERSHIPS = [
+  { id: 'h1', name: 'Home', role: 'Admin', joinedAt: '2026-01-01', isActive: true },
+  { id: 'h2', name: 'Cabin', role: 'Member', joinedAt: '2026-02-01', isActive: false },
+];
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <HouseholdProvider>{children}</HouseholdProvider>
+);
+
+describe('HouseholdProvider', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockListMemberships.mockResolvedValue(MEMBERSHIPS);
+    mockGetQueue.mockResolvedValue([]);
+  });
+
+  it('loads the households of the signed-in user', async () => {
+    const { result } = renderHook(() => useHousehold(), { wrapper });
+
+    await waitFor(() => {
+      expect(result.current.households).toHaveLength(2);
+    });
+    expect(result.current.activeHouseholdId).toBe('h1');
+  });
+
+  it('flushes queued writes, then applies the tokens of the chosen household', async () => {
+    const response = { accessToken: 'token-h2', user: { id: 'user-1', householdId: 'h2' } };
+    mockSwitchHousehold.mockResolvedValue(response);
+    const { result } = renderHook(() => useHousehold(), { wrapper });
+    await waitFor(() => expect(result.current.households).toHaveLength(2));
+
+    await act(async () => {
+      await result.current.switchHousehold('h2');
+    });
+
+    expect(mockProcessQueue).toHaveBeenCalled();
+    expect(mockSwitchHousehold).toHaveBeenCalledWith('h2');
+    expect(mockApplySession).toHaveBeenCalledWith(response);
+  });
+
+  it('refuses to switch while writes are still waiting to sync', async () => {
+    mockGetQueue.mockResolvedValue([{ id: 'q1', status: 'PENDING' }]);
+    const { result } = renderHook(() => useHousehold(), { wrapper });
+
+    await act(async () => {
+      await expect(result.current.switchHousehold('h2')).rejects.toThrow(PendingWritesError);
+    });
+    expect(mockSwitchHousehold).not.toHaveBeenCalled();
+  });
+
+  it('sends the user to household creation after leaving their last household', async () => {
+    const { result } = renderHook(() => useHousehold(), { wrapper });
+    await waitFor(() => expect(result.current.households).toHaveLength(2));
+    mockListMemberships.mockResolvedValue([]);
+
+    await act(async () => {
+      await result.current.leaveHousehold();
+    });
+
+    expect(mockLeaveHousehold).toHaveBeenCalled();
+    expect(mockRefreshAccessToken).toHaveBeenCalled();
+    expect(mockRefreshUser).toHaveBeenCalled();
+    expect(mockSetShowHouseholdNameScreen).toHaveBeenCalledWith(true);
+  });
+});
@@ -99,6 +99,7 @@ export function OnboardingProvider({ children }: { children: ReactNode }) {
  * 
  *   const handleValidateCode = async (code: string) => {
  *     const result = await inviteApi.validateInviteCode(code);
+ *     if (!result.valid) return;
  *     setMode('join_by_invite');
  *     setInviteContext({
  *       code,
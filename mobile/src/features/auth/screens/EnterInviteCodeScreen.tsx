@@ -14,7 +14,11 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { Ionicons } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
 import { colors, spacing, borderRadius, typography } from '../../../theme';
-import { inviteApi, InviteValidationResponse } from '../../households/services/inviteApi';
+import {
+  inviteApi,
+  InviteInvalidReason,
+  InviteValidationResponse,
+} from '../../households/services/inviteApi';
 import { useOnboarding } from '../contexts/OnboardingContext';
 
 type AuthStackParamList = {
@@ -28,6 +32,14 @@ type EnterInviteCodeScreenNavigationProp = NativeStackNavigationProp<
   'EnterInviteCode'
 >;
 
+/** Error key for each reason the backend reports an invite as unusable */
+const INVALID_REASON_ERROR_KEYS: Record<InviteInvalidReason, string> = {
+  not_found: 'inviteCode.errors.invalidCode',
+  expired: 'inviteCode.errors.expired',
+  revoked: 'inviteCode.errors.revoked',
+  exhausted: 'inviteCode.errors.exhausted',
+};
+
 interface EnterInviteCodeScreenProps {
   navigation: EnterInviteCodeScreenNavigationProp;
 }
@@ -38,8 +50,9 @@ interface EnterInviteCodeScreenProps {
  * Flow:
  * 1. User enters invite code
  * 2. User taps "Continue" to validate
- * 3. If valid, shows household preview and "Continue with Google" button
- * 4. User signs in with Google, joining the household
+ * 3. If valid, continues to sign-in. Households that approve new members
+ *    first show a preview explaining the request will wait for an admin
+ * 4. User signs in with Google, joining the household (or asking to)
  */
 export function EnterInviteCodeScreen({ navigation }: EnterInviteCodeScreenProps) {
   const { t } = useTranslation('auth');
@@ -65,6 +78,11 @@ export function EnterInviteCodeScreen({ navigation }: EnterInviteCodeScreenProps
 
     try {
       const data = await inviteApi.validateInviteCode(trimmedCode);
+      if (!data.valid || !data.householdId || !data.householdName) {
+        setError(t(INVALID_REASON_ERROR_KEYS[data.reason ?? 'not_found']));
+        setInviteData(null);
+        return;
+      }
       setInviteData(data);
       setMode('join_by_invite');
       setInviteContext({
@@ -72,7 +90,9 @@ export function EnterInviteCodeScreen({ navigation }: EnterInviteCodeScreenProps
         householdId: data.householdId,
         householdName: data.householdName,
       });
-      navigation.navigate('Login');
+      if (!data.requiresApproval) {
+        navigation.navigate('Login');
+      }
     } catch (err) {
       setError(t('inviteCode.errors.invalidCode'));
       setInviteData(null);
@@ -157,7 +177,11 @@ export function EnterInviteCodeScreen({ navigation }: EnterInviteCodeScreenProps
               // Household preview view
               <>
                 <View style={styles.iconContainer}>
-                  <Ionicons name="checkmark-circle" size={64} color={colors.success} />
+                  {inviteData.requiresApproval ? (
+                    <Ionicons name="hourglass-outline" size={64} color={colors.primary} />
+                  ) : (
+                    <Ionicons name="checkmark-circle" size={64} color={colors.success} />
+                  )}
                 </View>
 
                 <Text style={styles.subtitle}>{t('inviteCode.youreJoining')}</Text>
@@ -166,6 +190,12 @@ export function EnterInviteCodeScreen({ navigation }: EnterInviteCodeScreenProps
                   <Text style={styles.householdName}>{inviteData.householdName}</Text>
                 </View>
 
+                {inviteData.requiresApproval && (
+                  <Text style={styles.approvalNotice}>
+                    {t('inviteCode.requiresApproval', { household: inviteData.householdName })}
+                  </Text>
+                )}
+
                 <TouchableOpacity
                   style={[styles.button, styles.primaryButton]}
                   onPress={() => navigation.navigate('Login')}
@@ -302,6 +332,13 @@ const styles = StyleSheet.create({
     color: colors.primary,
     textAlign: 'center',
   },
+  approvalNotice: {
+    ...typography.body,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: spacing.xl,
+    maxWidth: 400,
+  },
   changeCodeButton: {
     marginTop: spacing.md,
     paddingVertical: spacing.sm,
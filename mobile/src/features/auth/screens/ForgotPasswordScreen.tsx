@@ -0,0 +1,273 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  Alert,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { authApi } from '../services/authApi';
+import { colors, spacing, borderRadius, typography } from '../../../theme';
+import { boxShadow } from '../../../theme/shadows';
+
+type AuthStackParamList = {
+  Login: undefined;
+  ForgotPassword: undefined;
+  ResetPassword: { token?: string } | undefined;
+};
+
+type ForgotPasswordScreenNavigationProp = NativeStackNavigationProp<AuthStackParamList, 'ForgotPassword'>;
+
+interface ForgotPasswordScreenProps {
+  navigation: ForgotPasswordScreenNavigationProp;
+}
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Requests a password reset email. The backend answers the same way whether
+ * or not the email is registered, so the screen always shows the same
+ * confirmation. The email link opens ResetPassword; "I have a reset code"
+ * opens it without a token for pasting the code manually.
+ */
+export function ForgotPasswordScreen({ navigation }: ForgotPasswordScreenProps) {
+  const { t } = useTranslation('auth');
+  const [email, setEmail] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const handleSendLink = async () => {
+    const trimmedEmail = email.trim();
+    if (!EMAIL_REGEX.test(trimmedEmail)) {
+      Alert.alert(t('login.validationError'), t('forgotPassword.errors.emailInvalid'), [
+        { text: t('buttons.ok', { ns: 'common' }) },
+      ]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await authApi.forgotPassword(trimmedEmail);
+      setSentTo(trimmedEmail);
+    } catch (error) {
+      Alert.alert(
+        t('forgotPassword.errors.requestFailed'),
+        error instanceof Error ? error.message : t('forgotPassword.errors.unableToSend'),
+        [{ text: t('buttons.ok', { ns: 'common' }) }]
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        style={styles.keyboardView}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <View style={styles.header}>
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() => navigation.goBack()}
+              accessibilityLabel={t('forgotPassword.goBack')}
+              accessibilityRole="button"
+            >
+              <Ionicons name="arrow-back" size={24} color={colors.primary} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.glassCard}>
+            <View style={styles.titleContainer}>
+              <View style={styles.iconContainer}>
+                <Ionicons
+                  name={sentTo ? 'mail-open-outline' : 'key-outline'}
+                  size={32}
+                  color={colors.primary}
+                />
+              </View>
+              <Text style={styles.title}>
+                {sentTo ? t('forgotPassword.sentTitle') : t('forgotPassword.title')}
+              </Text>
+              <Text style={styles.subtitle}>
+                {sentTo
+                  ? t('forgotPassword.sentMessage', { email: sentTo })
+                  : t('forgotPassword.subtitle')}
+              </Text>
+            </View>
+
+            {!sentTo && (
+              <>
+                <View style={styles.inputContainer}>
+                  <Text style={styles.label}>{t('forgotPassword.email')}</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={email}
+                    onChangeText={setEmail}
+                    placeholder={t('forgotPassword.emailPlaceholder')}
+                    placeholderTextColor={colors.textSecondary}
+                    keyboardType="email-address"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    editable={!isLoading}
+                    accessibilityLabel={t('forgotPassword.email')}
+                  />
+                </View>
+
+                <TouchableOpacity
+                  style={[styles.primaryButton, isLoading && styles.buttonDisabled]}
+                  onPress={handleSendLink}
+                  disabled={isLoading}
+                  accessibilityLabel={t('forgotPassword.sendLink')}
+                  accessibilityRole="button"
+                >
+                  <Text style={styles.primaryButtonText}>
+                    {isLoading ? t('forgotPassword.sending') : t('forgotPassword.sendLink')}
+                  </Text>
+                </TouchableOpacity>
+              </>
+            )}
+
+            <TouchableOpacity
+              style={styles.linkButton}
+              onPress={() => navigation.navigate('ResetPassword')}
+              disabled={isLoading}
+              accessibilityLabel={t('forgotPassword.haveCode')}
+              accessibilityRole="button"
+            >
+              <Text style={styles.linkText}>{t('forgotPassword.haveCode')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.linkButton}
+              onPress={() => navigation.navigate('Login')}
+              disabled={isLoading}
+              accessibilityLabel={t('forgotPassword.backToSignIn')}
+              accessibilityRole="button"
+            >
+              <Text style={styles.secondaryLinkText}>{t('forgotPassword.backToSignIn')}</Text>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.lg,
+  },
+  header: {
+    marginBottom: spacing.lg,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: borderRadius.md,
+    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    ...boxShadow(2, 4, 'rgba(0, 0, 0, 0.1)'),
+  },
+  glassCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.75)',
+    borderRadius: borderRadius.xxl,
+    padding: spacing.xl,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.5)',
+    ...boxShadow(10, 20, 'rgba(0, 0, 0, 0.1)'),
+  },
+  titleContainer: {
+    marginBottom: spacing.xl,
+    alignItems: 'center',
+  },
+  iconContainer: {
+    width: 64,
+    height: 64,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+    ...boxShadow(4, 12, 'rgba(0, 0, 0, 0.1)'),
+  },
+  title: {
+    ...typography.h1,
+    color: colors.primary,
+    marginBottom: spacing.xs,
+    fontSize: 28,
+    fontWeight: '800',
+    textAlign: 'center',
+  },
+  subtitle: {
+    ...typography.body,
+    color: colors.textSecondary,
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  inputContainer: {
+    marginBottom: spacing.lg,
+  },
+  label: {
+    ...typography.caption,
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+    fontWeight: '600',
+  },
+  input: {
+    ...typography.body,
+    backgroundColor: colors.surface,
+    borderWidth: 2,
+    borderColor: 'rgba(35, 76, 106, 0.2)',
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    color: colors.textPrimary,
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+    ...boxShadow(4, 8, 'rgba(35, 76, 106, 0.3)'),
+  },
+  primaryButtonText: {
+    ...typography.button,
+    color: colors.surface,
+    fontWeight: '700',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  linkButton: {
+    paddingTop: spacing.md,
+    alignItems: 'center',
+  },
+  linkText: {
+    ...typography.body,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  secondaryLinkText: {
+    ...typography.body,
+    color: colors.textSecondary,
+  },
+});
@@ -30,6 +30,7 @@ type AuthStackParamList = {
   EnterInviteCode: undefined;
   HouseholdName: undefined;
   HouseholdOnboarding: undefined;
+  ForgotPassword: undefined;
 };
 
 type LoginScreenNavigationProp = NativeStackNavigationProp<AuthStackParamList, 'Login'>;
@@ -314,6 +315,15 @@ export function LoginScreen({ navigation }: LoginScreenProps) {
                     {isLoading ? t('login.signingIn') : t('login.signIn')}
                   </Text>
                 </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.forgotPasswordLink}
+                  onPress={() => navigation.navigate('ForgotPassword')}
+                  disabled={isLoading}
+                  accessibilityLabel={t('login.forgotPassword')}
+                  accessibilityRole="link"
+                >
+                  <Text style={styles.forgotPasswordLinkText}>{t('login.forgotPassword')}</Text>
+                </TouchableOpacity>
                 <TouchableOpacity
                   style={styles.cancelEmailLogin}
                   onPress={() => {
@@ -556,6 +566,16 @@ const styles = StyleSheet.create({
     color: colors.surface,
     fontWeight: '700',
   },
+  forgotPasswordLink: {
+    paddingTop: spacing.sm,
+    alignItems: 'center',
+  },
+  forgotPasswordLinkText: {
+    ...typography.body,
+    color: colors.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
   cancelEmailLogin: {
     paddingVertical: spacing.sm,
     alignItems: 'center',
@@ -18,6 +18,7 @@ import { useAuth } from '../../../contexts/AuthContext';
 import { colors, spacing, borderRadius, typography } from '../../../theme';
 import { boxShadow } from '../../../theme/shadows';
 import { useTranslation } from 'react-i18next';
+import { getPasswordErrorKey } from '../utils/passwordValidation';
 
 type AuthStackParamList = {
   Login: undefined;
@@ -48,29 +49,13 @@ export function RegisterScreen({ navigation }: RegisterScreenProps) {
     return emailRegex.test(email.trim());
   };
 
-  const validatePassword = (password: string): { valid: boolean; message?: string } => {
-    if (password.length < 8) {
-      return { valid: false, message: t('register.errors.passwordMin') };
-    }
-    if (!/[A-Z]/.test(password)) {
-      return { valid: false, message: t('register.errors.passwordUpper') };
-    }
-    if (!/[a-z]/.test(password)) {
-      return { valid: false, message: t('register.errors.passwordLower') };
-    }
-    if (!/[0-9]/.test(password)) {
-      return { valid: false, message: t('register.errors.passwordNumber') };
-    }
-    return { valid: true };
-  };
-
   const validateForm = (): string | null => {
     if (!name.trim()) return t('register.errors.nameRequired');
     if (!email.trim()) return t('register.errors.emailRequired');
     if (!validateEmail(email)) return t('register.errors.emailInvalid');
 
-    const passwordCheck = validatePassword(password);
-    if (!passwordCheck.valid) return passwordCheck.message!;
+    const passwordErrorKey = getPasswordErrorKey(password);
+    if (passwordErrorKey) return t(passwordErrorKey);
 
     if (password !== confirmPassword) return t('register.errors.passwordMismatch');
     return null;
@@ -0,0 +1,310 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  Alert,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { authApi } from '../services/authApi';
+import { getPasswordErrorKey } from '../utils/passwordValidation';
+import { colors, spacing, borderRadius, typography } from '../../../theme';
+import { boxShadow } from '../../../theme/shadows';
+
+type AuthStackParamList = {
+  Login: undefined;
+  ResetPassword: { token?: string } | undefined;
+};
+
+type ResetPasswordScreenProps = NativeStackScreenProps<AuthStackParamList, 'ResetPassword'>;
+
+/**
+ * Sets a new password with the token from a password reset email. Opened by
+ * the `kitchen-hub://auth/reset-password?token=...` deep link, or from
+ * ForgotPassword without a token, in which case the user pastes the code.
+ * A successful reset signs the user out everywhere, so they sign in again.
+ */
+export function ResetPasswordScreen({ navigation, route }: ResetPasswordScreenProps) {
+  const { t } = useTranslation('auth');
+  const linkToken = route.params?.token;
+  const [code, setCode] = useState(linkToken ?? '');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // A newer reset link may arrive while the screen is already open
+  useEffect(() => {
+    if (linkToken) {
+      setCode(linkToken);
+    }
+  }, [linkToken]);
+
+  const validateForm = (): string | null => {
+    if (!code.trim()) return t('resetPassword.errors.codeRequired');
+
+    const passwordErrorKey = getPasswordErrorKey(password);
+    if (passwordErrorKey) return t(passwordErrorKey);
+
+    if (password !== confirmPassword) return t('register.errors.passwordMismatch');
+    return null;
+  };
+
+  const handleReset = async () => {
+    const error = validateForm();
+    if (error) {
+      Alert.alert(t('login.validationError'), error, [{ text: t('buttons.ok', { ns: 'common' }) }]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await authApi.resetPassword({ token: code.trim(), password });
+      Alert.alert(t('resetPassword.success.title'), t('resetPassword.success.message'), [
+        {
+          text: t('buttons.ok', { ns: 'common' }),
+          onPress: () => navigation.navigate('Login'),
+        },
+      ]);
+    } catch (error) {
+      Alert.alert(
+        t('resetPassword.errors.resetFailed'),
+        error instanceof Error ? error.message : t('resetPassword.errors.unableToReset'),
+        [{ text: t('buttons.ok', { ns: 'common' }) }]
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        style={styles.keyboardView}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <View style={styles.header}>
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() => (navigation.canGoBack() ? navigation.goBack() : navigation.navigate('Login'))}
+              accessibilityLabel={t('resetPassword.goBack')}
+              accessibilityRole="button"
+            >
+              <Ionicons name="arrow-back" size={24} color={colors.primary} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.glassCard}>
+            <View style={styles.titleContainer}>
+              <View style={styles.iconContainer}>
+                <Ionicons name="lock-closed-outline" size={32} color={colors.primary} />
+              </View>
+              <Text style={styles.title}>{t('resetPassword.title')}</Text>
+              <Text style={styles.subtitle}>{t('resetPassword.subtitle')}</Text>
+            </View>
+
+            {!linkToken && (
+              <View style={styles.inputContainer}>
+                <Text style={styles.label}>{t('resetPassword.code')}</Text>
+                <TextInput
+                  style={styles.input}
+                  value={code}
+                  onChangeText={setCode}
+                  placeholder={t('resetPassword.codePlaceholder')}
+                  placeholderTextColor={colors.textSecondary}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  editable={!isLoading}
+                  accessibilityLabel={t('resetPassword.code')}
+                />
+              </View>
+            )}
+
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>{t('resetPassword.password')}</Text>
+              <View style={styles.passwordContainer}>
+                <TextInput
+                  style={styles.passwordInput}
+                  value={password}
+                  onChangeText={setPassword}
+                  placeholder="••••••••"
+                  placeholderTextColor={colors.textSecondary}
+                  secureTextEntry={!showPassword}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  editable={!isLoading}
+                  accessibilityLabel={t('resetPassword.password')}
+                />
+                <TouchableOpacity
+                  style={styles.eyeButton}
+                  onPress={() => setShowPassword(!showPassword)}
+                  accessibilityLabel={showPassword ? t('login.hidePassword') : t('login.showPassword')}
+                  accessibilityRole="button"
+                >
+                  <Ionicons
+                    name={showPassword ? 'eye-off' : 'eye'}
+                    size={20}
+                    color={colors.textSecondary}
+                  />
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>{t('resetPassword.confirmPassword')}</Text>
+              <TextInput
+                style={styles.input}
+                value={confirmPassword}
+                onChangeText={setConfirmPassword}
+                placeholder="••••••••"
+                placeholderTextColor={colors.textSecondary}
+                secureTextEntry={!showPassword}
+                autoCapitalize="none"
+                autoCorrect={false}
+                editable={!isLoading}
+                accessibilityLabel={t('resetPassword.confirmPassword')}
+              />
+            </View>
+
+            <TouchableOpacity
+              style={[styles.primaryButton, isLoading && styles.buttonDisabled]}
+              onPress={handleReset}
+              disabled={isLoading}
+              accessibilityLabel={t('resetPassword.submit')}
+              accessibilityRole="button"
+            >
+              <Text style={styles.primaryButtonText}>
+                {isLoading ? t('resetPassword.submitting') : t('resetPassword.submit')}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.lg,
+  },
+  header: {
+    marginBottom: spacing.lg,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: borderRadius.md,
+    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    ...boxShadow(2, 4, 'rgba(0, 0, 0, 0.1)'),
+  },
+  glassCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.75)',
+    borderRadius: borderRadius.xxl,
+    padding: spacing.xl,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.5)',
+    ...boxShadow(10, 20, 'rgba(0, 0, 0, 0.1)'),
+  },
+  titleContainer: {
+    marginBottom: spacing.xl,
+    alignItems: 'center',
+  },
+  iconContainer: {
+    width: 64,
+    height: 64,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+    ...boxShadow(4, 12, 'rgba(0, 0, 0, 0.1)'),
+  },
+  title: {
+    ...typography.h1,
+    color: colors.primary,
+    marginBottom: spacing.xs,
+    fontSize: 28,
+    fontWeight: '800',
+    textAlign: 'center',
+  },
+  subtitle: {
+    ...typography.body,
+    color: colors.textSecondary,
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  inputContainer: {
+    marginBottom: spacing.lg,
+  },
+  label: {
+    ...typography.caption,
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+    fontWeight: '600',
+  },
+  input: {
+    ...typography.body,
+    backgroundColor: colors.surface,
+    borderWidth: 2,
+    borderColor: 'rgba(35, 76, 106, 0.2)',
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    color: colors.textPrimary,
+  },
+  passwordContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderWidth: 2,
+    borderColor: 'rgba(35, 76, 106, 0.2)',
+    borderRadius: borderRadius.md,
+  },
+  passwordInput: {
+    ...typography.body,
+    flex: 1,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    color: colors.textPrimary,
+  },
+  eyeButton: {
+    paddingHorizontal: spacing.md,
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+    marginTop: spacing.md,
+    ...boxShadow(4, 8, 'rgba(35, 76, 106, 0.3)'),
+  },
+  primaryButtonText: {
+    ...typography.button,
+    color: colors.surface,
+    fontWeight: '700',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,121 @@
+import React from 'react';
+import { render, fireEvent, waitFor } from '@testing-library/react-native';
+
+jest.mock('react-i18next', () => {
+  const authJson = require('../../../../i18n/locales/en/auth.json');
+
+  const walk = (root: Record<string, unknown>, key: string): string | undefined => {
+    const parts = key.split('.');
+    let cur: unknown = root;
+    for (const p of parts) {
+      if (cur && typeof cur === 'object' && p in cur) {
+        cur = (cur as Record<string, unknown>)[p];
+      } else {
+        return undefined;
+      }
+    }
+    return typeof cur === 'string' ? cur : undefined;
+  };
+
+  return {
+    useTranslation: () => ({
+      t: (key: string) => walk(authJson, key) ?? key,
+      i18n: { language: 'en', dir: () => 'ltr' },
+    }),
+  };
+});
+
+const mockSetMode = jest.fn();
+const mockSetInviteContext = jest.fn();
+jest.mock('../../contexts/OnboardingContext', () => ({
+  useOnboarding: () => ({
+    setMode: mockSetMode,
+    setInviteContext: mockSetInviteContext,
+  }),
+}));
+
+const mockValidateInviteCode = jest.fn();
+jest.mock('../../../households/services/inviteApi', () => ({
+  inviteApi: {
+    validateInviteCode: (code: string) => mockValidateInviteCode(code),
+  },
+}));
+
+const { EnterInviteCodeScreen } = require('../EnterInviteCodeScreen');
+const authJson = require('../../../../i18n/locales/en/auth.json');
+
+describe('EnterInviteCodeScreen', () => {
+  const navigation = { navigate: jest.fn(), goBack: jest.fn() };
+
+  const submitCode = (code: string) => {
+    const screen = render(<EnterInviteCodeScreen navigation={navigation} />);
+    fireEvent.changeText(screen.getByPlaceholderText(authJson.inviteCode.inputPlaceholder), code);
+    fireEvent.press(screen.getByText(authJson.inviteCode.continue));
+    return screen;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('continues to sign-in with the household of a valid code', async () => {
+    mockValidateInviteCode.mockResolvedValue({
+      valid: true,
+      householdId: 'household-1',
+      householdName: 'Smith Family',
+    });
+
+    submitCode('ABC123');
+
+    await waitFor(() => {
+      expect(navigation.navigate).toHaveBeenCalledWith('Login');
+    });
+    expect(mockSetMode).toHaveBeenCalledWith('join_by_invite');
+    expect(mockSetInviteContext).toHaveBeenCalledWith({
+      code: 'ABC123',
+      householdId: 'household-1',
+      householdName: 'Smith Family',
+    });
+  });
+
+  it('explains that the household approves new members before continuing', async () => {
+    mockValidateInviteCode.mockResolvedValue({
+      valid: true,
+      householdId: 'household-1',
+      householdName: 'Smith Family',
+      requiresApproval: true,
+    });
+
+    const { findByText, getByText } = submitCode('ABC123');
+
+    expect(await findByText('Smith Family')).toBeTruthy();
+    expect(mockSetInviteContext).toHaveBeenCalled();
+    expect(navigation.navigate).not.toHaveBeenCalled();
+
+    fireEvent.press(getByText(authJson.inviteCode.continueToSignIn));
+    expect(navigation.navigate).toHaveBeenCalledWith('Login');
+  });
+
+  it.each([
+    ['expired', authJson.inviteCode.errors.expired],
+    ['revoked', authJson.inviteCode.errors.revoked],
+    ['exhausted', authJson.inviteCode.errors.exhausted],
+    ['not_found', authJson.inviteCode.errors.invalidCode],
+  ])('explains a %s code', async (reason, message) => {
+    mockValidateInviteCode.mockResolvedValue({ valid: false, reason });
+
+    const { findByText } = submitCode('ABC123');
+
+    expect(await findByText(message)).toBeTruthy();
+    expect(navigation.navigate).not.toHaveBeenCalled();
+    expect(mockSetInviteContext).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the generic message when validation fails', async () => {
+    mockValidateInviteCode.mockRejectedValue(new Error('Network error'));
+
+    const { findByText } = submitCode('ABC123');
+
+    expect(await findByText(authJson.inviteCode.errors.invalidCode)).toBeTruthy();
+  });
+});
@@ -0,0 +1,79 @@
+import React from 'react';
+import { render, fireEvent, waitFor } from '@testing-library/react-native';
+import { Alert } from 'react-native';
+
+jest.mock('@expo/vector-icons', () => ({
+  Ionicons: () => null,
+}));
+
+const mockForgotPassword = jest.fn();
+jest.mock('../../services/authApi', () => ({
+  authApi: {
+    forgotPassword: (email: string) => mockForgotPassword(email),
+  },
+}));
+
+const { ForgotPasswordScreen } = require('../ForgotPasswordScreen');
+
+describe('ForgotPasswordScreen', () => {
+  const navigation = { navigate: jest.fn(), goBack: jest.fn() };
+  const alertSpy = jest.spyOn(Alert, 'alert');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    alertSpy.mockImplementation(() => {});
+    mockForgotPassword.mockResolvedValue({ message: 'sent' });
+  });
+
+  afterAll(() => {
+    alertSpy.mockRestore();
+  });
+
+  const submitEmail = (email: string) => {
+    const screen = render(<ForgotPasswordScreen navigation={navigation} />);
+    fireEvent.changeText(screen.getByPlaceholderText('forgotPassword.emailPlaceholder'), email);
+    fireEvent.press(screen.getByText('forgotPassword.sendLink'));
+    return screen;
+  };
+
+  it('requests a reset link and shows the confirmation', async () => {
+    const { findByText, queryByText } = submitEmail('  user@example.com ');
+
+    expect(await findByText('forgotPassword.sentTitle')).toBeTruthy();
+    expect(mockForgotPassword).toHaveBeenCalledWith('user@example.com');
+    expect(queryByText('forgotPassword.sendLink')).toBeNull();
+  });
+
+  it('rejects an invalid email without calling the API', () => {
+    submitEmail('not-an-email');
+
+    expect(mockForgotPassword).not.toHaveBeenCalled();
+    expect(alertSpy).toHaveBeenCalledWith(
+      'login.validationError',
+      'forgotPassword.errors.emailInvalid',
+      expect.any(Array)
+    );
+  });
+
+  it('alerts with the API error when the request fails', async () => {
+    mockForgotPassword.mockRejectedValue(new Error('Network down'));
+
+    submitEmail('user@example.com');
+
+    await waitFor(() => {
+      expect(alertSpy).toHaveBeenCalledWith(
+        'forgotPassword.errors.requestFailed',
+        'Network down',
+        expect.any(Array)
+      );
+    });
+  });
+
+  it('opens the reset screen for entering a code manually', () => {
+    const { getByText } = render(<ForgotPasswordScreen navigation={navigation} />);
+
+    fireEvent.press(getByText('forgotPassword.haveCode'));
+
+    expect(navigation.navigate).toHaveBeenCalledWith('ResetPassword');
+  });
+});
@@ -119,6 +119,13 @@ describe('LoginScreen', () => {
     expect(mockNavigate).toHaveBeenCalledWith('EnterInviteCode');
   });
 
+  it('navigates to ForgotPassword from the email sign-in form', () => {
+    const { getByText } = render(<LoginScreen navigation={navigation} />);
+    fireEvent.press(getByText('Sign in with Email'));
+    fireEvent.press(getByText('Forgot password?'));
+    expect(mockNavigate).toHaveBeenCalledWith('ForgotPassword');
+  });
+
   describe('When in join_by_invite mode', () => {
     beforeEach(() => {
       (useOnboarding as jest.Mock).mockReturnValue({
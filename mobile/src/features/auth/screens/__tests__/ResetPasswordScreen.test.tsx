@@ -0,0 +1,101 @@
+import React from 'react';
+import { render, fireEvent, waitFor } from '@testing-library/react-native';
+import { Alert } from 'react-native';
+
+jest.mock('@expo/vector-icons', () => ({
+  Ionicons: () => null,
+}));
+
+const mockResetPassword = jest.fn();
+jest.mock('../../services/authApi', () => ({
+  authApi: {
+    resetPassword: (data: unknown) => mockResetPassword(data),
+  },
+}));
+
+const { ResetPasswordScreen } = require('../ResetPasswordScreen');
+
+describe('ResetPasswordScreen', () => {
+  const navigation = { navigate: jest.fn(), goBack: jest.fn(), canGoBack: () => true };
+  const alertSpy = jest.spyOn(Alert, 'alert');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    alertSpy.mockImplementation(() => {});
+    mockResetPassword.mockResolvedValue({ message: 'ok' });
+  });
+
+  afterAll(() => {
+    alertSpy.mockRestore();
+  });
+
+  const renderScreen = (token?: string) =>
+    render(<ResetPasswordScreen navigation={navigation} route={{ params: token ? { token } : undefined }} />);
+
+  const fillPasswords = (
+    screen: ReturnType<typeof renderScreen>,
+    password: string,
+    confirmPassword = password
+  ) => {
+    fireEvent.changeText(screen.getByLabelText('resetPassword.password'), password);
+    fireEvent.changeText(screen.getByLabelText('resetPassword.confirmPassword'), confirmPassword);
+    fireEvent.press(screen.getByText('resetPassword.submit'));
+  };
+
+  it('resets the password with the token from the deep link and returns to login', async () => {
+    const screen = renderScreen('link-token');
+
+    expect(screen.queryByLabelText('resetPassword.code')).toBeNull();
+    fillPasswords(screen, 'NewPassword1');
+
+    await waitFor(() => {
+      expect(mockResetPassword).toHaveBeenCalledWith({ token: 'link-token', password: 'NewPassword1' });
+    });
+    const buttons = alertSpy.mock.calls[0][2] as Array<{ onPress?: () => void }>;
+    expect(alertSpy.mock.calls[0][0]).toBe('resetPassword.success.title');
+    buttons[0].onPress?.();
+    expect(navigation.navigate).toHaveBeenCalledWith('Login');
+  });
+
+  it('asks for the code when opened without a token', async () => {
+    const screen = renderScreen();
+
+    fillPasswords(screen, 'NewPassword1');
+    expect(alertSpy).toHaveBeenCalledWith(
+      'login.validationError',
+      'resetPassword.errors.codeRequired',
+      expect.any(Array)
+    );
+
+    fireEvent.changeText(screen.getByLabelText('resetPassword.code'), ' pasted-code ');
+    fireEvent.press(screen.getByText('resetPassword.submit'));
+
+    await waitFor(() => {
+      expect(mockResetPassword).toHaveBeenCalledWith({ token: 'pasted-code', password: 'NewPassword1' });
+    });
+  });
+
+  it.each([
+    ['a weak password', 'weak', 'weak', 'register.errors.passwordMin'],
+    ['mismatched passwords', 'NewPassword1', 'NewPassword2', 'register.errors.passwordMismatch'],
+  ])('rejects %s without calling the API', (_, password, confirmPassword, message) => {
+    fillPasswords(renderScreen('link-token'), password, confirmPassword);
+
+    expect(mockResetPassword).not.toHaveBeenCalled();
+    expect(alertSpy).toHaveBeenCalledWith('login.validationError', message, expect.any(Array));
+  });
+
+  it('alerts with the API error for an expired or used token', async () => {
+    mockResetPassword.mockRejectedValue(new Error('Invalid or expired password reset token.'));
+
+    fillPasswords(renderScreen('used-token'), 'NewPassword1');
+
+    await waitFor(() => {
+      expect(alertSpy).toHaveBeenCalledWith(
+        'resetPassword.errors.resetFailed',
+        'Invalid or expired password reset token.',
+        expect.any(Array)
+      );
+    });
+  });
+});
@@ -51,6 +51,14 @@ export interface LoginRequest {
   password: string;
 }
 
+/**
+ * Password reset request payload (token from the reset email)
+ */
+export interface ResetPasswordRequest {
+  token: string;
+  password: string;
+}
+
 export interface RefreshTokenRequest {
   refreshToken: string;
 }
@@ -105,6 +113,21 @@ export const authApi = {
     return api.post<AuthResponse>('/auth/login', data);
   },
 
+  /**
+   * Requests a password reset email. The response is the same whether or
+   * not the email belongs to an account.
+   */
+  forgotPassword: (email: string): Promise<{ message: string }> => {
+    return api.post<{ message: string }>('/auth/forgot-password', { email });
+  },
+
+  /**
+   * Sets a new password with a reset token. Signs the user out on all devices.
+   */
+  resetPassword: (data: ResetPasswordRequest): Promise<{ message: string }> => {
+    return api.post<{ message: string }>('/auth/reset-password', data);
+  },
+
   /**
    * Refreshes access token using a valid refresh token.
    */
@@ -134,4 +157,12 @@ export const authApi = {
   getCurrentUser: (): Promise<UserResponse> => {
     return api.get<UserResponse>('/auth/me');
   },
+
+  /**
+   * Makes another household the user's active one.
+   * The returned tokens are scoped to that household.
+   */
+  switchHousehold: (householdId: string): Promise<AuthResponse> => {
+    return api.post<AuthResponse>('/auth/switch-household', { householdId });
+  },
 };
@@ -0,0 +1,13 @@
+import { getPasswordErrorKey } from '../passwordValidation';
+
+describe('getPasswordErrorKey', () => {
+  it.each([
+    ['Pass1', 'register.errors.passwordMin'],
+    ['password1', 'register.errors.passwordUpper'],
+    ['PASSWORD1', 'register.errors.passwordLower'],
+    ['Password', 'register.errors.passwordNumber'],
+    ['Password1', null],
+  ])('returns %p -> %p', (password, expected) => {
+    expect(getPasswordErrorKey(password)).toBe(expected);
+  });
+});
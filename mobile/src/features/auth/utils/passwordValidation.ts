@@ -0,0 +1,32 @@
+/**
+ * Minimum password length, matching the backend's `@MinLength(8)` rule.
+ */
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Checks a new password against the app's password rules.
+ *
+ * @param password - Password entered by the user
+ * @returns i18n key (auth namespace) of the first rule broken, or null if valid
+ *
+ * @example
+ * ```typescript
+ * getPasswordErrorKey('short'); // 'register.errors.passwordMin'
+ * getPasswordErrorKey('Password1'); // null
+ * ```
+ */
+export function getPasswordErrorKey(password: string): string | null {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return 'register.errors.passwordMin';
+  }
+  if (!/[A-Z]/.test(password)) {
+    return 'register.errors.passwordUpper';
+  }
+  if (!/[a-z]/.test(password)) {
+    return 'register.errors.passwordLower';
+  }
+  if (!/[0-9]/.test(password)) {
+    return 'register.errors.passwordNumber';
+  }
+  return null;
+}
@@ -13,6 +13,13 @@ import type { ChoreCardProps } from './types';
 const CARD_BG_DEFAULT = '#EEF3F7';
 const CARD_BG_COMPLETED = 'rgba(16, 185, 129, 0.07)';
 
+/** Card label keys for "every N days/weeks/months" when the interval exceeds 1. */
+const RECURRENCE_INTERVAL_LABEL_KEYS = {
+  daily: 'everyDays',
+  weekly: 'everyWeeks',
+  monthly: 'everyMonths',
+} as const;
+
 /**
  * Chore Card Component
  * 
@@ -49,8 +56,12 @@ export const ChoreCard = React.memo(function ChoreCard({
   const { t, i18n } = useTranslation('chores');
   const isRtlAppLanguage = isRtl ?? (i18n.dir() === 'rtl' || I18nManager.isRTL);
   const assigneeLabel = chore.assignee ?? t('modal.assigneeUnassigned');
-  const recurrenceLabel = chore.recurrencePattern
-    ? t(`modal.recurrence.${chore.recurrencePattern}`)
+  const recurrenceInterval = chore.recurrence?.interval ?? 1;
+  const recurrenceFrequency = chore.recurrence?.frequency ?? chore.recurrencePattern;
+  const recurrenceLabel = recurrenceFrequency
+    ? recurrenceInterval > 1
+      ? t(`card.${RECURRENCE_INTERVAL_LABEL_KEYS[recurrenceFrequency]}`, { count: recurrenceInterval })
+      : t(`modal.recurrence.${recurrenceFrequency}`)
     : chore.isRecurring
       ? t('modal.recurrence.daily')
       : t('card.oneTime');
@@ -8,14 +8,30 @@ import { useHousehold } from '../../../../contexts/HouseholdContext';
 import { EntityFormModal } from '../../../../common/components/EntityFormModal';
 import { ManageHouseholdModal } from '../../../settings/components/ManageHouseholdModal';
 import { DateTimePicker } from '../../../../common/components/DateTimePicker';
-import { CHORE_ICONS } from '../../constants';
+import { CHORE_ICONS, CHORE_REMINDER_OPTIONS } from '../../constants';
+import {
+  createRecurrence,
+  toggleRecurrenceWeekday,
+  isSameRecurrence,
+  WEEKDAY_KEYS,
+  MAX_RECURRENCE_INTERVAL,
+} from '../../utils/recurrence';
+import { toggleRotationMember, getNextRotationMemberId, isSameRotation } from '../../utils/rotation';
 import { styles } from './styles';
-import type { Chore } from '../../../../mocks/chores';
+import type {
+  Chore,
+  ChoreRecurrence,
+  ChoreRotation,
+  RecurrenceFrequency,
+  RotationMode,
+} from '../../../../mocks/chores';
 import type { ChoreDetailsModalProps } from './types';
 
 /** Auto-focus delay (ms) to allow modal entrance animation to complete first. */
 const AUTOFOCUS_DELAY_MS = 150;
 
+const ROTATION_MODES: readonly RotationMode[] = ['on_completion', 'on_schedule'];
+
 /**
  * Determines which section bucket a due date falls into.
  *
@@ -61,9 +77,15 @@ export function ChoreDetailsModal(props: ChoreDetailsModalProps) {
   const [choreName, setChoreName] = useState('');
   const [selectedAssignee, setSelectedAssignee] = useState<string | undefined>(undefined);
   const [selectedDateTime, setSelectedDateTime] = useState<Date | null>(new Date());
+  const [isAllDay, setIsAllDay] = useState(false);
   const [selectedIcon, setSelectedIcon] = useState<string>('📋');
   const [showManageHousehold, setShowManageHousehold] = useState(false);
-  const [recurrencePattern, setRecurrencePattern] = useState<'daily' | 'weekly' | 'monthly' | null>(null);
+  const [recurrence, setRecurrence] = useState<ChoreRecurrence | null>(null);
+  const [rotation, setRotation] = useState<ChoreRotation | null>(null);
+  const [reminder, setReminder] = useState<string | null>(null);
+  const recurrencePattern = recurrence?.frequency ?? null;
+  // Rotation only applies to chores that repeat
+  const effectiveRotation = recurrence ? rotation : null;
 
   const inputRef = useRef<TextInput>(null);
 
@@ -78,7 +100,13 @@ export function ChoreDetailsModal(props: ChoreDetailsModalProps) {
       setSelectedAssignee(props.chore.assignee);
       setSelectedIcon(props.chore.icon || '📋');
       setSelectedDateTime(coerceDate(props.chore.originalDate));
-      setRecurrencePattern(props.chore.recurrencePattern ?? null);
+      setIsAllDay(props.chore.isAllDay ?? false);
+      setRecurrence(
+        props.chore.recurrence ??
+          (props.chore.recurrencePattern ? createRecurrence(props.chore.recurrencePattern) : null),
+      );
+      setRotation(props.chore.rotation ?? null);
+      setReminder(props.chore.reminder ?? null);
       return;
     }
 
@@ -86,7 +114,10 @@ export function ChoreDetailsModal(props: ChoreDetailsModalProps) {
     setSelectedIcon('📋');
     setSelectedAssignee(undefined);
     setSelectedDateTime(new Date());
-    setRecurrencePattern(null);
+    setIsAllDay(false);
+    setRecurrence(null);
+    setRotation(null);
+    setReminder(null);
   }, [visible, mode, props.chore]);
 
   // Auto-focus the name input when opening in add mode.
@@ -105,16 +136,22 @@ export function ChoreDetailsModal(props: ChoreDetailsModalProps) {
     if (mode !== 'add' || !choreName.trim() || !selectedDateTime) return;
 
     const isRecurring = recurrencePattern !== null;
+    // A rotating chore starts with the first member unless someone was picked
+    const firstRotationMember = members.find((m) => m.id === effectiveRotation?.memberIds[0]);
 
     props.onAddChore({
       title: choreName.trim(),
       icon: selectedIcon,
-      assignee: selectedAssignee,
+      assignee: selectedAssignee ?? firstRotationMember?.name,
       dueDate: dayjs(selectedDateTime).format('MMM D, YYYY'),
-      dueTime: dayjs(selectedDateTime).format('h:mm A'),
+      dueTime: isAllDay ? undefined : dayjs(selectedDateTime).format('h:mm A'),
+      isAllDay,
       section: getDueDateSection(selectedDateTime, isRecurring),
       isRecurring,
       recurrencePattern,
+      recurrence,
+      rotation: effectiveRotation,
+      reminder,
     });
 
     onClose();
@@ -136,7 +173,7 @@ export function ChoreDetailsModal(props: ChoreDetailsModalProps) {
       updates.icon = selectedIcon;
     }
 
-    const newIsRecurring = recurrencePattern !== null;
+    const newIsRecurring = recurrence !== null;
     if ((props.chore.isRecurring || false) !== newIsRecurring) {
       updates.isRecurring = newIsRecurring;
       if (newIsRecurring) {
@@ -144,6 +181,23 @@ export function ChoreDetailsModal(props: ChoreDetailsModalProps) {
       }
     }
 
+    const existingRecurrence =
+      props.chore.recurrence ??
+      (props.chore.recurrencePattern ? createRecurrence(props.chore.recurrencePattern) : null);
+    if (!isSameRecurrence(existingRecurrence, recurrence)) {
+      updates.recurrence = recurrence;
+      updates.recurrencePattern = recurrencePattern;
+      updates.isRecurring = newIsRecurring;
+    }
+
+    if (!isSameRotation(props.chore.rotation, effectiveRotation)) {
+      updates.rotation = effectiveRotation;
+    }
+
+    if ((props.chore.reminder ?? null) !== reminder) {
+      updates.reminder = reminder;
+    }
+
     if (selectedAssignee !== props.chore.assignee) {
       const member = members.find((m) => m.name === selectedAssignee);
       updates.assigneeId = member?.id || undefined;
@@ -152,7 +206,8 @@ export function ChoreDetailsModal(props: ChoreDetailsModalProps) {
 
     if (selectedDateTime) {
       updates.dueDate = dayjs(selectedDateTime).format('MMM D, YYYY');
-      updates.dueTime = dayjs(selectedDateTime).format('h:mm A');
+      updates.dueTime = isAllDay ? undefined : dayjs(selectedDateTime).format('h:mm A');
+      updates.isAllDay = isAllDay;
       updates.originalDate = selectedDateTime;
       updates.section = getDueDateSection(selectedDateTime, newIsRecurring);
     }
@@ -174,7 +229,53 @@ export function ChoreDetailsModal(props: ChoreDetailsModalProps) {
   const modalTitle = mode === 'add' ? t('modal.addTitle') : t('modal.editTitle');
   const submitText = mode === 'add' ? t('modal.submitAdd') : t('modal.submitSave');
 
-  const recurrenceOptions: Array<{ value: 'daily' | 'weekly' | 'monthly' | null; labelKey: string }> = [
+  const handleSelectFrequency = (frequency: RecurrenceFrequency | null) => {
+    setRecurrence((previous) => (frequency ? createRecurrence(frequency, previous) : null));
+  };
+
+  const handleChangeInterval = (delta: number) => {
+    setRecurrence((previous) => {
+      if (!previous) return previous;
+      const interval = Math.min(MAX_RECURRENCE_INTERVAL, Math.max(1, previous.interval + delta));
+      return { ...previous, interval };
+    });
+  };
+
+  const handleToggleWeekday = (weekday: number) => {
+    setRecurrence((previous) => (previous ? toggleRecurrenceWeekday(previous, weekday) : previous));
+  };
+
+  const handleToggleRotationMember = (memberId: string) => {
+    setRotation((previous) => toggleRotationMember(previous, memberId));
+  };
+
+  const handleSelectRotationMode = (rotationMode: RotationMode) => {
+    setRotation((previous) => (previous ? { ...previous, mode: rotationMode } : previous));
+  };
+
+  const selectedAssigneeId = members.find((m) => m.name === selectedAssignee)?.id;
+  const currentRotationAssigneeId =
+    selectedAssigneeId ?? (mode === 'add' ? effectiveRotation?.memberIds[0] : undefined);
+  // Prefer the server's answer while nothing affecting the rotation was edited
+  const isRotationUnchanged =
+    mode === 'edit' &&
+    props.chore !== null &&
+    isSameRotation(props.chore.rotation, effectiveRotation) &&
+    selectedAssignee === props.chore.assignee;
+  const upNextName =
+    isRotationUnchanged && props.chore?.nextAssignee
+      ? props.chore.nextAssignee
+      : members.find(
+          (m) =>
+            m.id ===
+            getNextRotationMemberId(
+              effectiveRotation,
+              currentRotationAssigneeId,
+              members.map((member) => member.id),
+            ),
+        )?.name;
+
+  const recurrenceOptions: Array<{ value: RecurrenceFrequency | null; labelKey: string }> = [
     { value: null, labelKey: 'modal.recurrence.none' },
     { value: 'daily', labelKey: 'modal.recurrence.daily' },
     { value: 'weekly', labelKey: 'modal.recurrence.weekly' },
@@ -241,7 +342,7 @@ export function ChoreDetailsModal(props: ChoreDetailsModalProps) {
             <TouchableOpacity
               key={labelKey}
               style={[styles.recurrenceOption, isRtlLayout && styles.recurrenceOptionRtl, recurrencePattern === value && styles.recurrenceOptionSelected]}
-              onPress={() => setRecurrencePattern(value)}
+              onPress={() => handleSelectFrequency(value)}
             >
               <View style={isRtlLayout ? styles.rtlTextRow : undefined}>
                 <Text
@@ -257,12 +358,60 @@ export function ChoreDetailsModal(props: ChoreDetailsModalProps) {
             </TouchableOpacity>
           ))}
         </View>
+        {recurrence && (
+          <View style={[styles.intervalRow, isRtlLayout && styles.recurrenceOptionsRtl]}>
+            <Text style={[styles.intervalLabel, isRtlLayout && styles.modalTextRtl]}>
+              {t('modal.recurrence.every')}
+            </Text>
+            <TouchableOpacity
+              style={styles.intervalButton}
+              onPress={() => handleChangeInterval(-1)}
+              disabled={recurrence.interval <= 1}
+              accessibilityLabel={t('modal.recurrence.decreaseInterval')}
+            >
+              <Ionicons name="remove" size={16} color={colors.textPrimary} />
+            </TouchableOpacity>
+            <Text style={styles.intervalValue}>{recurrence.interval}</Text>
+            <TouchableOpacity
+              style={styles.intervalButton}
+              onPress={() => handleChangeInterval(1)}
+              disabled={recurrence.interval >= MAX_RECURRENCE_INTERVAL}
+              accessibilityLabel={t('modal.recurrence.increaseInterval')}
+            >
+              <Ionicons name="add" size={16} color={colors.textPrimary} />
+            </TouchableOpacity>
+            <Text style={[styles.intervalLabel, isRtlLayout && styles.modalTextRtl]}>
+              {t(`modal.recurrence.unit.${recurrence.frequency}`, { count: recurrence.interval })}
+            </Text>
+          </View>
+        )}
+        {recurrence?.frequency === 'weekly' && (
+          <View style={[styles.weekdayRow, isRtlLayout && styles.recurrenceOptionsRtl]}>
+            {WEEKDAY_KEYS.map((key, weekday) => {
+              const isSelected = recurrence.byWeekday?.includes(weekday) ?? false;
+              return (
+                <TouchableOpacity
+                  key={key}
+                  style={[styles.weekdayChip, isSelected && styles.recurrenceOptionSelected]}
+                  onPress={() => handleToggleWeekday(weekday)}
+                  accessibilityState={{ selected: isSelected }}
+                >
+                  <Text style={[styles.recurrenceOptionText, isSelected && styles.recurrenceOptionTextSelected]}>
+                    {t(`modal.recurrence.weekdays.${key}`)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
       </View>
 
       <View style={styles.dueDateSection}>
         <DateTimePicker
           value={selectedDateTime}
           onChange={setSelectedDateTime}
+          allDay={isAllDay}
+          onAllDayChange={setIsAllDay}
           label={t('modal.dueDateLabel')}
           placeholder={t('modal.dueDatePlaceholder')}
           minDate={new Date()}
@@ -271,6 +420,33 @@ export function ChoreDetailsModal(props: ChoreDetailsModalProps) {
         />
       </View>
 
+      <View style={[styles.reminderSection, isRtlLayout && styles.modalSectionRtl]}>
+        <View style={isRtlLayout ? styles.rtlTextRow : undefined}>
+          <Text style={[styles.assigneeLabel, isRtlLayout && styles.modalTextRtl]}>{t('modal.reminder.label')}</Text>
+        </View>
+        <View style={[styles.recurrenceOptions, isRtlLayout && styles.recurrenceOptionsRtl]}>
+          {[null, ...CHORE_REMINDER_OPTIONS].map((option) => (
+            <TouchableOpacity
+              key={option ?? 'none'}
+              style={[styles.recurrenceOption, isRtlLayout && styles.recurrenceOptionRtl, reminder === option && styles.recurrenceOptionSelected]}
+              onPress={() => setReminder(option)}
+              accessibilityState={{ selected: reminder === option }}
+              testID={`reminder-option-${option ?? 'none'}`}
+            >
+              <Text
+                style={[
+                  styles.recurrenceOptionText,
+                  isRtlLayout && styles.modalTextRtl,
+                  reminder === option && styles.recurrenceOptionTextSelected,
+                ]}
+              >
+                {t(`modal.reminder.${option ?? 'none'}`)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
       <View style={[styles.assigneeSection, isRtlLayout && styles.modalSectionRtl]}>
         <View style={isRtlLayout ? styles.rtlTextRow : undefined}>
           <Text style={[styles.assigneeLabel, isRtlLayout && styles.modalTextRtl]}>{t('modal.assignLabel')}</Text>
@@ -320,6 +496,66 @@ export function ChoreDetailsModal(props: ChoreDetailsModalProps) {
         </ScrollView>
       </View>
 
+      {recurrence && members.length > 0 && (
+        <View style={[styles.rotationSection, isRtlLayout && styles.modalSectionRtl]}>
+          <View style={isRtlLayout ? styles.rtlTextRow : undefined}>
+            <Text style={[styles.assigneeLabel, isRtlLayout && styles.modalTextRtl]}>{t('modal.rotation.label')}</Text>
+          </View>
+          <View style={[styles.rotationMembers, isRtlLayout && styles.recurrenceOptionsRtl]}>
+            {members.map((member) => {
+              const position = rotation?.memberIds.indexOf(member.id) ?? -1;
+              const isSelected = position >= 0;
+              return (
+                <TouchableOpacity
+                  key={member.id}
+                  testID={`rotation-member-${member.id}`}
+                  style={[styles.assigneeChip, isSelected && styles.assigneeChipSelected]}
+                  onPress={() => handleToggleRotationMember(member.id)}
+                  accessibilityState={{ selected: isSelected }}
+                >
+                  <Text
+                    style={[
+                      styles.assigneeChipText,
+                      isRtlLayout && styles.modalTextRtl,
+                      isSelected && styles.assigneeChipTextSelected,
+                    ]}
+                  >
+                    {isSelected ? `${position + 1}. ${member.name}` : member.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {rotation && (
+            <View style={[styles.recurrenceOptions, isRtlLayout && styles.recurrenceOptionsRtl]}>
+              {ROTATION_MODES.map((rotationMode) => (
+                <TouchableOpacity
+                  key={rotationMode}
+                  style={[styles.recurrenceOption, rotation.mode === rotationMode && styles.recurrenceOptionSelected]}
+                  onPress={() => handleSelectRotationMode(rotationMode)}
+                  accessibilityState={{ selected: rotation.mode === rotationMode }}
+                >
+                  <Text
+                    style={[
+                      styles.recurrenceOptionText,
+                      isRtlLayout && styles.modalTextRtl,
+                      rotation.mode === rotationMode && styles.recurrenceOptionTextSelected,
+                    ]}
+                  >
+                    {t(`modal.rotation.mode.${rotationMode}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+          {rotation && upNextName && (
+            <Text style={[styles.rotationUpNext, isRtlLayout && styles.modalTextRtl]} testID="rotation-up-next">
+              {t('modal.rotation.upNext', { name: upNextName })}
+            </Text>
+          )}
+        </View>
+      )}
+
       <ManageHouseholdModal visible={showManageHousehold} onClose={() => setShowManageHousehold(false)} />
     </EntityFormModal>
   );
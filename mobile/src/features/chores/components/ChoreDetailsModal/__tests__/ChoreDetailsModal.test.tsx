@@ -7,6 +7,8 @@
  * - Correct handler invoked on submit
  * - Form reset on modal close/reopen
  * - No call made when form is invalid
+ * - Assignee rotation and "up next" for recurring chores
+ * - Due reminder offset
  */
 
 import React from 'react';
@@ -18,7 +20,8 @@ import type { Chore } from '../../../../../mocks/chores';
 
 jest.mock('react-i18next', () => ({
   useTranslation: () => ({
-    t: (key: string) => {
+    t: (key: string, options?: Record<string, string | number>) => {
+      if (key === 'modal.rotation.upNext') return `Up next: ${options?.name}`;
       const labels: Record<string, string> = {
         'modal.addTitle': 'Add Chore',
         'modal.editTitle': 'Edit Chore',
@@ -37,6 +40,9 @@ jest.mock('react-i18next', () => ({
         'modal.recurrence.monthly': 'Monthly',
         'modal.dueDateLabel': 'Due Date & Time',
         'modal.dueDatePlaceholder': 'Select date and time...',
+        'modal.rotation.label': 'Rotate between:',
+        'modal.rotation.mode.on_completion': 'After each completion',
+        'modal.rotation.mode.on_schedule': 'On schedule',
       };
       return labels[key] ?? key;
     },
@@ -55,9 +61,27 @@ jest.mock('../../../../../contexts/HouseholdContext', () => ({
 
 jest.mock('@expo/vector-icons', () => ({ Ionicons: 'Ionicons' }));
 
-jest.mock('../../../../../common/components/DateTimePicker', () => ({
-  DateTimePicker: ({ label }: { label: string }) => <>{label}</>,
-}));
+jest.mock('../../../../../common/components/DateTimePicker', () => {
+  const { Text, TouchableOpacity } = require('react-native');
+  return {
+    DateTimePicker: ({
+      label,
+      allDay,
+      onAllDayChange,
+    }: {
+      label: string;
+      allDay?: boolean;
+      onAllDayChange?: (allDay: boolean) => void;
+    }) => (
+      <>
+        {label}
+        <TouchableOpacity testID="all-day-toggle" onPress={() => onAllDayChange?.(!allDay)}>
+          <Text>{allDay ? 'all-day' : 'timed'}</Text>
+        </TouchableOpacity>
+      </>
+    ),
+  };
+});
 
 jest.mock('../../../../settings/components/ManageHouseholdModal', () => ({
   ManageHouseholdModal: () => null,
@@ -179,6 +203,16 @@ describe('ChoreDetailsModal', () => {
       );
     });
 
+    it('adds an all-day chore without a due time', () => {
+      const { getByPlaceholderText, getByTestId, getByText } = renderAddModal();
+      fireEvent.changeText(getByPlaceholderText('Chore name'), 'Clean kitchen');
+      fireEvent.press(getByTestId('all-day-toggle'));
+      fireEvent.press(getByText('Add'));
+      expect(onAddChore).toHaveBeenCalledWith(
+        expect.objectContaining({ isAllDay: true, dueTime: undefined }),
+      );
+    });
+
     it('calls onClose after successful submit', () => {
       const { getByPlaceholderText, getByText } = renderAddModal();
       fireEvent.changeText(getByPlaceholderText('Chore name'), 'Clean kitchen');
@@ -206,6 +240,55 @@ describe('ChoreDetailsModal', () => {
       );
     });
 
+    it('submits a structured recurrence rule with interval and weekdays', () => {
+      const { getByPlaceholderText, getByText, getByLabelText } = renderAddModal();
+      fireEvent.changeText(getByPlaceholderText('Chore name'), 'Take out trash');
+      fireEvent.press(getByText('Weekly'));
+      fireEvent.press(getByLabelText('modal.recurrence.increaseInterval'));
+      fireEvent.press(getByText('modal.recurrence.weekdays.thu'));
+      fireEvent.press(getByText('modal.recurrence.weekdays.mon'));
+      fireEvent.press(getByText('Add'));
+      expect(onAddChore).toHaveBeenCalledWith(
+        expect.objectContaining({
+          recurrencePattern: 'weekly',
+          recurrence: { frequency: 'weekly', interval: 2, byWeekday: [1, 4] },
+        }),
+      );
+    });
+
+    it('submits a rotation in the order members were picked and assigns the first', () => {
+      const { getByPlaceholderText, getByText, getByTestId } = renderAddModal();
+      fireEvent.changeText(getByPlaceholderText('Chore name'), 'Take out trash');
+      fireEvent.press(getByText('Weekly'));
+      fireEvent.press(getByTestId('rotation-member-member-2'));
+      fireEvent.press(getByTestId('rotation-member-member-1'));
+
+      expect(getByText('Up next: Alice')).toBeTruthy();
+
+      fireEvent.press(getByText('Add'));
+      expect(onAddChore).toHaveBeenCalledWith(
+        expect.objectContaining({
+          assignee: 'Bob',
+          rotation: { memberIds: ['member-2', 'member-1'], mode: 'on_completion' },
+        }),
+      );
+    });
+
+    it('submits the selected reminder offset', () => {
+      const { getByPlaceholderText, getByTestId, getByText } = renderAddModal();
+      fireEvent.changeText(getByPlaceholderText('Chore name'), 'Water plants');
+      fireEvent.press(getByTestId('reminder-option-1h'));
+      fireEvent.press(getByText('Add'));
+      expect(onAddChore).toHaveBeenCalledWith(
+        expect.objectContaining({ reminder: '1h' }),
+      );
+    });
+
+    it('hides rotation for chores that do not repeat', () => {
+      const { queryByText } = renderAddModal();
+      expect(queryByText('Rotate between:')).toBeNull();
+    });
+
     it('sets isRecurring false when recurrence is None', () => {
       const { getByPlaceholderText, getByText } = renderAddModal();
       fireEvent.changeText(getByPlaceholderText('Chore name'), 'Clean windows');
@@ -270,12 +353,96 @@ describe('ChoreDetailsModal', () => {
       );
     });
 
+    it('shows the all-day setting of the chore and saves changes to it', () => {
+      const { getByTestId, getByText } = renderEditModal({
+        ...mockChore,
+        isAllDay: true,
+        dueTime: undefined,
+        originalDate: new Date(2050, 1, 21),
+      });
+      expect(getByText('all-day')).toBeTruthy();
+
+      fireEvent.press(getByTestId('all-day-toggle'));
+      fireEvent.press(getByText('Save'));
+      expect(onUpdateChore).toHaveBeenCalledWith(
+        'chore-1',
+        expect.objectContaining({ isAllDay: false, dueTime: expect.any(String) }),
+      );
+    });
+
     it('does not call onUpdateChore when nothing changed', () => {
       const { getByText } = renderEditModal();
       fireEvent.press(getByText('Save'));
       expect(onUpdateChore).not.toHaveBeenCalled();
     });
 
+    it('sends the edited recurrence rule on save', () => {
+      const { getByText } = renderEditModal({
+        ...mockChore,
+        isRecurring: true,
+        recurrencePattern: 'daily',
+        recurrence: { frequency: 'daily', interval: 1 },
+      });
+      fireEvent.press(getByText('Monthly'));
+      fireEvent.press(getByText('Save'));
+      expect(onUpdateChore).toHaveBeenCalledWith(
+        'chore-1',
+        expect.objectContaining({
+          recurrence: { frequency: 'monthly', interval: 1 },
+          recurrencePattern: 'monthly',
+        }),
+      );
+    });
+
+    it('turns the reminder off on save', () => {
+      const { getByTestId, getByText } = renderEditModal({ ...mockChore, reminder: '30m' });
+      expect(getByTestId('reminder-option-30m').props.accessibilityState).toEqual({ selected: true });
+      fireEvent.press(getByTestId('reminder-option-none'));
+      fireEvent.press(getByText('Save'));
+      expect(onUpdateChore).toHaveBeenCalledWith(
+        'chore-1',
+        expect.objectContaining({ reminder: null }),
+      );
+    });
+
+    describe('rotation', () => {
+      const rotatingChore: Chore = {
+        ...mockChore,
+        isRecurring: true,
+        recurrencePattern: 'weekly',
+        recurrence: { frequency: 'weekly', interval: 1 },
+        rotation: { memberIds: ['member-1', 'member-2'], mode: 'on_completion' },
+        nextAssignee: 'Bob',
+      };
+
+      it('shows who is up next', () => {
+        const { getByText } = renderEditModal(rotatingChore);
+        expect(getByText('Up next: Bob')).toBeTruthy();
+      });
+
+      it('sends the updated rotation mode on save', () => {
+        const { getByText } = renderEditModal(rotatingChore);
+        fireEvent.press(getByText('On schedule'));
+        fireEvent.press(getByText('Save'));
+        expect(onUpdateChore).toHaveBeenCalledWith(
+          'chore-1',
+          expect.objectContaining({
+            rotation: { memberIds: ['member-1', 'member-2'], mode: 'on_schedule' },
+          }),
+        );
+      });
+
+      it('clears the rotation when the chore stops repeating', () => {
+        const { getByText } = renderEditModal(rotatingChore);
+        fireEvent.press(getByText('None'));
+        fireEvent.press(getByText('Save'));
+        expect(onUpdateChore).toHaveBeenCalledWith(
+          'chore-1',
+          expect.objectContaining({ rotation: null, recurrence: null }),
+        );
+      });
+    });
+
     it('calls onClose after save regardless of changes', () => {
       const { getByText } = renderEditModal();
       fireEvent.press(getByText('Save'));
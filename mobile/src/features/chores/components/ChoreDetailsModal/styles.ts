@@ -60,6 +60,9 @@ export const styles = StyleSheet.create({
   dueDateSection: {
     marginBottom: spacing.md,
   },
+  reminderSection: {
+    marginBottom: spacing.md,
+  },
   assigneeSection: {
     marginBottom: spacing.md,
   },
@@ -164,4 +167,61 @@ export const styles = StyleSheet.create({
   recurrenceOptionTextSelected: {
     color: colors.textLight,
   },
+  intervalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  intervalLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  intervalButton: {
+    width: 28,
+    height: 28,
+    borderRadius: borderRadius.md,
+    borderWidth: 2,
+    borderColor: colors.divider,
+    backgroundColor: colors.background,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  intervalValue: {
+    minWidth: 20,
+    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.textPrimary,
+  },
+  weekdayRow: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+    marginTop: spacing.sm,
+  },
+  weekdayChip: {
+    flex: 1,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.background,
+    borderWidth: 2,
+    borderColor: colors.divider,
+    alignItems: 'center',
+  },
+  rotationSection: {
+    marginBottom: spacing.md,
+  },
+  rotationMembers: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  rotationUpNext: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginTop: spacing.sm,
+  },
 });
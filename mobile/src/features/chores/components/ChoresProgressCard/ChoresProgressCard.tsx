@@ -1,14 +1,19 @@
 import React from 'react';
 import { View, Text, I18nManager } from 'react-native';
 import { useTranslation } from 'react-i18next';
+import { colors } from '../../../../theme';
 import { ProgressRing } from '../ProgressRing';
 import { styles } from './styles';
 import type { ChoresProgressCardProps } from './types';
 
+const MEMBER_RING_SIZE = 32;
+
 /**
  * Chores Progress Card Component
  * 
  * Displays daily chore progress with a progress ring, percentage, and motivational text.
+ * When member progress is provided, also lists each member's share of this week's
+ * completions and their current streak.
  * Adapts layout for wide (tablet) vs narrow (phone) screens.
  * 
  * @param props - Component props
@@ -16,6 +21,7 @@ import type { ChoresProgressCardProps } from './types';
  * @param props.completedCount - Number of completed chores
  * @param props.totalCount - Total number of chores
  * @param props.isWideScreen - Whether to use horizontal (tablet) or vertical (phone) layout
+ * @param props.memberProgress - Optional weekly completions per member
  * 
  * @example
  * ```tsx
@@ -34,6 +40,7 @@ export function ChoresProgressCard({
   isWideScreen,
   isWebRtl = false,
   isRtl,
+  memberProgress,
 }: ChoresProgressCardProps) {
   const { t, i18n } = useTranslation('chores');
   const isDocumentRtl =
@@ -55,6 +62,8 @@ export function ChoresProgressCard({
     : React.Fragment;
 
   const ringSize = isWideScreen ? 160 : 140;
+  const members = memberProgress ?? [];
+  const weeklyTotal = members.reduce((sum, member) => sum + Math.max(0, member.completedCount), 0);
   const bodyText = isWideScreen
     ? t('progress.bodyWide', { completed: safeCompleted, total: safeTotal })
     : t('progress.bodyCompact', { completed: safeCompleted, total: safeTotal });
@@ -103,6 +112,47 @@ export function ChoresProgressCard({
           </ProgressTextWrapper>
         </View>
       </View>
+      {members.length > 0 ? (
+        <View style={styles.memberSection} testID="chores-progress-members">
+          <Text style={[styles.memberSectionTitle, isRtlLayout && styles.progressTextRtl]}>
+            {t('progress.weeklyByMember')}
+          </Text>
+          {members.map((member) => {
+            const share = weeklyTotal > 0 ? (Math.max(0, member.completedCount) / weeklyTotal) * 100 : 0;
+            return (
+              <View
+                key={member.userId}
+                style={[styles.memberRow, isRtlLayout && styles.memberRowRtl]}
+                accessibilityLabel={t('progress.memberSummary', {
+                  name: member.name ?? t('progress.unknownMember'),
+                  count: member.completedCount,
+                  streak: member.currentStreak,
+                })}
+              >
+                <ProgressRing
+                  progress={share}
+                  size={MEMBER_RING_SIZE}
+                  strokeWidth={4}
+                  progressColor={colors.chores}
+                  showPercentage={false}
+                  showEmoji={false}
+                />
+                <Text style={[styles.memberName, isRtlLayout && styles.progressTextRtl]} numberOfLines={1}>
+                  {member.name ?? t('progress.unknownMember')}
+                </Text>
+                <Text style={styles.memberCount}>
+                  {t('progress.memberCompleted', { count: member.completedCount })}
+                </Text>
+                {member.currentStreak > 0 ? (
+                  <Text style={styles.memberStreak}>
+                    {t('progress.streak', { count: member.currentStreak })}
+                  </Text>
+                ) : null}
+              </View>
+            );
+          })}
+        </View>
+      ) : null}
     </View>
   );
 }
@@ -19,6 +19,9 @@ jest.mock('react-i18next', () => ({
       if (key === 'progress.bodyWide') {
         return `You've completed ${options?.completed ?? 0} out of ${options?.total ?? 0} chores today. Keep it up to reach your weekly goals!`;
       }
+      if (key === 'progress.weeklyByMember') return 'This week by member';
+      if (key === 'progress.memberCompleted') return `${options?.count} done`;
+      if (key === 'progress.streak') return `🔥 ${options?.count}`;
       return key;
     },
     i18n: {
@@ -201,4 +204,48 @@ describe('ChoresProgressCard', () => {
       expect(getByText(/0 out of 0 chores/)).toBeTruthy();
     });
   });
+
+  describe('Weekly progress by member', () => {
+    const memberProgress = [
+      { userId: 'user-1', name: 'Dana', completedCount: 3, currentStreak: 2, longestStreak: 4 },
+      { userId: 'user-2', name: 'Sam', completedCount: 1, currentStreak: 0, longestStreak: 1 },
+    ];
+
+    it('lists each member with their weekly count and active streak', () => {
+      const { getByText, queryByText } = render(
+        <ChoresProgressCard
+          progress={50}
+          completedCount={1}
+          totalCount={2}
+          isWideScreen={false}
+          memberProgress={memberProgress}
+        />
+      );
+
+      expect(getByText('This week by member')).toBeTruthy();
+      expect(getByText('Dana')).toBeTruthy();
+      expect(getByText('3 done')).toBeTruthy();
+      expect(getByText('🔥 2')).toBeTruthy();
+      expect(getByText('Sam')).toBeTruthy();
+      expect(getByText('1 done')).toBeTruthy();
+      expect(queryByText('🔥 0')).toBeNull();
+    });
+
+    it.each([
+      ['not provided', undefined],
+      ['empty', []],
+    ])('hides the section when member progress is %s', (_label, members) => {
+      const { queryByTestId } = render(
+        <ChoresProgressCard
+          progress={50}
+          completedCount={1}
+          totalCount={2}
+          isWideScreen={true}
+          memberProgress={members}
+        />
+      );
+
+      expect(queryByTestId('chores-progress-members')).toBeNull();
+    });
+  });
 });
@@ -87,4 +87,39 @@ export const styles = StyleSheet.create({
     width: '100%',
     direction: 'rtl',
   },
+  memberSection: {
+    alignSelf: 'stretch',
+    marginTop: spacing.lg,
+    gap: spacing.sm,
+  },
+  memberSectionTitle: {
+    fontSize: 12,
+    fontWeight: '800',
+    letterSpacing: 1.2,
+    textTransform: 'uppercase',
+    color: colors.textMuted,
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  memberRowRtl: {
+    flexDirection: 'row-reverse',
+  },
+  memberName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.textPrimary,
+  },
+  memberCount: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  memberStreak: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: colors.chores,
+  },
 });
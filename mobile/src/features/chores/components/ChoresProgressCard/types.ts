@@ -1,3 +1,5 @@
+import type { ChoreMemberStats } from '../../../../mocks/chores';
+
 export interface ChoresProgressCardProps {
   /** Progress value 0-100 */
   progress: number;
@@ -10,4 +12,7 @@ export interface ChoresProgressCardProps {
 
   /** Explicit RTL layout override */
   isRtl?: boolean;
+
+  /** This week's completions per member; the section is hidden when empty */
+  memberProgress?: ChoreMemberStats[];
 }
@@ -7,12 +7,12 @@ import type { ChoresSectionProps } from './types';
  * Chores Section Component
  * 
  * Reusable section with colored indicator, title, and chore list.
- * Used for "Today's Chores" and "Upcoming Chores".
+ * Used for "Overdue", "Today's Chores" and "Upcoming Chores".
  * 
  * @param props - Component props
  * @param props.title - Section title to display
  * @param props.chores - Array of chores to render
- * @param props.indicatorColor - Color of the vertical indicator bar ('primary' or 'secondary')
+ * @param props.indicatorColor - Color of the vertical indicator bar ('primary', 'secondary' or 'error')
  * @param props.renderChoreCard - Function to render each chore card
  * @param props.testID - Optional test identifier
  * @param props.onLayout - Optional layout event handler
@@ -39,7 +39,9 @@ export function ChoresSection({
   const indicatorStyle =
     indicatorColor === 'secondary'
       ? [styles.sectionIndicator, styles.sectionIndicatorAlt]
-      : styles.sectionIndicator;
+      : indicatorColor === 'error'
+        ? [styles.sectionIndicator, styles.sectionIndicatorError]
+        : styles.sectionIndicator;
 
   return (
     <View style={styles.section} testID={testID}>
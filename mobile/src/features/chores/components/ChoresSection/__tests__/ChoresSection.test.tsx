@@ -61,6 +61,7 @@ describe('ChoresSection', () => {
   describe.each([
     ['primary', 'primary'],
     ['secondary', 'secondary'],
+    ['error', 'error'],
     ['default (undefined)', undefined],
   ])('Indicator color - %s', (scenario, indicatorColor) => {
     it('should render with correct indicator style', () => {
@@ -69,7 +70,7 @@ describe('ChoresSection', () => {
           title="Test Section"
           chores={[]}
           renderChoreCard={mockRenderChoreCard}
-          indicatorColor={indicatorColor as 'primary' | 'secondary' | undefined}
+          indicatorColor={indicatorColor as 'primary' | 'secondary' | 'error' | undefined}
         />
       );
 
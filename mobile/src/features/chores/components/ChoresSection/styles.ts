@@ -23,6 +23,9 @@ export const styles = StyleSheet.create({
   sectionIndicatorAlt: {
     backgroundColor: colors.secondary,
   },
+  sectionIndicatorError: {
+    backgroundColor: colors.error,
+  },
   sectionTitle: {
     ...typography.sectionTitle,
     fontSize: 18,
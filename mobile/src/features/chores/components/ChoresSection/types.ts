@@ -4,7 +4,7 @@ import type { Chore } from '../../../../mocks/chores';
 export interface ChoresSectionProps {
   title: string;
   chores: Chore[];
-  indicatorColor?: 'primary' | 'secondary';
+  indicatorColor?: 'primary' | 'secondary' | 'error';
   isWebRtl?: boolean;
   renderChoreCard: (chore: Chore) => React.ReactNode;
   testID?: string;
@@ -9,3 +9,6 @@ export const CHORE_ICONS = [
     '🌱', // Seedling - Plants/Outdoor
     '📦', // Box - Organizing
 ] as const;
+
+/** Reminder offsets offered in the chore form, sent to the server as-is. */
+export const CHORE_REMINDER_OPTIONS = ['30m', '1h', '1d'] as const;
@@ -1,4 +1,4 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
 import dayjs from 'dayjs';
 import customParseFormat from 'dayjs/plugin/customParseFormat';
 import {
@@ -24,7 +24,7 @@ import { ShareModal } from '../../../common/components/ShareModal';
 import { EmptyState } from '../../../common/components/EmptyState';
 import { ListItemSkeleton } from '../../../common/components/ListItemSkeleton';
 import { formatChoresText } from '../../../common/utils/shareUtils';
-import { type Chore } from '../../../mocks/chores';
+import { type Chore, type ChoreMemberStats } from '../../../mocks/chores';
 import { styles } from './styles';
 import type { ChoresScreenProps, AddChoreHandler } from './types';
 import { createChore } from '../utils/choreFactory';
@@ -79,7 +79,15 @@ export function ChoresScreen({ onOpenChoresModal, onRegisterAddChoreHandler }: C
   const chores = (isSignedIn ? cachedChores : guestChores)
     .filter(c => !c.deletedAt);
 
+  const [memberStats, setMemberStats] = useState<ChoreMemberStats[]>([]);
+
+  // Signed-in chores are bucketed by the server in the household timezone;
+  // guest chores only have the device clock to go by.
   const choresWithEffectiveSection = useMemo(() => {
+    if (isSignedIn) {
+      return chores;
+    }
+
     const now = new Date();
     const nowDay = now.toDateString();
 
@@ -134,7 +142,7 @@ export function ChoresScreen({ onOpenChoresModal, onRegisterAddChoreHandler }: C
         section: 'today' as const,
       };
     });
-  }, [chores]);
+  }, [chores, isSignedIn]);
 
   // For signed-in users, trigger initial fetch ONLY on first login (when cache is missing)
   // Subsequent navigations will use cache (no API calls)
@@ -160,7 +168,7 @@ export function ChoresScreen({ onOpenChoresModal, onRegisterAddChoreHandler }: C
     if (!repository) return;
     setIsRefreshing(true);
     try {
-      await repository.refresh();
+      await Promise.all([repository.refresh(), refreshMemberStats()]);
     } catch (error) {
       logger.error('Failed to refresh chores:', error instanceof Error ? error : String(error));
     } finally {
@@ -192,6 +200,24 @@ export function ChoresScreen({ onOpenChoresModal, onRegisterAddChoreHandler }: C
     }
   }, [choresService, isSignedIn]);
 
+  // Weekly completions per member come from the server's completion history,
+  // so they are only shown to signed-in users.
+  const refreshMemberStats = useCallback(async () => {
+    if (!isSignedIn) {
+      setMemberStats([]);
+      return;
+    }
+    try {
+      setMemberStats(await choresService.getWeeklyMemberStats());
+    } catch (error) {
+      logger.error('Failed to load chore member stats:', error instanceof Error ? error : String(error));
+    }
+  }, [choresService, isSignedIn]);
+
+  useEffect(() => {
+    refreshMemberStats();
+  }, [refreshMemberStats]);
+
   // Responsive breakpoint: tablet/landscape at 768px+
   const isWideScreen = width >= 768;
 
@@ -200,6 +226,7 @@ export function ChoresScreen({ onOpenChoresModal, onRegisterAddChoreHandler }: C
       // Signed-in: use repository (cache events will update UI)
       try {
         await repository.toggle(id);
+        await refreshMemberStats();
       } catch (error) {
         logger.error('Failed to toggle chore:', error instanceof Error ? error : String(error));
       }
@@ -267,6 +294,7 @@ export function ChoresScreen({ onOpenChoresModal, onRegisterAddChoreHandler }: C
     }
   }, [onRegisterAddChoreHandler]);
 
+  const overdueChores = choresWithEffectiveSection.filter(c => c.section === 'overdue');
   const todayChores = choresWithEffectiveSection.filter(c => c.section === 'today');
   const upcomingChores = choresWithEffectiveSection.filter(c => c.section === 'thisWeek' || c.section === 'recurring');
   const remainingToday = todayChores.filter(c => !c.isCompleted).length;
@@ -348,11 +376,22 @@ export function ChoresScreen({ onOpenChoresModal, onRegisterAddChoreHandler }: C
                 isWideScreen={true}
                 isWebRtl={isWebRtl}
                 isRtl={isRtlLayout}
+                memberProgress={memberStats}
               />
               <View style={styles.searchContainer}>
                 <Text style={[styles.searchPlaceholder, isWebRtl && styles.searchPlaceholderRtl]}>{t('screen.searchPlaceholder')}</Text>
                 <Ionicons name="search" size={20} color={colors.primary} />
               </View>
+              {overdueChores.length > 0 && (
+                <ChoresSection
+                  title={t('screen.overdueTitle')}
+                  chores={overdueChores}
+                  indicatorColor="error"
+                  isWebRtl={isWebRtl}
+                  renderChoreCard={renderChoreCard}
+                  testID="chores-overdue-section"
+                />
+              )}
               <ChoresSection
                 title={t('screen.todayTitle')}
                 chores={todayChores}
@@ -380,11 +419,22 @@ export function ChoresScreen({ onOpenChoresModal, onRegisterAddChoreHandler }: C
               isWideScreen={false}
               isWebRtl={isWebRtl}
               isRtl={isRtlLayout}
+              memberProgress={memberStats}
             />
             <View style={styles.searchContainer}>
               <Text style={[styles.searchPlaceholder, isWebRtl && styles.searchPlaceholderRtl]}>{t('screen.searchPlaceholder')}</Text>
               <Ionicons name="search" size={20} color={colors.primary} />
             </View>
+            {overdueChores.length > 0 && (
+              <ChoresSection
+                title={t('screen.overdueTitle')}
+                chores={overdueChores}
+                indicatorColor="error"
+                isWebRtl={isWebRtl}
+                renderChoreCard={renderChoreCard}
+                testID="chores-overdue-section"
+              />
+            )}
             <ChoresSection
               title={t('screen.todayTitle')}
               chores={todayChores}
@@ -1,3 +1,5 @@
+import type { Chore, ChoreRecurrence, ChoreRotation } from '../../../mocks/chores';
+
 export interface ChoresScreenProps {
   onOpenChoresModal?: () => void;
   onRegisterAddChoreHandler?: (handler: AddChoreHandler) => void;
@@ -9,7 +11,11 @@ export type AddChoreHandler = (newChore: {
   assignee?: string;
   dueDate: string;
   dueTime?: string;
+  isAllDay?: boolean;
   isRecurring?: boolean;
   recurrencePattern?: 'daily' | 'weekly' | 'monthly' | null;
-  section: 'today' | 'thisWeek' | 'recurring';
+  recurrence?: ChoreRecurrence | null;
+  rotation?: ChoreRotation | null;
+  reminder?: string | null;
+  section: Chore['section'];
 }) => Promise<void> | void;
@@ -127,5 +127,162 @@ describe('RemoteChoresService', () => {
       expect(result.id).toBe('chore-1');
       expect(result.originalDate?.toISOString()).toBe(dueDateIso);
     });
+
+    it('sends the structured recurrence rule and maps it back', async () => {
+      const recurrence = { frequency: 'weekly' as const, interval: 2, byWeekday: [1, 4] };
+      (api.patch as jest.Mock).mockResolvedValue({
+        id: 'chore-1',
+        title: 'Take out trash',
+        dueDate: '2050-02-21T10:00:00.000Z',
+        isCompleted: false,
+        repeat: 'weekly',
+        recurrence,
+      });
+
+      const result = await service.updateChore('chore-1', { recurrence });
+
+      expect(api.patch).toHaveBeenCalledWith('/chores/chore-1', { recurrence });
+      expect(result.recurrence).toEqual(recurrence);
+      expect(result.recurrencePattern).toBe('weekly');
+      expect(result.isRecurring).toBe(true);
+    });
+
+    it('sends null to stop a chore from repeating', async () => {
+      (api.patch as jest.Mock).mockResolvedValue({
+        id: 'chore-1',
+        title: 'Take out trash',
+        isCompleted: false,
+        repeat: null,
+        recurrence: null,
+      });
+
+      const result = await service.updateChore('chore-1', { recurrence: null });
+
+      expect(api.patch).toHaveBeenCalledWith('/chores/chore-1', { recurrence: null });
+      expect(result.isRecurring).toBe(false);
+    });
+  });
+
+  describe('reminders', () => {
+    it('sends the reminder offset and maps it back', async () => {
+      (api.patch as jest.Mock).mockResolvedValue({
+        id: 'chore-1',
+        title: 'Water plants',
+        dueDate: '2050-02-21T10:00:00.000Z',
+        isCompleted: false,
+        reminder: '1h',
+      });
+
+      const result = await service.updateChore('chore-1', { reminder: '1h' });
+
+      expect(api.patch).toHaveBeenCalledWith('/chores/chore-1', { reminder: '1h' });
+      expect(result.reminder).toBe('1h');
+    });
+
+    it('sends null to turn the reminder off', async () => {
+      (api.patch as jest.Mock).mockResolvedValue({
+        id: 'chore-1',
+        title: 'Water plants',
+        isCompleted: false,
+        reminder: null,
+      });
+
+      const result = await service.updateChore('chore-1', { reminder: null });
+
+      expect(api.patch).toHaveBeenCalledWith('/chores/chore-1', { reminder: null });
+      expect(result.reminder).toBeUndefined();
+    });
+  });
+
+  describe('getChores', () => {
+    it('keeps the buckets computed by the server', async () => {
+      const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+      const now = new Date().toISOString();
+      (api.get as jest.Mock).mockResolvedValue({
+        overdue: [{ id: 'chore-1', title: 'Water plants', dueDate: yesterday, isCompleted: false }],
+        // Today in the household timezone, even if the device is already on another day
+        today: [{ id: 'chore-2', title: 'Vacuum', dueDate: yesterday, isCompleted: false }],
+        upcoming: [{ id: 'chore-3', title: 'Dust', dueDate: now, isCompleted: false }],
+      });
+
+      const result = await service.getChores();
+
+      expect(result.map((chore) => [chore.id, chore.section])).toEqual([
+        ['chore-1', 'overdue'],
+        ['chore-2', 'today'],
+        ['chore-3', 'thisWeek'],
+      ]);
+    });
+
+    it('maps all-day chores to their calendar day without a time', async () => {
+      (api.get as jest.Mock).mockResolvedValue({
+        overdue: [],
+        today: [],
+        upcoming: [
+          {
+            id: 'chore-1',
+            title: 'Water plants',
+            dueDate: '2050-02-21T00:00:00.000Z',
+            isAllDay: true,
+            isCompleted: false,
+          },
+        ],
+      });
+
+      const [chore] = await service.getChores();
+
+      expect(chore.isAllDay).toBe(true);
+      expect(chore.dueTime).toBeUndefined();
+      expect(chore.originalDate).toEqual(new Date(2050, 1, 21));
+    });
+  });
+
+  describe('all-day due dates', () => {
+    it('sends the calendar date of an all-day chore', async () => {
+      (api.patch as jest.Mock).mockResolvedValue({
+        id: 'chore-1',
+        title: 'Water plants',
+        dueDate: '2050-02-21T00:00:00.000Z',
+        isAllDay: true,
+        isCompleted: false,
+      });
+
+      await service.updateChore('chore-1', { dueDate: 'Feb 21, 2050', isAllDay: true });
+
+      expect(api.patch).toHaveBeenCalledWith('/chores/chore-1', {
+        dueDate: '2050-02-21',
+        isAllDay: true,
+      });
+    });
+  });
+
+  describe('getWeeklyMemberStats', () => {
+    it('maps the weekly member completions from the stats endpoint', async () => {
+      (api.get as jest.Mock).mockResolvedValue({
+        total: 4,
+        completed: 2,
+        pending: 2,
+        weekly: {
+          from: '2050-02-20T00:00:00.000Z',
+          to: '2050-02-27T00:00:00.000Z',
+          members: [
+            { userId: 'user-1', name: 'Dana', avatarUrl: null, completedCount: 2, currentStreak: 2, longestStreak: 5 },
+          ],
+        },
+      });
+
+      const result = await service.getWeeklyMemberStats();
+
+      expect(api.get).toHaveBeenCalledWith('/chores/stats');
+      expect(result).toEqual([
+        { userId: 'user-1', name: 'Dana', avatarUrl: undefined, completedCount: 2, currentStreak: 2, longestStreak: 5 },
+      ]);
+    });
+
+    it('returns an empty list when the server has no weekly stats', async () => {
+      (api.get as jest.Mock).mockResolvedValue({ total: 0, completed: 0, pending: 0 });
+
+      await expect(service.getWeeklyMemberStats()).resolves.toEqual([]);
+    });
   });
 });
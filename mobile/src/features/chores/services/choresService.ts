@@ -1,13 +1,15 @@
 import { api } from '../../../services/api';
 import dayjs from 'dayjs';
 import customParseFormat from 'dayjs/plugin/customParseFormat';
-import { mockChores, type Chore } from '../../../mocks/chores';
+import { mockChores, type Chore, type ChoreMemberStats, type ChoreRecurrence, type ChoreRotation } from '../../../mocks/chores';
 import type { DataMode } from '../../../common/types/dataModes';
 import { validateServiceCompatibility } from '../../../common/validation/dataModeValidation';
 import { withUpdatedAt, markDeleted, withCreatedAtAndUpdatedAt, toSupabaseTimestamps, normalizeTimestampsFromApi } from '../../../common/utils/timestamps';
 import { findEntityIndex, updateEntityInStorage } from '../../../common/utils/entityOperations';
 import { guestStorage } from '../../../common/utils/guestStorage';
 import { createChore } from '../utils/choreFactory';
+import { recurrenceFromDto } from '../utils/recurrence';
+import { dueDateFromDto, toCalendarDate } from '../utils/dueDate';
 import { addEntityToCache, updateEntityInCache } from '../../../common/repositories/cacheAwareRepository';
 
 dayjs.extend(customParseFormat);
@@ -22,6 +24,8 @@ export interface IChoresService {
   updateChore(choreId: string, updates: Partial<Chore>): Promise<Chore>;
   deleteChore(choreId: string): Promise<void>;
   toggleChore(choreId: string): Promise<Chore>;
+  /** Completions per household member for the current week. */
+  getWeeklyMemberStats(): Promise<ChoreMemberStats[]>;
 }
 
 type ChoreDto = {
@@ -31,16 +35,41 @@ type ChoreDto = {
   assigneeId?: string | null;
   assigneeName?: string | null;
   dueDate?: string | Date | null;
+  isAllDay?: boolean;
   isCompleted: boolean;
   completedAt?: string | Date | null;
   repeat?: string | null;
+  recurrence?: ChoreRecurrence | null;
+  rotation?: ChoreRotation | null;
+  nextAssigneeName?: string | null;
+  reminder?: string | null;
 };
 
+/** Chores bucketed by the backend relative to today in the household timezone. */
 type ChoreListResponseDto = {
+  overdue: ChoreDto[];
   today: ChoreDto[];
   upcoming: ChoreDto[];
 };
 
+type ChoreStatsDto = {
+  total: number;
+  completed: number;
+  pending: number;
+  weekly?: {
+    from: string;
+    to: string;
+    members: {
+      userId: string;
+      name?: string | null;
+      avatarUrl?: string | null;
+      completedCount: number;
+      currentStreak: number;
+      longestStreak: number;
+    }[];
+  };
+};
+
 const DEFAULT_CHORE_ICON = '🧹';
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 
@@ -50,10 +79,16 @@ const toValidUuid = (value?: string | null): string | undefined => {
   return UUID_REGEX.test(normalized) ? normalized : undefined;
 };
 
-const parseDate = (value?: string | Date | null): Date | null => {
-  if (!value) return null;
-  const parsed = value instanceof Date ? value : new Date(value);
-  return Number.isNaN(parsed.getTime()) ? null : parsed;
+/**
+ * Keeps only server-side member IDs in a rotation. Returns null when no
+ * member remains, which the backend treats as "no rotation".
+ */
+const toServerRotation = (rotation: ChoreRotation | null): ChoreRotation | null => {
+  if (!rotation) return null;
+  const memberIds = rotation.memberIds
+    .map((id) => toValidUuid(id))
+    .filter((id): id is string => id !== undefined);
+  return memberIds.length > 0 ? { ...rotation, memberIds } : null;
 };
 
 /**
@@ -135,6 +170,20 @@ const parseDueDateString = (dueDate?: string, dueTime?: string): string | undefi
   }
 };
 
+/**
+ * Builds the dueDate sent to the backend: a calendar date ("2026-03-15") for
+ * all-day chores, otherwise an ISO timestamp.
+ */
+const toDueDatePayload = (
+  dueDate?: string,
+  dueTime?: string,
+  isAllDay?: boolean
+): string | undefined => {
+  if (!isAllDay) return parseDueDateString(dueDate, dueTime);
+  const parsed = parseDueDateString(dueDate);
+  return parsed ? toCalendarDate(new Date(parsed)) : undefined;
+};
+
 const formatDateLabel = (date: Date | null, section: Chore['section']): string => {
   if (!date) {
     return section === 'today' ? 'Today' : 'Upcoming';
@@ -154,28 +203,33 @@ const formatTimeLabel = (date: Date | null): string | undefined => {
   return date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
 };
 
+/**
+ * Maps an API chore into the bucket the backend put it in. The backend
+ * computes buckets in the household timezone, so they are kept as-is rather
+ * than recomputed from the device clock.
+ */
 const mapChoreDto = (dto: ChoreDto, section: Chore['section']): Chore => {
-  const dueDate = parseDate(dto.dueDate);
-  const isRecurring = Boolean(dto.repeat);
-  const now = new Date();
-  const isDueTodayLocal =
-    dueDate !== null && dueDate.toDateString() === now.toDateString();
-  // Keep backend today bucket, and also treat local same-day due dates as today.
-  // This avoids timezone bucket drift where a chore due "today" appears as upcoming.
+  const dueDate = dueDateFromDto(dto);
+  const recurrence = recurrenceFromDto(dto);
+  const isRecurring = recurrence !== null;
   const resolvedSection: Chore['section'] =
-    section === 'today' || isDueTodayLocal
-      ? 'today'
-      : (isRecurring ? 'recurring' : section);
+    section === 'thisWeek' && isRecurring ? 'recurring' : section;
 
   return {
     id: dto.id,
     localId: dto.id,
     title: dto.title,
     assignee: dto.assigneeName ?? undefined,
+    assigneeId: dto.assigneeId ?? undefined,
     dueDate: formatDateLabel(dueDate, resolvedSection),
-    dueTime: formatTimeLabel(dueDate),
-    reminder: undefined,
+    dueTime: dto.isAllDay ? undefined : formatTimeLabel(dueDate),
+    isAllDay: dto.isAllDay ?? false,
+    reminder: dto.reminder ?? undefined,
     isRecurring,
+    recurrencePattern: recurrence?.frequency ?? null,
+    recurrence,
+    rotation: dto.rotation ?? null,
+    nextAssignee: dto.nextAssigneeName ?? undefined,
     isCompleted: dto.isCompleted,
     section: resolvedSection,
     icon: dto.icon ?? DEFAULT_CHORE_ICON,
@@ -183,9 +237,14 @@ const mapChoreDto = (dto: ChoreDto, section: Chore['section']): Chore => {
   };
 };
 
+/**
+ * Approximates the backend bucket of a single chore on the device, for
+ * responses that are not bucketed. The next list fetch replaces it with the
+ * bucket computed in the household timezone.
+ */
 const resolveSectionFromDto = (dto: ChoreDto): Chore['section'] => {
-  const dueDate = parseDate(dto.dueDate);
-  const isRecurring = Boolean(dto.repeat);
+  const dueDate = dueDateFromDto(dto);
+  const isRecurring = recurrenceFromDto(dto) !== null;
 
   if (isRecurring) {
     return 'recurring';
@@ -195,8 +254,11 @@ const resolveSectionFromDto = (dto: ChoreDto): Chore['section'] => {
     return 'thisWeek';
   }
 
-  const today = new Date();
-  return dueDate.toDateString() === today.toDateString() ? 'today' : 'thisWeek';
+  const today = dayjs().startOf('day');
+  if (dayjs(dueDate).isSame(today, 'day')) {
+    return 'today';
+  }
+  return dayjs(dueDate).isBefore(today) && !dto.isCompleted ? 'overdue' : 'thisWeek';
 };
 
 export class LocalChoresService implements IChoresService {
@@ -217,7 +279,13 @@ export class LocalChoresService implements IChoresService {
       assignee: chore.assignee,
       dueDate: chore.dueDate || 'Today',
       dueTime: chore.dueTime,
+      isAllDay: chore.isAllDay,
       section: chore.section || 'today',
+      isRecurring: chore.isRecurring,
+      recurrencePattern: chore.recurrencePattern,
+      recurrence: chore.recurrence,
+      rotation: chore.rotation,
+      reminder: chore.reminder,
     });
 
     const existingChores = await guestStorage.getChores();
@@ -260,6 +328,32 @@ export class LocalChoresService implements IChoresService {
       guestStorage.saveChores
     );
   }
+
+  /**
+   * Guest data has no completion history, so completed chores are grouped by
+   * assignee and streaks are not tracked.
+   */
+  async getWeeklyMemberStats(): Promise<ChoreMemberStats[]> {
+    const chores = await this.getChores();
+    const counts = new Map<string, number>();
+
+    chores
+      .filter((chore) => chore.isCompleted && !chore.deletedAt && chore.assignee)
+      .forEach((chore) => {
+        const assignee = chore.assignee as string;
+        counts.set(assignee, (counts.get(assignee) ?? 0) + 1);
+      });
+
+    return Array.from(counts.entries())
+      .map(([name, completedCount]) => ({
+        userId: name,
+        name,
+        completedCount,
+        currentStreak: 0,
+        longestStreak: 0,
+      }))
+      .sort((a, b) => b.completedCount - a.completedCount);
+  }
 }
 
 /**
@@ -274,11 +368,12 @@ export class LocalChoresService implements IChoresService {
 export class RemoteChoresService implements IChoresService {
   async getChores(): Promise<Chore[]> {
     const response = await api.get<ChoreListResponseDto>('/chores');
+    const overdueChores = response.overdue.map((chore) => mapChoreDto(chore, 'overdue'));
     const todayChores = response.today.map((chore) => mapChoreDto(chore, 'today'));
     const upcomingChores = response.upcoming.map((chore) => mapChoreDto(chore, 'thisWeek'));
 
     // Normalize timestamps from API response (server is authority)
-    const allChores = [...todayChores, ...upcomingChores];
+    const allChores = [...overdueChores, ...todayChores, ...upcomingChores];
     return allChores.map((chore) => normalizeTimestampsFromApi<Chore>(chore));
   }
 
@@ -295,8 +390,11 @@ export class RemoteChoresService implements IChoresService {
       title: payload.title || chore.title,
       icon: chore.icon || DEFAULT_CHORE_ICON,
       assigneeId: toValidUuid((chore as Chore & { assigneeId?: string }).assigneeId),
-      dueDate: parseDueDateString(chore.dueDate || 'Today', chore.dueTime), // CRITICAL FIX: Parse due date
-      repeat: undefined,
+      dueDate: toDueDatePayload(chore.dueDate || 'Today', chore.dueTime, chore.isAllDay), // CRITICAL FIX: Parse due date
+      isAllDay: chore.isAllDay,
+      recurrence: chore.recurrence ?? undefined,
+      rotation: toServerRotation(chore.rotation ?? null) ?? undefined,
+      reminder: chore.reminder ?? undefined,
     };
     const response = await api.post<{ id: string }>('/chores', dto);
     // Server is authority: fetch the created chore to get server timestamps
@@ -320,7 +418,11 @@ export class RemoteChoresService implements IChoresService {
       title?: string;
       assigneeId?: string;
       dueDate?: string;
+      isAllDay?: boolean;
       icon?: string;
+      recurrence?: ChoreRecurrence | null;
+      rotation?: ChoreRotation | null;
+      reminder?: string | null;
     } = {};
 
     if (updates.title !== undefined) {
@@ -335,8 +437,23 @@ export class RemoteChoresService implements IChoresService {
     if ((updates as any).icon !== undefined) {
       dto.icon = (updates as any).icon;
     }
+    if (updates.isAllDay !== undefined) {
+      dto.isAllDay = updates.isAllDay;
+    }
     if (updates.dueDate !== undefined || updates.dueTime !== undefined) {
-      dto.dueDate = parseDueDateString(updates.dueDate, updates.dueTime);
+      dto.dueDate = toDueDatePayload(updates.dueDate, updates.dueTime, updates.isAllDay);
+    }
+    if (updates.recurrence !== undefined) {
+      // null clears the rule on the server
+      dto.recurrence = updates.recurrence;
+    }
+    if (updates.rotation !== undefined) {
+      // null stops rotating the assignee
+      dto.rotation = toServerRotation(updates.rotation);
+    }
+    if (updates.reminder !== undefined) {
+      // null turns the reminder off
+      dto.reminder = updates.reminder;
     }
 
     if (Object.keys(dto).length === 0) {
@@ -409,6 +526,18 @@ export class RemoteChoresService implements IChoresService {
 
     return updatedChore;
   }
+
+  async getWeeklyMemberStats(): Promise<ChoreMemberStats[]> {
+    const response = await api.get<ChoreStatsDto>('/chores/stats');
+    return (response.weekly?.members ?? []).map((member) => ({
+      userId: member.userId,
+      name: member.name ?? undefined,
+      avatarUrl: member.avatarUrl ?? undefined,
+      completedCount: member.completedCount,
+      currentStreak: member.currentStreak,
+      longestStreak: member.longestStreak,
+    }));
+  }
 }
 
 /**
@@ -0,0 +1,27 @@
+import { dueDateFromDto, toCalendarDate } from '../dueDate';
+
+describe('due date utils', () => {
+  describe('dueDateFromDto', () => {
+    it('returns timed due dates as the instant they name', () => {
+      expect(dueDateFromDto({ dueDate: '2050-02-21T10:00:00.000Z' })?.toISOString()).toBe(
+        '2050-02-21T10:00:00.000Z',
+      );
+    });
+
+    it('places all-day due dates at local midnight of their calendar day', () => {
+      const dueDate = dueDateFromDto({ dueDate: '2050-02-21T00:00:00.000Z', isAllDay: true });
+
+      expect(dueDate).toEqual(new Date(2050, 1, 21));
+    });
+
+    it.each([[undefined], [null], ['not a date']])('returns null for %p', (value) => {
+      expect(dueDateFromDto({ dueDate: value })).toBeNull();
+    });
+  });
+
+  describe('toCalendarDate', () => {
+    it('formats the local calendar date', () => {
+      expect(toCalendarDate(new Date(2050, 1, 21, 23, 30))).toBe('2050-02-21');
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  createRecurrence,
+  toggleRecurrenceWeekday,
+  recurrenceFromDto,
+  isSameRecurrence,
+} from '../recurrence';
+
+describe('recurrence utils', () => {
+  describe('createRecurrence', () => {
+    it('creates a rule with interval 1 by default', () => {
+      expect(createRecurrence('daily')).toEqual({ frequency: 'daily', interval: 1 });
+    });
+
+    it('carries over interval and end condition when switching frequency', () => {
+      expect(
+        createRecurrence('monthly', { frequency: 'weekly', interval: 2, byWeekday: [1], count: 5 }),
+      ).toEqual({ frequency: 'monthly', interval: 2, count: 5 });
+    });
+
+    it('keeps weekdays only when staying weekly', () => {
+      expect(
+        createRecurrence('weekly', { frequency: 'weekly', interval: 1, byWeekday: [1, 3] }),
+      ).toEqual({ frequency: 'weekly', interval: 1, byWeekday: [1, 3] });
+    });
+  });
+
+  describe('toggleRecurrenceWeekday', () => {
+    it('adds weekdays in sorted order', () => {
+      const rule = toggleRecurrenceWeekday({ frequency: 'weekly', interval: 1, byWeekday: [5] }, 1);
+      expect(rule.byWeekday).toEqual([1, 5]);
+    });
+
+    it('drops byWeekday when the last day is removed', () => {
+      const rule = toggleRecurrenceWeekday({ frequency: 'weekly', interval: 1, byWeekday: [5] }, 5);
+      expect(rule).toEqual({ frequency: 'weekly', interval: 1 });
+    });
+  });
+
+  describe('recurrenceFromDto', () => {
+    it('prefers the structured rule', () => {
+      expect(
+        recurrenceFromDto({ recurrence: { frequency: 'weekly', interval: 2 }, repeat: 'daily' }),
+      ).toEqual({ frequency: 'weekly', interval: 2 });
+    });
+
+    it('falls back to the legacy repeat label', () => {
+      expect(recurrenceFromDto({ repeat: 'Monthly' })).toEqual({ frequency: 'monthly', interval: 1 });
+    });
+
+    it('returns null for non-recurring chores', () => {
+      expect(recurrenceFromDto({ recurrence: null, repeat: null })).toBeNull();
+    });
+  });
+
+  describe('isSameRecurrence', () => {
+    it('treats two empty rules as equal', () => {
+      expect(isSameRecurrence(null, undefined)).toBe(true);
+    });
+
+    it('ignores weekday order', () => {
+      expect(
+        isSameRecurrence(
+          { frequency: 'weekly', interval: 1, byWeekday: [3, 1] },
+          { frequency: 'weekly', interval: 1, byWeekday: [1, 3] },
+        ),
+      ).toBe(true);
+    });
+
+    it('detects interval changes', () => {
+      expect(
+        isSameRecurrence({ frequency: 'daily', interval: 1 }, { frequency: 'daily', interval: 2 }),
+      ).toBe(false);
+    });
+  });
+});
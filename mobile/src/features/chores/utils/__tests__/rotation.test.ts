@@ -0,0 +1,53 @@
+import {
+  toggleRotationMember,
+  getNextRotationMemberId,
+  isSameRotation,
+} from '../rotation';
+
+describe('rotation utils', () => {
+  describe('toggleRotationMember', () => {
+    it('starts a rotation with the first member', () => {
+      expect(toggleRotationMember(null, 'a')).toEqual({ memberIds: ['a'], mode: 'on_completion' });
+    });
+
+    it('appends members in the order they are picked', () => {
+      expect(toggleRotationMember({ memberIds: ['b'], mode: 'on_schedule' }, 'a')).toEqual({
+        memberIds: ['b', 'a'],
+        mode: 'on_schedule',
+      });
+    });
+
+    it('turns rotation off when the last member is removed', () => {
+      expect(toggleRotationMember({ memberIds: ['a'], mode: 'on_completion' }, 'a')).toBeNull();
+    });
+  });
+
+  describe('getNextRotationMemberId', () => {
+    const rotation = { memberIds: ['a', 'b', 'c'], mode: 'on_completion' as const };
+
+    it.each([
+      ['advances to the next member', 'a', ['a', 'b', 'c'], 'b'],
+      ['wraps around', 'c', ['a', 'b', 'c'], 'a'],
+      ['starts at the first member when unassigned', undefined, ['a', 'b', 'c'], 'a'],
+      ['skips members who left the household', 'a', ['a', 'c'], 'c'],
+    ])('%s', (_label, current, active, expected) => {
+      expect(getNextRotationMemberId(rotation, current, active)).toBe(expected);
+    });
+
+    it('returns null when nobody in the rotation is in the household', () => {
+      expect(getNextRotationMemberId(rotation, 'a', ['d'])).toBeNull();
+    });
+  });
+
+  describe('isSameRotation', () => {
+    it.each([
+      ['both empty', null, undefined, true],
+      ['one empty', null, { memberIds: ['a'], mode: 'on_completion' as const }, false],
+      ['different order', { memberIds: ['a', 'b'], mode: 'on_completion' as const }, { memberIds: ['b', 'a'], mode: 'on_completion' as const }, false],
+      ['different mode', { memberIds: ['a'], mode: 'on_completion' as const }, { memberIds: ['a'], mode: 'on_schedule' as const }, false],
+      ['identical', { memberIds: ['a', 'b'], mode: 'on_schedule' as const }, { memberIds: ['a', 'b'], mode: 'on_schedule' as const }, true],
+    ])('%s', (_label, a, b, expected) => {
+      expect(isSameRotation(a, b)).toBe(expected);
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import * as Crypto from 'expo-crypto';
-import type { Chore } from '../../../mocks/chores';
+import type { Chore, ChoreRecurrence, ChoreRotation } from '../../../mocks/chores';
 
 export interface NewChoreData {
     title: string;
@@ -7,10 +7,18 @@ export interface NewChoreData {
     assignee?: string;
     dueDate: string;
     dueTime?: string;
-    section: 'today' | 'thisWeek' | 'recurring';
+    /** Due on a whole day; dueTime is ignored. */
+    isAllDay?: boolean;
+    section: Chore['section'];
     isRecurring?: boolean;
     /** Granular recurrence schedule; only meaningful when isRecurring is true. */
     recurrencePattern?: 'daily' | 'weekly' | 'monthly' | null;
+    /** Structured recurrence rule; null when the chore does not repeat. */
+    recurrence?: ChoreRecurrence | null;
+    /** Assignee rotation; only applied when the chore recurs. */
+    rotation?: ChoreRotation | null;
+    /** Reminder offset before the due date (e.g. 30m, 1h, 1d). */
+    reminder?: string | null;
 }
 
 /**
@@ -33,12 +41,16 @@ export const createChore = (data: NewChoreData): Chore => {
         title: data.title,
         assignee: data.assignee,
         dueDate: data.dueDate,
-        dueTime: data.dueTime,
+        dueTime: data.isAllDay ? undefined : data.dueTime,
+        isAllDay: data.isAllDay ?? false,
         isCompleted: false,
         section: data.section,
         icon: data.icon,
         isRecurring: data.isRecurring ?? false,
-        recurrencePattern: data.recurrencePattern ?? null,
+        recurrencePattern: data.recurrencePattern ?? data.recurrence?.frequency ?? null,
+        recurrence: data.recurrence ?? null,
+        rotation: data.rotation ?? null,
+        reminder: data.reminder ?? null,
         createdAt: now,
         updatedAt: now,
     };
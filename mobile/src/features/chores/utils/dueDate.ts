@@ -0,0 +1,25 @@
+import dayjs from 'dayjs';
+
+/**
+ * Reads the due date from an API chore payload. All-day chores carry a
+ * calendar date stored at UTC midnight, which is placed at local midnight of
+ * that day so it shows on the same day in every timezone.
+ */
+export const dueDateFromDto = (dto: {
+  dueDate?: string | Date | null;
+  isAllDay?: boolean;
+}): Date | null => {
+  if (!dto.dueDate) return null;
+  const parsed = dto.dueDate instanceof Date ? dto.dueDate : new Date(dto.dueDate);
+  if (Number.isNaN(parsed.getTime())) return null;
+
+  return dto.isAllDay
+    ? new Date(parsed.getUTCFullYear(), parsed.getUTCMonth(), parsed.getUTCDate())
+    : parsed;
+};
+
+/**
+ * Formats a local date as the calendar date (YYYY-MM-DD) the API expects for
+ * all-day chores.
+ */
+export const toCalendarDate = (date: Date): string => dayjs(date).format('YYYY-MM-DD');
@@ -0,0 +1,85 @@
+import type { ChoreRecurrence, RecurrenceFrequency } from '../../../mocks/chores';
+
+/** Translation keys for weekday chips, indexed 0 = Sunday ... 6 = Saturday. */
+export const WEEKDAY_KEYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+
+/** Maximum value offered by the "every N" stepper. */
+export const MAX_RECURRENCE_INTERVAL = 30;
+
+const FREQUENCIES: readonly RecurrenceFrequency[] = ['daily', 'weekly', 'monthly'];
+
+const isFrequency = (value: unknown): value is RecurrenceFrequency =>
+  typeof value === 'string' && (FREQUENCIES as readonly string[]).includes(value);
+
+/**
+ * Builds a rule for a newly selected frequency, carrying over the interval
+ * and end condition from the previous rule so switching frequency does not
+ * reset the whole schedule.
+ */
+export const createRecurrence = (
+  frequency: RecurrenceFrequency,
+  previous?: ChoreRecurrence | null,
+): ChoreRecurrence => ({
+  frequency,
+  interval: previous?.interval ?? 1,
+  ...(frequency === 'weekly' && previous?.frequency === 'weekly' && previous.byWeekday?.length
+    ? { byWeekday: previous.byWeekday }
+    : {}),
+  ...(previous?.until ? { until: previous.until } : {}),
+  ...(!previous?.until && previous?.count ? { count: previous.count } : {}),
+});
+
+/**
+ * Toggles a weekday in a weekly rule, keeping the list sorted.
+ * Removing the last weekday falls back to "same weekday as the due date".
+ */
+export const toggleRecurrenceWeekday = (
+  recurrence: ChoreRecurrence,
+  weekday: number,
+): ChoreRecurrence => {
+  const current = recurrence.byWeekday ?? [];
+  const next = current.includes(weekday)
+    ? current.filter((day) => day !== weekday)
+    : [...current, weekday].sort((a, b) => a - b);
+
+  const { byWeekday: _removed, ...rest } = recurrence;
+  return next.length > 0 ? { ...rest, byWeekday: next } : rest;
+};
+
+/**
+ * Reads the recurrence rule from an API chore payload, falling back to the
+ * legacy `repeat` label for chores created before structured rules.
+ */
+export const recurrenceFromDto = (dto: {
+  recurrence?: ChoreRecurrence | null;
+  repeat?: string | null;
+}): ChoreRecurrence | null => {
+  if (dto.recurrence && isFrequency(dto.recurrence.frequency)) {
+    return { ...dto.recurrence, interval: dto.recurrence.interval || 1 };
+  }
+
+  const legacy = dto.repeat?.trim().toLowerCase();
+  return isFrequency(legacy) ? { frequency: legacy, interval: 1 } : null;
+};
+
+/**
+ * Compares two rules field by field (weekday order-insensitive).
+ */
+export const isSameRecurrence = (
+  a?: ChoreRecurrence | null,
+  b?: ChoreRecurrence | null,
+): boolean => {
+  if (!a || !b) return !a && !b;
+
+  const weekdaysA = [...(a.byWeekday ?? [])].sort().join(',');
+  const weekdaysB = [...(b.byWeekday ?? [])].sort().join(',');
+
+  return (
+    a.frequency === b.frequency &&
+    (a.interval || 1) === (b.interval || 1) &&
+    weekdaysA === weekdaysB &&
+    a.byMonthDay === b.byMonthDay &&
+    a.until === b.until &&
+    a.count === b.count
+  );
+};
@@ -0,0 +1,62 @@
+import type { ChoreRotation, RotationMode } from '../../../mocks/chores';
+
+/**
+ * Adds a member to the end of the rotation, or removes them if already in it.
+ * Removing the last member turns rotation off.
+ */
+export const toggleRotationMember = (
+  rotation: ChoreRotation | null,
+  memberId: string,
+  mode: RotationMode = rotation?.mode ?? 'on_completion',
+): ChoreRotation | null => {
+  const current = rotation?.memberIds ?? [];
+  const memberIds = current.includes(memberId)
+    ? current.filter((id) => id !== memberId)
+    : [...current, memberId];
+
+  return memberIds.length > 0 ? { memberIds, mode } : null;
+};
+
+/**
+ * Returns the member who takes over after the current assignee, skipping
+ * rotation members that are no longer in the household. Mirrors the backend's
+ * rotation for the next occurrence.
+ *
+ * @param rotation - Rotation configuration
+ * @param currentAssigneeId - Member currently assigned, if any
+ * @param activeMemberIds - IDs of current household members
+ * @returns The next member ID, or null when nobody in the rotation is available
+ */
+export const getNextRotationMemberId = (
+  rotation: ChoreRotation | null | undefined,
+  currentAssigneeId: string | undefined,
+  activeMemberIds: readonly string[],
+): string | null => {
+  const memberIds = rotation?.memberIds ?? [];
+  const isActive = (id: string) => activeMemberIds.includes(id);
+  if (!memberIds.some(isActive)) {
+    return null;
+  }
+
+  let position = currentAssigneeId ? memberIds.indexOf(currentAssigneeId) : -1;
+  do {
+    position = (position + 1) % memberIds.length;
+  } while (!isActive(memberIds[position]));
+
+  return memberIds[position];
+};
+
+/**
+ * Compares two rotations by member order and mode.
+ */
+export const isSameRotation = (
+  a: ChoreRotation | null | undefined,
+  b: ChoreRotation | null | undefined,
+): boolean => {
+  if (!a || !b) return !a && !b;
+  return (
+    a.mode === b.mode &&
+    a.memberIds.length === b.memberIds.length &&
+    a.memberIds.every((id, index) => b.memberIds[index] === id)
+  );
+};
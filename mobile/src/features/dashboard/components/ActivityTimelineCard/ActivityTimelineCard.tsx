@@ -0,0 +1,164 @@
+import React from "react";
+import { View, Text, TouchableOpacity, I18nManager } from "react-native";
+import dayjs from "dayjs";
+import { useTranslation } from "react-i18next";
+import type { TFunction } from "i18next";
+import { SafeImage } from "../../../../common/components/SafeImage";
+import { ListItemSkeleton } from "../../../../common/components/ListItemSkeleton";
+import { TextBlock } from "../../../../common/components/TextBlock";
+import { getAssigneeAvatarUri } from "../../../../common/utils/avatarUtils";
+import type {
+  ActivityAction,
+  HouseholdActivityEntry,
+} from "../../services/dashboardApi";
+import { styles } from "./styles";
+import type { ActivityTimelineCardProps } from "./types";
+
+const ACTION_KEYS: Record<ActivityAction, string> = {
+  CREATE_LIST: "createList",
+  UPDATE_LIST: "updateList",
+  RESTORE_LIST: "restoreList",
+  ADD_LIST_ITEMS: "addListItems",
+  UPDATE_LIST_ITEM: "updateListItem",
+  CHECK_LIST_ITEM: "checkListItem",
+  UNCHECK_LIST_ITEM: "uncheckListItem",
+  RESTORE_LIST_ITEM: "restoreListItem",
+  CREATE_RECIPE: "createRecipe",
+  UPDATE_RECIPE: "updateRecipe",
+  COOK_RECIPE: "cookRecipe",
+  RESTORE_RECIPE: "restoreRecipe",
+  CREATE_CHORE: "createChore",
+  UPDATE_CHORE: "updateChore",
+  COMPLETE_CHORE: "completeChore",
+  REOPEN_CHORE: "reopenChore",
+  RESTORE_CHORE: "restoreChore",
+  REMOVE_MEMBER: "removeMember",
+  CHANGE_ROLE: "changeRole",
+  LEAVE_HOUSEHOLD: "leaveHousehold",
+  TRANSFER_ADMIN: "transferAdmin",
+  APPROVE_JOIN_REQUEST: "approveJoinRequest",
+};
+
+/**
+ * Lists the item names stored with an "items added" entry; names beyond the
+ * ones the server kept are only counted.
+ */
+function formatItems(entry: HouseholdActivityEntry, t: TFunction): string {
+  const items = Array.isArray(entry.metadata.items) ? (entry.metadata.items as string[]) : [];
+  const names = items.join(", ");
+  const hidden = (entry.metadata.count ?? items.length) - items.length;
+  return hidden > 0 ? t("activityFeed.moreItems", { items: names, count: hidden }) : names;
+}
+
+export function describeActivity(entry: HouseholdActivityEntry, t: TFunction): string {
+  const key = ACTION_KEYS[entry.action] ?? "other";
+  return t(`activityFeed.actions.${key}`, {
+    actor: entry.actor?.name ?? t("activityFeed.someone"),
+    name: entry.metadata.name ?? "",
+    items: formatItems(entry, t),
+  });
+}
+
+function formatActivityTime(createdAt: string): string {
+  const time = dayjs(createdAt);
+  return time.isSame(dayjs(), "day") ? time.format("h:mm A") : time.format("MMM D, h:mm A");
+}
+
+/**
+ * Household activity timeline for the dashboard. Entries created since the
+ * user last looked are highlighted, and the title switches to
+ * "While you were away" while there are any.
+ */
+export function ActivityTimelineCard({
+  isRtl,
+  entries,
+  isLoading,
+  unseenCount,
+  isUnseen,
+  hasMore,
+  onLoadMore,
+}: ActivityTimelineCardProps) {
+  const { t } = useTranslation("dashboard");
+  const isRtlLayout = isRtl ?? I18nManager.isRTL;
+
+  return (
+    <View style={styles.card} testID="activity-timeline">
+      <View style={styles.header}>
+        <TextBlock
+          title={unseenCount > 0 ? t("activityFeed.awayTitle") : t("activityFeed.title")}
+          subtitle={t("activityFeed.subtitle")}
+          isRtl={isRtlLayout}
+          containerStyle={styles.titleBlock}
+          containerRtlStyle={styles.titleBlockRtl}
+          titleStyle={styles.title}
+          titleRtlStyle={styles.rtlText}
+          subtitleStyle={styles.subtitle}
+          subtitleRtlStyle={styles.rtlText}
+        />
+        {unseenCount > 0 && (
+          <View style={styles.newCountBadge}>
+            <Text style={styles.newCountText}>
+              {t("activityFeed.newCount", { count: unseenCount })}
+            </Text>
+          </View>
+        )}
+      </View>
+
+      <View style={styles.list}>
+        {isLoading && entries.length === 0 ? (
+          <>
+            <ListItemSkeleton />
+            <ListItemSkeleton />
+          </>
+        ) : entries.length === 0 ? (
+          <Text style={styles.emptyText}>{t("activityFeed.empty")}</Text>
+        ) : (
+          entries.map((entry) => {
+            const unseen = isUnseen(entry);
+            const description = describeActivity(entry, t);
+            return (
+              <View
+                key={entry.id}
+                style={[styles.row, unseen && styles.rowUnseen]}
+                testID={`activity-entry-${entry.id}`}
+                accessibilityLabel={
+                  unseen ? `${t("activityFeed.newBadge")}, ${description}` : description
+                }
+              >
+                <View style={styles.avatarContainer}>
+                  <SafeImage
+                    uri={entry.actor?.avatarUrl ?? getAssigneeAvatarUri(entry.actor?.name)}
+                    style={styles.avatar}
+                  />
+                </View>
+                <View style={styles.rowContent}>
+                  <Text
+                    style={[styles.rowText, isRtlLayout && styles.rtlText]}
+                    numberOfLines={2}
+                  >
+                    {description}
+                  </Text>
+                  <Text style={[styles.rowTime, isRtlLayout && styles.rtlText]}>
+                    {formatActivityTime(entry.createdAt)}
+                  </Text>
+                </View>
+                {unseen && <View style={styles.unseenDot} testID="activity-unseen-dot" />}
+              </View>
+            );
+          })
+        )}
+      </View>
+
+      {hasMore && (
+        <TouchableOpacity
+          style={styles.showMoreButton}
+          onPress={onLoadMore}
+          disabled={isLoading}
+          accessibilityRole="button"
+        >
+          <Text style={styles.showMoreText}>{t("activityFeed.showMore")}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
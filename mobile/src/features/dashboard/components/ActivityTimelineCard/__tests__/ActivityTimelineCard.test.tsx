@@ -0,0 +1,113 @@
+import React from 'react';
+import { fireEvent, render } from '@testing-library/react-native';
+import type { HouseholdActivityEntry } from '../../../services/dashboardApi';
+
+jest.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string, options?: Record<string, unknown>) => {
+      const translations: Record<string, string> = {
+        'activityFeed.title': 'Household Activity',
+        'activityFeed.awayTitle': 'While You Were Away',
+        'activityFeed.subtitle': 'What everyone has been up to',
+        'activityFeed.newCount': '{{count}} new',
+        'activityFeed.newBadge': 'New',
+        'activityFeed.empty': 'Nothing has happened yet',
+        'activityFeed.showMore': 'Show more',
+        'activityFeed.someone': 'Someone',
+        'activityFeed.moreItems': '{{items}} and {{count}} more',
+        'activityFeed.actions.checkListItem': '{{actor}} checked off {{name}}',
+        'activityFeed.actions.addListItems': '{{actor}} added {{items}} to {{name}}',
+        'activityFeed.actions.completeChore': '{{actor}} completed {{name}}',
+      };
+      const template = translations[key] ?? key;
+      return template.replace(/\{\{(\w+)\}\}/g, (_match, name: string) =>
+        String(options?.[name] ?? ''),
+      );
+    },
+  }),
+}));
+
+// Import after mocks
+import { ActivityTimelineCard } from '../ActivityTimelineCard';
+
+const entries: HouseholdActivityEntry[] = [
+  {
+    id: 'log-3',
+    action: 'COMPLETE_CHORE',
+    entityType: 'CHORE',
+    entityId: 'chore-1',
+    actor: null,
+    metadata: { name: 'Take out trash' },
+    createdAt: '2050-01-01T12:00:00.000Z',
+  },
+  {
+    id: 'log-2',
+    action: 'ADD_LIST_ITEMS',
+    entityType: 'SHOPPING_LIST',
+    entityId: 'list-1',
+    actor: { id: 'user-2', name: 'Dana' },
+    metadata: { name: 'Groceries', items: ['Milk', 'Eggs'], count: 4 },
+    createdAt: '2050-01-01T11:00:00.000Z',
+  },
+  {
+    id: 'log-1',
+    action: 'CHECK_LIST_ITEM',
+    entityType: 'SHOPPING_ITEM',
+    entityId: 'item-1',
+    actor: { id: 'user-2', name: 'Dana' },
+    metadata: { name: 'Bread' },
+    createdAt: '2050-01-01T10:00:00.000Z',
+  },
+];
+
+const defaultProps = {
+  isRtl: false,
+  entries,
+  isLoading: false,
+  unseenCount: 0,
+  isUnseen: () => false,
+  hasMore: false,
+  onLoadMore: jest.fn(),
+};
+
+describe('ActivityTimelineCard', () => {
+  it('describes each entry with the member who acted', () => {
+    const { getByText } = render(<ActivityTimelineCard {...defaultProps} />);
+
+    expect(getByText('Household Activity')).toBeTruthy();
+    expect(getByText('Someone completed Take out trash')).toBeTruthy();
+    expect(getByText('Dana added Milk, Eggs and 2 more to Groceries')).toBeTruthy();
+    expect(getByText('Dana checked off Bread')).toBeTruthy();
+  });
+
+  it('highlights what happened while the user was away', () => {
+    const { getByText, getAllByTestId } = render(
+      <ActivityTimelineCard
+        {...defaultProps}
+        unseenCount={2}
+        isUnseen={(entry) => entry.id !== 'log-1'}
+      />,
+    );
+
+    expect(getByText('While You Were Away')).toBeTruthy();
+    expect(getByText('2 new')).toBeTruthy();
+    expect(getAllByTestId('activity-unseen-dot')).toHaveLength(2);
+  });
+
+  it('shows an empty state', () => {
+    const { getByText } = render(<ActivityTimelineCard {...defaultProps} entries={[]} />);
+
+    expect(getByText('Nothing has happened yet')).toBeTruthy();
+  });
+
+  it('loads more entries on request', () => {
+    const onLoadMore = jest.fn();
+    const { getByText } = render(
+      <ActivityTimelineCard {...defaultProps} hasMore onLoadMore={onLoadMore} />,
+    );
+
+    fireEvent.press(getByText('Show more'));
+
+    expect(onLoadMore).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,2 @@
+export { ActivityTimelineCard } from "./ActivityTimelineCard";
+export type { ActivityTimelineCardProps } from "./types";
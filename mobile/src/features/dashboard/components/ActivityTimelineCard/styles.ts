@@ -0,0 +1,114 @@
+import { StyleSheet } from "react-native";
+import {
+  colors,
+  spacing,
+  borderRadius,
+  typography,
+  shadows,
+} from "../../../../theme";
+
+export const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.xxxl,
+    padding: spacing.lg,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginTop: spacing.xl,
+    ...shadows.lg,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    marginBottom: spacing.lg,
+  },
+  titleBlock: {
+    flex: 1,
+  },
+  titleBlockRtl: {
+    alignItems: "stretch",
+    width: "100%",
+  },
+  title: {
+    ...typography.h2,
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+  },
+  rtlText: {
+    writingDirection: "rtl",
+  },
+  newCountBadge: {
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.full,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  newCountText: {
+    ...typography.tiny,
+    fontWeight: "700",
+    color: colors.textLight,
+  },
+  list: {
+    gap: spacing.sm,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.md,
+    padding: spacing.sm,
+    borderRadius: borderRadius.xl,
+  },
+  rowUnseen: {
+    backgroundColor: colors.pastel.cyan,
+  },
+  avatarContainer: {
+    width: 36,
+    height: 36,
+    borderRadius: borderRadius.lg,
+    overflow: "hidden",
+    backgroundColor: colors.avatarBackground,
+    flexShrink: 0,
+  },
+  avatar: {
+    width: "100%",
+    height: "100%",
+  },
+  rowContent: {
+    flex: 1,
+    minWidth: 0,
+  },
+  rowText: {
+    ...typography.body,
+  },
+  rowTime: {
+    ...typography.tiny,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
+  unseenDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: colors.primary,
+    flexShrink: 0,
+  },
+  emptyText: {
+    ...typography.bodySmall,
+    color: colors.textMuted,
+    textAlign: "center",
+    paddingVertical: spacing.md,
+  },
+  showMoreButton: {
+    alignItems: "center",
+    paddingVertical: spacing.md,
+    marginTop: spacing.sm,
+  },
+  showMoreText: {
+    ...typography.labelBold,
+    color: colors.primary,
+  },
+});
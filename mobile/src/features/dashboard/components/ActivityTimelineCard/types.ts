@@ -0,0 +1,12 @@
+import type { HouseholdActivityEntry } from "../../services/dashboardApi";
+
+export interface ActivityTimelineCardProps {
+  isRtl: boolean;
+  entries: HouseholdActivityEntry[];
+  isLoading: boolean;
+  /** Entries created since the user last looked at the feed. */
+  unseenCount: number;
+  isUnseen: (entry: HouseholdActivityEntry) => boolean;
+  hasMore: boolean;
+  onLoadMore: () => void;
+}
@@ -27,13 +27,18 @@ export function QuickStatCard({ stat, isRtl, onPress }: QuickStatCardProps) {
           styles.quickStatIconContainer,
           stat.iconBgStyle === "shopping" && styles.quickStatIconShopping,
           stat.iconBgStyle === "recipes" && styles.quickStatIconRecipes,
+          stat.iconBgStyle === "pantry" && styles.quickStatIconPantry,
         ]}
       >
         <Ionicons
           name={stat.icon}
           size={20}
           color={
-            stat.iconBgStyle === "shopping" ? colors.primary : colors.secondary
+            stat.iconBgStyle === "shopping"
+              ? colors.primary
+              : stat.iconBgStyle === "pantry"
+                ? colors.error
+                : colors.secondary
           }
         />
       </View>
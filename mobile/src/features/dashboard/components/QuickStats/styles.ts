@@ -40,6 +40,9 @@ export const styles = StyleSheet.create({
   quickStatIconRecipes: {
     backgroundColor: colors.pastel.peach,
   },
+  quickStatIconPantry: {
+    backgroundColor: colors.pastel.coral,
+  },
   quickStatLabel: {
     ...typography.tiny,
     color: colors.textMuted,
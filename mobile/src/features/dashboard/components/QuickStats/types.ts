@@ -1,7 +1,7 @@
 import type { TabKey } from "../../../../common/components/BottomPillNav";
 
-export type QuickStatIconBgStyle = "shopping" | "recipes";
-export type QuickStatIcon = "basket-outline" | "book-outline";
+export type QuickStatIconBgStyle = "shopping" | "recipes" | "pantry";
+export type QuickStatIcon = "basket-outline" | "book-outline" | "time-outline";
 
 export interface QuickStatItem {
   icon: QuickStatIcon;
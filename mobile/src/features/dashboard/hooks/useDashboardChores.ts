@@ -2,7 +2,7 @@
  * useDashboardChores - Load today's chores and toggle completion for the dashboard.
  *
  * Uses the same data source as ChoresScreen (cache for signed-in, guest storage for guest)
- * so the list and toggle stay in sync. Returns today's chores only and a toggle handler.
+ * so the list and toggle stay in sync. Returns today's and overdue chores and a toggle handler.
  */
 
 import { useMemo, useState, useEffect, useCallback } from 'react';
@@ -15,11 +15,12 @@ import { config } from '../../../config';
 import { useAuth } from '../../../contexts/AuthContext';
 
 function filterTodayChores(chores: Chore[]): Chore[] {
-  // Include chores with section 'today' OR chores without a dueDate (they're not overdue)
+  // Include chores with section 'today' or 'overdue' (still to be done) OR chores
+  // without a dueDate (they're not overdue)
   // Chores without a dueDate come from the backend in "upcoming" array and get mapped
   // with section 'thisWeek' and dueDate 'Upcoming', so we include those too
   return chores.filter((c) => {
-    if (c.section === 'today') return true;
+    if (c.section === 'today' || c.section === 'overdue') return true;
     // Chores without a dueDate are mapped with dueDate: 'Upcoming' and section: 'thisWeek'
     // Include them on dashboard since they're not overdue
     if (c.section === 'thisWeek' && c.dueDate === 'Upcoming') {
@@ -0,0 +1,51 @@
+import { renderHook, waitFor } from '@testing-library/react-native';
+
+jest.mock('../../../contexts/AuthContext', () => ({
+  useAuth: jest.fn(),
+}));
+
+jest.mock('../../../config', () => ({
+  config: { mockData: { enabled: false } },
+}));
+
+jest.mock('../services/dashboardApi', () => ({
+  dashboardApi: { getSummary: jest.fn() },
+}));
+
+import { useExpiringPantryItems } from './useExpiringPantryItems';
+
+const mockUseAuth = jest.requireMock('../../../contexts/AuthContext').useAuth;
+const { dashboardApi } = jest.requireMock('../services/dashboardApi');
+
+describe('useExpiringPantryItems', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('loads the expiring pantry items for signed-in members', async () => {
+    mockUseAuth.mockReturnValue({ user: { isGuest: false, householdId: 'h1' } });
+    dashboardApi.getSummary.mockResolvedValue({
+      expiringSoonCount: 2,
+      expiringSoonItems: [
+        { id: 'p1', name: 'Milk', location: 'fridge', expiresAt: '2050-01-02T00:00:00.000Z' },
+      ],
+    });
+
+    const { result } = renderHook(() => useExpiringPantryItems());
+
+    await waitFor(() => expect(result.current.expiringSoonCount).toBe(2));
+    expect(result.current.expiringSoonItems).toHaveLength(1);
+  });
+
+  it.each([
+    ['guests', { isGuest: true, householdId: null }],
+    ['members without a household', { isGuest: false, householdId: null }],
+  ])('has no pantry data for %s', async (_label, user) => {
+    mockUseAuth.mockReturnValue({ user });
+
+    const { result } = renderHook(() => useExpiringPantryItems());
+
+    await waitFor(() => expect(result.current.expiringSoonCount).toBeNull());
+    expect(dashboardApi.getSummary).not.toHaveBeenCalled();
+  });
+});
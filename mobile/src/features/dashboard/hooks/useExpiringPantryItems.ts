@@ -0,0 +1,52 @@
+/**
+ * useExpiringPantryItems - Load pantry items that are about to expire for the dashboard.
+ *
+ * The pantry is only stored on the server, so guests and members without a
+ * household get no data (`expiringSoonCount` stays null and the stat is hidden).
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../../../contexts/AuthContext';
+import { determineUserDataMode } from '../../../common/types/dataModes';
+import { config } from '../../../config';
+import { dashboardApi } from '../services/dashboardApi';
+import type { ExpiringPantryItem } from '../services/dashboardApi';
+
+export interface UseExpiringPantryItemsReturn {
+  /** Null when the pantry is not available for the current user. */
+  expiringSoonCount: number | null;
+  expiringSoonItems: ExpiringPantryItem[];
+  refresh: () => Promise<void>;
+}
+
+export function useExpiringPantryItems(): UseExpiringPantryItemsReturn {
+  const { user } = useAuth();
+  const canUsePantry =
+    !config.mockData.enabled &&
+    determineUserDataMode(user) === 'signed-in' &&
+    !!user?.householdId;
+
+  const [expiringSoonCount, setExpiringSoonCount] = useState<number | null>(null);
+  const [expiringSoonItems, setExpiringSoonItems] = useState<ExpiringPantryItem[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!canUsePantry) {
+      setExpiringSoonCount(null);
+      setExpiringSoonItems([]);
+      return;
+    }
+    try {
+      const summary = await dashboardApi.getSummary();
+      setExpiringSoonCount(summary.expiringSoonCount ?? 0);
+      setExpiringSoonItems(summary.expiringSoonItems ?? []);
+    } catch (error) {
+      console.error('Failed to load expiring pantry items:', error);
+    }
+  }, [canUsePantry]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { expiringSoonCount, expiringSoonItems, refresh };
+}
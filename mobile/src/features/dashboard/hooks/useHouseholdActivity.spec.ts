@@ -0,0 +1,113 @@
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+jest.mock('../../../contexts/AuthContext', () => ({
+  useAuth: jest.fn(),
+}));
+
+jest.mock('../../../config', () => ({
+  config: { mockData: { enabled: false } },
+}));
+
+jest.mock('../services/dashboardApi', () => ({
+  dashboardApi: { getActivity: jest.fn() },
+}));
+
+import { useHouseholdActivity } from './useHouseholdActivity';
+
+const mockUseAuth = jest.requireMock('../../../contexts/AuthContext').useAuth;
+const { dashboardApi } = jest.requireMock('../services/dashboardApi');
+
+const entry = (id: string, createdAt: string, actorId = 'user-2') => ({
+  id,
+  action: 'CHECK_LIST_ITEM',
+  entityType: 'SHOPPING_ITEM',
+  entityId: `item-${id}`,
+  actor: { id: actorId, name: 'Dana' },
+  metadata: { name: 'Milk' },
+  createdAt,
+});
+
+const page = (data: ReturnType<typeof entry>[], pageNumber = 1, totalPages = 1) => ({
+  data,
+  page: pageNumber,
+  limit: 20,
+  total: data.length,
+  totalPages,
+});
+
+describe('useHouseholdActivity', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUseAuth.mockReturnValue({ user: { id: 'user-1', isGuest: false, householdId: 'h1' } });
+    (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+  });
+
+  it('marks entries by other members since the last visit as unseen', async () => {
+    (AsyncStorage.getItem as jest.Mock).mockResolvedValue(
+      String(new Date('2050-01-01T10:00:00.000Z').getTime()),
+    );
+    dashboardApi.getActivity.mockResolvedValue(
+      page([
+        entry('3', '2050-01-01T12:00:00.000Z', 'user-1'),
+        entry('2', '2050-01-01T11:00:00.000Z'),
+        entry('1', '2050-01-01T09:00:00.000Z'),
+      ]),
+    );
+
+    const { result } = renderHook(() => useHouseholdActivity());
+
+    await waitFor(() => expect(result.current.entries).toHaveLength(3));
+    expect(AsyncStorage.getItem).toHaveBeenCalledWith('@kitchen_hub_activity_last_seen_h1');
+    expect(result.current.entries.map(result.current.isUnseen)).toEqual([false, true, false]);
+    expect(result.current.unseenCount).toBe(1);
+  });
+
+  it('stores the newest entry time when marked as seen', async () => {
+    dashboardApi.getActivity.mockResolvedValue(page([entry('1', '2050-01-01T11:00:00.000Z')]));
+
+    const { result } = renderHook(() => useHouseholdActivity());
+    await waitFor(() => expect(result.current.unseenCount).toBe(1));
+
+    await act(async () => {
+      await result.current.markSeen();
+    });
+
+    expect(AsyncStorage.setItem).toHaveBeenCalledWith(
+      '@kitchen_hub_activity_last_seen_h1',
+      String(new Date('2050-01-01T11:00:00.000Z').getTime()),
+    );
+    expect(result.current.unseenCount).toBe(0);
+  });
+
+  it('appends the next page without duplicating entries', async () => {
+    dashboardApi.getActivity
+      .mockResolvedValueOnce(page([entry('2', '2050-01-01T11:00:00.000Z')], 1, 2))
+      .mockResolvedValueOnce(
+        page([entry('2', '2050-01-01T11:00:00.000Z'), entry('1', '2050-01-01T10:00:00.000Z')], 2, 2),
+      );
+
+    const { result } = renderHook(() => useHouseholdActivity());
+    await waitFor(() => expect(result.current.hasMore).toBe(true));
+
+    await act(async () => {
+      await result.current.loadMore();
+    });
+
+    expect(dashboardApi.getActivity).toHaveBeenLastCalledWith(2, 20);
+    expect(result.current.entries.map((item) => item.id)).toEqual(['2', '1']);
+    expect(result.current.hasMore).toBe(false);
+  });
+
+  it.each([
+    ['guests', { id: 'guest', isGuest: true, householdId: null }],
+    ['members without a household', { id: 'user-1', isGuest: false, householdId: null }],
+  ])('is not available for %s', async (_label, user) => {
+    mockUseAuth.mockReturnValue({ user });
+
+    const { result } = renderHook(() => useHouseholdActivity());
+
+    await waitFor(() => expect(result.current.isAvailable).toBe(false));
+    expect(dashboardApi.getActivity).not.toHaveBeenCalled();
+  });
+});
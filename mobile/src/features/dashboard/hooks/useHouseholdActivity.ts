@@ -0,0 +1,129 @@
+/**
+ * useHouseholdActivity - Load the household activity feed for the dashboard.
+ *
+ * Remembers (per household, on the device) when the user last looked at the
+ * feed, so entries created since then can be shown as "while you were away".
+ * The feed lives on the server, so guests get no data.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAuth } from '../../../contexts/AuthContext';
+import { determineUserDataMode } from '../../../common/types/dataModes';
+import { config } from '../../../config';
+import { dashboardApi } from '../services/dashboardApi';
+import type { HouseholdActivityEntry } from '../services/dashboardApi';
+
+export const ACTIVITY_PAGE_SIZE = 20;
+const LAST_SEEN_STORAGE_KEY_PREFIX = '@kitchen_hub_activity_last_seen_';
+
+export interface UseHouseholdActivityReturn {
+  /** False for guests and members without a household. */
+  isAvailable: boolean;
+  entries: HouseholdActivityEntry[];
+  /** Entries created since the user last looked at the feed. */
+  unseenCount: number;
+  hasMore: boolean;
+  isLoading: boolean;
+  isUnseen: (entry: HouseholdActivityEntry) => boolean;
+  refresh: () => Promise<void>;
+  loadMore: () => Promise<void>;
+  /** Records that the user has seen everything currently loaded. */
+  markSeen: () => Promise<void>;
+}
+
+export function useHouseholdActivity(): UseHouseholdActivityReturn {
+  const { user } = useAuth();
+  const householdId = user?.householdId ?? null;
+  const isAvailable =
+    !config.mockData.enabled &&
+    determineUserDataMode(user) === 'signed-in' &&
+    !!householdId;
+  const storageKey = `${LAST_SEEN_STORAGE_KEY_PREFIX}${householdId}`;
+
+  const [entries, setEntries] = useState<HouseholdActivityEntry[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  // Null until loaded; a first-time viewer has seen nothing yet
+  const [lastSeenAt, setLastSeenAt] = useState<number | null>(null);
+  const entriesRef = useRef<HouseholdActivityEntry[]>([]);
+  entriesRef.current = entries;
+
+  const refresh = useCallback(async () => {
+    if (!isAvailable) {
+      setEntries([]);
+      setTotalPages(0);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const [result, storedLastSeen] = await Promise.all([
+        dashboardApi.getActivity(1, ACTIVITY_PAGE_SIZE),
+        AsyncStorage.getItem(storageKey),
+      ]);
+      setEntries(result.data);
+      setPage(1);
+      setTotalPages(result.totalPages);
+      setLastSeenAt(storedLastSeen ? Number(storedLastSeen) : 0);
+    } catch (error) {
+      console.error('Failed to load household activity:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isAvailable, storageKey]);
+
+  const loadMore = useCallback(async () => {
+    if (!isAvailable || isLoading || page >= totalPages) return;
+    setIsLoading(true);
+    try {
+      const result = await dashboardApi.getActivity(page + 1, ACTIVITY_PAGE_SIZE);
+      setEntries((current) => {
+        const known = new Set(current.map((entry) => entry.id));
+        return [...current, ...result.data.filter((entry) => !known.has(entry.id))];
+      });
+      setPage(result.page);
+      setTotalPages(result.totalPages);
+    } catch (error) {
+      console.error('Failed to load more household activity:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isAvailable, isLoading, page, totalPages]);
+
+  const markSeen = useCallback(async () => {
+    const newest = entriesRef.current[0];
+    if (!isAvailable || !newest) return;
+    const seenAt = new Date(newest.createdAt).getTime();
+    setLastSeenAt(seenAt);
+    try {
+      await AsyncStorage.setItem(storageKey, String(seenAt));
+    } catch (error) {
+      console.error('Failed to save activity last seen time:', error);
+    }
+  }, [isAvailable, storageKey]);
+
+  const isUnseen = useCallback(
+    (entry: HouseholdActivityEntry) =>
+      lastSeenAt !== null &&
+      new Date(entry.createdAt).getTime() > lastSeenAt &&
+      entry.actor?.id !== user?.id,
+    [lastSeenAt, user?.id],
+  );
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    isAvailable,
+    entries,
+    unseenCount: entries.filter(isUnseen).length,
+    hasMore: page < totalPages,
+    isLoading,
+    isUnseen,
+    refresh,
+    loadMore,
+    markSeen,
+  };
+}
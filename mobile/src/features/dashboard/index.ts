@@ -2,3 +2,7 @@
 export { DashboardScreen } from './screens/DashboardScreen';
 export { useDashboardChores } from './hooks/useDashboardChores';
 export type { UseDashboardChoresReturn } from './hooks/useDashboardChores';
+export { useExpiringPantryItems } from './hooks/useExpiringPantryItems';
+export type { UseExpiringPantryItemsReturn } from './hooks/useExpiringPantryItems';
+export { useHouseholdActivity } from './hooks/useHouseholdActivity';
+export type { UseHouseholdActivityReturn } from './hooks/useHouseholdActivity';
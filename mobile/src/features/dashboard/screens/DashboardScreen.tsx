@@ -31,9 +31,12 @@ import type { GroceryItem } from "../../shopping/components/GrocerySearchBar";
 import { ImportantChoresCard } from "../components/ImportantChoresCard";
 import { QuickAddCard } from "../components/QuickAddCard";
 import { QuickStatsRow } from "../components/QuickStats";
+import { ActivityTimelineCard } from "../components/ActivityTimelineCard";
 import type { QuickStatItem } from "../components/QuickStats";
 import type { ShoppingItem, ShoppingList } from "../../../mocks/shopping";
 import { useDashboardChores } from "../hooks/useDashboardChores";
+import { useExpiringPantryItems } from "../hooks/useExpiringPantryItems";
+import { useHouseholdActivity } from "../hooks/useHouseholdActivity";
 import { useRecipes } from "../../recipes/hooks/useRecipes";
 import { createShoppingService } from "../../shopping/services/shoppingService";
 import {
@@ -118,6 +121,13 @@ export function DashboardScreen({
     [shouldUseMockData],
   );
   const { recipes, refresh: refreshRecipes } = useRecipes();
+  const { expiringSoonCount, refresh: refreshExpiringPantryItems } =
+    useExpiringPantryItems();
+  const activity = useHouseholdActivity();
+  const {
+    refresh: refreshActivity,
+    markSeen: markActivitySeen,
+  } = activity;
   const [activeListId, setActiveListId] = useState<string | null>(null);
   const [shoppingListsCount, setShoppingListsCount] = useState(0);
   const [allItems, setAllItems] = useState<ShoppingItem[]>([]);
@@ -160,11 +170,19 @@ export function DashboardScreen({
         loadShoppingData(),
         refreshRecipes(),
         refreshChores(),
+        refreshExpiringPantryItems(),
+        refreshActivity(),
       ]);
     } finally {
       setIsRefreshing(false);
     }
-  }, [loadShoppingData, refreshRecipes, refreshChores]);
+  }, [
+    loadShoppingData,
+    refreshRecipes,
+    refreshChores,
+    refreshExpiringPantryItems,
+    refreshActivity,
+  ]);
 
   useEffect(() => {
     loadShoppingData();
@@ -173,30 +191,50 @@ export function DashboardScreen({
   useFocusEffect(
     useCallback(() => {
       loadShoppingData();
-    }, [loadShoppingData]),
+      refreshExpiringPantryItems();
+      refreshActivity();
+      // Entries stay highlighted while the dashboard is open and count as
+      // seen once the user leaves it
+      return () => {
+        markActivitySeen();
+      };
+    }, [loadShoppingData, refreshExpiringPantryItems, refreshActivity, markActivitySeen]),
   );
 
   const quickStats = useMemo<QuickStatItem[]>(
-    () => [
-      {
-        icon: "basket-outline",
-        label: t("quickStats.shoppingLists"),
-        value:
-          shoppingListsCount === 1
-            ? t("quickStats.active", { count: 1 })
-            : t("quickStats.active", { count: shoppingListsCount }),
-        route: "Shopping",
-        iconBgStyle: "shopping",
-      },
-      {
-        icon: "book-outline",
-        label: t("quickStats.savedRecipes"),
-        value: recipes.length === 1 ? t("quickStats.item", { count: 1 }) : t("quickStats.items", { count: recipes.length }),
-        route: "Recipes",
-        iconBgStyle: "recipes",
-      },
-    ],
-    [shoppingListsCount, recipes.length, t],
+    () => {
+      const stats: QuickStatItem[] = [
+        {
+          icon: "basket-outline",
+          label: t("quickStats.shoppingLists"),
+          value:
+            shoppingListsCount === 1
+              ? t("quickStats.active", { count: 1 })
+              : t("quickStats.active", { count: shoppingListsCount }),
+          route: "Shopping",
+          iconBgStyle: "shopping",
+        },
+        {
+          icon: "book-outline",
+          label: t("quickStats.savedRecipes"),
+          value: recipes.length === 1 ? t("quickStats.item", { count: 1 }) : t("quickStats.items", { count: recipes.length }),
+          route: "Recipes",
+          iconBgStyle: "recipes",
+        },
+      ];
+      // The pantry lives on the server, so the stat is hidden for guests
+      if (expiringSoonCount !== null) {
+        stats.push({
+          icon: "time-outline",
+          label: t("quickStats.expiringSoon"),
+          value: expiringSoonCount === 1 ? t("quickStats.item", { count: 1 }) : t("quickStats.items", { count: expiringSoonCount }),
+          route: null,
+          iconBgStyle: "pantry",
+        });
+      }
+      return stats;
+    },
+    [shoppingListsCount, recipes.length, expiringSoonCount, t],
   );
 
   const displayName = user?.name ?? t("header.roleGuest");
@@ -545,6 +583,18 @@ export function DashboardScreen({
             onOpenChoresModal={onOpenChoresModal}
           />
         </View>
+
+        {activity.isAvailable && (
+          <ActivityTimelineCard
+            isRtl={isRtl}
+            entries={activity.entries}
+            isLoading={activity.isLoading}
+            unseenCount={activity.unseenCount}
+            isUnseen={activity.isUnseen}
+            hasMore={activity.hasMore}
+            onLoadMore={activity.loadMore}
+          />
+        )}
       </ScrollView>
       {/* Toast */}
       <Toast
@@ -0,0 +1,96 @@
+import { api } from '../../../services/api';
+
+/**
+ * Pantry item about to expire, as listed in the dashboard summary.
+ */
+export interface ExpiringPantryItem {
+  id: string;
+  name: string;
+  location: string;
+  expiresAt: string;
+}
+
+/**
+ * Dashboard summary response from the backend
+ */
+export interface DashboardSummaryResponse {
+  greeting: string;
+  activeListCount: number;
+  pendingChoresCount: number;
+  savedRecipesCount: number;
+  /** Pantry items expiring within a few days, including expired ones. */
+  expiringSoonCount: number;
+  expiringSoonItems: ExpiringPantryItem[];
+}
+
+/**
+ * Action recorded in the household activity feed.
+ */
+export type ActivityAction =
+  | 'CREATE_LIST'
+  | 'UPDATE_LIST'
+  | 'RESTORE_LIST'
+  | 'ADD_LIST_ITEMS'
+  | 'UPDATE_LIST_ITEM'
+  | 'CHECK_LIST_ITEM'
+  | 'UNCHECK_LIST_ITEM'
+  | 'RESTORE_LIST_ITEM'
+  | 'CREATE_RECIPE'
+  | 'UPDATE_RECIPE'
+  | 'COOK_RECIPE'
+  | 'RESTORE_RECIPE'
+  | 'CREATE_CHORE'
+  | 'UPDATE_CHORE'
+  | 'COMPLETE_CHORE'
+  | 'REOPEN_CHORE'
+  | 'RESTORE_CHORE'
+  | 'REMOVE_MEMBER'
+  | 'CHANGE_ROLE'
+  | 'LEAVE_HOUSEHOLD'
+  | 'TRANSFER_ADMIN'
+  | 'APPROVE_JOIN_REQUEST';
+
+/**
+ * One change in the household activity feed. `metadata.name` is the name of
+ * the list, item, recipe or chore at the time of the change.
+ */
+export interface HouseholdActivityEntry {
+  id: string;
+  action: ActivityAction;
+  entityType: string;
+  entityId: string;
+  /** Null when the member's account no longer exists. */
+  actor: { id: string; name?: string; avatarUrl?: string } | null;
+  metadata: { name?: string; count?: number; [key: string]: unknown };
+  createdAt: string;
+}
+
+export interface HouseholdActivityPage {
+  data: HouseholdActivityEntry[];
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+/**
+ * Dashboard API service.
+ *
+ * Provides typed wrappers around dashboard endpoints.
+ * All methods require authentication and a household.
+ */
+export const dashboardApi = {
+  /**
+   * Gets the household summary shown on the dashboard.
+   */
+  getSummary: (): Promise<DashboardSummaryResponse> => {
+    return api.get<DashboardSummaryResponse>('/dashboard/summary');
+  },
+
+  /**
+   * Gets a page of the household activity feed, newest first.
+   */
+  getActivity: (page = 1, limit = 20): Promise<HouseholdActivityPage> => {
+    return api.get<HouseholdActivityPage>(`/household/activity?page=${page}&limit=${limit}`);
+  },
+};
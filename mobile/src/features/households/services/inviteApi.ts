@@ -1,11 +1,21 @@
 import { api } from '../../../services/api';
 
 /**
- * Invite validation response from the backend
+ * Why an invite code can't be used
+ */
+export type InviteInvalidReason = 'not_found' | 'expired' | 'revoked' | 'exhausted';
+
+/**
+ * Invite validation response from the backend.
+ * Household fields are set when `valid` is true, `reason` otherwise.
  */
 export interface InviteValidationResponse {
-  householdId: string;
-  householdName: string;
+  valid: boolean;
+  reason?: InviteInvalidReason;
+  householdId?: string;
+  householdName?: string;
+  /** Joining creates a request an admin must approve */
+  requiresApproval?: boolean;
 }
 
 /**
@@ -17,11 +27,11 @@ export interface InviteValidationResponse {
  * @example
  * ```typescript
  * // Validate an invite code
- * try {
- *   const invite = await inviteApi.validateInviteCode('ABC123');
+ * const invite = await inviteApi.validateInviteCode('ABC123');
+ * if (invite.valid) {
  *   console.log('Joining household:', invite.householdName);
- * } catch (error) {
- *   console.error('Invalid or expired invite code');
+ * } else {
+ *   console.error('Invite code cannot be used:', invite.reason);
  * }
  * ```
  */
@@ -34,13 +44,14 @@ export const inviteApi = {
    * existing household via invite code.
    * 
    * @param code - The invite code to validate (e.g., "ABC123")
-   * @returns Promise resolving to household ID and name
-   * @throws ApiError with 400 status if code is invalid or expired
+   * @returns Promise resolving to household ID and name, or why the code is invalid
+   * @throws ApiError with 400 status if the code is empty
    * 
    * @example
    * ```typescript
    * const result = await inviteApi.validateInviteCode('ABC123');
-   * // result: { householdId: 'uuid', householdName: 'Smith Family' }
+   * // result: { valid: true, householdId: 'uuid', householdName: 'Smith Family' }
+   * // or:     { valid: false, reason: 'expired' }
    * ```
    */
   validateInviteCode: (code: string): Promise<InviteValidationResponse> => {
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
     View,
     Text,
@@ -17,7 +17,8 @@ import { useTranslation } from 'react-i18next';
 import { colors, spacing, borderRadius } from '../../../theme';
 import { typography } from '../../../theme/typography';
 import { boxShadow } from '../../../theme/shadows';
-import { householdService } from '../../../services/householdService';
+import { householdService, HouseholdJoinRequest } from '../../../services/householdService';
+import { refreshAccessToken } from '../../auth/services/sessionManager';
 import { useAuth } from '../../../contexts/AuthContext';
 import { useNavigation } from '@react-navigation/native';
 import { Toast } from '../../../common/components/Toast';
@@ -32,6 +33,8 @@ export function HouseholdOnboardingScreen() {
     const [toastVisible, setToastVisible] = useState(false);
     const [toastMessage, setToastMessage] = useState('');
     const [toastType, setToastType] = useState<'error' | 'success' | 'info'>('error');
+    // A request waiting for an admin of a household that approves new members
+    const [pendingRequest, setPendingRequest] = useState<HouseholdJoinRequest | null>(null);
 
     const showToast = (message: string, type: 'error' | 'success' | 'info' = 'error') => {
         setToastMessage(message);
@@ -39,6 +42,22 @@ export function HouseholdOnboardingScreen() {
         setToastVisible(true);
     };
 
+    const loadPendingRequest = useCallback(async () => {
+        try {
+            const requests = await householdService.listMyJoinRequests();
+            setPendingRequest(requests[0] ?? null);
+        } catch (error) {
+            console.error('Load join requests error:', error);
+        }
+    }, []);
+
+    const signedInUserId = user && !user.isGuest ? user.id : null;
+    useEffect(() => {
+        if (signedInUserId) {
+            loadPendingRequest();
+        }
+    }, [signedInUserId, loadPendingRequest]);
+
     const handleCreate = async () => {
         if (!name.trim()) {
             showToast(t('onboarding.errors.enterHouseholdName'));
@@ -68,7 +87,12 @@ export function HouseholdOnboardingScreen() {
 
         try {
             setLoading(true);
-            await householdService.joinHousehold(inviteCode.trim());
+            const result = await householdService.joinHousehold(inviteCode.trim());
+            if (result.status === 'pending' && result.joinRequest) {
+                setPendingRequest(result.joinRequest);
+                setInviteCode('');
+                return;
+            }
             // Refresh auth context to pick up the new householdId
             if (refreshUser) {
                 await refreshUser();
@@ -81,6 +105,91 @@ export function HouseholdOnboardingScreen() {
         }
     };
 
+    /**
+     * Picks up an approval: the refreshed session carries the household the
+     * admin let the user into, which moves them past onboarding.
+     */
+    const handleCheckApproval = async () => {
+        try {
+            setLoading(true);
+            await refreshAccessToken();
+            await refreshUser();
+            const requests = await householdService.listMyJoinRequests();
+            const stillPending = requests.find(request => request.id === pendingRequest?.id);
+            if (stillPending) {
+                showToast(t('onboarding.pendingApproval.stillWaiting'), 'info');
+            } else {
+                // Rejected requests disappear from the list without a household
+                setPendingRequest(requests[0] ?? null);
+            }
+        } catch (error: any) {
+            console.error('Check join request error:', error);
+            showToast(error.message || t('onboarding.pendingApproval.checkFailed'));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleCancelRequest = async () => {
+        if (!pendingRequest) return;
+        try {
+            setLoading(true);
+            await householdService.cancelJoinRequest(pendingRequest.id);
+            setPendingRequest(null);
+        } catch (error: any) {
+            console.error('Cancel join request error:', error);
+            showToast(error.message || t('onboarding.pendingApproval.cancelFailed'));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    if (pendingRequest) {
+        return (
+            <SafeAreaView style={styles.safeArea}>
+                <View style={styles.content}>
+                    <View style={styles.header}>
+                        <Ionicons name="hourglass-outline" size={56} color={colors.primary} />
+                        <Text style={styles.title}>{t('onboarding.pendingApproval.title')}</Text>
+                        <Text style={styles.subtitle}>
+                            {t('onboarding.pendingApproval.message', { household: pendingRequest.householdName })}
+                        </Text>
+                    </View>
+                    <View style={styles.formContainer}>
+                        <TouchableOpacity
+                            style={styles.button}
+                            onPress={handleCheckApproval}
+                            disabled={loading}
+                            accessibilityRole="button"
+                            testID="check-join-request"
+                        >
+                            {loading ? (
+                                <ActivityIndicator color="#fff" />
+                            ) : (
+                                <Text style={styles.buttonText}>{t('onboarding.pendingApproval.checkAgain')}</Text>
+                            )}
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            style={styles.secondaryButton}
+                            onPress={handleCancelRequest}
+                            disabled={loading}
+                            accessibilityRole="button"
+                            testID="cancel-join-request"
+                        >
+                            <Text style={styles.secondaryButtonText}>{t('onboarding.pendingApproval.cancelRequest')}</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+                <Toast
+                    visible={toastVisible}
+                    message={toastMessage}
+                    type={toastType}
+                    onHide={() => setToastVisible(false)}
+                />
+            </SafeAreaView>
+        );
+    }
+
     return (
         <SafeAreaView style={styles.safeArea}>
             <KeyboardAvoidingView
@@ -292,4 +401,13 @@ const styles = StyleSheet.create({
         fontWeight: 'bold',
         color: colors.textLight,
     },
+    secondaryButton: {
+        marginTop: spacing.md,
+        paddingVertical: spacing.sm,
+        alignItems: 'center',
+    },
+    secondaryButtonText: {
+        ...typography.button,
+        color: colors.textMuted,
+    },
 });
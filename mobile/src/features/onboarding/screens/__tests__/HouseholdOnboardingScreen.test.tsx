@@ -0,0 +1,117 @@
+import React from 'react';
+import { render, fireEvent, waitFor } from '@testing-library/react-native';
+
+jest.mock('react-i18next', () => {
+  const authJson = require('../../../../i18n/locales/en/auth.json');
+
+  const walk = (root: Record<string, unknown>, key: string): string | undefined => {
+    const parts = key.split('.');
+    let cur: unknown = root;
+    for (const p of parts) {
+      if (cur && typeof cur === 'object' && p in cur) {
+        cur = (cur as Record<string, unknown>)[p];
+      } else {
+        return undefined;
+      }
+    }
+    return typeof cur === 'string' ? cur : undefined;
+  };
+
+  return {
+    useTranslation: () => ({
+      t: (key: string) => walk(authJson, key) ?? key,
+      i18n: { language: 'en', dir: () => 'ltr' },
+    }),
+  };
+});
+
+const mockRefreshUser = jest.fn();
+jest.mock('../../../../contexts/AuthContext', () => ({
+  useAuth: () => ({
+    user: { id: 'user-1', isGuest: false },
+    refreshUser: mockRefreshUser,
+  }),
+}));
+
+jest.mock('@react-navigation/native', () => ({
+  useNavigation: () => ({ navigate: jest.fn() }),
+}));
+
+const mockRefreshAccessToken = jest.fn();
+jest.mock('../../../auth/services/sessionManager', () => ({
+  refreshAccessToken: () => mockRefreshAccessToken(),
+}));
+
+const mockJoinHousehold = jest.fn();
+const mockListMyJoinRequests = jest.fn();
+const mockCancelJoinRequest = jest.fn();
+jest.mock('../../../../services/householdService', () => ({
+  householdService: {
+    joinHousehold: (code: string) => mockJoinHousehold(code),
+    listMyJoinRequests: () => mockListMyJoinRequests(),
+    cancelJoinRequest: (id: string) => mockCancelJoinRequest(id),
+    createHousehold: jest.fn(),
+  },
+}));
+
+const { HouseholdOnboardingScreen } = require('../HouseholdOnboardingScreen');
+const authJson = require('../../../../i18n/locales/en/auth.json');
+
+const PENDING_REQUEST = {
+  id: 'request-1',
+  householdId: 'household-1',
+  householdName: 'Smith Family',
+  status: 'pending',
+  createdAt: '2026-03-01T00:00:00.000Z',
+  user: { id: 'user-1' },
+};
+
+describe('HouseholdOnboardingScreen', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockListMyJoinRequests.mockResolvedValue([]);
+  });
+
+  it('waits for approval after asking to join a household that approves members', async () => {
+    mockJoinHousehold.mockResolvedValue({ status: 'pending', joinRequest: PENDING_REQUEST });
+    const screen = render(<HouseholdOnboardingScreen />);
+
+    fireEvent.press(screen.getByText(authJson.onboarding.joinExisting));
+    fireEvent.changeText(screen.getByPlaceholderText(authJson.onboarding.inviteCodePlaceholder), 'ABC123');
+    fireEvent.press(screen.getByText(authJson.onboarding.joinHousehold));
+
+    expect(await screen.findByText(authJson.onboarding.pendingApproval.title)).toBeTruthy();
+    expect(mockRefreshUser).not.toHaveBeenCalled();
+  });
+
+  it('shows a request that was already waiting when the screen opens', async () => {
+    mockListMyJoinRequests.mockResolvedValue([PENDING_REQUEST]);
+
+    const screen = render(<HouseholdOnboardingScreen />);
+
+    expect(await screen.findByText(authJson.onboarding.pendingApproval.title)).toBeTruthy();
+  });
+
+  it('refreshes the session when checking for an approval', async () => {
+    mockListMyJoinRequests.mockResolvedValueOnce([PENDING_REQUEST]).mockResolvedValue([]);
+    const screen = render(<HouseholdOnboardingScreen />);
+
+    fireEvent.press(await screen.findByTestId('check-join-request'));
+
+    await waitFor(() => {
+      expect(mockRefreshAccessToken).toHaveBeenCalled();
+    });
+    expect(mockRefreshUser).toHaveBeenCalled();
+  });
+
+  it('returns to the join form after cancelling the request', async () => {
+    mockListMyJoinRequests.mockResolvedValue([PENDING_REQUEST]);
+    mockCancelJoinRequest.mockResolvedValue({ success: true });
+    const screen = render(<HouseholdOnboardingScreen />);
+
+    fireEvent.press(await screen.findByTestId('cancel-join-request'));
+
+    expect(await screen.findByText(authJson.onboarding.title)).toBeTruthy();
+    expect(mockCancelJoinRequest).toHaveBeenCalledWith('request-1');
+  });
+});
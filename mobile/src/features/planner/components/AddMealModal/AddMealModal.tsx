@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ScrollView, I18nManager } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { CenteredModal } from '../../../../common/components/CenteredModal';
+import { colors } from '../../../../theme';
+import type { MealSlot } from '../../services/mealPlanApi';
+import { MEAL_SLOTS } from '../../constants';
+import { styles } from './styles';
+import type { AddMealModalProps } from './types';
+
+/**
+ * Plans a meal for one day: pick a slot, then either one of the household's
+ * recipes or a free text title (e.g. "Leftovers").
+ */
+export function AddMealModal({
+  visible,
+  dayLabel,
+  recipes,
+  onClose,
+  onConfirm,
+  isSubmitting = false,
+}: AddMealModalProps) {
+  const { t } = useTranslation('recipes');
+  const [mealSlot, setMealSlot] = useState<MealSlot>('dinner');
+  const [recipeId, setRecipeId] = useState<string | undefined>();
+  const [title, setTitle] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setMealSlot('dinner');
+      setRecipeId(undefined);
+      setTitle('');
+    }
+  }, [visible]);
+
+  const trimmedTitle = title.trim();
+  const canConfirm = !isSubmitting && (!!recipeId || trimmedTitle.length > 0);
+
+  const handleConfirm = () => {
+    onConfirm(recipeId ? { mealSlot, recipeId } : { mealSlot, title: trimmedTitle });
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+      testID={`add-meal-${key}`}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <CenteredModal
+      visible={visible}
+      onClose={onClose}
+      title={t('planner.addMealTitle', { day: dayLabel })}
+      confirmText={t('planner.addMeal')}
+      onConfirm={handleConfirm}
+      confirmColor={colors.recipes}
+      confirmLoading={isSubmitting}
+      confirmDisabled={!canConfirm}
+    >
+      <View style={styles.section}>
+        <Text style={styles.label}>{t('planner.slotLabel')}</Text>
+        <View style={styles.chips}>
+          {MEAL_SLOTS.map((slot) =>
+            renderChip(`slot-${slot}`, t(`planner.slots.${slot}`), mealSlot === slot, () => setMealSlot(slot))
+          )}
+        </View>
+      </View>
+
+      {recipes.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.label}>{t('planner.recipeLabel')}</Text>
+          <ScrollView style={styles.recipeList}>
+            <View style={styles.chips}>
+              {recipes.map((recipe) =>
+                renderChip(`recipe-${recipe.id}`, recipe.title, recipeId === recipe.id, () =>
+                  setRecipeId((current) => (current === recipe.id ? undefined : recipe.id))
+                )
+              )}
+            </View>
+          </ScrollView>
+        </View>
+      )}
+
+      {!recipeId && (
+        <View style={styles.section}>
+          <Text style={styles.label}>{t('planner.titleLabel')}</Text>
+          <TextInput
+            style={[styles.input, I18nManager.isRTL && styles.inputRtl]}
+            value={title}
+            onChangeText={setTitle}
+            placeholder={t('planner.titlePlaceholder')}
+            placeholderTextColor={colors.textMuted}
+            maxLength={120}
+            testID="add-meal-title-input"
+          />
+        </View>
+      )}
+    </CenteredModal>
+  );
+}
@@ -0,0 +1,2 @@
+export { AddMealModal } from './AddMealModal';
+export type { AddMealModalProps, PlannableRecipe } from './types';
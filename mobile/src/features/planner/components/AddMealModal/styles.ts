@@ -0,0 +1,55 @@
+import { StyleSheet } from 'react-native';
+import { colors, spacing, borderRadius } from '../../../../theme';
+
+export const styles = StyleSheet.create({
+  section: {
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: colors.textSecondary,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  chip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  chipSelected: {
+    borderColor: colors.recipes,
+    backgroundColor: colors.recipes,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  chipTextSelected: {
+    color: colors.textLight,
+  },
+  input: {
+    fontSize: 16,
+    color: colors.textPrimary,
+    backgroundColor: colors.background,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  inputRtl: {
+    textAlign: 'right',
+  },
+  recipeList: {
+    maxHeight: 200,
+  },
+});
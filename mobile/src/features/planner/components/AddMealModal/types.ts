@@ -0,0 +1,16 @@
+import type { MealSlot } from '../../services/mealPlanApi';
+
+export interface PlannableRecipe {
+  id: string;
+  title: string;
+}
+
+export interface AddMealModalProps {
+  visible: boolean;
+  /** Day label shown in the modal title */
+  dayLabel: string;
+  recipes: PlannableRecipe[];
+  onClose: () => void;
+  onConfirm: (meal: { mealSlot: MealSlot; recipeId?: string; title?: string }) => void;
+  isSubmitting?: boolean;
+}
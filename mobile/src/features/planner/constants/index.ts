@@ -0,0 +1 @@
+export { MEAL_SLOTS, type MealSlot } from './meal-slots.constants';
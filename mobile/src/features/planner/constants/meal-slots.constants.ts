@@ -0,0 +1,6 @@
+/**
+ * Meal slots of a planned day, in display order (matches the backend's MEAL_SLOTS).
+ */
+export const MEAL_SLOTS = ['breakfast', 'lunch', 'dinner', 'snack'] as const;
+
+export type MealSlot = (typeof MEAL_SLOTS)[number];
@@ -0,0 +1,80 @@
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+
+jest.mock('../../../contexts/AuthContext', () => ({
+  useAuth: jest.fn(),
+}));
+
+jest.mock('../../../config', () => ({
+  config: { mockData: { enabled: false } },
+}));
+
+jest.mock('../services/mealPlanApi', () => ({
+  mealPlanApi: {
+    getEntries: jest.fn(),
+    createEntry: jest.fn(),
+    deleteEntry: jest.fn(),
+  },
+}));
+
+import { useMealPlan } from './useMealPlan';
+
+const mockUseAuth = jest.requireMock('../../../contexts/AuthContext').useAuth;
+const { mealPlanApi } = jest.requireMock('../services/mealPlanApi');
+
+const weekStart = new Date(2050, 1, 20);
+const dinner = {
+  id: 'entry-1',
+  date: '2050-02-22',
+  mealSlot: 'dinner',
+  title: 'Shakshuka',
+  recipeId: 'recipe-1',
+};
+
+describe('useMealPlan', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('loads the week for signed-in members', async () => {
+    mockUseAuth.mockReturnValue({ user: { isGuest: false, householdId: 'h1' } });
+    mealPlanApi.getEntries.mockResolvedValue([dinner]);
+
+    const { result } = renderHook(() => useMealPlan(weekStart));
+
+    await waitFor(() => expect(result.current.entries).toHaveLength(1));
+    expect(mealPlanApi.getEntries).toHaveBeenCalledWith('2050-02-20', '2050-02-26');
+    expect(result.current.isAvailable).toBe(true);
+  });
+
+  it('adds entries in the week and removes deleted ones', async () => {
+    mockUseAuth.mockReturnValue({ user: { isGuest: false, householdId: 'h1' } });
+    mealPlanApi.getEntries.mockResolvedValue([dinner]);
+    mealPlanApi.createEntry.mockResolvedValue({ ...dinner, id: 'entry-2', title: 'Soup' });
+    mealPlanApi.deleteEntry.mockResolvedValue({ success: true });
+
+    const { result } = renderHook(() => useMealPlan(weekStart));
+    await waitFor(() => expect(result.current.entries).toHaveLength(1));
+
+    await act(async () => {
+      await result.current.addEntry({ date: '2050-02-22', mealSlot: 'dinner', title: 'Soup' });
+    });
+    expect(result.current.entries.map((entry) => entry.id)).toEqual(['entry-1', 'entry-2']);
+
+    await act(async () => {
+      await result.current.removeEntry('entry-1');
+    });
+    expect(result.current.entries.map((entry) => entry.id)).toEqual(['entry-2']);
+  });
+
+  it.each([
+    ['guests', { isGuest: true, householdId: null }],
+    ['members without a household', { isGuest: false, householdId: null }],
+  ])('is unavailable for %s', async (_label, user) => {
+    mockUseAuth.mockReturnValue({ user });
+
+    const { result } = renderHook(() => useMealPlan(weekStart));
+
+    await waitFor(() => expect(result.current.isAvailable).toBe(false));
+    expect(mealPlanApi.getEntries).not.toHaveBeenCalled();
+  });
+});
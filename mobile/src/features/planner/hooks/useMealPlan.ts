@@ -0,0 +1,77 @@
+/**
+ * useMealPlan - Load and edit the household's planned meals for one week.
+ *
+ * Meal plans are only stored on the server, so guests and members without a
+ * household get no data (`isAvailable` is false and nothing is fetched).
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '../../../contexts/AuthContext';
+import { determineUserDataMode } from '../../../common/types/dataModes';
+import { config } from '../../../config';
+import { mealPlanApi } from '../services/mealPlanApi';
+import type { CreateMealPlanEntryRequest, MealPlanEntry } from '../services/mealPlanApi';
+import { addDays, DAYS_PER_WEEK, toDateKey } from '../utils/week';
+
+export interface UseMealPlanReturn {
+  /** False for guests and members without a household. */
+  isAvailable: boolean;
+  entries: MealPlanEntry[];
+  isLoading: boolean;
+  /** First and last day of the week (YYYY-MM-DD). */
+  range: { from: string; to: string };
+  refresh: () => Promise<void>;
+  addEntry: (data: CreateMealPlanEntryRequest) => Promise<MealPlanEntry>;
+  removeEntry: (id: string) => Promise<void>;
+}
+
+export function useMealPlan(weekStart: Date): UseMealPlanReturn {
+  const { user } = useAuth();
+  const isAvailable =
+    !config.mockData.enabled &&
+    determineUserDataMode(user) === 'signed-in' &&
+    !!user?.householdId;
+
+  const [entries, setEntries] = useState<MealPlanEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const weekStartTime = weekStart.getTime();
+  const range = useMemo(() => {
+    const start = new Date(weekStartTime);
+    return { from: toDateKey(start), to: toDateKey(addDays(start, DAYS_PER_WEEK - 1)) };
+  }, [weekStartTime]);
+
+  const refresh = useCallback(async () => {
+    if (!isAvailable) {
+      setEntries([]);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      setEntries(await mealPlanApi.getEntries(range.from, range.to));
+    } catch (error) {
+      console.error('Failed to load meal plan:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isAvailable, range]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const addEntry = useCallback(async (data: CreateMealPlanEntryRequest) => {
+    const created = await mealPlanApi.createEntry(data);
+    if (created.date >= range.from && created.date <= range.to) {
+      setEntries((prev) => [...prev, created]);
+    }
+    return created;
+  }, [range]);
+
+  const removeEntry = useCallback(async (id: string) => {
+    await mealPlanApi.deleteEntry(id);
+    setEntries((prev) => prev.filter((entry) => entry.id !== id));
+  }, []);
+
+  return { isAvailable, entries, isLoading, range, refresh, addEntry, removeEntry };
+}
@@ -0,0 +1,4 @@
+// Planner feature exports
+export { MealPlannerScreen } from './screens/MealPlannerScreen';
+export { useMealPlan } from './hooks/useMealPlan';
+export type { MealPlanEntry, MealSlot } from './services/mealPlanApi';
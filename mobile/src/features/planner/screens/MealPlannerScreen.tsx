@@ -0,0 +1,262 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { View, Text, SafeAreaView, ScrollView, TouchableOpacity, RefreshControl } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import dayjs from 'dayjs';
+import 'dayjs/locale/he';
+import 'dayjs/locale/ar';
+import { ScreenHeader } from '../../../common/components/ScreenHeader';
+import { EmptyState } from '../../../common/components/EmptyState';
+import { Button } from '../../../common/components/Button';
+import { Toast } from '../../../common/components/Toast';
+import { colors } from '../../../theme';
+import { useRecipes } from '../../recipes/hooks/useRecipes';
+import { createShoppingService } from '../../shopping/services/shoppingService';
+import { IngredientConflictModal } from '../../shopping/components/IngredientConflictModal';
+import type { CookLineDecision, CookPlanLine } from '../../recipes/services/cookApi';
+import { AddMealModal } from '../components/AddMealModal';
+import { useMealPlan } from '../hooks/useMealPlan';
+import { mealPlanApi, type MealSlot } from '../services/mealPlanApi';
+import { MEAL_SLOTS } from '../constants';
+import { addDays, DAYS_PER_WEEK, getWeekDays, getWeekStart, toDateKey } from '../utils/week';
+import { styles } from './styles';
+
+/**
+ * Weekly meal planner: shows the household's planned meals per day and slot,
+ * and adds the ingredients of the week's recipes to the main shopping list.
+ */
+export function MealPlannerScreen() {
+  const { t, i18n } = useTranslation('recipes');
+  const locale = (i18n.resolvedLanguage || i18n.language || 'en').split('-')[0];
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+  const { isAvailable, entries, isLoading, range, refresh, addEntry, removeEntry } =
+    useMealPlan(weekStart);
+  const { recipes } = useRecipes();
+  const shoppingService = useMemo(() => createShoppingService('signed-in'), []);
+
+  const [addingForDate, setAddingForDate] = useState<Date | null>(null);
+  const [isSavingEntry, setIsSavingEntry] = useState(false);
+  const [listPlan, setListPlan] = useState<{ listId: string; lines: CookPlanLine[] } | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [toastMessage, setToastMessage] = useState('');
+  const [toastVisible, setToastVisible] = useState(false);
+
+  const todayKey = toDateKey(new Date());
+  const days = useMemo(() => getWeekDays(weekStart), [weekStart]);
+  const plannableRecipes = useMemo(
+    () => recipes.map((recipe) => ({ id: recipe.id, title: recipe.title })),
+    [recipes]
+  );
+
+  const formatDay = useCallback(
+    (date: Date, format: string) => dayjs(date).locale(locale).format(format),
+    [locale]
+  );
+
+  const showToast = useCallback((message: string) => {
+    setToastMessage(message);
+    setToastVisible(true);
+  }, []);
+
+  const handleAddMeal = useCallback(
+    async (meal: { mealSlot: MealSlot; recipeId?: string; title?: string }) => {
+      if (!addingForDate) return;
+
+      setIsSavingEntry(true);
+      try {
+        await addEntry({ date: toDateKey(addingForDate), ...meal });
+        setAddingForDate(null);
+      } catch (error) {
+        console.error('Failed to plan meal:', error);
+        showToast(t('planner.toasts.saveFailed'));
+      } finally {
+        setIsSavingEntry(false);
+      }
+    },
+    [addingForDate, addEntry, showToast, t]
+  );
+
+  const handleRemoveMeal = useCallback(
+    async (id: string) => {
+      try {
+        await removeEntry(id);
+      } catch (error) {
+        console.error('Failed to remove planned meal:', error);
+        showToast(t('planner.toasts.saveFailed'));
+      }
+    },
+    [removeEntry, showToast, t]
+  );
+
+  const handleGenerateList = useCallback(async () => {
+    setIsGenerating(true);
+    try {
+      const data = await shoppingService.getShoppingData();
+      const mainList = data.shoppingLists.find((list) => list.isMain);
+      if (!mainList) {
+        showToast(t('detail.toasts.noMainList'));
+        return;
+      }
+
+      const preview = await mealPlanApi.previewShoppingList({ ...range, targetListId: mainList.id });
+      setListPlan({ listId: mainList.id, lines: preview.lines });
+    } catch (error) {
+      console.error('Failed to plan shopping list:', error);
+      showToast(t('planner.toasts.generateFailed'));
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [shoppingService, range, showToast, t]);
+
+  const handleConfirmListPlan = useCallback(
+    async (decisions: CookLineDecision[]) => {
+      if (!listPlan) return;
+
+      setIsGenerating(true);
+      try {
+        const result = await mealPlanApi.generateShoppingList(
+          { ...range, targetListId: listPlan.listId },
+          decisions
+        );
+        showToast(t('planner.toasts.listGenerated', {
+          added: result.itemsAdded.length,
+          updated: result.itemsUpdated.length,
+        }));
+        setListPlan(null);
+      } catch (error) {
+        console.error('Failed to generate shopping list:', error);
+        showToast(t('planner.toasts.generateFailed'));
+      } finally {
+        setIsGenerating(false);
+      }
+    },
+    [listPlan, range, showToast, t]
+  );
+
+  const weekLabel = `${formatDay(weekStart, 'MMM D')} – ${formatDay(
+    addDays(weekStart, DAYS_PER_WEEK - 1),
+    'MMM D'
+  )}`;
+  const hasPlannedRecipes = entries.some((entry) => entry.recipeId);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScreenHeader title={t('planner.title')} titleIcon="calendar-outline" leftIcon="none" />
+
+      {!isAvailable ? (
+        <EmptyState
+          icon="calendar-outline"
+          title={t('planner.unavailableTitle')}
+          description={t('planner.unavailableDescription')}
+        />
+      ) : (
+        <>
+          <View style={styles.weekNav}>
+            <TouchableOpacity
+              style={styles.weekNavButton}
+              onPress={() => setWeekStart((current) => addDays(current, -DAYS_PER_WEEK))}
+              accessibilityRole="button"
+              accessibilityLabel={t('planner.previousWeek')}
+            >
+              <Ionicons name="chevron-back" size={22} color={colors.textPrimary} />
+            </TouchableOpacity>
+            <Text style={styles.weekLabel}>{weekLabel}</Text>
+            <TouchableOpacity
+              style={styles.weekNavButton}
+              onPress={() => setWeekStart((current) => addDays(current, DAYS_PER_WEEK))}
+              accessibilityRole="button"
+              accessibilityLabel={t('planner.nextWeek')}
+            >
+              <Ionicons name="chevron-forward" size={22} color={colors.textPrimary} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            contentContainerStyle={styles.content}
+            refreshControl={<RefreshControl refreshing={isLoading} onRefresh={refresh} />}
+          >
+            {days.map((day) => {
+              const dateKey = toDateKey(day);
+              const dayEntries = entries
+                .filter((entry) => entry.date === dateKey)
+                .sort((a, b) => MEAL_SLOTS.indexOf(a.mealSlot) - MEAL_SLOTS.indexOf(b.mealSlot));
+
+              return (
+                <View
+                  key={dateKey}
+                  style={[styles.day, dateKey === todayKey && styles.dayToday]}
+                  testID={`planner-day-${dateKey}`}
+                >
+                  <View style={styles.dayHeader}>
+                    <Text style={styles.dayTitle}>{formatDay(day, 'dddd, MMM D')}</Text>
+                    <TouchableOpacity
+                      onPress={() => setAddingForDate(day)}
+                      accessibilityRole="button"
+                      accessibilityLabel={t('planner.addMeal')}
+                    >
+                      <Ionicons name="add-circle-outline" size={24} color={colors.recipes} />
+                    </TouchableOpacity>
+                  </View>
+
+                  {dayEntries.length === 0 ? (
+                    <Text style={styles.dayEmpty}>{t('planner.nothingPlanned')}</Text>
+                  ) : (
+                    dayEntries.map((entry) => (
+                      <View key={entry.id} style={styles.entry}>
+                        <Text style={styles.entrySlot}>{t(`planner.slots.${entry.mealSlot}`)}</Text>
+                        <Text style={styles.entryTitle} numberOfLines={1}>
+                          {entry.title}
+                        </Text>
+                        <TouchableOpacity
+                          onPress={() => handleRemoveMeal(entry.id)}
+                          accessibilityRole="button"
+                          accessibilityLabel={t('planner.removeMeal', { title: entry.title })}
+                        >
+                          <Ionicons name="close" size={20} color={colors.textMuted} />
+                        </TouchableOpacity>
+                      </View>
+                    ))
+                  )}
+                </View>
+              );
+            })}
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <Button
+              title={t('planner.generateList')}
+              icon="cart-outline"
+              onPress={handleGenerateList}
+              loading={isGenerating && !listPlan}
+              disabled={!hasPlannedRecipes || isGenerating}
+              color={colors.recipes}
+              fullWidth
+              testID="planner-generate-list"
+            />
+          </View>
+        </>
+      )}
+
+      <AddMealModal
+        visible={!!addingForDate}
+        dayLabel={addingForDate ? formatDay(addingForDate, 'dddd, MMM D') : ''}
+        recipes={plannableRecipes}
+        onClose={() => setAddingForDate(null)}
+        onConfirm={handleAddMeal}
+        isSubmitting={isSavingEntry}
+      />
+
+      {listPlan && (
+        <IngredientConflictModal
+          visible
+          lines={listPlan.lines}
+          onClose={() => setListPlan(null)}
+          onConfirm={handleConfirmListPlan}
+          isSubmitting={isGenerating}
+        />
+      )}
+
+      <Toast visible={toastVisible} message={toastMessage} onHide={() => setToastVisible(false)} />
+    </SafeAreaView>
+  );
+}
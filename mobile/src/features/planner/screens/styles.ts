@@ -0,0 +1,74 @@
+import { StyleSheet } from 'react-native';
+import { colors, spacing, borderRadius } from '../../../theme';
+
+export const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  weekNav: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.sm,
+  },
+  weekNavButton: {
+    padding: spacing.xs,
+  },
+  weekLabel: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.textPrimary,
+  },
+  content: {
+    paddingHorizontal: spacing.lg,
+    paddingBottom: 140,
+    gap: spacing.md,
+  },
+  day: {
+    padding: spacing.md,
+    gap: spacing.sm,
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.lg,
+  },
+  dayToday: {
+    borderWidth: 1,
+    borderColor: colors.recipes,
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  dayTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: colors.textPrimary,
+  },
+  dayEmpty: {
+    fontSize: 13,
+    color: colors.textMuted,
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  entrySlot: {
+    width: 80,
+    fontSize: 12,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    color: colors.recipes,
+  },
+  entryTitle: {
+    flex: 1,
+    fontSize: 15,
+    color: colors.textPrimary,
+  },
+  footer: {
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.sm,
+  },
+});
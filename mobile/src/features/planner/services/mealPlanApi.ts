@@ -0,0 +1,90 @@
+import { api } from '../../../services/api';
+import type { CookLineDecision, CookRecipeResponse } from '../../recipes/services/cookApi';
+import type { MealSlot } from '../constants';
+
+export type { MealSlot };
+
+/**
+ * Planned meal as returned by the backend.
+ */
+export interface MealPlanEntry {
+  id: string;
+  /** Calendar date (YYYY-MM-DD) */
+  date: string;
+  mealSlot: MealSlot;
+  recipeId?: string;
+  recipeTitle?: string;
+  /** Free text title, or the recipe title when a recipe is linked */
+  title: string;
+  servings?: number;
+  cookId?: string;
+  cookName?: string;
+}
+
+export interface CreateMealPlanEntryRequest {
+  date: string;
+  mealSlot: MealSlot;
+  recipeId?: string;
+  title?: string;
+  servings?: number;
+  cookId?: string;
+}
+
+export type UpdateMealPlanEntryRequest = Partial<{
+  date: string;
+  mealSlot: MealSlot;
+  recipeId: string | null;
+  title: string | null;
+  servings: number | null;
+  cookId: string | null;
+}>;
+
+export interface GenerateShoppingListRequest {
+  from: string;
+  to: string;
+  targetListId: string;
+}
+
+/**
+ * Meal plan API service.
+ *
+ * Provides typed wrappers around the meal plan endpoints.
+ * All methods require authentication and a household.
+ */
+export const mealPlanApi = {
+  /**
+   * Lists planned meals between two dates (inclusive, YYYY-MM-DD).
+   */
+  getEntries: (from: string, to: string): Promise<MealPlanEntry[]> => {
+    return api.get<MealPlanEntry[]>(`/meal-plans?from=${from}&to=${to}`);
+  },
+
+  createEntry: (data: CreateMealPlanEntryRequest): Promise<MealPlanEntry> => {
+    return api.post<MealPlanEntry>('/meal-plans', data);
+  },
+
+  updateEntry: (id: string, data: UpdateMealPlanEntryRequest): Promise<MealPlanEntry> => {
+    return api.patch<MealPlanEntry>(`/meal-plans/${id}`, data);
+  },
+
+  deleteEntry: (id: string): Promise<{ success: boolean }> => {
+    return api.delete<{ success: boolean }>(`/meal-plans/${id}`);
+  },
+
+  /**
+   * Gets the pantry-aware plan for adding the range's recipes to a list, without changing it.
+   */
+  previewShoppingList: (request: GenerateShoppingListRequest): Promise<CookRecipeResponse> => {
+    return api.post<CookRecipeResponse>('/meal-plans/shopping-list', { ...request, preview: true });
+  },
+
+  /**
+   * Adds the range's recipes to a list. Lines without a decision are applied as planned.
+   */
+  generateShoppingList: (
+    request: GenerateShoppingListRequest,
+    lines: CookLineDecision[] = []
+  ): Promise<CookRecipeResponse> => {
+    return api.post<CookRecipeResponse>('/meal-plans/shopping-list', { ...request, lines });
+  },
+};
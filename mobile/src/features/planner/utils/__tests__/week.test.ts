@@ -0,0 +1,42 @@
+import { addDays, getWeekDays, getWeekStart, toDateKey } from '../week';
+
+describe('week utils', () => {
+  describe('toDateKey', () => {
+    it('formats local calendar days with zero padding', () => {
+      expect(toDateKey(new Date(2050, 0, 5, 23, 30))).toBe('2050-01-05');
+    });
+  });
+
+  describe('getWeekStart', () => {
+    it.each([
+      ['a Sunday', new Date(2050, 1, 20, 18, 0), '2050-02-20'],
+      ['a midweek day', new Date(2050, 1, 23, 9, 0), '2050-02-20'],
+      ['a Saturday', new Date(2050, 1, 26, 7, 0), '2050-02-20'],
+      ['a week across months', new Date(2050, 2, 2, 12, 0), '2050-02-27'],
+    ])('returns the preceding Sunday for %s', (_label, date, expected) => {
+      expect(toDateKey(getWeekStart(date))).toBe(expected);
+    });
+  });
+
+  describe('getWeekDays', () => {
+    it('lists seven consecutive days', () => {
+      const days = getWeekDays(new Date(2050, 1, 27)).map(toDateKey);
+
+      expect(days).toEqual([
+        '2050-02-27',
+        '2050-02-28',
+        '2050-03-01',
+        '2050-03-02',
+        '2050-03-03',
+        '2050-03-04',
+        '2050-03-05',
+      ]);
+    });
+  });
+
+  describe('addDays', () => {
+    it('moves backwards across a year boundary', () => {
+      expect(toDateKey(addDays(new Date(2050, 0, 2), -7))).toBe('2049-12-26');
+    });
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Calendar helpers for the weekly meal planner.
+ * Weeks start on Sunday; all dates are local calendar days.
+ */
+
+export const DAYS_PER_WEEK = 7;
+
+/**
+ * Formats a date as a local calendar day key (YYYY-MM-DD), as used by the meal plan API.
+ */
+export function toDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Returns local midnight of the Sunday starting the week that contains `date`.
+ */
+export function getWeekStart(date: Date): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - start.getDay());
+  return start;
+}
+
+/**
+ * Moves a date by whole days, keeping local midnight across DST changes.
+ */
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Lists the seven days of the week starting at `weekStart`.
+ */
+export function getWeekDays(weekStart: Date): Date[] {
+  return Array.from({ length: DAYS_PER_WEEK }, (_, index) => addDays(weekStart, index));
+}
@@ -8,6 +8,7 @@ import {
   ScrollView,
   TextInput,
   I18nManager,
+  ActivityIndicator,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
@@ -28,6 +29,7 @@ const createEmptyRecipe = (): NewRecipeData => ({
   title: '',
   category: '',
   prepTime: '',
+  servings: '',
   description: '',
   ingredients: [],
   instructions: [{ id: generateId(), instruction: '' }],
@@ -43,6 +45,7 @@ export function AddRecipeModal({
   mode = 'create',
   initialRecipe,
   searchGroceries,
+  importRecipe,
 }: AddRecipeModalProps) {
   const { t, i18n } = useTranslation('recipes');
   const isRtlLayout = i18n.dir() === 'rtl' || I18nManager.isRTL;
@@ -63,6 +66,10 @@ export function AddRecipeModal({
   /** Ingredient ids whose name field has been "committed" (blurred or added from search); names are then read-only. */
   const [committedIngredientIds, setCommittedIngredientIds] = useState<Set<string>>(() => new Set());
 
+  const [importUrl, setImportUrl] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [importStatus, setImportStatus] = useState<'imported' | 'failed' | null>(null);
+
   // Real-time validation states
   const [titleError, setTitleError] = useState<string | null>(null);
   const [titleTouched, setTitleTouched] = useState(false);
@@ -87,6 +94,8 @@ export function AddRecipeModal({
       }
       setSearchQuery('');
       setUnitPickerIngredientId(null);
+      setImportUrl('');
+      setImportStatus(null);
       setTitleError(null);
       setTitleTouched(false);
     }
@@ -162,6 +171,34 @@ export function AddRecipeModal({
     setRemoveImage(true);
   };
 
+  // Fills the form with the recipe parsed from a website; the user reviews it before saving
+  const handleImport = async () => {
+    const url = importUrl.trim();
+    if (!importRecipe || !url || isImporting) return;
+
+    setIsImporting(true);
+    setImportStatus(null);
+    try {
+      const draft = await importRecipe(url);
+      setRecipe({
+        ...draft,
+        category: draft.category || recipe.category,
+        instructions: draft.instructions.length > 0 ? draft.instructions : createEmptyRecipe().instructions,
+      });
+      setImageUri(draft.imageUrl ?? null);
+      setImageIsLocal(false);
+      setRemoveImage(false);
+      setCommittedIngredientIds(new Set());
+      setTitleError(null);
+      setImportStatus('imported');
+    } catch (error) {
+      console.error('Recipe import failed:', error);
+      setImportStatus('failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   // Ingredient handlers
   const handleUpdateIngredient = (
     id: string,
@@ -263,6 +300,49 @@ export function AddRecipeModal({
         showsVerticalScrollIndicator={false}
         keyboardShouldPersistTaps="handled"
       >
+        {/* Import from website */}
+        {mode === 'create' && importRecipe && (
+          <View style={[styles.section, isRtlLayout && styles.modalSectionRtl]}>
+            <View style={isRtlLayout ? styles.rtlTextRow : undefined}>
+              <Text style={[styles.label, isRtlLayout && styles.modalTextRtl]}>{t('form.import.label')}</Text>
+            </View>
+            <View style={[styles.importRow, isRtlLayout && styles.importRowRtl]}>
+              <TextInput
+                style={[styles.input, styles.importInput, isRtlLayout && styles.inputRtl]}
+                placeholder={t('form.import.placeholder')}
+                placeholderTextColor={colors.textMuted}
+                value={importUrl}
+                onChangeText={setImportUrl}
+                onSubmitEditing={handleImport}
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+                editable={!isImporting}
+                testID="recipe-import-url-input"
+              />
+              <TouchableOpacity
+                style={[styles.photoButton, (!importUrl.trim() || isImporting) && styles.importButtonDisabled]}
+                onPress={handleImport}
+                disabled={!importUrl.trim() || isImporting}
+                accessibilityRole="button"
+                testID="recipe-import-button"
+              >
+                {isImporting ? (
+                  <ActivityIndicator size="small" color={colors.textLight} />
+                ) : (
+                  <Text style={styles.photoButtonText}>{t('form.import.button')}</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+            {importStatus === 'imported' && (
+              <Text style={[styles.importHint, isRtlLayout && styles.modalTextRtl]}>{t('form.import.review')}</Text>
+            )}
+            {importStatus === 'failed' && (
+              <Text style={[styles.errorText, isRtlLayout && styles.modalTextRtl]}>{t('form.import.failed')}</Text>
+            )}
+          </View>
+        )}
+
         {/* Recipe Title */}
         <View style={[styles.section, isRtlLayout && styles.modalSectionRtl]}>
           <View style={isRtlLayout ? styles.rtlTextRow : undefined}>
@@ -343,6 +423,24 @@ export function AddRecipeModal({
           />
         </View>
 
+        {/* Servings */}
+        <View style={[styles.section, isRtlLayout && styles.modalSectionRtl]}>
+          <View style={isRtlLayout ? styles.rtlTextRow : undefined}>
+            <Text style={[styles.label, isRtlLayout && styles.modalTextRtl]}>{t('form.servings')}</Text>
+          </View>
+          <TextInput
+            style={[styles.input, isRtlLayout && styles.inputRtl, isRtlLayout && styles.modalTextRtl]}
+            placeholder={t('form.servingsPlaceholder')}
+            placeholderTextColor={colors.textMuted}
+            value={recipe.servings ?? ''}
+            onChangeText={(text) =>
+              setRecipe({ ...recipe, servings: stripToDigitsOnly(text) })
+            }
+            keyboardType="number-pad"
+            testID="recipe-servings-input"
+          />
+        </View>
+
         {/* Description */}
         <View style={[styles.section, isRtlLayout && styles.modalSectionRtl]}>
           <View style={isRtlLayout ? styles.rtlTextRow : undefined}>
@@ -62,6 +62,25 @@ export const styles = StyleSheet.create({
     color: colors.error,
     marginTop: spacing.xs,
   },
+  importRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  importRowRtl: {
+    flexDirection: 'row-reverse',
+  },
+  importInput: {
+    flex: 1,
+  },
+  importButtonDisabled: {
+    opacity: 0.5,
+  },
+  importHint: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
   textArea: {
     minHeight: 70,
     textAlignVertical: 'top',
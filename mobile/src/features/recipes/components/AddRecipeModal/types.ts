@@ -19,6 +19,8 @@ export interface NewRecipeData {
   title: string;
   category: string;
   prepTime: string;
+  /** Number of servings the ingredient amounts yield (digits only). */
+  servings?: string;
   description: string;
   ingredients: Ingredient[];
   instructions: Instruction[];
@@ -37,4 +39,6 @@ export interface AddRecipeModalProps {
   mode?: 'create' | 'edit';
   initialRecipe?: NewRecipeData;
   searchGroceries?: (query: string) => Promise<GroceryItem[]>;
+  /** Parses a recipe from a website into form data; the import field is shown in create mode when set. */
+  importRecipe?: (url: string) => Promise<NewRecipeData>;
 }
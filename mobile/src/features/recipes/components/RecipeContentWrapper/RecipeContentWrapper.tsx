@@ -21,6 +21,8 @@ import { useTranslation } from 'react-i18next';
  * @param onToggleStep - Callback function when a step is toggled
  * @param onAddIngredient - Callback function when an individual ingredient is added
  * @param onAddAllIngredients - Callback function when all ingredients are added
+ * @param servings - Servings the ingredient amounts are scaled to (shows the servings stepper)
+ * @param onChangeServings - Callback function when the servings stepper changes
  *
  * @example
  * ```tsx
@@ -39,6 +41,8 @@ export function RecipeContentWrapper({
   onToggleStep,
   onAddIngredient,
   onAddAllIngredients,
+  servings,
+  onChangeServings,
   renderHeaderOnly = false,
   hideHeaderWhenSticky = false,
   activeTab: controlledActiveTab,
@@ -261,6 +265,8 @@ export function RecipeContentWrapper({
           completedSteps={completedSteps}
           onAddIngredient={onAddIngredient}
           onAddAllIngredients={onAddAllIngredients}
+          servings={servings}
+          onChangeServings={onChangeServings}
           onToggleStep={onToggleStep}
         />
       ) : (
@@ -270,6 +276,8 @@ export function RecipeContentWrapper({
           completedSteps={completedSteps}
           onAddIngredient={onAddIngredient}
           onAddAllIngredients={onAddAllIngredients}
+          servings={servings}
+          onChangeServings={onChangeServings}
           onToggleStep={onToggleStep}
         />
       )}
@@ -285,6 +293,8 @@ function TabletRecipeContent({
   completedSteps,
   onAddIngredient,
   onAddAllIngredients,
+  servings,
+  onChangeServings,
   onToggleStep
 }: {
   scrollViewHeight?: number;
@@ -292,6 +302,8 @@ function TabletRecipeContent({
   completedSteps: Set<string>;
   onAddIngredient?: (ingredient: any) => void;
   onAddAllIngredients?: () => void;
+  servings?: number;
+  onChangeServings?: (servings: number) => void;
   onToggleStep: (id: string) => void;
 }) {
   return (
@@ -312,6 +324,8 @@ function TabletRecipeContent({
             recipe={recipe}
             onAddIngredient={onAddIngredient}
             onAddAllIngredients={onAddAllIngredients}
+            servings={servings}
+            onChangeServings={onChangeServings}
           />
         </ScrollView>
       </View>
@@ -345,6 +359,8 @@ function MobileRecipeContent({
   completedSteps,
   onAddIngredient,
   onAddAllIngredients,
+  servings,
+  onChangeServings,
   onToggleStep
 }: {
   activeTab: 'ingredients' | 'steps';
@@ -352,6 +368,8 @@ function MobileRecipeContent({
   completedSteps: Set<string>;
   onAddIngredient?: (ingredient: any) => void;
   onAddAllIngredients?: () => void;
+  servings?: number;
+  onChangeServings?: (servings: number) => void;
   onToggleStep: (id: string) => void;
 }) {
   return (
@@ -362,6 +380,8 @@ function MobileRecipeContent({
             recipe={recipe}
             onAddIngredient={onAddIngredient}
             onAddAllIngredients={onAddAllIngredients}
+            servings={servings}
+            onChangeServings={onChangeServings}
           />
         </View>
       ) : (
@@ -6,6 +6,8 @@ export interface RecipeContentWrapperProps {
   onToggleStep: (stepId: string) => void;
   onAddIngredient: (ingredient: Ingredient) => void;
   onAddAllIngredients: () => void;
+  servings?: number;
+  onChangeServings?: (servings: number) => void;
   renderHeaderOnly?: boolean;
   hideHeaderWhenSticky?: boolean;
   activeTab?: 'ingredients' | 'steps';
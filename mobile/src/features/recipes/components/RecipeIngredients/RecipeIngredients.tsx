@@ -8,6 +8,7 @@ import { GroceryCardContent, IngredientInfo } from '../../../../common/component
 import type { RecipeIngredientsProps } from './types';
 import { useTranslation } from 'react-i18next';
 import { getUnitLabel } from '../../constants';
+import { ServingsStepper } from '../ServingsStepper';
 
 /**
  * RecipeIngredients component displays the ingredients list for a recipe.
@@ -17,6 +18,8 @@ import { getUnitLabel } from '../../constants';
  * @param recipe - The recipe object containing ingredients to display
  * @param onAddIngredient - Callback function when an individual ingredient is added
  * @param onAddAllIngredients - Callback function when all ingredients are added
+ * @param servings - Servings the ingredient amounts are scaled to (shows the servings stepper)
+ * @param onChangeServings - Callback function when the servings stepper changes
  *
  * @example
  * ```tsx
@@ -31,6 +34,8 @@ export function RecipeIngredients({
   recipe,
   onAddIngredient,
   onAddAllIngredients,
+  servings,
+  onChangeServings,
 }: RecipeIngredientsProps) {
   const { t, i18n } = useTranslation('recipes');
   const isRtlLayout = i18n.dir() === 'rtl' || I18nManager.isRTL;
@@ -40,7 +45,15 @@ export function RecipeIngredients({
       {/* Ingredients Section */}
       {onAddIngredient && (
         <View style={styles.ingredientsSection}>
-          <View style={styles.ingredientsSectionHeader}>
+          <View
+            style={[
+              styles.ingredientsSectionHeader,
+              servings !== undefined && onChangeServings && styles.ingredientsSectionHeaderWithServings,
+            ]}
+          >
+            {servings !== undefined && onChangeServings && (
+              <ServingsStepper servings={servings} onChange={onChangeServings} />
+            )}
             {onAddAllIngredients && (
               <TouchableOpacity
                 style={styles.addAllButton}
@@ -15,6 +15,9 @@ export const styles = StyleSheet.create({
     justifyContent: 'flex-end',
     paddingHorizontal: spacing.xs,
   },
+  ingredientsSectionHeaderWithServings: {
+    justifyContent: 'space-between',
+  },
   ingredientsList: {
     gap: spacing.md,
     paddingHorizontal: spacing.sm, // Prevents shadow clipping (8px breathing room)
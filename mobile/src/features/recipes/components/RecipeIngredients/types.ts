@@ -4,4 +4,7 @@ export interface RecipeIngredientsProps {
   recipe: Recipe;
   onAddIngredient?: (ingredient: Ingredient) => void;
   onAddAllIngredients?: () => void;
+  /** Servings the displayed amounts are scaled to; the stepper shows only when set */
+  servings?: number;
+  onChangeServings?: (servings: number) => void;
 }
@@ -0,0 +1,51 @@
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { colors } from '../../../../theme/colors';
+import { MAX_RECIPE_SERVINGS } from '../../utils/recipeScaling';
+import { styles } from './styles';
+import type { ServingsStepperProps } from './types';
+
+/**
+ * ServingsStepper lets the user pick how many servings to cook; the recipe's
+ * ingredient amounts are scaled to match.
+ */
+export function ServingsStepper({
+  servings,
+  onChange,
+  min = 1,
+  max = MAX_RECIPE_SERVINGS,
+}: ServingsStepperProps) {
+  const { t } = useTranslation('recipes');
+  const canDecrease = servings > min;
+  const canIncrease = servings < max;
+
+  return (
+    <View style={styles.container} accessibilityRole="adjustable">
+      <TouchableOpacity
+        style={[styles.button, !canDecrease && styles.buttonDisabled]}
+        onPress={() => onChange(servings - 1)}
+        disabled={!canDecrease}
+        accessibilityRole="button"
+        accessibilityLabel={t('detail.servings.decrease')}
+        testID="servings-decrease"
+      >
+        <Ionicons name="remove" size={14} color={colors.recipes} />
+      </TouchableOpacity>
+      <Text style={styles.label} testID="servings-value">
+        {t('detail.servings.label', { count: servings })}
+      </Text>
+      <TouchableOpacity
+        style={[styles.button, !canIncrease && styles.buttonDisabled]}
+        onPress={() => onChange(servings + 1)}
+        disabled={!canIncrease}
+        accessibilityRole="button"
+        accessibilityLabel={t('detail.servings.increase')}
+        testID="servings-increase"
+      >
+        <Ionicons name="add" size={14} color={colors.recipes} />
+      </TouchableOpacity>
+    </View>
+  );
+}
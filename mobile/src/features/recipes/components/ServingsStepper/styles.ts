@@ -0,0 +1,33 @@
+import { StyleSheet } from 'react-native';
+import { colors, withOpacity } from '../../../../theme/colors';
+import { spacing, borderRadius } from '../../../../theme/spacing';
+
+export const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.xs,
+    paddingVertical: spacing.xs,
+    backgroundColor: withOpacity(colors.recipes, 0.1),
+    borderRadius: borderRadius.full,
+  },
+  button: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.surface,
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  label: {
+    minWidth: 72,
+    textAlign: 'center',
+    fontSize: 12,
+    fontWeight: '700',
+    color: colors.recipes,
+  },
+});
@@ -0,0 +1,6 @@
+export interface ServingsStepperProps {
+  servings: number;
+  onChange: (servings: number) => void;
+  min?: number;
+  max?: number;
+}
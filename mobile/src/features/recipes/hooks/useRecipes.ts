@@ -165,6 +165,18 @@ export function useRecipes() {
         await repository.delete(recipeId);
     };
 
+    const restoreRecipe = async (recipe: Recipe): Promise<void> => {
+        if (!repository) {
+            // Guest mode: restore recipe and put it back in local state
+            await service.restoreRecipe(recipe.id);
+            setGuestRecipes(prev => [...prev, { ...recipe, deletedAt: undefined }]);
+            return;
+        }
+
+        // Signed-in mode: use repository (cache events will trigger UI update)
+        await repository.restore(recipe.id);
+    };
+
     const getRecipeById = useCallback(async (recipeId: string): Promise<Recipe | null> => {
         if (!repository) {
             // Guest mode: find in guest recipes
@@ -211,6 +223,7 @@ export function useRecipes() {
         addRecipe,
         updateRecipe,
         deleteRecipe,
+        restoreRecipe,
         getRecipeById,
         refresh,
     };
@@ -31,6 +31,7 @@ import {
   calculateShouldShowStickyHeader,
 } from './RecipeDetailScreen.utils';
 import { addQuantities, normalizeToStandardUnit } from '../utils/unitConversion';
+import { getServingsFactor, scaleIngredients } from '../utils/recipeScaling';
 import { useRecipes } from '../hooks/useRecipes';
 import { useAuth } from '../../../contexts/AuthContext';
 import { createShoppingService } from '../../shopping/services/shoppingService';
@@ -41,6 +42,7 @@ import { AddRecipeModal, NewRecipeData } from '../components/AddRecipeModal';
 import { mapFormDataToRecipeUpdates, mapRecipeToFormData } from '../utils/recipeFactory';
 import { useTranslation } from 'react-i18next';
 import { useCatalog } from '../../../common/hooks/useCatalog';
+import { cookApi, type CookLineDecision, type CookPlanLine } from '../services/cookApi';
 
 
 export function RecipeDetailScreen({
@@ -66,8 +68,12 @@ export function RecipeDetailScreen({
   const [conflictModalVisible, setConflictModalVisible] = useState(false);
   const [conflictingIngredient, setConflictingIngredient] = useState<Ingredient | null>(null);
   const [existingItem, setExistingItem] = useState<ShoppingItem | null>(null);
+  const [cookPlan, setCookPlan] = useState<{ listId: string; listName: string; lines: CookPlanLine[] } | null>(null);
+  const [isApplyingCookPlan, setIsApplyingCookPlan] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [isSavingEdit, setIsSavingEdit] = useState(false);
+  // Servings picked with the stepper; null means the recipe's own servings
+  const [targetServings, setTargetServings] = useState<number | null>(null);
 
   const shouldUseMockData = config.mockData.enabled || !user || user?.isGuest === true;
   const shoppingService = useMemo(
@@ -86,6 +92,7 @@ export function RecipeDetailScreen({
       // Recipe ID changed, reset state
       setFullRecipe(null);
       setIsLoadingDetails(false);
+      setTargetServings(null);
       fetchingRef.current = null;
     }
   }, [recipe.id]);
@@ -133,6 +140,17 @@ export function RecipeDetailScreen({
   // Use fullRecipe if available, otherwise fall back to recipe prop
   const displayRecipe = fullRecipe || recipe;
 
+  // Ingredients scaled to the selected servings; cooking sends the servings so the server scales the same way
+  const servings = targetServings ?? displayRecipe.servings;
+  const servingsFactor = getServingsFactor(displayRecipe.servings, servings ?? 0);
+  const cookServings = servingsFactor !== 1 ? servings : undefined;
+  const scaledRecipe = useMemo(
+    () => servingsFactor === 1
+      ? displayRecipe
+      : { ...displayRecipe, ingredients: scaleIngredients(displayRecipe.ingredients || [], servingsFactor) },
+    [displayRecipe, servingsFactor]
+  );
+
   // Track scroll position and header height for sticky header
   const [scrollY, setScrollY] = useState(0);
   const [headerHeight, setHeaderHeight] = useState(0);
@@ -385,7 +403,7 @@ export function RecipeDetailScreen({
   }, [conflictingIngredient, existingItem, shoppingService, showToast, getIngredientAmount, getIngredientUnit]);
 
   const handleAddAllIngredients = useCallback(async () => {
-    const ingredients = displayRecipe.ingredients || [];
+    const ingredients = scaledRecipe.ingredients || [];
     if (ingredients.length === 0) {
       showToast(t('detail.toasts.noIngredients'));
       return;
@@ -400,6 +418,16 @@ export function RecipeDetailScreen({
         return;
       }
 
+      // Signed-in users get a pantry-aware plan from the server to confirm line by line
+      if (!shouldUseMockData) {
+        const preview = await cookApi.previewCook(displayRecipe.id, {
+          targetListId: mainList.id,
+          servings: cookServings,
+        });
+        setCookPlan({ listId: mainList.id, listName: mainList.name, lines: preview.lines });
+        return;
+      }
+
       // Process each ingredient
       for (const ingredient of ingredients) {
         const normalizedName = ingredient.name.trim().toLowerCase();
@@ -451,7 +479,31 @@ export function RecipeDetailScreen({
       console.error('Failed to add all ingredients:', error);
       showToast(t('detail.toasts.addIngredientsFailed'));
     }
-  }, [shoppingService, displayRecipe.ingredients, showToast, getIngredientAmount, getIngredientUnit]);
+  }, [shoppingService, shouldUseMockData, displayRecipe.id, scaledRecipe.ingredients, cookServings, showToast, getIngredientAmount, getIngredientUnit]);
+
+  const handleConfirmCookPlan = useCallback(async (decisions: CookLineDecision[]) => {
+    if (!cookPlan) return;
+
+    try {
+      setIsApplyingCookPlan(true);
+      const result = await cookApi.cook(
+        displayRecipe.id,
+        { targetListId: cookPlan.listId, servings: cookServings },
+        decisions
+      );
+      showToast(t('detail.toasts.cookPlanApplied', {
+        added: result.itemsAdded.length,
+        updated: result.itemsUpdated.length,
+        listName: cookPlan.listName,
+      }));
+      setCookPlan(null);
+    } catch (error) {
+      console.error('Failed to apply cook plan:', error);
+      showToast(t('detail.toasts.addIngredientsFailed'));
+    } finally {
+      setIsApplyingCookPlan(false);
+    }
+  }, [cookPlan, displayRecipe.id, cookServings, showToast]);
 
   // Handle scroll position tracking
   const handleScroll = useCallback((event: NativeSyntheticEvent<NativeScrollEvent>) => {
@@ -517,7 +569,9 @@ export function RecipeDetailScreen({
           ]}
         >
           <RecipeContentWrapper
-            recipe={displayRecipe}
+            recipe={scaledRecipe}
+            servings={displayRecipe.servings ? servings : undefined}
+            onChangeServings={setTargetServings}
             completedSteps={completedSteps}
             onToggleStep={handleToggleStep}
             onAddIngredient={handleAddIngredient}
@@ -554,7 +608,9 @@ export function RecipeDetailScreen({
           </View>
         ) : (
           <RecipeContentWrapper
-            recipe={displayRecipe}
+            recipe={scaledRecipe}
+            servings={displayRecipe.servings ? servings : undefined}
+            onChangeServings={setTargetServings}
             completedSteps={completedSteps}
             onToggleStep={handleToggleStep}
             onAddIngredient={handleAddIngredient}
@@ -591,6 +647,17 @@ export function RecipeDetailScreen({
         />
       )}
 
+      {/* Cook Plan Review (signed-in "add all") */}
+      {cookPlan && (
+        <IngredientConflictModal
+          visible={true}
+          lines={cookPlan.lines}
+          onClose={() => setCookPlan(null)}
+          onConfirm={handleConfirmCookPlan}
+          isSubmitting={isApplyingCookPlan}
+        />
+      )}
+
       {/* Share Modal */}
       <ShareModal
         visible={showShareModal}
@@ -31,7 +31,8 @@ import { createRecipe, mapFormDataToRecipeUpdates, mapRecipeToFormData } from '.
 import { useRecipes } from '../hooks/useRecipes';
 import { useAuth } from '../../../contexts/AuthContext';
 import { useCatalog } from '../../../common/hooks/useCatalog';
-import { Toast } from '../../../common/components/Toast';
+import { recipeImportApi } from '../services/recipeImportApi';
+import { Toast, UNDO_TOAST_DURATION } from '../../../common/components/Toast';
 import { SwipeableWrapper } from '../../../common/components/SwipeableWrapper';
 import { ConfirmationModal } from '../../../common/components/ConfirmationModal';
 import { logger } from '../../../common/utils/logger';
@@ -55,9 +56,10 @@ const CARD_SKELETON_STYLE: ViewStyle = { marginBottom: spacing.lg };
 
 export function RecipesScreen({ onSelectRecipe }: RecipesScreenProps) {
   const { t } = useTranslation('recipes');
+  const { t: tCommon } = useTranslation('common');
   const { width, isTablet } = useResponsive();
   const { user } = useAuth();
-  const { recipes, isLoading, addRecipe, updateRecipe, deleteRecipe, refresh, getRecipeById } = useRecipes();
+  const { recipes, isLoading, addRecipe, updateRecipe, deleteRecipe, restoreRecipe, refresh, getRecipeById } = useRecipes();
   const { groceryItems, searchGroceries } = useCatalog(); // Use catalog hook for grocery items and search
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('All');
@@ -75,6 +77,8 @@ export function RecipesScreen({ onSelectRecipe }: RecipesScreenProps) {
   const [showDeleteConfirmationModal, setShowDeleteConfirmationModal] = useState(false);
   const [isDeletingRecipe, setIsDeletingRecipe] = useState(false);
   const [deleteErrorMessage, setDeleteErrorMessage] = useState<string | undefined>();
+  // Last deleted recipe, offered back through the toast's "Undo"
+  const [undoRecipe, setUndoRecipe] = useState<Recipe | null>(null);
 
   const showToast = (message: string, type: 'error' | 'success' | 'info' = 'error') => {
     setToastMessage(message);
@@ -82,6 +86,13 @@ export function RecipesScreen({ onSelectRecipe }: RecipesScreenProps) {
     setToastVisible(true);
   };
 
+  // Importing parses on the server, so it needs a signed-in household
+  const canImportRecipes = !config.mockData.enabled && !!user && !user.isGuest;
+  const importRecipe = useCallback(
+    async (url: string) => mapRecipeToFormData(await recipeImportApi.importFromUrl(url)),
+    []
+  );
+
   const [showCategoryFilter, setShowCategoryFilter] = useState(true);
 
   useEffect(() => {
@@ -280,6 +291,7 @@ export function RecipesScreen({ onSelectRecipe }: RecipesScreenProps) {
       await deleteRecipe(recipePendingDeletion.id);
       setShowDeleteConfirmationModal(false);
       setRecipePendingDeletion(null);
+      setUndoRecipe(recipePendingDeletion);
       showToast(t('screen.deleteSuccess'), 'success');
     } catch (error) {
       const message = error instanceof Error ? error.message : t('screen.deleteFailed');
@@ -290,6 +302,21 @@ export function RecipesScreen({ onSelectRecipe }: RecipesScreenProps) {
     }
   };
 
+  const handleUndoDeleteRecipe = async () => {
+    const recipe = undoRecipe;
+    if (!recipe) {
+      return;
+    }
+    setUndoRecipe(null);
+
+    try {
+      await restoreRecipe(recipe);
+    } catch (error) {
+      console.error('Failed to restore recipe:', error);
+      showToast(t('screen.restoreFailed'), 'error');
+    }
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <ScreenHeader
@@ -447,6 +474,7 @@ export function RecipesScreen({ onSelectRecipe }: RecipesScreenProps) {
         categories={RECIPE_CATEGORIES}
         groceryItems={groceryItems}
         searchGroceries={searchGroceries}
+        importRecipe={canImportRecipes ? importRecipe : undefined}
       />
 
       {/* Edit Recipe Modal */}
@@ -469,7 +497,16 @@ export function RecipesScreen({ onSelectRecipe }: RecipesScreenProps) {
         visible={toastVisible}
         message={toastMessage}
         type={toastType}
-        onHide={() => setToastVisible(false)}
+        duration={undoRecipe ? UNDO_TOAST_DURATION : undefined}
+        action={
+          undoRecipe
+            ? { label: tCommon('buttons.undo'), onPress: handleUndoDeleteRecipe }
+            : undefined
+        }
+        onHide={() => {
+          setToastVisible(false);
+          setUndoRecipe(null);
+        }}
       />
 
       <ConfirmationModal
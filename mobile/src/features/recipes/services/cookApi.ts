@@ -0,0 +1,88 @@
+import { api } from '../../../services/api';
+
+/**
+ * What cooking does with one ingredient line on the target list.
+ */
+export type CookLineAction = 'add' | 'merge' | 'replace' | 'skip';
+
+export interface CookListItem {
+  id: string;
+  name: string;
+  quantity: number;
+  unit?: string;
+}
+
+/**
+ * Planned outcome for one recipe ingredient, as returned by the cook endpoint.
+ * Amounts are in the ingredient's unit; `resultingQuantity` is in the existing item's unit.
+ */
+export interface CookPlanLine {
+  index: number;
+  name: string;
+  catalogItemId?: string;
+  unit?: string;
+  required: number;
+  inPantry: number;
+  quantity: number;
+  action: CookLineAction;
+  existingItem?: CookListItem;
+  resultingQuantity?: number;
+}
+
+/**
+ * User decision for one line of a cook preview.
+ */
+export interface CookLineDecision {
+  index: number;
+  action: CookLineAction;
+  quantity?: number;
+}
+
+export interface CookRecipeResponse {
+  preview: boolean;
+  servingsMultiplier: number;
+  lines: CookPlanLine[];
+  itemsAdded: CookListItem[];
+  itemsUpdated: CookListItem[];
+}
+
+export interface CookRecipeOptions {
+  targetListId: string;
+  servingsMultiplier?: number;
+  /** Target servings; the backend scales from the recipe's servings. */
+  servings?: number;
+}
+
+/**
+ * Recipe cook API service.
+ *
+ * Cooking subtracts pantry stock, merges into matching list items and adds
+ * what is still missing. Call `previewCook` first so the user can confirm
+ * each line, then `cook` with their decisions.
+ * All methods require authentication and a household.
+ */
+export const cookApi = {
+  /**
+   * Gets the cook plan for a recipe without changing the list.
+   */
+  previewCook: (recipeId: string, options: CookRecipeOptions): Promise<CookRecipeResponse> => {
+    return api.post<CookRecipeResponse>(`/recipes/${recipeId}/cook`, {
+      ...options,
+      preview: true,
+    });
+  },
+
+  /**
+   * Applies the cook plan. Lines without a decision are applied as planned.
+   */
+  cook: (
+    recipeId: string,
+    options: CookRecipeOptions,
+    lines: CookLineDecision[] = []
+  ): Promise<CookRecipeResponse> => {
+    return api.post<CookRecipeResponse>(`/recipes/${recipeId}/cook`, {
+      ...options,
+      lines,
+    });
+  },
+};
@@ -0,0 +1,31 @@
+import { api } from '../../../services/api';
+import type { Ingredient, Instruction } from '../../../mocks/recipes';
+
+/**
+ * Recipe draft parsed by the backend from a web page's schema.org Recipe data.
+ */
+export interface ImportedRecipe {
+  title: string;
+  description?: string;
+  prepTime?: number;
+  servings?: number;
+  imageUrl?: string;
+  sourceUrl?: string;
+  ingredients: Ingredient[];
+  instructions: Instruction[];
+}
+
+/**
+ * Recipe import API service.
+ *
+ * Imports only parse; the draft is reviewed in the recipe form and saved like
+ * any new recipe. Requires authentication and a household.
+ */
+export const recipeImportApi = {
+  /**
+   * Fetches the page and parses its recipe.
+   */
+  importFromUrl: (url: string): Promise<ImportedRecipe> => {
+    return api.post<ImportedRecipe>('/recipes/import', { url });
+  },
+};
@@ -170,6 +170,26 @@ describe('Recipe Services', () => {
             }));
         });
 
+        it('restoreRecipe clears the tombstone and persists to guestStorage', async () => {
+            const deletedRecipe = {
+                id: 'local-1',
+                localId: 'uuid-1',
+                title: 'Recipe to Restore',
+                prepTime: 30,
+                category: 'Dinner',
+                ingredients: [],
+                instructions: [],
+                deletedAt: new Date(),
+            };
+            (guestStorage.getRecipes as jest.Mock).mockResolvedValue([deletedRecipe]);
+
+            await service.restoreRecipe('local-1');
+
+            const savedRecipes = (guestStorage.saveRecipes as jest.Mock).mock.calls[0][0];
+            expect(savedRecipes[0]).toEqual(expect.objectContaining({ id: 'local-1' }));
+            expect(savedRecipes[0].deletedAt).toBeUndefined();
+        });
+
         it('should handle concurrent recipe creation', async () => {
             (guestStorage.getRecipes as jest.Mock).mockResolvedValue([]);
             (guestStorage.saveRecipes as jest.Mock).mockResolvedValue(undefined);
@@ -483,5 +503,13 @@ describe('Recipe Services', () => {
 
             expect(api.delete).toHaveBeenCalledWith(`/recipes/${recipeId}`);
         });
+
+        it('restoreRecipe calls the restore endpoint', async () => {
+            (api.post as jest.Mock).mockResolvedValue({ success: true });
+
+            await service.restoreRecipe('remote-1');
+
+            expect(api.post).toHaveBeenCalledWith('/recipes/remote-1/restore', {});
+        });
     });
 });
@@ -24,6 +24,7 @@ type RecipeDetailDto = {
     description?: string;
     category?: string;
     prepTime?: number;
+    servings?: number;
     ingredients: Array<{
         name: string;
         catalogItemId?: string;
@@ -53,6 +54,7 @@ type RecipeListItemDto = {
     description?: string;
     category?: string;
     prepTime?: number;
+    servings?: number;
     hasImage?: boolean;
     imageUrl?: string;
     thumbUrl?: string | null;
@@ -118,6 +120,7 @@ function mapDetailDtoToRecipe(dto: RecipeDetailDto): RecipeApiResponse {
         description: dto.description,
         prepTime: dto.prepTime,
         cookTime: dto.prepTime,
+        servings: dto.servings,
         category: normalizeRecipeCategory(dto.category),
         ingredients: ingredients,
         instructions: instructions,
@@ -140,6 +143,8 @@ export interface IRecipeService {
     createRecipe(recipe: Partial<Recipe>): Promise<Recipe>;
     updateRecipe(recipeId: string, updates: Partial<Recipe>): Promise<Recipe>;
     deleteRecipe(recipeId: string): Promise<void>;
+    /** Brings back a deleted recipe, e.g. when the user taps "Undo". */
+    restoreRecipe(recipeId: string): Promise<void>;
 }
 
 // Constants for retry logic
@@ -362,6 +367,19 @@ export class LocalRecipeService implements IRecipeService {
         // This should never be reached, but TypeScript needs it
         throw new Error('Failed to delete recipe: unexpected error');
     }
+
+    async restoreRecipe(recipeId: string): Promise<void> {
+        const existingRecipes = await guestStorage.getRecipes();
+        const recipeIndex = existingRecipes.findIndex(r => r.id === recipeId || r.localId === recipeId);
+
+        if (recipeIndex === -1) {
+            throw new Error(`Recipe not found: ${recipeId}`);
+        }
+
+        const updatedRecipes = [...existingRecipes];
+        updatedRecipes[recipeIndex] = withUpdatedAt({ ...existingRecipes[recipeIndex], deletedAt: undefined });
+        await guestStorage.saveRecipes(updatedRecipes);
+    }
 }
 
 /**
@@ -406,6 +424,7 @@ export class RemoteRecipeService implements IRecipeService {
                 instructions: [],
                 prepTime: item.prepTime,
                 cookTime: item.prepTime,
+                servings: item.servings,
                 category: normalizeRecipeCategory(item.category),
             };
             return recipe;
@@ -511,6 +530,7 @@ export class RemoteRecipeService implements IRecipeService {
         description?: string;
         category?: string;
         prepTime?: number;
+        servings?: number;
         ingredients: Array<{
             name: string;
             catalogItemId?: string;
@@ -557,6 +577,7 @@ export class RemoteRecipeService implements IRecipeService {
             description: recipe.description?.trim() || undefined,
             category: normalizeRecipeCategory(recipe.category),
             prepTime,
+            servings: recipe.servings,
             ingredients,
             instructions,
             imageUrl: recipe.imageUrl ?? undefined,
@@ -571,6 +592,7 @@ export class RemoteRecipeService implements IRecipeService {
         description?: string;
         category?: string;
         prepTime?: number;
+        servings?: number | null;
         ingredients?: Array<{
             name: string;
             catalogItemId?: string;
@@ -587,6 +609,7 @@ export class RemoteRecipeService implements IRecipeService {
             description?: string;
             category?: string;
             prepTime?: number;
+            servings?: number | null;
             ingredients?: Array<{
                 name: string;
                 catalogItemId?: string;
@@ -611,6 +634,9 @@ export class RemoteRecipeService implements IRecipeService {
         if (recipe.prepTime !== undefined) {
             dto.prepTime = recipe.prepTime;
         }
+        if ('servings' in recipe) {
+            dto.servings = recipe.servings ?? null;
+        }
         if (recipe.ingredients !== undefined) {
             dto.ingredients = (recipe.ingredients || []).map((ing: Ingredient) => {
                 const normalizedQuantity =
@@ -797,6 +823,17 @@ export class RemoteRecipeService implements IRecipeService {
         const updatedCache = current.map(r => r.id === recipeId ? withTimestamps : r);
         await setCached('recipes', updatedCache, (r) => r.id);
     }
+
+    async restoreRecipe(recipeId: string): Promise<void> {
+        await api.post<{ success: boolean }>(`/recipes/${recipeId}/restore`, {});
+
+        // Write-through cache update: clear the tombstone left by deleteRecipe
+        const current = await readCachedEntitiesForUpdate<Recipe>('recipes');
+        const updatedCache = current.map(r =>
+            r.id === recipeId ? withUpdatedAt({ ...r, deletedAt: undefined }) : r
+        );
+        await setCached('recipes', updatedCache, (r) => r.id);
+    }
 }
 
 /**
@@ -82,6 +82,23 @@ describe('recipeFactory', () => {
                 expect(updates.description).toBe(expectedDescription);
             });
         });
+
+        it.each([
+            ['4', 4],
+            ['2.6', 3],
+            ['0', undefined],
+            ['', undefined],
+        ])('maps servings %p to %p', (inputServings, expectedServings) => {
+            const updates = mapFormDataToRecipeUpdates({
+                title: 'Title',
+                category: 'Dinner',
+                prepTime: '15',
+                servings: inputServings,
+                ingredients: [],
+                instructions: [],
+            });
+            expect(updates.servings).toBe(expectedServings);
+        });
     });
 
     describe('mapRecipeToFormData', () => {
@@ -111,5 +128,33 @@ describe('recipeFactory', () => {
             const formData = mapRecipeToFormData(recipe as ReturnType<typeof createRecipe>);
             expect(formData.description).toBe('');
         });
+
+        it('fills the form from an imported draft', () => {
+            const formData = mapRecipeToFormData({
+                title: 'Easy Shakshuka',
+                prepTime: 15,
+                servings: 4,
+                imageUrl: 'https://example.com/shakshuka.jpg',
+                ingredients: [
+                    { name: 'olive oil', quantityAmount: 2, quantityUnit: 'tbsp', quantityUnitType: 'volume' },
+                    { name: 'onion, diced', quantityAmount: 1, catalogItemId: 'cat-onion' },
+                ],
+                instructions: [{ step: 1, instruction: 'Heat the oil.' }],
+            });
+
+            expect(formData).toEqual(expect.objectContaining({
+                title: 'Easy Shakshuka',
+                category: '',
+                prepTime: '15',
+                servings: '4',
+                imageUrl: 'https://example.com/shakshuka.jpg',
+            }));
+            expect(formData.ingredients[0]).toEqual(expect.objectContaining({
+                name: 'olive oil',
+                quantityAmount: '2',
+                quantityUnit: 'tbsp',
+            }));
+            expect(formData.ingredients[1].catalogItemId).toBe('cat-onion');
+        });
     });
 });
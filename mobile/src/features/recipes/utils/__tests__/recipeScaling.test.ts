@@ -0,0 +1,44 @@
+import { getServingsFactor, scaleIngredients } from '../recipeScaling';
+
+describe('recipeScaling', () => {
+    describe('getServingsFactor', () => {
+        it('should divide the target servings by the recipe servings', () => {
+            expect(getServingsFactor(4, 6)).toBe(1.5);
+        });
+
+        it('should not scale recipes without servings', () => {
+            expect(getServingsFactor(undefined, 6)).toBe(1);
+        });
+    });
+
+    describe('scaleIngredients', () => {
+        it('should scale amounts and re-normalize units', () => {
+            const [oil, eggs] = scaleIngredients(
+                [
+                    { name: 'Oil', quantityAmount: 8, quantityUnit: 'tbsp', quantityUnitType: 'volume' },
+                    { name: 'Eggs', quantity: 2, unit: 'piece' },
+                ],
+                2
+            );
+
+            expect(oil).toEqual(
+                expect.objectContaining({ quantityAmount: 1, quantityUnit: 'cup', quantityUnitType: 'volume' })
+            );
+            expect(eggs).toEqual(
+                expect.objectContaining({ quantityAmount: 4, quantityUnit: 'piece', quantity: undefined })
+            );
+        });
+
+        it('should leave ingredients without an amount untouched', () => {
+            const salt = { name: 'Salt' };
+
+            expect(scaleIngredients([salt], 3)).toEqual([salt]);
+        });
+
+        it('should return the same list for a factor of 1', () => {
+            const ingredients = [{ name: 'Oil', quantityAmount: 1, quantityUnit: 'tbsp' }];
+
+            expect(scaleIngredients(ingredients, 1)).toBe(ingredients);
+        });
+    });
+});
@@ -0,0 +1,42 @@
+import { normalizeToStandardUnit, scaleQuantity } from '../unitConversion';
+
+describe('unitConversion', () => {
+    describe('normalizeToStandardUnit', () => {
+        it.each([
+            ['tablespoons up to a cup', 16, 'tbsp', 1, 'cup'],
+            ['teaspoons up to a tablespoon', 3, 'tsp', 1, 'tbsp'],
+            ['grams up to kilograms', 1500, 'g', 1.5, 'kg'],
+            ['liters down to milliliters', 0.25, 'l', 250, 'ml'],
+        ])('should move %s', (_label, amount, unit, quantity, expectedUnit) => {
+            const result = normalizeToStandardUnit(amount, unit);
+
+            expect(result.quantity).toBeCloseTo(quantity, 2);
+            expect(result.unit).toBe(expectedUnit);
+        });
+
+        it('should keep amounts that already read well', () => {
+            expect(normalizeToStandardUnit(500, 'g')).toEqual({ quantity: 500, unit: 'g' });
+            expect(normalizeToStandardUnit(2, 'cup')).toEqual({ quantity: 2, unit: 'cup' });
+        });
+
+        it('should leave count and unknown units unchanged', () => {
+            expect(normalizeToStandardUnit(3, 'clove')).toEqual({ quantity: 3, unit: 'clove' });
+            expect(normalizeToStandardUnit(2, '')).toEqual({ quantity: 2, unit: '' });
+        });
+    });
+
+    describe('scaleQuantity', () => {
+        it('should multiply and re-normalize the unit', () => {
+            expect(scaleQuantity(8, 'tbsp', 2)).toEqual({ quantity: 1, unit: 'cup' });
+            expect(scaleQuantity(1, 'cup', 0.5)).toEqual({ quantity: 8, unit: 'tbsp' });
+        });
+
+        it('should round to two decimals', () => {
+            expect(scaleQuantity(1, 'piece', 1 / 3)).toEqual({ quantity: 0.33, unit: 'piece' });
+        });
+
+        it('should keep the quantity as written for a factor of 1', () => {
+            expect(scaleQuantity(16, 'tbsp', 1)).toEqual({ quantity: 16, unit: 'tbsp' });
+        });
+    });
+});
@@ -20,6 +20,12 @@ const parseNumber = (value: unknown): number | undefined => {
     return Number.isFinite(parsed) ? parsed : undefined;
 };
 
+/** Servings must be a positive whole number; anything else leaves them unset. */
+const parseServings = (value: unknown): number | undefined => {
+    const parsed = parseNumber(value);
+    return parsed !== undefined && parsed >= 1 ? Math.round(parsed) : undefined;
+};
+
 const generateId = () => Crypto.randomUUID();
 
 export const createRecipe = (data: NewRecipeData): Recipe => {
@@ -45,6 +51,7 @@ export const createRecipe = (data: NewRecipeData): Recipe => {
         localId: Crypto.randomUUID(),
         title: data.title.trim(),
         prepTime,
+        servings: parseServings(data.servings),
         category: data.category,
         description: data.description?.trim() || undefined,
         ingredients,
@@ -55,7 +62,11 @@ export const createRecipe = (data: NewRecipeData): Recipe => {
     return withCreatedAtAndUpdatedAt<Recipe>(recipe as Recipe);
 };
 
-export const mapRecipeToFormData = (recipe: Recipe): NewRecipeData => {
+/** Fields the recipe form is filled from; saved recipes and imported drafts both fit. */
+type RecipeFormSource = Pick<Recipe, 'title' | 'ingredients' | 'instructions'> &
+    Partial<Pick<Recipe, 'category' | 'prepTime' | 'servings' | 'description' | 'imageUrl'>>;
+
+export const mapRecipeToFormData = (recipe: RecipeFormSource): NewRecipeData => {
     const ingredients = (recipe.ingredients || []).map((ing: Ingredient) => ({
         id: generateId(),
         quantityAmount: ing.quantityAmount != null ? String(ing.quantityAmount) : ing.quantity != null ? String(ing.quantity) : '',
@@ -74,6 +85,7 @@ export const mapRecipeToFormData = (recipe: Recipe): NewRecipeData => {
         title: recipe.title ?? '',
         category: recipe.category ?? '',
         prepTime: recipe.prepTime != null ? String(recipe.prepTime) : '',
+        servings: recipe.servings != null ? String(recipe.servings) : '',
         description: recipe.description ?? '',
         ingredients,
         instructions,
@@ -104,6 +116,7 @@ export const mapFormDataToRecipeUpdates = (data: NewRecipeData): Partial<Recipe>
         title: data.title.trim(),
         category: data.category || undefined,
         prepTime,
+        servings: parseServings(data.servings),
         description: data.description?.trim() || undefined,
         ingredients,
         instructions,
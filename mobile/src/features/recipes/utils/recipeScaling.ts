@@ -0,0 +1,43 @@
+import type { Ingredient } from '../../../mocks/recipes';
+import { scaleQuantity } from './unitConversion';
+
+/** Upper bound for servings; matches the backend's MAX_RECIPE_SERVINGS. */
+export const MAX_RECIPE_SERVINGS = 100;
+
+/**
+ * Factor that turns a recipe's own servings into the target servings.
+ * Recipes without servings can't be scaled and always use 1.
+ */
+export function getServingsFactor(recipeServings: number | undefined, targetServings: number): number {
+    if (!recipeServings || recipeServings <= 0 || targetServings <= 0) {
+        return 1;
+    }
+    return targetServings / recipeServings;
+}
+
+/**
+ * Scales every ingredient amount by `factor` and re-normalizes units (e.g. 8 tbsp × 2 → 1 cup).
+ * Legacy `quantity`/`unit` fields are folded into `quantityAmount`/`quantityUnit`.
+ * Ingredients without an amount are left as they are.
+ */
+export function scaleIngredients(ingredients: Ingredient[], factor: number): Ingredient[] {
+    if (factor === 1) {
+        return ingredients;
+    }
+
+    return ingredients.map((ingredient) => {
+        const amount = ingredient.quantityAmount ?? ingredient.quantity;
+        if (typeof amount !== 'number' || !Number.isFinite(amount)) {
+            return ingredient;
+        }
+
+        const scaled = scaleQuantity(amount, ingredient.quantityUnit ?? ingredient.unit ?? '', factor);
+        return {
+            ...ingredient,
+            quantityAmount: scaled.quantity,
+            quantityUnit: scaled.unit || undefined,
+            quantity: undefined,
+            unit: undefined,
+        };
+    });
+}
@@ -107,33 +107,55 @@ export function addQuantities(
 }
 
 /**
- * Normalizes a quantity to its standard base unit (kg for weight, l for volume).
- * Used for the "General Count" strategy where we accumulate small amounts into larger standard units.
+ * Units a quantity may move between when it is normalized, smallest first.
+ * Metric and kitchen measures stay separate so 500 ml never turns into cups.
  */
-export function normalizeToStandardUnit(amount: number, unit: string): { quantity: number; unit: string } {
-    const type = getUnitType(unit);
+const UNIT_LADDERS: readonly (readonly UnitCode[])[] = [
+    ['g', 'kg'],
+    ['oz', 'lb'],
+    ['ml', 'l'],
+    ['tsp', 'tbsp', 'cup'],
+];
 
-    if (!type) {
-        return { quantity: amount, unit };
-    }
+const QUANTITY_PRECISION = 100;
 
-    // Define standard units for normalization
-    const STANDARD_UNITS: Partial<Record<UnitType, string>> = {
-        weight: 'kg',
-        volume: 'l',
-    };
+const roundQuantity = (value: number): number =>
+    Math.round(value * QUANTITY_PRECISION) / QUANTITY_PRECISION;
 
-    const targetUnit = STANDARD_UNITS[type];
+/**
+ * Normalizes a quantity to the largest unit of its family that still holds at least one
+ * (e.g. 16 tbsp → 1 cup, 1500 g → 1.5 kg, 0.25 l → 250 ml).
+ * Used when accumulating or scaling amounts so they read the way a cook would write them.
+ * Count and unknown units are returned unchanged.
+ */
+export function normalizeToStandardUnit(amount: number, unit: string): { quantity: number; unit: string } {
+    const ladder = UNIT_LADDERS.find((units) => units.includes(unit as UnitCode));
 
-    if (!targetUnit) {
+    if (!ladder || amount <= 0) {
         return { quantity: amount, unit };
     }
 
-    const convertedAmount = convertUnit(amount, unit, targetUnit);
+    for (const candidate of [...ladder].reverse()) {
+        const converted = convertUnit(amount, unit, candidate);
+        // Compare at display precision so rounding noise doesn't keep 0.9999 cup in tablespoons
+        if (converted !== null && roundQuantity(converted) >= 1) {
+            return { quantity: converted, unit: candidate };
+        }
+    }
+
+    return { quantity: convertUnit(amount, unit, ladder[0]) ?? amount, unit: ladder[0] };
+}
 
-    if (convertedAmount === null) {
+/**
+ * Scales an ingredient quantity (e.g. from a recipe's servings to the servings being cooked)
+ * and re-normalizes its unit. A factor of 1 keeps the quantity as written.
+ * The result is rounded to two decimals.
+ */
+export function scaleQuantity(amount: number, unit: string, factor: number): { quantity: number; unit: string } {
+    if (factor === 1) {
         return { quantity: amount, unit };
     }
 
-    return { quantity: convertedAmount, unit: targetUnit };
+    const normalized = normalizeToStandardUnit(amount * factor, unit);
+    return { quantity: roundQuantity(normalized.quantity), unit: normalized.unit };
 }
@@ -1,18 +1,20 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
     View,
     Text,
+    TextInput,
     TouchableOpacity,
     ActivityIndicator,
     StyleSheet,
     Share,
+    Switch,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import * as Clipboard from 'expo-clipboard';
 import { useTranslation } from 'react-i18next';
 import { colors, spacing, borderRadius, typography } from '../../../theme';
 import { CenteredModal } from '../../../common/components/CenteredModal';
-import { householdService } from '../../../services/householdService';
+import { householdService, HouseholdInvite } from '../../../services/householdService';
 
 interface InviteMemberModalProps {
     visible: boolean;
@@ -24,12 +26,35 @@ export function InviteMemberModal({ visible, onClose }: InviteMemberModalProps)
     const [inviteToken, setInviteToken] = useState<string | null>(null);
     const [isGenerating, setIsGenerating] = useState(false);
     const [copied, setCopied] = useState(false);
+    const [email, setEmail] = useState('');
+    const [singleUse, setSingleUse] = useState(false);
+    const [invites, setInvites] = useState<HouseholdInvite[]>([]);
+    const [revokingId, setRevokingId] = useState<string | null>(null);
+
+    const loadInvites = useCallback(async () => {
+        try {
+            setInvites(await householdService.listInvites());
+        } catch (error) {
+            console.error('Error loading invites:', error);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (visible) {
+            loadInvites();
+        }
+    }, [visible, loadInvites]);
 
     const handleGenerateInvite = async () => {
         try {
             setIsGenerating(true);
-            const { inviteToken } = await householdService.inviteMember();
+            const trimmedEmail = email.trim();
+            const { inviteToken } = await householdService.inviteMember({
+                email: trimmedEmail || undefined,
+                maxUses: singleUse ? 1 : undefined,
+            });
             setInviteToken(inviteToken);
+            await loadInvites();
         } catch (error) {
             console.error('Error generating invite:', error);
         } finally {
@@ -37,6 +62,28 @@ export function InviteMemberModal({ visible, onClose }: InviteMemberModalProps)
         }
     };
 
+    const handleRevoke = async (inviteId: string) => {
+        try {
+            setRevokingId(inviteId);
+            await householdService.revokeInvite(inviteId);
+            setInvites((current) => current.filter((invite) => invite.id !== inviteId));
+            if (invites.find((invite) => invite.id === inviteId)?.code === inviteToken) {
+                setInviteToken(null);
+            }
+        } catch (error) {
+            console.error('Error revoking invite:', error);
+        } finally {
+            setRevokingId(null);
+        }
+    };
+
+    const describeInvite = (invite: HouseholdInvite) => {
+        const usage = invite.maxUses
+            ? t('inviteMemberModal.usesOfMax', { used: invite.useCount, max: invite.maxUses })
+            : t('inviteMemberModal.uses', { count: invite.useCount });
+        return invite.email ? `${invite.email} · ${usage}` : usage;
+    };
+
     const copyToClipboard = async () => {
         if (inviteToken) {
             await Clipboard.setStringAsync(inviteToken);
@@ -59,6 +106,8 @@ export function InviteMemberModal({ visible, onClose }: InviteMemberModalProps)
 
     const handleClose = () => {
         setInviteToken(null);
+        setEmail('');
+        setSingleUse(false);
         onClose();
     };
 
@@ -103,20 +152,73 @@ export function InviteMemberModal({ visible, onClose }: InviteMemberModalProps)
                         </TouchableOpacity>
                     </View>
                 ) : (
-                    <TouchableOpacity
-                        style={styles.generateButton}
-                        onPress={handleGenerateInvite}
-                        disabled={isGenerating}
-                    >
-                        {isGenerating ? (
-                            <ActivityIndicator color="#fff" />
-                        ) : (
-                            <>
-                                <Ionicons name="person-add-outline" size={24} color="#fff" />
-                                <Text style={styles.generateButtonText}>{t('inviteMemberModal.generateInviteCode')}</Text>
-                            </>
-                        )}
-                    </TouchableOpacity>
+                    <View style={styles.codeSection}>
+                        <TextInput
+                            style={styles.emailInput}
+                            value={email}
+                            onChangeText={setEmail}
+                            placeholder={t('inviteMemberModal.emailPlaceholder')}
+                            placeholderTextColor={colors.textMuted}
+                            keyboardType="email-address"
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                            accessibilityLabel={t('inviteMemberModal.emailLabel')}
+                            testID="invite-email-input"
+                        />
+                        <View style={styles.optionRow}>
+                            <Text style={styles.optionLabel}>{t('inviteMemberModal.singleUse')}</Text>
+                            <Switch
+                                value={singleUse}
+                                onValueChange={setSingleUse}
+                                trackColor={{ true: colors.primary }}
+                                testID="invite-single-use"
+                            />
+                        </View>
+                        <TouchableOpacity
+                            style={styles.generateButton}
+                            onPress={handleGenerateInvite}
+                            disabled={isGenerating}
+                        >
+                            {isGenerating ? (
+                                <ActivityIndicator color="#fff" />
+                            ) : (
+                                <>
+                                    <Ionicons name="person-add-outline" size={24} color="#fff" />
+                                    <Text style={styles.generateButtonText}>
+                                        {email.trim()
+                                            ? t('inviteMemberModal.sendEmailInvite')
+                                            : t('inviteMemberModal.generateInviteCode')}
+                                    </Text>
+                                </>
+                            )}
+                        </TouchableOpacity>
+                    </View>
+                )}
+
+                {invites.length > 0 && (
+                    <View style={styles.invitesSection}>
+                        <Text style={styles.invitesTitle}>{t('inviteMemberModal.activeInvites')}</Text>
+                        {invites.map((invite) => (
+                            <View key={invite.id} style={styles.inviteRow}>
+                                <View style={styles.inviteInfo}>
+                                    <Text style={styles.inviteCode}>{invite.code}</Text>
+                                    <Text style={styles.inviteMeta}>{describeInvite(invite)}</Text>
+                                </View>
+                                <TouchableOpacity
+                                    onPress={() => handleRevoke(invite.id)}
+                                    disabled={revokingId === invite.id}
+                                    accessibilityLabel={t('inviteMemberModal.revoke')}
+                                    testID={`revoke-invite-${invite.id}`}
+                                >
+                                    {revokingId === invite.id ? (
+                                        <ActivityIndicator size="small" color={colors.error} />
+                                    ) : (
+                                        <Text style={styles.revokeText}>{t('inviteMemberModal.revoke')}</Text>
+                                    )}
+                                </TouchableOpacity>
+                            </View>
+                        ))}
+                    </View>
                 )}
             </View>
         </CenteredModal>
@@ -215,4 +317,63 @@ const styles = StyleSheet.create({
     copiedButton: {
         backgroundColor: colors.success,
     },
+    emailInput: {
+        ...typography.body,
+        width: '100%',
+        borderWidth: 1,
+        borderColor: colors.border,
+        borderRadius: borderRadius.lg,
+        paddingVertical: spacing.sm,
+        paddingHorizontal: spacing.md,
+        color: colors.textPrimary,
+        marginBottom: spacing.md,
+    },
+    optionRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        width: '100%',
+        marginBottom: spacing.lg,
+    },
+    optionLabel: {
+        ...typography.body,
+        color: colors.textPrimary,
+    },
+    invitesSection: {
+        width: '100%',
+        marginTop: spacing.lg,
+        borderTopWidth: 1,
+        borderTopColor: colors.border,
+        paddingTop: spacing.md,
+    },
+    invitesTitle: {
+        ...typography.label,
+        color: colors.textSecondary,
+        marginBottom: spacing.sm,
+    },
+    inviteRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingVertical: spacing.sm,
+    },
+    inviteInfo: {
+        flex: 1,
+        marginEnd: spacing.md,
+    },
+    inviteCode: {
+        ...typography.body,
+        fontWeight: '700',
+        color: colors.textPrimary,
+        letterSpacing: 2,
+    },
+    inviteMeta: {
+        ...typography.caption,
+        color: colors.textMuted,
+    },
+    revokeText: {
+        ...typography.bodySmall,
+        color: colors.error,
+        fontWeight: '600',
+    },
 });
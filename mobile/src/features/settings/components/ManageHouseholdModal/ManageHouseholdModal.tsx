@@ -1,25 +1,98 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
   TouchableOpacity,
   TextInput,
   ScrollView,
+  ActivityIndicator,
+  Alert,
+  Switch,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
 import { colors } from '../../../../theme';
-import { useHousehold } from '../../../../contexts/HouseholdContext';
+import { config } from '../../../../config';
+import { PendingWritesError, useHousehold } from '../../../../contexts/HouseholdContext';
+import { useAuth } from '../../../../contexts/AuthContext';
 import { CenteredModal } from '../../../../common/components/CenteredModal';
+import {
+  householdService,
+  HouseholdJoinRequest,
+  HouseholdMember as HouseholdAccount,
+} from '../../../../services/householdService';
+import {
+  HOUSEHOLD_ROLES,
+  HouseholdRole,
+  PERMISSIONS,
+  hasPermission,
+  normalizeHouseholdRole,
+} from '../../utils/householdPermissions';
 import { styles } from './styles';
 import { ManageHouseholdModalProps } from './types';
 
 export function ManageHouseholdModal({ visible, onClose }: ManageHouseholdModalProps) {
   const { t } = useTranslation('settings');
-  const { members, addMember, removeMember } = useHousehold();
+  const {
+    members,
+    addMember,
+    removeMember,
+    leaveHousehold,
+    dissolveHousehold,
+    isSwitchingHousehold,
+  } = useHousehold();
+  const { user, refreshUser } = useAuth();
   const [newMemberName, setNewMemberName] = useState('');
+  const [accounts, setAccounts] = useState<HouseholdAccount[]>([]);
+  const [isLoadingAccounts, setIsLoadingAccounts] = useState(false);
+  const [accountError, setAccountError] = useState<string | null>(null);
+  const [requireJoinApproval, setRequireJoinApproval] = useState(false);
+  const [joinRequests, setJoinRequests] = useState<HouseholdJoinRequest[]>([]);
   const inputRef = useRef<TextInput>(null);
 
+  const isSignedIn = !config.mockData.enabled && !!user && !user.isGuest;
+  // The server list has the current role even if it changed since sign-in.
+  // Guests manage local data only, so they can do everything.
+  const currentRole = isSignedIn
+    ? accounts.find(account => account.id === user?.id)?.role ?? user?.role
+    : 'Admin';
+  const canEditMembers = hasPermission(currentRole, PERMISSIONS.HOUSEHOLD_MANAGE);
+  const canRemoveAccounts = hasPermission(currentRole, PERMISSIONS.MEMBERS_REMOVE);
+  const canChangeRoles = hasPermission(currentRole, PERMISSIONS.MEMBERS_CHANGE_ROLE);
+  const canReviewJoinRequests = isSignedIn && hasPermission(currentRole, PERMISSIONS.MEMBERS_INVITE);
+  const isAdmin = normalizeHouseholdRole(currentRole) === 'Admin';
+  const isLastAdmin =
+    isAdmin && !accounts.some(account => account.id !== user?.id && normalizeHouseholdRole(account.role) === 'Admin');
+
+  const loadAccounts = useCallback(async () => {
+    setIsLoadingAccounts(true);
+    setAccountError(null);
+    try {
+      const household = await householdService.getHousehold();
+      setAccounts(household.members);
+      setRequireJoinApproval(!!household.requireJoinApproval);
+    } catch (error) {
+      console.error('Error loading household accounts:', error);
+      setAccountError(t('manageHouseholdModal.loadAccountsFailed'));
+    } finally {
+      setIsLoadingAccounts(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    if (visible && isSignedIn) {
+      loadAccounts();
+    }
+  }, [visible, isSignedIn, loadAccounts]);
+
+  useEffect(() => {
+    if (!visible || !canReviewJoinRequests) return;
+    householdService
+      .listJoinRequests()
+      .then(setJoinRequests)
+      .catch(error => console.error('Error loading join requests:', error));
+  }, [visible, canReviewJoinRequests]);
+
   const handleAddMember = async () => {
     if (!newMemberName.trim()) return;
     await addMember(newMemberName.trim());
@@ -30,6 +103,144 @@ export function ManageHouseholdModal({ visible, onClose }: ManageHouseholdModalP
     await removeMember(id);
   };
 
+  const handleChangeRole = async (account: HouseholdAccount, role: HouseholdRole) => {
+    if (normalizeHouseholdRole(account.role) === role) return;
+    setAccountError(null);
+    try {
+      const updated = await householdService.updateMemberRole(account.id, role);
+      setAccounts(prev => prev.map(item => (item.id === updated.id ? { ...item, role: updated.role } : item)));
+    } catch (error) {
+      console.error('Error changing member role:', error);
+      setAccountError(t('manageHouseholdModal.changeRoleFailed'));
+    }
+  };
+
+  const handleRemoveAccount = async (id: string) => {
+    setAccountError(null);
+    try {
+      await householdService.removeMember(id);
+      setAccounts(prev => prev.filter(account => account.id !== id));
+    } catch (error) {
+      console.error('Error removing household account:', error);
+      setAccountError(t('manageHouseholdModal.removeAccountFailed'));
+    }
+  };
+
+  const handleToggleJoinApproval = async (value: boolean) => {
+    setAccountError(null);
+    setRequireJoinApproval(value);
+    try {
+      await householdService.updateHousehold({ requireJoinApproval: value });
+    } catch (error) {
+      console.error('Error updating join approval:', error);
+      setRequireJoinApproval(!value);
+      setAccountError(t('manageHouseholdModal.joinApprovalFailed'));
+    }
+  };
+
+  const handleReviewJoinRequest = async (request: HouseholdJoinRequest, approve: boolean) => {
+    setAccountError(null);
+    try {
+      if (approve) {
+        const household = await householdService.approveJoinRequest(request.id);
+        setAccounts(household.members);
+      } else {
+        await householdService.rejectJoinRequest(request.id);
+      }
+      setJoinRequests(prev => prev.filter(item => item.id !== request.id));
+    } catch (error) {
+      console.error('Error reviewing join request:', error);
+      setAccountError(t('manageHouseholdModal.joinRequestFailed'));
+    }
+  };
+
+  const handleTransferAdmin = (account: HouseholdAccount) => {
+    Alert.alert(
+      t('manageHouseholdModal.transferAdminConfirmTitle'),
+      t('manageHouseholdModal.transferAdminConfirmMessage', { name: account.name || account.email }),
+      [
+        { text: t('manageHouseholdModal.cancel'), style: 'cancel' },
+        {
+          text: t('manageHouseholdModal.transferAdmin'),
+          onPress: async () => {
+            setAccountError(null);
+            try {
+              const household = await householdService.transferAdmin(account.id);
+              setAccounts(household.members);
+              await refreshUser();
+            } catch (error) {
+              console.error('Error transferring admin role:', error);
+              setAccountError(t('manageHouseholdModal.transferAdminFailed'));
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const runLeaveAction = async (action: () => Promise<void>, failedKey: string) => {
+    setAccountError(null);
+    try {
+      await action();
+      onClose();
+    } catch (error) {
+      console.error('Error leaving household:', error);
+      setAccountError(
+        error instanceof PendingWritesError
+          ? t('switchHouseholdModal.pendingChanges')
+          : t(failedKey),
+      );
+    }
+  };
+
+  const handleLeaveHousehold = () => {
+    // The server enforces this too; checking here gives a clearer message.
+    if (isLastAdmin) {
+      setAccountError(
+        accounts.length > 1
+          ? t('manageHouseholdModal.leaveTransferFirst')
+          : t('manageHouseholdModal.leaveDissolveInstead'),
+      );
+      return;
+    }
+    Alert.alert(
+      t('manageHouseholdModal.leaveConfirmTitle'),
+      t('manageHouseholdModal.leaveConfirmMessage'),
+      [
+        { text: t('manageHouseholdModal.cancel'), style: 'cancel' },
+        {
+          text: t('manageHouseholdModal.leaveHousehold'),
+          style: 'destructive',
+          onPress: () => {
+            void runLeaveAction(leaveHousehold, 'manageHouseholdModal.leaveFailed');
+          },
+        },
+      ],
+    );
+  };
+
+  const handleDissolveHousehold = () => {
+    Alert.alert(
+      t('manageHouseholdModal.dissolveConfirmTitle'),
+      t('manageHouseholdModal.dissolveConfirmMessage'),
+      [
+        { text: t('manageHouseholdModal.cancel'), style: 'cancel' },
+        {
+          text: t('manageHouseholdModal.dissolveHousehold'),
+          style: 'destructive',
+          onPress: () => {
+            void runLeaveAction(dissolveHousehold, 'manageHouseholdModal.dissolveFailed');
+          },
+        },
+      ],
+    );
+  };
+
+  const getRoleLabel = (role: string) => {
+    const householdRole = normalizeHouseholdRole(role);
+    return householdRole ? t(householdRole.toLowerCase()) : role;
+  };
+
   return (
     <CenteredModal
       visible={visible}
@@ -39,27 +250,134 @@ export function ManageHouseholdModal({ visible, onClose }: ManageHouseholdModalP
     >
       <View style={styles.contentContainer}>
         {/* Add Member Form */}
-        <View style={styles.addForm}>
-          <TextInput
-            ref={inputRef}
-            style={styles.input}
-            placeholder={t('manageHouseholdModal.addMemberPlaceholder')}
-            placeholderTextColor={colors.textMuted}
-            value={newMemberName}
-            onChangeText={setNewMemberName}
-            onSubmitEditing={handleAddMember}
-            returnKeyType="done"
-          />
-          <TouchableOpacity
-            style={[styles.addButton, { backgroundColor: colors.chores }]}
-            onPress={handleAddMember}
-          >
-            <Ionicons name="add" size={24} color={colors.textLight} />
-          </TouchableOpacity>
-        </View>
+        {canEditMembers && (
+          <View style={styles.addForm}>
+            <TextInput
+              ref={inputRef}
+              style={styles.input}
+              placeholder={t('manageHouseholdModal.addMemberPlaceholder')}
+              placeholderTextColor={colors.textMuted}
+              value={newMemberName}
+              onChangeText={setNewMemberName}
+              onSubmitEditing={handleAddMember}
+              returnKeyType="done"
+            />
+            <TouchableOpacity
+              style={[styles.addButton, { backgroundColor: colors.chores }]}
+              onPress={handleAddMember}
+            >
+              <Ionicons name="add" size={24} color={colors.textLight} />
+            </TouchableOpacity>
+          </View>
+        )}
 
-        {/* Members List */}
         <ScrollView style={styles.membersList} showsVerticalScrollIndicator={false}>
+          {/* Accounts */}
+          {isSignedIn && (
+            <View style={styles.accountsSection}>
+              <Text style={styles.sectionTitle}>{t('manageHouseholdModal.accountsSectionTitle')}</Text>
+              {isLoadingAccounts && accounts.length === 0 && (
+                <ActivityIndicator size="small" color={colors.primary} />
+              )}
+              {accountError && <Text style={styles.errorText}>{accountError}</Text>}
+              {canEditMembers && (
+                <View style={styles.settingRow}>
+                  <Text style={styles.settingLabel}>{t('manageHouseholdModal.requireJoinApproval')}</Text>
+                  <Switch
+                    value={requireJoinApproval}
+                    onValueChange={handleToggleJoinApproval}
+                    trackColor={{ true: colors.primary }}
+                    testID="require-join-approval"
+                  />
+                </View>
+              )}
+              {joinRequests.length > 0 && (
+                <View style={styles.joinRequestsSection}>
+                  <Text style={styles.sectionTitle}>{t('manageHouseholdModal.joinRequestsSectionTitle')}</Text>
+                  {joinRequests.map(request => (
+                    <View key={request.id} style={styles.memberRow}>
+                      <Text style={styles.memberName}>{request.user.name || request.user.email}</Text>
+                      <TouchableOpacity
+                        style={styles.deleteButton}
+                        onPress={() => handleReviewJoinRequest(request, true)}
+                        accessibilityLabel={t('manageHouseholdModal.approveJoinRequest')}
+                        testID={`approve-join-request-${request.id}`}
+                      >
+                        <Ionicons name="checkmark-circle-outline" size={22} color={colors.success} />
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.deleteButton}
+                        onPress={() => handleReviewJoinRequest(request, false)}
+                        accessibilityLabel={t('manageHouseholdModal.rejectJoinRequest')}
+                        testID={`reject-join-request-${request.id}`}
+                      >
+                        <Ionicons name="close-circle-outline" size={22} color={colors.error} />
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                </View>
+              )}
+              {accounts.map(account => {
+                const isSelf = account.id === user?.id;
+                return (
+                  <View key={account.id} style={styles.accountRow}>
+                    <View style={styles.memberRow}>
+                      <Text style={styles.memberName}>
+                        {account.name || account.email}
+                        {isSelf ? ` ${t('manageHouseholdModal.youSuffix')}` : ''}
+                      </Text>
+                      {!canChangeRoles && (
+                        <View style={styles.defaultBadge}>
+                          <Text style={styles.defaultBadgeText}>{getRoleLabel(account.role)}</Text>
+                        </View>
+                      )}
+                      {isAdmin && !isSelf && (
+                        <TouchableOpacity
+                          style={styles.deleteButton}
+                          onPress={() => handleTransferAdmin(account)}
+                          accessibilityLabel={t('manageHouseholdModal.transferAdmin')}
+                          testID={`transfer-admin-${account.id}`}
+                        >
+                          <Ionicons name="key-outline" size={20} color={colors.primary} />
+                        </TouchableOpacity>
+                      )}
+                      {canRemoveAccounts && !isSelf && (
+                        <TouchableOpacity
+                          style={styles.deleteButton}
+                          onPress={() => handleRemoveAccount(account.id)}
+                          accessibilityLabel={t('manageHouseholdModal.removeAccount')}
+                        >
+                          <Ionicons name="person-remove-outline" size={20} color={colors.error} />
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                    {canChangeRoles && (
+                      <View style={styles.roleChips}>
+                        {HOUSEHOLD_ROLES.map(role => {
+                          const isSelected = normalizeHouseholdRole(account.role) === role;
+                          return (
+                            <TouchableOpacity
+                              key={role}
+                              style={[styles.roleChip, isSelected && styles.roleChipSelected]}
+                              onPress={() => handleChangeRole(account, role)}
+                              accessibilityState={{ selected: isSelected }}
+                              testID={`member-role-${account.id}-${role}`}
+                            >
+                              <Text style={[styles.roleChipText, isSelected && styles.roleChipTextSelected]}>
+                                {getRoleLabel(role)}
+                              </Text>
+                            </TouchableOpacity>
+                          );
+                        })}
+                      </View>
+                    )}
+                  </View>
+                );
+              })}
+            </View>
+          )}
+
+          {/* Members List */}
           <Text style={styles.sectionTitle}>{t('manageHouseholdModal.membersSectionTitle')}</Text>
           {members.map(member => (
             <View key={member.id} style={styles.memberRow}>
@@ -70,24 +388,54 @@ export function ManageHouseholdModal({ visible, onClose }: ManageHouseholdModalP
                   <Text style={styles.defaultBadgeText}>{t('manageHouseholdModal.defaultBadge')}</Text>
                 </View>
               )}
-              <TouchableOpacity
-                style={[styles.deleteButton, member.isDefault && styles.deleteButtonDisabled]}
-                onPress={() => handleRemoveMember(member.id)}
-                disabled={member.isDefault}
-              >
-                <Ionicons
-                  name="trash-outline"
-                  size={20}
-                  color={member.isDefault ? colors.textMuted : colors.error}
-                />
-              </TouchableOpacity>
+              {canEditMembers && (
+                <TouchableOpacity
+                  style={[styles.deleteButton, member.isDefault && styles.deleteButtonDisabled]}
+                  onPress={() => handleRemoveMember(member.id)}
+                  disabled={member.isDefault}
+                >
+                  <Ionicons
+                    name="trash-outline"
+                    size={20}
+                    color={member.isDefault ? colors.textMuted : colors.error}
+                  />
+                </TouchableOpacity>
+              )}
             </View>
           ))}
         </ScrollView>
 
+        {isSignedIn && (
+          <View style={styles.householdActions}>
+            {isSwitchingHousehold && <ActivityIndicator size="small" color={colors.primary} />}
+            <TouchableOpacity
+              style={styles.householdActionButton}
+              onPress={handleLeaveHousehold}
+              disabled={isSwitchingHousehold}
+              testID="leave-household"
+            >
+              <Ionicons name="exit-outline" size={18} color={colors.error} />
+              <Text style={styles.householdActionText}>{t('manageHouseholdModal.leaveHousehold')}</Text>
+            </TouchableOpacity>
+            {isAdmin && (
+              <TouchableOpacity
+                style={styles.householdActionButton}
+                onPress={handleDissolveHousehold}
+                disabled={isSwitchingHousehold}
+                testID="dissolve-household"
+              >
+                <Ionicons name="trash-outline" size={18} color={colors.error} />
+                <Text style={styles.householdActionText}>{t('manageHouseholdModal.dissolveHousehold')}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
         <View style={styles.footer}>
           <Text style={styles.footerText}>
-            {t('manageHouseholdModal.defaultMembersCannotBeRemoved')}
+            {canEditMembers
+              ? t('manageHouseholdModal.defaultMembersCannotBeRemoved')
+              : t('manageHouseholdModal.adminsOnly')}
           </Text>
         </View>
 
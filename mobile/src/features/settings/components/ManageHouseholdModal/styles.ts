@@ -30,6 +30,53 @@ export const styles = StyleSheet.create({
   membersList: {
     maxHeight: 250,
   },
+  accountsSection: {
+    marginBottom: spacing.lg,
+  },
+  accountRow: {
+    paddingBottom: spacing.sm,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingBottom: spacing.md,
+  },
+  settingLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.textPrimary,
+  },
+  joinRequestsSection: {
+    marginBottom: spacing.md,
+  },
+  roleChips: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    paddingTop: spacing.sm,
+  },
+  roleChip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: 6,
+    borderRadius: borderRadius.lg,
+    backgroundColor: colors.background,
+  },
+  roleChipSelected: {
+    backgroundColor: colors.primary,
+  },
+  roleChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  roleChipTextSelected: {
+    color: colors.textLight,
+  },
+  errorText: {
+    fontSize: 13,
+    color: colors.error,
+    marginBottom: spacing.sm,
+  },
   sectionTitle: {
     fontSize: 12,
     fontWeight: '700',
@@ -76,6 +123,27 @@ export const styles = StyleSheet.create({
   deleteButtonDisabled: {
     opacity: 0.3,
   },
+  householdActions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingTop: spacing.md,
+  },
+  householdActionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.lg,
+    backgroundColor: colors.background,
+  },
+  householdActionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.error,
+  },
   footer: {
     paddingTop: spacing.md,
     marginTop: spacing.sm,
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { CenteredModal } from '../../../../common/components/CenteredModal';
+import { PendingWritesError, useHousehold } from '../../../../contexts/HouseholdContext';
+import { normalizeHouseholdRole } from '../../utils/householdPermissions';
+import { colors, spacing, borderRadius, typography } from '../../../../theme';
+import type { SwitchHouseholdModalProps } from './types';
+
+const MIN_ROW_HEIGHT = 44;
+
+/**
+ * Modal that lists the user's households with a checkmark for the active one.
+ * On selection: switches the active household (new tokens and cache scope) and closes.
+ */
+export function SwitchHouseholdModal({ visible, onClose }: SwitchHouseholdModalProps) {
+  const { t } = useTranslation('settings');
+  const { households, activeHouseholdId, isSwitchingHousehold, switchHousehold } = useHousehold();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClose = () => {
+    setError(null);
+    onClose();
+  };
+
+  const handleSelectHousehold = async (householdId: string) => {
+    setError(null);
+    try {
+      await switchHousehold(householdId);
+      handleClose();
+    } catch (switchError) {
+      console.error('Error switching household:', switchError);
+      setError(
+        switchError instanceof PendingWritesError
+          ? t('switchHouseholdModal.pendingChanges')
+          : t('switchHouseholdModal.switchFailed'),
+      );
+    }
+  };
+
+  return (
+    <CenteredModal
+      visible={visible}
+      onClose={handleClose}
+      title={t('switchHouseholdModal.title')}
+      showActions={false}
+    >
+      {isSwitchingHousehold && <ActivityIndicator size="small" color={colors.primary} />}
+      {error && <Text style={styles.errorText}>{error}</Text>}
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        {households.map(household => {
+          const isSelected = household.id === activeHouseholdId;
+          const role = normalizeHouseholdRole(household.role);
+          return (
+            <TouchableOpacity
+              key={household.id}
+              style={[styles.row, { minHeight: MIN_ROW_HEIGHT }]}
+              onPress={() => handleSelectHousehold(household.id)}
+              disabled={isSwitchingHousehold}
+              activeOpacity={0.7}
+              accessibilityRole="button"
+              accessibilityLabel={household.name}
+              accessibilityState={{ selected: isSelected }}
+              testID={`switch-household-${household.id}`}
+            >
+              <View style={styles.rowContent}>
+                <View style={styles.labelBlock}>
+                  <Text style={styles.name}>{household.name}</Text>
+                  {role && <Text style={styles.role}>{t(role.toLowerCase())}</Text>}
+                </View>
+                {isSelected ? (
+                  <Ionicons
+                    name="checkmark-circle"
+                    size={24}
+                    color={colors.primary}
+                  />
+                ) : null}
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </CenteredModal>
+  );
+}
+
+const styles = StyleSheet.create({
+  scrollView: {
+    maxHeight: 320,
+  },
+  scrollContent: {
+    paddingBottom: spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.lg,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.xs,
+  },
+  rowContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    flex: 1,
+  },
+  labelBlock: {
+    flexDirection: 'column',
+    gap: spacing.xs,
+  },
+  name: {
+    ...typography.body,
+    color: colors.textPrimary,
+  },
+  role: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+  errorText: {
+    ...typography.caption,
+    color: colors.error,
+    marginBottom: spacing.sm,
+  },
+});
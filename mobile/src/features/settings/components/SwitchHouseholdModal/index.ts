@@ -0,0 +1,2 @@
+export { SwitchHouseholdModal } from './SwitchHouseholdModal';
+export type { SwitchHouseholdModalProps } from './types';
@@ -0,0 +1,4 @@
+export interface SwitchHouseholdModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
@@ -0,0 +1,110 @@
+import React from 'react';
+import { View, Text } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { Button } from '../../../../common/components/Button';
+import type { SyncEntityType } from '../../../../common/utils/cacheMetadata';
+import { colors } from '../../../../theme';
+import {
+  formatSyncIssueValue,
+  getSyncIssueFieldRows,
+  getSyncIssueName,
+  getSyncIssueReasonKey,
+} from '../../utils/syncIssues';
+import { styles } from './styles';
+import type { SyncIssueCardProps } from './types';
+
+const ENTITY_ICONS: Record<SyncEntityType, React.ComponentProps<typeof Ionicons>['name']> = {
+  recipes: 'restaurant-outline',
+  shoppingLists: 'list-outline',
+  shoppingItems: 'cart-outline',
+  chores: 'checkbox-outline',
+};
+
+/**
+ * Shows one failed or conflicted write: what went wrong, the local version
+ * next to the server copy (conflicting fields highlighted), and the actions
+ * to resolve it. "Keep mine" and "Keep theirs" need a server copy.
+ */
+export function SyncIssueCard({
+  issue,
+  isBusy = false,
+  onRetry,
+  onKeepMine,
+  onKeepTheirs,
+  onDiscard,
+}: SyncIssueCardProps) {
+  const { t } = useTranslation('settings');
+  const rows = getSyncIssueFieldRows(issue);
+  const hasServerCopy = issue.conflict?.serverEntity !== undefined;
+  const detail = issue.conflict?.message ?? issue.lastError;
+
+  return (
+    <View style={styles.card} testID={`sync-issue-${issue.id}`}>
+      <View style={styles.header}>
+        <View style={styles.iconContainer}>
+          <Ionicons name={ENTITY_ICONS[issue.entityType]} size={20} color={colors.error} />
+        </View>
+        <View style={styles.titleBlock}>
+          <Text style={styles.title} numberOfLines={1}>
+            {getSyncIssueName(issue)}
+          </Text>
+          <Text style={styles.subtitle}>
+            {t('syncIssues.operation', {
+              entity: t(`syncIssues.entityTypes.${issue.entityType}`),
+              op: t(`syncIssues.operations.${issue.op}`),
+            })}
+          </Text>
+        </View>
+      </View>
+
+      <Text style={styles.reason}>
+        {t(getSyncIssueReasonKey(issue))}
+        {detail ? ` (${detail})` : ''}
+      </Text>
+
+      {issue.op !== 'delete' && (
+        <View style={styles.table}>
+          <View style={styles.row}>
+            <Text style={[styles.fieldCell, styles.headerCell]} />
+            <Text style={[styles.valueCell, styles.headerCell]}>{t('syncIssues.yourVersion')}</Text>
+            {hasServerCopy && (
+              <Text style={[styles.valueCell, styles.headerCell]}>{t('syncIssues.serverVersion')}</Text>
+            )}
+          </View>
+          {rows.map((row) => (
+            <View key={row.field} style={[styles.row, row.isConflicting && styles.conflictingRow]}>
+              <Text style={styles.fieldCell}>{t(`syncIssues.fields.${row.field}`)}</Text>
+              <Text style={styles.valueCell}>{formatSyncIssueValue(row.local, t)}</Text>
+              {hasServerCopy && (
+                <Text style={styles.valueCell}>{formatSyncIssueValue(row.server, t)}</Text>
+              )}
+            </View>
+          ))}
+        </View>
+      )}
+      {!hasServerCopy && (
+        <Text style={styles.note}>
+          {t(issue.conflict?.reason === 'not_found' ? 'syncIssues.serverMissing' : 'syncIssues.serverUnavailable')}
+        </Text>
+      )}
+
+      <View style={styles.actions}>
+        <Button title={t('syncIssues.retry')} onPress={onRetry} variant="outline" size="small" disabled={isBusy} />
+        {hasServerCopy && issue.op !== 'delete' && (
+          <Button title={t('syncIssues.keepMine')} onPress={onKeepMine} size="small" disabled={isBusy} />
+        )}
+        {hasServerCopy && (
+          <Button
+            title={t('syncIssues.keepTheirs')}
+            onPress={onKeepTheirs}
+            variant="secondary"
+            size="small"
+            disabled={isBusy}
+          />
+        )}
+        <Button title={t('syncIssues.discard')} onPress={onDiscard} variant="danger" size="small" disabled={isBusy} />
+      </View>
+    </View>
+  );
+}
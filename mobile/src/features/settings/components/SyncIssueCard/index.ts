@@ -0,0 +1,2 @@
+export { SyncIssueCard } from './SyncIssueCard';
+export type { SyncIssueCardProps } from './types';
@@ -0,0 +1,81 @@
+import { StyleSheet } from 'react-native';
+import { colors, spacing, borderRadius, typography, boxShadow } from '../../../../theme';
+
+export const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    ...boxShadow(1, 4, 'rgba(0, 0, 0, 0.05)'),
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  iconContainer: {
+    width: 36,
+    height: 36,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.pastel.coral,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginEnd: spacing.md,
+  },
+  titleBlock: {
+    flex: 1,
+  },
+  title: {
+    ...typography.body,
+    fontWeight: '600',
+  },
+  subtitle: {
+    ...typography.tiny,
+    color: colors.textSecondary,
+  },
+  reason: {
+    ...typography.bodySmall,
+    color: colors.error,
+    marginBottom: spacing.sm,
+  },
+  table: {
+    borderTopWidth: 1,
+    borderColor: colors.divider,
+    paddingTop: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    paddingVertical: spacing.xs,
+  },
+  conflictingRow: {
+    backgroundColor: colors.pastel.yellow,
+    borderRadius: borderRadius.sm,
+  },
+  fieldCell: {
+    ...typography.tiny,
+    flex: 1,
+    color: colors.textSecondary,
+    paddingHorizontal: spacing.xs,
+  },
+  valueCell: {
+    ...typography.bodySmall,
+    flex: 2,
+    paddingHorizontal: spacing.xs,
+  },
+  headerCell: {
+    fontWeight: '700',
+    color: colors.textPrimary,
+  },
+  note: {
+    ...typography.tiny,
+    color: colors.textMuted,
+    marginBottom: spacing.sm,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+});
@@ -0,0 +1,11 @@
+import type { QueuedWrite } from '../../../../common/utils/syncQueueStorage';
+
+export interface SyncIssueCardProps {
+  issue: QueuedWrite;
+  /** Disables the actions while one of them is running. */
+  isBusy?: boolean;
+  onRetry: () => void;
+  onKeepMine: () => void;
+  onKeepTheirs: () => void;
+  onDiscard: () => void;
+}
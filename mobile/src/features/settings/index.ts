@@ -1,5 +1,6 @@
 // Settings feature exports
 export { SettingsScreen } from './screens/SettingsScreen';
+export { SyncIssuesScreen } from './screens/SyncIssuesScreen';
 export { ManageHouseholdModal } from './components/ManageHouseholdModal';
 export { LanguageSelectorModal } from './components/LanguageSelectorModal';
 export { LegalConsentGate } from './components/LegalConsentGate';
\ No newline at end of file
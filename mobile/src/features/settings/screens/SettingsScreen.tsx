@@ -15,10 +15,13 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '../../../contexts/AuthContext';
+import { useHousehold } from '../../../contexts/HouseholdContext';
 import { colors, spacing, borderRadius, typography, shadows, boxShadow } from '../../../theme';
 import { ScreenHeader } from '../../../common/components/ScreenHeader';
 import { ManageHouseholdModal } from '../components/ManageHouseholdModal';
 import { InviteMemberModal } from '../components/InviteMemberModal';
+import { SwitchHouseholdModal } from '../components/SwitchHouseholdModal';
+import { PERMISSIONS, hasPermission, normalizeHouseholdRole } from '../utils/householdPermissions';
 import { LanguageSelectorModal } from '../components/LanguageSelectorModal';
 import { i18n } from '../../../i18n';
 import { normalizeLocale } from '../../../i18n/localeNormalization';
@@ -26,32 +29,161 @@ import { getNativeNameForCode } from '../../../i18n/constants';
 import { getDirectionalIcon } from '../../../common/utils/rtlIcons';
 import { openLegalUrl } from '../../../common/utils/legalLinks';
 import { useLegalLinks } from '../../../contexts/LegalLinksContext';
+import { useSyncQueueStatus } from '../../../common/hooks/useSyncStatus';
 import { accountService } from '../services/accountService';
+import {
+  settingsService,
+  type AppSettings,
+  type HouseholdSettingsUpdate,
+  type NotificationPreferenceType,
+  type UserSettingsUpdate,
+} from '../services/settingsService';
 import { getDeleteAccountErrorMessage } from '../utils/errorMessages';
+import { CHORE_REMINDER_OPTIONS } from '../../chores/constants';
+import { config } from '../../../config';
+
+/** Week start days offered in settings, cycled through on press. */
+const WEEK_START_OPTIONS = [
+  { day: 0, key: 'sunday' },
+  { day: 1, key: 'monday' },
+  { day: 6, key: 'saturday' },
+] as const;
+
+/** Default chore reminders offered in settings; null turns the default off. */
+const DEFAULT_REMINDER_OPTIONS = [null, ...CHORE_REMINDER_OPTIONS] as const;
+
+const NOTIFICATION_PREFERENCES: { type: NotificationPreferenceType; labelKey: string }[] = [
+  { type: 'chore_reminder', labelKey: 'preferences.choreReminders' },
+  { type: 'main_list_items_added', labelKey: 'preferences.shoppingListUpdates' },
+];
 
-/** Set to true when push notifications are implemented. */
-const SHOW_PUSH_NOTIFICATIONS_SETTING = false;
+/** Returns the option after the current one, wrapping around. */
+function nextOption<T>(options: readonly T[], current: T): T {
+  return options[(options.indexOf(current) + 1) % options.length];
+}
+
+function getDeviceTimeZone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || undefined;
+  } catch {
+    return undefined;
+  }
+}
 
 /** Set to true when export data is implemented. */
 const SHOW_EXPORT_DATA_SETTING = false;
 
-export function SettingsScreen() {
+interface SettingsScreenProps {
+  /** Opens the sync issues screen; the row is shown to signed-in users when set. */
+  onOpenSyncIssues?: () => void;
+}
+
+export function SettingsScreen({ onOpenSyncIssues }: SettingsScreenProps) {
   const { t, i18n } = useTranslation('settings');
   const { privacyPolicyUrl, termsOfServiceUrl } = useLegalLinks();
   const { user, signOut } = useAuth();
-  const [pushNotifications, setPushNotifications] = React.useState(true);
+  const { households, activeHouseholdId } = useHousehold();
+  const [settings, setSettings] = React.useState<AppSettings | null>(null);
   const [showLanguageSelector, setShowLanguageSelector] = React.useState(false);
   const [showManageHousehold, setShowManageHousehold] = React.useState(false);
   const [showInviteModal, setShowInviteModal] = React.useState(false);
+  const [showSwitchHousehold, setShowSwitchHousehold] = React.useState(false);
   const [isDeletingAccount, setIsDeletingAccount] = React.useState(false);
+  const { issueCount } = useSyncQueueStatus();
   const isRtlLayout = i18n.dir() === 'rtl' || I18nManager.isRTL;
 
-  const isAdmin = user?.role?.toLowerCase() === 'admin';
+  const canInviteMembers = hasPermission(user?.role, PERMISSIONS.MEMBERS_INVITE);
+  const canManageHousehold = hasPermission(user?.role, PERMISSIONS.HOUSEHOLD_MANAGE);
+  const isSignedIn = !config.mockData.enabled && !!user && !user.isGuest;
+  const activeHouseholdName = households.find(household => household.id === activeHouseholdId)?.name;
 
   const currentLanguageCode = normalizeLocale(i18n.language ?? '');
   const currentLanguageDisplayName = getNativeNameForCode(currentLanguageCode);
-  const normalizedRole = user?.role?.toLowerCase();
-  const roleLabel = normalizedRole === 'admin' ? t('admin') : t('member');
+  const normalizedRole = normalizeHouseholdRole(user?.role);
+  const roleLabel = normalizedRole ? t(normalizedRole.toLowerCase()) : t('member');
+
+  React.useEffect(() => {
+    if (!isSignedIn) {
+      setSettings(null);
+      return;
+    }
+
+    let cancelled = false;
+    settingsService
+      .getSettings()
+      .then((loaded) => {
+        if (!cancelled) setSettings(loaded);
+      })
+      .catch(() => {
+        // Preferences stay hidden until they can be loaded
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isSignedIn, activeHouseholdId]);
+
+  // The device decides the user's language and timezone; push them to the
+  // backend so server-side content (catalog names, greetings) matches
+  React.useEffect(() => {
+    if (!settings) return;
+
+    const updates: UserSettingsUpdate = {};
+    if (currentLanguageCode && settings.user.language !== currentLanguageCode) {
+      updates.language = currentLanguageCode;
+    }
+    const deviceTimeZone = getDeviceTimeZone();
+    if (deviceTimeZone && settings.user.timezone !== deviceTimeZone) {
+      updates.timezone = deviceTimeZone;
+    }
+    if (Object.keys(updates).length === 0) return;
+
+    settingsService
+      .updateMySettings(updates)
+      .then((saved) => setSettings((prev) => (prev ? { ...prev, user: saved } : prev)))
+      .catch(() => {
+        // Retried the next time settings are opened
+      });
+  }, [settings, currentLanguageCode]);
+
+  const saveHouseholdSettings = async (updates: HouseholdSettingsUpdate) => {
+    if (!settings || !canManageHousehold) return;
+
+    const previous = settings;
+    setSettings({ ...settings, household: { ...settings.household, ...updates } });
+    try {
+      const saved = await settingsService.updateHouseholdSettings(updates);
+      setSettings((prev) => (prev ? { ...prev, household: saved } : prev));
+    } catch {
+      setSettings(previous);
+      Alert.alert(t('preferences.saveFailed'));
+    }
+  };
+
+  const toggleNotification = async (type: NotificationPreferenceType, enabled: boolean) => {
+    if (!settings) return;
+
+    const previous = settings;
+    setSettings({
+      ...settings,
+      user: {
+        ...settings.user,
+        notifications: { ...settings.user.notifications, [type]: enabled },
+      },
+    });
+    try {
+      const saved = await settingsService.updateMySettings({ notifications: { [type]: enabled } });
+      setSettings((prev) => (prev ? { ...prev, user: saved } : prev));
+    } catch {
+      setSettings(previous);
+      Alert.alert(t('preferences.saveFailed'));
+    }
+  };
+
+  const householdSettings = settings?.household;
+  const weekStartOption =
+    WEEK_START_OPTIONS.find((option) => option.day === householdSettings?.weekStartDay) ??
+    WEEK_START_OPTIONS[0];
+  const deviceTimeZone = getDeviceTimeZone();
 
   const handleSignOut = async () => {
     await signOut();
@@ -189,26 +321,132 @@ export function SettingsScreen() {
           </TouchableOpacity>
         </View>
 
-        {/* Notifications Section - hidden until push notifications are implemented */}
-        {SHOW_PUSH_NOTIFICATIONS_SETTING && (
+        {/* Preferences Section - household-wide, only admins can change them */}
+        {householdSettings && (
           <View style={styles.section}>
             {textWrapper(
-              <Text style={[styles.sectionTitle, isRtlLayout ? styles.rtlText : undefined]}>{t('notifications')}</Text>
+              <Text style={[styles.sectionTitle, isRtlLayout ? styles.rtlText : undefined]}>{t('preferences.title')}</Text>
             )}
-            <View style={styles.settingRow}>
+            <TouchableOpacity
+              style={styles.settingRow}
+              onPress={() =>
+                saveHouseholdSettings({
+                  units: householdSettings.units === 'metric' ? 'imperial' : 'metric',
+                })
+              }
+              disabled={!canManageHousehold}
+              testID="setting-units"
+            >
               <View style={styles.settingInfo}>
-                <Ionicons name="notifications-outline" size={22} color={colors.textPrimary} />
+                <View style={[styles.iconContainer, { backgroundColor: colors.pastel.green }]}>
+                  <Ionicons name="scale-outline" size={20} color={colors.primary} />
+                </View>
                 {textWrapper(
-                  <Text style={[styles.settingLabel, isRtlLayout ? styles.rtlText : undefined]}>{t('pushNotifications')}</Text>
+                  <Text style={[styles.settingLabel, isRtlLayout ? styles.rtlText : undefined]}>{t('preferences.units')}</Text>
                 )}
               </View>
-              <Switch
-                value={pushNotifications}
-                onValueChange={setPushNotifications}
-                trackColor={{ false: colors.border, true: colors.chores }}
-                thumbColor={colors.surface}
-              />
-            </View>
+              {textWrapper(
+                <Text style={[styles.settingValue, isRtlLayout ? styles.rtlText : undefined]}>
+                  {t(`preferences.unitSystems.${householdSettings.units}`)}
+                </Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.settingRow}
+              onPress={() =>
+                saveHouseholdSettings({
+                  weekStartDay: nextOption(WEEK_START_OPTIONS, weekStartOption).day,
+                })
+              }
+              disabled={!canManageHousehold}
+              testID="setting-week-start"
+            >
+              <View style={styles.settingInfo}>
+                <View style={[styles.iconContainer, { backgroundColor: colors.pastel.yellow }]}>
+                  <Ionicons name="calendar-outline" size={20} color={colors.secondary} />
+                </View>
+                {textWrapper(
+                  <Text style={[styles.settingLabel, isRtlLayout ? styles.rtlText : undefined]}>{t('preferences.weekStart')}</Text>
+                )}
+              </View>
+              {textWrapper(
+                <Text style={[styles.settingValue, isRtlLayout ? styles.rtlText : undefined]}>
+                  {t(`preferences.weekDays.${weekStartOption.key}`)}
+                </Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.settingRow}
+              onPress={() => deviceTimeZone && saveHouseholdSettings({ timezone: deviceTimeZone })}
+              disabled={!canManageHousehold || !deviceTimeZone || deviceTimeZone === householdSettings.timezone}
+              accessibilityHint={t('preferences.useDeviceTimezone')}
+              testID="setting-timezone"
+            >
+              <View style={styles.settingInfo}>
+                <View style={[styles.iconContainer, { backgroundColor: colors.pastel.cyan }]}>
+                  <Ionicons name="globe-outline" size={20} color={colors.primary} />
+                </View>
+                {textWrapper(
+                  <Text style={[styles.settingLabel, isRtlLayout ? styles.rtlText : undefined]}>{t('preferences.timezone')}</Text>
+                )}
+              </View>
+              {textWrapper(
+                <Text style={[styles.settingValue, isRtlLayout ? styles.rtlText : undefined]}>{householdSettings.timezone}</Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.settingRow}
+              onPress={() =>
+                saveHouseholdSettings({
+                  defaultChoreReminder: nextOption<string | null>(
+                    DEFAULT_REMINDER_OPTIONS,
+                    householdSettings.defaultChoreReminder
+                  ),
+                })
+              }
+              disabled={!canManageHousehold}
+              testID="setting-chore-reminder"
+            >
+              <View style={styles.settingInfo}>
+                <View style={[styles.iconContainer, { backgroundColor: colors.pastel.peach }]}>
+                  <Ionicons name="alarm-outline" size={20} color={colors.secondary} />
+                </View>
+                {textWrapper(
+                  <Text style={[styles.settingLabel, isRtlLayout ? styles.rtlText : undefined]}>{t('preferences.defaultChoreReminder')}</Text>
+                )}
+              </View>
+              {textWrapper(
+                <Text style={[styles.settingValue, isRtlLayout ? styles.rtlText : undefined]}>
+                  {t(`preferences.reminderOptions.${householdSettings.defaultChoreReminder ?? 'none'}`)}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Notifications Section - the user's own preferences */}
+        {settings && (
+          <View style={styles.section}>
+            {textWrapper(
+              <Text style={[styles.sectionTitle, isRtlLayout ? styles.rtlText : undefined]}>{t('notifications')}</Text>
+            )}
+            {NOTIFICATION_PREFERENCES.map(({ type, labelKey }) => (
+              <View key={type} style={styles.settingRow}>
+                <View style={styles.settingInfo}>
+                  <Ionicons name="notifications-outline" size={22} color={colors.textPrimary} />
+                  {textWrapper(
+                    <Text style={[styles.settingLabel, isRtlLayout ? styles.rtlText : undefined]}>{t(labelKey)}</Text>
+                  )}
+                </View>
+                <Switch
+                  testID={`notification-${type}`}
+                  value={settings.user.notifications[type]}
+                  onValueChange={(enabled) => toggleNotification(type, enabled)}
+                  trackColor={{ false: colors.border, true: colors.chores }}
+                  thumbColor={colors.surface}
+                />
+              </View>
+            ))}
           </View>
         )}
 
@@ -217,6 +455,26 @@ export function SettingsScreen() {
           {textWrapper(
             <Text style={[styles.sectionTitle, isRtlLayout ? styles.rtlText : undefined]}>{t('household')}</Text>
           )}
+          {households.length > 1 && (
+            <TouchableOpacity
+              style={styles.settingRow}
+              onPress={() => setShowSwitchHousehold(true)}
+            >
+              <View style={styles.settingInfo}>
+                <View style={[styles.iconContainer, { backgroundColor: colors.pastel.cyan }]}>
+                  <Ionicons name="swap-horizontal-outline" size={20} color={colors.primary} />
+                </View>
+                {textWrapper(
+                  <Text style={[styles.settingLabel, isRtlLayout ? styles.rtlText : undefined]}>{t('switchHousehold')}</Text>
+                )}
+              </View>
+              {textWrapper(
+                <Text style={[styles.settingValue, isRtlLayout ? styles.rtlText : undefined]}>{activeHouseholdName}</Text>
+              )}
+              <Ionicons name={getDirectionalIcon('chevron-forward')} size={20} color={colors.textSecondary} />
+            </TouchableOpacity>
+          )}
+
           <TouchableOpacity
             style={styles.settingRow}
             onPress={() => setShowManageHousehold(true)}
@@ -232,7 +490,7 @@ export function SettingsScreen() {
             <Ionicons name={getDirectionalIcon('chevron-forward')} size={20} color={colors.textSecondary} />
           </TouchableOpacity>
 
-          {isAdmin && (
+          {canInviteMembers && (
             <TouchableOpacity
               style={styles.settingRow}
               onPress={() => setShowInviteModal(true)}
@@ -266,6 +524,26 @@ export function SettingsScreen() {
               <Ionicons name={getDirectionalIcon('chevron-forward')} size={20} color={colors.textSecondary} />
             </TouchableOpacity>
           )}
+          {isSignedIn && onOpenSyncIssues && (
+            <TouchableOpacity
+              style={styles.settingRow}
+              onPress={onOpenSyncIssues}
+              accessibilityRole="button"
+            >
+              <View style={styles.settingInfo}>
+                <View style={[styles.iconContainer, { backgroundColor: colors.pastel.coral }]}>
+                  <Ionicons name="cloud-offline-outline" size={20} color={issueCount > 0 ? colors.error : colors.primary} />
+                </View>
+                {textWrapper(
+                  <Text style={[styles.settingLabel, isRtlLayout ? styles.rtlText : undefined]}>{t('syncIssues.title')}</Text>
+                )}
+              </View>
+              {issueCount > 0 && textWrapper(
+                <Text style={[styles.settingValue, { color: colors.error }, isRtlLayout ? styles.rtlText : undefined]}>{issueCount}</Text>
+              )}
+              <Ionicons name={getDirectionalIcon('chevron-forward')} size={20} color={colors.textSecondary} />
+            </TouchableOpacity>
+          )}
           <TouchableOpacity
             style={styles.settingRow}
             onPress={handleDeleteAccountPress}
@@ -358,6 +636,11 @@ export function SettingsScreen() {
         onClose={() => setShowInviteModal(false)}
       />
 
+      <SwitchHouseholdModal
+        visible={showSwitchHousehold}
+        onClose={() => setShowSwitchHousehold(false)}
+      />
+
     </SafeAreaView >
   );
 }
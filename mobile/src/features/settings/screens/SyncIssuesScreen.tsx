@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Text, StyleSheet, SafeAreaView, ScrollView, ActivityIndicator, Alert } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { colors, spacing, typography } from '../../../theme';
+import { ScreenHeader } from '../../../common/components/ScreenHeader';
+import { EmptyState } from '../../../common/components/EmptyState';
+import { useSyncIssues } from '../../../common/hooks/useSyncIssues';
+import type { QueuedWrite } from '../../../common/utils/syncQueueStorage';
+import { SyncIssueCard } from '../components/SyncIssueCard';
+
+interface SyncIssuesScreenProps {
+  onBack: () => void;
+}
+
+/**
+ * Lists offline writes that failed permanently or conflicted with the server,
+ * so the user can retry them, keep their version, keep the server's, or discard them.
+ */
+export function SyncIssuesScreen({ onBack }: SyncIssuesScreenProps) {
+  const { t } = useTranslation('settings');
+  const { issues, isLoading, retry, keepMine, keepTheirs, discard } = useSyncIssues();
+  const [busyIssueId, setBusyIssueId] = useState<string | null>(null);
+
+  const runAction = async (issue: QueuedWrite, action: (issue: QueuedWrite) => Promise<void>) => {
+    setBusyIssueId(issue.id);
+    try {
+      await action(issue);
+    } catch (error) {
+      console.error('Failed to resolve sync issue:', error);
+      Alert.alert(t('syncIssues.actionFailed'));
+    } finally {
+      setBusyIssueId(null);
+    }
+  };
+
+  const confirmDiscard = (issue: QueuedWrite) => {
+    Alert.alert(t('syncIssues.discardConfirmTitle'), t('syncIssues.discardConfirmMessage'), [
+      { text: t('syncIssues.cancel'), style: 'cancel' },
+      {
+        text: t('syncIssues.discard'),
+        style: 'destructive',
+        onPress: () => runAction(issue, discard),
+      },
+    ]);
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return <ActivityIndicator style={styles.loading} color={colors.primary} />;
+    }
+    if (issues.length === 0) {
+      return (
+        <EmptyState
+          icon="cloud-done-outline"
+          title={t('syncIssues.emptyTitle')}
+          description={t('syncIssues.emptyDescription')}
+        />
+      );
+    }
+    return (
+      <>
+        <Text style={styles.description}>{t('syncIssues.description')}</Text>
+        {issues.map((issue) => (
+          <SyncIssueCard
+            key={issue.id}
+            issue={issue}
+            isBusy={busyIssueId === issue.id}
+            onRetry={() => runAction(issue, retry)}
+            onKeepMine={() => runAction(issue, keepMine)}
+            onKeepTheirs={() => runAction(issue, keepTheirs)}
+            onDiscard={() => confirmDiscard(issue)}
+          />
+        ))}
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScreenHeader
+        title={t('syncIssues.title')}
+        titleIcon="cloud-offline-outline"
+        leftIcon="back"
+        onLeftPress={onBack}
+      />
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+        {renderContent()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: spacing.lg,
+  },
+  description: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    marginBottom: spacing.md,
+  },
+  loading: {
+    marginTop: spacing.xl,
+  },
+});
@@ -21,6 +21,8 @@ jest.mock('../../../../contexts/HouseholdContext', () => ({
     addMember: jest.fn(),
     removeMember: jest.fn(),
     getMemberById: jest.fn(),
+    households: [],
+    activeHouseholdId: null,
   })),
 }));
 
@@ -29,6 +31,10 @@ jest.mock(manageHouseholdModalPath, () => ({
   ManageHouseholdModal: () => null,
 }));
 
+jest.mock('../../components/SwitchHouseholdModal', () => ({
+  SwitchHouseholdModal: () => null,
+}));
+
 const mockDeleteMyAccount = jest.fn();
 jest.mock('../../services/accountService', () => ({
   accountService: {
@@ -36,6 +42,22 @@ jest.mock('../../services/accountService', () => ({
   },
 }));
 
+jest.mock('../../../../config', () => {
+  const { config } = jest.requireActual('../../../../config');
+  return { config: { ...config, mockData: { enabled: false } } };
+});
+
+const mockGetSettings = jest.fn();
+const mockUpdateHouseholdSettings = jest.fn();
+const mockUpdateMySettings = jest.fn();
+jest.mock('../../services/settingsService', () => ({
+  settingsService: {
+    getSettings: () => mockGetSettings(),
+    updateHouseholdSettings: (updates: unknown) => mockUpdateHouseholdSettings(updates),
+    updateMySettings: (updates: unknown) => mockUpdateMySettings(updates),
+  },
+}));
+
 jest.mock('../../utils/errorMessages', () => ({
   getDeleteAccountErrorMessage: jest.fn((error: any, t: any) => {
     if (error?.name === 'NetworkError') {
@@ -91,6 +113,11 @@ jest.mock('../../../../contexts/LegalLinksContext', () => ({
   useLegalLinks: () => mockLegalLinks,
 }));
 
+const mockSyncQueueStatus = { issueCount: 0 };
+jest.mock('../../../../common/hooks/useSyncStatus', () => ({
+  useSyncQueueStatus: () => mockSyncQueueStatus,
+}));
+
 const mockOpenLegalUrl = jest.fn().mockResolvedValue(undefined);
 jest.mock('../../../../common/utils/legalLinks', () => ({
   openLegalUrl: (url: string) => mockOpenLegalUrl(url),
@@ -138,6 +165,7 @@ jest.mock('../../components/LanguageSelectorModal', () => {
 
 const { SettingsScreen } = require('../SettingsScreen');
 const { useAuth } = require('../../../../contexts/AuthContext');
+const { useHousehold } = require('../../../../contexts/HouseholdContext');
 
 describe('SettingsScreen', () => {
   const mockSignOut = jest.fn();
@@ -150,9 +178,27 @@ describe('SettingsScreen', () => {
     signOut: mockSignOut,
   };
 
+  const deviceTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const savedSettings = {
+    household: {
+      units: 'metric',
+      weekStartDay: 0,
+      timezone: 'UTC',
+      defaultShoppingListId: null,
+      defaultChoreReminder: null,
+    },
+    user: {
+      language: 'en',
+      timezone: deviceTimeZone,
+      notifications: { chore_reminder: true, main_list_items_added: true },
+    },
+  };
+
   beforeEach(() => {
     jest.clearAllMocks();
     (useAuth as jest.Mock).mockReturnValue(defaultAuthContext);
+    mockGetSettings.mockResolvedValue(savedSettings);
+    mockSyncQueueStatus.issueCount = 0;
     consoleWarnSpy.mockImplementation((message, ...args) => {
       if (typeof message === 'string' && message.includes('SafeAreaView has been deprecated')) {
         return;
@@ -198,6 +244,131 @@ describe('SettingsScreen', () => {
     });
   });
 
+  describe('Sync issues', () => {
+    it('opens the sync issues screen and shows the issue count', () => {
+      mockSyncQueueStatus.issueCount = 2;
+      const onOpenSyncIssues = jest.fn();
+      const { getByText } = render(<SettingsScreen onOpenSyncIssues={onOpenSyncIssues} />);
+
+      expect(getByText('2')).toBeTruthy();
+      fireEvent.press(getByText('syncIssues.title'));
+
+      expect(onOpenSyncIssues).toHaveBeenCalledTimes(1);
+    });
+
+    it('hides the row for guests', () => {
+      (useAuth as jest.Mock).mockReturnValue({
+        ...defaultAuthContext,
+        user: { ...defaultAuthContext.user, isGuest: true },
+      });
+      const { queryByText } = render(<SettingsScreen onOpenSyncIssues={jest.fn()} />);
+
+      expect(queryByText('syncIssues.title')).toBeNull();
+    });
+  });
+
+  describe('Preferences', () => {
+    it('shows the saved household preferences', async () => {
+      const { findByText } = render(<SettingsScreen />);
+
+      expect(await findByText('preferences.unitSystems.metric')).toBeTruthy();
+      expect(await findByText('preferences.weekDays.sunday')).toBeTruthy();
+      expect(await findByText('preferences.reminderOptions.none')).toBeTruthy();
+    });
+
+    it('saves the next unit system when an admin presses units', async () => {
+      mockUpdateHouseholdSettings.mockResolvedValue({
+        ...savedSettings.household,
+        units: 'imperial',
+      });
+      const { findByTestId, findByText } = render(<SettingsScreen />);
+
+      fireEvent.press(await findByTestId('setting-units'));
+
+      expect(mockUpdateHouseholdSettings).toHaveBeenCalledWith({ units: 'imperial' });
+      expect(await findByText('preferences.unitSystems.imperial')).toBeTruthy();
+    });
+
+    it('does not let members change household preferences', async () => {
+      (useAuth as jest.Mock).mockReturnValue({
+        ...defaultAuthContext,
+        user: { ...defaultAuthContext.user, role: 'Member' },
+      });
+      const { findByTestId } = render(<SettingsScreen />);
+
+      fireEvent.press(await findByTestId('setting-week-start'));
+
+      expect(mockUpdateHouseholdSettings).not.toHaveBeenCalled();
+    });
+
+    it('saves a notification preference', async () => {
+      mockUpdateMySettings.mockResolvedValue({
+        ...savedSettings.user,
+        notifications: { chore_reminder: false, main_list_items_added: true },
+      });
+      const { findByTestId } = render(<SettingsScreen />);
+
+      fireEvent(await findByTestId('notification-chore_reminder'), 'valueChange', false);
+
+      await waitFor(() => {
+        expect(mockUpdateMySettings).toHaveBeenCalledWith({
+          notifications: { chore_reminder: false },
+        });
+      });
+    });
+
+    it('syncs the device language and timezone to the backend', async () => {
+      mockGetSettings.mockResolvedValue({
+        ...savedSettings,
+        user: { ...savedSettings.user, language: null, timezone: null },
+      });
+      mockUpdateMySettings.mockResolvedValue(savedSettings.user);
+
+      render(<SettingsScreen />);
+
+      await waitFor(() => {
+        expect(mockUpdateMySettings).toHaveBeenCalledWith({
+          language: 'en',
+          timezone: deviceTimeZone,
+        });
+      });
+      expect(mockUpdateMySettings).toHaveBeenCalledTimes(1);
+    });
+
+    it('hides preferences for guests', async () => {
+      (useAuth as jest.Mock).mockReturnValue({
+        ...defaultAuthContext,
+        user: { ...defaultAuthContext.user, isGuest: true },
+      });
+      const { queryByTestId } = render(<SettingsScreen />);
+
+      await waitFor(() => expect(queryByTestId('setting-units')).toBeNull());
+      expect(mockGetSettings).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Household switcher', () => {
+    it('hides the switcher for users with a single household', () => {
+      const { queryByText } = render(<SettingsScreen />);
+      expect(queryByText('switchHousehold')).toBeNull();
+    });
+
+    it('shows the active household for users with several households', () => {
+      (useHousehold as jest.Mock).mockReturnValueOnce({
+        members: [],
+        households: [
+          { id: 'h1', name: 'Home', role: 'Admin', joinedAt: '2026-01-01', isActive: true },
+          { id: 'h2', name: 'Cabin', role: 'Member', joinedAt: '2026-02-01', isActive: false },
+        ],
+        activeHouseholdId: 'h1',
+      });
+
+      const { getByText } = render(<SettingsScreen />);
+      expect(getByText('switchHousehold')).toBeTruthy();
+      expect(getByText('Home')).toBeTruthy();
+    });
+  });
+
   describe('Legal links', () => {
     it('calls openLegalUrl with privacy URL when Privacy Policy row is pressed', () => {
       const { getByText } = render(<SettingsScreen />);
@@ -0,0 +1,136 @@
+import React from 'react';
+import { render, fireEvent, waitFor } from '@testing-library/react-native';
+import { Alert } from 'react-native';
+import type { QueuedWrite } from '../../../../common/utils/syncQueueStorage';
+
+jest.mock('@expo/vector-icons', () => ({
+  Ionicons: () => null,
+}));
+
+const mockActions = {
+  retry: jest.fn(),
+  keepMine: jest.fn(),
+  keepTheirs: jest.fn(),
+  discard: jest.fn(),
+};
+const mockSyncIssues = { issues: [] as QueuedWrite[], isLoading: false };
+jest.mock('../../../../common/hooks/useSyncIssues', () => ({
+  useSyncIssues: () => ({ ...mockSyncIssues, ...mockActions, refresh: jest.fn() }),
+}));
+
+const { SyncIssuesScreen } = require('../SyncIssuesScreen');
+
+const conflictedItem: QueuedWrite = {
+  id: 'queue-1',
+  operationId: 'op-1',
+  entityType: 'shoppingItems',
+  op: 'update',
+  target: { localId: 'item-1', serverId: 'item-1' },
+  payload: { id: 'item-1', name: 'Milk', quantity: 2 },
+  clientTimestamp: '2026-01-25T10:00:00.000Z',
+  attemptCount: 1,
+  status: 'RETRYING',
+  conflict: {
+    reason: 'stale_base',
+    fields: ['quantity'],
+    serverEntity: { id: 'item-1', name: 'Milk', quantity: 3 },
+    reportedAt: '2026-01-25T11:00:00.000Z',
+  },
+};
+
+const failedCreate: QueuedWrite = {
+  ...conflictedItem,
+  id: 'queue-2',
+  op: 'create',
+  payload: { id: 'item-2', name: 'Bread' },
+  status: 'FAILED_PERMANENT',
+  conflict: undefined,
+  lastError: 'Sync failed: max retries exceeded',
+};
+
+describe('SyncIssuesScreen', () => {
+  const alertSpy = jest.spyOn(Alert, 'alert');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.values(mockActions).forEach((action) => action.mockResolvedValue(undefined));
+    mockSyncIssues.issues = [];
+    mockSyncIssues.isLoading = false;
+    alertSpy.mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    alertSpy.mockRestore();
+  });
+
+  it('shows an empty state when there are no issues', () => {
+    const { getByText } = render(<SyncIssuesScreen onBack={jest.fn()} />);
+
+    expect(getByText('syncIssues.emptyTitle')).toBeTruthy();
+  });
+
+  it('shows the local and server versions of a conflicted write side by side', () => {
+    mockSyncIssues.issues = [conflictedItem];
+    const { getByText, getByTestId } = render(<SyncIssuesScreen onBack={jest.fn()} />);
+
+    expect(getByTestId('sync-issue-queue-1')).toBeTruthy();
+    expect(getByText('syncIssues.yourVersion')).toBeTruthy();
+    expect(getByText('syncIssues.serverVersion')).toBeTruthy();
+    expect(getByText('2')).toBeTruthy();
+    expect(getByText('3')).toBeTruthy();
+  });
+
+  it.each([
+    ['syncIssues.retry', 'retry'],
+    ['syncIssues.keepMine', 'keepMine'],
+    ['syncIssues.keepTheirs', 'keepTheirs'],
+  ] as const)('runs %s', async (label, action) => {
+    mockSyncIssues.issues = [conflictedItem];
+    const { getByText } = render(<SyncIssuesScreen onBack={jest.fn()} />);
+
+    fireEvent.press(getByText(label));
+
+    await waitFor(() => {
+      expect(mockActions[action]).toHaveBeenCalledWith(conflictedItem);
+    });
+  });
+
+  it('asks for confirmation before discarding', async () => {
+    mockSyncIssues.issues = [conflictedItem];
+    const { getByText } = render(<SyncIssuesScreen onBack={jest.fn()} />);
+
+    fireEvent.press(getByText('syncIssues.discard'));
+
+    expect(mockActions.discard).not.toHaveBeenCalled();
+    const buttons = alertSpy.mock.calls[0][2] as Array<{ style?: string; onPress?: () => void }>;
+    buttons.find((button) => button.style === 'destructive')?.onPress?.();
+
+    await waitFor(() => {
+      expect(mockActions.discard).toHaveBeenCalledWith(conflictedItem);
+    });
+  });
+
+  it('only offers retry and discard without a server copy', () => {
+    mockSyncIssues.issues = [failedCreate];
+    const { getByText, queryByText } = render(<SyncIssuesScreen onBack={jest.fn()} />);
+
+    expect(getByText('syncIssues.serverUnavailable')).toBeTruthy();
+    expect(getByText('syncIssues.retry')).toBeTruthy();
+    expect(getByText('syncIssues.discard')).toBeTruthy();
+    expect(queryByText('syncIssues.keepMine')).toBeNull();
+    expect(queryByText('syncIssues.keepTheirs')).toBeNull();
+  });
+
+  it('alerts when an action fails', async () => {
+    mockSyncIssues.issues = [conflictedItem];
+    mockActions.retry.mockRejectedValue(new Error('boom'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const { getByText } = render(<SyncIssuesScreen onBack={jest.fn()} />);
+
+    fireEvent.press(getByText('syncIssues.retry'));
+
+    await waitFor(() => {
+      expect(alertSpy).toHaveBeenCalledWith('syncIssues.actionFailed');
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { api } from '../../../services/api';
+
+export type UnitSystem = 'metric' | 'imperial';
+
+/** Notification types a user can turn off, keyed like the push payload `type`. */
+export type NotificationPreferenceType = 'chore_reminder' | 'main_list_items_added';
+
+/**
+ * Preferences shared by every member of the household.
+ */
+export interface HouseholdSettings {
+  units: UnitSystem;
+  /** First day of the week, 0 = Sunday */
+  weekStartDay: number;
+  /** IANA timezone, e.g. Asia/Jerusalem */
+  timezone: string;
+  defaultShoppingListId: string | null;
+  /** Reminder offset applied to new chores, e.g. 1h */
+  defaultChoreReminder: string | null;
+}
+
+/**
+ * Preferences of the signed-in user. A null language or timezone follows
+ * the device and the household respectively.
+ */
+export interface UserSettings {
+  language: string | null;
+  timezone: string | null;
+  notifications: Record<NotificationPreferenceType, boolean>;
+}
+
+export interface AppSettings {
+  household: HouseholdSettings;
+  user: UserSettings;
+}
+
+export type HouseholdSettingsUpdate = Partial<HouseholdSettings>;
+
+export interface UserSettingsUpdate {
+  language?: string | null;
+  timezone?: string | null;
+  notifications?: Partial<Record<NotificationPreferenceType, boolean>>;
+}
+
+/**
+ * Service for household and user settings stored on the backend.
+ */
+export const settingsService = {
+  /**
+   * Gets the settings of the active household and the signed-in user.
+   * The backend returns defaults for anything never saved.
+   */
+  async getSettings(): Promise<AppSettings> {
+    return api.get<AppSettings>('/settings');
+  },
+
+  /**
+   * Updates household settings. Only admins can change them.
+   *
+   * @param updates - Fields to change
+   * @returns The saved household settings
+   */
+  async updateHouseholdSettings(updates: HouseholdSettingsUpdate): Promise<HouseholdSettings> {
+    return api.patch<HouseholdSettings>('/settings/household', updates);
+  },
+
+  /**
+   * Updates the signed-in user's settings. Notification preferences are
+   * merged into the saved ones.
+   *
+   * @param updates - Fields to change
+   * @returns The saved user settings
+   */
+  async updateMySettings(updates: UserSettingsUpdate): Promise<UserSettings> {
+    return api.patch<UserSettings>('/settings/me', updates);
+  },
+};
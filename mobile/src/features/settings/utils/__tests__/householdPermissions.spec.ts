@@ -0,0 +1,34 @@
+import { PERMISSIONS, hasPermission, normalizeHouseholdRole } from '../householdPermissions';
+
+describe('householdPermissions', () => {
+  describe('hasPermission', () => {
+    it.each([
+      ['Admin', PERMISSIONS.MEMBERS_CHANGE_ROLE, true],
+      ['admin', PERMISSIONS.MEMBERS_INVITE, true],
+      ['Member', PERMISSIONS.RECIPES_EDIT, true],
+      ['Member', PERMISSIONS.MEMBERS_INVITE, false],
+      ['Member', PERMISSIONS.HOUSEHOLD_MANAGE, false],
+      ['Kid', PERMISSIONS.SHOPPING_CHECK_ITEMS, true],
+      ['Kid', PERMISSIONS.CHORES_COMPLETE_OWN, true],
+      ['Kid', PERMISSIONS.SHOPPING_MANAGE_LISTS, false],
+      ['Kid', PERMISSIONS.RECIPES_EDIT, false],
+      ['Kid', PERMISSIONS.MEMBERS_INVITE, false],
+      ['Guest', PERMISSIONS.SHOPPING_CHECK_ITEMS, false],
+      [undefined, PERMISSIONS.SHOPPING_CHECK_ITEMS, false],
+    ])('%s with %s → %s', (role, permission, expected) => {
+      expect(hasPermission(role, permission)).toBe(expected);
+    });
+  });
+
+  describe('normalizeHouseholdRole', () => {
+    it.each([
+      ['ADMIN', 'Admin'],
+      ['kid', 'Kid'],
+      ['Member', 'Member'],
+      ['owner', null],
+      [null, null],
+    ])('normalizes %p to %p', (role, expected) => {
+      expect(normalizeHouseholdRole(role)).toBe(expected);
+    });
+  });
+});
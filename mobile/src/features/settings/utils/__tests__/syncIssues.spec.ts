@@ -0,0 +1,93 @@
+import type { TFunction } from 'i18next';
+import type { QueuedWrite } from '../../../../common/utils/syncQueueStorage';
+import {
+  formatSyncIssueValue,
+  getSyncIssueFieldRows,
+  getSyncIssueName,
+  getSyncIssueReasonKey,
+} from '../syncIssues';
+
+const t = ((key: string, options?: { count?: number }) =>
+  options?.count !== undefined ? `${key}:${options.count}` : key) as unknown as TFunction;
+
+const buildIssue = (overrides: Partial<QueuedWrite> = {}): QueuedWrite => ({
+  id: 'queue-1',
+  operationId: 'op-1',
+  entityType: 'shoppingItems',
+  op: 'update',
+  target: { localId: 'item-1' },
+  payload: { id: 'item-1', name: 'Milk', quantity: 2, isChecked: false },
+  clientTimestamp: '2026-01-25T10:00:00.000Z',
+  attemptCount: 3,
+  status: 'FAILED_PERMANENT',
+  ...overrides,
+});
+
+describe('syncIssues utils', () => {
+  describe('getSyncIssueName', () => {
+    it.each([
+      [{ name: 'Milk' }, 'Milk'],
+      [{ title: 'Dishes' }, 'Dishes'],
+      [{ name: '  ' }, 'item-1'],
+      [null, 'item-1'],
+    ])('names %p as %p', (payload, expected) => {
+      expect(getSyncIssueName(buildIssue({ payload }))).toBe(expected);
+    });
+  });
+
+  describe('getSyncIssueReasonKey', () => {
+    it.each([
+      [undefined, 'syncIssues.reasons.failed'],
+      ['not_found', 'syncIssues.reasons.not_found'],
+      ['stale_base', 'syncIssues.reasons.stale_base'],
+      ['Unexpected failure', 'syncIssues.reasons.error'],
+    ])('maps %p to %p', (reason, expected) => {
+      const conflict = reason ? { reason, reportedAt: '2026-01-25T11:00:00.000Z' } : undefined;
+      expect(getSyncIssueReasonKey(buildIssue({ conflict }))).toBe(expected);
+    });
+  });
+
+  describe('getSyncIssueFieldRows', () => {
+    it('pairs local and server values and flags conflicting fields', () => {
+      const rows = getSyncIssueFieldRows(
+        buildIssue({
+          conflict: {
+            reason: 'stale_base',
+            fields: ['quantity'],
+            serverEntity: { id: 'item-1', name: 'Milk', quantity: 3, isChecked: true },
+            reportedAt: '2026-01-25T11:00:00.000Z',
+          },
+        })
+      );
+
+      expect(rows.find((row) => row.field === 'quantity')).toEqual({
+        field: 'quantity',
+        local: 2,
+        server: 3,
+        isConflicting: true,
+      });
+      expect(rows.find((row) => row.field === 'name')?.isConflicting).toBe(false);
+    });
+
+    it('omits server values when the server sent no copy', () => {
+      const rows = getSyncIssueFieldRows(buildIssue());
+
+      expect(rows.map((row) => row.field)).toEqual(['name', 'quantity', 'unit', 'category', 'isChecked']);
+      rows.forEach((row) => expect(row).not.toHaveProperty('server'));
+    });
+  });
+
+  describe('formatSyncIssueValue', () => {
+    it.each([
+      [null, '—'],
+      ['', '—'],
+      [true, 'syncIssues.yes'],
+      [false, 'syncIssues.no'],
+      [[1, 2], 'syncIssues.itemCount:2'],
+      [2, '2'],
+      ['Milk', 'Milk'],
+    ])('formats %p as %p', (value, expected) => {
+      expect(formatSyncIssueValue(value, t)).toBe(expected);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Household roles as stored on the backend `User.role`.
+ */
+export const HOUSEHOLD_ROLES = ['Admin', 'Member', 'Kid'] as const;
+
+export type HouseholdRole = (typeof HOUSEHOLD_ROLES)[number];
+
+/**
+ * Capabilities enforced by the backend permission guard. Keep in sync with
+ * `backend/src/common/constants/permissions.constants.ts`.
+ */
+export const PERMISSIONS = {
+  HOUSEHOLD_MANAGE: 'household:manage',
+  MEMBERS_INVITE: 'members:invite',
+  MEMBERS_REMOVE: 'members:remove',
+  MEMBERS_CHANGE_ROLE: 'members:change-role',
+  SHOPPING_MANAGE_LISTS: 'shopping:manage-lists',
+  SHOPPING_EDIT_ITEMS: 'shopping:edit-items',
+  SHOPPING_CHECK_ITEMS: 'shopping:check-items',
+  RECIPES_EDIT: 'recipes:edit',
+  RECIPES_COOK: 'recipes:cook',
+  CHORES_MANAGE: 'chores:manage',
+  CHORES_COMPLETE_OWN: 'chores:complete-own',
+  CHORES_COMPLETE_ANY: 'chores:complete-any',
+  PANTRY_EDIT: 'pantry:edit',
+  MEAL_PLANS_EDIT: 'meal-plans:edit',
+} as const;
+
+export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
+
+const ALL_PERMISSIONS = Object.values(PERMISSIONS);
+
+const ROLE_PERMISSIONS: Record<HouseholdRole, readonly Permission[]> = {
+  Admin: ALL_PERMISSIONS,
+  Member: ALL_PERMISSIONS.filter(
+    permission => !permission.startsWith('household:') && !permission.startsWith('members:'),
+  ),
+  Kid: [PERMISSIONS.SHOPPING_CHECK_ITEMS, PERMISSIONS.CHORES_COMPLETE_OWN],
+};
+
+/**
+ * Normalizes a role string ("admin", "ADMIN", "Admin") to a household role.
+ *
+ * @returns The role, or null for unknown roles
+ */
+export function normalizeHouseholdRole(role: string | null | undefined): HouseholdRole | null {
+  const normalized = role?.toLowerCase();
+  return HOUSEHOLD_ROLES.find(candidate => candidate.toLowerCase() === normalized) ?? null;
+}
+
+/**
+ * Whether a household role has a capability. Unknown roles have none.
+ *
+ * @example
+ * hasPermission('Kid', PERMISSIONS.RECIPES_EDIT) // false
+ */
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  const householdRole = normalizeHouseholdRole(role);
+  return householdRole ? ROLE_PERMISSIONS[householdRole].includes(permission) : false;
+}
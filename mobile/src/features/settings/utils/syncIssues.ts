@@ -0,0 +1,89 @@
+import type { TFunction } from 'i18next';
+import type { QueuedWrite } from '../../../common/utils/syncQueueStorage';
+import type { SyncEntityType } from '../../../common/utils/cacheMetadata';
+
+/**
+ * Fields compared side by side for a sync issue, per entity type. Local
+ * payloads and server copies share these field names.
+ */
+export const SYNC_ISSUE_FIELDS: Record<SyncEntityType, readonly string[]> = {
+  recipes: ['title', 'ingredients', 'instructions'],
+  shoppingLists: ['name', 'color'],
+  shoppingItems: ['name', 'quantity', 'unit', 'category', 'isChecked'],
+  chores: ['title', 'dueDate', 'isCompleted'],
+};
+
+/** Conflict reasons with their own label; anything else uses `reasons.error`. */
+const KNOWN_REASONS = ['not_found', 'stale_base', 'error'] as const;
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+
+/**
+ * Returns the display name of the entity a queued write targets.
+ */
+export function getSyncIssueName(issue: QueuedWrite): string {
+  const payload = asRecord(issue.payload);
+  const name = payload.title ?? payload.name;
+  return typeof name === 'string' && name.trim() ? name : issue.target.localId;
+}
+
+/**
+ * Returns the i18n key (settings namespace) explaining why a write needs attention.
+ */
+export function getSyncIssueReasonKey(issue: QueuedWrite): string {
+  const reason = issue.conflict?.reason;
+  if (!reason) {
+    return 'syncIssues.reasons.failed';
+  }
+  return (KNOWN_REASONS as readonly string[]).includes(reason)
+    ? `syncIssues.reasons.${reason}`
+    : 'syncIssues.reasons.error';
+}
+
+/**
+ * Builds the rows compared side by side: each field's local and server value.
+ * Server values are omitted when the server sent no copy.
+ */
+export function getSyncIssueFieldRows(issue: QueuedWrite): Array<{
+  field: string;
+  local: unknown;
+  server?: unknown;
+  isConflicting: boolean;
+}> {
+  const local = asRecord(issue.payload);
+  const server = issue.conflict?.serverEntity;
+  const conflictingFields = new Set(issue.conflict?.fields ?? []);
+
+  return SYNC_ISSUE_FIELDS[issue.entityType].map((field) => ({
+    field,
+    local: local[field],
+    ...(server ? { server: server[field] } : {}),
+    isConflicting: conflictingFields.has(field),
+  }));
+}
+
+/**
+ * Formats a field value for display.
+ *
+ * @example
+ * ```typescript
+ * formatSyncIssueValue([{ name: 'Salt' }], t); // "1 item"
+ * formatSyncIssueValue(null, t); // "—"
+ * ```
+ */
+export function formatSyncIssueValue(value: unknown, t: TFunction): string {
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+  if (typeof value === 'boolean') {
+    return value ? t('syncIssues.yes') : t('syncIssues.no');
+  }
+  if (Array.isArray(value)) {
+    return t('syncIssues.itemCount', { count: value.length });
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
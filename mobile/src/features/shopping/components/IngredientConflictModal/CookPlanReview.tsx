@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { CenteredModal } from '../../../../common/components/CenteredModal';
+import { colors, spacing, borderRadius } from '../../../../theme';
+import type {
+  CookLineAction,
+  CookLineDecision,
+  CookPlanLine,
+} from '../../../recipes/services/cookApi';
+
+export interface CookPlanReviewProps {
+  visible: boolean;
+  lines: CookPlanLine[];
+  onClose: () => void;
+  onConfirm: (decisions: CookLineDecision[]) => void;
+  isSubmitting?: boolean;
+}
+
+const formatQuantity = (quantity: number, unit?: string) =>
+  unit ? `${quantity} ${unit}` : String(quantity);
+
+/**
+ * Actions the user can pick for a line; merging and replacing need a matching list item.
+ */
+const getAvailableActions = (line: CookPlanLine): CookLineAction[] =>
+  line.existingItem ? ['merge', 'replace', 'add', 'skip'] : ['add', 'skip'];
+
+/**
+ * Per-line review of a cook plan: shows what the recipe needs, what the pantry
+ * covers and what is already on the list, and lets the user change each action
+ * before the list is updated.
+ */
+export function CookPlanReview({
+  visible,
+  lines,
+  onClose,
+  onConfirm,
+  isSubmitting = false,
+}: CookPlanReviewProps) {
+  const { t } = useTranslation('shopping');
+  const [actions, setActions] = useState<Record<number, CookLineAction>>({});
+
+  useEffect(() => {
+    setActions(Object.fromEntries(lines.map((line) => [line.index, line.action])));
+  }, [lines]);
+
+  const handleConfirm = () => {
+    const decisions = lines
+      .filter((line) => actions[line.index] && actions[line.index] !== line.action)
+      .map((line) => ({ index: line.index, action: actions[line.index] }));
+    onConfirm(decisions);
+  };
+
+  return (
+    <CenteredModal
+      visible={visible}
+      onClose={onClose}
+      title={t('ingredientConflictModal.plan.title')}
+      confirmText={t('ingredientConflictModal.plan.confirmButton')}
+      onConfirm={handleConfirm}
+      confirmColor={colors.recipes}
+      confirmLoading={isSubmitting}
+      confirmDisabled={isSubmitting}
+    >
+      <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+        {lines.map((line) => {
+          const selected = actions[line.index] ?? line.action;
+          return (
+            <View key={line.index} style={styles.line} testID={`cook-plan-line-${line.index}`}>
+              <Text style={styles.name}>{line.name}</Text>
+              <Text style={styles.detail}>
+                {t('ingredientConflictModal.plan.needs', {
+                  quantity: formatQuantity(line.required, line.unit),
+                })}
+                {line.inPantry > 0
+                  ? ` · ${t('ingredientConflictModal.plan.inPantry', {
+                      quantity: formatQuantity(line.inPantry, line.unit),
+                    })}`
+                  : ''}
+              </Text>
+              {line.existingItem && (
+                <Text style={styles.detail}>
+                  {t('ingredientConflictModal.plan.onList', {
+                    quantity: formatQuantity(line.existingItem.quantity, line.existingItem.unit),
+                  })}
+                </Text>
+              )}
+              <View style={styles.actions}>
+                {getAvailableActions(line).map((action) => (
+                  <TouchableOpacity
+                    key={action}
+                    style={[styles.chip, selected === action && styles.chipSelected]}
+                    onPress={() => setActions((prev) => ({ ...prev, [line.index]: action }))}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected: selected === action }}
+                    testID={`cook-plan-line-${line.index}-${action}`}
+                  >
+                    <Text style={[styles.chipText, selected === action && styles.chipTextSelected]}>
+                      {t(`ingredientConflictModal.plan.actions.${action}`)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          );
+        })}
+      </ScrollView>
+    </CenteredModal>
+  );
+}
+
+const styles = StyleSheet.create({
+  list: {
+    maxHeight: 360,
+  },
+  listContent: {
+    gap: spacing.md,
+  },
+  line: {
+    gap: spacing.xs,
+    padding: spacing.md,
+    backgroundColor: colors.quantityBg,
+    borderRadius: borderRadius.lg,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.textPrimary,
+  },
+  detail: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+    marginTop: spacing.xs,
+  },
+  chip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  chipSelected: {
+    borderColor: colors.recipes,
+    backgroundColor: colors.recipes,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  chipTextSelected: {
+    color: colors.textLight,
+  },
+});
@@ -6,8 +6,9 @@ import { colors, spacing, borderRadius } from '../../../../theme';
 import type { Ingredient } from '../../../../mocks/recipes';
 import type { ShoppingItem } from '../../../../mocks/shopping';
 import { addQuantities } from '../../../recipes/utils/unitConversion';
+import { CookPlanReview, type CookPlanReviewProps } from './CookPlanReview';
 
-interface IngredientConflictModalProps {
+interface SingleIngredientConflictProps {
   visible: boolean;
   ingredient: Ingredient;
   existingItem: ShoppingItem;
@@ -16,14 +17,27 @@ interface IngredientConflictModalProps {
   onAddToQuantity: () => void;
 }
 
-export function IngredientConflictModal({
+/**
+ * Either a single ingredient already on the list, or a whole cook plan
+ * (pantry-aware, from the cook endpoint) to confirm line by line.
+ */
+export type IngredientConflictModalProps = SingleIngredientConflictProps | CookPlanReviewProps;
+
+export function IngredientConflictModal(props: IngredientConflictModalProps) {
+  if ('lines' in props) {
+    return <CookPlanReview {...props} />;
+  }
+  return <SingleIngredientConflict {...props} />;
+}
+
+function SingleIngredientConflict({
   visible,
   ingredient,
   existingItem,
   onClose,
   onReplace,
   onAddToQuantity,
-}: IngredientConflictModalProps) {
+}: SingleIngredientConflictProps) {
   const { t } = useTranslation('shopping');
 
   const formatQuantity = (quantity: number, unit?: string) => {
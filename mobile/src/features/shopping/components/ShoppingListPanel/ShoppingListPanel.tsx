@@ -16,6 +16,8 @@ import { GroceryCardContent, QuantityControls } from '../../../../common/compone
 import { GrocerySearchBar } from '../GrocerySearchBar';
 import { EmptyState } from '../../../../common/components/EmptyState';
 import { ListItemSkeleton } from '../../../../common/components/ListItemSkeleton';
+import { SafeImage } from '../../../../common/components/SafeImage';
+import { getAssigneeAvatarUri } from '../../../../common/utils/avatarUtils';
 import { colors, borderRadius } from '../../../../theme';
 import { getCategoryImageSource } from '../../utils/categoryImage';
 import { normalizeCategoryKey } from '../../constants/categories';
@@ -24,9 +26,14 @@ import { styles } from './styles';
 import { ShoppingListPanelProps, ShoppingItemCardProps } from './types';
 import { useTranslation } from 'react-i18next';
 
+type ItemFilter = 'all' | 'mine';
+
+const ITEM_FILTERS: ItemFilter[] = ['all', 'mine'];
+
 /**
  * Shopping Item Card Component
- * Renders a single list item with swipe-to-delete and quantity controls.
+ * Renders a single list item with swipe-to-delete, quantity controls and,
+ * for signed-in members, a claim button showing who is buying the item.
  */
 function ShoppingItemCard({
   item,
@@ -34,11 +41,20 @@ function ShoppingItemCard({
   onDeleteItem,
   onQuantityChange,
   onToggleItemChecked,
+  currentUserId,
+  onToggleItemClaim,
 }: ShoppingItemCardProps) {
-  const { i18n } = useTranslation('shopping');
+  const { t, i18n } = useTranslation('shopping');
   const isRtlLayout = i18n.dir() === 'rtl' || I18nManager.isRTL;
   const isChecked = item.isChecked;
   const fallbackCategoryImage = getCategoryImageSource(item.category);
+  const isClaimedByMe = !!currentUserId && item.claimedById === currentUserId;
+
+  const claimLabel = !item.claimedById
+    ? t('listPanel.claimItem', { name: item.name })
+    : isClaimedByMe
+      ? t('listPanel.releaseClaim', { name: item.name })
+      : t('listPanel.claimedBy', { member: item.claimedByName, name: item.name });
 
   return (
     <SwipeableWrapper
@@ -62,14 +78,39 @@ function ShoppingItemCard({
           }
           title={item.name}
           titleStyle={isChecked ? styles.checkedTitle : undefined}
+          subtitle={
+            isChecked && item.checkedByName
+              ? t('listPanel.checkedBy', { member: item.checkedByName })
+              : undefined
+          }
           onPress={() => onToggleItemChecked(item.id)}
           rightElement={
-            <QuantityControls
-              quantity={item.quantity}
-              onIncrement={() => onQuantityChange(item.id, 1)}
-              onDecrement={() => onQuantityChange(item.id, -1)}
-              minQuantity={1}
-            />
+            <View style={styles.itemActions}>
+              {onToggleItemClaim && (
+                <TouchableOpacity
+                  style={[styles.claimButton, isClaimedByMe && styles.claimButtonMine]}
+                  onPress={() => onToggleItemClaim(item.id)}
+                  accessibilityRole="button"
+                  accessibilityLabel={claimLabel}
+                  testID={`claim-button-${item.id}`}
+                >
+                  {item.claimedById ? (
+                    <SafeImage
+                      uri={getAssigneeAvatarUri(item.claimedByName)}
+                      style={styles.claimAvatar}
+                    />
+                  ) : (
+                    <Ionicons name="hand-left-outline" size={16} color={colors.textSecondary} />
+                  )}
+                </TouchableOpacity>
+              )}
+              <QuantityControls
+                quantity={item.quantity}
+                onIncrement={() => onQuantityChange(item.id, 1)}
+                onDecrement={() => onQuantityChange(item.id, -1)}
+                minQuantity={1}
+              />
+            </View>
           }
           isRtl={isRtlLayout}
         />
@@ -92,6 +133,8 @@ export function ShoppingListPanel({
   onQuantityChange,
   onDeleteItem,
   onToggleItemChecked,
+  currentUserId,
+  onToggleItemClaim,
   searchQuery,
   onSearchChange,
   searchMode = 'local',
@@ -105,6 +148,9 @@ export function ShoppingListPanel({
    */
   const [collapsedCategories, setCollapsedCategories] = useState<Set<string>>(new Set());
   const [openListMenuId, setOpenListMenuId] = useState<string | null>(null);
+  const [itemFilter, setItemFilter] = useState<ItemFilter>('all');
+  const canClaimItems = !!currentUserId && !!onToggleItemClaim;
+  const showMyItemsOnly = canClaimItems && itemFilter === 'mine';
 
   const stopPressPropagation = useCallback((event?: GestureResponderEvent) => {
     event?.stopPropagation?.();
@@ -124,6 +170,18 @@ export function ShoppingListPanel({
     setCollapsedCategories((prev) => toggleSetItem(prev, category));
   }, []);
 
+  /**
+   * Narrows the list to the items the current member claimed when the
+   * "my items" filter is on.
+   */
+  const visibleItems = useMemo(
+    () =>
+      showMyItemsOnly
+        ? filteredItems.filter((item) => item.claimedById === currentUserId)
+        : filteredItems,
+    [filteredItems, showMyItemsOnly, currentUserId],
+  );
+
   /**
    * Groups filtered items by normalized category key.
    * Handles edge cases like missing categories, normalization errors, and empty values.
@@ -134,7 +192,7 @@ export function ShoppingListPanel({
     const groups = new Map<string, typeof filteredItems>();
     const OTHER_CATEGORY = 'other';
 
-    filteredItems.forEach((item) => {
+    visibleItems.forEach((item) => {
       try {
         // Validate category exists and is a string
         if (!item.category || typeof item.category !== 'string') {
@@ -177,7 +235,7 @@ export function ShoppingListPanel({
         category,
         items,
       }));
-  }, [filteredItems]);
+  }, [visibleItems]);
 
   /**
    * Formats category name for display (capitalizes first letter).
@@ -216,9 +274,11 @@ export function ShoppingListPanel({
         onDeleteItem={onDeleteItem}
         onQuantityChange={onQuantityChange}
         onToggleItemChecked={onToggleItemChecked}
+        currentUserId={currentUserId}
+        onToggleItemClaim={onToggleItemClaim}
       />
     );
-  }, [onDeleteItem, onQuantityChange, onToggleItemChecked]);
+  }, [onDeleteItem, onQuantityChange, onToggleItemChecked, currentUserId, onToggleItemClaim]);
 
   return (
     <View style={styles.leftColumn}>
@@ -380,6 +440,28 @@ export function ShoppingListPanel({
         searchMode={searchMode}
       />
 
+      {/* Item Filter */}
+      {canClaimItems && (
+        <View style={styles.itemFilterRow}>
+          {ITEM_FILTERS.map((filter) => {
+            const isActive = itemFilter === filter;
+            return (
+              <TouchableOpacity
+                key={filter}
+                style={[styles.itemFilterChip, isActive && styles.itemFilterChipActive]}
+                onPress={() => setItemFilter(filter)}
+                accessibilityRole="button"
+                accessibilityState={{ selected: isActive }}
+              >
+                <Text style={[styles.itemFilterChipText, isActive && styles.itemFilterChipTextActive]}>
+                  {filter === 'mine' ? t('listPanel.filterMine') : t('listPanel.filterAll')}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
       {/* Shopping Items */}
       <View style={styles.itemsList}>
         {isLoading ? (
@@ -389,7 +471,13 @@ export function ShoppingListPanel({
               <ListItemSkeleton key={index} />
             ))}
           </>
-        ) : filteredItems.length === 0 ? (
+        ) : visibleItems.length === 0 && showMyItemsOnly ? (
+          <EmptyState
+            icon="hand-left-outline"
+            title={t('listPanel.myItemsEmptyTitle')}
+            description={t('listPanel.myItemsEmptyDescription')}
+          />
+        ) : visibleItems.length === 0 ? (
           <EmptyState
             icon="cart-outline"
             title={t('listPanel.emptyTitle')}
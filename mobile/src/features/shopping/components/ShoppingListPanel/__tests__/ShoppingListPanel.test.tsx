@@ -15,6 +15,10 @@ jest.mock('../../../../../common/components/SwipeableWrapper', () => ({
   SwipeableWrapper: ({ children }: { children: React.ReactNode }) => children,
 }));
 
+jest.mock('../../../../../common/components/SafeImage', () => ({
+  SafeImage: () => null,
+}));
+
 jest.mock('../../GrocerySearchBar', () => ({
   GrocerySearchBar: () => null,
 }));
@@ -134,6 +138,69 @@ describe('ShoppingListPanel', () => {
     ).toBeTruthy();
   });
 
+  describe('claims', () => {
+    const claimedItems: ShoppingItem[] = [
+      { ...mockItems[0], claimedById: 'user-1', claimedByName: 'Dana' },
+      {
+        ...mockItems[1],
+        claimedById: 'user-2',
+        claimedByName: 'Noa',
+        checkedByName: 'Noa',
+      },
+    ];
+    const claimProps = {
+      ...defaultProps,
+      filteredItems: claimedItems,
+      currentUserId: 'user-1',
+      onToggleItemClaim: jest.fn(),
+    };
+
+    it('should not render claim controls without onToggleItemClaim', () => {
+      const { queryByText, queryByTestId } = render(
+        <ShoppingListPanel {...defaultProps} currentUserId="user-1" />
+      );
+      expect(queryByText('My items')).toBeNull();
+      expect(queryByTestId('claim-button-item-1')).toBeNull();
+    });
+
+    it('should describe who is buying each item', () => {
+      const { getByLabelText, getByText } = render(
+        <ShoppingListPanel {...claimProps} />
+      );
+      expect(getByLabelText('Stop buying Milk')).toBeTruthy();
+      expect(
+        getByLabelText('Noa is buying Bread. Tap to buy it yourself')
+      ).toBeTruthy();
+      expect(getByText('Checked by Noa')).toBeTruthy();
+    });
+
+    it('should call onToggleItemClaim when the claim button is pressed', () => {
+      const { getByTestId } = render(<ShoppingListPanel {...claimProps} />);
+      fireEvent.press(getByTestId('claim-button-item-2'));
+      expect(claimProps.onToggleItemClaim).toHaveBeenCalledWith('item-2');
+    });
+
+    it('should show only my claimed items with the my items filter', () => {
+      const { getByText, queryByText } = render(
+        <ShoppingListPanel {...claimProps} />
+      );
+      fireEvent.press(getByText('My items'));
+      expect(getByText('Milk')).toBeTruthy();
+      expect(queryByText('Bread')).toBeNull();
+
+      fireEvent.press(getByText('All items'));
+      expect(getByText('Bread')).toBeTruthy();
+    });
+
+    it('should show a dedicated empty state when nothing is claimed', () => {
+      const { getByText } = render(
+        <ShoppingListPanel {...claimProps} currentUserId="user-3" />
+      );
+      fireEvent.press(getByText('My items'));
+      expect(getByText("You haven't claimed anything")).toBeTruthy();
+    });
+  });
+
   describe.each([
     ['empty filtered list', []],
     ['single item', [mockItems[0]]],
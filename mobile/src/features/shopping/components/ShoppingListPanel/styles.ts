@@ -272,6 +272,54 @@ export const styles = StyleSheet.create({
     color: colors.textMuted,
     textDecorationLine: 'line-through',
   },
+  itemActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  claimButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.quantityBg,
+    overflow: 'hidden',
+  },
+  claimButtonMine: {
+    borderWidth: 2,
+    borderColor: colors.shopping,
+  },
+  claimAvatar: {
+    width: '100%',
+    height: '100%',
+    backgroundColor: colors.avatarBackground,
+  },
+  itemFilterRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginBottom: SPACING_12,
+  },
+  itemFilterChip: {
+    paddingHorizontal: SPACING_12,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  itemFilterChipActive: {
+    backgroundColor: colors.shopping,
+    borderColor: colors.shopping,
+  },
+  itemFilterChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  itemFilterChipTextActive: {
+    color: colors.textLight,
+  },
   fallbackCategoryImage: {
     width: 28,
     height: 28,
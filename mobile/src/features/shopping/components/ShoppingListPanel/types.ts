@@ -20,6 +20,12 @@ export interface ShoppingItemCardProps {
   
   /** Callback fired when user toggles item checked state */
   onToggleItemChecked: (id: string) => void;
+
+  /** Signed-in member's ID, used to tell their claims apart from others' */
+  currentUserId?: string;
+
+  /** Callback fired when user claims or releases the item; hides the claim button when omitted */
+  onToggleItemClaim?: (id: string) => void;
 }
 
 /**
@@ -65,6 +71,12 @@ export interface ShoppingListPanelProps {
   
   /** Callback fired when user toggles an item's checked state */
   onToggleItemChecked: (itemId: string) => void;
+
+  /** Signed-in member's ID; together with onToggleItemClaim enables the "my items" filter */
+  currentUserId?: string;
+
+  /** Callback fired when user claims an item ("I'm buying it") or releases their claim */
+  onToggleItemClaim?: (itemId: string) => void;
   
   /** Current search query string */
   searchQuery?: string;
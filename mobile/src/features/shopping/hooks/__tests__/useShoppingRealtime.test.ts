@@ -1,41 +1,161 @@
 /**
  * Tests for useShoppingRealtime hook.
  *
- * Realtime is disabled; the hook is a no-op. All shopping data goes through the backend API.
+ * The event stream is mocked; tests drive it through the captured handlers.
  */
 
-import { renderHook } from '@testing-library/react-native';
+import { act, renderHook, waitFor } from '@testing-library/react-native';
 import { useShoppingRealtime } from '../useShoppingRealtime';
+import { openEventStream, type EventStreamHandlers } from '../../../../services/eventStream';
 import type { ICacheAwareShoppingRepository } from '../../../../common/repositories/cacheAwareShoppingRepository';
 import type { GroceryItem } from '../../components/GrocerySearchBar';
 
-const defaultOptions = {
-  isRealtimeEnabled: true,
-  householdId: 'household-1',
-  isSignedIn: true,
-  repository: null as ICacheAwareShoppingRepository | null,
-  groceryItems: [] as GroceryItem[],
-  listIds: ['list-1'],
-  onListChange: undefined as ((lists: never[]) => void) | undefined,
-  onItemChange: undefined as ((items: never[]) => void) | undefined,
-};
+jest.mock('../../../../services/eventStream', () => ({
+  openEventStream: jest.fn(),
+}));
+
+const mockOpenEventStream = openEventStream as jest.MockedFunction<typeof openEventStream>;
+
+const createRepository = () =>
+  ({
+    applyRealtimeListChange: jest.fn().mockResolvedValue(undefined),
+    applyRealtimeItemChange: jest.fn().mockResolvedValue(undefined),
+    findAllLists: jest.fn().mockResolvedValue([{ id: 'list-1' }]),
+    findAllItems: jest.fn().mockResolvedValue([{ id: 'item-1' }]),
+    refreshAll: jest.fn().mockResolvedValue({ lists: [{ id: 'list-2' }], items: [{ id: 'item-2' }] }),
+  }) as unknown as jest.Mocked<ICacheAwareShoppingRepository>;
+
+const groceryItems = [] as GroceryItem[];
 
 describe('useShoppingRealtime', () => {
-  it('returns isSubscribed false and error null (realtime disabled)', () => {
-    const { result } = renderHook(() => useShoppingRealtime(defaultOptions));
+  let close: jest.Mock;
+  let handlers: EventStreamHandlers[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    close = jest.fn();
+    handlers = [];
+    mockOpenEventStream.mockImplementation((_endpoint, streamHandlers) => {
+      handlers.push(streamHandlers);
+      return close;
+    });
+  });
+
+  it('does not subscribe when realtime is disabled or there is no household', () => {
+    const repository = createRepository();
+    renderHook(() =>
+      useShoppingRealtime({
+        isRealtimeEnabled: false,
+        householdId: 'household-1',
+        isSignedIn: true,
+        repository,
+        groceryItems,
+      })
+    );
+    const { result } = renderHook(() =>
+      useShoppingRealtime({
+        isRealtimeEnabled: true,
+        householdId: null,
+        isSignedIn: true,
+        repository,
+        groceryItems,
+      })
+    );
+
+    expect(mockOpenEventStream).not.toHaveBeenCalled();
     expect(result.current.isSubscribed).toBe(false);
     expect(result.current.error).toBeNull();
   });
 
-  it('accepts options without throwing', () => {
-    expect(() =>
-      renderHook(() =>
+  it('subscribes to the household event stream and closes it on unmount', () => {
+    const repository = createRepository();
+    const { result, unmount } = renderHook(() =>
+      useShoppingRealtime({
+        isRealtimeEnabled: true,
+        householdId: 'household-1',
+        isSignedIn: true,
+        repository,
+        groceryItems,
+      })
+    );
+
+    expect(mockOpenEventStream).toHaveBeenCalledWith('/realtime/events', expect.any(Object));
+    act(() => handlers[0].onOpen?.());
+    expect(result.current.isSubscribed).toBe(true);
+
+    unmount();
+    expect(close).toHaveBeenCalled();
+  });
+
+  it('applies pushed changes through the repository and reports the new state', async () => {
+    const repository = createRepository();
+    const onListChange = jest.fn();
+    const onItemChange = jest.fn();
+    renderHook(() =>
+      useShoppingRealtime({
+        isRealtimeEnabled: true,
+        householdId: 'household-1',
+        isSignedIn: true,
+        repository,
+        groceryItems,
+        onListChange,
+        onItemChange,
+      })
+    );
+    const itemChange = {
+      table: 'shopping_items',
+      eventType: 'UPDATE',
+      new: { id: 'item-1', is_checked: true },
+      old: { id: 'item-1' },
+    };
+
+    act(() => {
+      handlers[0].onMessage({ event: 'ping', data: '{}' });
+      handlers[0].onMessage({ event: 'change', data: JSON.stringify(itemChange) });
+    });
+
+    await waitFor(() => expect(onItemChange).toHaveBeenCalledWith([{ id: 'item-1' }]));
+    expect(repository.applyRealtimeItemChange).toHaveBeenCalledWith(itemChange, groceryItems);
+    expect(repository.applyRealtimeListChange).not.toHaveBeenCalled();
+    expect(onListChange).not.toHaveBeenCalled();
+  });
+
+  it('reconnects after an error and refetches everything once reconnected', async () => {
+    jest.useFakeTimers();
+    try {
+      const repository = createRepository();
+      const onListChange = jest.fn();
+      const { result } = renderHook(() =>
         useShoppingRealtime({
-          ...defaultOptions,
-          isRealtimeEnabled: false,
-          householdId: null,
+          isRealtimeEnabled: true,
+          householdId: 'household-1',
+          isSignedIn: true,
+          repository,
+          groceryItems,
+          onListChange,
         })
-      )
-    ).not.toThrow();
+      );
+
+      act(() => handlers[0].onOpen?.());
+      act(() => handlers[0].onError?.(new Error('Event stream closed by the server')));
+      expect(result.current.isSubscribed).toBe(false);
+      expect(result.current.error?.message).toBe('Event stream closed by the server');
+      expect(repository.refreshAll).not.toHaveBeenCalled();
+
+      act(() => {
+        jest.advanceTimersByTime(1_000);
+      });
+      expect(mockOpenEventStream).toHaveBeenCalledTimes(2);
+
+      await act(async () => {
+        handlers[1].onOpen?.();
+      });
+      expect(result.current.isSubscribed).toBe(true);
+      expect(result.current.error).toBeNull();
+      expect(repository.refreshAll).toHaveBeenCalledTimes(1);
+      expect(onListChange).toHaveBeenCalledWith([{ id: 'list-2' }]);
+    } finally {
+      jest.useRealTimers();
+    }
   });
 });
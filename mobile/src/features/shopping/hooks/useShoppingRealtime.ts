@@ -1,15 +1,35 @@
 /**
- * Hook for shopping list/item realtime subscriptions.
+ * Hook for live shopping list/item updates.
  *
- * Realtime is currently disabled: all shopping data is read/written via the backend API.
- * This hook is a no-op and returns { isSubscribed: false, error: null }.
- * The UI still works; list updates appear on next fetch/refresh.
+ * Subscribes to the backend's household event stream (`GET /realtime/events`,
+ * server-sent events) and applies each list or item change to the shopping
+ * cache through the repository, which merges it with tombstone handling. The
+ * updated lists/items are then handed to the screen via the change callbacks.
+ *
+ * The stream does not replay missed events, so after a dropped connection is
+ * re-established the hook refetches everything once.
  */
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import type { ICacheAwareShoppingRepository } from '../../../common/repositories/cacheAwareShoppingRepository';
 import type { ShoppingList, ShoppingItem } from '../../../mocks/shopping';
 import type { GroceryItem } from '../components/GrocerySearchBar';
+import type { RealtimePostgresChangesPayload } from '../utils/shoppingRealtime';
+import { openEventStream, type EventStreamMessage } from '../../../services/eventStream';
+
+export const SHOPPING_EVENTS_ENDPOINT = '/realtime/events';
+
+/** Delay before the first reconnect attempt; doubles up to the maximum. */
+export const REALTIME_RECONNECT_BASE_DELAY_MS = 1_000;
+export const REALTIME_RECONNECT_MAX_DELAY_MS = 30_000;
+
+/**
+ * A change pushed by the backend: a Postgres-style change payload tagged
+ * with the table it happened in.
+ */
+export type ShoppingRealtimeChange = RealtimePostgresChangesPayload<{ id: string }> & {
+  table: 'shopping_lists' | 'shopping_items';
+};
 
 export interface UseShoppingRealtimeOptions {
   isRealtimeEnabled: boolean;
@@ -17,7 +37,6 @@ export interface UseShoppingRealtimeOptions {
   isSignedIn: boolean;
   repository: ICacheAwareShoppingRepository | null;
   groceryItems: GroceryItem[];
-  listIds: string[];
   onListChange?: (lists: ShoppingList[]) => void;
   onItemChange?: (items: ShoppingItem[]) => void;
 }
@@ -27,15 +46,125 @@ export interface UseShoppingRealtimeReturn {
   error: Error | null;
 }
 
+const parseChange = (message: EventStreamMessage): ShoppingRealtimeChange | null => {
+  if (message.event !== 'change') {
+    return null;
+  }
+  try {
+    return JSON.parse(message.data) as ShoppingRealtimeChange;
+  } catch {
+    return null;
+  }
+};
+
 /**
- * No-op realtime hook. All shopping requests go through the backend; updates on refresh.
+ * Keeps the shopping cache in sync with changes made by other household members.
  */
-export function useShoppingRealtime(
-  _options: UseShoppingRealtimeOptions
-): UseShoppingRealtimeReturn {
-  const [error] = useState<Error | null>(null);
+export function useShoppingRealtime({
+  isRealtimeEnabled,
+  householdId,
+  isSignedIn,
+  repository,
+  groceryItems,
+  onListChange,
+  onItemChange,
+}: UseShoppingRealtimeOptions): UseShoppingRealtimeReturn {
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // Read through refs so new grocery items or callbacks don't reopen the stream
+  const groceryItemsRef = useRef(groceryItems);
+  const onListChangeRef = useRef(onListChange);
+  const onItemChangeRef = useRef(onItemChange);
+  groceryItemsRef.current = groceryItems;
+  onListChangeRef.current = onListChange;
+  onItemChangeRef.current = onItemChange;
+
+  useEffect(() => {
+    if (!isRealtimeEnabled || !isSignedIn || !householdId || !repository) {
+      setIsSubscribed(false);
+      return undefined;
+    }
+
+    let isActive = true;
+    let hasConnected = false;
+    let attempt = 0;
+    let closeStream: (() => void) | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    // Changes are applied one at a time, in the order they arrive
+    let queue: Promise<void> = Promise.resolve();
+
+    const enqueue = (task: () => Promise<void>) => {
+      queue = queue
+        .then(task)
+        .catch((taskError: unknown) => {
+          console.error('Failed to apply realtime shopping change:', taskError);
+        });
+    };
+
+    const applyChange = async (change: ShoppingRealtimeChange) => {
+      if (change.table === 'shopping_lists') {
+        await repository.applyRealtimeListChange(change);
+        const lists = await repository.findAllLists();
+        if (isActive) onListChangeRef.current?.(lists);
+      } else if (change.table === 'shopping_items') {
+        await repository.applyRealtimeItemChange(change, groceryItemsRef.current);
+        const items = await repository.findAllItems();
+        if (isActive) onItemChangeRef.current?.(items);
+      }
+    };
+
+    const resync = async () => {
+      const { lists, items } = await repository.refreshAll();
+      if (!isActive) return;
+      onListChangeRef.current?.(lists);
+      onItemChangeRef.current?.(items);
+    };
+
+    const connect = () => {
+      closeStream = openEventStream(SHOPPING_EVENTS_ENDPOINT, {
+        onOpen: () => {
+          if (!isActive) return;
+          if (hasConnected) {
+            enqueue(resync);
+          }
+          hasConnected = true;
+          attempt = 0;
+          setIsSubscribed(true);
+          setError(null);
+        },
+        onMessage: (message) => {
+          const change = parseChange(message);
+          if (change) {
+            enqueue(() => applyChange(change));
+          }
+        },
+        onError: (streamError) => {
+          if (!isActive) return;
+          setIsSubscribed(false);
+          setError(streamError);
+          const delay = Math.min(
+            REALTIME_RECONNECT_BASE_DELAY_MS * 2 ** attempt,
+            REALTIME_RECONNECT_MAX_DELAY_MS,
+          );
+          attempt += 1;
+          reconnectTimer = setTimeout(connect, delay);
+        },
+      });
+    };
+
+    connect();
+
+    return () => {
+      isActive = false;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      closeStream?.();
+      setIsSubscribed(false);
+    };
+  }, [isRealtimeEnabled, isSignedIn, householdId, repository]);
+
   return {
-    isSubscribed: false,
+    isSubscribed,
     error,
   };
 }
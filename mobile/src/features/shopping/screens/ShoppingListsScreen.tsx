@@ -16,6 +16,8 @@ import { FrequentlyAddedGrid } from '../components/FrequentlyAddedGrid';
 import { CenteredModal } from '../../../common/components/CenteredModal';
 import { ShareModal } from '../../../common/components/ShareModal';
 import { ConfirmationModal } from '../../../common/components/ConfirmationModal';
+import { Toast, UNDO_TOAST_DURATION } from '../../../common/components/Toast';
+import type { ToastType } from '../../../common/components/Toast';
 import { ScreenHeader } from '../../../common/components/ScreenHeader';
 import { formatShoppingListText } from '../../../common/utils/shareUtils';
 import { GrocerySearchBar, GroceryItem } from '../components/GrocerySearchBar';
@@ -103,6 +105,7 @@ interface ShoppingListsScreenProps {
 
 export function ShoppingListsScreen(props: ShoppingListsScreenProps = {}) {
   const { t, i18n } = useTranslation('shopping');
+  const { t: tCommon } = useTranslation('common');
   const { isActive = true } = props;
   const { isTablet } = useResponsive();
   const { user, isLoading: isAuthLoading } = useAuth();
@@ -229,6 +232,11 @@ export function ShoppingListsScreen(props: ShoppingListsScreenProps = {}) {
   const [pendingDeleteList, setPendingDeleteList] = useState<ShoppingList | null>(null);
   const [deleteListError, setDeleteListError] = useState<string | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [toastVisible, setToastVisible] = useState(false);
+  const [toastMessage, setToastMessage] = useState('');
+  const [toastType, setToastType] = useState<ToastType>('success');
+  // Last swiped-away item, offered back through the toast's "Undo"
+  const [undoItem, setUndoItem] = useState<ShoppingItem | null>(null);
   const categoryRequestIdRef = useRef(0);
   const previousCategoryLanguageRef = useRef(i18n.language);
   const deletingItemIdsRef = useRef<Set<string>>(new Set());
@@ -410,9 +418,6 @@ export function ShoppingListsScreen(props: ShoppingListsScreenProps = {}) {
     setSelectedList((currentSelected) => getSelectedList(shoppingLists, currentSelected?.id));
   }, [shoppingLists]);
 
-  // Memoize list IDs to avoid recalculating on every render
-  const listIds = useMemo(() => shoppingLists.map((list) => list.id), [shoppingLists]);
-
   // Memoize callbacks to prevent unnecessary re-subscriptions
   const handleRealtimeListChange = useCallback((lists: ShoppingList[]) => {
     // Sort lists so main list is always first
@@ -434,7 +439,6 @@ export function ShoppingListsScreen(props: ShoppingListsScreenProps = {}) {
     isSignedIn,
     repository: shoppingRepository,
     groceryItems,
-    listIds,
     onListChange: handleRealtimeListChange,
     onItemChange: handleRealtimeItemChange,
   });
@@ -602,8 +606,11 @@ export function ShoppingListsScreen(props: ShoppingListsScreenProps = {}) {
     }
 
     try {
-      await executeWithOptimisticUpdate(
-        () => deleteItem(deleteById),
+      const deleted = await executeWithOptimisticUpdate(
+        async () => {
+          await deleteItem(deleteById);
+          return true;
+        },
         () => {
           setAllItems((prev: ShoppingItem[]) =>
             prev.filter((item) => item.id !== targetItem.id && item.localId !== targetItem.localId),
@@ -614,10 +621,40 @@ export function ShoppingListsScreen(props: ShoppingListsScreenProps = {}) {
         },
         'Failed to delete shopping item:',
       );
+      if (deleted) {
+        setUndoItem(targetItem);
+        setToastType('success');
+        setToastMessage(t('screen.itemDeleted', { name: targetItem.name }));
+        setToastVisible(true);
+      }
     } finally {
       deletingItemIdsRef.current.delete(deleteById);
     }
-  }, [allItems, isSignedIn, executeWithOptimisticUpdate, deleteItem]);
+  }, [allItems, isSignedIn, executeWithOptimisticUpdate, deleteItem, t]);
+
+  const handleUndoDeleteItem = useCallback(async () => {
+    const item = undoItem;
+    if (!item) return;
+    setUndoItem(null);
+
+    const restored = await executeWithOptimisticUpdate(
+      () => shoppingService.restoreItem(item),
+      () => {
+        setAllItems((prev: ShoppingItem[]) => [...prev, item]);
+      },
+      () => {
+        setAllItems((prev: ShoppingItem[]) =>
+          prev.filter((current) => current.id !== item.id),
+        );
+      },
+      'Failed to restore shopping item:',
+    );
+    if (!restored) {
+      setToastType('error');
+      setToastMessage(t('screen.restoreItemFailed', { name: item.name }));
+      setToastVisible(true);
+    }
+  }, [undoItem, executeWithOptimisticUpdate, shoppingService, t]);
 
   const handleToggleItemChecked = useCallback(async (itemId: string) => {
     const targetItem = allItems.find((item) => item.id === itemId || item.localId === itemId);
@@ -657,6 +694,43 @@ export function ShoppingListsScreen(props: ShoppingListsScreenProps = {}) {
     );
   }, [allItems, executeWithOptimisticUpdate, toggleItem]);
 
+  /**
+   * Claims an item for the signed-in member ("I'm buying it"), or releases
+   * the claim when it is already theirs. Claiming an item someone else took
+   * hands it over to the current member.
+   */
+  const handleToggleItemClaim = useCallback(async (itemId: string) => {
+    const targetItem = allItems.find((item) => item.id === itemId || item.localId === itemId);
+    if (!targetItem || !user || isLocalOnlyItem(targetItem, isSignedIn)) return;
+
+    const previousClaim = {
+      claimedById: targetItem.claimedById,
+      claimedByName: targetItem.claimedByName,
+    };
+    const nextClaim = targetItem.claimedById === user.id
+      ? { claimedById: null, claimedByName: undefined }
+      : { claimedById: user.id, claimedByName: user.name };
+
+    await executeWithOptimisticUpdate(
+      () => updateItem(targetItem.id, { claimedById: nextClaim.claimedById }),
+      () => {
+        setAllItems((prev: ShoppingItem[]) => prev.map((item) =>
+          item.id === itemId || item.localId === itemId
+            ? { ...item, ...nextClaim }
+            : item,
+        ));
+      },
+      () => {
+        setAllItems((prev: ShoppingItem[]) => prev.map((item) =>
+          item.id === itemId || item.localId === itemId
+            ? { ...item, ...previousClaim }
+            : item,
+        ));
+      },
+      'Failed to claim shopping item:',
+    );
+  }, [allItems, user, isSignedIn, executeWithOptimisticUpdate, updateItem]);
+
   const handleSelectGroceryItem = useCallback((groceryItem: GroceryItem) => {
     setSelectedGroceryItem(groceryItem);
     setQuantityInput('1');
@@ -1030,6 +1104,8 @@ export function ShoppingListsScreen(props: ShoppingListsScreenProps = {}) {
             onQuantityChange={handleQuantityChange}
             onDeleteItem={handleDeleteItem}
             onToggleItemChecked={handleToggleItemChecked}
+            currentUserId={isSignedIn ? user?.id : undefined}
+            onToggleItemClaim={isSignedIn ? handleToggleItemClaim : undefined}
             searchQuery={searchQuery}
             onSearchChange={setSearchQuery}
             searchMode="remote"
@@ -1172,6 +1248,21 @@ export function ShoppingListsScreen(props: ShoppingListsScreenProps = {}) {
         }}
       />
 
+      <Toast
+        visible={toastVisible}
+        message={toastMessage}
+        type={toastType}
+        duration={undoItem ? UNDO_TOAST_DURATION : undefined}
+        action={
+          undoItem
+            ? { label: tCommon('buttons.undo'), onPress: handleUndoDeleteItem }
+            : undefined
+        }
+        onHide={() => {
+          setToastVisible(false);
+          setUndoItem(null);
+        }}
+      />
     </SafeAreaView>
   );
 }
@@ -271,6 +271,20 @@ describe('LocalShoppingService', () => {
     });
   });
 
+  describe('restoreItem', () => {
+    it('should clear the tombstone and persist to storage', async () => {
+      const item = createShoppingItem(mockGroceryItem, 'list-1', 1);
+      (guestStorage.getShoppingItems as jest.Mock).mockResolvedValue([markDeleted(item)]);
+
+      const restored = await service.restoreItem(item);
+
+      expect(restored.deletedAt).toBeUndefined();
+      const savedItems = (guestStorage.saveShoppingItems as jest.Mock).mock.calls[0][0];
+      expect(savedItems[0]).toEqual(expect.objectContaining({ localId: item.localId }));
+      expect(savedItems[0].deletedAt).toBeUndefined();
+    });
+  });
+
   describe('createItem', () => {
     it('should create item and persist to storage', async () => {
       (guestStorage.getShoppingItems as jest.Mock).mockResolvedValue([]);
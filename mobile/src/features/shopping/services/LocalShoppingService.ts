@@ -178,6 +178,18 @@ export class LocalShoppingService implements IShoppingService {
     );
   }
 
+  async restoreItem(item: ShoppingItem): Promise<ShoppingItem> {
+    const existingItems = await guestStorage.getShoppingItems();
+    const itemIndex = findEntityIndex(existingItems, item.id, 'Shopping item');
+
+    return updateEntityInStorage(
+      existingItems,
+      itemIndex,
+      (stored) => withUpdatedAt({ ...stored, deletedAt: undefined }),
+      guestStorage.saveShoppingItems
+    );
+  }
+
   async toggleItem(itemId: string): Promise<ShoppingItem> {
     const existingItems = await guestStorage.getShoppingItems();
     const itemIndex = findEntityIndex(existingItems, itemId, 'Shopping item');
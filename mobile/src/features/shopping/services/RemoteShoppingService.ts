@@ -77,6 +77,11 @@ type ShoppingListDetailDto = {
     isChecked?: boolean | null;
     category?: string | null;
     image?: string | null;
+    claimedById?: string | null;
+    claimedByName?: string | null;
+    checkedById?: string | null;
+    checkedByName?: string | null;
+    checkedAt?: string | null;
   }[];
 };
 
@@ -191,6 +196,11 @@ const mapItemResponseToShoppingItem = (
     category: resolveCategory(response.category, fallbackCategory),
     listId,
     image: response.image ?? existingImage ?? "",
+    claimedById: response.claimedById ?? undefined,
+    claimedByName: response.claimedByName ?? undefined,
+    checkedById: response.checkedById ?? undefined,
+    checkedByName: response.checkedByName ?? undefined,
+    checkedAt: response.checkedAt ? new Date(response.checkedAt) : undefined,
   };
 };
 
@@ -538,14 +548,21 @@ export class RemoteShoppingService implements IShoppingService {
       throw new Error(`Shopping item not found: ${itemId}`);
     }
 
-    // Build payload with only fields allowed by UpdateItemDto (isChecked, quantity)
-    const payload: { isChecked?: boolean; quantity?: number } = {};
+    // Build payload with only fields allowed by UpdateItemDto (isChecked, quantity, claimedById)
+    const payload: {
+      isChecked?: boolean;
+      quantity?: number;
+      claimedById?: string | null;
+    } = {};
     if ("isChecked" in updates && updates.isChecked !== undefined) {
       payload.isChecked = updates.isChecked;
     }
     if ("quantity" in updates && updates.quantity !== undefined) {
       payload.quantity = updates.quantity;
     }
+    if ("claimedById" in updates && updates.claimedById !== undefined) {
+      payload.claimedById = updates.claimedById;
+    }
 
     const response = await api.patch<{
       updatedItem: ShoppingListDetailDto["items"][0];
@@ -601,6 +618,15 @@ export class RemoteShoppingService implements IShoppingService {
     );
   }
 
+  async restoreItem(item: ShoppingItem): Promise<ShoppingItem> {
+    await api.post<{ success: boolean }>(`/shopping-items/${item.id}/restore`, {});
+
+    // deleteItem dropped the item from the cache; put it back (best-effort)
+    const restored = { ...item, deletedAt: undefined };
+    await addEntityToCache("shoppingItems", restored, (i) => i.id);
+    return restored;
+  }
+
   async toggleItem(itemId: string): Promise<ShoppingItem> {
     const existing = await this.findItemById(itemId);
     if (!existing) {
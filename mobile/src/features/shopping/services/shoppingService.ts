@@ -27,6 +27,8 @@ export interface IShoppingService {
   createItem(item: Partial<ShoppingItem>): Promise<ShoppingItem>;
   updateItem(itemId: string, updates: Partial<ShoppingItem>): Promise<ShoppingItem>;
   deleteItem(itemId: string): Promise<void>;
+  /** Brings back a deleted item, e.g. when the user taps "Undo". */
+  restoreItem(item: ShoppingItem): Promise<ShoppingItem>;
   toggleItem(itemId: string): Promise<ShoppingItem>;
 }
 
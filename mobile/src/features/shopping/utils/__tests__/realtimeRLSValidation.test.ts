@@ -1,32 +1,56 @@
 /**
  * Realtime RLS validation tests.
  *
- * Realtime is disabled; shopping data is fetched via the backend API only.
- * These tests verify the useShoppingRealtime hook returns the expected shape.
+ * The backend scopes the event stream to the caller's household via the JWT.
+ * These tests verify the useShoppingRealtime hook only opens the stream for a
+ * signed-in user with a household.
  */
 
 import { renderHook } from '@testing-library/react-native';
 import { useShoppingRealtime } from '../../hooks/useShoppingRealtime';
+import { openEventStream } from '../../../../services/eventStream';
 import type { ICacheAwareShoppingRepository } from '../../../../common/repositories/cacheAwareShoppingRepository';
 
+jest.mock('../../../../services/eventStream', () => ({
+  openEventStream: jest.fn(() => jest.fn()),
+}));
+
 const mockRepository = {
   applyRealtimeListChange: jest.fn().mockResolvedValue(undefined),
   applyRealtimeItemChange: jest.fn().mockResolvedValue(undefined),
 } as unknown as jest.Mocked<ICacheAwareShoppingRepository>;
 
 describe('Realtime RLS Validation', () => {
-  it('hook returns isSubscribed false when realtime is disabled', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('does not open the event stream for a signed-out user', () => {
     const { result } = renderHook(() =>
       useShoppingRealtime({
         isRealtimeEnabled: true,
         householdId: 'household-1',
-        isSignedIn: true,
+        isSignedIn: false,
         repository: mockRepository,
         groceryItems: [],
-        listIds: ['list-1'],
       })
     );
+    expect(openEventStream).not.toHaveBeenCalled();
     expect(result.current.isSubscribed).toBe(false);
     expect(result.current.error).toBeNull();
   });
+
+  it('opens a single household event stream for a signed-in member', () => {
+    renderHook(() =>
+      useShoppingRealtime({
+        isRealtimeEnabled: true,
+        householdId: 'household-1',
+        isSignedIn: true,
+        repository: mockRepository,
+        groceryItems: [],
+      })
+    );
+    expect(openEventStream).toHaveBeenCalledTimes(1);
+    expect(openEventStream).toHaveBeenCalledWith('/realtime/events', expect.any(Object));
+  });
 });
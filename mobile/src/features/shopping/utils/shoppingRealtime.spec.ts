@@ -170,6 +170,37 @@ describe('applyShoppingItemChange', () => {
   });
 });
 
+describe('applyShoppingItemChange – claims', () => {
+  const claimRow = (claimedById: string | null, claimedByName: string | null) => ({
+    eventType: 'UPDATE' as const,
+    new: {
+      id: 'item-1',
+      list_id: 'list-1',
+      name: 'Banana',
+      is_checked: false,
+      claimed_by_id: claimedById,
+      claimed_by_name: claimedByName,
+    },
+    old: null,
+  });
+
+  it('applies a claim from another member', () => {
+    const [item] = applyShoppingItemChange(baseItems, claimRow('user-2', 'Noa'), groceryItems);
+
+    expect(item.claimedById).toBe('user-2');
+    expect(item.claimedByName).toBe('Noa');
+  });
+
+  it('clears a released claim', () => {
+    const claimedItems = [{ ...baseItems[0], claimedById: 'user-2', claimedByName: 'Noa' }];
+
+    const [item] = applyShoppingItemChange(claimedItems, claimRow(null, null), groceryItems);
+
+    expect(item.claimedById).toBeNull();
+    expect(item.claimedByName).toBeUndefined();
+  });
+});
+
 describe('applyShoppingItemChange – localized name preservation', () => {
   it.each([
     ['Hebrew', 'תפוח אדום'],
@@ -34,8 +34,14 @@ type ShoppingItemRow = {
   catalog_item_id?: string | null;
   name?: string | null;
   quantity?: number | null;
+  unit?: string | null;
   category?: string | null;
   is_checked?: boolean | null;
+  claimed_by_id?: string | null;
+  claimed_by_name?: string | null;
+  checked_by_id?: string | null;
+  checked_by_name?: string | null;
+  checked_at?: string | null;
   created_at?: string | null;
   updated_at?: string | null;
   deleted_at?: string | null;
@@ -123,12 +129,31 @@ const mapItemRowToItem = (
     name: existing?.name ?? row.name ?? 'Untitled Item',
     image: matchingGrocery?.image ?? existing?.image ?? '',
     quantity: row.quantity ?? existing?.quantity ?? 1,
+    unit: row.unit ?? existing?.unit,
     category: row.category ?? matchingGrocery?.category ?? existing?.category ?? 'Other',
     listId: row.list_id ?? existing?.listId ?? '',
     isChecked: row.is_checked ?? existing?.isChecked ?? false,
     // Prefer the DB value (authoritative) and fall back to the in-memory
     // catalogItemId so it is never lost after realtime merges.
     catalogItemId: row.catalog_item_id ?? existing?.catalogItemId,
+    // Claims come from the server as a whole: a null claimer means released
+    ...('claimed_by_id' in row
+      ? {
+          claimedById: row.claimed_by_id ?? null,
+          claimedByName: row.claimed_by_name ?? undefined,
+        }
+      : { claimedById: existing?.claimedById, claimedByName: existing?.claimedByName }),
+    ...('checked_by_id' in row
+      ? {
+          checkedById: row.checked_by_id ?? undefined,
+          checkedByName: row.checked_by_name ?? undefined,
+          checkedAt: row.checked_at ? new Date(row.checked_at) : undefined,
+        }
+      : {
+          checkedById: existing?.checkedById,
+          checkedByName: existing?.checkedByName,
+          checkedAt: existing?.checkedAt,
+        }),
   };
 
   // Normalize timestamps from snake_case to camelCase Date objects
@@ -1,20 +1,66 @@
 import type { BaseEntity } from '../../common/types/entityMetadata';
 
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * Structured recurrence rule (mirrors the backend `RecurrenceRule`).
+ * `byWeekday` uses 0 = Sunday ... 6 = Saturday.
+ */
+export interface ChoreRecurrence {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byWeekday?: number[];
+  byMonthDay?: number;
+  until?: string;
+  count?: number;
+}
+
+/** When a rotating chore hands over to the next member (mirrors the backend). */
+export type RotationMode = 'on_completion' | 'on_schedule';
+
+/** Rotation of a recurring chore's assignee among household members. */
+export interface ChoreRotation {
+  /** Member IDs in rotation order */
+  memberIds: string[];
+  mode: RotationMode;
+}
+
 export interface Chore extends BaseEntity {
   title: string;
   assignee?: string;
   assigneeId?: string;
   dueDate: string;
+  /** Display time; unset for all-day chores. */
   dueTime?: string;
-  reminder?: string;
+  /** Due on a whole day rather than at a time. */
+  isAllDay?: boolean;
+  /** Reminder offset before the due date (e.g. 30m, 1h, 1d); null turns it off. */
+  reminder?: string | null;
   isRecurring?: boolean;
-  recurrencePattern?: 'daily' | 'weekly' | 'monthly' | null;
+  /** Frequency shorthand derived from `recurrence`, kept for display. */
+  recurrencePattern?: RecurrenceFrequency | null;
+  recurrence?: ChoreRecurrence | null;
+  rotation?: ChoreRotation | null;
+  /** Name of the member the next occurrence goes to, for rotating chores. */
+  nextAssignee?: string;
   isCompleted: boolean;
-  section: 'today' | 'thisWeek' | 'recurring';
+  /** 'overdue' only comes from the server, which buckets chores in the household timezone. */
+  section: 'overdue' | 'today' | 'thisWeek' | 'recurring';
   icon?: string;
   originalDate?: Date | null;
 }
 
+/** A member's chore completions for the current week, with their streaks. */
+export interface ChoreMemberStats {
+  userId: string;
+  name?: string;
+  avatarUrl?: string;
+  completedCount: number;
+  /** Consecutive days (ending today or yesterday) with at least one completion. */
+  currentStreak: number;
+  longestStreak: number;
+}
+
 export const mockChores: Chore[] = [
   { id: '1', localId: '550e8400-e29b-41d4-a716-446655440200', title: 'Wash dishes', assignee: 'Mom', dueDate: 'Today', dueTime: '6:00 PM', reminder: '1h', isCompleted: false, section: 'today', icon: '🍽️' },
   { id: '2', localId: '550e8400-e29b-41d4-a716-446655440201', title: 'Fold Mitadm', assignee: 'Dad', dueDate: 'Today', dueTime: '3:00 PM', reminder: '30m', isCompleted: true, section: 'today', icon: '👕' },
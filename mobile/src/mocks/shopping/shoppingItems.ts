@@ -14,6 +14,12 @@ export interface ShoppingItem extends BaseEntity {
   category: string;
   listId: string;
   isChecked: boolean;
+  /** Member who said they're buying the item; null when nobody has claimed it */
+  claimedById?: string | null;
+  claimedByName?: string;
+  checkedById?: string;
+  checkedByName?: string;
+  checkedAt?: Date;
 }
 
 export interface Category extends BaseEntity {
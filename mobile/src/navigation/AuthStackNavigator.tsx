@@ -5,6 +5,8 @@ import { LoginScreen } from '../features/auth/screens/LoginScreen';
 import { RegisterScreen } from '../features/auth/screens/RegisterScreen';
 import { EnterInviteCodeScreen } from '../features/auth/screens/EnterInviteCodeScreen';
 import { HouseholdNameScreen } from '../features/auth/screens/HouseholdNameScreen';
+import { ForgotPasswordScreen } from '../features/auth/screens/ForgotPasswordScreen';
+import { ResetPasswordScreen } from '../features/auth/screens/ResetPasswordScreen';
 import { HouseholdOnboardingScreen } from '../features/onboarding/screens/HouseholdOnboardingScreen';
 
 export type AuthStackParamList = {
@@ -13,6 +15,9 @@ export type AuthStackParamList = {
   EnterInviteCode: undefined;
   HouseholdName: undefined;
   HouseholdOnboarding: undefined;
+  ForgotPassword: undefined;
+  /** Opened from the password reset email link, or manually with a pasted code */
+  ResetPassword: { token?: string } | undefined;
 };
 
 const Stack = createNativeStackNavigator<AuthStackParamList>();
@@ -42,6 +47,8 @@ export function AuthStackNavigator() {
       <Stack.Screen name="EnterInviteCode" component={EnterInviteCodeScreen} />
       <Stack.Screen name="HouseholdName" component={HouseholdNameScreen} />
       <Stack.Screen name="HouseholdOnboarding" component={HouseholdOnboardingScreen} />
+      <Stack.Screen name="ForgotPassword" component={ForgotPasswordScreen} />
+      <Stack.Screen name="ResetPassword" component={ResetPasswordScreen} />
     </Stack.Navigator>
   );
 }
@@ -2,6 +2,7 @@ import React from 'react';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { useTranslation } from 'react-i18next';
 import { MainTabsScreen } from './MainTabsScreen';
+import { SyncIssuesScreen } from '../features/settings/screens/SyncIssuesScreen';
 import { MainStackParamList } from './types';
 import { NetworkProvider } from '../contexts/NetworkContext';
 import { AppLifecycleProvider } from '../contexts/AppLifecycleContext';
@@ -30,6 +31,9 @@ function MainNavigatorContent() {
         component={MainTabsScreen}
         options={{ title: t('navigation.home') }}
       />
+      <Stack.Screen name="SyncIssues" options={{ title: t('navigation.syncIssues') }}>
+        {({ navigation }) => <SyncIssuesScreen onBack={navigation.goBack} />}
+      </Stack.Screen>
     </Stack.Navigator>
   );
 }
@@ -7,10 +7,12 @@ import Animated, {
   Easing,
 } from 'react-native-reanimated';
 import type { SharedValue } from 'react-native-reanimated';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { DashboardScreen } from '../features/dashboard/screens/DashboardScreen';
 import { ShoppingListsScreen } from '../features/shopping/screens/ShoppingListsScreen';
 import { RecipesScreen } from '../features/recipes/screens/RecipesScreen';
 import { ChoresScreen } from '../features/chores/screens/ChoresScreen';
+import { MealPlannerScreen } from '../features/planner/screens/MealPlannerScreen';
 import { SettingsScreen } from '../features/settings/screens/SettingsScreen';
 import { BottomPillNav, TabKey } from '../common/components/BottomPillNav';
 import { ShoppingQuickActionModal } from '../features/shopping/components/ShoppingQuickActionModal';
@@ -20,6 +22,7 @@ import type { Recipe } from '../mocks/recipes';
 import { OfflineBanner } from '../common/components/OfflineBanner';
 import { OfflinePill } from '../common/components/OfflinePill';
 import type { AddChoreHandler } from '../features/chores/screens/types';
+import type { MainStackParamList } from './types';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
@@ -30,11 +33,13 @@ const SCREEN_TRANSITION_DURATION_MS = 200;
 const SCREEN_TRANSITION_EASING = Easing.bezier(0.25, 0.1, 0.25, 1);
 
 // Tab order for determining swipe direction
-const TAB_ORDER: TabKey[] = ['Dashboard', 'Shopping', 'Chores', 'Recipes', 'Settings'];
+const TAB_ORDER: TabKey[] = ['Dashboard', 'Shopping', 'Chores', 'Recipes', 'Planner', 'Settings'];
 
 const getTabIndex = (tab: TabKey): number => TAB_ORDER.indexOf(tab);
 
-export function MainTabsScreen() {
+type MainTabsScreenProps = NativeStackScreenProps<MainStackParamList, 'MainTabs'>;
+
+export function MainTabsScreen({ navigation }: MainTabsScreenProps) {
   const [activeTab, setActiveTab] = useState<TabKey>('Dashboard');
   const [shoppingModalVisible, setShoppingModalVisible] = useState(false);
   const [choresModalVisible, setChoresModalVisible] = useState(false);
@@ -49,6 +54,7 @@ export function MainTabsScreen() {
   const shoppingPosition = useSharedValue(SCREEN_WIDTH);
   const choresPosition = useSharedValue(SCREEN_WIDTH);
   const recipesPosition = useSharedValue(SCREEN_WIDTH);
+  const plannerPosition = useSharedValue(SCREEN_WIDTH);
   const settingsPosition = useSharedValue(SCREEN_WIDTH);
 
   const screenPositions: Record<TabKey, SharedValue<number>> = {
@@ -56,6 +62,7 @@ export function MainTabsScreen() {
     Shopping: shoppingPosition,
     Chores: choresPosition,
     Recipes: recipesPosition,
+    Planner: plannerPosition,
     Settings: settingsPosition,
   };
 
@@ -118,6 +125,10 @@ export function MainTabsScreen() {
     choreHandlerRef.current = handler;
   }, []);
 
+  const handleOpenSyncIssues = useCallback(() => {
+    navigation.navigate('SyncIssues');
+  }, [navigation]);
+
   // Create animated styles for each screen
   const dashboardStyle = useAnimatedStyle(() => ({
     transform: [{ translateX: dashboardPosition.value }],
@@ -131,6 +142,9 @@ export function MainTabsScreen() {
   const recipesStyle = useAnimatedStyle(() => ({
     transform: [{ translateX: recipesPosition.value }],
   }));
+  const plannerStyle = useAnimatedStyle(() => ({
+    transform: [{ translateX: plannerPosition.value }],
+  }));
   const settingsStyle = useAnimatedStyle(() => ({
     transform: [{ translateX: settingsPosition.value }],
   }));
@@ -140,6 +154,7 @@ export function MainTabsScreen() {
     Shopping: shoppingStyle,
     Chores: choresStyle,
     Recipes: recipesStyle,
+    Planner: plannerStyle,
     Settings: settingsStyle,
   };
 
@@ -172,8 +187,10 @@ export function MainTabsScreen() {
             onRegisterAddChoreHandler={setChoreHandler}
           />
         );
+      case 'Planner':
+        return <MealPlannerScreen />;
       case 'Settings':
-        return <SettingsScreen />;
+        return <SettingsScreen onOpenSyncIssues={handleOpenSyncIssues} />;
       default:
         return null;
     }
@@ -198,7 +215,7 @@ export function MainTabsScreen() {
         ))}
       </View>
 
-      <OfflinePill position="bottom-right" />
+      <OfflinePill position="bottom-right" onPressIssues={handleOpenSyncIssues} />
       <BottomPillNav activeTab={activeTab} onTabPress={handleTabPress} />
 
       <ShoppingQuickActionModal
@@ -1,9 +1,10 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { ActivityIndicator, Platform, View, StyleSheet } from 'react-native';
 import { NavigationContainer } from '@react-navigation/native';
 import { useAuth } from '../contexts/AuthContext';
 import { AuthStackNavigator } from './AuthStackNavigator';
 import { MainNavigator } from './MainNavigator';
+import { authLinking } from './linking';
 import { invalidateAllSignedInCaches } from '../common/repositories/cacheAwareRepository';
 import { colors } from '../theme';
 
@@ -21,6 +22,15 @@ export function RootNavigator() {
     });
   }, [user, isLoading]);
 
+  // Show AuthStackNavigator if user is not logged in, has no household, or needs to set household name
+  const shouldShowAuthStack = !user || !user.householdId || showHouseholdNameScreen;
+
+  // Reset links only make sense while signed out; web keeps its default URL handling
+  const linking = useMemo(
+    () => ({ ...authLinking, enabled: Platform.OS !== 'web' && shouldShowAuthStack }),
+    [shouldShowAuthStack]
+  );
+
   if (isLoading) {
     return (
       <View style={styles.loadingContainer}>
@@ -29,11 +39,8 @@ export function RootNavigator() {
     );
   }
 
-  // Show AuthStackNavigator if user is not logged in, has no household, or needs to set household name
-  const shouldShowAuthStack = !user || !user.householdId || showHouseholdNameScreen;
-
   return (
-    <NavigationContainer>
+    <NavigationContainer linking={linking}>
       {shouldShowAuthStack ? <AuthStackNavigator /> : <MainNavigator />}
     </NavigationContainer>
   );
@@ -0,0 +1,23 @@
+import * as Linking from 'expo-linking';
+import type { LinkingOptions } from '@react-navigation/native';
+import type { AuthStackParamList } from './AuthStackNavigator';
+
+/** Path of the link in password reset emails: `kitchen-hub://auth/reset-password?token=...` */
+export const RESET_PASSWORD_PATH = 'auth/reset-password';
+
+/**
+ * Deep links routed by the navigation container. Only password reset links
+ * are handled here; OAuth callbacks (`auth/callback`) are consumed by the
+ * auth session in `useOAuthSignIn`. The `token` query param becomes the
+ * ResetPassword route param.
+ */
+export const authLinking: LinkingOptions<AuthStackParamList> = {
+  prefixes: [Linking.createURL('/')],
+  filter: (url) => url.includes(RESET_PASSWORD_PATH),
+  config: {
+    initialRouteName: 'Login',
+    screens: {
+      ResetPassword: RESET_PASSWORD_PATH,
+    },
+  },
+};
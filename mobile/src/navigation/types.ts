@@ -1,7 +1,8 @@
-export type TabKey = 'Dashboard' | 'Shopping' | 'Recipes' | 'Chores' | 'Settings';
+export type TabKey = 'Dashboard' | 'Shopping' | 'Recipes' | 'Chores' | 'Planner' | 'Settings';
 
 export type MainStackParamList = {
   MainTabs: undefined;
+  SyncIssues: undefined;
 };
 
 export type ShoppingStackParamList = {
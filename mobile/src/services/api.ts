@@ -94,6 +94,23 @@ class ApiClient {
     return this.apiVersion;
   }
 
+  /**
+   * Gets the token sent with authenticated requests.
+   * @returns JWT token, or null when signed out
+   */
+  public getAuthToken(): string | null {
+    return this.authToken;
+  }
+
+  /**
+   * Builds the full URL for an endpoint, e.g. /api/v1/shopping-lists.
+   * @param endpoint - Endpoint path starting with a slash
+   * @returns Versioned URL
+   */
+  public buildUrl(endpoint: string): string {
+    return `${this.baseUrl}/v${this.apiVersion}${endpoint}`;
+  }
+
   public static setNetworkStatusProvider(provider?: NetworkStatusProvider) {
     ApiClient.networkStatusProvider = provider;
   }
@@ -128,7 +145,7 @@ class ApiClient {
     const { signal, clearTimeoutRef } = this.createRequestTimeout();
 
     // Construct URL with version: /api/v1/endpoint or /api/v2/endpoint
-    const versionedUrl = `${this.baseUrl}/v${this.apiVersion}${endpoint}`;
+    const versionedUrl = this.buildUrl(endpoint);
     const isRefreshEndpoint = endpoint === "/auth/refresh";
 
     try {
@@ -0,0 +1,153 @@
+import { api } from './api';
+import {
+    EVENT_STREAM_MAX_RESPONSE_LENGTH,
+    openEventStream,
+    parseEventStream,
+} from './eventStream';
+
+class FakeXMLHttpRequest {
+    static instances: FakeXMLHttpRequest[] = [];
+
+    readyState = 0;
+    status = 0;
+    responseText = '';
+    headers: Record<string, string> = {};
+    url = '';
+    onreadystatechange: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+    abort = jest.fn();
+    send = jest.fn();
+
+    constructor() {
+        FakeXMLHttpRequest.instances.push(this);
+    }
+
+    open(_method: string, url: string) {
+        this.url = url;
+    }
+
+    setRequestHeader(name: string, value: string) {
+        this.headers[name] = value;
+    }
+
+    receive(chunk: string, status = 200) {
+        this.status = status;
+        this.readyState = 3;
+        this.responseText += chunk;
+        this.onreadystatechange?.();
+    }
+
+    finish() {
+        this.readyState = 4;
+        this.onreadystatechange?.();
+    }
+}
+
+describe('parseEventStream', () => {
+    it('parses complete events and keeps the partial one', () => {
+        const { messages, remainder } = parseEventStream(
+            'event: change\ndata: {"id":1}\n\n: keep-alive\n\ndata: {"id":2}\n\nevent: ping\ndata: {',
+        );
+
+        expect(messages).toEqual([
+            { event: 'change', data: '{"id":1}' },
+            { event: 'message', data: '{"id":2}' },
+        ]);
+        expect(remainder).toBe('event: ping\ndata: {');
+    });
+
+    it('joins multi-line data and accepts CRLF line endings', () => {
+        const { messages } = parseEventStream('data: a\r\ndata: b\r\n\r\n');
+
+        expect(messages).toEqual([{ event: 'message', data: 'a\nb' }]);
+    });
+});
+
+describe('openEventStream', () => {
+    const originalXhr = global.XMLHttpRequest;
+
+    beforeEach(() => {
+        FakeXMLHttpRequest.instances = [];
+        global.XMLHttpRequest = FakeXMLHttpRequest as unknown as typeof XMLHttpRequest;
+        api.setAuthToken('token-1');
+    });
+
+    afterEach(() => {
+        global.XMLHttpRequest = originalXhr;
+        api.setAuthToken(null);
+    });
+
+    it('sends the auth token and delivers events across chunks', () => {
+        const onOpen = jest.fn();
+        const onMessage = jest.fn();
+        openEventStream('/realtime/events', { onOpen, onMessage });
+        const xhr = FakeXMLHttpRequest.instances[0];
+
+        expect(xhr.url).toBe(api.buildUrl('/realtime/events'));
+        expect(xhr.headers.Authorization).toBe('Bearer token-1');
+
+        xhr.receive('event: change\ndata: {"a"');
+        xhr.receive(':1}\n\n');
+
+        expect(onOpen).toHaveBeenCalledTimes(1);
+        expect(onMessage).toHaveBeenCalledTimes(1);
+        expect(onMessage).toHaveBeenCalledWith({ event: 'change', data: '{"a":1}' });
+    });
+
+    it('reports a rejected connection', () => {
+        const onError = jest.fn();
+        openEventStream('/realtime/events', { onMessage: jest.fn(), onError });
+        const xhr = FakeXMLHttpRequest.instances[0];
+
+        xhr.receive('', 401);
+
+        expect(onError).toHaveBeenCalledWith(expect.any(Error));
+        expect(xhr.abort).toHaveBeenCalled();
+    });
+
+    it('reports the server closing the stream, but not a close by the caller', () => {
+        const onError = jest.fn();
+        const close = openEventStream('/realtime/events', { onMessage: jest.fn(), onError });
+        FakeXMLHttpRequest.instances[0].receive('');
+        FakeXMLHttpRequest.instances[0].finish();
+        expect(onError).toHaveBeenCalledTimes(1);
+
+        const secondError = jest.fn();
+        const closeSecond = openEventStream('/realtime/events', {
+            onMessage: jest.fn(),
+            onError: secondError,
+        });
+        closeSecond();
+        FakeXMLHttpRequest.instances[1].finish();
+        expect(secondError).not.toHaveBeenCalled();
+        close();
+    });
+
+    it('moves to a fresh request once the response grows large, without gaps', () => {
+        const onOpen = jest.fn();
+        const onMessage = jest.fn();
+        const onError = jest.fn();
+        openEventStream('/realtime/events', { onOpen, onMessage, onError });
+        const first = FakeXMLHttpRequest.instances[0];
+
+        first.receive(`data: ${'x'.repeat(EVENT_STREAM_MAX_RESPONSE_LENGTH)}\n\n`);
+        expect(FakeXMLHttpRequest.instances).toHaveLength(2);
+        const second = FakeXMLHttpRequest.instances[1];
+        expect(second.headers.Authorization).toBe('Bearer token-1');
+
+        first.receive('data: before-switch\n\n');
+        expect(first.abort).not.toHaveBeenCalled();
+
+        second.receive('data: after-switch\n\n');
+        expect(first.abort).toHaveBeenCalled();
+        first.finish();
+        first.receive('data: stale\n\n');
+
+        expect(onOpen).toHaveBeenCalledTimes(1);
+        expect(onError).not.toHaveBeenCalled();
+        expect(onMessage.mock.calls.map(([message]) => message.data).slice(1)).toEqual([
+            'before-switch',
+            'after-switch',
+        ]);
+    });
+});
@@ -0,0 +1,178 @@
+import { api } from "./api";
+import { logger } from "../common/utils/logger";
+
+/**
+ * A single server-sent event. `event` defaults to "message" when the server
+ * does not name it; `data` is the raw (unparsed) payload.
+ */
+export interface EventStreamMessage {
+  event: string;
+  data: string;
+}
+
+export interface EventStreamHandlers {
+  /** Called once the server has accepted the connection. */
+  onOpen?: () => void;
+  onMessage: (message: EventStreamMessage) => void;
+  /** Called when the connection fails or the server closes it. */
+  onError?: (error: Error) => void;
+}
+
+const XHR_HEADERS_RECEIVED = 2;
+const XHR_LOADING = 3;
+const XHR_DONE = 4;
+
+/**
+ * Splits buffered `text/event-stream` data into complete events.
+ *
+ * Events end with a blank line; a trailing partial event is returned as
+ * `remainder` so it can be completed by the next chunk. Comment lines and
+ * fields other than `event` and `data` are ignored.
+ *
+ * @param buffer - Stream data received so far and not yet parsed
+ * @returns Complete events and the unparsed remainder
+ */
+export function parseEventStream(buffer: string): {
+  messages: EventStreamMessage[];
+  remainder: string;
+} {
+  const normalized = buffer.replace(/\r\n?/g, "\n");
+  const blocks = normalized.split("\n\n");
+  const remainder = blocks.pop() ?? "";
+
+  const messages = blocks.flatMap((block) => {
+    let event = "message";
+    const dataLines: string[] = [];
+
+    block.split("\n").forEach((line) => {
+      if (line === "" || line.startsWith(":")) return;
+      const separator = line.indexOf(":");
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value =
+        separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+      if (field === "event") {
+        event = value;
+      } else if (field === "data") {
+        dataLines.push(value);
+      }
+    });
+
+    return dataLines.length > 0 ? [{ event, data: dataLines.join("\n") }] : [];
+  });
+
+  return { messages, remainder };
+}
+
+/**
+ * Response length after which the stream moves to a fresh connection.
+ * XMLHttpRequest keeps the whole response in `responseText`, so a stream
+ * left open on a single request would hold every event it ever received.
+ */
+export const EVENT_STREAM_MAX_RESPONSE_LENGTH = 1_000_000;
+
+/**
+ * Opens an authenticated server-sent event stream to an API endpoint.
+ *
+ * React Native has no EventSource, so this reads the response incrementally
+ * through XMLHttpRequest. Once a response reaches
+ * `EVENT_STREAM_MAX_RESPONSE_LENGTH`, a replacement request is opened and the
+ * old one is aborted only after the replacement is accepted, so no events
+ * are missed. The stream is not reopened after a failure; callers decide how
+ * to reconnect from `onError`.
+ *
+ * @param endpoint - Endpoint path, e.g. `/realtime/events`
+ * @param handlers - Connection and message callbacks
+ * @returns Function that closes the stream
+ */
+export function openEventStream(
+  endpoint: string,
+  handlers: EventStreamHandlers,
+): () => void {
+  let isClosed = false;
+  let current: XMLHttpRequest;
+  let replacement: XMLHttpRequest | null = null;
+
+  const close = () => {
+    if (isClosed) return;
+    isClosed = true;
+    current.abort();
+    replacement?.abort();
+  };
+
+  const fail = (error: Error) => {
+    if (isClosed) return;
+    close();
+    handlers.onError?.(error);
+  };
+
+  const connect = (): XMLHttpRequest => {
+    const xhr = new XMLHttpRequest();
+    let isOpen = false;
+    let readLength = 0;
+    let buffer = "";
+    const isLive = () => !isClosed && (xhr === current || xhr === replacement);
+
+    xhr.onreadystatechange = () => {
+      if (!isLive()) return;
+
+      if (xhr.readyState >= XHR_HEADERS_RECEIVED && !isOpen) {
+        if (xhr.status !== 200) {
+          fail(new Error(`Event stream failed with status ${xhr.status}`));
+          return;
+        }
+        isOpen = true;
+        if (xhr === replacement) {
+          const previous = current;
+          current = xhr;
+          replacement = null;
+          previous.abort();
+        } else {
+          handlers.onOpen?.();
+        }
+      }
+
+      if (xhr.readyState >= XHR_LOADING) {
+        const text = xhr.responseText ?? "";
+        buffer += text.slice(readLength);
+        readLength = text.length;
+
+        const { messages, remainder } = parseEventStream(buffer);
+        buffer = remainder;
+        messages.forEach((message) => handlers.onMessage(message));
+
+        if (
+          readLength >= EVENT_STREAM_MAX_RESPONSE_LENGTH &&
+          xhr === current &&
+          !replacement
+        ) {
+          replacement = connect();
+        }
+      }
+
+      if (xhr.readyState === XHR_DONE) {
+        fail(new Error("Event stream closed by the server"));
+      }
+    };
+    xhr.onerror = () => {
+      if (isLive()) {
+        fail(new Error("Event stream connection failed"));
+      }
+    };
+
+    const url = api.buildUrl(endpoint);
+    logger.debug(`[EventStream] Opening ${url}`);
+    xhr.open("GET", url);
+    xhr.setRequestHeader("Accept", "text/event-stream");
+    xhr.setRequestHeader("Cache-Control", "no-cache");
+    const token = api.getAuthToken();
+    if (token) {
+      xhr.setRequestHeader("Authorization", `Bearer ${token}`);
+    }
+    xhr.send();
+    return xhr;
+  };
+
+  current = connect();
+
+  return close;
+}
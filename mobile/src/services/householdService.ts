@@ -1,4 +1,5 @@
 import { api } from './api';
+import type { HouseholdRole } from '../features/settings/utils/householdPermissions';
 
 export interface HouseholdMember {
     id: string;
@@ -11,9 +12,58 @@ export interface HouseholdMember {
 export interface Household {
     id: string;
     name: string;
+    /** Invite joins wait for an admin's approval */
+    requireJoinApproval?: boolean;
     members: HouseholdMember[];
 }
 
+export interface HouseholdMembership {
+    id: string;
+    name: string;
+    role: string;
+    joinedAt: string;
+    isActive: boolean;
+}
+
+export interface HouseholdInvite {
+    id: string;
+    code: string;
+    email?: string;
+    maxUses?: number;
+    useCount: number;
+    expiresAt?: string;
+    createdAt: string;
+    createdBy: { id: string; name?: string };
+}
+
+export interface HouseholdJoinRequest {
+    id: string;
+    householdId: string;
+    householdName: string;
+    status: 'pending' | 'approved' | 'rejected';
+    createdAt: string;
+    user: { id: string; name?: string; email?: string; avatarUrl?: string };
+}
+
+/**
+ * Joining either succeeds right away or, when the household requires
+ * approval, leaves a request waiting for an admin.
+ */
+export interface JoinHouseholdResult {
+    status: 'joined' | 'pending';
+    household?: Household;
+    joinRequest?: HouseholdJoinRequest;
+}
+
+export interface CreateInviteOptions {
+    /** Also sends the code to this address */
+    email?: string;
+    /** Unlimited when omitted */
+    maxUses?: number;
+    /** Never expires when omitted */
+    expiresInDays?: number;
+}
+
 export const householdService = {
     /**
      * Creates a new household.
@@ -25,16 +75,71 @@ export const householdService = {
     /**
      * Joins an existing household via invite code.
      */
-    joinHousehold: async (inviteCode: string): Promise<Household> => {
-        return api.post<Household>('/household/join', { inviteCode });
+    joinHousehold: async (inviteCode: string): Promise<JoinHouseholdResult> => {
+        return api.post<JoinHouseholdResult>('/household/join', { inviteCode });
+    },
+
+    /**
+     * Updates household settings (admin only).
+     */
+    updateHousehold: async (updates: { name?: string; requireJoinApproval?: boolean }): Promise<Household> => {
+        return api.put<Household>('/household', updates);
+    },
+
+    /**
+     * Lists requests waiting to join the household (admin only).
+     */
+    listJoinRequests: async (): Promise<HouseholdJoinRequest[]> => {
+        return api.get<HouseholdJoinRequest[]>('/household/join-requests');
+    },
+
+    /**
+     * Approves a join request; the requester becomes a member (admin only).
+     */
+    approveJoinRequest: async (requestId: string): Promise<Household> => {
+        return api.post<Household>(`/household/join-requests/${encodeURIComponent(requestId)}/approve`, {});
     },
 
     /**
-     * Generates an invite code for the household.
+     * Rejects a join request (admin only).
      */
-    inviteMember: async (email?: string): Promise<{ inviteToken: string }> => {
-        // Backend currently expects an email in the DTO, even if it doesn't use it for the code generation
-        return api.post<{ inviteToken: string }>('/household/invite', { email: email || 'dummy@example.com' });
+    rejectJoinRequest: async (requestId: string): Promise<{ success: boolean }> => {
+        return api.post<{ success: boolean }>(`/household/join-requests/${encodeURIComponent(requestId)}/reject`, {});
+    },
+
+    /**
+     * Lists the current user's own join requests still waiting for approval.
+     */
+    listMyJoinRequests: async (): Promise<HouseholdJoinRequest[]> => {
+        return api.get<HouseholdJoinRequest[]>('/household/join-requests/mine');
+    },
+
+    /**
+     * Withdraws one of the current user's pending join requests.
+     */
+    cancelJoinRequest: async (requestId: string): Promise<{ success: boolean }> => {
+        return api.delete<{ success: boolean }>(`/household/join-requests/mine/${encodeURIComponent(requestId)}`);
+    },
+
+    /**
+     * Generates an invite code for the household, optionally emailing it.
+     */
+    inviteMember: async (options: CreateInviteOptions = {}): Promise<{ inviteToken: string }> => {
+        return api.post<{ inviteToken: string }>('/household/invite', options);
+    },
+
+    /**
+     * Lists the household's outstanding invites (admin only).
+     */
+    listInvites: async (): Promise<HouseholdInvite[]> => {
+        return api.get<HouseholdInvite[]>('/household/invites');
+    },
+
+    /**
+     * Revokes an invite so its code stops working (admin only).
+     */
+    revokeInvite: async (inviteId: string): Promise<{ success: boolean }> => {
+        return api.delete<{ success: boolean }>(`/household/invites/${encodeURIComponent(inviteId)}`);
     },
 
     /**
@@ -43,4 +148,46 @@ export const householdService = {
     getHousehold: async (): Promise<Household> => {
         return api.get<Household>('/household');
     },
+
+    /**
+     * Lists every household the current user belongs to.
+     */
+    listMemberships: async (): Promise<HouseholdMembership[]> => {
+        return api.get<HouseholdMembership[]>('/household/memberships');
+    },
+
+    /**
+     * Removes a member from the household (admin only).
+     */
+    removeMember: async (memberId: string): Promise<{ success: boolean }> => {
+        return api.delete<{ success: boolean }>(`/household/members/${encodeURIComponent(memberId)}`);
+    },
+
+    /**
+     * Hands the admin role to another member; the caller becomes a member (admin only).
+     */
+    transferAdmin: async (memberId: string): Promise<Household> => {
+        return api.post<Household>(`/household/members/${encodeURIComponent(memberId)}/transfer-admin`, {});
+    },
+
+    /**
+     * Leaves the active household.
+     */
+    leaveHousehold: async (): Promise<{ success: boolean }> => {
+        return api.post<{ success: boolean }>('/household/leave', {});
+    },
+
+    /**
+     * Dissolves the active household and deletes its data (admin only).
+     */
+    dissolveHousehold: async (): Promise<{ success: boolean }> => {
+        return api.delete<{ success: boolean }>('/household');
+    },
+
+    /**
+     * Changes a member's household role (admin only).
+     */
+    updateMemberRole: async (memberId: string, role: HouseholdRole): Promise<HouseholdMember> => {
+        return api.patch<HouseholdMember>(`/household/members/${encodeURIComponent(memberId)}/role`, { role });
+    },
 };